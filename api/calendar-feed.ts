@@ -0,0 +1,173 @@
+/**
+ * Calendar Feed (Vercel serverless function)
+ *
+ * GET /api/calendar-feed?token=... returns the token owner's calendar as
+ * iCal: job tasks assigned to them, events they attend and their work days.
+ * Tokens are managed from the Profile page (see src/services/calendarFeed.ts).
+ *
+ * Needs SUPABASE_SERVICE_ROLE_KEY, since calendar apps fetch the feed
+ * without a session and RLS would hide everything. Feeds of deactivated
+ * people answer 404 like unknown tokens.
+ *
+ * Times are written in the owner's time zone (their own, else the
+ * organization's), so the subscribing app shows them at the right hour.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { createClient } from '@supabase/supabase-js';
+import { generateICSFeed, ICSTask } from '../src/utils/calendarExport';
+import { addDays, getTodayKey, isValidTimeZone } from '../src/utils/dateTime';
+import { CalendarEvent, TaskPriority, TaskStatus, WorkDay, WorkDayStatus } from '../src/types';
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.REACT_APP_SUPABASE_URL || '';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+// Past items are kept this long so recent history stays visible in the subscribing app
+const FEED_HISTORY_DAYS = 90;
+
+const mapEventRow = (row: any): CalendarEvent => ({
+  id: row.id,
+  title: row.title,
+  description: row.description || '',
+  startDate: row.start_date,
+  startTime: row.start_time || undefined,
+  endDate: row.end_date || undefined,
+  endTime: row.end_time || undefined,
+  location: row.location || undefined,
+  isAllDay: row.is_all_day || false,
+  color: row.color,
+  attendees: row.attendees || [],
+  isRecurring: row.is_recurring || false,
+  recurrencePattern: row.recurrence_pattern || undefined,
+  icsUid: row.ics_uid || undefined,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+});
+
+const mapTaskRow = (row: any): ICSTask => ({
+  id: row.id,
+  title: row.title,
+  description: row.description || '',
+  scheduledDate: row.scheduled_date,
+  dueTime: row.due_time || undefined,
+  estimatedDuration: row.estimated_duration || undefined,
+  status: row.status as TaskStatus,
+  priority: row.priority as TaskPriority,
+});
+
+const mapWorkDayRow = (row: any): WorkDay => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  workDate: row.work_date,
+  status: row.status as WorkDayStatus,
+  notes: row.notes || undefined,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+});
+
+const send = (res: ServerResponse, status: number, message: string) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.end(message);
+};
+
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    send(res, 405, 'Method not allowed');
+    return;
+  }
+  if (!supabaseUrl || !serviceRoleKey) {
+    send(res, 500, 'Calendar feed is not configured');
+    return;
+  }
+
+  const token = new URL(req.url || '', 'http://localhost').searchParams.get('token');
+  if (!token) {
+    send(res, 404, 'Calendar feed not found');
+    return;
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  try {
+    const { data: feedToken, error: tokenError } = await supabase
+      .from('calendar_feed_tokens')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (tokenError) throw tokenError;
+    // Rotated and revoked tokens land here too
+    if (!feedToken) {
+      send(res, 404, 'Calendar feed not found');
+      return;
+    }
+
+    const userId: string = feedToken.user_id;
+
+    const [profileResult, settingsResult] = await Promise.all([
+      supabase.from('profiles').select('first_name, last_name, time_zone, is_active').eq('id', userId).maybeSingle(),
+      supabase.from('organization_settings').select('time_zone').eq('id', 'default').maybeSingle(),
+    ]);
+
+    if (profileResult.error) throw profileResult.error;
+    const profile = profileResult.data;
+    // Removed people keep their token row, but their feed stops with their access
+    if (!profile || profile.is_active === false) {
+      send(res, 404, 'Calendar feed not found');
+      return;
+    }
+
+    const timeZone = [profile.time_zone, settingsResult.data?.time_zone].find(isValidTimeZone) || 'UTC';
+    const since = addDays(getTodayKey(timeZone), -FEED_HISTORY_DAYS);
+
+    const [eventsResult, tasksResult, workDaysResult] = await Promise.all([
+      supabase.from('calendar_events').select('*').contains('attendees', [userId]),
+      supabase
+        .from('job_tasks')
+        .select('id, title, description, scheduled_date, due_time, estimated_duration, status, priority')
+        .contains('assigned_to', [userId])
+        .not('status', 'in', '(draft,archived)')
+        .gte('scheduled_date', since),
+      supabase
+        .from('work_days')
+        .select('*')
+        .eq('employee_id', userId)
+        .neq('status', 'cancelled')
+        .gte('work_date', since),
+    ]);
+
+    if (eventsResult.error) throw eventsResult.error;
+    if (tasksResult.error) throw tasksResult.error;
+    if (workDaysResult.error) throw workDaysResult.error;
+
+    // Recurring events started long ago still repeat into the feed window
+    const events = (eventsResult.data || [])
+      .map(mapEventRow)
+      .filter(event => event.isRecurring || (event.endDate || event.startDate) >= since);
+
+    const ics = generateICSFeed({
+      name: `${profile.first_name} ${profile.last_name} - SOP App`,
+      timeZone,
+      events,
+      tasks: (tasksResult.data || []).map(mapTaskRow),
+      workDays: (workDaysResult.data || []).map(mapWorkDayRow),
+    });
+
+    await supabase
+      .from('calendar_feed_tokens')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('user_id', userId);
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="calendar.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.end(req.method === 'HEAD' ? undefined : ics);
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    send(res, 500, 'Could not build the calendar feed');
+  }
+}
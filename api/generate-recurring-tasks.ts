@@ -0,0 +1,148 @@
+/**
+ * Generate Recurring Tasks (Vercel serverless function, run by cron)
+ *
+ * GET /api/generate-recurring-tasks materialises the upcoming occurrences of
+ * every recurring job task (see src/utils/recurrence.ts), so series keep
+ * filling the rolling window even when nobody has the app open. Admin
+ * sessions still generate too, so a new series shows up straight away; the
+ * unique (series_id, occurrence_date) index from migration v11 keeps the two
+ * from creating the same occurrence twice.
+ *
+ * "Today" is the organization's date. Needs SUPABASE_SERVICE_ROLE_KEY and
+ * CRON_SECRET, which Vercel Cron sends as a bearer token.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { createClient } from '@supabase/supabase-js';
+import { NewJobTask, planRecurringOccurrences } from '../src/utils/recurrence';
+import { getTodayKey, isValidTimeZone } from '../src/utils/dateTime';
+import { JobTask, TaskPriority, TaskStatus } from '../src/types';
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.REACT_APP_SUPABASE_URL || '';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const cronSecret = process.env.CRON_SECRET || '';
+
+const mapTaskRow = (row: any): JobTask => ({
+  id: row.id,
+  templateId: row.template_id,
+  title: row.title,
+  description: row.description,
+  assignedTo: row.assigned_to || [],
+  assignedBy: row.assigned_by,
+  department: row.department,
+  category: row.category,
+  scheduledDate: row.scheduled_date,
+  dueTime: row.due_time,
+  estimatedDuration: row.estimated_duration,
+  status: row.status as TaskStatus,
+  priority: row.priority as TaskPriority,
+  steps: row.steps || [],
+  completedSteps: row.completed_steps || [],
+  progressPercentage: row.progress_percentage || 0,
+  sopIds: row.sop_ids || [],
+  comments: row.comments || [],
+  createdAt: row.created_at,
+  isRecurring: row.is_recurring || false,
+  recurrencePattern: row.recurrence_pattern,
+  seriesId: row.series_id || undefined,
+  occurrenceDate: row.occurrence_date || undefined,
+  dependsOn: row.depends_on || [],
+});
+
+const toTaskRow = (task: NewJobTask) => ({
+  template_id: task.templateId,
+  title: task.title,
+  description: task.description,
+  assigned_to: task.assignedTo,
+  assigned_by: task.assignedBy,
+  department: task.department,
+  category: task.category,
+  scheduled_date: task.scheduledDate,
+  due_time: task.dueTime,
+  estimated_duration: task.estimatedDuration,
+  status: task.status,
+  priority: task.priority,
+  steps: task.steps,
+  completed_steps: task.completedSteps,
+  progress_percentage: 0,
+  sop_ids: task.sopIds,
+  comments: task.comments,
+  is_recurring: true,
+  recurrence_pattern: task.recurrencePattern,
+  series_id: task.seriesId,
+  occurrence_date: task.occurrenceDate,
+  depends_on: [],
+});
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    send(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+  if (!supabaseUrl || !serviceRoleKey || !cronSecret) {
+    send(res, 500, { error: 'Recurring task generation is not configured' });
+    return;
+  }
+  if (req.headers.authorization !== `Bearer ${cronSecret}`) {
+    send(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  try {
+    const { data: settings, error: settingsError } = await supabase
+      .from('organization_settings')
+      .select('time_zone')
+      .eq('id', 'default')
+      .maybeSingle();
+
+    if (settingsError) throw settingsError;
+    const timeZone = isValidTimeZone(settings?.time_zone) ? settings!.time_zone : 'UTC';
+    const today = getTodayKey(timeZone);
+
+    // Series roots, plus the occurrences the window could already hold
+    const [rootsResult, occurrencesResult] = await Promise.all([
+      supabase
+        .from('job_tasks')
+        .select('*')
+        .eq('is_recurring', true)
+        .is('series_id', null)
+        .neq('status', 'archived'),
+      supabase
+        .from('job_tasks')
+        .select('*')
+        .not('series_id', 'is', null)
+        .gte('occurrence_date', today),
+    ]);
+
+    if (rootsResult.error) throw rootsResult.error;
+    if (occurrencesResult.error) throw occurrencesResult.error;
+
+    const planned = planRecurringOccurrences(
+      [...(rootsResult.data || []), ...(occurrencesResult.data || [])].map(mapTaskRow),
+      today
+    );
+
+    if (planned.length > 0) {
+      const { error } = await supabase
+        .from('job_tasks')
+        .upsert(planned.map(toTaskRow), { onConflict: 'series_id,occurrence_date', ignoreDuplicates: true });
+
+      if (error) throw error;
+    }
+
+    send(res, 200, { generated: planned.length });
+  } catch (error) {
+    console.error('Error generating recurring tasks:', error);
+    send(res, 500, { error: 'Could not generate recurring tasks' });
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Email transports
+ *
+ * Sends plain-text email through one of:
+ *   smtp     SMTP_HOST, SMTP_PORT (587), SMTP_USER, SMTP_PASS. Port 465 or
+ *            SMTP_SECURE=true connects over TLS; otherwise STARTTLS is used
+ *            when the server offers it.
+ *   file     Writes each message as an .eml file to EMAIL_OUTPUT_DIR, for
+ *            development.
+ *   console  Logs each message, for development.
+ *
+ * EMAIL_TRANSPORT picks one; without it SMTP is used when SMTP_HOST is set,
+ * else the console. EMAIL_FROM is the sender address.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: 'smtp' | 'file' | 'console';
+  send: (message: EmailMessage) => Promise<void>;
+}
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const SMTP_TIMEOUT = 30 * 1000;
+
+// "App <noreply@example.com>" -> "noreply@example.com"
+const addressOf = (value: string) => (value.match(/<([^>]+)>/)?.[1] || value).trim();
+
+// RFC 2047, for headers that are not plain ASCII
+const encodeHeader = (value: string) =>
+  // eslint-disable-next-line no-control-regex
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+const buildMessage = (from: string, message: EmailMessage): string => {
+  const domain = addressOf(from).split('@')[1] || 'localhost';
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'))
+    .toString('base64')
+    .replace(/.{76}/g, '$&\r\n');
+
+  return [
+    `From: ${encodeHeader(from)}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+};
+
+/**
+ * Line-based SMTP conversation over a socket. Replies are queued as they
+ * arrive and handed out in order.
+ */
+const createSmtpSession = (socket: net.Socket) => {
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+
+  const fail = (error: Error) => {
+    failure = failure || error;
+    waiting.splice(0).forEach(waiter => waiter.reject(failure!));
+  };
+
+  socket.setEncoding('utf8');
+  socket.setTimeout(SMTP_TIMEOUT, () => socket.destroy(new Error('SMTP server timed out')));
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('SMTP connection closed')));
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line.slice(4));
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line[3] === '-') continue;
+
+      const reply = { code: Number(line.slice(0, 3)), lines };
+      lines = [];
+      const waiter = waiting.shift();
+      if (waiter) waiter.resolve(reply);
+      else replies.push(reply);
+    }
+  });
+
+  const read = () =>
+    new Promise<SmtpReply>((resolve, reject) => {
+      if (replies.length > 0) resolve(replies.shift()!);
+      else if (failure) reject(failure);
+      else waiting.push({ resolve, reject });
+    });
+
+  const expect = async (expected: number[]) => {
+    const reply = await read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  const command = (line: string, expected: number[]) => {
+    socket.write(`${line}\r\n`);
+    return expect(expected);
+  };
+
+  const detach = () => {
+    socket.removeAllListeners('data');
+    socket.removeAllListeners('error');
+    socket.removeAllListeners('close');
+    socket.setTimeout(0);
+  };
+
+  return { expect, command, detach };
+};
+
+const connect = (config: SmtpConfig) =>
+  new Promise<net.Socket>((resolve, reject) => {
+    const socket: net.Socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+
+const upgradeToTls = (socket: net.Socket, host: string) =>
+  new Promise<net.Socket>((resolve, reject) => {
+    const secureSocket: tls.TLSSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket));
+    secureSocket.once('error', reject);
+  });
+
+const sendSmtp = async (config: SmtpConfig, from: string, message: EmailMessage) => {
+  let socket = await connect(config);
+  let session = createSmtpSession(socket);
+  const clientName = os.hostname() || 'localhost';
+
+  try {
+    await session.expect([220]);
+    const greeting = await session.command(`EHLO ${clientName}`, [250]);
+
+    if (!config.secure && greeting.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await session.command('STARTTLS', [220]);
+      session.detach();
+      socket = await upgradeToTls(socket, config.host);
+      session = createSmtpSession(socket);
+      await session.command(`EHLO ${clientName}`, [250]);
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass || ''}`).toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${addressOf(from)}>`, [250]);
+    await session.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+    await session.command('DATA', [354]);
+    // Lines starting with a dot are escaped by doubling it
+    const data = buildMessage(from, message).replace(/^\./gm, '..');
+    await session.command(`${data}\r\n.`, [250]);
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.detach();
+    socket.destroy();
+  }
+};
+
+/**
+ * The transport configured by the environment. Throws when SMTP is chosen
+ * but has no host.
+ */
+export const getEmailTransport = (): EmailTransport => {
+  const from = process.env.EMAIL_FROM || 'MediaMaple <noreply@localhost>';
+  const transport = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+
+  if (transport === 'smtp') {
+    const host = process.env.SMTP_HOST;
+    if (!host) throw new Error('SMTP_HOST is not set');
+    const port = Number(process.env.SMTP_PORT) || 587;
+    const config: SmtpConfig = {
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER || undefined,
+      pass: process.env.SMTP_PASS || undefined,
+    };
+    return { name: 'smtp', send: message => sendSmtp(config, from, message) };
+  }
+
+  if (transport === 'file') {
+    const directory = process.env.EMAIL_OUTPUT_DIR || path.join(os.tmpdir(), 'mediamaple-emails');
+    return {
+      name: 'file',
+      send: async message => {
+        await fs.mkdir(directory, { recursive: true });
+        const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+        await fs.writeFile(path.join(directory, fileName), buildMessage(from, message));
+      },
+    };
+  }
+
+  return {
+    name: 'console',
+    send: async message => {
+      console.log(`Email to ${message.to}: ${message.subject}\n\n${message.text}\n`);
+    },
+  };
+};
@@ -0,0 +1,68 @@
+/**
+ * Notification data
+ *
+ * What the scheduled senders (send-notifications, send-emails) need to run
+ * the notification rules for a set of users: their open tasks, every
+ * calendar event and the organization's time zone.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { NotificationEvent, NotificationTask } from '../../src/utils/notificationRules';
+import { isValidTimeZone } from '../../src/utils/dateTime';
+import { TaskStatus } from '../../src/types';
+
+export interface NotificationData {
+  organizationTimeZone: string;
+  tasks: NotificationTask[];
+  events: NotificationEvent[];
+}
+
+const mapTaskRow = (row: any): NotificationTask => ({
+  id: row.id,
+  title: row.title,
+  scheduledDate: row.scheduled_date,
+  dueTime: row.due_time || undefined,
+  status: row.status as TaskStatus,
+  assignedTo: row.assigned_to || [],
+});
+
+const mapEventRow = (row: any): NotificationEvent => ({
+  id: row.id,
+  title: row.title,
+  startDate: row.start_date,
+  startTime: row.start_time || undefined,
+  isAllDay: row.is_all_day || false,
+  location: row.location || undefined,
+  attendees: row.attendees || [],
+  createdBy: row.created_by,
+  reminders: row.reminders || [],
+  isRecurring: row.is_recurring || false,
+  recurrencePattern: row.recurrence_pattern || undefined,
+});
+
+export const loadNotificationData = async (supabase: SupabaseClient, userIds: string[]): Promise<NotificationData> => {
+  const [settingsResult, tasksResult, eventsResult] = await Promise.all([
+    supabase.from('organization_settings').select('time_zone').eq('id', 'default').maybeSingle(),
+    supabase
+      .from('job_tasks')
+      .select('id, title, scheduled_date, due_time, status, assigned_to')
+      .overlaps('assigned_to', userIds)
+      .not('status', 'in', '(completed,archived,draft)'),
+    supabase
+      .from('calendar_events')
+      .select('id, title, start_date, start_time, is_all_day, location, attendees, created_by, reminders, is_recurring, recurrence_pattern'),
+  ]);
+
+  if (tasksResult.error) throw tasksResult.error;
+  if (eventsResult.error) throw eventsResult.error;
+
+  return {
+    organizationTimeZone: isValidTimeZone(settingsResult.data?.time_zone) ? settingsResult.data!.time_zone : 'UTC',
+    tasks: (tasksResult.data || []).map(mapTaskRow),
+    events: (eventsResult.data || []).map(mapEventRow),
+  };
+};
+
+/** The user's own zone, else the organization's */
+export const resolveTimeZone = (userTimeZone: string | null | undefined, data: NotificationData) =>
+  isValidTimeZone(userTimeZone) ? userTimeZone! : data.organizationTimeZone;
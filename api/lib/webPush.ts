@@ -0,0 +1,143 @@
+/**
+ * Web Push sender
+ *
+ * Sends a payload to a browser push subscription: encrypted per RFC 8291
+ * (aes128gcm) and signed with VAPID (RFC 8292), using only Node's crypto.
+ *
+ * Keys are base64url: the public key is the 65-byte uncompressed P-256 point
+ * the browser subscribes with (REACT_APP_VAPID_PUBLIC_KEY), the private key
+ * its 32-byte scalar. Generate a pair with:
+ *
+ *   node -e "const e=require('crypto').createECDH('prime256v1');e.generateKeys();
+ *     console.log(e.getPublicKey('base64url'), e.getPrivateKey('base64url'))"
+ */
+
+import crypto from 'crypto';
+import https from 'https';
+import { isPushServiceEndpoint } from '../../src/utils/pushEndpoints';
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  subject: string; // mailto: or https: contact for the push service
+}
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushResult {
+  statusCode: number;
+  // The push service no longer knows the subscription; delete it
+  gone: boolean;
+}
+
+// How long the push service keeps an undelivered message
+const TTL_SECONDS = 24 * 60 * 60;
+
+const RECORD_SIZE = 4096;
+
+// A push service that never answers must not stall the whole run
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+const fromBase64Url = (value: string) => Buffer.from(value, 'base64url');
+
+const hkdf = (key: Buffer, salt: Buffer, info: Buffer, length: number) =>
+  Buffer.from(crypto.hkdfSync('sha256', key, salt, info, length));
+
+const createVapidAuthorization = (endpoint: string, keys: VapidKeys): string => {
+  const publicKey = fromBase64Url(keys.publicKey);
+  const privateKey = crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+      d: keys.privateKey,
+    },
+    format: 'jwk',
+  });
+
+  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+  const claims = Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: keys.subject,
+  })).toString('base64url');
+  const signature = crypto
+    .sign('sha256', Buffer.from(`${header}.${claims}`), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+    .toString('base64url');
+
+  return `vapid t=${header}.${claims}.${signature}, k=${keys.publicKey}`;
+};
+
+// RFC 8291: a single aes128gcm record keyed from an ephemeral ECDH exchange
+const encryptPayload = (payload: string, subscription: PushSubscriptionKeys): Buffer => {
+  const userAgentPublicKey = fromBase64Url(subscription.p256dh);
+  const authSecret = fromBase64Url(subscription.auth);
+
+  const ecdh = crypto.createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+  const salt = crypto.randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const inputKey = hkdf(sharedSecret, authSecret, keyInfo, 32);
+  const contentKey = hkdf(inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const body = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, body]);
+};
+
+const post = (endpoint: string, headers: Record<string, string | number>, body: Buffer) =>
+  new Promise<number>((resolve, reject) => {
+    const request = https.request(endpoint, { method: 'POST', headers, timeout: REQUEST_TIMEOUT_MS }, response => {
+      response.resume();
+      response.on('end', () => resolve(response.statusCode || 0));
+    });
+    request.on('timeout', () => request.destroy(new Error(`No answer from the push service in ${REQUEST_TIMEOUT_MS} ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+
+/**
+ * Deliver one message. Resolves with the push service's status; rejects
+ * on network errors, timeouts and endpoints that are not a known push
+ * service.
+ */
+export const sendWebPush = async (
+  subscription: PushSubscriptionKeys,
+  payload: string,
+  keys: VapidKeys
+): Promise<PushResult> => {
+  if (!isPushServiceEndpoint(subscription.endpoint)) {
+    throw new Error('Not a known push service endpoint');
+  }
+
+  const body = encryptPayload(payload, subscription);
+  const statusCode = await post(subscription.endpoint, {
+    Authorization: createVapidAuthorization(subscription.endpoint, keys),
+    'Content-Encoding': 'aes128gcm',
+    'Content-Type': 'application/octet-stream',
+    'Content-Length': body.length,
+    TTL: TTL_SECONDS,
+    Urgency: 'normal',
+  }, body);
+
+  return { statusCode, gone: statusCode === 404 || statusCode === 410 };
+};
@@ -0,0 +1,229 @@
+/**
+ * Send Emails (Vercel serverless function, run by cron)
+ *
+ * GET /api/send-emails sends the emails that came due since the last runs
+ * (see src/utils/emailRules.ts): the morning overdue alert and daily digest,
+ * event reminders set to email, and a notice for each task assigned through
+ * the app (`task_assigned` activity log entries). It also mails the link of
+ * each new or resent invite (`invites` rows without email_sent_at), stamping
+ * the row first so an invite is only mailed once. Messages use the admins'
+ * templates (`email_templates`) over the defaults, and each one is claimed
+ * in email_deliveries before it is sent, so overlapping runs never send it
+ * twice; a failed send gives the claim back.
+ *
+ * Needs SUPABASE_SERVICE_ROLE_KEY and CRON_SECRET, which Vercel Cron sends as
+ * a bearer token. The transport is configured in api/lib/email.ts; APP_URL
+ * sets where links in the emails point.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { createClient } from '@supabase/supabase-js';
+import { getEmailTransport } from './lib/email';
+import { loadNotificationData, resolveTimeZone } from './lib/notificationData';
+import { EmailInput, getAssignmentEmails, getScheduledEmails, TaskAssignment } from '../src/utils/emailRules';
+import { formatDateValue } from '../src/utils/dateTime';
+import { renderEmailTemplate, resolveEmailTemplates } from '../src/utils/emailTemplates';
+import { EmailTemplate, EmailTemplateId } from '../src/types';
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.REACT_APP_SUPABASE_URL || '';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const cronSecret = process.env.CRON_SECRET || '';
+
+// Runs are a few minutes apart; looking further back covers a failed run
+const LOOKBACK_MINUTES = 60;
+
+// Delivery records only need to outlive the lookback
+const DELIVERY_RETENTION_DAYS = 7;
+
+// The assigner's name comes from their profile; the log's user_name is whatever the client wrote
+const mapAssignmentRow = (row: any, assignerName: string): TaskAssignment => ({
+  logId: row.id,
+  taskId: row.entity_id,
+  assignedBy: assignerName,
+  assignedById: row.user_id,
+  assignees: row.details?.assignedTo || [],
+  previousAssignees: row.details?.previousAssignees || [],
+  loggedAt: new Date(row.created_at),
+});
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    send(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+  if (!supabaseUrl || !serviceRoleKey || !cronSecret) {
+    send(res, 500, { error: 'Email notifications are not configured' });
+    return;
+  }
+  if (req.headers.authorization !== `Bearer ${cronSecret}`) {
+    send(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const appUrl = (process.env.APP_URL || `https://${req.headers.host || 'localhost'}`).replace(/\/+$/, '');
+  const now = new Date();
+  const from = new Date(now.getTime() - LOOKBACK_MINUTES * 60 * 1000);
+  let sent = 0;
+  let failed = 0;
+
+  try {
+    const transport = getEmailTransport();
+
+    const { data: templateRows, error: templatesError } = await supabase
+      .from('email_templates')
+      .select('id, subject, body');
+
+    if (templatesError) throw templatesError;
+    const templates = resolveEmailTemplates(
+      (templateRows || []).reduce((overrides, row) => {
+        overrides[row.id as EmailTemplateId] = { subject: row.subject, body: row.body };
+        return overrides;
+      }, {} as Partial<Record<EmailTemplateId, EmailTemplate>>)
+    );
+
+    // Invites go to people without a profile yet
+    const { data: inviteRows, error: invitesError } = await supabase
+      .from('invites')
+      .select('id, email, first_name, token, invited_by, expires_at')
+      .is('email_sent_at', null)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', now.toISOString());
+
+    if (invitesError) throw invitesError;
+    if (inviteRows && inviteRows.length > 0) {
+      const { data: inviterRows } = await supabase
+        .from('profiles')
+        .select('id, first_name, last_name')
+        .in('id', Array.from(new Set(inviteRows.map(row => row.invited_by))));
+      const inviterNames = new Map((inviterRows || []).map(row => [row.id, `${row.first_name} ${row.last_name}`.trim()]));
+
+      for (const invite of inviteRows) {
+        const { data: claimed } = await supabase
+          .from('invites')
+          .update({ email_sent_at: now.toISOString() })
+          .eq('id', invite.id)
+          .is('email_sent_at', null)
+          .select('id');
+        if (!claimed || claimed.length === 0) continue; // Another run has it
+
+        const { subject, body } = renderEmailTemplate(templates.invite, {
+          firstName: invite.first_name || '',
+          invitedBy: inviterNames.get(invite.invited_by) || 'Your admin',
+          inviteUrl: `${appUrl}/invite/${invite.token}`,
+          expiresOn: formatDateValue(invite.expires_at),
+          appUrl,
+        });
+        try {
+          await transport.send({ to: invite.email, subject, text: body });
+          sent += 1;
+        } catch (error) {
+          // Unclaim so a later run tries again
+          console.error(`Invite email to ${invite.email} failed:`, error);
+          await supabase.from('invites').update({ email_sent_at: null }).eq('id', invite.id);
+          failed += 1;
+        }
+      }
+    }
+
+    const { data: profileRows, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, email, first_name, is_active, time_zone, notification_preferences')
+      .not('email', 'is', null);
+
+    if (profilesError) throw profilesError;
+    const profiles = (profileRows || []).filter(profile =>
+      profile.is_active !== false && profile.notification_preferences?.emailEnabled !== false
+    );
+    const userIds = profiles.map(profile => profile.id as string);
+    if (userIds.length === 0) {
+      send(res, 200, { sent, failed });
+      return;
+    }
+
+    const [assignmentsResult, deliveriesResult, data] = await Promise.all([
+      supabase
+        .from('activity_logs')
+        .select('id, user_id, entity_id, details, created_at')
+        .eq('action', 'task_assigned')
+        .gte('created_at', from.toISOString()),
+      supabase
+        .from('email_deliveries')
+        .select('user_id, tag')
+        .in('user_id', userIds)
+        .gte('sent_at', new Date(from.getTime() - 24 * 60 * 60 * 1000).toISOString()),
+      loadNotificationData(supabase, userIds),
+    ]);
+
+    if (assignmentsResult.error) throw assignmentsResult.error;
+    if (deliveriesResult.error) throw deliveriesResult.error;
+
+    const assignmentRows = assignmentsResult.data || [];
+    const assignerIds = Array.from(new Set(assignmentRows.map(row => row.user_id)));
+    const { data: assignerRows, error: assignersError } = assignerIds.length > 0
+      ? await supabase.from('profiles').select('id, first_name, last_name').in('id', assignerIds)
+      : { data: [], error: null };
+
+    if (assignersError) throw assignersError;
+    const assignerNames = new Map((assignerRows || []).map(row => [row.id, `${row.first_name} ${row.last_name}`.trim()]));
+    const assignments = assignmentRows
+      .filter(row => assignerNames.has(row.user_id))
+      .map(row => mapAssignmentRow(row, assignerNames.get(row.user_id)!));
+    const delivered = new Set((deliveriesResult.data || []).map(row => `${row.user_id}|${row.tag}`));
+
+    for (const profile of profiles) {
+      const input: EmailInput = {
+        userId: profile.id,
+        tasks: data.tasks,
+        events: data.events,
+        preferences: profile.notification_preferences || undefined,
+        timeZone: resolveTimeZone(profile.time_zone, data),
+        firstName: profile.first_name || '',
+        appUrl,
+      };
+      const due = [...getAssignmentEmails(input, assignments), ...getScheduledEmails(input, from, now)]
+        .filter(email => !delivered.has(`${profile.id}|${email.tag}`));
+
+      for (const email of due) {
+        // Claim before sending, like invites; ON CONFLICT DO NOTHING returns no row
+        const { data: claimed, error: claimError } = await supabase
+          .from('email_deliveries')
+          .upsert({ user_id: profile.id, tag: email.tag }, { onConflict: 'user_id,tag', ignoreDuplicates: true })
+          .select('user_id');
+        if (claimError) throw claimError;
+        if (!claimed || claimed.length === 0) continue; // Another run has it
+
+        const { subject, body } = renderEmailTemplate(templates[email.kind], email.values);
+        try {
+          await transport.send({ to: profile.email, subject, text: body });
+          sent += 1;
+        } catch (error) {
+          // Unclaim so later runs retry while still in the lookback
+          console.error(`Email ${email.tag} to ${profile.id} failed:`, error);
+          await supabase.from('email_deliveries').delete().eq('user_id', profile.id).eq('tag', email.tag);
+          failed += 1;
+        }
+      }
+    }
+
+    await supabase
+      .from('email_deliveries')
+      .delete()
+      .lt('sent_at', new Date(now.getTime() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString());
+
+    send(res, 200, { sent, failed });
+  } catch (error) {
+    console.error('Error sending emails:', error);
+    send(res, 500, { error: 'Could not send emails' });
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Send Notifications (Vercel serverless function, run by cron)
+ *
+ * GET /api/send-notifications works out which task reminders, overdue
+ * alerts and event reminders came due since the last runs (see
+ * src/utils/notificationRules.ts) and pushes them to every device each user
+ * has subscribed (push_subscriptions). Each notification is claimed in
+ * push_deliveries before it is pushed, so overlapping runs never send it
+ * twice; subscriptions the push service reports as gone are deleted.
+ *
+ * Needs SUPABASE_SERVICE_ROLE_KEY, VAPID_PUBLIC_KEY (the same key as
+ * REACT_APP_VAPID_PUBLIC_KEY), VAPID_PRIVATE_KEY and VAPID_SUBJECT, plus
+ * CRON_SECRET, which Vercel Cron sends as a bearer token. Devices on the
+ * local stand-in (no VAPID key in the app) are skipped; the app delivers
+ * those itself.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { createClient } from '@supabase/supabase-js';
+import { sendWebPush, VapidKeys } from './lib/webPush';
+import { loadNotificationData, resolveTimeZone } from './lib/notificationData';
+import { getScheduledNotifications, PushMessage } from '../src/utils/notificationRules';
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.REACT_APP_SUPABASE_URL || '';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const cronSecret = process.env.CRON_SECRET || '';
+
+const vapidKeys: VapidKeys = {
+  publicKey: process.env.VAPID_PUBLIC_KEY || process.env.REACT_APP_VAPID_PUBLIC_KEY || '',
+  privateKey: process.env.VAPID_PRIVATE_KEY || '',
+  subject: process.env.VAPID_SUBJECT || 'mailto:admin@example.com',
+};
+
+// Runs are a few minutes apart; looking further back covers a failed run
+const LOOKBACK_MINUTES = 60;
+
+// Delivery records only need to outlive the lookback
+const DELIVERY_RETENTION_DAYS = 7;
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    send(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+  if (!supabaseUrl || !serviceRoleKey || !cronSecret || !vapidKeys.publicKey || !vapidKeys.privateKey) {
+    send(res, 500, { error: 'Push notifications are not configured' });
+    return;
+  }
+  if (req.headers.authorization !== `Bearer ${cronSecret}`) {
+    send(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const now = new Date();
+  const from = new Date(now.getTime() - LOOKBACK_MINUTES * 60 * 1000);
+  let sent = 0;
+  let failed = 0;
+  let removed = 0;
+
+  try {
+    const { data: subscriptionRows, error: subscriptionsError } = await supabase
+      .from('push_subscriptions')
+      .select('id, user_id, endpoint, p256dh, auth')
+      .not('endpoint', 'like', 'local:%');
+
+    if (subscriptionsError) throw subscriptionsError;
+    const subscriptions = subscriptionRows || [];
+    const userIds = Array.from(new Set(subscriptions.map(row => row.user_id as string)));
+    if (userIds.length === 0) {
+      send(res, 200, { sent, failed, removed });
+      return;
+    }
+
+    const [profilesResult, deliveriesResult, data] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('id, is_active, time_zone, notification_preferences')
+        .in('id', userIds),
+      supabase
+        .from('push_deliveries')
+        .select('user_id, tag')
+        .in('user_id', userIds)
+        .gte('sent_at', new Date(from.getTime() - 24 * 60 * 60 * 1000).toISOString()),
+      loadNotificationData(supabase, userIds),
+    ]);
+
+    if (profilesResult.error) throw profilesResult.error;
+    if (deliveriesResult.error) throw deliveriesResult.error;
+
+    const delivered = new Set((deliveriesResult.data || []).map(row => `${row.user_id}|${row.tag}`));
+
+    for (const profile of profilesResult.data || []) {
+      if (profile.is_active === false) continue;
+
+      const due = getScheduledNotifications({
+        userId: profile.id,
+        tasks: data.tasks,
+        events: data.events,
+        preferences: profile.notification_preferences || undefined,
+        timeZone: resolveTimeZone(profile.time_zone, data),
+      }, from, now).filter(notification => !delivered.has(`${profile.id}|${notification.tag}`));
+      if (due.length === 0) continue;
+
+      let devices = subscriptions.filter(row => row.user_id === profile.id);
+      const notifiedDeviceIds = new Set<string>();
+
+      for (const notification of due) {
+        if (devices.length === 0) break;
+
+        // Claim before pushing; ON CONFLICT DO NOTHING returns no row
+        const { data: claimed, error: claimError } = await supabase
+          .from('push_deliveries')
+          .upsert({ user_id: profile.id, tag: notification.tag }, { onConflict: 'user_id,tag', ignoreDuplicates: true })
+          .select('user_id');
+        if (claimError) throw claimError;
+        if (!claimed || claimed.length === 0) continue; // Another run has it
+
+        const message: PushMessage = {
+          tag: notification.tag,
+          title: notification.title,
+          body: notification.body,
+          url: notification.url,
+        };
+        let deliveredToDevice = false;
+
+        for (const device of devices) {
+          try {
+            const result = await sendWebPush(device, JSON.stringify(message), vapidKeys);
+            if (result.gone) {
+              await supabase.from('push_subscriptions').delete().eq('id', device.id);
+              devices = devices.filter(other => other.id !== device.id);
+              removed += 1;
+            } else if (result.statusCode >= 200 && result.statusCode < 300) {
+              deliveredToDevice = true;
+              notifiedDeviceIds.add(device.id);
+              sent += 1;
+            } else {
+              console.error(`Push to ${device.id} failed with status ${result.statusCode}`);
+              failed += 1;
+            }
+          } catch (error) {
+            console.error(`Push to ${device.id} failed:`, error);
+            failed += 1;
+          }
+        }
+
+        // Unclaim undelivered notifications so later runs retry while still in the lookback
+        if (!deliveredToDevice) {
+          await supabase.from('push_deliveries').delete().eq('user_id', profile.id).eq('tag', notification.tag);
+        }
+      }
+
+      if (notifiedDeviceIds.size > 0) {
+        await supabase
+          .from('push_subscriptions')
+          .update({ last_notified_at: now.toISOString() })
+          .in('id', Array.from(notifiedDeviceIds));
+      }
+    }
+
+    await supabase
+      .from('push_deliveries')
+      .delete()
+      .lt('sent_at', new Date(now.getTime() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString());
+
+    send(res, 200, { sent, failed, removed });
+  } catch (error) {
+    console.error('Error sending notifications:', error);
+    send(res, 500, { error: 'Could not send notifications' });
+  }
+}
@@ -4,7 +4,7 @@
 // Enables offline functionality and caching
 
 // IMPORTANT: Increment this version number whenever you deploy to force cache refresh
-const CACHE_VERSION = '1.0.2';
+const CACHE_VERSION = '1.0.3';
 const CACHE_NAME = `sop-app-v${CACHE_VERSION}`;
 
 const urlsToCache = [
@@ -22,6 +22,10 @@ self.addEventListener('message', (event) => {
   if (event.data && event.data.type === 'CHECK_FOR_UPDATE') {
     self.registration.update();
   }
+  // Local stand-in for Web Push (no VAPID key): the page works out what is due
+  if (event.data && event.data.type === 'LOCAL_PUSH') {
+    event.waitUntil(showPushNotification(event.data.payload || {}));
+  }
 });
 
 // Install event - cache essential files
@@ -153,24 +157,45 @@ async function syncOfflineChanges() {
   });
 }
 
-// Push notification handler (for future use)
-self.addEventListener('push', (event) => {
-  const data = event.data ? event.data.json() : {};
+// Show a push payload ({ tag, title, body, url }, see src/utils/notificationRules.ts).
+// A notification with the same tag replaces the earlier one instead of stacking.
+function showPushNotification(data) {
   const title = data.title || 'SOP App Notification';
   const options = {
     body: data.body || 'You have a new notification',
     icon: '/logo192.png',
     badge: '/logo192.png',
+    tag: data.tag,
     data: data,
   };
 
-  event.waitUntil(self.registration.showNotification(title, options));
+  return self.registration.showNotification(title, options);
+}
+
+// Push notification handler (sent by api/send-notifications.ts)
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch (error) {
+    data = { body: event.data.text() };
+  }
+
+  event.waitUntil(showPushNotification(data));
 });
 
-// Notification click handler
+// Notification click handler - focus an open tab if there is one
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
   event.waitUntil(
-    clients.openWindow(event.notification.data.url || '/')
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      const client = windowClients.find((c) => c.url.startsWith(self.location.origin));
+      if (client) {
+        return client.focus().then(() => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
   );
 });
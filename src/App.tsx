@@ -5,6 +5,9 @@ import { ToastProvider } from './contexts/ToastContext';
 import { ThemeProvider, useTheme, useThemeColors } from './contexts/ThemeContext';
 import { ActivityLogProvider } from './contexts/ActivityLogContext';
 import { DataProvider } from './contexts/DataProvider';
+import { TimeZoneProvider } from './contexts/TimeZoneContext';
+import { NotificationProvider } from './contexts/NotificationContext';
+import { DepartmentProvider } from './contexts/DepartmentContext';
 import { DashboardSettingsProvider } from './contexts/DashboardSettingsContext';
 import ErrorBoundary from './components/ErrorBoundary';
 import Navigation from './components/Navigation';
@@ -13,6 +16,8 @@ import { OfflineIndicator } from './components/OfflineIndicator';
 import SessionExpiryModal from './components/SessionExpiryModal';
 import { theme } from './theme';
 import { useResponsive } from './hooks/useResponsive';
+import { useLocalPushDelivery } from './hooks/useLocalPushDelivery';
+import { Permission } from './types';
 import './App.css';
 
 // Lazy load page components for code splitting
@@ -29,8 +34,12 @@ const ArchivePage = lazy(() => import('./pages/ArchivePage'));
 const ActivityLogPage = lazy(() => import('./pages/ActivityLogPage'));
 const CalendarPage = lazy(() => import('./pages/CalendarPage'));
 const AlertsPage = lazy(() => import('./pages/AlertsPage'));
+const NotificationsPage = lazy(() => import('./pages/NotificationsPage'));
 const WorkHoursPage = lazy(() => import('./pages/WorkHoursPage'));
 const AuthCallback = lazy(() => import('./pages/AuthCallback'));
+const SignInCallback = lazy(() => import('./pages/SignInCallback'));
+const AcceptInvitePage = lazy(() => import('./pages/AcceptInvitePage'));
+const MfaGatePage = lazy(() => import('./pages/MfaGatePage'));
 
 // Page loading fallback - simple centered spinner.
 // theme.colors resolve to CSS variables, so this is theme-aware automatically.
@@ -59,11 +68,13 @@ const PageLoadingFallback: React.FC = () => (
 );
 
 // Protected Route Component
-const ProtectedRoute: React.FC<{ children: React.ReactElement; adminOnly?: boolean }> = ({
+// `permission` opens a page to team members whose role grants it (admins have every permission)
+const ProtectedRoute: React.FC<{ children: React.ReactElement; adminOnly?: boolean; permission?: Permission }> = ({
   children,
   adminOnly = false,
+  permission,
 }) => {
-  const { isAuthenticated, isAdmin, loading } = useAuth();
+  const { isAuthenticated, isAdmin, hasPermission, loading, mfaGate } = useAuth();
 
   // Wait for auth to initialize before making redirect decisions
   if (loading) {
@@ -74,10 +85,22 @@ const ProtectedRoute: React.FC<{ children: React.ReactElement; adminOnly?: boole
     return <Navigate to="/login" />;
   }
 
+  // Two-factor comes before any page
+  if (mfaGate === 'checking') {
+    return <PageLoadingFallback />;
+  }
+  if (mfaGate) {
+    return <MfaGatePage />;
+  }
+
   if (adminOnly && !isAdmin) {
     return <Navigate to="/dashboard" />;
   }
 
+  if (permission && !hasPermission(permission)) {
+    return <Navigate to="/dashboard" />;
+  }
+
   return children;
 };
 
@@ -99,9 +122,11 @@ const PublicRoute: React.FC<{ children: React.ReactElement }> = ({ children }) =
 
 // App Content (needs to be inside AuthProvider to use useAuth)
 const AppContent: React.FC = () => {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, mfaGate } = useAuth();
   const { isMobileOrTablet } = useResponsive();
+  const showNavigation = isAuthenticated && !mfaGate;
   const colors = useThemeColors();
+  useLocalPushDelivery();
 
   return (
     <div
@@ -110,15 +135,17 @@ const AppContent: React.FC = () => {
         backgroundColor: colors.bg.primary,
         minHeight: '100vh',
         // Add padding bottom for bottom nav on mobile
-        paddingBottom: isAuthenticated && isMobileOrTablet ? '70px' : 0,
+        paddingBottom: showNavigation && isMobileOrTablet ? '70px' : 0,
         transition: 'background-color 0.3s ease',
       }}
     >
-      {isAuthenticated && <Navigation />}
+      {showNavigation && <Navigation />}
       <Suspense fallback={<PageLoadingFallback />}>
         <Routes>
           <Route path="/login" element={<PublicRoute><Login /></PublicRoute>} />
           <Route path="/auth/callback" element={<AuthCallback />} />
+          <Route path="/auth/sign-in" element={<SignInCallback />} />
+          <Route path="/invite/:token" element={<PublicRoute><AcceptInvitePage /></PublicRoute>} />
           <Route
             path="/"
             element={
@@ -202,7 +229,7 @@ const AppContent: React.FC = () => {
           <Route
             path="/activity-log"
             element={
-              <ProtectedRoute adminOnly>
+              <ProtectedRoute permission="view_activity_log">
                 <ActivityLogPage />
               </ProtectedRoute>
             }
@@ -223,6 +250,14 @@ const AppContent: React.FC = () => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/notifications"
+            element={
+              <ProtectedRoute>
+                <NotificationsPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/hours"
             element={
@@ -251,8 +286,11 @@ const AppContent: React.FC = () => {
  * 2. ToastProvider - UI notifications (no data dependencies)
  * 3. AuthProvider - User authentication & session
  * 4. ActivityLogProvider - Audit trail (depends on Auth)
- * 5. DataProvider - All data contexts combined (SOP, Task, Job, Event)
- * 6. Router - Navigation
+ * 5. TimeZoneProvider - Organization / user time zone (depends on Auth)
+ * 6. NotificationProvider - In-app notification center (depends on Auth)
+ * 7. DepartmentProvider - Departments and the department switcher (depends on Auth)
+ * 8. DataProvider - All data contexts combined (SOP, Task, Job, Event)
+ * 9. Router - Navigation
  *
  * Benefits:
  * - Reduced re-render cascades when one context updates
@@ -266,13 +304,19 @@ function App() {
         <ToastProvider>
           <AuthProvider>
             <ActivityLogProvider>
-              <DataProvider>
-                <DashboardSettingsProvider>
-                  <Router>
-                    <AppContent />
-                  </Router>
-                </DashboardSettingsProvider>
-              </DataProvider>
+              <TimeZoneProvider>
+                <NotificationProvider>
+                  <DepartmentProvider>
+                    <DataProvider>
+                      <DashboardSettingsProvider>
+                        <Router>
+                          <AppContent />
+                        </Router>
+                      </DashboardSettingsProvider>
+                    </DataProvider>
+                  </DepartmentProvider>
+                </NotificationProvider>
+              </TimeZoneProvider>
             </ActivityLogProvider>
           </AuthProvider>
         </ToastProvider>
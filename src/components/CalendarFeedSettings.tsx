@@ -0,0 +1,218 @@
+/**
+ * Calendar Feed Settings
+ * Create, copy, rotate and turn off the user's subscribable iCal feed
+ */
+
+import React, { useEffect, useState } from 'react';
+import { theme } from '../theme';
+import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../hooks/useConfirm';
+import { FormButton } from './FormComponents';
+import { copyCalendarLink } from '../utils/calendarExport';
+import {
+  CalendarFeedToken,
+  fetchCalendarFeedToken,
+  getCalendarFeedUrl,
+  getCalendarSubscribeUrl,
+  isCalendarFeedAvailable,
+  revokeCalendarFeedToken,
+  rotateCalendarFeedToken,
+} from '../services/calendarFeed';
+
+interface CalendarFeedSettingsProps {
+  userId: string;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const CalendarFeedSettings: React.FC<CalendarFeedSettingsProps> = ({ userId }) => {
+  const { success: showSuccess, error: showError } = useToast();
+  const { confirm, confirmDialog } = useConfirm();
+  const [feed, setFeed] = useState<CalendarFeedToken | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const available = isCalendarFeedAvailable();
+
+  useEffect(() => {
+    if (!available) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    fetchCalendarFeedToken(userId)
+      .then(token => {
+        if (!cancelled) setFeed(token);
+      })
+      .catch(() => {
+        if (!cancelled) showError('Failed to load your calendar feed');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, available, showError]);
+
+  const handleCreate = async () => {
+    setBusy(true);
+    try {
+      setFeed(await rotateCalendarFeedToken(userId));
+      showSuccess('Calendar feed created');
+    } catch {
+      showError('Failed to create the calendar feed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    const confirmed = await confirm({
+      title: 'Reset feed link?',
+      message: 'Calendars subscribed to the current link will stop updating. You will need to subscribe again with the new link.',
+      confirmLabel: 'Reset link',
+      variant: 'warning',
+    });
+    if (!confirmed) return;
+    await handleCreate();
+  };
+
+  const handleRevoke = async () => {
+    const confirmed = await confirm({
+      title: 'Turn off calendar feed?',
+      message: 'Calendars subscribed to this feed will stop updating.',
+      confirmLabel: 'Turn off',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    setBusy(true);
+    try {
+      await revokeCalendarFeedToken(userId);
+      setFeed(null);
+      showSuccess('Calendar feed turned off');
+    } catch {
+      showError('Failed to turn off the calendar feed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    if (await copyCalendarLink(getCalendarFeedUrl(token))) {
+      showSuccess('Feed link copied');
+    } else {
+      showError('Could not copy the link');
+    }
+  };
+
+  if (!available) {
+    return <p style={styles.note}>Calendar feeds need a connected database.</p>;
+  }
+
+  if (loading) {
+    return <p style={styles.note}>Loading...</p>;
+  }
+
+  return (
+    <div style={styles.container}>
+      <p style={styles.note}>
+        Subscribe from Outlook, Apple Calendar or any calendar app to see your assigned tasks,
+        the events you're invited to and your work days. Anyone with the link can see them, so keep it private.
+      </p>
+
+      {feed ? (
+        <>
+          <div style={styles.urlRow}>
+            <input
+              type="text"
+              readOnly
+              value={getCalendarFeedUrl(feed.token)}
+              onFocus={(e) => e.target.select()}
+              style={styles.urlInput}
+              aria-label="Calendar feed link"
+            />
+            <FormButton variant="secondary" size="sm" onClick={() => handleCopy(feed.token)}>
+              Copy
+            </FormButton>
+          </div>
+          <div style={styles.meta}>
+            Created {formatDate(feed.createdAt)}
+            {feed.lastAccessedAt ? ` · Last checked ${formatDate(feed.lastAccessedAt)}` : ' · Not used yet'}
+          </div>
+          <div style={styles.buttonRow}>
+            <a href={getCalendarSubscribeUrl(feed.token)} style={styles.subscribeLink}>
+              Subscribe
+            </a>
+            <FormButton variant="ghost" size="sm" onClick={handleRotate} disabled={busy}>
+              Reset link
+            </FormButton>
+            <FormButton variant="danger" size="sm" onClick={handleRevoke} disabled={busy}>
+              Turn off
+            </FormButton>
+          </div>
+        </>
+      ) : (
+        <div style={styles.buttonRow}>
+          <FormButton variant="primary" size="sm" onClick={handleCreate} loading={busy}>
+            Create feed link
+          </FormButton>
+        </div>
+      )}
+
+      {confirmDialog}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  note: {
+    fontSize: '14px',
+    color: theme.colors.txt.secondary,
+    margin: 0,
+  },
+  urlRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  urlInput: {
+    flex: 1,
+    minWidth: 0,
+    padding: '8px 12px',
+    fontSize: '13px',
+    fontFamily: 'monospace',
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.secondary}`,
+    borderRadius: theme.borderRadius.sm,
+    color: theme.colors.txt.primary,
+  },
+  meta: {
+    fontSize: '12px',
+    color: theme.colors.txt.tertiary,
+  },
+  buttonRow: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '8px',
+  },
+  subscribeLink: {
+    padding: '6px 14px',
+    fontSize: '14px',
+    fontWeight: 600,
+    color: '#FFFFFF',
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    textDecoration: 'none',
+  },
+};
+
+export default CalendarFeedSettings;
@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { theme } from '../theme';
-import { JobTask, User, TaskComment } from '../types';
+import { JobTask, User } from '../types';
 import { useTask } from '../contexts/TaskContext';
 import { useToast } from '../contexts/ToastContext';
 import { useAuth } from '../contexts/AuthContext';
@@ -12,6 +12,12 @@ import {
   openGoogleCalendar,
   copyCalendarLink,
 } from '../utils/calendarExport';
+import { describeRecurrence } from '../utils/recurrence';
+import { getBlockingTasks, getDependencyChain } from '../utils/taskDependencies';
+import { TaskDependencyGraph } from './TaskDependencyGraph';
+import CommentThread from './CommentThread';
+import PhotoEvidenceGallery from './PhotoEvidenceGallery';
+import { getMissingPhotoSteps } from '../utils/stepPhotos';
 
 interface CalendarTaskModalProps {
   isOpen: boolean;
@@ -26,9 +32,9 @@ const CalendarTaskModal: React.FC<CalendarTaskModalProps> = ({
   task: initialTask,
   users,
 }) => {
-  const { updateJobTask } = useTask();
+  const { updateJobTask, jobTasks } = useTask();
   const { showToast } = useToast();
-  const { currentUser } = useAuth();
+  const { isAdmin } = useAuth();
   const { isConnected: isGoogleConnected, syncTaskToGoogle } = useGoogleCalendar();
   const [showCalendarMenu, setShowCalendarMenu] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
@@ -36,103 +42,13 @@ const CalendarTaskModal: React.FC<CalendarTaskModalProps> = ({
   // Local state to track completed steps - this is the SOURCE OF TRUTH for the modal
   const [completedStepIds, setCompletedStepIds] = useState<string[]>([]);
 
-  // Comments state
-  const [comments, setComments] = useState<TaskComment[]>([]);
-  const [newComment, setNewComment] = useState('');
-  const [isSubmittingComment, setIsSubmittingComment] = useState(false);
-  const [showComments, setShowComments] = useState(true);
-  const commentsEndRef = useRef<HTMLDivElement>(null);
-
   // Sync local state when modal opens with a new task
   useEffect(() => {
     if (initialTask) {
       setCompletedStepIds(initialTask.completedSteps || []);
-      setComments(initialTask.comments || []);
     }
   }, [initialTask]);
 
-  // Scroll to bottom of comments when new comment is added
-  useEffect(() => {
-    if (commentsEndRef.current && showComments) {
-      commentsEndRef.current.scrollIntoView({ behavior: 'smooth' });
-    }
-  }, [comments.length, showComments]);
-
-  // Handle adding a new comment
-  const handleAddComment = async () => {
-    if (!newComment.trim() || !currentUser || !initialTask) return;
-
-    setIsSubmittingComment(true);
-
-    const comment: TaskComment = {
-      id: `comment-${Date.now()}`,
-      userId: currentUser.id,
-      userName: `${currentUser.firstName} ${currentUser.lastName}`,
-      text: newComment.trim(),
-      createdAt: new Date().toISOString(),
-    };
-
-    const updatedComments = [...comments, comment];
-
-    // Update local state immediately
-    setComments(updatedComments);
-    setNewComment('');
-
-    try {
-      // Persist to database
-      await updateJobTask(initialTask.id, {
-        comments: updatedComments,
-      });
-      showToast('Comment added', 'success');
-    } catch (error) {
-      // Revert on error
-      setComments(comments);
-      showToast('Failed to add comment', 'error');
-    } finally {
-      setIsSubmittingComment(false);
-    }
-  };
-
-  // Format comment timestamp
-  const formatCommentTime = (dateStr: string) => {
-    const date = new Date(dateStr);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
-
-    if (diffMins < 1) return 'Just now';
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays < 7) return `${diffDays}d ago`;
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  };
-
-  // Get user avatar initials from comment
-  const getCommentUserInitials = (comment: TaskComment) => {
-    const parts = comment.userName.split(' ');
-    if (parts.length >= 2) {
-      return `${parts[0].charAt(0)}${parts[1].charAt(0)}`;
-    }
-    return comment.userName.charAt(0);
-  };
-
-  // Get avatar color based on user ID (consistent color per user)
-  const getAvatarColor = (userId: string) => {
-    const colors = [
-      theme.colors.primary,
-      theme.colors.status.info,
-      theme.colors.status.warning,
-      theme.colors.status.completed,
-      '#9333EA', // purple
-      '#EC4899', // pink
-      '#F97316', // orange
-    ];
-    const index = userId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0) % colors.length;
-    return colors[index];
-  };
-
   if (!isOpen || !initialTask) return null;
 
   // Use initialTask for static data, completedStepIds for dynamic progress
@@ -190,6 +106,15 @@ const CalendarTaskModal: React.FC<CalendarTaskModalProps> = ({
 
   const assignedUsers = users.filter(u => task.assignedTo.includes(u.id));
 
+  // Dependencies come from the live task list, since finishing another task
+  // can unblock this one while the modal is open
+  const liveTask = jobTasks.find(t => t.id === task.id) || task;
+  const liveStatus = liveTask.status;
+  const blockingTasks = getBlockingTasks(task, jobTasks);
+  const dependencyChain = getDependencyChain(task.id, jobTasks);
+  // Admins can still work a blocked task, e.g. to override a stale dependency
+  const isLocked = liveStatus === 'blocked' && !isAdmin;
+
   // Calculate progress directly from local state - NO MEMOIZATION
   // This recalculates on every render, which is exactly what we want
   const totalSteps = task.steps.length;
@@ -198,9 +123,22 @@ const CalendarTaskModal: React.FC<CalendarTaskModalProps> = ({
   ).length;
   const progressPercent = totalSteps > 0 ? Math.round((completedCount / totalSteps) * 100) : 0;
 
+  // Steps that need photo evidence can't be checked off until it's attached
+  // (photos are taken from My Tasks, so the live task has the latest ones)
+  const rejectIfPhotoMissing = (stepIds: string[]) => {
+    const missing = getMissingPhotoSteps(liveTask.steps.filter(s => stepIds.includes(s.id)));
+    if (missing.length === 0) return false;
+    showToast(missing.length === 1
+      ? `Attach a photo to "${missing[0].title}" from My Tasks before completing it`
+      : `Attach photos to ${missing.length} steps from My Tasks before completing them`, 'error');
+    return true;
+  };
+
   // Handle step toggle - updates local state immediately, then persists
   const handleStepToggle = async (stepId: string) => {
+    if (isLocked) return;
     const isCurrentlyCompleted = completedStepIds.includes(stepId);
+    if (!isCurrentlyCompleted && rejectIfPhotoMissing([stepId])) return;
 
     // Calculate new completed steps
     let newCompletedSteps: string[];
@@ -214,7 +152,7 @@ const CalendarTaskModal: React.FC<CalendarTaskModalProps> = ({
     setCompletedStepIds(newCompletedSteps);
 
     // Calculate values for database update
-    const updatedSteps = task.steps.map(s =>
+    const updatedSteps = liveTask.steps.map(s =>
       s.id === stepId ? { ...s, isCompleted: !isCurrentlyCompleted } : s
     );
     const newProgressPercentage = totalSteps > 0 ? Math.round((newCompletedSteps.length / totalSteps) * 100) : 0;
@@ -245,6 +183,7 @@ const CalendarTaskModal: React.FC<CalendarTaskModalProps> = ({
       case 'in-progress': return theme.colors.status.inProgress;
       case 'overdue': return theme.colors.status.overdue;
       case 'pending': return theme.colors.status.pending;
+      case 'blocked': return theme.colors.status.blocked;
       default: return theme.colors.textMuted;
     }
   };
@@ -285,8 +224,8 @@ const CalendarTaskModal: React.FC<CalendarTaskModalProps> = ({
           <div style={styles.headerContent}>
             <h2 style={styles.title}>{task.title}</h2>
             <div style={styles.badges}>
-              <span style={{ ...styles.badge, backgroundColor: getStatusColor(task.status) }}>
-                {task.status.replace('-', ' ')}
+              <span style={{ ...styles.badge, backgroundColor: getStatusColor(liveStatus) }}>
+                {liveStatus.replace('-', ' ')}
               </span>
               <span style={{ ...styles.badge, backgroundColor: getPriorityColor(task.priority) }}>
                 {task.priority}
@@ -343,6 +282,14 @@ const CalendarTaskModal: React.FC<CalendarTaskModalProps> = ({
                 </svg>
                 <span style={styles.infoText}>{task.estimatedDuration} min estimated</span>
               </div>
+              {task.isRecurring && task.recurrencePattern && (
+                <div style={styles.infoItem}>
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" style={{ stroke: theme.colors.textSecondary }} strokeWidth="2">
+                    <path d="M21.5 2v6h-6M2.5 22v-6h6M2 11.5a10 10 0 0 1 18.8-4.3M22 12.5a10 10 0 0 1-18.8 4.2" />
+                  </svg>
+                  <span style={styles.infoText}>{describeRecurrence(task.recurrencePattern, task.scheduledDate)}</span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -361,6 +308,19 @@ const CalendarTaskModal: React.FC<CalendarTaskModalProps> = ({
             </div>
           </div>
 
+          {/* Dependencies */}
+          {dependencyChain.length > 1 && (
+            <div style={styles.section}>
+              <h3 style={styles.sectionTitle}>Dependencies</h3>
+              {liveStatus === 'blocked' && blockingTasks.length > 0 && (
+                <p style={styles.blockedNotice}>
+                  Blocked until {blockingTasks.map(t => `"${t.title}"`).join(', ')} {blockingTasks.length === 1 ? 'is' : 'are'} completed.
+                </p>
+              )}
+              <TaskDependencyGraph tasks={dependencyChain} highlightId={task.id} />
+            </div>
+          )}
+
           {/* Progress */}
           <div style={styles.section}>
             <h3 style={styles.sectionTitle}>Progress</h3>
@@ -388,14 +348,15 @@ const CalendarTaskModal: React.FC<CalendarTaskModalProps> = ({
             <div style={styles.section}>
               <div style={styles.stepsHeader}>
                 <h3 style={{...styles.sectionTitle, marginBottom: 0}}>Steps</h3>
-                {completedCount < totalSteps && (
+                {completedCount < totalSteps && !isLocked && (
                   <button
                     type="button"
                     onClick={async (e) => {
                       e.stopPropagation();
                       // Mark all steps as complete
                       const allIds = task.steps.map(s => s.id);
-                      const updatedSteps = task.steps.map(s => ({ ...s, isCompleted: true }));
+                      if (rejectIfPhotoMissing(allIds.filter(id => !completedStepIds.includes(id)))) return;
+                      const updatedSteps = liveTask.steps.map(s => ({ ...s, isCompleted: true }));
 
                       // Update local state immediately
                       setCompletedStepIds(allIds);
@@ -423,6 +384,7 @@ const CalendarTaskModal: React.FC<CalendarTaskModalProps> = ({
                       style={{
                         ...styles.stepItem,
                         backgroundColor: isChecked ? 'rgba(16, 185, 129, 0.1)' : theme.colors.inputBackground,
+                        ...(isLocked ? styles.stepItemLocked : {}),
                       }}
                       onClick={() => handleStepToggle(step.id)}
                     >
@@ -456,123 +418,22 @@ const CalendarTaskModal: React.FC<CalendarTaskModalProps> = ({
             </div>
           )}
 
-          {/* Team Discussion / Comments */}
-          <div style={styles.section}>
-            <div
-              style={styles.commentsHeader}
-              onClick={() => setShowComments(!showComments)}
-            >
-              <div style={styles.commentsHeaderLeft}>
-                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke={theme.colors.primary} strokeWidth="2">
-                  <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
-                </svg>
-                <h3 style={{...styles.sectionTitle, marginBottom: 0}}>Team Discussion</h3>
-                {comments.length > 0 && (
-                  <span style={styles.commentCount}>{comments.length}</span>
-                )}
-              </div>
-              <svg
-                width="20"
-                height="20"
-                viewBox="0 0 24 24"
-                fill="none"
-                strokeWidth="2"
-                style={{
-                  stroke: theme.colors.textSecondary,
-                  transition: 'transform 0.2s',
-                  transform: showComments ? 'rotate(180deg)' : 'rotate(0deg)',
-                }}
-              >
-                <polyline points="6 9 12 15 18 9" />
-              </svg>
+          {/* Step photos, for admins checking the work */}
+          {isAdmin && (
+            <div style={styles.section}>
+              <PhotoEvidenceGallery tasks={[liveTask]} users={users} />
             </div>
+          )}
 
-            {showComments && (
-              <div style={styles.commentsContainer}>
-                {/* Comments List */}
-                <div style={styles.commentsList}>
-                  {comments.length === 0 ? (
-                    <div style={styles.noComments}>
-                      <svg width="40" height="40" viewBox="0 0 24 24" fill="none" style={{ stroke: theme.colors.textMuted }} strokeWidth="1.5">
-                        <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
-                      </svg>
-                      <p>No comments yet. Start the conversation!</p>
-                    </div>
-                  ) : (
-                    comments.map((comment) => (
-                      <div key={comment.id} style={styles.commentItem}>
-                        <div
-                          style={{
-                            ...styles.commentAvatar,
-                            backgroundColor: getAvatarColor(comment.userId),
-                          }}
-                        >
-                          {getCommentUserInitials(comment)}
-                        </div>
-                        <div style={styles.commentContent}>
-                          <div style={styles.commentMeta}>
-                            <span style={styles.commentUserName}>{comment.userName}</span>
-                            <span style={styles.commentTime}>{formatCommentTime(comment.createdAt)}</span>
-                          </div>
-                          <p style={styles.commentText}>{comment.text}</p>
-                        </div>
-                      </div>
-                    ))
-                  )}
-                  <div ref={commentsEndRef} />
-                </div>
-
-                {/* Add Comment Input */}
-                {currentUser && (
-                  <div style={styles.addCommentContainer}>
-                    <div
-                      style={{
-                        ...styles.commentAvatar,
-                        backgroundColor: getAvatarColor(currentUser.id),
-                        width: '32px',
-                        height: '32px',
-                        fontSize: '11px',
-                      }}
-                    >
-                      {currentUser.firstName.charAt(0)}{currentUser.lastName.charAt(0)}
-                    </div>
-                    <div style={styles.commentInputWrapper}>
-                      <input
-                        type="text"
-                        value={newComment}
-                        onChange={(e) => setNewComment(e.target.value)}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter' && !e.shiftKey) {
-                            e.preventDefault();
-                            handleAddComment();
-                          }
-                        }}
-                        placeholder="Add a comment..."
-                        style={styles.commentInput}
-                        disabled={isSubmittingComment}
-                      />
-                      <button
-                        onClick={handleAddComment}
-                        disabled={!newComment.trim() || isSubmittingComment}
-                        style={{
-                          ...styles.sendButton,
-                          opacity: !newComment.trim() || isSubmittingComment ? 0.5 : 1,
-                        }}
-                      >
-                        {isSubmittingComment ? (
-                          <div style={styles.sendSpinner} />
-                        ) : (
-                          <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                            <line x1="22" y1="2" x2="11" y2="13" />
-                            <polygon points="22 2 15 22 11 13 2 9 22 2" />
-                          </svg>
-                        )}
-                      </button>
-                    </div>
-                  </div>
-                )}
-              </div>
-            )}
+          {/* Team Discussion / Comments */}
+          <div style={styles.section}>
+            <CommentThread
+              entityType="task"
+              entityId={task.id}
+              entityTitle={task.title}
+              legacyComments={task.comments}
+              users={users}
+            />
           </div>
         </div>
 
@@ -720,6 +581,11 @@ const styles: { [key: string]: React.CSSProperties } = {
   section: {
     marginBottom: '24px',
   },
+  blockedNotice: {
+    ...theme.typography.body,
+    color: theme.colors.status.blocked,
+    marginBottom: '12px',
+  },
   sectionTitle: {
     ...theme.typography.subtitle,
     color: theme.colors.textPrimary,
@@ -839,6 +705,10 @@ const styles: { [key: string]: React.CSSProperties } = {
     cursor: 'pointer',
     transition: 'background-color 0.2s',
   },
+  stepItemLocked: {
+    cursor: 'not-allowed',
+    opacity: 0.6,
+  },
   stepCheckbox: {
     width: '20px',
     height: '20px',
@@ -924,154 +794,6 @@ const styles: { [key: string]: React.CSSProperties } = {
     borderRadius: '50%',
     animation: 'spin 1s linear infinite',
   },
-  // Comments styles
-  commentsHeader: {
-    display: 'flex',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    cursor: 'pointer',
-    padding: '12px 16px',
-    backgroundColor: theme.colors.inputBackground,
-    borderRadius: theme.borderRadius.md,
-    border: `1px solid ${theme.colors.border}`,
-    transition: 'background-color 0.2s',
-  },
-  commentsHeaderLeft: {
-    display: 'flex',
-    alignItems: 'center',
-    gap: '10px',
-  },
-  commentCount: {
-    display: 'flex',
-    alignItems: 'center',
-    justifyContent: 'center',
-    minWidth: '22px',
-    height: '22px',
-    padding: '0 6px',
-    backgroundColor: theme.colors.primary,
-    color: '#FFFFFF',
-    borderRadius: theme.borderRadius.full,
-    fontSize: '12px',
-    fontWeight: 600,
-  },
-  commentsContainer: {
-    marginTop: '12px',
-    border: `1px solid ${theme.colors.border}`,
-    borderRadius: theme.borderRadius.md,
-    overflow: 'hidden',
-  },
-  commentsList: {
-    maxHeight: '250px',
-    overflowY: 'auto',
-    padding: '12px',
-    backgroundColor: theme.colors.background,
-  },
-  noComments: {
-    display: 'flex',
-    flexDirection: 'column',
-    alignItems: 'center',
-    justifyContent: 'center',
-    padding: '32px 16px',
-    gap: '12px',
-    color: theme.colors.textMuted,
-    fontSize: '14px',
-    textAlign: 'center',
-  },
-  commentItem: {
-    display: 'flex',
-    gap: '12px',
-    padding: '12px',
-    marginBottom: '8px',
-    backgroundColor: theme.colors.backgroundLight,
-    borderRadius: theme.borderRadius.md,
-    border: `1px solid ${theme.colors.border}`,
-  },
-  commentAvatar: {
-    width: '36px',
-    height: '36px',
-    borderRadius: '50%',
-    display: 'flex',
-    alignItems: 'center',
-    justifyContent: 'center',
-    color: '#FFFFFF',
-    fontSize: '12px',
-    fontWeight: 700,
-    flexShrink: 0,
-  },
-  commentContent: {
-    flex: 1,
-    minWidth: 0,
-  },
-  commentMeta: {
-    display: 'flex',
-    alignItems: 'center',
-    gap: '8px',
-    marginBottom: '4px',
-  },
-  commentUserName: {
-    fontWeight: 600,
-    fontSize: '13px',
-    color: theme.colors.textPrimary,
-  },
-  commentTime: {
-    fontSize: '12px',
-    color: theme.colors.textMuted,
-  },
-  commentText: {
-    fontSize: '14px',
-    color: theme.colors.textSecondary,
-    lineHeight: 1.5,
-    margin: 0,
-    wordWrap: 'break-word',
-  },
-  addCommentContainer: {
-    display: 'flex',
-    alignItems: 'center',
-    gap: '12px',
-    padding: '12px',
-    backgroundColor: theme.colors.backgroundLight,
-    borderTop: `1px solid ${theme.colors.border}`,
-  },
-  commentInputWrapper: {
-    flex: 1,
-    display: 'flex',
-    alignItems: 'center',
-    gap: '8px',
-    backgroundColor: theme.colors.inputBackground,
-    borderRadius: theme.borderRadius.md,
-    border: `1px solid ${theme.colors.border}`,
-    padding: '4px 4px 4px 12px',
-  },
-  commentInput: {
-    flex: 1,
-    border: 'none',
-    backgroundColor: 'transparent',
-    color: theme.colors.textPrimary,
-    fontSize: '14px',
-    outline: 'none',
-    padding: '8px 0',
-  },
-  sendButton: {
-    display: 'flex',
-    alignItems: 'center',
-    justifyContent: 'center',
-    width: '36px',
-    height: '36px',
-    backgroundColor: theme.colors.primary,
-    border: 'none',
-    borderRadius: theme.borderRadius.sm,
-    color: '#FFFFFF',
-    cursor: 'pointer',
-    transition: 'opacity 0.2s',
-  },
-  sendSpinner: {
-    width: '16px',
-    height: '16px',
-    border: '2px solid rgba(255, 255, 255, 0.3)',
-    borderTopColor: '#FFFFFF',
-    borderRadius: '50%',
-    animation: 'spin 1s linear infinite',
-  },
 };
 
 export default CalendarTaskModal;
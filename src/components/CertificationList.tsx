@@ -0,0 +1,87 @@
+import React from 'react';
+import { theme } from '../theme';
+import { useSOPs } from '../contexts/SOPContext';
+import { useQuizzes } from '../contexts/QuizContext';
+import { CertificationStatus, getUserCertifications } from '../utils/sopQuiz';
+import { Badge } from './ui';
+
+interface CertificationListProps {
+  userId: string;
+}
+
+const STATUS_LABELS: Record<CertificationStatus, { label: string; variant: 'success' | 'warning' | 'default' }> = {
+  certified: { label: 'Certified', variant: 'success' },
+  failed: { label: 'Not passed', variant: 'warning' },
+  not_attempted: { label: 'Not taken', variant: 'default' },
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const CertificationList: React.FC<CertificationListProps> = ({ userId }) => {
+  const { sops } = useSOPs();
+  const { attempts } = useQuizzes();
+  const certifications = getUserCertifications(sops, userId, attempts);
+
+  if (certifications.length === 0) {
+    return <p style={styles.empty}>No published SOPs have a knowledge check yet.</p>;
+  }
+
+  return (
+    <div style={styles.list}>
+      {certifications.map(certification => {
+        const statusInfo = STATUS_LABELS[certification.status];
+        return (
+          <div key={certification.sop.id} style={styles.row}>
+            <div style={styles.rowMain}>
+              <div style={styles.sopTitle}>{certification.sop.title}</div>
+              <div style={styles.meta}>
+                {certification.sop.category}
+                {certification.certifiedAt && ` · Certified ${formatDate(certification.certifiedAt)}`}
+                {certification.bestScore !== undefined && ` · Best score ${certification.bestScore}%`}
+              </div>
+            </div>
+            <Badge variant={statusInfo.variant} size="sm">{statusInfo.label}</Badge>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  empty: {
+    fontSize: '14px',
+    color: theme.colors.txt.tertiary,
+    margin: 0,
+  },
+  list: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    padding: '10px 12px',
+    backgroundColor: theme.colors.bg.tertiary,
+    borderRadius: theme.borderRadius.md,
+  },
+  rowMain: {
+    flex: 1,
+    minWidth: 0,
+  },
+  sopTitle: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+  },
+  meta: {
+    fontSize: '12px',
+    color: theme.colors.txt.tertiary,
+    marginTop: '2px',
+  },
+};
+
+export default CertificationList;
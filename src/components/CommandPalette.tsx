@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { theme } from '../theme';
+import { useGlobalSearch } from '../hooks/useGlobalSearch';
+import { useTask } from '../contexts/TaskContext';
+import {
+  groupResults,
+  highlightMatches,
+  SEARCH_ENTITY_LABELS,
+  SearchResult,
+} from '../utils/search';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const Highlighted: React.FC<{ text: string; query: string }> = ({ text, query }) => (
+  <>
+    {highlightMatches(text, query).map((part, index) =>
+      part.match ? (
+        <mark key={index} style={styles.mark}>{part.text}</mark>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose }) => {
+  const navigate = useNavigate();
+  const { taskTemplates } = useTask();
+  const { search, isOffline } = useGlobalSearch(isOpen);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const results = useMemo(() => search(query), [search, query]);
+  const groups = useMemo(() => groupResults(results), [results]);
+  // Flattened in display order so arrow keys follow the grouping
+  const orderedResults = useMemo(() => groups.flatMap(group => group.results), [groups]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setActiveIndex(0);
+      setTimeout(() => inputRef.current?.focus(), 0);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  if (!isOpen) return null;
+
+  const openResult = (result: SearchResult) => {
+    const { document } = result;
+    switch (document.entityType) {
+      case 'sop':
+        navigate('/sop', { state: { openSOPId: document.id } });
+        break;
+      case 'task':
+        navigate('/calendar', { state: { openTaskId: document.id } });
+        break;
+      case 'event':
+        navigate('/calendar', { state: { openEventId: document.id } });
+        break;
+      case 'template': {
+        const template = taskTemplates.find(t => t.id === document.id);
+        navigate('/task-library', {
+          state: { searchQuery: document.title, expandCategory: template?.category },
+        });
+        break;
+      }
+    }
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, orderedResults.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && orderedResults[activeIndex]) {
+      e.preventDefault();
+      openResult(orderedResults[activeIndex]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="modal-backdrop backdrop-blur-sm" style={styles.overlay} onClick={onClose}>
+      <div
+        className="modal-content"
+        style={styles.palette}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Search"
+      >
+        <div style={styles.inputRow}>
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke={theme.colors.txt.tertiary} strokeWidth="2">
+            <circle cx="11" cy="11" r="8" />
+            <line x1="21" y1="21" x2="16.65" y2="16.65" />
+          </svg>
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search SOPs, tasks, templates and events..."
+            style={styles.input}
+          />
+          {isOffline && <span style={styles.offlineBadge}>Offline</span>}
+        </div>
+
+        <div style={styles.results}>
+          {query.trim() === '' ? (
+            <div style={styles.hint}>Type to search step text, comments and notes across the app.</div>
+          ) : orderedResults.length === 0 ? (
+            <div style={styles.hint}>No results for "{query}"</div>
+          ) : (
+            groups.map(group => (
+              <div key={group.entityType}>
+                <div style={styles.groupLabel}>{SEARCH_ENTITY_LABELS[group.entityType]}</div>
+                {group.results.map(result => {
+                  const index = orderedResults.indexOf(result);
+                  return (
+                    <div
+                      key={`${result.document.entityType}_${result.document.id}`}
+                      style={{
+                        ...styles.result,
+                        ...(index === activeIndex ? styles.resultActive : {}),
+                      }}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      onClick={() => openResult(result)}
+                    >
+                      <div style={styles.resultTitle}>
+                        <Highlighted text={result.document.title} query={query} />
+                      </div>
+                      <div style={styles.resultMeta}>{result.document.subtitle}</div>
+                      {result.matchLabel !== 'Title' && (
+                        <div style={styles.resultSnippet}>
+                          <span style={styles.matchLabel}>{result.matchLabel}:</span>{' '}
+                          <Highlighted text={result.snippet} query={query} />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div style={styles.footer}>
+          <span>↑↓ to navigate</span>
+          <span>↵ to open</span>
+          <span>esc to close</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  overlay: {
+    position: 'fixed',
+    inset: 0,
+    backgroundColor: theme.colors.overlay,
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+    paddingTop: '12vh',
+    zIndex: 2000,
+  },
+  palette: {
+    width: 'min(640px, calc(100vw - 32px))',
+    maxHeight: '70vh',
+    display: 'flex',
+    flexDirection: 'column',
+    backgroundColor: theme.colors.bg.secondary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.lg,
+    boxShadow: `0 20px 50px ${theme.colors.shadow}`,
+    overflow: 'hidden',
+  },
+  inputRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    padding: '14px 16px',
+    borderBottom: `1px solid ${theme.colors.bdr.primary}`,
+  },
+  input: {
+    flex: 1,
+    fontSize: '16px',
+    backgroundColor: 'transparent',
+    border: 'none',
+    outline: 'none',
+    color: theme.colors.txt.primary,
+  },
+  offlineBadge: {
+    fontSize: '11px',
+    fontWeight: 700,
+    textTransform: 'uppercase',
+    padding: '3px 8px',
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: theme.colors.bg.tertiary,
+    color: theme.colors.txt.tertiary,
+  },
+  results: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: '8px',
+  },
+  hint: {
+    padding: '24px 12px',
+    textAlign: 'center',
+    fontSize: '14px',
+    color: theme.colors.txt.tertiary,
+  },
+  groupLabel: {
+    padding: '10px 12px 6px',
+    fontSize: '11px',
+    fontWeight: 700,
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+    color: theme.colors.txt.tertiary,
+  },
+  result: {
+    padding: '10px 12px',
+    borderRadius: theme.borderRadius.md,
+    cursor: 'pointer',
+  },
+  resultActive: {
+    backgroundColor: theme.colors.bg.tertiary,
+  },
+  resultTitle: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+  },
+  resultMeta: {
+    fontSize: '12px',
+    color: theme.colors.txt.tertiary,
+    marginTop: '2px',
+  },
+  resultSnippet: {
+    fontSize: '13px',
+    color: theme.colors.txt.secondary,
+    marginTop: '4px',
+  },
+  matchLabel: {
+    fontWeight: 600,
+    color: theme.colors.txt.tertiary,
+  },
+  mark: {
+    backgroundColor: 'rgba(245, 158, 11, 0.35)',
+    color: 'inherit',
+    borderRadius: '2px',
+    padding: 0,
+  },
+  footer: {
+    display: 'flex',
+    gap: '16px',
+    padding: '10px 16px',
+    fontSize: '12px',
+    color: theme.colors.txt.tertiary,
+    borderTop: `1px solid ${theme.colors.bdr.primary}`,
+  },
+};
+
+export default CommandPalette;
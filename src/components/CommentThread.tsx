@@ -0,0 +1,920 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { theme } from '../theme';
+import { CommentAttachment, CommentEntityType, TaskComment, User } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useComments } from '../hooks/useComments';
+import { useAttachmentUrl } from '../hooks/useAttachmentUrl';
+import { uploadImage, validateImageFile } from '../services/attachments';
+import {
+  ActiveMention,
+  findMentionedUserIds,
+  getActiveMention,
+  getMentionCandidates,
+  getMentionName,
+  insertMention,
+  splitMentions,
+} from '../utils/mentions';
+
+interface CommentThreadProps {
+  entityType: CommentEntityType;
+  entityId: string;
+  entityTitle: string;
+  legacyComments?: TaskComment[]; // Comments still stored on the task/job itself
+  users: User[];
+}
+
+// Images per comment
+const MAX_ATTACHMENTS = 4;
+
+// Format comment timestamp
+const formatCommentTime = (dateStr: string) => {
+  const date = new Date(dateStr);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+// Get user avatar initials from comment
+const getCommentUserInitials = (comment: TaskComment) => {
+  const parts = comment.userName.split(' ');
+  if (parts.length >= 2) {
+    return `${parts[0].charAt(0)}${parts[1].charAt(0)}`;
+  }
+  return comment.userName.charAt(0);
+};
+
+// Get avatar color based on user ID (consistent color per user)
+const getAvatarColor = (userId: string) => {
+  const colors = [
+    theme.colors.primary,
+    theme.colors.status.info,
+    theme.colors.status.warning,
+    theme.colors.status.completed,
+    '#9333EA', // purple
+    '#EC4899', // pink
+    '#F97316', // orange
+  ];
+  const index = userId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0) % colors.length;
+  return colors[index];
+};
+
+/** An attached image, linked to the full size once its signed URL is ready */
+const AttachmentImage: React.FC<{ attachment: CommentAttachment }> = ({ attachment }) => {
+  const src = useAttachmentUrl(attachment.url);
+  if (!src) return <div style={styles.attachmentImage} title={attachment.name} />;
+  return (
+    <a href={src} target="_blank" rel="noopener noreferrer" title={attachment.name}>
+      <img src={src} alt={attachment.name} style={styles.attachmentImage} />
+    </a>
+  );
+};
+
+interface CommentComposerProps {
+  users: User[]; // Who can be mentioned
+  placeholder: string;
+  initialText?: string;
+  allowAttachments?: boolean;
+  autoFocus?: boolean;
+  submitLabel: string;
+  onSubmit: (text: string, mentions: string[], files: File[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+/** Text box with @mention suggestions and image attachments */
+const CommentComposer: React.FC<CommentComposerProps> = ({
+  users,
+  placeholder,
+  initialText = '',
+  allowAttachments = true,
+  autoFocus = false,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}) => {
+  const { error: showError } = useToast();
+  const [text, setText] = useState(initialText);
+  const [files, setFiles] = useState<File[]>([]);
+  const [previews, setPreviews] = useState<string[]>([]);
+  const [mention, setMention] = useState<ActiveMention | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const candidates = useMemo(
+    () => (mention ? getMentionCandidates(users, mention.query) : []),
+    [users, mention]
+  );
+
+  // Object URLs for the thumbnails, released when the files change
+  useEffect(() => {
+    const urls = files.map(file => URL.createObjectURL(file));
+    setPreviews(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [files]);
+
+  const updateMention = (value: string, caret: number) => {
+    setMention(getActiveMention(value, caret));
+    setHighlighted(0);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setText(e.target.value);
+    updateMention(e.target.value, e.target.selectionStart);
+  };
+
+  const pickMention = (user: User) => {
+    if (!mention) return;
+    const result = insertMention(text, mention, user);
+    setText(result.text);
+    setMention(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const valid: File[] = [];
+    selected.forEach(file => {
+      try {
+        validateImageFile(file);
+        valid.push(file);
+      } catch (error: any) {
+        showError(error.message);
+      }
+    });
+
+    if (files.length + valid.length > MAX_ATTACHMENTS) {
+      showError(`You can attach up to ${MAX_ATTACHMENTS} images`);
+    }
+    setFiles(prev => [...prev, ...valid].slice(0, MAX_ATTACHMENTS));
+  };
+
+  const canSubmit = (text.trim().length > 0 || files.length > 0) && !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(text.trim(), findMentionedUserIds(text, users), files);
+      setText('');
+      setFiles([]);
+      setMention(null);
+    } catch {
+      // The caller reports the failure; keep the draft so it can be retried
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (candidates.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted(prev => (prev + step + candidates.length) % candidates.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pickMention(candidates[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === 'Escape' && onCancel) {
+      onCancel();
+    }
+  };
+
+  return (
+    <div style={styles.composer}>
+      {candidates.length > 0 && (
+        <div style={styles.mentionMenu} role="listbox">
+          {candidates.map((user, index) => (
+            <div
+              key={user.id}
+              role="option"
+              aria-selected={index === highlighted}
+              style={{
+                ...styles.mentionOption,
+                ...(index === highlighted ? styles.mentionOptionActive : {}),
+              }}
+              onMouseDown={(e) => {
+                e.preventDefault(); // Keep focus in the text box
+                pickMention(user);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              <span style={{ ...styles.mentionAvatar, backgroundColor: getAvatarColor(user.id) }}>
+                {user.firstName.charAt(0)}{user.lastName.charAt(0)}
+              </span>
+              <span>{getMentionName(user)}</span>
+              {user.department && <span style={styles.mentionDepartment}>{user.department}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {previews.length > 0 && (
+        <div style={styles.attachmentPreviews}>
+          {previews.map((url, index) => (
+            <div key={url} style={styles.previewItem}>
+              <img src={url} alt={files[index]?.name} style={styles.previewImage} />
+              <button
+                type="button"
+                style={styles.removePreview}
+                onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                aria-label={`Remove ${files[index]?.name}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={styles.commentInputWrapper}>
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateMention(text, e.currentTarget.selectionStart)}
+          onBlur={() => setMention(null)}
+          placeholder={placeholder}
+          style={styles.commentInput}
+          rows={1}
+          autoFocus={autoFocus}
+          disabled={isSubmitting}
+        />
+        {allowAttachments && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleFiles}
+              style={{ display: 'none' }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isSubmitting || files.length >= MAX_ATTACHMENTS}
+              style={styles.attachButton}
+              aria-label="Attach images"
+              title="Attach images"
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48" />
+              </svg>
+            </button>
+          </>
+        )}
+        {onCancel && (
+          <button type="button" onClick={onCancel} style={styles.cancelButton} disabled={isSubmitting}>
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          style={{ ...styles.sendButton, opacity: canSubmit ? 1 : 0.5 }}
+          aria-label={submitLabel}
+          title={submitLabel}
+        >
+          {isSubmitting ? (
+            <div style={styles.sendSpinner} />
+          ) : (
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="22" y1="2" x2="11" y2="13" />
+              <polygon points="22 2 15 22 11 13 2 9 22 2" />
+            </svg>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * "Team Discussion" for a task or job: threaded comments with @mentions,
+ * image attachments, and edit/delete for the author (admins can delete too).
+ */
+const CommentThread: React.FC<CommentThreadProps> = ({
+  entityType,
+  entityId,
+  entityTitle,
+  legacyComments,
+  users,
+}) => {
+  const { currentUser, isAdmin } = useAuth();
+  const { showToast } = useToast();
+  const { comments, legacyIds, loading, addComment, editComment, deleteComment } =
+    useComments(entityType, entityId, entityTitle, legacyComments);
+  const [showComments, setShowComments] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const commentsEndRef = useRef<HTMLDivElement>(null);
+
+  const mentionableUsers = useMemo(
+    () => users.filter(user => user.isActive && user.id !== currentUser?.id),
+    [users, currentUser?.id]
+  );
+
+  // Replies are grouped under the comment they answer
+  const { topLevel, repliesByParent } = useMemo(() => {
+    const ids = new Set(comments.map(comment => comment.id));
+    const replies: Record<string, TaskComment[]> = {};
+    const roots: TaskComment[] = [];
+    comments.forEach(comment => {
+      if (comment.parentId && ids.has(comment.parentId)) {
+        (replies[comment.parentId] = replies[comment.parentId] || []).push(comment);
+      } else {
+        roots.push(comment);
+      }
+    });
+    return { topLevel: roots, repliesByParent: replies };
+  }, [comments]);
+
+  const visibleCount = comments.filter(comment => !comment.deletedAt).length;
+
+  // Scroll to bottom of comments when a new top-level comment is added
+  useEffect(() => {
+    if (commentsEndRef.current && showComments && !replyingTo) {
+      commentsEndRef.current.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [topLevel.length, showComments, replyingTo]);
+
+  const submitComment = async (text: string, mentions: string[], files: File[], parentId?: string) => {
+    if (!currentUser) return;
+
+    try {
+      const attachments: CommentAttachment[] = await Promise.all(
+        files.map(file => uploadImage(file, currentUser.id, 'comments'))
+      );
+      await addComment({ text, mentions, attachments, parentId });
+      setReplyingTo(null);
+      showToast(parentId ? 'Reply added' : 'Comment added', 'success');
+    } catch (error) {
+      showToast('Failed to add comment', 'error');
+      throw error;
+    }
+  };
+
+  const submitEdit = async (comment: TaskComment, text: string, mentions: string[]) => {
+    try {
+      await editComment(comment, text, mentions);
+      setEditingId(null);
+    } catch (error) {
+      showToast('Failed to update comment', 'error');
+      throw error;
+    }
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    if (!window.confirm('Delete this comment?')) return;
+
+    try {
+      await deleteComment(comment);
+      showToast('Comment deleted', 'success');
+    } catch {
+      showToast('Failed to delete comment', 'error');
+    }
+  };
+
+  const renderText = (comment: TaskComment) =>
+    splitMentions(comment.text, users, comment.mentions).map((segment, index) =>
+      segment.userId ? (
+        <span key={index} style={styles.mention}>{segment.text}</span>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    );
+
+  const renderComment = (comment: TaskComment, isReply: boolean) => {
+    const isOwn = comment.userId === currentUser?.id;
+    const editable = !legacyIds.has(comment.id) && !comment.deletedAt;
+    const isEditing = editingId === comment.id;
+
+    return (
+      <div key={comment.id} style={{ ...styles.commentItem, ...(isReply ? styles.replyItem : {}) }}>
+        <div
+          style={{
+            ...styles.commentAvatar,
+            ...(isReply ? styles.replyAvatar : {}),
+            backgroundColor: comment.deletedAt ? theme.colors.textMuted : getAvatarColor(comment.userId),
+          }}
+        >
+          {getCommentUserInitials(comment)}
+        </div>
+        <div style={styles.commentContent}>
+          <div style={styles.commentMeta}>
+            <span style={styles.commentUserName}>{comment.userName}</span>
+            <span style={styles.commentTime}>{formatCommentTime(comment.createdAt)}</span>
+            {comment.editedAt && !comment.deletedAt && (
+              <span style={styles.commentTime} title={new Date(comment.editedAt).toLocaleString()}>(edited)</span>
+            )}
+          </div>
+
+          {comment.deletedAt ? (
+            <p style={{ ...styles.commentText, ...styles.deletedText }}>This comment was deleted</p>
+          ) : isEditing ? (
+            <CommentComposer
+              users={mentionableUsers}
+              placeholder="Edit comment..."
+              initialText={comment.text}
+              allowAttachments={false}
+              autoFocus
+              submitLabel="Save"
+              onSubmit={(text, mentions) => submitEdit(comment, text, mentions)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <>
+              {comment.text && <p style={styles.commentText}>{renderText(comment)}</p>}
+              {comment.attachments && comment.attachments.length > 0 && (
+                <div style={styles.attachments}>
+                  {comment.attachments.map((attachment, index) => (
+                    <AttachmentImage key={index} attachment={attachment} />
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          {!isEditing && !comment.deletedAt && currentUser && (
+            <div style={styles.commentActions}>
+              {!isReply && (
+                <button
+                  type="button"
+                  style={styles.commentAction}
+                  onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                >
+                  Reply
+                </button>
+              )}
+              {editable && isOwn && (
+                <button type="button" style={styles.commentAction} onClick={() => setEditingId(comment.id)}>
+                  Edit
+                </button>
+              )}
+              {editable && (isOwn || isAdmin) && (
+                <button
+                  type="button"
+                  style={{ ...styles.commentAction, color: theme.colors.status.error }}
+                  onClick={() => handleDelete(comment)}
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div
+        style={styles.commentsHeader}
+        onClick={() => setShowComments(!showComments)}
+      >
+        <div style={styles.commentsHeaderLeft}>
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke={theme.colors.primary} strokeWidth="2">
+            <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+          </svg>
+          <h3 style={styles.sectionTitle}>Team Discussion</h3>
+          {visibleCount > 0 && (
+            <span style={styles.commentCount}>{visibleCount}</span>
+          )}
+        </div>
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          strokeWidth="2"
+          style={{
+            stroke: theme.colors.textSecondary,
+            transition: 'transform 0.2s',
+            transform: showComments ? 'rotate(180deg)' : 'rotate(0deg)',
+          }}
+        >
+          <polyline points="6 9 12 15 18 9" />
+        </svg>
+      </div>
+
+      {showComments && (
+        <div style={styles.commentsContainer}>
+          {/* Comments List */}
+          <div style={styles.commentsList}>
+            {loading && comments.length === 0 ? (
+              <div style={styles.noComments}>
+                <div style={styles.loadingSpinner} />
+              </div>
+            ) : topLevel.length === 0 ? (
+              <div style={styles.noComments}>
+                <svg width="40" height="40" viewBox="0 0 24 24" fill="none" style={{ stroke: theme.colors.textMuted }} strokeWidth="1.5">
+                  <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+                </svg>
+                <p>No comments yet. Start the conversation!</p>
+              </div>
+            ) : (
+              topLevel.map(comment => (
+                <div key={comment.id} style={styles.thread}>
+                  {renderComment(comment, false)}
+                  {(repliesByParent[comment.id] || []).map(reply => renderComment(reply, true))}
+                  {replyingTo === comment.id && (
+                    <div style={styles.replyComposer}>
+                      <CommentComposer
+                        users={mentionableUsers}
+                        placeholder={`Reply to ${comment.userName}...`}
+                        autoFocus
+                        submitLabel="Send reply"
+                        onSubmit={(text, mentions, files) => submitComment(text, mentions, files, comment.id)}
+                        onCancel={() => setReplyingTo(null)}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+            <div ref={commentsEndRef} />
+          </div>
+
+          {/* Add Comment Input */}
+          {currentUser && (
+            <div style={styles.addCommentContainer}>
+              <div
+                style={{
+                  ...styles.commentAvatar,
+                  backgroundColor: getAvatarColor(currentUser.id),
+                  width: '32px',
+                  height: '32px',
+                  fontSize: '11px',
+                }}
+              >
+                {currentUser.firstName.charAt(0)}{currentUser.lastName.charAt(0)}
+              </div>
+              <CommentComposer
+                users={mentionableUsers}
+                placeholder="Add a comment... (@ to mention)"
+                submitLabel="Send comment"
+                onSubmit={(text, mentions, files) => submitComment(text, mentions, files)}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  sectionTitle: {
+    ...theme.typography.subtitle,
+    color: theme.colors.textPrimary,
+    fontWeight: 600,
+    margin: 0,
+  },
+  commentsHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    cursor: 'pointer',
+    padding: '12px 16px',
+    backgroundColor: theme.colors.inputBackground,
+    borderRadius: theme.borderRadius.md,
+    border: `1px solid ${theme.colors.border}`,
+    transition: 'background-color 0.2s',
+  },
+  commentsHeaderLeft: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+  },
+  commentCount: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: '22px',
+    height: '22px',
+    padding: '0 6px',
+    backgroundColor: theme.colors.primary,
+    color: '#FFFFFF',
+    borderRadius: theme.borderRadius.full,
+    fontSize: '12px',
+    fontWeight: 600,
+  },
+  commentsContainer: {
+    marginTop: '12px',
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  commentsList: {
+    maxHeight: '360px',
+    overflowY: 'auto',
+    padding: '12px',
+    backgroundColor: theme.colors.background,
+    borderRadius: `${theme.borderRadius.md} ${theme.borderRadius.md} 0 0`,
+  },
+  noComments: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: '32px 16px',
+    gap: '12px',
+    color: theme.colors.textMuted,
+    fontSize: '14px',
+    textAlign: 'center',
+  },
+  loadingSpinner: {
+    width: '24px',
+    height: '24px',
+    border: `2px solid ${theme.colors.border}`,
+    borderTopColor: theme.colors.primary,
+    borderRadius: '50%',
+    animation: 'spin 1s linear infinite',
+  },
+  thread: {
+    marginBottom: '8px',
+    backgroundColor: theme.colors.backgroundLight,
+    borderRadius: theme.borderRadius.md,
+    border: `1px solid ${theme.colors.border}`,
+  },
+  commentItem: {
+    display: 'flex',
+    gap: '12px',
+    padding: '12px',
+  },
+  replyItem: {
+    marginLeft: '36px',
+    paddingTop: '8px',
+    borderTop: `1px solid ${theme.colors.border}`,
+  },
+  commentAvatar: {
+    width: '36px',
+    height: '36px',
+    borderRadius: '50%',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    color: '#FFFFFF',
+    fontSize: '12px',
+    fontWeight: 700,
+    flexShrink: 0,
+  },
+  replyAvatar: {
+    width: '28px',
+    height: '28px',
+    fontSize: '10px',
+  },
+  commentContent: {
+    flex: 1,
+    minWidth: 0,
+  },
+  commentMeta: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    marginBottom: '4px',
+  },
+  commentUserName: {
+    fontWeight: 600,
+    fontSize: '13px',
+    color: theme.colors.textPrimary,
+  },
+  commentTime: {
+    fontSize: '12px',
+    color: theme.colors.textMuted,
+  },
+  commentText: {
+    fontSize: '14px',
+    color: theme.colors.textSecondary,
+    lineHeight: 1.5,
+    margin: 0,
+    wordWrap: 'break-word',
+    whiteSpace: 'pre-wrap',
+  },
+  deletedText: {
+    fontStyle: 'italic',
+    color: theme.colors.textMuted,
+  },
+  mention: {
+    color: theme.colors.primary,
+    fontWeight: 600,
+  },
+  attachments: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '8px',
+    marginTop: '8px',
+  },
+  attachmentImage: {
+    width: '96px',
+    height: '96px',
+    objectFit: 'cover',
+    borderRadius: theme.borderRadius.sm,
+    border: `1px solid ${theme.colors.border}`,
+    display: 'block',
+  },
+  commentActions: {
+    display: 'flex',
+    gap: '12px',
+    marginTop: '6px',
+  },
+  commentAction: {
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    fontSize: '12px',
+    fontWeight: 600,
+    color: theme.colors.textMuted,
+    cursor: 'pointer',
+  },
+  replyComposer: {
+    padding: '0 12px 12px 48px',
+  },
+  addCommentContainer: {
+    display: 'flex',
+    alignItems: 'flex-end',
+    gap: '12px',
+    padding: '12px',
+    backgroundColor: theme.colors.backgroundLight,
+    borderTop: `1px solid ${theme.colors.border}`,
+    borderRadius: `0 0 ${theme.borderRadius.md} ${theme.borderRadius.md}`,
+  },
+  composer: {
+    flex: 1,
+    position: 'relative',
+    minWidth: 0,
+  },
+  mentionMenu: {
+    position: 'absolute',
+    bottom: '100%',
+    left: 0,
+    marginBottom: '4px',
+    minWidth: '220px',
+    maxWidth: '100%',
+    backgroundColor: theme.colors.backgroundLight,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+    boxShadow: theme.shadows.lg,
+    padding: '4px',
+    zIndex: 10,
+  },
+  mentionOption: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '6px 8px',
+    borderRadius: theme.borderRadius.sm,
+    fontSize: '13px',
+    color: theme.colors.textPrimary,
+    cursor: 'pointer',
+  },
+  mentionOptionActive: {
+    backgroundColor: theme.colors.inputBackground,
+  },
+  mentionAvatar: {
+    width: '22px',
+    height: '22px',
+    borderRadius: '50%',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    color: '#FFFFFF',
+    fontSize: '9px',
+    fontWeight: 700,
+    flexShrink: 0,
+  },
+  mentionDepartment: {
+    marginLeft: 'auto',
+    fontSize: '11px',
+    color: theme.colors.textMuted,
+  },
+  attachmentPreviews: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '8px',
+    marginBottom: '8px',
+  },
+  previewItem: {
+    position: 'relative',
+  },
+  previewImage: {
+    width: '56px',
+    height: '56px',
+    objectFit: 'cover',
+    borderRadius: theme.borderRadius.sm,
+    border: `1px solid ${theme.colors.border}`,
+    display: 'block',
+  },
+  removePreview: {
+    position: 'absolute',
+    top: '-6px',
+    right: '-6px',
+    width: '18px',
+    height: '18px',
+    borderRadius: '50%',
+    border: 'none',
+    backgroundColor: theme.colors.status.error,
+    color: '#FFFFFF',
+    fontSize: '12px',
+    lineHeight: '18px',
+    padding: 0,
+    cursor: 'pointer',
+  },
+  commentInputWrapper: {
+    display: 'flex',
+    alignItems: 'flex-end',
+    gap: '8px',
+    backgroundColor: theme.colors.inputBackground,
+    borderRadius: theme.borderRadius.md,
+    border: `1px solid ${theme.colors.border}`,
+    padding: '4px 4px 4px 12px',
+  },
+  commentInput: {
+    flex: 1,
+    border: 'none',
+    backgroundColor: 'transparent',
+    color: theme.colors.textPrimary,
+    fontSize: '14px',
+    fontFamily: 'inherit',
+    outline: 'none',
+    padding: '8px 0',
+    resize: 'vertical',
+    minHeight: '20px',
+  },
+  attachButton: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: '36px',
+    height: '36px',
+    background: 'none',
+    border: 'none',
+    color: theme.colors.textSecondary,
+    cursor: 'pointer',
+  },
+  cancelButton: {
+    height: '36px',
+    padding: '0 10px',
+    background: 'none',
+    border: 'none',
+    color: theme.colors.textSecondary,
+    fontSize: '13px',
+    cursor: 'pointer',
+  },
+  sendButton: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: '36px',
+    height: '36px',
+    backgroundColor: theme.colors.primary,
+    border: 'none',
+    borderRadius: theme.borderRadius.sm,
+    color: '#FFFFFF',
+    cursor: 'pointer',
+    transition: 'opacity 0.2s',
+    flexShrink: 0,
+  },
+  sendSpinner: {
+    width: '16px',
+    height: '16px',
+    border: '2px solid rgba(255, 255, 255, 0.3)',
+    borderTopColor: '#FFFFFF',
+    borderRadius: '50%',
+    animation: 'spin 1s linear infinite',
+  },
+};
+
+export default CommentThread;
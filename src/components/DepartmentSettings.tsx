@@ -0,0 +1,163 @@
+/**
+ * Department Settings
+ * Lets admins add departments and delete the ones nothing refers to any more.
+ * Membership is set per person in Team Management.
+ */
+
+import React, { useState } from 'react';
+import { theme } from '../theme';
+import { useAuth } from '../contexts/AuthContext';
+import { useDepartments } from '../contexts/DepartmentContext';
+import { useSOPs } from '../contexts/SOPContext';
+import { useTask } from '../contexts/TaskContext';
+import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../hooks/useConfirm';
+import { Department } from '../types';
+import { getSOPDepartments, isDepartmentMember } from '../utils/departments';
+import { FormButton, FormInput } from './FormComponents';
+
+const DepartmentSettings: React.FC = () => {
+  const { users } = useAuth();
+  const { departments, addDepartment, deleteDepartment } = useDepartments();
+  const { sops } = useSOPs();
+  const { taskTemplates } = useTask();
+  const { success: showSuccess, error: showError } = useToast();
+  const { confirm, confirmDialog } = useConfirm();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const activeUsers = users.filter(user => user.isActive !== false);
+  const getMemberCount = (department: string) =>
+    activeUsers.filter(user => isDepartmentMember(user, department)).length;
+
+  // SOPs, templates and members still pointing at the department by name
+  const getUsage = (department: string) =>
+    getMemberCount(department)
+    + sops.filter(sop => getSOPDepartments(sop).includes(department)).length
+    + taskTemplates.filter(template => template.department === department).length;
+
+  const handleAdd = async () => {
+    if (!name.trim()) {
+      showError('Department name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addDepartment(name.trim(), description.trim() || undefined);
+      showSuccess(`${name.trim()} added`);
+      setName('');
+      setDescription('');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to add the department. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (department: Department) => {
+    const confirmed = await confirm({
+      title: `Delete ${department.name}?`,
+      message: 'It will no longer be offered for people, SOPs or templates.',
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    setSaving(true);
+    try {
+      await deleteDepartment(department.id);
+      showSuccess(`${department.name} deleted`);
+    } catch {
+      showError('Failed to delete the department. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.list}>
+        {departments.map(department => {
+          const memberCount = getMemberCount(department.name);
+          const inUse = getUsage(department.name) > 0;
+          return (
+            <div key={department.id} style={styles.row}>
+              <div>
+                <span style={styles.name}>{department.name}</span>
+                <span style={styles.meta}>
+                  {memberCount} {memberCount === 1 ? 'member' : 'members'}
+                  {department.description ? ` · ${department.description}` : ''}
+                </span>
+              </div>
+              <FormButton
+                variant="danger"
+                onClick={() => handleDelete(department)}
+                disabled={saving || inUse}
+                title={inUse ? 'Move its people, SOPs and templates to another department first' : undefined}
+              >
+                Delete
+              </FormButton>
+            </div>
+          );
+        })}
+        {departments.length === 0 && <p style={styles.note}>No departments yet.</p>}
+      </div>
+
+      <FormInput label="New department" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Operations" />
+      <FormInput label="Description" value={description} onChange={(e) => setDescription(e.target.value)} />
+
+      <div style={styles.buttonRow}>
+        <FormButton variant="primary" onClick={handleAdd} loading={saving}>
+          Add Department
+        </FormButton>
+      </div>
+      {confirmDialog}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  list: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '12px',
+    padding: '10px 12px',
+    border: `1px solid ${theme.colors.bdr.secondary}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  name: {
+    display: 'block',
+    fontSize: '14px',
+    color: theme.colors.txt.primary,
+  },
+  meta: {
+    display: 'block',
+    fontSize: '12px',
+    color: theme.colors.txt.tertiary,
+  },
+  note: {
+    fontSize: '13px',
+    color: theme.colors.txt.tertiary,
+    margin: 0,
+  },
+  buttonRow: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '8px',
+  },
+};
+
+export default DepartmentSettings;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { ALL_DEPARTMENTS, useDepartments } from '../contexts/DepartmentContext';
+
+interface DepartmentSwitcherProps {
+  selectStyle: React.CSSProperties;
+}
+
+/**
+ * Narrows the SOP, template and task lists to one department. Admins pick from
+ * every department; others from the departments they belong to. Hidden when
+ * there is nothing to switch between.
+ */
+const DepartmentSwitcher: React.FC<DepartmentSwitcherProps> = ({ selectStyle }) => {
+  const { switchableDepartments, activeDepartment, setActiveDepartment } = useDepartments();
+
+  if (switchableDepartments.length < 2) return null;
+
+  return (
+    <select
+      value={activeDepartment}
+      onChange={(e) => setActiveDepartment(e.target.value)}
+      style={selectStyle}
+      aria-label="Department"
+      title="Show one department"
+    >
+      <option value={ALL_DEPARTMENTS}>All departments</option>
+      {switchableDepartments.map(department => (
+        <option key={department} value={department}>{department}</option>
+      ))}
+    </select>
+  );
+};
+
+export default DepartmentSwitcher;
@@ -0,0 +1,227 @@
+/**
+ * Email Template Settings
+ * Lets admins reword the emails the app sends, with a live preview
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { theme } from '../theme';
+import { useToast } from '../contexts/ToastContext';
+import { EmailTemplateId } from '../types';
+import { FormButton, FormInput, FormSelect, FormTextarea } from './FormComponents';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_IDS,
+  EMAIL_TEMPLATE_INFO,
+  renderEmailTemplate,
+} from '../utils/emailTemplates';
+import {
+  EmailTemplateOverrides,
+  fetchEmailTemplateOverrides,
+  resetEmailTemplate,
+  saveEmailTemplate,
+} from '../services/emailTemplates';
+
+interface EmailTemplateSettingsProps {
+  userId: string;
+}
+
+const EmailTemplateSettings: React.FC<EmailTemplateSettingsProps> = ({ userId }) => {
+  const { success: showSuccess, error: showError } = useToast();
+  const [overrides, setOverrides] = useState<EmailTemplateOverrides>({});
+  const [selectedId, setSelectedId] = useState<EmailTemplateId>('task_assigned');
+  const [subject, setSubject] = useState(DEFAULT_EMAIL_TEMPLATES.task_assigned.subject);
+  const [body, setBody] = useState(DEFAULT_EMAIL_TEMPLATES.task_assigned.body);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchEmailTemplateOverrides()
+      .then(loaded => {
+        if (!cancelled) setOverrides(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) showError('Failed to load email templates');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showError]);
+
+  // Load the selected template into the editor
+  const current = overrides[selectedId] || DEFAULT_EMAIL_TEMPLATES[selectedId];
+  useEffect(() => {
+    setSubject(current.subject);
+    setBody(current.body);
+  }, [current]);
+
+  const info = EMAIL_TEMPLATE_INFO[selectedId];
+  const isCustomized = !!overrides[selectedId];
+  const hasChanges = subject !== current.subject || body !== current.body;
+  const preview = useMemo(() => renderEmailTemplate({ subject, body }, info.sample), [subject, body, info]);
+
+  const handleSave = async () => {
+    if (!subject.trim() || !body.trim()) {
+      showError('Subject and message are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const template = { subject: subject.trim(), body };
+      await saveEmailTemplate(selectedId, template, userId);
+      setOverrides(prev => ({ ...prev, [selectedId]: template }));
+      showSuccess(`${info.label} email saved`);
+    } catch {
+      showError('Failed to save the template. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setSaving(true);
+    try {
+      await resetEmailTemplate(selectedId);
+      setOverrides(prev => {
+        const { [selectedId]: _removed, ...rest } = prev;
+        return rest;
+      });
+      showSuccess(`${info.label} email reset to the default`);
+    } catch {
+      showError('Failed to reset the template. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <p style={styles.note}>Loading...</p>;
+  }
+
+  return (
+    <div style={styles.container}>
+      <FormSelect
+        label="Email"
+        value={selectedId}
+        onChange={(e) => setSelectedId(e.target.value as EmailTemplateId)}
+        options={EMAIL_TEMPLATE_IDS.map(id => ({
+          value: id,
+          label: overrides[id] ? `${EMAIL_TEMPLATE_INFO[id].label} (customized)` : EMAIL_TEMPLATE_INFO[id].label,
+        }))}
+        helperText={info.description}
+      />
+
+      <FormInput label="Subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+
+      <FormTextarea
+        label="Message"
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={10}
+        style={styles.bodyInput}
+      />
+
+      <div style={styles.placeholders}>
+        <span style={styles.placeholdersLabel}>Placeholders</span>
+        {Object.entries(info.placeholders).map(([name, description]) => (
+          <span key={name} style={styles.placeholder} title={description}>
+            {`{{${name}}}`}
+          </span>
+        ))}
+      </div>
+
+      <div style={styles.preview}>
+        <span style={styles.previewLabel}>Preview</span>
+        <div style={styles.previewSubject}>{preview.subject}</div>
+        <pre style={styles.previewBody}>{preview.body}</pre>
+      </div>
+
+      <div style={styles.buttonRow}>
+        {isCustomized && (
+          <FormButton variant="ghost" onClick={handleReset} disabled={saving}>
+            Reset to Default
+          </FormButton>
+        )}
+        <FormButton variant="primary" onClick={handleSave} loading={saving} disabled={!hasChanges}>
+          Save Template
+        </FormButton>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  note: {
+    fontSize: '13px',
+    color: theme.colors.txt.tertiary,
+    margin: 0,
+  },
+  bodyInput: {
+    fontFamily: theme.fonts.mono,
+    fontSize: '13px',
+  },
+  placeholders: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '6px',
+  },
+  placeholdersLabel: {
+    fontSize: '12px',
+    fontWeight: 600,
+    color: theme.colors.txt.tertiary,
+    marginRight: '4px',
+  },
+  placeholder: {
+    padding: '2px 8px',
+    fontFamily: theme.fonts.mono,
+    fontSize: '12px',
+    color: theme.colors.txt.secondary,
+    backgroundColor: theme.colors.bg.tertiary,
+    borderRadius: theme.borderRadius.sm,
+    cursor: 'help',
+  },
+  preview: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    padding: '12px 16px',
+    backgroundColor: theme.colors.bg.tertiary,
+    borderRadius: theme.borderRadius.md,
+  },
+  previewLabel: {
+    fontSize: '12px',
+    fontWeight: 600,
+    color: theme.colors.txt.tertiary,
+  },
+  previewSubject: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+  },
+  previewBody: {
+    margin: 0,
+    fontFamily: theme.fonts.primary,
+    fontSize: '13px',
+    lineHeight: 1.5,
+    color: theme.colors.txt.secondary,
+    whiteSpace: 'pre-wrap',
+  },
+  buttonRow: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+    gap: '8px',
+  },
+};
+
+export default EmailTemplateSettings;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { theme } from '../theme';
 import { CalendarEvent, User } from '../types';
+import { describeRecurrence } from '../utils/recurrence';
 import { useResponsive } from '../hooks/useResponsive';
 import { useEvent } from '../contexts/EventContext';
 import { useToast } from '../contexts/ToastContext';
@@ -85,32 +86,7 @@ const EventDetailModal: React.FC<EventDetailModalProps> = ({
 
   const getRecurrenceText = () => {
     if (!event.isRecurring || !event.recurrencePattern) return null;
-    const pattern = event.recurrencePattern;
-    const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-
-    let text = '';
-    switch (pattern.frequency) {
-      case 'daily':
-        text = 'Repeats daily';
-        break;
-      case 'weekly':
-        if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
-          const days = pattern.daysOfWeek.map(d => dayNames[d]).join(', ');
-          text = `Repeats weekly on ${days}`;
-        } else {
-          text = 'Repeats weekly';
-        }
-        break;
-      case 'monthly':
-        text = 'Repeats monthly';
-        break;
-    }
-
-    if (pattern.endDate) {
-      text += ` until ${formatDate(pattern.endDate)}`;
-    }
-
-    return text;
+    return `Repeats: ${describeRecurrence(event.recurrencePattern, event.startDate)}`;
   };
 
   // Calendar export handlers
@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { theme } from '../theme';
-import { CalendarEvent, User } from '../types';
+import { CalendarEvent, RecurrencePattern, User } from '../types';
 import { useResponsive } from '../hooks/useResponsive';
 import { useEvent } from '../contexts/EventContext';
+import RecurrenceOptions from './RecurrenceOptions';
+import { cleanRecurrencePattern, validateRecurrencePattern } from '../utils/recurrence';
+import { getTodayKey } from '../utils/dateTime';
 
 interface EventFormModalProps {
   isOpen: boolean;
@@ -59,9 +62,8 @@ const EventFormModal: React.FC<EventFormModalProps> = ({
   const [attendees, setAttendees] = useState<string[]>([]);
   const [reminderTime, setReminderTime] = useState(30);
   const [isRecurring, setIsRecurring] = useState(false);
-  const [recurrenceFrequency, setRecurrenceFrequency] = useState<'daily' | 'weekly' | 'monthly'>('weekly');
-  const [recurrenceDays, setRecurrenceDays] = useState<number[]>([]);
-  const [recurrenceEndDate, setRecurrenceEndDate] = useState('');
+  const [recurrence, setRecurrence] = useState<RecurrencePattern>({ frequency: 'weekly' });
+  const [recurrenceError, setRecurrenceError] = useState('');
   const [notes, setNotes] = useState('');
 
   // Tags state
@@ -90,16 +92,12 @@ const EventFormModal: React.FC<EventFormModalProps> = ({
         setAttendees(editingEvent.attendees);
         setReminderTime(editingEvent.reminders?.[0]?.time || 0);
         setIsRecurring(editingEvent.isRecurring);
-        if (editingEvent.recurrencePattern) {
-          setRecurrenceFrequency(editingEvent.recurrencePattern.frequency);
-          setRecurrenceDays(editingEvent.recurrencePattern.daysOfWeek || []);
-          setRecurrenceEndDate(editingEvent.recurrencePattern.endDate || '');
-        }
+        setRecurrence(editingEvent.recurrencePattern || { frequency: 'weekly' });
         setNotes(editingEvent.notes || '');
         setSelectedTags(editingEvent.tags || []);
       } else {
         // Reset to defaults
-        const today = initialDate || new Date().toISOString().split('T')[0];
+        const today = initialDate || getTodayKey();
         setTitle('');
         setDescription('');
         setStartDate(today);
@@ -112,12 +110,11 @@ const EventFormModal: React.FC<EventFormModalProps> = ({
         setAttendees([]);
         setReminderTime(30);
         setIsRecurring(false);
-        setRecurrenceFrequency('weekly');
-        setRecurrenceDays([]);
-        setRecurrenceEndDate('');
+        setRecurrence({ frequency: 'weekly' });
         setNotes('');
         setSelectedTags([]);
       }
+      setRecurrenceError('');
       // Reset template/tag input state
       setSelectedTemplate('');
       setShowTagInput(false);
@@ -134,6 +131,13 @@ const EventFormModal: React.FC<EventFormModalProps> = ({
       return;
     }
 
+    const recurrencePattern = isRecurring ? cleanRecurrencePattern(recurrence) : undefined;
+    const patternError = recurrencePattern && validateRecurrencePattern(recurrencePattern, startDate);
+    if (patternError) {
+      setRecurrenceError(patternError);
+      return;
+    }
+
     const eventData: Omit<CalendarEvent, 'id' | 'createdAt' | 'createdBy'> = {
       title: title.trim(),
       description: description.trim(),
@@ -147,11 +151,7 @@ const EventFormModal: React.FC<EventFormModalProps> = ({
       attendees,
       reminders: reminderTime > 0 ? [{ id: '1', type: 'notification', time: reminderTime }] : undefined,
       isRecurring,
-      recurrencePattern: isRecurring ? {
-        frequency: recurrenceFrequency,
-        daysOfWeek: recurrenceFrequency === 'weekly' ? recurrenceDays : undefined,
-        endDate: recurrenceEndDate || undefined,
-      } : undefined,
+      recurrencePattern,
       notes: notes.trim() || undefined,
       tags: selectedTags.length > 0 ? selectedTags : undefined,
       updatedAt: editingEvent ? new Date().toISOString() : undefined,
@@ -193,9 +193,7 @@ const EventFormModal: React.FC<EventFormModalProps> = ({
       setReminderTime(template.reminders?.[0]?.time || 0);
       setIsRecurring(template.isRecurring);
       if (template.recurrencePattern) {
-        setRecurrenceFrequency(template.recurrencePattern.frequency);
-        setRecurrenceDays(template.recurrencePattern.daysOfWeek || []);
-        setRecurrenceEndDate(template.recurrencePattern.endDate || '');
+        setRecurrence(template.recurrencePattern);
       }
       setNotes(template.notes || '');
       setSelectedTags(template.tags || []);
@@ -215,11 +213,7 @@ const EventFormModal: React.FC<EventFormModalProps> = ({
         attendees,
         reminders: reminderTime > 0 ? [{ id: '1', type: 'notification', time: reminderTime }] : undefined,
         isRecurring,
-        recurrencePattern: isRecurring ? {
-          frequency: recurrenceFrequency,
-          daysOfWeek: recurrenceFrequency === 'weekly' ? recurrenceDays : undefined,
-          endDate: recurrenceEndDate || undefined,
-        } : undefined,
+        recurrencePattern: isRecurring ? cleanRecurrencePattern(recurrence) : undefined,
         notes: notes.trim() || undefined,
         tags: selectedTags.length > 0 ? selectedTags : undefined,
       });
@@ -236,18 +230,8 @@ const EventFormModal: React.FC<EventFormModalProps> = ({
     );
   };
 
-  const toggleRecurrenceDay = (day: number) => {
-    setRecurrenceDays(prev =>
-      prev.includes(day)
-        ? prev.filter(d => d !== day)
-        : [...prev, day].sort()
-    );
-  };
-
   if (!isOpen) return null;
 
-  const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-
   return (
     <div style={styles.overlay} onClick={onClose}>
       <div
@@ -596,51 +580,16 @@ const EventFormModal: React.FC<EventFormModalProps> = ({
 
             {isRecurring && (
               <div style={styles.recurrenceOptions}>
-                <div style={styles.formGroup}>
-                  <label style={styles.label}>Repeat</label>
-                  <select
-                    value={recurrenceFrequency}
-                    onChange={(e) => setRecurrenceFrequency(e.target.value as 'daily' | 'weekly' | 'monthly')}
-                    style={styles.select}
-                  >
-                    <option value="daily">Daily</option>
-                    <option value="weekly">Weekly</option>
-                    <option value="monthly">Monthly</option>
-                  </select>
-                </div>
-
-                {recurrenceFrequency === 'weekly' && (
-                  <div style={styles.formGroup}>
-                    <label style={styles.label}>Repeat on</label>
-                    <div style={styles.daysOfWeek}>
-                      {dayNames.map((day, index) => (
-                        <button
-                          key={day}
-                          type="button"
-                          onClick={() => toggleRecurrenceDay(index)}
-                          style={{
-                            ...styles.dayButton,
-                            ...(recurrenceDays.includes(index) ? styles.dayButtonSelected : {}),
-                          }}
-                        >
-                          {day}
-                        </button>
-                      ))}
-                    </div>
-                  </div>
-                )}
-
-                <div style={styles.formGroup}>
-                  <label style={styles.label}>End repeat</label>
-                  <input
-                    type="date"
-                    value={recurrenceEndDate}
-                    onChange={(e) => setRecurrenceEndDate(e.target.value)}
-                    min={startDate}
-                    style={styles.input}
-                    placeholder="Never"
-                  />
-                </div>
+                <RecurrenceOptions
+                  pattern={recurrence}
+                  onChange={(pattern) => {
+                    setRecurrence(pattern);
+                    setRecurrenceError('');
+                  }}
+                  startDate={startDate}
+                  isMobile={isMobileOrTablet}
+                />
+                {recurrenceError && <p style={styles.errorText}>{recurrenceError}</p>}
               </div>
             )}
 
@@ -939,26 +888,10 @@ const styles: { [key: string]: React.CSSProperties } = {
     borderRadius: theme.borderRadius.md,
     marginBottom: '20px',
   },
-  daysOfWeek: {
-    display: 'flex',
-    gap: '8px',
-    flexWrap: 'wrap',
-  },
-  dayButton: {
-    padding: '8px 12px',
-    backgroundColor: theme.colors.inputBackground,
-    border: `2px solid ${theme.colors.border}`,
-    borderRadius: theme.borderRadius.md,
-    cursor: 'pointer',
+  errorText: {
+    margin: '12px 0 0',
     fontSize: '13px',
-    fontWeight: 600,
-    color: theme.colors.textSecondary,
-    transition: 'all 0.2s',
-  },
-  dayButtonSelected: {
-    backgroundColor: theme.colors.primary,
-    borderColor: theme.colors.primary,
-    color: '#FFFFFF',
+    color: theme.colors.status.error,
   },
   footer: {
     display: 'flex',
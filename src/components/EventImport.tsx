@@ -0,0 +1,529 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { useEvent } from '../contexts/EventContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { theme } from '../theme';
+import { CalendarEvent } from '../types';
+import { getEventICSUid, ICSImportItem, parseICS } from '../utils/icsImport';
+import { parseDateKey } from '../utils/dateTime';
+
+interface EventImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+const formatWhen = (item: ICSImportItem) => {
+  const { event } = item;
+  const format = (dateKey: string) =>
+    parseDateKey(dateKey).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  let when = format(event.startDate);
+  if (event.endDate) when += ` - ${format(event.endDate)}`;
+  if (event.isAllDay) return `${when} | All day`;
+  return `${when} | ${event.startTime}${event.endTime ? `-${event.endTime}` : ''}`;
+};
+
+const EventImport: React.FC<EventImportProps> = ({ isOpen, onClose, onSuccess }) => {
+  const { events, addEvent, updateEvent } = useEvent();
+  const { users } = useAuth();
+  const { showToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [parsedItems, setParsedItems] = useState<ICSImportItem[]>([]);
+  const [calendarName, setCalendarName] = useState<string | undefined>(undefined);
+  const [isImporting, setIsImporting] = useState(false);
+  const [previewMode, setPreviewMode] = useState(false);
+  const [selectedItems, setSelectedItems] = useState<Set<number>>(new Set());
+
+  // Events already in the calendar, by the UID they carry in .ics files
+  const eventsByUid = useMemo(() => {
+    const map = new Map<string, CalendarEvent>();
+    events.forEach(event => map.set(getEventICSUid(event), event));
+    return map;
+  }, [events]);
+
+  const userIdsByEmail = useMemo(() => {
+    const map = new Map<string, string>();
+    users.forEach(user => map.set(user.email.toLowerCase(), user.id));
+    return map;
+  }, [users]);
+
+  const resetPreview = () => {
+    setPreviewMode(false);
+    setParsedItems([]);
+    setCalendarName(undefined);
+    setSelectedItems(new Set());
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result as string;
+      try {
+        const result = parseICS(text);
+
+        if (result.items.length === 0) {
+          showToast('No events found in the .ics file', 'error');
+          return;
+        }
+
+        setParsedItems(result.items);
+        setCalendarName(result.calendarName);
+        // Events imported before are only updated if picked explicitly
+        setSelectedItems(new Set(
+          result.items.map((item, i) => (eventsByUid.has(item.uid) ? -1 : i)).filter(i => i >= 0)
+        ));
+        setPreviewMode(true);
+        showToast(
+          `Found ${result.items.length} event${result.items.length > 1 ? 's' : ''} to import` +
+            (result.skipped > 0 ? ` (${result.skipped} cancelled or unreadable skipped)` : ''),
+          'success'
+        );
+      } catch (error) {
+        console.error('Error parsing ICS:', error);
+        showToast(error instanceof Error && error.message ? error.message : 'Error parsing .ics file.', 'error');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const toggleItemSelection = (index: number) => {
+    const newSelected = new Set(selectedItems);
+    if (newSelected.has(index)) {
+      newSelected.delete(index);
+    } else {
+      newSelected.add(index);
+    }
+    setSelectedItems(newSelected);
+  };
+
+  const selectAll = () => {
+    setSelectedItems(new Set(parsedItems.map((_, i) => i)));
+  };
+
+  const deselectAll = () => {
+    setSelectedItems(new Set());
+  };
+
+  const handleImport = async () => {
+    if (selectedItems.size === 0) {
+      showToast('Please select at least one event to import', 'error');
+      return;
+    }
+
+    setIsImporting(true);
+    let createdCount = 0;
+    let updatedCount = 0;
+    let errorCount = 0;
+
+    for (const index of Array.from(selectedItems)) {
+      const item = parsedItems[index];
+      const attendees = item.attendeeEmails
+        .map(email => userIdsByEmail.get(email))
+        .filter((id): id is string => !!id);
+
+      try {
+        const existing = eventsByUid.get(item.uid);
+        if (existing) {
+          // Refresh the schedule and details; colour, tags and attendees stay as edited here
+          const { event } = item;
+          await updateEvent(existing.id, {
+            title: event.title,
+            description: event.description,
+            startDate: event.startDate,
+            startTime: event.startTime,
+            endDate: event.endDate,
+            endTime: event.endTime,
+            location: event.location,
+            isAllDay: event.isAllDay,
+            isRecurring: event.isRecurring,
+            recurrencePattern: event.recurrencePattern,
+            reminders: event.reminders,
+            icsUid: item.uid,
+            ...(attendees.length > 0 && { attendees: Array.from(new Set([...existing.attendees, ...attendees])) }),
+          });
+          updatedCount++;
+        } else {
+          await addEvent({ ...item.event, attendees, icsUid: item.uid });
+          createdCount++;
+        }
+      } catch (error) {
+        console.error('Error importing event:', item.event.title, error);
+        errorCount++;
+      }
+    }
+
+    setIsImporting(false);
+
+    if (createdCount + updatedCount > 0) {
+      const parts = [
+        createdCount > 0 && `imported ${createdCount} event${createdCount > 1 ? 's' : ''}`,
+        updatedCount > 0 && `updated ${updatedCount}`,
+      ].filter(Boolean).join(', ');
+      showToast(
+        `Successfully ${parts}${errorCount > 0 ? ` (${errorCount} failed)` : ''}`,
+        'success'
+      );
+      resetPreview();
+      onSuccess?.();
+      onClose();
+    } else {
+      showToast('Failed to import events. Please try again.', 'error');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const existingCount = parsedItems.filter(item => eventsByUid.has(item.uid)).length;
+
+  return (
+    <div style={styles.overlay} onClick={onClose}>
+      <div style={styles.modal} onClick={e => e.stopPropagation()}>
+        <div style={styles.header}>
+          <h2 style={styles.title}>Import Events from Calendar File</h2>
+          <button onClick={onClose} style={styles.closeButton}>
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        {!previewMode ? (
+          <div style={styles.content}>
+            <div style={styles.instructions}>
+              <h3 style={styles.instructionsTitle}>How to Import Events</h3>
+              <ol style={styles.instructionsList}>
+                <li>Export or download the calendar as an .ics file (Google Calendar, Outlook, Apple Calendar, school or vendor sites)</li>
+                <li>Upload it here and review the events found</li>
+                <li>Pick the events to add to the calendar</li>
+              </ol>
+              <p style={styles.templateNote}>
+                Repeating events, reminders and time zones are kept. Importing the same file again updates
+                the events that came from it instead of adding duplicates.
+              </p>
+            </div>
+
+            <div style={styles.uploadSection}>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleFileUpload}
+                style={styles.fileInput}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                style={styles.uploadButton}
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                  <polyline points="17 8 12 3 7 8" />
+                  <line x1="12" y1="3" x2="12" y2="15" />
+                </svg>
+                Upload .ics File
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div style={styles.content}>
+            {calendarName && <div style={styles.calendarName}>{calendarName}</div>}
+            <div style={styles.previewHeader}>
+              <p style={styles.previewCount}>
+                {selectedItems.size} of {parsedItems.length} event{parsedItems.length !== 1 ? 's' : ''} selected for import
+                {existingCount > 0 && ` (${existingCount} already in the calendar)`}
+              </p>
+              <div style={styles.selectionButtons}>
+                <button onClick={selectAll} style={styles.selectButton}>Select All</button>
+                <button onClick={deselectAll} style={styles.selectButton}>Deselect All</button>
+              </div>
+            </div>
+
+            <div style={styles.previewList}>
+              {parsedItems.map((item, index) => (
+                <div
+                  key={item.uid}
+                  style={{
+                    ...styles.previewItem,
+                    ...(selectedItems.has(index) ? styles.previewItemSelected : {}),
+                  }}
+                  onClick={() => toggleItemSelection(index)}
+                >
+                  <div style={styles.checkbox}>
+                    {selectedItems.has(index) && (
+                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3">
+                        <polyline points="20 6 9 17 4 12" />
+                      </svg>
+                    )}
+                  </div>
+                  <div style={styles.previewInfo}>
+                    <div style={styles.previewTitle}>
+                      {item.event.title}
+                      {eventsByUid.has(item.uid) && <span style={styles.existingBadge}>Update</span>}
+                    </div>
+                    <div style={styles.previewMeta}>
+                      {formatWhen(item)}
+                      {item.event.isRecurring && item.event.recurrencePattern && (
+                        <> | Recurring {item.event.recurrencePattern.frequency}</>
+                      )}
+                      {item.event.reminders && (
+                        <> | {item.event.reminders.length} reminder{item.event.reminders.length !== 1 ? 's' : ''}</>
+                      )}
+                      {item.event.location && <> | {item.event.location}</>}
+                    </div>
+                    {item.warnings.map(warning => (
+                      <div key={warning} style={styles.previewWarning}>{warning}</div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div style={styles.previewActions}>
+              <button onClick={resetPreview} style={styles.backButton}>
+                Back
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={isImporting || selectedItems.size === 0}
+                style={{
+                  ...styles.importButton,
+                  ...(isImporting || selectedItems.size === 0 ? styles.importButtonDisabled : {}),
+                }}
+              >
+                {isImporting ? 'Importing...' : `Import ${selectedItems.size} Event${selectedItems.size !== 1 ? 's' : ''}`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  overlay: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1000,
+    padding: '20px',
+  },
+  modal: {
+    backgroundColor: theme.colors.bg.secondary,
+    borderRadius: theme.borderRadius.lg,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    width: '100%',
+    maxWidth: '600px',
+    maxHeight: '80vh',
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '20px 24px',
+    borderBottom: `1px solid ${theme.colors.bdr.primary}`,
+  },
+  title: {
+    fontSize: '20px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+    margin: 0,
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    padding: '4px',
+    cursor: 'pointer',
+    color: theme.colors.txt.secondary,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: theme.borderRadius.sm,
+  },
+  content: {
+    padding: '24px',
+    overflowY: 'auto',
+  },
+  instructions: {
+    marginBottom: '24px',
+  },
+  instructionsTitle: {
+    fontSize: '16px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+    marginBottom: '12px',
+  },
+  instructionsList: {
+    margin: '0 0 12px',
+    paddingLeft: '20px',
+    color: theme.colors.txt.secondary,
+    lineHeight: 1.8,
+  },
+  templateNote: {
+    fontSize: '13px',
+    color: theme.colors.txt.tertiary,
+    margin: 0,
+  },
+  uploadSection: {
+    textAlign: 'center' as const,
+  },
+  fileInput: {
+    display: 'none',
+  },
+  uploadButton: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '8px',
+    backgroundColor: theme.colors.bg.tertiary,
+    color: theme.colors.txt.primary,
+    border: `2px dashed ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    padding: '24px 40px',
+    fontSize: '15px',
+    fontWeight: 500,
+    cursor: 'pointer',
+    width: '100%',
+    justifyContent: 'center',
+  },
+  calendarName: {
+    fontSize: '16px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+    marginBottom: '8px',
+  },
+  previewHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: '16px',
+    flexWrap: 'wrap' as const,
+    gap: '12px',
+  },
+  previewCount: {
+    fontSize: '14px',
+    color: theme.colors.txt.secondary,
+    margin: 0,
+  },
+  selectionButtons: {
+    display: 'flex',
+    gap: '8px',
+  },
+  selectButton: {
+    backgroundColor: 'transparent',
+    color: theme.colors.primary,
+    border: 'none',
+    padding: '4px 8px',
+    fontSize: '13px',
+    cursor: 'pointer',
+    textDecoration: 'underline',
+  },
+  previewList: {
+    maxHeight: '300px',
+    overflowY: 'auto' as const,
+    borderRadius: theme.borderRadius.md,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+  },
+  previewItem: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    padding: '12px 16px',
+    borderBottom: `1px solid ${theme.colors.bdr.primary}`,
+    cursor: 'pointer',
+    transition: 'background-color 0.15s ease',
+  },
+  previewItemSelected: {
+    backgroundColor: 'rgba(226, 20, 79, 0.1)',
+  },
+  checkbox: {
+    width: '20px',
+    height: '20px',
+    borderRadius: '4px',
+    border: `2px solid ${theme.colors.bdr.primary}`,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexShrink: 0,
+    color: theme.colors.primary,
+  },
+  previewInfo: {
+    flex: 1,
+    minWidth: 0,
+  },
+  previewTitle: {
+    fontSize: '14px',
+    fontWeight: 500,
+    color: theme.colors.txt.primary,
+    marginBottom: '4px',
+    whiteSpace: 'nowrap' as const,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+  },
+  existingBadge: {
+    marginLeft: '8px',
+    padding: '1px 6px',
+    fontSize: '11px',
+    fontWeight: 600,
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: theme.colors.bg.tertiary,
+    color: theme.colors.txt.secondary,
+  },
+  previewMeta: {
+    fontSize: '12px',
+    color: theme.colors.txt.tertiary,
+  },
+  previewWarning: {
+    fontSize: '12px',
+    color: theme.colors.status.warning,
+    marginTop: '2px',
+  },
+  previewActions: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '12px',
+    marginTop: '20px',
+    paddingTop: '20px',
+    borderTop: `1px solid ${theme.colors.bdr.primary}`,
+  },
+  backButton: {
+    backgroundColor: 'transparent',
+    color: theme.colors.txt.secondary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    padding: '10px 20px',
+    fontSize: '14px',
+    fontWeight: 500,
+    cursor: 'pointer',
+  },
+  importButton: {
+    backgroundColor: theme.colors.primary,
+    color: '#fff',
+    border: 'none',
+    borderRadius: theme.borderRadius.md,
+    padding: '10px 20px',
+    fontSize: '14px',
+    fontWeight: 500,
+    cursor: 'pointer',
+  },
+  importButtonDisabled: {
+    opacity: 0.5,
+    cursor: 'not-allowed',
+  },
+};
+
+export default EventImport;
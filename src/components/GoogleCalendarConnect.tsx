@@ -6,6 +6,8 @@
 import React from 'react';
 import { theme } from '../theme';
 import { useGoogleCalendar } from '../hooks/useGoogleCalendar';
+import { useGoogleCalendarSync } from '../contexts/GoogleCalendarSyncContext';
+import GoogleCalendarSyncPanel from './GoogleCalendarSyncPanel';
 
 interface GoogleCalendarConnectProps {
   compact?: boolean;
@@ -13,6 +15,12 @@ interface GoogleCalendarConnectProps {
 
 const GoogleCalendarConnect: React.FC<GoogleCalendarConnectProps> = ({ compact = false }) => {
   const { isConnected, isLoading, userInfo, connect, disconnect } = useGoogleCalendar();
+  const { resetSync } = useGoogleCalendarSync();
+
+  const handleDisconnect = () => {
+    disconnect();
+    resetSync();
+  };
 
   if (isLoading) {
     return (
@@ -48,10 +56,11 @@ const GoogleCalendarConnect: React.FC<GoogleCalendarConnectProps> = ({ compact =
           </div>
           {!compact && (
             <p style={styles.connectedDescription}>
-              Your events and tasks will sync automatically with your Google Calendar.
+              Events and your tasks are kept in sync both ways with your Google Calendar.
             </p>
           )}
-          <button onClick={disconnect} style={styles.disconnectButton} className="btn-hover">
+          {!compact && <GoogleCalendarSyncPanel />}
+          <button onClick={handleDisconnect} style={styles.disconnectButton} className="btn-hover">
             Disconnect
           </button>
         </div>
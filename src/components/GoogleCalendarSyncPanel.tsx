@@ -0,0 +1,229 @@
+/**
+ * Google Calendar Sync Panel
+ * Sync status, options and the list of conflicts waiting for a decision
+ */
+
+import React, { useState } from 'react';
+import { theme } from '../theme';
+import { useGoogleCalendarSync } from '../contexts/GoogleCalendarSyncContext';
+import { useToast } from '../contexts/ToastContext';
+import { ConflictSide, ConflictStrategy, SyncConflict } from '../services/googleCalendarSync';
+
+const formatTime = (iso?: string) =>
+  iso ? new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) : 'unknown';
+
+const describeConflict = (conflict: SyncConflict) => {
+  if (conflict.localDeleted) return `Deleted here, edited in Google ${formatTime(conflict.remoteUpdatedAt)}`;
+  if (!conflict.remote) return `Edited here ${formatTime(conflict.localUpdatedAt)}, deleted in Google`;
+  return `Edited here ${formatTime(conflict.localUpdatedAt)} and in Google ${formatTime(conflict.remoteUpdatedAt)}`;
+};
+
+const GoogleCalendarSyncPanel: React.FC = () => {
+  const { settings, updateSettings, isSyncing, lastSyncedAt, lastError, conflicts, syncNow, resolveConflict } = useGoogleCalendarSync();
+  const { success: showSuccess, error: showError } = useToast();
+  const [resolvingKey, setResolvingKey] = useState<string | null>(null);
+
+  const handleSyncNow = async () => {
+    try {
+      const result = await syncNow();
+      if (!result) return;
+      const changes = result.pushed + result.pulled + result.deleted;
+      showSuccess(changes > 0 ? `Synced ${changes} change${changes === 1 ? '' : 's'} with Google Calendar` : 'Google Calendar is up to date');
+    } catch {
+      showError('Google Calendar sync failed. Please try again.');
+    }
+  };
+
+  const handleResolve = async (conflict: SyncConflict, side: ConflictSide) => {
+    setResolvingKey(conflict.key);
+    try {
+      await resolveConflict(conflict.key, side);
+      showSuccess(`Kept ${side === 'local' ? "this app's" : "Google's"} version of "${conflict.title}"`);
+    } catch {
+      showError('Failed to resolve the conflict. Please try again.');
+    } finally {
+      setResolvingKey(null);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.statusRow}>
+        <span style={styles.statusText}>
+          {lastSyncedAt ? `Last synced ${formatTime(lastSyncedAt)}` : 'Not synced yet'}
+        </span>
+        <button onClick={handleSyncNow} disabled={isSyncing} style={styles.syncButton} className="btn-hover">
+          {isSyncing ? 'Syncing...' : 'Sync now'}
+        </button>
+      </div>
+      {lastError && <div style={styles.errorText}>{lastError}</div>}
+
+      <label style={styles.optionRow}>
+        <input
+          type="checkbox"
+          checked={settings.autoSync}
+          onChange={(e) => updateSettings({ autoSync: e.target.checked })}
+        />
+        Sync automatically every few minutes
+      </label>
+      <label style={styles.optionRow}>
+        <input
+          type="checkbox"
+          checked={settings.includeTasks}
+          onChange={(e) => updateSettings({ includeTasks: e.target.checked })}
+        />
+        Include tasks assigned to me
+      </label>
+      <label style={styles.optionRow}>
+        When an item changed in both places
+        <select
+          value={settings.conflictStrategy}
+          onChange={(e) => updateSettings({ conflictStrategy: e.target.value as ConflictStrategy })}
+          style={styles.select}
+        >
+          <option value="latest">Keep the most recent edit</option>
+          <option value="manual">Ask me</option>
+        </select>
+      </label>
+
+      {conflicts.length > 0 && (
+        <div style={styles.conflicts}>
+          <div style={styles.conflictsTitle}>Needs your decision ({conflicts.length})</div>
+          {conflicts.map(conflict => (
+            <div key={conflict.key} style={styles.conflictItem}>
+              <div style={styles.conflictInfo}>
+                <span style={styles.conflictTitle}>
+                  {conflict.kind === 'task' ? 'Task: ' : ''}{conflict.title}
+                </span>
+                <span style={styles.conflictDetail}>{describeConflict(conflict)}</span>
+              </div>
+              <div style={styles.conflictActions}>
+                <button
+                  onClick={() => handleResolve(conflict, 'local')}
+                  disabled={resolvingKey === conflict.key}
+                  style={styles.conflictButton}
+                >
+                  {conflict.localDeleted ? 'Delete in Google' : "Keep this app's"}
+                </button>
+                <button
+                  onClick={() => handleResolve(conflict, 'remote')}
+                  disabled={resolvingKey === conflict.key}
+                  style={styles.conflictButton}
+                >
+                  {conflict.remote ? "Keep Google's" : 'Delete here'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    paddingTop: '16px',
+    borderTop: `1px solid ${theme.colors.bdr.primary}`,
+  },
+  statusRow: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '12px',
+  },
+  statusText: {
+    fontSize: '14px',
+    color: theme.colors.txt.secondary,
+  },
+  syncButton: {
+    padding: '8px 16px',
+    fontSize: '14px',
+    fontWeight: 600,
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.secondary}`,
+    borderRadius: theme.borderRadius.md,
+    color: theme.colors.txt.primary,
+    cursor: 'pointer',
+  },
+  errorText: {
+    fontSize: '13px',
+    color: theme.colors.status.error,
+  },
+  optionRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '14px',
+    color: theme.colors.txt.primary,
+    cursor: 'pointer',
+  },
+  select: {
+    marginLeft: 'auto',
+    padding: '6px 10px',
+    fontSize: '13px',
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.secondary}`,
+    borderRadius: theme.borderRadius.sm,
+    color: theme.colors.txt.primary,
+  },
+  conflicts: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    marginTop: '4px',
+  },
+  conflictsTitle: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: theme.colors.status.warning,
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  conflictItem: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: '8px',
+    padding: '10px 12px',
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderLeft: `3px solid ${theme.colors.status.warning}`,
+    borderRadius: theme.borderRadius.sm,
+  },
+  conflictInfo: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    minWidth: 0,
+  },
+  conflictTitle: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+  },
+  conflictDetail: {
+    fontSize: '12px',
+    color: theme.colors.txt.tertiary,
+  },
+  conflictActions: {
+    display: 'flex',
+    gap: '6px',
+  },
+  conflictButton: {
+    padding: '6px 10px',
+    fontSize: '12px',
+    fontWeight: 600,
+    backgroundColor: 'transparent',
+    border: `1px solid ${theme.colors.bdr.secondary}`,
+    borderRadius: theme.borderRadius.sm,
+    color: theme.colors.txt.secondary,
+    cursor: 'pointer',
+  },
+};
+
+export default GoogleCalendarSyncPanel;
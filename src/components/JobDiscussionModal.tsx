@@ -0,0 +1,160 @@
+import React from 'react';
+import { theme } from '../theme';
+import { Job, User } from '../types';
+import { useResponsive } from '../hooks/useResponsive';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDateValue } from '../utils/dateTime';
+import CommentThread from './CommentThread';
+import PhotoEvidenceGallery from './PhotoEvidenceGallery';
+
+interface JobDiscussionModalProps {
+  job: Job | null;
+  users: User[];
+  onClose: () => void;
+}
+
+/**
+ * A job's summary and comment thread, opened from the timeline or a
+ * notification. Admins also see the photos taken across the job's tasks.
+ */
+const JobDiscussionModal: React.FC<JobDiscussionModalProps> = ({ job, users, onClose }) => {
+  const { isMobileOrTablet } = useResponsive();
+  const { isAdmin } = useAuth();
+
+  if (!job) return null;
+
+  const assignees = users
+    .filter(user => job.assignedTo.includes(user.id))
+    .map(user => `${user.firstName} ${user.lastName}`);
+
+  return (
+    <div style={styles.overlay} onClick={onClose}>
+      <div
+        style={isMobileOrTablet ? styles.modalMobile : styles.modal}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={styles.header}>
+          <div style={styles.headerContent}>
+            <h2 style={styles.title}>{job.title}</h2>
+            <div style={styles.meta}>
+              {formatDateValue(job.scheduledDate)}
+              {' · '}
+              {job.completedTasksCount}/{job.totalTasksCount} tasks done
+              {assignees.length > 0 && ` · ${assignees.join(', ')}`}
+            </div>
+          </div>
+          <button onClick={onClose} style={styles.closeButton} aria-label="Close">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div style={styles.content}>
+          {job.description && <p style={styles.description}>{job.description}</p>}
+          {isAdmin && (
+            <div style={styles.gallery}>
+              <PhotoEvidenceGallery tasks={job.tasks} users={users} showTaskTitles />
+            </div>
+          )}
+          <CommentThread
+            entityType="job"
+            entityId={job.id}
+            entityTitle={job.title}
+            legacyComments={job.comments}
+            users={users}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  overlay: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1000,
+    padding: '20px',
+  },
+  modal: {
+    backgroundColor: theme.colors.backgroundLight,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.lg,
+    width: '100%',
+    maxWidth: '600px',
+    maxHeight: '90vh',
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+  },
+  modalMobile: {
+    backgroundColor: theme.colors.backgroundLight,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.lg,
+    width: '100%',
+    maxWidth: '100%',
+    maxHeight: '95vh',
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    padding: '20px 24px',
+    borderBottom: `2px solid ${theme.colors.border}`,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: '22px',
+    fontWeight: 700,
+    color: theme.colors.textPrimary,
+    margin: 0,
+  },
+  meta: {
+    marginTop: '6px',
+    fontSize: '13px',
+    color: theme.colors.textMuted,
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    cursor: 'pointer',
+    color: theme.colors.textMuted,
+    padding: '4px',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: theme.borderRadius.sm,
+    transition: 'all 0.2s',
+    marginLeft: '16px',
+  },
+  content: {
+    flex: 1,
+    overflowY: 'auto',
+    padding: '24px',
+  },
+  description: {
+    fontSize: '14px',
+    color: theme.colors.textSecondary,
+    lineHeight: 1.5,
+    margin: '0 0 20px',
+  },
+  gallery: {
+    marginBottom: '24px',
+  },
+};
+
+export default JobDiscussionModal;
@@ -4,6 +4,8 @@ import { Task, TaskPriority, TaskStep } from '../types';
 import { useTask } from '../contexts/TaskContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useJob } from '../contexts/JobContext';
+import { TaskDependencyGraph } from './TaskDependencyGraph';
+import { applyDependencyStatuses, wouldCreateCycle } from '../utils/taskDependencies';
 
 interface JobFormProps {
   onClose: () => void;
@@ -40,6 +42,8 @@ const JobForm: React.FC<JobFormProps> = ({ onClose }) => {
   const [templateSearchQuery, setTemplateSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [selectedTemplateIds, setSelectedTemplateIds] = useState<Set<string>>(new Set());
+  // Template ID -> template IDs whose tasks must be completed first
+  const [templateDependencies, setTemplateDependencies] = useState<Record<string, string[]>>({});
 
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
 
@@ -173,12 +177,48 @@ const JobForm: React.FC<JobFormProps> = ({ onClose }) => {
     const newSelected = new Set(selectedTemplateIds);
     if (newSelected.has(templateId)) {
       newSelected.delete(templateId);
+      // Forget ordering that involved the removed task
+      setTemplateDependencies(prev => {
+        const next: Record<string, string[]> = {};
+        Object.entries(prev).forEach(([id, deps]) => {
+          if (id !== templateId) next[id] = deps.filter(dep => dep !== templateId);
+        });
+        return next;
+      });
     } else {
       newSelected.add(templateId);
     }
     setSelectedTemplateIds(newSelected);
   };
 
+  // Selected templates as dependency graph nodes (the preview shows which
+  // tasks will start out blocked)
+  const selectedTemplateNodes = applyDependencyStatuses(
+    Array.from(selectedTemplateIds)
+      .map(id => taskTemplates.find(t => t.id === id))
+      .filter((t): t is typeof taskTemplates[number] => !!t)
+      .map(template => ({
+        id: template.id,
+        title: template.title,
+        status: 'pending' as const,
+        dependsOn: templateDependencies[template.id] || [],
+      }))
+  );
+
+  const handleToggleDependency = (templateId: string, dependencyId: string) => {
+    const current = templateDependencies[templateId] || [];
+    if (!current.includes(dependencyId) && wouldCreateCycle(templateId, dependencyId, selectedTemplateNodes)) {
+      showError('That would make these tasks wait on each other');
+      return;
+    }
+    setTemplateDependencies({
+      ...templateDependencies,
+      [templateId]: current.includes(dependencyId)
+        ? current.filter(id => id !== dependencyId)
+        : [...current, dependencyId],
+    });
+  };
+
   // Add selected templates to the job
   const handleAddSelectedTasks = () => {
     const newTasks: Task[] = [];
@@ -222,11 +262,15 @@ const JobForm: React.FC<JobFormProps> = ({ onClose }) => {
 
     // Convert selected template IDs to tasks
     const tasksForJob: Task[] = [];
+    const taskIdsByTemplate: Record<string, string> = {};
+    selectedTemplateIds.forEach(templateId => {
+      taskIdsByTemplate[templateId] = `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    });
     selectedTemplateIds.forEach(templateId => {
       const template = taskTemplates.find(t => t.id === templateId);
       if (template) {
         const newTask: Task = {
-          id: `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          id: taskIdsByTemplate[templateId],
           templateId: template.id,
           title: template.title,
           description: template.description,
@@ -241,6 +285,9 @@ const JobForm: React.FC<JobFormProps> = ({ onClose }) => {
           sopIds: template.sopIds,
           comments: [],
           createdAt: new Date().toISOString(),
+          dependsOn: (templateDependencies[templateId] || [])
+            .map(dep => taskIdsByTemplate[dep])
+            .filter(Boolean),
         };
         tasksForJob.push(newTask);
       }
@@ -660,6 +707,18 @@ const JobForm: React.FC<JobFormProps> = ({ onClose }) => {
       borderColor: '#FF2D6B',
       color: '#ffffff',
     },
+    dependencyHint: {
+      fontSize: '13px',
+      color: '#888',
+      margin: '0 0 12px 0',
+    },
+    dependencyRow: {
+      padding: '12px',
+      marginBottom: '8px',
+      backgroundColor: '#0f0f0f',
+      border: '1px solid #2a2a2a',
+      borderRadius: '6px',
+    },
   };
 
   return (
@@ -856,6 +915,42 @@ const JobForm: React.FC<JobFormProps> = ({ onClose }) => {
             )}
           </div>
 
+          {/* Task Order Section */}
+          {selectedTemplateNodes.length > 1 && (
+            <div style={styles.section}>
+              <h3 style={styles.sectionTitle}>Task Order</h3>
+              <p style={styles.dependencyHint}>
+                Choose which tasks have to be finished before another can start. Tasks stay blocked until then.
+              </p>
+              {selectedTemplateNodes.map(node => (
+                <div key={node.id} style={styles.dependencyRow}>
+                  <div style={styles.taskTitle}>{node.title}</div>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+                    <span style={styles.taskMeta}>Starts after:</span>
+                    {selectedTemplateNodes.filter(other => other.id !== node.id).map(other => (
+                      <button
+                        key={other.id}
+                        type="button"
+                        onClick={() => handleToggleDependency(node.id, other.id)}
+                        style={{
+                          ...styles.filterButton,
+                          ...(node.dependsOn.includes(other.id) ? styles.filterButtonActive : {}),
+                        }}
+                      >
+                        {other.title}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {selectedTemplateNodes.some(node => node.dependsOn.length > 0) && (
+                <div style={{ marginTop: '16px' }}>
+                  <TaskDependencyGraph tasks={selectedTemplateNodes} />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Form Actions */}
           <div style={styles.buttonGroup}>
             <button
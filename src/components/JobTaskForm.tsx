@@ -6,6 +6,8 @@ import { useSOPs } from '../contexts/SOPContext';
 import { theme } from '../theme';
 import { TaskTemplate, TaskTemplateStep, TaskPriority, TaskStep, JobTask } from '../types';
 import { useResponsive } from '../hooks/useResponsive';
+import { getTodayKey } from '../utils/dateTime';
+import { getUserDepartments, isDepartmentMember } from '../utils/departments';
 
 interface JobTaskFormProps {
   template?: TaskTemplate | null;
@@ -31,7 +33,7 @@ const JobTaskForm: React.FC<JobTaskFormProps> = ({ template, existingTask, onClo
   const isEditMode = !!existingTask;
 
   // Get unique departments and categories from users
-  const departments = Array.from(new Set(users.filter(u => u.isActive).map(u => u.department)));
+  const departments = Array.from(new Set(users.filter(u => u.isActive).flatMap(u => getUserDepartments(u))));
   const categories = ['Opening Duties', 'Closing Duties', 'Maintenance', 'Administrative', 'Cleaning', 'Safety', 'Other'];
 
   // Task Details - Initialize from existingTask if editing, otherwise from template
@@ -64,7 +66,7 @@ const JobTaskForm: React.FC<JobTaskFormProps> = ({ template, existingTask, onClo
   // Assignment - Initialize from existingTask if editing
   const [assignedTo, setAssignedTo] = useState<string[]>(existingTask?.assignedTo || []);
   const [scheduledDate, setScheduledDate] = useState<string>(
-    existingTask?.scheduledDate || new Date().toISOString().split('T')[0]
+    existingTask?.scheduledDate || getTodayKey()
   );
   const [dueTime, setDueTime] = useState<string>(existingTask?.dueTime || '');
   const [filterDepartment, setFilterDepartment] = useState<string>('all');
@@ -72,7 +74,7 @@ const JobTaskForm: React.FC<JobTaskFormProps> = ({ template, existingTask, onClo
   // Filter users by department
   const filteredUsers = filterDepartment === 'all'
     ? users.filter(u => u.isActive)
-    : users.filter(u => u.isActive && u.department === filterDepartment);
+    : users.filter(u => u.isActive && isDepartmentMember(u, filterDepartment));
 
   const handleUserToggle = (userId: string) => {
     setAssignedTo(prev =>
@@ -226,7 +228,7 @@ const JobTaskForm: React.FC<JobTaskFormProps> = ({ template, existingTask, onClo
       assignedBy: existingTask?.assignedBy || currentUser?.id || 'admin',
       department: department || 'Unassigned',
       category: category || 'Other',
-      scheduledDate: scheduledDate || new Date().toISOString().split('T')[0],
+      scheduledDate: scheduledDate || getTodayKey(),
       dueTime: dueTime || undefined,
       estimatedDuration,
       status: 'draft' as const,
@@ -0,0 +1,213 @@
+/**
+ * Login Method Settings
+ * Lets admins turn on sign-in links and single sign-on, limit single sign-on
+ * to their email domains, choose what accounts it creates get, require it
+ * for everyone but admins, and require two-factor sign-in for admins.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { theme } from '../theme';
+import { useAuth } from '../contexts/AuthContext';
+import { useDepartments } from '../contexts/DepartmentContext';
+import { useToast } from '../contexts/ToastContext';
+import { useStepUp } from '../hooks/useStepUp';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { LoginSettings, SSOProvider } from '../types';
+import { FormButton, FormCheckbox, FormInput, FormSelect } from './FormComponents';
+import {
+  DEFAULT_LOGIN_SETTINGS,
+  SSO_PROVIDERS,
+  SSO_PROVIDER_LABELS,
+  fetchLoginSettings,
+  saveLoginSettings,
+} from '../services/loginSettings';
+
+interface LoginMethodSettingsProps {
+  userId: string;
+}
+
+const LoginMethodSettings: React.FC<LoginMethodSettingsProps> = ({ userId }) => {
+  const { roles, mfaStatus } = useAuth();
+  const { departmentNames } = useDepartments();
+  const { success: showSuccess, error: showError } = useToast();
+  const { stepUp, stepUpDialog } = useStepUp();
+  const [settings, setSettings] = useState<LoginSettings>(DEFAULT_LOGIN_SETTINGS);
+  const [domains, setDomains] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [savedMfaRequired, setSavedMfaRequired] = useState(false);
+  const useSupabase = isSupabaseConfigured();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchLoginSettings()
+      .then(loaded => {
+        if (cancelled) return;
+        setSettings(loaded);
+        setDomains(loaded.allowedDomains.join(', '));
+        setSavedMfaRequired(loaded.mfaRequiredForAdmins);
+      })
+      .catch(() => {
+        if (!cancelled) showError('Failed to load login settings');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showError]);
+
+  const update = (changes: Partial<LoginSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const toggleProvider = (provider: SSOProvider, enabled: boolean) =>
+    update({
+      ssoProviders: enabled
+        ? SSO_PROVIDERS.filter(p => p === provider || settings.ssoProviders.includes(p))
+        : settings.ssoProviders.filter(p => p !== provider),
+    });
+
+  const handleSave = async () => {
+    const toSave: LoginSettings = {
+      ...settings,
+      allowedDomains: domains.split(/[\s,]+/).filter(Boolean),
+      // Requiring single sign-on without a provider would leave only admins able to sign in
+      ssoRequired: settings.ssoRequired && settings.ssoProviders.length > 0,
+    };
+    if (toSave.mfaRequiredForAdmins !== savedMfaRequired && !(await stepUp('change the two-factor requirement'))) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveLoginSettings(toSave, userId);
+      setSettings(saved);
+      setDomains(saved.allowedDomains.join(', '));
+      setSavedMfaRequired(saved.mfaRequiredForAdmins);
+      showSuccess('Login settings saved');
+    } catch {
+      showError('Failed to save login settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!useSupabase) {
+    return <p style={styles.note}>Sign-in links and single sign-on need Supabase. Everyone signs in with a password.</p>;
+  }
+
+  const hasSSO = settings.ssoProviders.length > 0;
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.section}>
+        <span style={styles.sectionLabel}>Single sign-on</span>
+        {SSO_PROVIDERS.map(provider => (
+          <FormCheckbox
+            key={provider}
+            label={SSO_PROVIDER_LABELS[provider]}
+            checked={settings.ssoProviders.includes(provider)}
+            onChange={(checked) => toggleProvider(provider, checked)}
+            disabled={loading}
+          />
+        ))}
+        <p style={styles.note}>Each provider must also be enabled under Authentication &gt; Providers in Supabase.</p>
+      </div>
+
+      <FormInput
+        label="Allowed email domains"
+        value={domains}
+        onChange={(e) => setDomains(e.target.value)}
+        placeholder="e.g., example.com"
+        helperText="Single sign-on only accepts these domains. Leave empty to accept any."
+        disabled={loading || !hasSSO}
+      />
+
+      <FormSelect
+        label="New accounts get role"
+        value={settings.defaultRoleId || ''}
+        onChange={(e) => update({ defaultRoleId: e.target.value || undefined })}
+        options={[
+          { value: '', label: 'Team Member' },
+          ...roles.map(role => ({ value: role.id, label: role.name })),
+        ]}
+        disabled={loading || !hasSSO}
+      />
+      <FormSelect
+        label="New accounts join"
+        value={settings.defaultDepartment}
+        onChange={(e) => update({ defaultDepartment: e.target.value })}
+        options={Array.from(new Set([settings.defaultDepartment, ...departmentNames])).map(name => ({ value: name, label: name }))}
+        disabled={loading || !hasSSO}
+      />
+
+      <FormCheckbox
+        label="Require single sign-on for everyone except admins"
+        checked={settings.ssoRequired && hasSSO}
+        onChange={(checked) => update({ ssoRequired: checked })}
+        disabled={loading || !hasSSO}
+      />
+
+      <FormCheckbox
+        label="Allow emailed sign-in links"
+        checked={settings.magicLinkEnabled}
+        onChange={(checked) => update({ magicLinkEnabled: checked })}
+        disabled={loading || settings.ssoRequired}
+      />
+
+      <p style={styles.note}>
+        Admins can always sign in with their password, so a provider outage cannot lock everyone out.
+      </p>
+
+      <FormCheckbox
+        label="Require two-factor sign-in for all admins"
+        checked={settings.mfaRequiredForAdmins}
+        onChange={(checked) => update({ mfaRequiredForAdmins: checked })}
+        disabled={loading || (!settings.mfaRequiredForAdmins && !mfaStatus.factorId)}
+      />
+      <p style={styles.note}>
+        {mfaStatus.factorId || settings.mfaRequiredForAdmins
+          ? 'Admins without an authenticator app must set one up at their next sign-in, and lose admin rights until they do.'
+          : 'Set up two-factor sign-in on your profile before requiring it for admins.'}
+      </p>
+
+      <div style={styles.buttonRow}>
+        <FormButton variant="primary" onClick={handleSave} loading={saving} disabled={loading}>
+          Save Login Settings
+        </FormButton>
+      </div>
+
+      {stepUpDialog}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  section: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  sectionLabel: {
+    fontSize: '14px',
+    fontWeight: 500,
+    color: theme.colors.txt.primary,
+  },
+  note: {
+    fontSize: '13px',
+    color: theme.colors.txt.tertiary,
+    margin: 0,
+  },
+  buttonRow: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '8px',
+  },
+};
+
+export default LoginMethodSettings;
@@ -0,0 +1,142 @@
+/**
+ * MFA Enrollment
+ * Walks someone through adding an authenticator app: scan the QR code (or
+ * type the key), enter the first code, then save the recovery codes.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { theme } from '../theme';
+import { useAuth } from '../contexts/AuthContext';
+import { TotpEnrollment } from '../services/mfa';
+import { FormButton, FormInput } from './FormComponents';
+import RecoveryCodeList from './RecoveryCodeList';
+
+interface MfaEnrollmentProps {
+  // Called after the recovery codes are saved and the status refreshed
+  onDone?: () => void;
+  onCancel?: () => void;
+}
+
+const MfaEnrollment: React.FC<MfaEnrollmentProps> = ({ onDone, onCancel }) => {
+  const { startMfaEnrollment, finishMfaEnrollment, refreshMfaStatus } = useAuth();
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [verifying, setVerifying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    startMfaEnrollment()
+      .then(started => {
+        if (!cancelled) setEnrollment(started);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not start setting up an authenticator. Please try again.');
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleVerify = async () => {
+    if (!enrollment) return;
+    setError('');
+    setVerifying(true);
+    try {
+      setRecoveryCodes(await finishMfaEnrollment(enrollment.factorId, code));
+    } catch {
+      setError('That code did not work. Check the time on your phone and try the next code.');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodeList codes={recoveryCodes} onDone={() => refreshMfaStatus().then(() => onDone?.())} />;
+  }
+
+  return (
+    <div style={styles.container}>
+      {error && <p style={styles.error}>{error}</p>}
+
+      {enrollment ? (
+        <>
+          <p style={styles.note}>
+            Scan this with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.
+          </p>
+          <img src={enrollment.qrCode} alt="QR code for your authenticator app" style={styles.qrCode} />
+          <p style={styles.note}>
+            Can't scan it? Enter this key instead: <code style={styles.secret}>{enrollment.secret}</code>
+          </p>
+          <FormInput
+            label="Code from the app"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={8}
+            placeholder="123456"
+          />
+        </>
+      ) : (
+        !error && <p style={styles.note}>Preparing your QR code...</p>
+      )}
+
+      <div style={styles.buttonRow}>
+        {onCancel && (
+          <FormButton variant="secondary" onClick={onCancel} disabled={verifying}>
+            Cancel
+          </FormButton>
+        )}
+        <FormButton
+          variant="primary"
+          onClick={handleVerify}
+          loading={verifying}
+          disabled={!enrollment || code.trim().length < 6}
+        >
+          Turn On
+        </FormButton>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  note: {
+    fontSize: '14px',
+    color: theme.colors.txt.secondary,
+    margin: 0,
+  },
+  error: {
+    fontSize: '14px',
+    color: theme.colors.status.error,
+    margin: 0,
+  },
+  qrCode: {
+    width: '180px',
+    height: '180px',
+    alignSelf: 'center',
+    padding: '8px',
+    backgroundColor: '#FFFFFF',
+    borderRadius: theme.borderRadius.md,
+  },
+  secret: {
+    fontFamily: 'monospace',
+    wordBreak: 'break-all',
+    color: theme.colors.txt.primary,
+  },
+  buttonRow: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '8px',
+  },
+};
+
+export default MfaEnrollment;
@@ -0,0 +1,185 @@
+/**
+ * MFA Settings
+ * Turn two-factor sign-in on or off, and replace the recovery codes
+ */
+
+import React, { useEffect, useState } from 'react';
+import { theme } from '../theme';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../hooks/useConfirm';
+import { useStepUp } from '../hooks/useStepUp';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { countRecoveryCodes } from '../services/mfa';
+import { FormButton } from './FormComponents';
+import MfaEnrollment from './MfaEnrollment';
+import RecoveryCodeList from './RecoveryCodeList';
+
+const MfaSettings: React.FC = () => {
+  const { currentUser, mfaStatus, mfaRequiredForAdmins, regenerateRecoveryCodes, disableMfa } = useAuth();
+  const { success: showSuccess, error: showError } = useToast();
+  const { confirm, confirmDialog } = useConfirm();
+  const { stepUp, stepUpDialog } = useStepUp();
+  const [enrolling, setEnrolling] = useState(false);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [codesLeft, setCodesLeft] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const available = isSupabaseConfigured();
+  const enabled = !!mfaStatus.factorId;
+  const requiredForMe = currentUser?.role === 'admin' && mfaRequiredForAdmins;
+
+  useEffect(() => {
+    if (!available || !enabled || newCodes) return;
+
+    let cancelled = false;
+    countRecoveryCodes()
+      .then(count => {
+        if (!cancelled) setCodesLeft(count);
+      })
+      .catch(() => {
+        if (!cancelled) setCodesLeft(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [available, enabled, newCodes]);
+
+  const handleRegenerate = async () => {
+    if (!(await stepUp('make new recovery codes'))) return;
+
+    setBusy(true);
+    try {
+      setNewCodes(await regenerateRecoveryCodes());
+    } catch {
+      showError('Failed to make new recovery codes. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    const confirmed = await confirm({
+      title: 'Turn off two-factor sign-in?',
+      message: 'Your password alone will be enough to sign in, and your recovery codes will stop working.',
+      confirmLabel: 'Turn off',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+    if (!(await stepUp('turn off two-factor sign-in'))) return;
+
+    setBusy(true);
+    try {
+      await disableMfa();
+      showSuccess('Two-factor sign-in turned off');
+    } catch {
+      showError('Failed to turn off two-factor sign-in. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!available) {
+    return <p style={styles.note}>Two-factor sign-in needs a connected database.</p>;
+  }
+
+  if (newCodes) {
+    return <RecoveryCodeList codes={newCodes} onDone={() => setNewCodes(null)} />;
+  }
+
+  if (enrolling) {
+    return (
+      <MfaEnrollment
+        onDone={() => {
+          setEnrolling(false);
+          showSuccess('Two-factor sign-in turned on');
+        }}
+        onCancel={() => setEnrolling(false)}
+      />
+    );
+  }
+
+  return (
+    <div style={styles.container}>
+      {enabled ? (
+        <>
+          <p style={styles.note}>
+            <span style={styles.onBadge}>On</span>
+            You enter a code from your authenticator app when you sign in and before sensitive changes.
+          </p>
+          {codesLeft !== null && (
+            <div style={codesLeft <= 2 ? styles.metaWarning : styles.meta}>
+              {codesLeft === 1 ? '1 recovery code left' : `${codesLeft} recovery codes left`}
+            </div>
+          )}
+          <div style={styles.buttonRow}>
+            <FormButton variant="ghost" size="sm" onClick={handleRegenerate} disabled={busy}>
+              New recovery codes
+            </FormButton>
+            <FormButton
+              variant="danger"
+              size="sm"
+              onClick={handleDisable}
+              disabled={busy || requiredForMe}
+              title={requiredForMe ? 'Your organization requires two-factor sign-in for admins' : undefined}
+            >
+              Turn off
+            </FormButton>
+          </div>
+        </>
+      ) : (
+        <>
+          <p style={styles.note}>
+            Add a code from an authenticator app to your password, so a stolen password is not enough to sign in.
+          </p>
+          <div style={styles.buttonRow}>
+            <FormButton variant="primary" size="sm" onClick={() => setEnrolling(true)}>
+              Set up
+            </FormButton>
+          </div>
+        </>
+      )}
+
+      {confirmDialog}
+      {stepUpDialog}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  note: {
+    fontSize: '14px',
+    color: theme.colors.txt.secondary,
+    margin: 0,
+  },
+  onBadge: {
+    display: 'inline-block',
+    marginRight: '8px',
+    padding: '2px 8px',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#FFFFFF',
+    backgroundColor: theme.colors.status.success,
+    borderRadius: theme.borderRadius.sm,
+  },
+  meta: {
+    fontSize: '12px',
+    color: theme.colors.txt.tertiary,
+  },
+  metaWarning: {
+    fontSize: '12px',
+    color: theme.colors.status.warning,
+  },
+  buttonRow: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '8px',
+  },
+};
+
+export default MfaSettings;
@@ -4,6 +4,9 @@ import { useAuth } from '../contexts/AuthContext';
 import { useTheme, useThemeColors } from '../contexts/ThemeContext';
 import { theme } from '../theme';
 import { useResponsive } from '../hooks/useResponsive';
+import CommandPalette from './CommandPalette';
+import NotificationBell from './NotificationBell';
+import DepartmentSwitcher from './DepartmentSwitcher';
 
 // Icons
 const icons = {
@@ -104,7 +107,7 @@ type NavElement = NavItem | NavGroup;
 const Navigation: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { currentUser, logout, isAdmin } = useAuth();
+  const { currentUser, logout, isAdmin, hasPermission } = useAuth();
   const { isDark, toggleTheme } = useTheme();
   const colors = useThemeColors();
   // DIDC brand marks: white outline on dark backgrounds, ink outline on light
@@ -112,6 +115,7 @@ const Navigation: React.FC = () => {
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
   const { isMobileOrTablet } = useResponsive();
   const dropdownRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
 
@@ -122,6 +126,19 @@ const Navigation: React.FC = () => {
     setOpenDropdown(null);
   }, [location.pathname]);
 
+  // Ctrl/Cmd+K opens the command palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(prev => !prev);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   // Close dropdowns when clicking outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -196,7 +213,7 @@ const Navigation: React.FC = () => {
     elements.push({ path: '/hours', label: 'Hours', icon: icons.hours });
     elements.push({ path: '/alerts', label: 'Alerts', icon: icons.alerts });
 
-    // Admin group (only for admins)
+    // Admin group (only for admins; roles can grant the activity log)
     if (isAdmin) {
       elements.push({
         label: 'Admin',
@@ -207,6 +224,8 @@ const Navigation: React.FC = () => {
           { path: '/archive', label: 'Archive', icon: icons.archive },
         ],
       });
+    } else if (hasPermission('view_activity_log')) {
+      elements.push({ path: '/activity-log', label: 'Activity Log', icon: icons.activity });
     }
 
     return elements;
@@ -230,7 +249,11 @@ const Navigation: React.FC = () => {
 
     if (isAdmin) {
       items.push({ path: '/team', label: 'Team', icon: icons.team });
+    }
+    if (hasPermission('view_activity_log')) {
       items.push({ path: '/activity-log', label: 'Activity Log', icon: icons.activity });
+    }
+    if (isAdmin) {
       items.push({ path: '/archive', label: 'Archive', icon: icons.archive });
     }
 
@@ -352,16 +375,32 @@ const Navigation: React.FC = () => {
               />
             </Link>
 
-            {/* User Avatar (Mobile) */}
-            <div
-              data-user-button
-              style={styles.userAvatarMobile}
-              onClick={(e) => {
-                e.stopPropagation();
-                setShowUserMenu(!showUserMenu);
-              }}
-            >
-              {currentUser?.firstName.charAt(0)}{currentUser?.lastName.charAt(0)}
+            {/* Search + User Avatar (Mobile) */}
+            <div style={styles.mobileActions}>
+              <button
+                style={{...styles.hamburger, color: colors.txt.primary}}
+                onClick={() => setShowSearch(true)}
+                aria-label="Search"
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="11" cy="11" r="8" />
+                <line x1="21" y1="21" x2="16.65" y2="16.65" />
+              </svg>
+              </button>
+              <NotificationBell
+                buttonStyle={{...styles.hamburger, color: colors.txt.primary}}
+                openPage
+              />
+              <div
+                data-user-button
+                style={styles.userAvatarMobile}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowUserMenu(!showUserMenu);
+                }}
+              >
+                {currentUser?.firstName.charAt(0)}{currentUser?.lastName.charAt(0)}
+              </div>
             </div>
 
             {/* Mobile Menu Overlay */}
@@ -419,6 +458,11 @@ const Navigation: React.FC = () => {
                   </div>
                 </div>
                 <div style={{...styles.menuDivider, backgroundColor: colors.bdr.primary}} />
+                <div style={styles.departmentSwitcherMobile}>
+                  <DepartmentSwitcher
+                    selectStyle={{...styles.searchButton, ...styles.departmentSelect, width: '100%', maxWidth: 'none', backgroundColor: colors.bg.tertiary, borderColor: colors.bdr.primary, color: colors.txt.secondary}}
+                  />
+                </div>
                 <div
                   style={{...styles.userMenuItem, color: colors.txt.secondary}}
                   onClick={() => navigate('/profile')}
@@ -507,6 +551,24 @@ const Navigation: React.FC = () => {
 
             {/* Right side: User Section */}
             <div style={styles.userSection}>
+              <DepartmentSwitcher
+                selectStyle={{...styles.searchButton, ...styles.departmentSelect, backgroundColor: colors.bg.tertiary, borderColor: colors.bdr.primary, color: colors.txt.secondary}}
+              />
+              <button
+                style={{...styles.searchButton, backgroundColor: colors.bg.tertiary, borderColor: colors.bdr.primary, color: colors.txt.secondary}}
+                onClick={() => setShowSearch(true)}
+                aria-label="Search"
+                title="Search (Ctrl+K)"
+              >
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <circle cx="11" cy="11" r="8" />
+                  <line x1="21" y1="21" x2="16.65" y2="16.65" />
+                </svg>
+                <span style={styles.searchShortcut}>Ctrl K</span>
+              </button>
+              <NotificationBell
+                buttonStyle={{...styles.searchButton, backgroundColor: colors.bg.tertiary, borderColor: colors.bdr.primary, color: colors.txt.secondary}}
+              />
               <div
                 data-user-button
                 style={{...styles.userButton, backgroundColor: colors.bg.tertiary, borderColor: colors.bdr.primary}}
@@ -610,6 +672,8 @@ const Navigation: React.FC = () => {
           </>
         )}
       </div>
+
+      <CommandPalette isOpen={showSearch} onClose={() => setShowSearch(false)} />
     </nav>
   );
 };
@@ -666,6 +730,11 @@ const styles: { [key: string]: React.CSSProperties } = {
     width: 'auto',
     objectFit: 'contain',
   },
+  mobileActions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+  },
   userAvatarMobile: {
     width: '36px',
     height: '36px',
@@ -872,9 +941,33 @@ const styles: { [key: string]: React.CSSProperties } = {
     display: 'flex',
     justifyContent: 'flex-end',
     alignItems: 'center',
+    gap: theme.spacing.sm,
     position: 'relative',
     flexShrink: 0,
   },
+  searchButton: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    padding: `${theme.spacing.sm} ${theme.spacing.md}`,
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    cursor: 'pointer',
+    transition: 'all 0.2s',
+  },
+  searchShortcut: {
+    fontSize: '12px',
+    fontWeight: 600,
+  },
+  departmentSelect: {
+    fontSize: '13px',
+    fontWeight: 500,
+    maxWidth: '180px',
+  },
+  departmentSwitcherMobile: {
+    padding: `${theme.spacing.sm} ${theme.spacing.md}`,
+  },
   userButton: {
     display: 'flex',
     alignItems: 'center',
@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useThemeColors } from '../contexts/ThemeContext';
+import { theme } from '../theme';
+import NotificationList from './NotificationList';
+
+interface NotificationBellProps {
+  buttonStyle: React.CSSProperties;
+  // Small screens skip the dropdown and go straight to the notifications page
+  openPage?: boolean;
+}
+
+// Newest notifications shown in the dropdown; the page lists the rest
+const DROPDOWN_LIMIT = 8;
+
+const NotificationBell: React.FC<NotificationBellProps> = ({ buttonStyle, openPage = false }) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAllAsRead } = useNotifications();
+  const colors = useThemeColors();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when the route changes
+  useEffect(() => {
+    setIsOpen(false);
+  }, [location.pathname]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('click', handleClickOutside);
+    return () => document.removeEventListener('click', handleClickOutside);
+  }, [isOpen]);
+
+  const handleClick = () => {
+    if (openPage) {
+      navigate('/notifications');
+    } else {
+      setIsOpen(prev => !prev);
+    }
+  };
+
+  const label = unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications';
+
+  return (
+    <div ref={containerRef} style={styles.container}>
+      <button style={buttonStyle} onClick={handleClick} aria-label={label} title={label}>
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9" />
+          <path d="M13.73 21a2 2 0 0 1-3.46 0" />
+        </svg>
+        {unreadCount > 0 && (
+          <span style={styles.badge}>{unreadCount > 99 ? '99+' : unreadCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="modal-content" style={{ ...styles.dropdown, backgroundColor: colors.bg.secondary, borderColor: colors.bdr.primary }}>
+          <div style={{ ...styles.header, borderBottomColor: colors.bdr.primary }}>
+            <span style={{ ...styles.heading, color: colors.txt.primary }}>Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                style={styles.textButton}
+                onClick={() => markAllAsRead().catch(() => {})}
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div style={styles.scroll}>
+            <NotificationList
+              notifications={notifications.slice(0, DROPDOWN_LIMIT)}
+              onOpen={() => setIsOpen(false)}
+            />
+          </div>
+          <button
+            style={{ ...styles.footer, borderTopColor: colors.bdr.primary }}
+            onClick={() => navigate('/notifications')}
+          >
+            View all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    position: 'relative',
+  },
+  badge: {
+    position: 'absolute',
+    top: '2px',
+    right: '2px',
+    minWidth: '16px',
+    height: '16px',
+    padding: '0 4px',
+    borderRadius: '8px',
+    backgroundColor: theme.colors.status.error,
+    color: '#FFFFFF',
+    fontSize: '10px',
+    fontWeight: 700,
+    lineHeight: '16px',
+    textAlign: 'center',
+    boxSizing: 'border-box',
+  },
+  dropdown: {
+    position: 'absolute',
+    top: '100%',
+    right: 0,
+    marginTop: theme.spacing.sm,
+    width: '360px',
+    border: '1px solid',
+    borderRadius: theme.borderRadius.md,
+    boxShadow: theme.shadows.lg,
+    overflow: 'hidden',
+    zIndex: 1000,
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: `${theme.spacing.md} ${theme.spacing.lg}`,
+    borderBottom: '1px solid',
+  },
+  heading: {
+    fontSize: '14px',
+    fontWeight: 600,
+  },
+  textButton: {
+    background: 'none',
+    border: 'none',
+    color: theme.colors.primary,
+    fontSize: '13px',
+    fontWeight: 600,
+    cursor: 'pointer',
+    padding: 0,
+  },
+  scroll: {
+    maxHeight: '400px',
+    overflowY: 'auto',
+  },
+  footer: {
+    width: '100%',
+    padding: theme.spacing.md,
+    background: 'none',
+    border: 'none',
+    borderTop: '1px solid',
+    color: theme.colors.primary,
+    fontSize: '13px',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+};
+
+export default NotificationBell;
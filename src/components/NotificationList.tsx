@@ -0,0 +1,173 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useThemeColors } from '../contexts/ThemeContext';
+import { theme } from '../theme';
+import { AppNotification } from '../types';
+import { getNotificationTarget } from '../utils/activityNotifications';
+import { formatDateValue } from '../utils/dateTime';
+
+interface NotificationListProps {
+  notifications: AppNotification[];
+  emptyMessage?: string;
+  onOpen?: () => void; // e.g. close the dropdown the list sits in
+}
+
+const formatRelativeTime = (timestamp: string) => {
+  const diffMs = Date.now() - new Date(timestamp).getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return formatDateValue(timestamp, { month: 'short', day: 'numeric' });
+};
+
+const entityIcons: Record<AppNotification['entityType'], React.ReactNode> = {
+  task: (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M9 11l3 3L22 4" />
+      <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11" />
+    </svg>
+  ),
+  job: (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="2" y="7" width="20" height="14" rx="2" ry="2" />
+      <path d="M16 21V5a2 2 0 0 0-2-2h-4a2 2 0 0 0-2 2v16" />
+    </svg>
+  ),
+  sop: (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+      <polyline points="14 2 14 8 20 8" />
+    </svg>
+  ),
+  event: (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="3" y="4" width="18" height="18" rx="2" ry="2" />
+      <line x1="16" y1="2" x2="16" y2="6" />
+      <line x1="8" y1="2" x2="8" y2="6" />
+      <line x1="3" y1="10" x2="21" y2="10" />
+    </svg>
+  ),
+};
+
+const NotificationList: React.FC<NotificationListProps> = ({
+  notifications,
+  emptyMessage = "You're all caught up",
+  onOpen,
+}) => {
+  const navigate = useNavigate();
+  const { markAsRead } = useNotifications();
+  const colors = useThemeColors();
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.readAt) {
+      markAsRead(notification.id).catch(() => {});
+    }
+    onOpen?.();
+    const target = getNotificationTarget(notification);
+    navigate(target.path, { state: target.state });
+  };
+
+  if (notifications.length === 0) {
+    return <div style={{ ...styles.empty, color: colors.txt.secondary }}>{emptyMessage}</div>;
+  }
+
+  return (
+    <div style={styles.list}>
+      {notifications.map(notification => {
+        const unread = !notification.readAt;
+        return (
+          <button
+            key={notification.id}
+            onClick={() => handleOpen(notification)}
+            style={{
+              ...styles.item,
+              backgroundColor: unread ? colors.bg.tertiary : 'transparent',
+              borderBottomColor: colors.bdr.primary,
+            }}
+          >
+            <span style={{ ...styles.icon, color: unread ? theme.colors.primary : colors.txt.secondary }}>
+              {entityIcons[notification.entityType]}
+            </span>
+            <span style={styles.content}>
+              <span style={{ ...styles.title, color: colors.txt.primary, fontWeight: unread ? 600 : 500 }}>
+                {notification.title}
+              </span>
+              {notification.body && (
+                <span style={{ ...styles.body, color: colors.txt.secondary }}>{notification.body}</span>
+              )}
+              <span style={{ ...styles.time, color: colors.txt.secondary }}>
+                {formatRelativeTime(notification.createdAt)}
+              </span>
+            </span>
+            {unread && <span style={styles.unreadDot} aria-label="Unread" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  list: {
+    display: 'flex',
+    flexDirection: 'column',
+  },
+  empty: {
+    padding: theme.spacing.xl,
+    textAlign: 'center',
+    fontSize: '14px',
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: theme.spacing.md,
+    width: '100%',
+    padding: `${theme.spacing.md} ${theme.spacing.lg}`,
+    border: 'none',
+    borderBottom: '1px solid',
+    cursor: 'pointer',
+    textAlign: 'left',
+    transition: 'background-color 0.15s',
+  },
+  icon: {
+    display: 'flex',
+    alignItems: 'center',
+    paddingTop: '2px',
+    flexShrink: 0,
+  },
+  content: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    flex: 1,
+    minWidth: 0,
+  },
+  title: {
+    fontSize: '14px',
+  },
+  body: {
+    fontSize: '13px',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  time: {
+    fontSize: '12px',
+  },
+  unreadDot: {
+    width: '8px',
+    height: '8px',
+    borderRadius: '50%',
+    backgroundColor: theme.colors.primary,
+    flexShrink: 0,
+    marginTop: '6px',
+  },
+};
+
+export default NotificationList;
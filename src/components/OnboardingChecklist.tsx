@@ -0,0 +1,175 @@
+/**
+ * Onboarding Checklist
+ * Greets people who joined through an invite with the SOPs their
+ * departments require them to sign, and tracks their progress until every
+ * one is signed. Dismissable once complete.
+ */
+
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useSOPs } from '../contexts/SOPContext';
+import { useAcknowledgements } from '../contexts/AcknowledgementContext';
+import { theme } from '../theme';
+import { getAcknowledgementStatus, isRequiredReader } from '../utils/sopCompliance';
+
+const DISMISSED_STORAGE_KEY = 'mediamaple_onboarding_dismissed';
+
+const OnboardingChecklist: React.FC = () => {
+  const { currentUser } = useAuth();
+  const { sops } = useSOPs();
+  const { acknowledgements } = useAcknowledgements();
+  const navigate = useNavigate();
+  const storageKey = `${DISMISSED_STORAGE_KEY}_${currentUser?.id}`;
+  const [dismissed, setDismissed] = useState(() => localStorage.getItem(storageKey) === 'true');
+
+  if (!currentUser?.invitedBy || dismissed) return null;
+
+  const requiredSOPs = sops
+    .filter(sop => isRequiredReader(sop, currentUser))
+    .map(sop => ({ sop, signed: getAcknowledgementStatus(sop, currentUser.id, acknowledgements) === 'signed' }))
+    .sort((a, b) => Number(a.signed) - Number(b.signed) || a.sop.title.localeCompare(b.sop.title));
+
+  if (requiredSOPs.length === 0) return null;
+
+  const signedCount = requiredSOPs.filter(item => item.signed).length;
+  const complete = signedCount === requiredSOPs.length;
+
+  const handleDismiss = () => {
+    localStorage.setItem(storageKey, 'true');
+    setDismissed(true);
+  };
+
+  return (
+    <div style={styles.card}>
+      <div style={styles.header}>
+        <div>
+          <h2 style={styles.title}>{complete ? "You're all set" : 'Getting started'}</h2>
+          <p style={styles.subtitle}>
+            {complete
+              ? 'You have signed every SOP your departments require.'
+              : `Read and sign the SOPs for ${currentUser.department}: ${signedCount} of ${requiredSOPs.length} done.`}
+          </p>
+        </div>
+        {complete && (
+          <button onClick={handleDismiss} style={styles.dismissButton}>
+            Dismiss
+          </button>
+        )}
+      </div>
+
+      <div style={styles.progressTrack}>
+        <div style={{ ...styles.progressFill, width: `${(signedCount / requiredSOPs.length) * 100}%` }} />
+      </div>
+
+      <ul style={styles.list}>
+        {requiredSOPs.map(({ sop, signed }) => (
+          <li key={sop.id}>
+            <button
+              onClick={() => navigate('/sop', { state: { openSOPId: sop.id } })}
+              style={styles.item}
+            >
+              <span style={{ ...styles.check, ...(signed && styles.checkDone) }}>{signed ? '✓' : ''}</span>
+              <span style={{ ...styles.itemTitle, ...(signed && styles.itemTitleDone) }}>{sop.title}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  card: {
+    backgroundColor: theme.colors.cardBackground,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.lg,
+    padding: '16px',
+    marginBottom: theme.spacing.lg,
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: '12px',
+    marginBottom: '12px',
+  },
+  title: {
+    fontSize: '17px',
+    fontWeight: 700,
+    color: theme.colors.textPrimary,
+    margin: 0,
+  },
+  subtitle: {
+    fontSize: '14px',
+    color: theme.colors.textSecondary,
+    margin: '4px 0 0',
+  },
+  dismissButton: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: theme.colors.primary,
+    backgroundColor: 'transparent',
+    border: 'none',
+    cursor: 'pointer',
+    padding: '4px 8px',
+  },
+  progressTrack: {
+    height: '6px',
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.border,
+    overflow: 'hidden',
+    marginBottom: '12px',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: theme.colors.status.success,
+    transition: 'width 0.3s ease',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    width: '100%',
+    padding: '8px',
+    backgroundColor: 'transparent',
+    border: 'none',
+    borderRadius: theme.borderRadius.sm,
+    cursor: 'pointer',
+    textAlign: 'left',
+  },
+  check: {
+    width: '20px',
+    height: '20px',
+    flexShrink: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.full,
+    fontSize: '12px',
+    color: '#FFFFFF',
+  },
+  checkDone: {
+    backgroundColor: theme.colors.status.success,
+    borderColor: theme.colors.status.success,
+  },
+  itemTitle: {
+    fontSize: '14px',
+    color: theme.colors.textPrimary,
+  },
+  itemTitleDone: {
+    color: theme.colors.textSecondary,
+    textDecoration: 'line-through',
+  },
+};
+
+export default OnboardingChecklist;
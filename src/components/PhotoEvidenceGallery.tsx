@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { theme } from '../theme';
+import { User } from '../types';
+import { collectEvidencePhotos, EvidencePhoto, PhotoSource } from '../utils/stepPhotos';
+import { formatDateValue } from '../utils/dateTime';
+import { useAttachmentUrl } from '../hooks/useAttachmentUrl';
+
+interface PhotoEvidenceGalleryProps {
+  tasks: PhotoSource[];
+  users: User[];
+  showTaskTitles?: boolean; // For a job's gallery, where photos come from several tasks
+}
+
+const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+};
+
+// EXIF times without an offset are the camera's wall-clock time; show them as-is
+const formatTakenAt = (takenAt: string) =>
+  /(Z|[+-]\d{2}:\d{2})$/.test(takenAt)
+    ? formatDateValue(takenAt, DATE_TIME_FORMAT)
+    : formatDateValue(`${takenAt}Z`, DATE_TIME_FORMAT, 'UTC');
+
+/** A photo from the private attachments bucket, once its signed URL is ready */
+const StoredPhoto: React.FC<{ url: string; alt: string; style: React.CSSProperties }> = ({ url, alt, style }) => {
+  const src = useAttachmentUrl(url);
+  return src ? <img src={src} alt={alt} style={style} /> : <div style={style} />;
+};
+
+const OpenOriginalLink: React.FC<{ url: string }> = ({ url }) => {
+  const href = useAttachmentUrl(url);
+  return (
+    <a href={href} target="_blank" rel="noopener noreferrer" style={styles.link}>
+      Open original
+    </a>
+  );
+};
+
+/** Completion photos of one task or every task in a job, for admins reviewing the work */
+const PhotoEvidenceGallery: React.FC<PhotoEvidenceGalleryProps> = ({ tasks, users, showTaskTitles = false }) => {
+  const [openPhoto, setOpenPhoto] = useState<EvidencePhoto | null>(null);
+  const photos = collectEvidencePhotos(tasks);
+
+  const getUserName = (userId?: string) => {
+    const user = users.find(u => u.id === userId);
+    return user ? `${user.firstName} ${user.lastName}` : undefined;
+  };
+
+  const getCaption = (photo: EvidencePhoto) =>
+    [showTaskTitles ? photo.taskTitle : null, photo.stepTitle || 'Completion photo'].filter(Boolean).join(' · ');
+
+  return (
+    <div>
+      <h3 style={styles.title}>Photo Evidence{photos.length > 0 && ` (${photos.length})`}</h3>
+      {photos.length === 0 ? (
+        <p style={styles.empty}>No completion photos yet.</p>
+      ) : (
+        <div style={styles.grid}>
+          {photos.map(photo => (
+            <button key={photo.id} type="button" onClick={() => setOpenPhoto(photo)} style={styles.tile}>
+              <StoredPhoto url={photo.url} alt={getCaption(photo)} style={styles.thumbnail} />
+              <span style={styles.caption}>{getCaption(photo)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {openPhoto && (
+        <div style={styles.lightbox} onClick={() => setOpenPhoto(null)}>
+          <div style={styles.lightboxContent} onClick={(e) => e.stopPropagation()}>
+            <StoredPhoto url={openPhoto.url} alt={getCaption(openPhoto)} style={styles.fullImage} />
+            <div style={styles.details}>
+              <strong style={styles.detailsTitle}>{getCaption(openPhoto)}</strong>
+              {openPhoto.takenAt && <span>Taken {formatTakenAt(openPhoto.takenAt)}</span>}
+              {openPhoto.uploadedAt && (
+                <span>
+                  Uploaded {formatDateValue(openPhoto.uploadedAt, DATE_TIME_FORMAT)}
+                  {getUserName(openPhoto.uploadedBy) && ` by ${getUserName(openPhoto.uploadedBy)}`}
+                </span>
+              )}
+              {openPhoto.latitude !== undefined && openPhoto.longitude !== undefined && (
+                <a
+                  href={`https://www.google.com/maps?q=${openPhoto.latitude},${openPhoto.longitude}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  style={styles.link}
+                >
+                  {openPhoto.latitude.toFixed(5)}, {openPhoto.longitude.toFixed(5)}
+                </a>
+              )}
+              <div style={styles.detailsActions}>
+                <OpenOriginalLink url={openPhoto.url} />
+                <button type="button" onClick={() => setOpenPhoto(null)} style={styles.closeButton}>
+                  Close
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  title: {
+    ...theme.typography.subtitle,
+    color: theme.colors.textPrimary,
+    fontWeight: 600,
+    margin: '0 0 12px',
+  },
+  empty: {
+    fontSize: '14px',
+    color: theme.colors.textMuted,
+    margin: 0,
+  },
+  grid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(120px, 1fr))',
+    gap: '12px',
+  },
+  tile: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    padding: 0,
+    background: 'none',
+    border: 'none',
+    cursor: 'pointer',
+    textAlign: 'left',
+  },
+  thumbnail: {
+    width: '100%',
+    aspectRatio: '1',
+    objectFit: 'cover',
+    borderRadius: theme.borderRadius.sm,
+    border: `1px solid ${theme.colors.border}`,
+    display: 'block',
+  },
+  caption: {
+    fontSize: '12px',
+    color: theme.colors.textSecondary,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  lightbox: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1100,
+    padding: '20px',
+  },
+  lightboxContent: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    maxWidth: '900px',
+    width: '100%',
+    maxHeight: '100%',
+  },
+  fullImage: {
+    maxWidth: '100%',
+    maxHeight: '70vh',
+    objectFit: 'contain',
+    alignSelf: 'center',
+    borderRadius: theme.borderRadius.md,
+  },
+  details: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    fontSize: '13px',
+    color: theme.colors.textSecondary,
+  },
+  detailsTitle: {
+    fontSize: '15px',
+    color: theme.colors.textPrimary,
+  },
+  detailsActions: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: '8px',
+  },
+  link: {
+    color: theme.colors.primary,
+    textDecoration: 'none',
+  },
+  closeButton: {
+    padding: '8px 16px',
+    fontSize: '14px',
+    fontWeight: 600,
+    color: theme.colors.textPrimary,
+    backgroundColor: theme.colors.backgroundLight,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+    cursor: 'pointer',
+  },
+};
+
+export default PhotoEvidenceGallery;
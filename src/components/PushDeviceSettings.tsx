@@ -0,0 +1,209 @@
+/**
+ * Push Device Settings
+ * Turn push notifications on for this browser and manage the user's other devices
+ */
+
+import React, { useEffect, useState } from 'react';
+import { theme } from '../theme';
+import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../hooks/useConfirm';
+import { FormButton } from './FormComponents';
+import {
+  PushDevice,
+  fetchPushDevices,
+  getThisDeviceEndpoint,
+  isLocalPushTransport,
+  isPushSupported,
+  removePushDevice,
+  subscribeThisDevice,
+} from '../services/pushNotifications';
+
+interface PushDeviceSettingsProps {
+  userId: string;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const PushDeviceSettings: React.FC<PushDeviceSettingsProps> = ({ userId }) => {
+  const { success: showSuccess, error: showError } = useToast();
+  const { confirm, confirmDialog } = useConfirm();
+  const [devices, setDevices] = useState<PushDevice[]>([]);
+  const [thisEndpoint, setThisEndpoint] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const supported = isPushSupported();
+
+  useEffect(() => {
+    if (!supported) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([fetchPushDevices(userId), getThisDeviceEndpoint(userId)])
+      .then(([list, endpoint]) => {
+        if (cancelled) return;
+        setDevices(list);
+        setThisEndpoint(endpoint);
+      })
+      .catch(() => {
+        if (!cancelled) showError('Failed to load your devices');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, supported, showError]);
+
+  const handleSubscribe = async () => {
+    setBusy(true);
+    try {
+      const device = await subscribeThisDevice(userId);
+      setDevices(prev => [...prev.filter(d => d.endpoint !== device.endpoint), device]);
+      setThisEndpoint(device.endpoint);
+      showSuccess('Push notifications turned on for this device');
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to turn on push notifications');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (device: PushDevice) => {
+    const confirmed = await confirm({
+      title: 'Remove device?',
+      message: `${device.deviceName} will stop receiving notifications.`,
+      confirmLabel: 'Remove',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    setBusy(true);
+    try {
+      await removePushDevice(userId, device);
+      setDevices(prev => prev.filter(d => d.id !== device.id));
+      if (device.endpoint === thisEndpoint) setThisEndpoint(null);
+      showSuccess('Device removed');
+    } catch {
+      showError('Failed to remove the device. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!supported) {
+    return <p style={styles.note}>This browser does not support push notifications.</p>;
+  }
+
+  if (loading) {
+    return <p style={styles.note}>Loading...</p>;
+  }
+
+  const thisDeviceSubscribed = !!thisEndpoint && devices.some(d => d.endpoint === thisEndpoint);
+
+  return (
+    <div style={styles.container}>
+      {isLocalPushTransport() && (
+        <p style={styles.note}>
+          Push service keys are not configured, so notifications only show while the app is open in this browser.
+        </p>
+      )}
+
+      {devices.length > 0 && (
+        <div style={styles.deviceList}>
+          {devices.map(device => (
+            <div key={device.id} style={styles.deviceRow}>
+              <div style={styles.deviceInfo}>
+                <span style={styles.deviceName}>
+                  {device.deviceName}
+                  {device.endpoint === thisEndpoint && <span style={styles.thisDevice}>This device</span>}
+                </span>
+                <span style={styles.meta}>
+                  Added {formatDate(device.createdAt)}
+                  {device.lastNotifiedAt ? ` · Last notified ${formatDate(device.lastNotifiedAt)}` : ''}
+                </span>
+              </div>
+              <FormButton variant="ghost" size="sm" onClick={() => handleRemove(device)} disabled={busy}>
+                Remove
+              </FormButton>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!thisDeviceSubscribed && (
+        <div style={styles.buttonRow}>
+          <FormButton variant="secondary" size="sm" onClick={handleSubscribe} loading={busy}>
+            Turn on for this device
+          </FormButton>
+        </div>
+      )}
+
+      {confirmDialog}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  note: {
+    fontSize: '13px',
+    color: theme.colors.txt.tertiary,
+    margin: 0,
+  },
+  deviceList: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  deviceRow: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '12px',
+    padding: '10px 12px',
+    backgroundColor: theme.colors.bg.tertiary,
+    borderRadius: theme.borderRadius.sm,
+  },
+  deviceInfo: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    minWidth: 0,
+  },
+  deviceName: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '14px',
+    fontWeight: 500,
+    color: theme.colors.txt.primary,
+  },
+  thisDevice: {
+    padding: '1px 8px',
+    fontSize: '11px',
+    fontWeight: 600,
+    color: theme.colors.primary,
+    backgroundColor: theme.colors.bg.secondary,
+    borderRadius: theme.borderRadius.full,
+  },
+  meta: {
+    fontSize: '12px',
+    color: theme.colors.txt.tertiary,
+  },
+  buttonRow: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: '8px',
+  },
+};
+
+export default PushDeviceSettings;
@@ -0,0 +1,94 @@
+/**
+ * Recovery Code List
+ * Shows freshly made recovery codes once, with copy and download, until the
+ * person confirms they have stored them.
+ */
+
+import React from 'react';
+import { theme } from '../theme';
+import { useToast } from '../contexts/ToastContext';
+import { FormButton } from './FormComponents';
+
+interface RecoveryCodeListProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+const RecoveryCodeList: React.FC<RecoveryCodeListProps> = ({ codes, onDone }) => {
+  const { success: showSuccess, error: showError } = useToast();
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      showSuccess('Recovery codes copied');
+    } catch {
+      showError('Could not copy. Select the codes and copy them instead.');
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div style={styles.container}>
+      <p style={styles.note}>
+        Store these somewhere safe. Each one signs you in once if you lose your authenticator app, and they are
+        not shown again.
+      </p>
+      <ul style={styles.codes}>
+        {codes.map(code => (
+          <li key={code} style={styles.code}>{code}</li>
+        ))}
+      </ul>
+      <div style={styles.buttonRow}>
+        <FormButton variant="secondary" onClick={handleCopy}>Copy</FormButton>
+        <FormButton variant="secondary" onClick={handleDownload}>Download</FormButton>
+        <FormButton variant="primary" onClick={onDone}>I've Saved Them</FormButton>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  note: {
+    fontSize: '14px',
+    color: theme.colors.txt.secondary,
+    margin: 0,
+  },
+  codes: {
+    listStyle: 'none',
+    margin: 0,
+    padding: '12px',
+    display: 'grid',
+    gridTemplateColumns: 'repeat(2, 1fr)',
+    gap: '8px',
+    backgroundColor: theme.colors.bg.tertiary,
+    borderRadius: theme.borderRadius.md,
+  },
+  code: {
+    fontFamily: 'monospace',
+    fontSize: '15px',
+    color: theme.colors.txt.primary,
+    textAlign: 'center',
+  },
+  buttonRow: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+    gap: '8px',
+  },
+};
+
+export default RecoveryCodeList;
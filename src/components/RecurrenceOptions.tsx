@@ -0,0 +1,469 @@
+import React, { useEffect, useState } from 'react';
+import { RecurrenceFrequency, RecurrencePattern } from '../types';
+import { theme } from '../theme';
+import { CustomCheckbox } from './CustomCheckbox';
+import { cleanRecurrencePattern, describeRecurrence } from '../utils/recurrence';
+import { parseDateKey } from '../utils/dateTime';
+
+interface RecurrenceOptionsProps {
+  pattern: RecurrencePattern;
+  onChange: (pattern: RecurrencePattern) => void;
+  startDate: string; // First occurrence, used for defaults and the summary
+  isMobile?: boolean;
+}
+
+type EndMode = 'never' | 'date' | 'count';
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  yearly: 'year(s)',
+};
+
+// Monday first for display; values are RecurrencePattern day numbers (Sunday = 0)
+const WEEK_DAYS = [
+  { label: 'Mon', value: 1 },
+  { label: 'Tue', value: 2 },
+  { label: 'Wed', value: 3 },
+  { label: 'Thu', value: 4 },
+  { label: 'Fri', value: 5 },
+  { label: 'Sat', value: 6 },
+  { label: 'Sun', value: 0 },
+];
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const WEEK_OF_MONTH_OPTIONS = [
+  { label: 'First', value: 1 },
+  { label: 'Second', value: 2 },
+  { label: 'Third', value: 3 },
+  { label: 'Fourth', value: 4 },
+  { label: 'Last', value: -1 },
+];
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const getEndMode = (pattern: RecurrencePattern): EndMode =>
+  pattern.count ? 'count' : pattern.endDate ? 'date' : 'never';
+
+/**
+ * Recurrence editor shared by the task and event forms: frequency and
+ * interval, weekdays, day-of-month or nth-weekday rules, end condition and
+ * skip dates. Fields for other frequencies are left in place while editing;
+ * run the result through cleanRecurrencePattern before saving.
+ */
+const RecurrenceOptions: React.FC<RecurrenceOptionsProps> = ({
+  pattern,
+  onChange,
+  startDate,
+  isMobile = false,
+}) => {
+  const [endMode, setEndMode] = useState<EndMode>(getEndMode(pattern));
+  const [newSkipDate, setNewSkipDate] = useState('');
+
+  // Follow patterns loaded from a task or template after mount
+  useEffect(() => {
+    if (pattern.count) setEndMode('count');
+    else if (pattern.endDate) setEndMode('date');
+  }, [pattern.count, pattern.endDate]);
+
+  const anchor = startDate ? parseDateKey(startDate) : new Date();
+  const update = (changes: Partial<RecurrencePattern>) => onChange({ ...pattern, ...changes });
+
+  const usesMonthDay = pattern.frequency === 'monthly' || pattern.frequency === 'yearly';
+  const byWeekday = usesMonthDay && !!pattern.weekOfMonth;
+  const selectedDays = pattern.daysOfWeek || [];
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency) => {
+    update({
+      frequency,
+      daysOfWeek: frequency === 'weekly' && selectedDays.length === 0 ? [anchor.getDay()] : pattern.daysOfWeek,
+    });
+  };
+
+  const handleDayToggle = (day: number) => {
+    update({
+      daysOfWeek: selectedDays.includes(day)
+        ? selectedDays.filter(d => d !== day)
+        : [...selectedDays, day].sort(),
+    });
+  };
+
+  const handleMonthRuleChange = (rule: 'day' | 'weekday') => {
+    if (rule === 'day') {
+      update({ weekOfMonth: undefined });
+    } else {
+      // Default to the start date's position, e.g. "third Tuesday"
+      const week = Math.ceil(anchor.getDate() / 7);
+      update({ weekOfMonth: week > 4 ? -1 : week, daysOfWeek: [anchor.getDay()] });
+    }
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    setEndMode(mode);
+    update({ endDate: undefined, count: mode === 'count' ? pattern.count || 10 : undefined });
+  };
+
+  const handleAddSkipDate = () => {
+    const skipDates = pattern.skipDates || [];
+    if (!newSkipDate || skipDates.includes(newSkipDate)) return;
+    update({ skipDates: [...skipDates, newSkipDate].sort() });
+    setNewSkipDate('');
+  };
+
+  const handleRemoveSkipDate = (date: string) => {
+    update({ skipDates: (pattern.skipDates || []).filter(d => d !== date) });
+  };
+
+  const parseNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+  const inputStyle = { ...styles.input, ...(isMobile && styles.inputMobile) };
+
+  return (
+    <div style={styles.container}>
+      <div style={{ ...styles.row, ...(isMobile && styles.rowMobile) }}>
+        <div style={styles.field}>
+          <label style={styles.label}>Repeats *</label>
+          <select
+            value={pattern.frequency}
+            onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency)}
+            style={inputStyle}
+          >
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+            <option value="yearly">Yearly</option>
+          </select>
+        </div>
+        <div style={styles.field}>
+          <label style={styles.label}>Every</label>
+          <div style={styles.inline}>
+            <input
+              type="number"
+              min={1}
+              value={pattern.interval ?? ''}
+              placeholder="1"
+              onChange={(e) => update({ interval: parseNumber(e.target.value) })}
+              style={{ ...inputStyle, ...styles.shortInput }}
+            />
+            <span style={styles.unit}>{FREQUENCY_UNITS[pattern.frequency]}</span>
+          </div>
+        </div>
+      </div>
+
+      {pattern.frequency === 'weekly' && (
+        <div style={styles.field}>
+          <label style={styles.label}>On these days *</label>
+          <div style={styles.daysGrid}>
+            {WEEK_DAYS.map(day => (
+              <CustomCheckbox
+                key={day.value}
+                checked={selectedDays.includes(day.value)}
+                onChange={() => handleDayToggle(day.value)}
+                label={day.label}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {usesMonthDay && (
+        <div style={styles.field}>
+          {pattern.frequency === 'yearly' && (
+            <div style={styles.fieldSpaced}>
+              <label style={styles.label}>In</label>
+              <select
+                value={pattern.monthOfYear || anchor.getMonth() + 1}
+                onChange={(e) => update({ monthOfYear: Number(e.target.value) })}
+                style={inputStyle}
+              >
+                {MONTH_NAMES.map((month, index) => (
+                  <option key={month} value={index + 1}>{month}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <label style={styles.label}>On</label>
+          <div style={styles.radioRow}>
+            <label style={styles.radioLabel}>
+              <input
+                type="radio"
+                checked={!byWeekday}
+                onChange={() => handleMonthRuleChange('day')}
+                style={styles.radio}
+              />
+              Day
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={pattern.dayOfMonth ?? ''}
+              placeholder={String(anchor.getDate())}
+              disabled={byWeekday}
+              onChange={(e) => update({ dayOfMonth: parseNumber(e.target.value) })}
+              style={{ ...inputStyle, ...styles.shortInput }}
+            />
+          </div>
+          <div style={styles.radioRow}>
+            <label style={styles.radioLabel}>
+              <input
+                type="radio"
+                checked={byWeekday}
+                onChange={() => handleMonthRuleChange('weekday')}
+                style={styles.radio}
+              />
+              The
+            </label>
+            <select
+              value={pattern.weekOfMonth || 1}
+              disabled={!byWeekday}
+              onChange={(e) => update({ weekOfMonth: Number(e.target.value) })}
+              style={inputStyle}
+            >
+              {WEEK_OF_MONTH_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={selectedDays[0] ?? anchor.getDay()}
+              disabled={!byWeekday}
+              onChange={(e) => update({ daysOfWeek: [Number(e.target.value)] })}
+              style={inputStyle}
+            >
+              {WEEKDAY_NAMES.map((day, index) => (
+                <option key={day} value={index}>{day}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      <div style={styles.field}>
+        <label style={styles.label}>Ends</label>
+        <div style={styles.radioRow}>
+          <label style={styles.radioLabel}>
+            <input
+              type="radio"
+              checked={endMode === 'never'}
+              onChange={() => handleEndModeChange('never')}
+              style={styles.radio}
+            />
+            Never
+          </label>
+        </div>
+        <div style={styles.radioRow}>
+          <label style={styles.radioLabel}>
+            <input
+              type="radio"
+              checked={endMode === 'date'}
+              onChange={() => handleEndModeChange('date')}
+              style={styles.radio}
+            />
+            On
+          </label>
+          <input
+            type="date"
+            value={pattern.endDate || ''}
+            min={startDate || undefined}
+            disabled={endMode !== 'date'}
+            onChange={(e) => update({ endDate: e.target.value || undefined })}
+            style={inputStyle}
+          />
+        </div>
+        <div style={styles.radioRow}>
+          <label style={styles.radioLabel}>
+            <input
+              type="radio"
+              checked={endMode === 'count'}
+              onChange={() => handleEndModeChange('count')}
+              style={styles.radio}
+            />
+            After
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={pattern.count ?? ''}
+            disabled={endMode !== 'count'}
+            onChange={(e) => update({ count: parseNumber(e.target.value) })}
+            style={{ ...inputStyle, ...styles.shortInput }}
+          />
+          <span style={styles.unit}>occurrences</span>
+        </div>
+      </div>
+
+      <div style={styles.field}>
+        <label style={styles.label}>Skip Dates (holidays, closures)</label>
+        <div style={styles.inline}>
+          <input
+            type="date"
+            value={newSkipDate}
+            min={startDate || undefined}
+            onChange={(e) => setNewSkipDate(e.target.value)}
+            style={inputStyle}
+          />
+          <button
+            type="button"
+            onClick={handleAddSkipDate}
+            style={styles.addButton}
+            disabled={!newSkipDate}
+          >
+            Add
+          </button>
+        </div>
+        {pattern.skipDates && pattern.skipDates.length > 0 && (
+          <div style={styles.skipDateList}>
+            {pattern.skipDates.map(date => (
+              <span key={date} style={styles.skipDateChip}>
+                {date}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveSkipDate(date)}
+                  style={styles.skipDateRemove}
+                  aria-label={`Remove ${date}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div style={styles.summary}>
+        {describeRecurrence(cleanRecurrencePattern(pattern), startDate || undefined)}
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+  },
+  row: {
+    display: 'grid',
+    gridTemplateColumns: '1fr 1fr',
+    gap: '16px',
+  },
+  rowMobile: {
+    gridTemplateColumns: '1fr',
+  },
+  field: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  fieldSpaced: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    marginBottom: '8px',
+  },
+  label: {
+    fontSize: '14px',
+    fontWeight: 500,
+    color: theme.colors.txt.primary,
+  },
+  input: {
+    width: '100%',
+    padding: '10px 12px',
+    fontSize: '15px',
+    color: theme.colors.txt.primary,
+    backgroundColor: theme.colors.bg.secondary,
+    border: `2px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    outline: 'none',
+  },
+  inputMobile: {
+    fontSize: '16px',
+  },
+  shortInput: {
+    width: '90px',
+    flexShrink: 0,
+  },
+  inline: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  unit: {
+    fontSize: '14px',
+    color: theme.colors.txt.secondary,
+    whiteSpace: 'nowrap',
+  },
+  daysGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(80px, 1fr))',
+    gap: '8px',
+  },
+  radioRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  radioLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    minWidth: '72px',
+    fontSize: '14px',
+    color: theme.colors.txt.primary,
+    cursor: 'pointer',
+  },
+  radio: {
+    width: '16px',
+    height: '16px',
+    cursor: 'pointer',
+  },
+  addButton: {
+    padding: '10px 16px',
+    fontSize: '14px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+    backgroundColor: theme.colors.bg.secondary,
+    border: `2px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    cursor: 'pointer',
+  },
+  skipDateList: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '8px',
+  },
+  skipDateChip: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '4px 4px 4px 10px',
+    fontSize: '13px',
+    color: theme.colors.txt.primary,
+    backgroundColor: theme.colors.bg.secondary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.full,
+  },
+  skipDateRemove: {
+    background: 'none',
+    border: 'none',
+    color: theme.colors.txt.tertiary,
+    fontSize: '16px',
+    lineHeight: 1,
+    cursor: 'pointer',
+    padding: '0 6px',
+  },
+  summary: {
+    fontSize: '13px',
+    color: theme.colors.txt.secondary,
+    fontStyle: 'italic',
+  },
+};
+
+export default RecurrenceOptions;
@@ -0,0 +1,148 @@
+import React, { useEffect } from 'react';
+import { theme } from '../theme';
+import { useResponsive } from '../hooks/useResponsive';
+import { RecurrenceEditScope } from '../utils/recurrence';
+
+interface RecurrenceScopeDialogProps {
+  isOpen: boolean;
+  title: string;
+  message: string;
+  onSelect: (scope: RecurrenceEditScope) => void;
+  onClose: () => void;
+}
+
+const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({
+  isOpen,
+  title,
+  message,
+  onSelect,
+  onClose,
+}) => {
+  const { isMobileOrTablet } = useResponsive();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div style={styles.overlay} onClick={onClose}>
+      <div
+        style={isMobileOrTablet ? styles.dialogMobile : styles.dialog}
+        onClick={(e) => e.stopPropagation()}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="recurrence-scope-title"
+      >
+        <h2 id="recurrence-scope-title" style={styles.title}>{title}</h2>
+        <p style={styles.message}>{message}</p>
+
+        <div style={styles.options}>
+          <button type="button" style={styles.optionButton} onClick={() => onSelect('this')}>
+            <span style={styles.optionLabel}>This occurrence</span>
+            <span style={styles.optionHint}>Only this date changes</span>
+          </button>
+          <button type="button" style={styles.optionButton} onClick={() => onSelect('future')}>
+            <span style={styles.optionLabel}>This and all future occurrences</span>
+            <span style={styles.optionHint}>Earlier dates stay as they are</span>
+          </button>
+        </div>
+
+        <button type="button" style={styles.cancelButton} onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  overlay: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    backdropFilter: 'blur(4px)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 9999,
+    padding: theme.spacing.lg,
+  },
+  dialog: {
+    backgroundColor: theme.colors.bg.secondary,
+    borderRadius: theme.borderRadius.lg,
+    border: `2px solid ${theme.colors.bdr.primary}`,
+    padding: '32px',
+    maxWidth: '420px',
+    width: '100%',
+  },
+  dialogMobile: {
+    backgroundColor: theme.colors.bg.secondary,
+    borderRadius: theme.borderRadius.md,
+    border: `2px solid ${theme.colors.bdr.primary}`,
+    padding: '24px',
+    maxWidth: '100%',
+    width: '100%',
+  },
+  title: {
+    ...theme.typography.h3,
+    color: theme.colors.txt.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  message: {
+    ...theme.typography.body,
+    color: theme.colors.txt.secondary,
+    marginBottom: theme.spacing.lg,
+    lineHeight: 1.6,
+  },
+  options: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+  },
+  optionButton: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'flex-start',
+    gap: '2px',
+    padding: '12px 16px',
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    cursor: 'pointer',
+    textAlign: 'left',
+  },
+  optionLabel: {
+    fontSize: '15px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+  },
+  optionHint: {
+    fontSize: '13px',
+    color: theme.colors.txt.tertiary,
+  },
+  cancelButton: {
+    ...theme.components.button.base,
+    ...theme.components.button.sizes.md,
+    width: '100%',
+    backgroundColor: 'transparent',
+    color: theme.colors.txt.secondary,
+    border: `2px solid ${theme.colors.bdr.secondary}`,
+  },
+};
+
+export default RecurrenceScopeDialog;
@@ -0,0 +1,199 @@
+/**
+ * Role Settings
+ * Lets admins create, edit and delete the custom roles assigned to team
+ * members, and choose what each one is allowed to do
+ */
+
+import React, { useEffect, useState } from 'react';
+import { theme } from '../theme';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../hooks/useConfirm';
+import { useStepUp } from '../hooks/useStepUp';
+import { Permission } from '../types';
+import { PERMISSIONS } from '../utils/permissions';
+import { FormButton, FormInput, FormSelect } from './FormComponents';
+
+const NEW_ROLE = '__new__';
+
+// "Shift Lead" -> "shift_lead"; admin and team are taken by the built-in levels
+const toRoleId = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+const RESERVED_IDS = ['admin', 'team', NEW_ROLE];
+
+const RoleSettings: React.FC = () => {
+  const { roles, users, saveRole, deleteRole } = useAuth();
+  const { success: showSuccess, error: showError } = useToast();
+  const { confirm, confirmDialog } = useConfirm();
+  const { stepUp, stepUpDialog } = useStepUp();
+  const [selectedId, setSelectedId] = useState<string>(roles[0]?.id || NEW_ROLE);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const selected = roles.find(role => role.id === selectedId);
+  const memberCount = users.filter(user => user.role !== 'admin' && user.roleId === selectedId).length;
+
+  // Load the selected role into the editor
+  useEffect(() => {
+    setName(selected?.name || '');
+    setDescription(selected?.description || '');
+    setPermissions(selected?.permissions || []);
+  }, [selected]);
+
+  const togglePermission = (permission: Permission, enabled: boolean) => {
+    setPermissions(prev => (enabled ? [...prev, permission] : prev.filter(p => p !== permission)));
+  };
+
+  const handleSave = async () => {
+    const id = selected?.id || toRoleId(name);
+    if (!name.trim() || !id) {
+      showError('Role name is required');
+      return;
+    }
+    if (!selected && (RESERVED_IDS.includes(id) || roles.some(role => role.id === id))) {
+      showError('A role with this name already exists');
+      return;
+    }
+    if (!(await stepUp(`save the ${name.trim()} role`))) return;
+
+    setSaving(true);
+    try {
+      await saveRole({
+        id,
+        name: name.trim(),
+        description: description.trim() || undefined,
+        // Keep the order of the permission list
+        permissions: PERMISSIONS.map(p => p.id).filter(p => permissions.includes(p)),
+      });
+      setSelectedId(id);
+      showSuccess(`${name.trim()} role saved`);
+    } catch {
+      showError('Failed to save the role. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    const confirmed = await confirm({
+      title: `Delete the ${selected.name} role?`,
+      message: memberCount > 0
+        ? `${memberCount} ${memberCount === 1 ? 'person has' : 'people have'} this role and will become plain team members.`
+        : 'Nobody has this role.',
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+    if (!(await stepUp(`delete the ${selected.name} role`))) return;
+
+    setSaving(true);
+    try {
+      await deleteRole(selected.id);
+      setSelectedId(roles.find(role => role.id !== selected.id)?.id || NEW_ROLE);
+      showSuccess(`${selected.name} role deleted`);
+    } catch {
+      showError('Failed to delete the role. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <FormSelect
+        label="Role"
+        value={selectedId}
+        onChange={(e) => setSelectedId(e.target.value)}
+        options={[
+          ...roles.map(role => ({ value: role.id, label: role.name })),
+          { value: NEW_ROLE, label: '+ New role' },
+        ]}
+        helperText={selected ? `${memberCount} ${memberCount === 1 ? 'member' : 'members'}` : undefined}
+      />
+
+      <FormInput label="Name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Shift Lead" />
+      <FormInput label="Description" value={description} onChange={(e) => setDescription(e.target.value)} />
+
+      <div style={styles.permissions}>
+        <span style={styles.permissionsLabel}>Permissions</span>
+        {PERMISSIONS.map(permission => (
+          <label key={permission.id} style={styles.permissionRow}>
+            <input
+              type="checkbox"
+              checked={permissions.includes(permission.id)}
+              onChange={(e) => togglePermission(permission.id, e.target.checked)}
+            />
+            <span>
+              <span style={styles.permissionName}>{permission.label}</span>
+              <span style={styles.permissionDescription}>{permission.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <p style={styles.note}>Admins have every permission. Team members without a role only work on their own tasks, hours and events.</p>
+
+      <div style={styles.buttonRow}>
+        {selected && (
+          <FormButton variant="danger" onClick={handleDelete} disabled={saving}>
+            Delete Role
+          </FormButton>
+        )}
+        <FormButton variant="primary" onClick={handleSave} loading={saving}>
+          {selected ? 'Save Role' : 'Create Role'}
+        </FormButton>
+      </div>
+      {confirmDialog}
+      {stepUpDialog}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  permissions: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+  },
+  permissionsLabel: {
+    fontSize: '14px',
+    fontWeight: 500,
+    color: theme.colors.txt.primary,
+  },
+  permissionRow: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '10px',
+    cursor: 'pointer',
+  },
+  permissionName: {
+    display: 'block',
+    fontSize: '14px',
+    color: theme.colors.txt.primary,
+  },
+  permissionDescription: {
+    display: 'block',
+    fontSize: '12px',
+    color: theme.colors.txt.tertiary,
+  },
+  note: {
+    fontSize: '13px',
+    color: theme.colors.txt.tertiary,
+    margin: 0,
+  },
+  buttonRow: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+    gap: '8px',
+  },
+};
+
+export default RoleSettings;
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { SOP } from '../types';
+import { theme } from '../theme';
+import { useAuth } from '../contexts/AuthContext';
+import { useAcknowledgements } from '../contexts/AcknowledgementContext';
+import { useToast } from '../contexts/ToastContext';
+import {
+  AcknowledgementStatus,
+  getAcknowledgementStatus,
+  getAssignedDepartments,
+  getComplianceMatrix,
+  isRequiredReader,
+  requiresAcknowledgement,
+} from '../utils/sopCompliance';
+import { Badge, Button } from './ui';
+
+interface SOPAcknowledgementPanelProps {
+  sop: SOP;
+}
+
+const STATUS_LABELS: Record<AcknowledgementStatus, { label: string; variant: 'success' | 'warning' | 'default' }> = {
+  signed: { label: 'Signed', variant: 'success' },
+  outdated: { label: 'Needs re-sign', variant: 'warning' },
+  pending: { label: 'Not signed', variant: 'default' },
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const SOPAcknowledgementPanel: React.FC<SOPAcknowledgementPanelProps> = ({ sop }) => {
+  const { currentUser, users, isAdmin } = useAuth();
+  const { acknowledgements, reminders, acknowledgeSOP, sendAcknowledgementReminder } = useAcknowledgements();
+  const { success, error: showError } = useToast();
+  const [signing, setSigning] = useState(false);
+  const [reminding, setReminding] = useState(false);
+
+  if (!requiresAcknowledgement(sop) || !currentUser) return null;
+
+  const mustSign = isRequiredReader(sop, currentUser);
+  if (!mustSign && !isAdmin) return null;
+
+  const myStatus = getAcknowledgementStatus(sop, currentUser.id, acknowledgements);
+  const matrix = isAdmin ? getComplianceMatrix(sop, users, acknowledgements) : [];
+  const outstanding = matrix.filter(row => row.status !== 'signed');
+  const signedCount = matrix.length - outstanding.length;
+
+  const lastReminderFor = (userId: string) =>
+    reminders
+      .filter(r => r.sopId === sop.id && r.userId === userId)
+      .sort((a, b) => b.sentAt.localeCompare(a.sentAt))[0];
+
+  const handleAcknowledge = async () => {
+    setSigning(true);
+    try {
+      await acknowledgeSOP(sop);
+      success('Thanks — your acknowledgement has been recorded');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to record acknowledgement');
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const handleRemind = async (userIds: string[]) => {
+    setReminding(true);
+    try {
+      await sendAcknowledgementReminder(sop, userIds);
+      success(`Reminder sent to ${userIds.length} team member${userIds.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to send reminder');
+    } finally {
+      setReminding(false);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      {mustSign && (
+        <div style={myStatus === 'signed' ? styles.bannerSigned : styles.banner}>
+          <div style={styles.bannerText}>
+            {myStatus === 'signed' && 'You have acknowledged the current version of this SOP.'}
+            {myStatus === 'outdated' && 'This SOP was updated since you last signed it. Please review and acknowledge it again.'}
+            {myStatus === 'pending' && 'Please read this SOP and confirm you have understood it.'}
+          </div>
+          {myStatus !== 'signed' && (
+            <Button variant="success" onClick={handleAcknowledge} loading={signing}>
+              I have read and understood
+            </Button>
+          )}
+        </div>
+      )}
+
+      {isAdmin && (
+        <>
+          <div style={styles.header}>
+            <div style={styles.headerLeft}>
+              <h3 style={styles.title}>Sign-off</h3>
+              <span style={styles.progress}>
+                {signedCount} / {matrix.length} signed · {getAssignedDepartments(sop).join(', ')}
+              </span>
+            </div>
+            {outstanding.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRemind(outstanding.map(row => row.user.id))}
+                loading={reminding}
+              >
+                Remind All Outstanding
+              </Button>
+            )}
+          </div>
+
+          {matrix.length === 0 ? (
+            <div style={styles.empty}>No active team members in the assigned departments.</div>
+          ) : (
+            <div style={styles.matrix}>
+              {matrix.map(row => {
+                const statusInfo = STATUS_LABELS[row.status];
+                const lastReminder = lastReminderFor(row.user.id);
+                return (
+                  <div key={row.user.id} style={styles.row}>
+                    <div style={styles.rowMain}>
+                      <div style={styles.userName}>
+                        {row.user.firstName} {row.user.lastName}
+                      </div>
+                      <div style={styles.rowMeta}>
+                        {row.user.department}
+                        {row.acknowledgement && ` · Signed ${formatDate(row.acknowledgement.acknowledgedAt)}`}
+                        {row.status !== 'signed' && lastReminder && ` · Reminded ${formatDate(lastReminder.sentAt)}`}
+                      </div>
+                    </div>
+                    <Badge variant={statusInfo.variant} size="sm">{statusInfo.label}</Badge>
+                    {row.status !== 'signed' && (
+                      <Button variant="ghost" size="sm" onClick={() => handleRemind([row.user.id])} disabled={reminding}>
+                        Remind
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+    padding: '20px',
+    marginBottom: '24px',
+    backgroundColor: theme.colors.cardBackground,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.lg,
+  },
+  banner: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: '12px',
+    padding: '14px 16px',
+    backgroundColor: theme.colors.background,
+    border: `2px solid ${theme.colors.status.warning}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  bannerSigned: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    padding: '14px 16px',
+    backgroundColor: theme.colors.background,
+    border: `2px solid ${theme.colors.status.success}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  bannerText: {
+    flex: 1,
+    minWidth: '200px',
+    fontSize: '14px',
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '12px',
+    flexWrap: 'wrap',
+  },
+  headerLeft: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    flexWrap: 'wrap',
+  },
+  title: {
+    fontSize: '16px',
+    fontWeight: '700',
+    color: theme.colors.textPrimary,
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+    margin: 0,
+  },
+  progress: {
+    fontSize: '13px',
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  empty: {
+    fontSize: '14px',
+    color: theme.colors.textMuted,
+  },
+  matrix: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    maxHeight: '360px',
+    overflowY: 'auto',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    padding: '10px 12px',
+    backgroundColor: theme.colors.background,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  rowMain: {
+    flex: 1,
+    minWidth: 0,
+  },
+  userName: {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+  },
+  rowMeta: {
+    fontSize: '12px',
+    color: theme.colors.textMuted,
+    marginTop: '2px',
+  },
+};
+
+export default SOPAcknowledgementPanel;
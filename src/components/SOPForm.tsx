@@ -1,10 +1,16 @@
 import React, { useState } from 'react';
 import { useToast } from '../contexts/ToastContext';
 import { useSOPs } from '../contexts/SOPContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useDepartments } from '../contexts/DepartmentContext';
 import { theme } from '../theme';
-import { SOP, SOPStep, SOPStatus } from '../types';
+import { SOP, SOPQuiz, SOPStep, SOPStatus } from '../types';
 import IconSelector, { IconName } from './IconSelector';
 import ImageUpload from './ImageUpload';
+import { CustomCheckbox } from './CustomCheckbox';
+import SOPQuizEditor from './SOPQuizEditor';
+import { validateQuiz } from '../utils/sopQuiz';
+import { getUserDepartments } from '../utils/departments';
 import { useResponsive } from '../hooks/useResponsive';
 
 interface SOPFormProps {
@@ -15,11 +21,12 @@ interface SOPFormProps {
 const SOPForm: React.FC<SOPFormProps> = ({ sop, onClose }) => {
   const { error: showError } = useToast();
   const { addSOP, updateSOP, saveAsTemplate, sops } = useSOPs();
+  const { currentUser, isAdmin } = useAuth();
+  const { departmentNames } = useDepartments();
   const { isMobile, isMobileOrTablet } = useResponsive();
 
   // Get unique categories from existing SOPs
   const existingCategories = Array.from(new Set(sops.map(s => s.category))).sort();
-  const existingDepartments = Array.from(new Set(sops.map(s => s.department))).sort();
 
   const [title, setTitle] = useState(sop?.title || '');
   const [description, setDescription] = useState(sop?.description || '');
@@ -27,8 +34,16 @@ const SOPForm: React.FC<SOPFormProps> = ({ sop, onClose }) => {
   const [isCustomCategory, setIsCustomCategory] = useState(!sop?.category || !existingCategories.includes(sop?.category || ''));
   const [isEditingCategory, setIsEditingCategory] = useState(false);
   const [editedCategory, setEditedCategory] = useState('');
-  const [department, setDepartment] = useState(sop?.department || '');
-  const [isCustomDepartment, setIsCustomDepartment] = useState(!sop?.department || !existingDepartments.includes(sop?.department || ''));
+  // Department leads only write SOPs for the departments they belong to
+  const ownDepartments = isAdmin ? departmentNames : getUserDepartments(currentUser);
+  const departmentOptions = sop?.department && !ownDepartments.includes(sop.department)
+    ? [...ownDepartments, sop.department]
+    : ownDepartments;
+  const lockedDepartment = !isAdmin && departmentOptions.length === 1 ? departmentOptions[0] : undefined;
+  const [department, setDepartment] = useState(sop?.department || lockedDepartment || '');
+  const [sharedDepartments, setSharedDepartments] = useState<string[]>(sop?.sharedDepartments || []);
+  const [assignedDepartments, setAssignedDepartments] = useState<string[]>(sop?.assignedDepartments || []);
+  const [quiz, setQuiz] = useState<SOPQuiz | undefined>(sop?.quiz);
   const [icon, setIcon] = useState<IconName>(sop?.icon as IconName || 'box');
   const [imageUrl, setImageUrl] = useState(sop?.imageUrl || '');
   const [tags, setTags] = useState<string[]>(sop?.tags || []);
@@ -115,6 +130,12 @@ const SOPForm: React.FC<SOPFormProps> = ({ sop, onClose }) => {
       return;
     }
 
+    const quizError = quiz ? validateQuiz(quiz) : null;
+    if (quizError) {
+      showError(quizError);
+      return;
+    }
+
     const sopData = {
       title: title.trim(),
       description: description.trim(),
@@ -124,6 +145,9 @@ const SOPForm: React.FC<SOPFormProps> = ({ sop, onClose }) => {
       imageUrl: imageUrl || undefined,
       steps,
       tags,
+      sharedDepartments: sharedDepartments.filter(d => d !== department),
+      assignedDepartments,
+      quiz,
       status,
       isTemplate,
       createdBy: 'user', // Default value since we removed auth
@@ -147,8 +171,9 @@ const SOPForm: React.FC<SOPFormProps> = ({ sop, onClose }) => {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // Default submit saves as published
-    handleSave('published', false);
+    // New SOPs start as drafts and go through review before publishing;
+    // edits keep the SOP's current status
+    handleSave(sop ? sop.status : 'draft', false);
   };
 
   return (
@@ -220,61 +245,77 @@ const SOPForm: React.FC<SOPFormProps> = ({ sop, onClose }) => {
             <label style={styles.label}>
               Department <span style={styles.required}>*</span>
             </label>
-            {existingDepartments.length > 0 && !isCustomDepartment ? (
-              <div>
-                <select
-                  value={department}
-                  onChange={(e) => {
-                    const value = e.target.value;
-                    if (value === '__custom__') {
-                      setIsCustomDepartment(true);
-                      setDepartment('');
-                    } else {
-                      setDepartment(value);
-                    }
-                  }}
-                  style={{
-                    ...styles.input,
-                    ...(isMobile && styles.inputMobile),
-                  }}
-                  required
-                >
-                  <option value="">-- Select a department --</option>
-                  {existingDepartments.map(dept => (
-                    <option key={dept} value={dept}>{dept}</option>
-                  ))}
-                  <option value="__custom__">+ Create New Department</option>
-                </select>
-              </div>
+            {lockedDepartment ? (
+              <input
+                type="text"
+                value={department}
+                style={{
+                  ...styles.input,
+                  ...(isMobile && styles.inputMobile),
+                }}
+                readOnly
+              />
             ) : (
-              <div>
-                <input
-                  type="text"
-                  value={department}
-                  onChange={(e) => setDepartment(e.target.value)}
-                  placeholder="e.g., Admin, Staff, Management"
-                  style={{
-                    ...styles.input,
-                    ...(isMobile && styles.inputMobile),
-                  }}
-                  required
-                />
-                {existingDepartments.length > 0 && (
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setIsCustomDepartment(false);
-                      setDepartment('');
-                    }}
-                    style={styles.switchButton}
-                  >
-                    ← Select from existing departments
-                  </button>
-                )}
-              </div>
+              <select
+                value={department}
+                onChange={(e) => setDepartment(e.target.value)}
+                style={{
+                  ...styles.input,
+                  ...(isMobile && styles.inputMobile),
+                }}
+                required
+              >
+                <option value="">-- Select a department --</option>
+                {departmentOptions.map(dept => (
+                  <option key={dept} value={dept}>{dept}</option>
+                ))}
+              </select>
             )}
           </div>
 
+          <div style={styles.inputGroup}>
+            <label style={styles.label}>Share With</label>
+            <p style={styles.helperText}>
+              Members of these departments can read this SOP too, without signing it off.
+            </p>
+            <div style={styles.checkboxGrid}>
+              {departmentNames.filter(dept => dept !== department).map(dept => (
+                <CustomCheckbox
+                  key={dept}
+                  checked={sharedDepartments.includes(dept)}
+                  onChange={(checked) =>
+                    setSharedDepartments(prev =>
+                      checked ? [...prev, dept] : prev.filter(d => d !== dept)
+                    )
+                  }
+                  label={dept}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div style={styles.inputGroup}>
+            <label style={styles.label}>Required Sign-off</label>
+            <p style={styles.helperText}>
+              Members of these departments must acknowledge each published version.
+              Leave empty to require sign-off from the SOP's own department.
+            </p>
+            <div style={styles.checkboxGrid}>
+              {departmentNames.map(dept => (
+                <CustomCheckbox
+                  key={dept}
+                  checked={assignedDepartments.includes(dept)}
+                  onChange={(checked) =>
+                    setAssignedDepartments(prev =>
+                      checked ? [...prev, dept] : prev.filter(d => d !== dept)
+                    )
+                  }
+                  label={dept}
+                />
+              ))}
+            </div>
+          </div>
+
           <div style={styles.inputGroup}>
             <label style={styles.label}>
               Category <span style={styles.required}>*</span>
@@ -584,6 +625,16 @@ const SOPForm: React.FC<SOPFormProps> = ({ sop, onClose }) => {
           ))}
         </div>
 
+        {!sop?.isTemplate && (
+          <div style={{
+            ...styles.section,
+            ...(isMobile && styles.sectionMobile),
+          }}>
+            <h3 style={styles.sectionTitle}>Knowledge Check (Optional)</h3>
+            <SOPQuizEditor quiz={quiz} onChange={setQuiz} />
+          </div>
+        )}
+
         <div style={{
           ...styles.footer,
           ...(isMobile && styles.footerMobile),
@@ -615,7 +666,7 @@ const SOPForm: React.FC<SOPFormProps> = ({ sop, onClose }) => {
               ...styles.submitButton,
               ...(isMobile && styles.buttonMobile),
             }}>
-              {sop?.isTemplate ? 'Update Template' : sop ? 'Save Changes' : 'Save SOP'}
+              {sop?.isTemplate ? 'Update Template' : sop ? 'Save Changes' : 'Save Draft'}
             </button>
           </div>
         </div>
@@ -734,6 +785,16 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontFamily: 'inherit',
     lineHeight: '1.6',
   },
+  helperText: {
+    fontSize: '13px',
+    color: theme.colors.textMuted,
+    margin: '0 0 12px 0',
+  },
+  checkboxGrid: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '12px 20px',
+  },
   switchButton: {
     marginTop: '8px',
     padding: '8px 12px',
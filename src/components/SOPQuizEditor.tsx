@@ -0,0 +1,199 @@
+import React from 'react';
+import { SOPQuiz, SOPQuizQuestion } from '../types';
+import { theme } from '../theme';
+import { createQuizQuestion, DEFAULT_PASS_THRESHOLD } from '../utils/sopQuiz';
+import { Button, Input, IconButton } from './ui';
+
+interface SOPQuizEditorProps {
+  quiz?: SOPQuiz;
+  onChange: (quiz: SOPQuiz | undefined) => void;
+}
+
+const SOPQuizEditor: React.FC<SOPQuizEditorProps> = ({ quiz, onChange }) => {
+  const questions = quiz?.questions || [];
+  const passThreshold = quiz?.passThreshold ?? DEFAULT_PASS_THRESHOLD;
+
+  // Removing the last question removes the quiz entirely
+  const setQuestions = (next: SOPQuizQuestion[]) => {
+    onChange(next.length > 0 ? { questions: next, passThreshold } : undefined);
+  };
+
+  const updateQuestion = (index: number, changes: Partial<SOPQuizQuestion>) => {
+    setQuestions(questions.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+  };
+
+  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
+    const question = questions[questionIndex];
+    updateQuestion(questionIndex, {
+      options: question.options.map((option, i) => (i === optionIndex ? value : option)),
+    });
+  };
+
+  const addOption = (questionIndex: number) => {
+    const question = questions[questionIndex];
+    updateQuestion(questionIndex, { options: [...question.options, ''] });
+  };
+
+  const removeOption = (questionIndex: number, optionIndex: number) => {
+    const question = questions[questionIndex];
+    const options = question.options.filter((_, i) => i !== optionIndex);
+    let correctOptionIndex = question.correctOptionIndex;
+    if (optionIndex === correctOptionIndex) correctOptionIndex = 0;
+    else if (optionIndex < correctOptionIndex) correctOptionIndex -= 1;
+    updateQuestion(questionIndex, { options, correctOptionIndex });
+  };
+
+  return (
+    <div style={styles.container}>
+      {questions.length === 0 ? (
+        <p style={styles.empty}>
+          No quiz yet. Add questions to require team members to pass a knowledge check after reading this SOP.
+        </p>
+      ) : (
+        <Input
+          type="number"
+          label="Pass threshold (%)"
+          min={1}
+          max={100}
+          value={passThreshold}
+          onChange={(e) => onChange({ questions, passThreshold: Number(e.target.value) || 0 })}
+          helperText="Minimum score needed to be certified on this SOP"
+          style={{ maxWidth: '200px' }}
+        />
+      )}
+
+      {questions.map((question, index) => (
+        <div key={question.id} style={styles.questionCard}>
+          <div style={styles.questionHeader}>
+            <span style={styles.questionNumber}>
+              Question {index + 1} · {question.type === 'true_false' ? 'True / False' : 'Multiple Choice'}
+            </span>
+            <IconButton
+              type="button"
+              size="sm"
+              aria-label="Remove question"
+              onClick={() => setQuestions(questions.filter((_, i) => i !== index))}
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <line x1="18" y1="6" x2="6" y2="18" />
+                <line x1="6" y1="6" x2="18" y2="18" />
+              </svg>
+            </IconButton>
+          </div>
+
+          <Input
+            label="Question"
+            value={question.prompt}
+            onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+            placeholder="e.g., Which battery should be inserted first?"
+          />
+
+          <div style={styles.optionsLabel}>Answers (select the correct one)</div>
+          {question.options.map((option, optionIndex) => (
+            <div key={optionIndex} style={styles.optionRow}>
+              <input
+                type="radio"
+                name={`correct_${question.id}`}
+                checked={question.correctOptionIndex === optionIndex}
+                onChange={() => updateQuestion(index, { correctOptionIndex: optionIndex })}
+                style={styles.radio}
+              />
+              {question.type === 'true_false' ? (
+                <span style={styles.fixedOption}>{option}</span>
+              ) : (
+                <>
+                  <Input
+                    value={option}
+                    onChange={(e) => updateOption(index, optionIndex, e.target.value)}
+                    placeholder={`Answer ${optionIndex + 1}`}
+                  />
+                  {question.options.length > 2 && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => removeOption(index, optionIndex)}>
+                      Remove
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+          {question.type === 'multiple_choice' && (
+            <div>
+              <Button type="button" variant="ghost" size="sm" onClick={() => addOption(index)}>
+                + Add Answer
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div style={styles.addRow}>
+        <Button type="button" variant="outline" size="sm" onClick={() => setQuestions([...questions, createQuizQuestion('multiple_choice')])}>
+          + Multiple Choice
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => setQuestions([...questions, createQuizQuestion('true_false')])}>
+          + True / False
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+  },
+  empty: {
+    fontSize: '14px',
+    color: theme.colors.textMuted,
+    margin: 0,
+  },
+  questionCard: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    backgroundColor: theme.colors.background,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+    padding: '16px',
+  },
+  questionHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  questionNumber: {
+    fontSize: '14px',
+    fontWeight: '700',
+    color: theme.colors.primary,
+  },
+  optionsLabel: {
+    fontSize: '13px',
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+  },
+  optionRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+  },
+  radio: {
+    width: '18px',
+    height: '18px',
+    flexShrink: 0,
+    accentColor: theme.colors.primary,
+    cursor: 'pointer',
+  },
+  fixedOption: {
+    fontSize: '14px',
+    color: theme.colors.textPrimary,
+  },
+  addRow: {
+    display: 'flex',
+    gap: '12px',
+    flexWrap: 'wrap',
+  },
+};
+
+export default SOPQuizEditor;
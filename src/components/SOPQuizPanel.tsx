@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { SOP, SOPQuizAttempt } from '../types';
+import { theme } from '../theme';
+import { useQuizzes } from '../contexts/QuizContext';
+import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import { getCertification, hasQuiz } from '../utils/sopQuiz';
+import { Badge, Button } from './ui';
+
+interface SOPQuizPanelProps {
+  sop: SOP;
+}
+
+const SOPQuizPanel: React.FC<SOPQuizPanelProps> = ({ sop }) => {
+  const { currentUser } = useAuth();
+  const { attempts, submitQuizAttempt } = useQuizzes();
+  const { error: showError } = useToast();
+  const [taking, setTaking] = useState(false);
+  const [answers, setAnswers] = useState<number[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<SOPQuizAttempt | null>(null);
+
+  if (!sop.quiz || !hasQuiz(sop) || sop.status !== 'published' || !currentUser) return null;
+
+  const quiz = sop.quiz;
+  const certification = getCertification(sop, currentUser.id, attempts);
+  const allAnswered = quiz.questions.every((_, index) => answers[index] !== undefined && answers[index] >= 0);
+
+  const startQuiz = () => {
+    setAnswers(quiz.questions.map(() => -1));
+    setResult(null);
+    setTaking(true);
+  };
+
+  const selectAnswer = (questionIndex: number, optionIndex: number) => {
+    setAnswers(prev => prev.map((answer, i) => (i === questionIndex ? optionIndex : answer)));
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const attempt = await submitQuizAttempt(sop, answers);
+      setResult(attempt);
+      setTaking(false);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to submit quiz');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <div style={styles.headerLeft}>
+          <h3 style={styles.title}>Knowledge Check</h3>
+          {certification.status === 'certified' && <Badge variant="success" size="sm">Certified</Badge>}
+          {certification.status === 'failed' && <Badge variant="warning" size="sm">Not passed yet</Badge>}
+        </div>
+        <span style={styles.meta}>
+          {quiz.questions.length} question{quiz.questions.length === 1 ? '' : 's'} · pass at {quiz.passThreshold}%
+          {certification.bestScore !== undefined && ` · best score ${certification.bestScore}%`}
+        </span>
+      </div>
+
+      {result && (
+        <div style={result.passed ? styles.resultPassed : styles.resultFailed}>
+          {result.passed
+            ? `You scored ${result.score}% and passed. You're certified on this SOP.`
+            : `You scored ${result.score}%. You need ${result.passThreshold}% to pass — review the steps above and try again.`}
+        </div>
+      )}
+
+      {taking ? (
+        <div style={styles.questions}>
+          {quiz.questions.map((question, questionIndex) => (
+            <div key={question.id} style={styles.question}>
+              <div style={styles.prompt}>
+                {questionIndex + 1}. {question.prompt}
+              </div>
+              {question.options.map((option, optionIndex) => (
+                <label key={optionIndex} style={styles.option}>
+                  <input
+                    type="radio"
+                    name={`answer_${question.id}`}
+                    checked={answers[questionIndex] === optionIndex}
+                    onChange={() => selectAnswer(questionIndex, optionIndex)}
+                    style={styles.radio}
+                  />
+                  {option}
+                </label>
+              ))}
+            </div>
+          ))}
+          <div style={styles.buttonRow}>
+            <Button variant="ghost" onClick={() => setTaking(false)}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleSubmit} loading={submitting} disabled={!allAnswered}>
+              Submit Answers
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div style={styles.buttonRow}>
+          <Button variant={certification.status === 'certified' ? 'outline' : 'primary'} onClick={startQuiz}>
+            {certification.status === 'not_attempted' ? 'Take Quiz' : 'Retake Quiz'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+    padding: '20px',
+    backgroundColor: theme.colors.cardBackground,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.lg,
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '12px',
+    flexWrap: 'wrap',
+  },
+  headerLeft: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+  },
+  title: {
+    fontSize: '16px',
+    fontWeight: '700',
+    color: theme.colors.textPrimary,
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+    margin: 0,
+  },
+  meta: {
+    fontSize: '13px',
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  resultPassed: {
+    padding: '12px 16px',
+    fontSize: '14px',
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+    border: `2px solid ${theme.colors.status.success}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  resultFailed: {
+    padding: '12px 16px',
+    fontSize: '14px',
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+    border: `2px solid ${theme.colors.status.warning}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  questions: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+  },
+  question: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    padding: '16px',
+    backgroundColor: theme.colors.background,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  prompt: {
+    fontSize: '15px',
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+    marginBottom: '4px',
+  },
+  option: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    fontSize: '14px',
+    color: theme.colors.textSecondary,
+    cursor: 'pointer',
+  },
+  radio: {
+    width: '18px',
+    height: '18px',
+    accentColor: theme.colors.primary,
+    cursor: 'pointer',
+  },
+  buttonRow: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '12px',
+    flexWrap: 'wrap',
+  },
+};
+
+export default SOPQuizPanel;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { SOP, SOPReviewDecisionType } from '../types';
+import { theme } from '../theme';
+import { useAuth } from '../contexts/AuthContext';
+import { useSOPs } from '../contexts/SOPContext';
+import { useToast } from '../contexts/ToastContext';
+import { countApprovals, getLatestDecisions, isAwaitingReviewFrom } from '../utils/sopReview';
+import SOPSubmitReviewModal from './SOPSubmitReviewModal';
+import { Badge, Button, Textarea } from './ui';
+
+interface SOPReviewPanelProps {
+  sop: SOP;
+}
+
+const STATUS_LABELS: Record<SOP['status'], { label: string; variant: 'success' | 'warning' | 'info' | 'default' }> = {
+  draft: { label: 'Draft', variant: 'warning' },
+  in_review: { label: 'In Review', variant: 'info' },
+  published: { label: 'Published', variant: 'success' },
+  archived: { label: 'Archived', variant: 'default' },
+};
+
+const SOPReviewPanel: React.FC<SOPReviewPanelProps> = ({ sop }) => {
+  const { currentUser, isAdmin, getUserById } = useAuth();
+  const { reviewSOP } = useSOPs();
+  const { success, error: showError } = useToast();
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [showSubmitModal, setShowSubmitModal] = useState(false);
+
+  if (sop.isTemplate) return null;
+
+  const review = sop.review;
+  const decisions = getLatestDecisions(sop);
+  const canReview = !!currentUser && isAwaitingReviewFrom(sop, currentUser.id);
+  const canSubmit = isAdmin && sop.status === 'draft';
+
+  // Nothing to show for SOPs that have never entered the workflow
+  if (!review && !canSubmit) return null;
+
+  const handleDecision = async (decision: SOPReviewDecisionType) => {
+    setSubmitting(true);
+    try {
+      await reviewSOP(sop.id, decision, comment);
+      setComment('');
+      success(decision === 'approved' ? 'Approval recorded' : 'Changes requested');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to record review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const statusInfo = STATUS_LABELS[sop.status];
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <div style={styles.headerLeft}>
+          <h3 style={styles.title}>Review</h3>
+          <Badge variant={statusInfo.variant} size="sm">{statusInfo.label}</Badge>
+        </div>
+        {review && (
+          <span style={styles.progress}>
+            {countApprovals(sop)} / {review.requiredApprovals} approvals
+          </span>
+        )}
+      </div>
+
+      {review && (
+        <div style={styles.reviewerList}>
+          {review.reviewers.map(reviewerId => {
+            const reviewer = getUserById(reviewerId);
+            const decision = decisions.find(d => d.reviewerId === reviewerId);
+            return (
+              <div key={reviewerId} style={styles.reviewerRow}>
+                <div style={styles.reviewerName}>
+                  {reviewer ? `${reviewer.firstName} ${reviewer.lastName}` : decision?.reviewerName || 'Unknown reviewer'}
+                </div>
+                {decision ? (
+                  <Badge variant={decision.decision === 'approved' ? 'success' : 'warning'} size="sm">
+                    {decision.decision === 'approved' ? 'Approved' : 'Changes requested'}
+                  </Badge>
+                ) : (
+                  <Badge size="sm">Pending</Badge>
+                )}
+                {decision?.comment && <div style={styles.comment}>"{decision.comment}"</div>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canReview && (
+        <div style={styles.actions}>
+          <Textarea
+            placeholder="Comments for the author (required when requesting changes)"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            style={{ minHeight: '80px' }}
+          />
+          <div style={styles.buttonRow}>
+            <Button variant="outline" onClick={() => handleDecision('changes_requested')} loading={submitting}>
+              Request Changes
+            </Button>
+            <Button variant="success" onClick={() => handleDecision('approved')} loading={submitting}>
+              Approve
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {canSubmit && (
+        <div style={styles.buttonRow}>
+          <Button variant="primary" onClick={() => setShowSubmitModal(true)}>
+            {review ? 'Resubmit for Review' : 'Submit for Review'}
+          </Button>
+        </div>
+      )}
+
+      {showSubmitModal && (
+        <SOPSubmitReviewModal sop={sop} isOpen={showSubmitModal} onClose={() => setShowSubmitModal(false)} />
+      )}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+    padding: '20px',
+    marginBottom: '24px',
+    backgroundColor: theme.colors.cardBackground,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.lg,
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '12px',
+    flexWrap: 'wrap',
+  },
+  headerLeft: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+  },
+  title: {
+    fontSize: '16px',
+    fontWeight: '700',
+    color: theme.colors.textPrimary,
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+    margin: 0,
+  },
+  progress: {
+    fontSize: '13px',
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+  },
+  reviewerList: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  reviewerRow: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: '8px 12px',
+    padding: '10px 12px',
+    backgroundColor: theme.colors.background,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  reviewerName: {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+  },
+  comment: {
+    flexBasis: '100%',
+    fontSize: '13px',
+    color: theme.colors.textSecondary,
+    fontStyle: 'italic',
+    whiteSpace: 'pre-wrap',
+  },
+  actions: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  buttonRow: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '12px',
+    flexWrap: 'wrap',
+  },
+};
+
+export default SOPReviewPanel;
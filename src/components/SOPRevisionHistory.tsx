@@ -0,0 +1,380 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { theme } from '../theme';
+import { SOP, SOPRevision } from '../types';
+import { useSOPs } from '../contexts/SOPContext';
+import { useToast } from '../contexts/ToastContext';
+import { useConfirm } from '../hooks/useConfirm';
+import { useResponsive } from '../hooks/useResponsive';
+import { diffRevisions, StepDiff, DiffStatus } from '../utils/sopDiff';
+
+interface SOPRevisionHistoryProps {
+  sop: SOP;
+  canRestore: boolean;
+}
+
+const STATUS_COLORS: Record<DiffStatus, string> = {
+  unchanged: 'transparent',
+  changed: theme.colors.status.warning,
+  added: theme.colors.status.success,
+  removed: theme.colors.status.error,
+};
+
+const formatRevisionDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const SOPRevisionHistory: React.FC<SOPRevisionHistoryProps> = ({ sop, canRestore }) => {
+  const { getSOPRevisions, restoreSOPRevision } = useSOPs();
+  const { success, error: showError } = useToast();
+  const { confirm, confirmDialog } = useConfirm();
+  const { isMobileOrTablet } = useResponsive();
+  const [revisions, setRevisions] = useState<SOPRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  // IDs of the two revisions being compared: [older, newer]
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await getSOPRevisions(sop.id);
+      setRevisions(data);
+      // Default comparison: latest version against the one before it
+      if (data.length >= 2) {
+        setCompareIds([data[1].id, data[0].id]);
+      } else {
+        setCompareIds([]);
+      }
+    } catch (err) {
+      showError('Failed to load version history');
+    } finally {
+      setLoading(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sop.id, sop.updatedAt]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const toggleCompare = (id: string) => {
+    if (compareIds.includes(id)) {
+      setCompareIds(compareIds.filter(existing => existing !== id));
+      return;
+    }
+    // Keep at most two selected; drop the oldest selection
+    const next = [...compareIds, id].slice(-2);
+    setCompareIds(next);
+  };
+
+  const handleRestore = async (revision: SOPRevision) => {
+    const confirmed = await confirm({
+      title: `Restore version ${revision.revisionNumber}?`,
+      message: 'The current content will be replaced. Nothing is lost: the current version stays in the history.',
+      confirmLabel: 'Restore',
+      variant: 'warning',
+    });
+    if (!confirmed) return;
+
+    try {
+      await restoreSOPRevision(sop.id, revision);
+      success(`Restored version ${revision.revisionNumber}`);
+    } catch (err) {
+      showError('Failed to restore this version');
+    }
+  };
+
+  const selected = revisions
+    .filter(r => compareIds.includes(r.id))
+    .sort((a, b) => a.revisionNumber - b.revisionNumber);
+  const diff = selected.length === 2 ? diffRevisions(selected[0], selected[1]) : null;
+
+  const renderStepCell = (diffRow: StepDiff, side: 'before' | 'after') => {
+    const step = side === 'before' ? diffRow.before : diffRow.after;
+    if (!step) {
+      return <div style={styles.emptyCell}>—</div>;
+    }
+    const highlight = diffRow.status === 'changed' ? diffRow.changedFields : [];
+    return (
+      <div style={styles.stepCell}>
+        <div
+          style={{
+            ...styles.stepCellTitle,
+            ...(highlight.includes('title') ? styles.highlight : {}),
+          }}
+        >
+          {step.order}. {step.title}
+        </div>
+        <div
+          style={{
+            ...styles.stepCellDescription,
+            ...(highlight.includes('description') ? styles.highlight : {}),
+          }}
+        >
+          {step.description}
+        </div>
+        {step.imageUrl && (
+          <img
+            src={step.imageUrl}
+            alt={step.title}
+            style={{
+              ...styles.stepCellImage,
+              ...(highlight.includes('imageUrl') ? { outline: `2px solid ${STATUS_COLORS.changed}` } : {}),
+            }}
+          />
+        )}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return <div style={styles.emptyText}>Loading version history...</div>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div style={styles.emptyText}>
+        No versions recorded yet. A version is saved every time this SOP is edited.
+      </div>
+    );
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.revisionList}>
+        {revisions.map((revision, index) => (
+          <div
+            key={revision.id}
+            style={{
+              ...(isMobileOrTablet ? styles.revisionRowMobile : styles.revisionRow),
+              ...(compareIds.includes(revision.id) ? styles.revisionRowSelected : {}),
+            }}
+          >
+            <label style={styles.revisionLabel}>
+              <input
+                type="checkbox"
+                checked={compareIds.includes(revision.id)}
+                onChange={() => toggleCompare(revision.id)}
+              />
+              <span style={styles.revisionNumber}>v{revision.revisionNumber}</span>
+              {index === 0 && <span style={styles.currentBadge}>Current</span>}
+            </label>
+            <div style={styles.revisionMeta}>
+              <div style={styles.revisionTitle}>{revision.title}</div>
+              <div style={styles.revisionSubtext}>
+                {revision.authorName} · {formatRevisionDate(revision.createdAt)} · {revision.steps.length} steps
+                {revision.note && ` · ${revision.note}`}
+              </div>
+            </div>
+            {canRestore && index > 0 && (
+              <button onClick={() => handleRestore(revision)} style={styles.restoreButton}>
+                Restore this version
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {diff ? (
+        <div style={styles.diffContainer}>
+          <h3 style={styles.diffTitle}>
+            Comparing v{selected[0].revisionNumber} → v{selected[1].revisionNumber}
+          </h3>
+
+          {diff.fields.map(field => (
+            <div key={field.field} style={isMobileOrTablet ? styles.diffRowMobile : styles.diffRow}>
+              <div style={styles.fieldName}>{field.field}</div>
+              <div style={{ ...styles.fieldValue, ...styles.removedText }}>{field.before || '—'}</div>
+              <div style={{ ...styles.fieldValue, ...styles.addedText }}>{field.after || '—'}</div>
+            </div>
+          ))}
+
+          {diff.steps.map((row, index) => (
+            <div
+              key={`${row.before?.id || row.after?.id}_${index}`}
+              style={{
+                ...(isMobileOrTablet ? styles.diffRowMobile : styles.diffRow),
+                borderLeft: `4px solid ${STATUS_COLORS[row.status]}`,
+              }}
+            >
+              <div style={styles.fieldName}>{row.status}</div>
+              {renderStepCell(row, 'before')}
+              {renderStepCell(row, 'after')}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div style={styles.emptyText}>Select two versions to compare them side by side.</div>
+      )}
+      {confirmDialog}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '24px',
+  },
+  revisionList: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  revisionRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '16px',
+    padding: '12px 16px',
+    backgroundColor: theme.colors.background,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  revisionRowMobile: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '10px',
+    backgroundColor: theme.colors.background,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  revisionRowSelected: {
+    borderColor: theme.colors.primary,
+  },
+  revisionLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    cursor: 'pointer',
+    flexShrink: 0,
+  },
+  revisionNumber: {
+    fontSize: '14px',
+    fontWeight: '700',
+    color: theme.colors.textPrimary,
+  },
+  currentBadge: {
+    fontSize: '11px',
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    padding: '2px 8px',
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: 'rgba(16, 185, 129, 0.15)',
+    color: theme.colors.status.success,
+  },
+  revisionMeta: {
+    flex: 1,
+    minWidth: 0,
+  },
+  revisionTitle: {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: theme.colors.textPrimary,
+  },
+  revisionSubtext: {
+    fontSize: '12px',
+    color: theme.colors.textMuted,
+    marginTop: '2px',
+  },
+  restoreButton: {
+    padding: '8px 14px',
+    fontSize: '13px',
+    fontWeight: '600',
+    backgroundColor: 'transparent',
+    color: theme.colors.textSecondary,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  diffContainer: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  diffTitle: {
+    fontSize: '16px',
+    fontWeight: '700',
+    color: theme.colors.textPrimary,
+    margin: '0 0 8px 0',
+  },
+  diffRow: {
+    display: 'grid',
+    gridTemplateColumns: '100px 1fr 1fr',
+    gap: '16px',
+    padding: '12px',
+    backgroundColor: theme.colors.background,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  diffRowMobile: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    padding: '10px',
+    backgroundColor: theme.colors.background,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  fieldName: {
+    fontSize: '12px',
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+    color: theme.colors.textMuted,
+  },
+  fieldValue: {
+    fontSize: '14px',
+    whiteSpace: 'pre-wrap',
+  },
+  removedText: {
+    color: theme.colors.status.error,
+    textDecoration: 'line-through',
+  },
+  addedText: {
+    color: theme.colors.status.success,
+  },
+  stepCell: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+  },
+  stepCellTitle: {
+    fontSize: '14px',
+    fontWeight: '700',
+    color: theme.colors.textPrimary,
+  },
+  stepCellDescription: {
+    fontSize: '13px',
+    color: theme.colors.textSecondary,
+    lineHeight: '1.6',
+    whiteSpace: 'pre-wrap',
+  },
+  stepCellImage: {
+    maxWidth: '160px',
+    borderRadius: theme.borderRadius.sm,
+    marginTop: '4px',
+  },
+  highlight: {
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+    borderRadius: theme.borderRadius.sm,
+  },
+  emptyCell: {
+    fontSize: '14px',
+    color: theme.colors.textMuted,
+  },
+  emptyText: {
+    fontSize: '14px',
+    color: theme.colors.textMuted,
+    padding: '12px 0',
+  },
+};
+
+export default SOPRevisionHistory;
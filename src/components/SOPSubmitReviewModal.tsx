@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { SOP } from '../types';
+import { theme } from '../theme';
+import { useAuth } from '../contexts/AuthContext';
+import { useSOPs } from '../contexts/SOPContext';
+import { useToast } from '../contexts/ToastContext';
+import { CustomCheckbox } from './CustomCheckbox';
+import { Modal, Button, Input } from './ui';
+
+interface SOPSubmitReviewModalProps {
+  sop: SOP;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SOPSubmitReviewModal: React.FC<SOPSubmitReviewModalProps> = ({ sop, isOpen, onClose }) => {
+  const { users, currentUser } = useAuth();
+  const { submitSOPForReview } = useSOPs();
+  const { success, error: showError } = useToast();
+  // Pre-select whoever reviewed the previous round
+  const [reviewers, setReviewers] = useState<string[]>(sop.review?.reviewers || []);
+  const [requiredApprovals, setRequiredApprovals] = useState(sop.review?.requiredApprovals || 1);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Authors can't review their own submission
+  const candidates = users.filter(u => u.isActive && u.id !== currentUser?.id);
+
+  const toggleReviewer = (id: string) => {
+    setReviewers(prev =>
+      prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id]
+    );
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await submitSOPForReview(sop.id, reviewers, requiredApprovals);
+      success('SOP submitted for review');
+      onClose();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to submit for review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Submit for Review"
+      footer={
+        <div style={styles.footer}>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSubmit}
+            loading={submitting}
+            disabled={reviewers.length === 0}
+          >
+            Submit
+          </Button>
+        </div>
+      }
+    >
+      <div style={styles.content}>
+        <p style={styles.description}>
+          "{sop.title}" will be published once the required number of reviewers approve it.
+        </p>
+
+        <div style={styles.label}>Reviewers</div>
+        <div style={styles.reviewerList}>
+          {candidates.length === 0 && (
+            <div style={styles.empty}>No other active team members to review this SOP.</div>
+          )}
+          {candidates.map(user => (
+            <CustomCheckbox
+              key={user.id}
+              checked={reviewers.includes(user.id)}
+              onChange={() => toggleReviewer(user.id)}
+              label={`${user.firstName} ${user.lastName} · ${user.department}`}
+            />
+          ))}
+        </div>
+
+        <Input
+          type="number"
+          label="Required approvals"
+          min={1}
+          max={Math.max(1, reviewers.length)}
+          value={requiredApprovals}
+          onChange={(e) => setRequiredApprovals(Number(e.target.value) || 1)}
+          helperText={`Out of ${reviewers.length} selected reviewer${reviewers.length === 1 ? '' : 's'}`}
+        />
+      </div>
+    </Modal>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  content: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '16px',
+  },
+  description: {
+    fontSize: '14px',
+    color: theme.colors.txt.secondary,
+    margin: 0,
+  },
+  label: {
+    fontSize: '14px',
+    fontWeight: 500,
+    color: theme.colors.txt.primary,
+  },
+  reviewerList: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    maxHeight: '260px',
+    overflowY: 'auto',
+  },
+  empty: {
+    fontSize: '14px',
+    color: theme.colors.txt.tertiary,
+  },
+  footer: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: '12px',
+    width: '100%',
+  },
+};
+
+export default SOPSubmitReviewModal;
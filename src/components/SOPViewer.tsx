@@ -3,6 +3,12 @@ import { theme } from '../theme';
 import { SOP } from '../types';
 import { useResponsive } from '../hooks/useResponsive';
 import { CustomCheckbox } from './CustomCheckbox';
+import SOPRevisionHistory from './SOPRevisionHistory';
+import SOPReviewPanel from './SOPReviewPanel';
+import SOPAcknowledgementPanel from './SOPAcknowledgementPanel';
+import SOPQuizPanel from './SOPQuizPanel';
+import { useSOPs } from '../contexts/SOPContext';
+import { useAuth } from '../contexts/AuthContext';
 
 interface SOPViewerProps {
   sop: SOP;
@@ -10,12 +16,18 @@ interface SOPViewerProps {
   embedded?: boolean; // When true, shows compact version for job detail page
 }
 
-const SOPViewer: React.FC<SOPViewerProps> = ({ sop, onClose, embedded = false }) => {
+const SOPViewer: React.FC<SOPViewerProps> = ({ sop: sopProp, onClose, embedded = false }) => {
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [completedSteps, setCompletedSteps] = useState<Set<number>>(new Set());
+  const [showHistory, setShowHistory] = useState(false);
   const { isMobileOrTablet } = useResponsive();
+  const { getSOPById } = useSOPs();
+  const { hasPermission } = useAuth();
 
-  const currentStep = sop.steps[currentStepIndex];
+  // Prefer the live copy so restores and edits show up without reopening
+  const sop = getSOPById(sopProp.id) || sopProp;
+
+  const currentStep = sop.steps[Math.min(currentStepIndex, sop.steps.length - 1)];
 
   const toggleStepComplete = (index: number) => {
     const newCompleted = new Set(completedSteps);
@@ -90,7 +102,22 @@ const SOPViewer: React.FC<SOPViewerProps> = ({ sop, onClose, embedded = false })
           </svg>
           {!isMobileOrTablet && 'Back'}
         </button>
-        <div style={isMobileOrTablet ? styles.categoryMobile : styles.category}>{sop.category}</div>
+        <div style={styles.topBarRight}>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            style={{
+              ...(isMobileOrTablet ? styles.historyButtonMobile : styles.historyButton),
+              ...(showHistory ? styles.historyButtonActive : {}),
+            }}
+          >
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="10" />
+              <polyline points="12 6 12 12 16 14" />
+            </svg>
+            {!isMobileOrTablet && 'Version History'}
+          </button>
+          <div style={isMobileOrTablet ? styles.categoryMobile : styles.category}>{sop.category}</div>
+        </div>
       </div>
 
       <div style={isMobileOrTablet ? styles.headerMobile : styles.header}>
@@ -114,6 +141,17 @@ const SOPViewer: React.FC<SOPViewerProps> = ({ sop, onClose, embedded = false })
         )}
       </div>
 
+      <div style={isMobileOrTablet ? styles.reviewPanelMobile : undefined}>
+        <SOPReviewPanel sop={sop} />
+        <SOPAcknowledgementPanel sop={sop} />
+      </div>
+
+      {showHistory && (
+        <div style={isMobileOrTablet ? styles.historyPanelMobile : styles.historyPanel}>
+          <h3 style={styles.sidebarTitle}>Version History</h3>
+          <SOPRevisionHistory sop={sop} canRestore={hasPermission('manage_sops', sop.department)} />
+        </div>
+      )}
 
       <div style={isMobileOrTablet ? styles.contentMobile : styles.content}>
         {!isMobileOrTablet && (
@@ -213,6 +251,10 @@ const SOPViewer: React.FC<SOPViewerProps> = ({ sop, onClose, embedded = false })
           </div>
         </div>
       </div>
+
+      <div style={isMobileOrTablet ? styles.quizPanelMobile : styles.quizPanel}>
+        <SOPQuizPanel sop={sop} />
+      </div>
     </div>
   );
 };
@@ -254,6 +296,64 @@ const styles: { [key: string]: React.CSSProperties } = {
     top: 0,
     zIndex: 10,
   },
+  topBarRight: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+  },
+  historyButton: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '10px 16px',
+    backgroundColor: 'transparent',
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+    color: theme.colors.textSecondary,
+    fontSize: '14px',
+    fontWeight: '600',
+    cursor: 'pointer',
+    transition: 'all 0.2s',
+  },
+  historyButtonMobile: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minWidth: '44px',
+    minHeight: '44px',
+    padding: '10px',
+    backgroundColor: 'transparent',
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.md,
+    color: theme.colors.textSecondary,
+    cursor: 'pointer',
+    transition: 'all 0.2s',
+  },
+  historyButtonActive: {
+    borderColor: theme.colors.primary,
+    color: theme.colors.primary,
+  },
+  reviewPanelMobile: {
+    padding: '0 16px',
+  },
+  quizPanel: {
+    marginTop: '32px',
+  },
+  quizPanelMobile: {
+    padding: '16px',
+  },
+  historyPanel: {
+    backgroundColor: theme.colors.cardBackground,
+    border: `2px solid ${theme.colors.border}`,
+    borderRadius: theme.borderRadius.lg,
+    padding: '24px',
+    marginBottom: '32px',
+  },
+  historyPanelMobile: {
+    backgroundColor: theme.colors.cardBackground,
+    borderTop: `2px solid ${theme.colors.border}`,
+    padding: '16px',
+  },
   backButton: {
     display: 'flex',
     alignItems: 'center',
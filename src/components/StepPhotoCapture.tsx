@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import { theme } from '../theme';
+import { useAttachmentUrl } from '../hooks/useAttachmentUrl';
+
+interface StepPhotoCaptureProps {
+  photoUrl?: string;
+  disabled?: boolean;
+  onCapture: (file: File) => Promise<void>; // Reports its own errors
+}
+
+/**
+ * Photo button for a step: opens the camera on phones (the file picker
+ * elsewhere) and shows the attached photo with a way to retake it. Sits inside
+ * clickable step rows, so its clicks don't reach the row.
+ */
+const StepPhotoCapture: React.FC<StepPhotoCaptureProps> = ({ photoUrl, disabled = false, onCapture }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const photoSrc = useAttachmentUrl(photoUrl);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      await onCapture(file);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const openPicker = (e: React.MouseEvent) => {
+    e.preventDefault();
+    inputRef.current?.click();
+  };
+
+  return (
+    <span style={styles.container} onClick={(e) => e.stopPropagation()}>
+      {photoSrc && (
+        <a href={photoSrc} target="_blank" rel="noopener noreferrer" title="Open photo">
+          <img src={photoSrc} alt="Step evidence" style={styles.thumbnail} />
+        </a>
+      )}
+      <button
+        type="button"
+        onClick={openPicker}
+        disabled={disabled || uploading}
+        style={{ ...styles.button, ...(disabled || uploading ? styles.buttonDisabled : {}) }}
+      >
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z" />
+          <circle cx="12" cy="13" r="4" />
+        </svg>
+        {uploading ? 'Uploading...' : photoUrl ? 'Retake' : 'Take Photo'}
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handleChange}
+        style={{ display: 'none' }}
+      />
+    </span>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '8px',
+    marginTop: '4px',
+  },
+  thumbnail: {
+    width: '48px',
+    height: '48px',
+    objectFit: 'cover',
+    borderRadius: theme.borderRadius.sm,
+    border: `1px solid ${theme.colors.border}`,
+    display: 'block',
+  },
+  button: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 12px',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: theme.colors.status.info,
+    backgroundColor: 'transparent',
+    border: `1px solid ${theme.colors.status.info}`,
+    borderRadius: theme.borderRadius.md,
+    cursor: 'pointer',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+    cursor: 'not-allowed',
+  },
+};
+
+export default StepPhotoCapture;
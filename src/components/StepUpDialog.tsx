@@ -0,0 +1,198 @@
+/**
+ * Step-Up Dialog
+ * Asks for a code from the authenticator app before a sensitive action.
+ * Opened through useStepUp.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { theme } from '../theme';
+import { useResponsive } from '../hooks/useResponsive';
+import { useAuth } from '../contexts/AuthContext';
+
+interface StepUpDialogProps {
+  isOpen: boolean;
+  action: string;
+  onVerified: () => void;
+  onClose: () => void;
+}
+
+const StepUpDialog: React.FC<StepUpDialogProps> = ({ isOpen, action, onVerified, onClose }) => {
+  const { verifyMfa } = useAuth();
+  const { isMobileOrTablet } = useResponsive();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCode('');
+    setError('');
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.body.style.overflow = 'hidden';
+    setTimeout(() => inputRef.current?.focus(), 100);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = '';
+    };
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setVerifying(true);
+    try {
+      await verifyMfa(code);
+      onVerified();
+    } catch {
+      setError('That code did not work. Check your authenticator app and try again.');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div style={styles.overlay} onClick={onClose}>
+      <form
+        style={isMobileOrTablet ? styles.dialogMobile : styles.dialog}
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="step-up-title"
+      >
+        <h2 id="step-up-title" style={styles.title}>Confirm it's you</h2>
+        <p style={styles.message}>Enter the 6-digit code from your authenticator app to {action}.</p>
+
+        <input
+          ref={inputRef}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={8}
+          placeholder="123456"
+          style={styles.input}
+          disabled={verifying}
+        />
+        {error && <p style={styles.error}>{error}</p>}
+
+        <div style={styles.actions}>
+          <button type="button" onClick={onClose} style={styles.cancelButton} disabled={verifying}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            style={{ ...styles.confirmButton, opacity: verifying || code.trim().length < 6 ? 0.6 : 1 }}
+            disabled={verifying || code.trim().length < 6}
+          >
+            {verifying ? 'Checking...' : 'Confirm'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  overlay: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    backdropFilter: 'blur(4px)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 9999,
+    padding: theme.spacing.lg,
+  },
+  dialog: {
+    backgroundColor: theme.colors.bg.secondary,
+    borderRadius: theme.borderRadius.lg,
+    border: `2px solid ${theme.colors.bdr.primary}`,
+    padding: '32px',
+    maxWidth: '420px',
+    width: '100%',
+    textAlign: 'center',
+  },
+  dialogMobile: {
+    backgroundColor: theme.colors.bg.secondary,
+    borderRadius: theme.borderRadius.md,
+    border: `2px solid ${theme.colors.bdr.primary}`,
+    padding: '24px',
+    maxWidth: '100%',
+    width: '100%',
+    textAlign: 'center',
+  },
+  title: {
+    ...theme.typography.h3,
+    color: theme.colors.txt.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  message: {
+    ...theme.typography.body,
+    color: theme.colors.txt.secondary,
+    marginBottom: theme.spacing.lg,
+    lineHeight: 1.6,
+  },
+  input: {
+    width: '100%',
+    padding: theme.spacing.md,
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    color: theme.colors.txt.primary,
+    fontSize: '22px',
+    letterSpacing: '6px',
+    textAlign: 'center',
+    outline: 'none',
+    boxSizing: 'border-box',
+  },
+  error: {
+    fontSize: '14px',
+    color: theme.colors.status.error,
+    margin: `${theme.spacing.sm} 0 0`,
+  },
+  actions: {
+    display: 'flex',
+    gap: theme.spacing.md,
+    marginTop: theme.spacing.xl,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: '12px 20px',
+    backgroundColor: 'transparent',
+    color: theme.colors.txt.primary,
+    border: `2px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    fontSize: '15px',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  confirmButton: {
+    flex: 1,
+    padding: '12px 20px',
+    backgroundColor: theme.colors.primary,
+    color: '#FFFFFF',
+    border: 'none',
+    borderRadius: theme.borderRadius.md,
+    fontSize: '15px',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+};
+
+export default StepUpDialog;
@@ -0,0 +1,140 @@
+import React from 'react';
+import { TaskStatus } from '../types';
+import { theme } from '../theme';
+import { DependencyNode, getDependencyStages } from '../utils/taskDependencies';
+
+interface TaskDependencyGraphProps {
+  tasks: DependencyNode[];
+  highlightId?: string; // Task to emphasise, e.g. the one open in a modal
+  onTaskClick?: (taskId: string) => void;
+}
+
+const STATUS_COLORS: Partial<Record<TaskStatus, string>> = {
+  pending: theme.colors.status.pending,
+  blocked: theme.colors.status.blocked,
+  'in-progress': theme.colors.status.inProgress,
+  completed: theme.colors.status.completed,
+  overdue: theme.colors.status.overdue,
+  skipped: theme.colors.status.archived,
+  archived: theme.colors.status.archived,
+};
+
+const STATUS_LABELS: Partial<Record<TaskStatus, string>> = {
+  pending: 'Ready',
+  blocked: 'Blocked',
+  'in-progress': 'In Progress',
+  completed: 'Done',
+  overdue: 'Overdue',
+  skipped: 'Skipped',
+  archived: 'Archived',
+};
+
+/**
+ * Shows tasks as columns of stages, left to right: everything in a column
+ * can start once the columns before it that it depends on are finished.
+ */
+export const TaskDependencyGraph: React.FC<TaskDependencyGraphProps> = ({ tasks, highlightId, onTaskClick }) => {
+  const stages = getDependencyStages(tasks);
+  const titleOf = (id: string) => tasks.find(t => t.id === id)?.title;
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <div style={styles.container}>
+      {stages.map((stage, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && <div style={styles.arrow}>→</div>}
+          <div style={styles.stage}>
+            <div style={styles.stageLabel}>Step {index + 1}</div>
+            {stage.map(task => {
+              const color = STATUS_COLORS[task.status] || theme.colors.txt.tertiary;
+              const after = (task.dependsOn || []).map(titleOf).filter(Boolean);
+              return (
+                <div
+                  key={task.id}
+                  style={{
+                    ...styles.node,
+                    ...(task.id === highlightId ? styles.nodeHighlighted : {}),
+                    ...(onTaskClick ? styles.nodeClickable : {}),
+                    borderLeftColor: color,
+                  }}
+                  onClick={onTaskClick ? () => onTaskClick(task.id) : undefined}
+                >
+                  <div style={styles.nodeTitle}>{task.title}</div>
+                  <div style={{ ...styles.nodeStatus, color }}>
+                    {STATUS_LABELS[task.status] || task.status}
+                  </div>
+                  {after.length > 0 && (
+                    <div style={styles.nodeAfter}>After {after.join(', ')}</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '8px',
+    overflowX: 'auto',
+    padding: '12px',
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+  },
+  stage: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    minWidth: '160px',
+    maxWidth: '200px',
+  },
+  stageLabel: {
+    fontSize: '11px',
+    fontWeight: 600,
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+    color: theme.colors.txt.tertiary,
+  },
+  arrow: {
+    alignSelf: 'center',
+    fontSize: '18px',
+    color: theme.colors.txt.tertiary,
+  },
+  node: {
+    padding: '8px 10px',
+    backgroundColor: theme.colors.bg.secondary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderLeft: '4px solid',
+    borderRadius: theme.borderRadius.sm,
+  },
+  nodeHighlighted: {
+    borderColor: theme.colors.primary,
+    boxShadow: `0 0 0 1px ${theme.colors.primary}`,
+  },
+  nodeClickable: {
+    cursor: 'pointer',
+  },
+  nodeTitle: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+    wordBreak: 'break-word',
+  },
+  nodeStatus: {
+    fontSize: '11px',
+    fontWeight: 600,
+    marginTop: '2px',
+  },
+  nodeAfter: {
+    fontSize: '11px',
+    color: theme.colors.txt.tertiary,
+    marginTop: '4px',
+  },
+};
@@ -3,7 +3,8 @@ import { useTask } from '../contexts/TaskContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { theme } from '../theme';
-import { TaskTemplate, TaskPriority, RecurrencePattern } from '../types';
+import { TaskTemplate, TaskPriority, RecurrenceFrequency, RecurrencePattern } from '../types';
+import { fromRRule } from '../utils/rrule';
 
 interface TaskLibraryImportProps {
   isOpen: boolean;
@@ -150,10 +151,18 @@ const TaskLibraryImport: React.FC<TaskLibraryImportProps> = ({ isOpen, onClose,
 
           let recurrencePattern: RecurrencePattern | undefined;
           if (isRecurring) {
-            const frequency = (row[freqIdx]?.trim() || 'weekly').toLowerCase() as 'daily' | 'weekly' | 'monthly';
+            const frequencyRaw = row[freqIdx]?.trim() || 'weekly';
+            const frequency = frequencyRaw.toLowerCase() as RecurrenceFrequency;
             const daysStr = row[daysIdx]?.trim() || '';
 
-            if (frequency === 'weekly') {
+            if (/^(RRULE:)?FREQ=/i.test(frequencyRaw)) {
+              // A full iCalendar rule, e.g. "FREQ=MONTHLY;BYDAY=-1FR"
+              recurrencePattern = fromRRule(frequencyRaw) || undefined;
+              // Skip rows whose rule we cannot represent rather than importing a different schedule
+              if (!recurrencePattern) {
+                return null;
+              }
+            } else if (frequency === 'weekly') {
               const daysOfWeek = daysStr.split(',')
                 .map(d => parseInt(d.trim()))
                 .filter(d => d >= 0 && d <= 6);
@@ -161,6 +170,9 @@ const TaskLibraryImport: React.FC<TaskLibraryImportProps> = ({ isOpen, onClose,
             } else if (frequency === 'monthly') {
               const dayOfMonth = parseInt(daysStr) || 1;
               recurrencePattern = { frequency, dayOfMonth };
+            } else if (frequency === 'yearly') {
+              const dayOfMonth = parseInt(daysStr);
+              recurrencePattern = dayOfMonth ? { frequency, dayOfMonth } : { frequency };
             } else {
               recurrencePattern = { frequency };
             }
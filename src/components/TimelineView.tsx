@@ -0,0 +1,591 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { theme } from '../theme';
+import { Job, JobTask, Task } from '../types';
+import { useJob } from '../contexts/JobContext';
+import { useTask } from '../contexts/TaskContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { isPartOfSeries } from '../utils/recurrence';
+import {
+  TimelineSpan,
+  addMinutes,
+  getJobSpan,
+  getJobTaskSpan,
+  layoutJobTasks,
+  minutesBetween,
+  overlapsRange,
+  shiftJob,
+  toSchedule,
+} from '../utils/timeline';
+
+interface TimelineViewProps {
+  onTaskClick: (task: JobTask) => void;
+  onJobClick?: (job: Job) => void;
+  isMobile?: boolean;
+}
+
+type RangeDays = 7 | 14 | 28;
+
+const RANGE_OPTIONS: RangeDays[] = [7, 14, 28];
+
+// Pixels per hour and drag snapping for each range
+const ZOOM: Record<RangeDays, { hourWidth: number; snapMinutes: number; label: string }> = {
+  7: { hourWidth: 8, snapMinutes: 15, label: '1 Week' },
+  14: { hourWidth: 4, snapMinutes: 30, label: '2 Weeks' },
+  28: { hourWidth: 2, snapMinutes: 60, label: '4 Weeks' },
+};
+
+const DAY_MINUTES = 24 * 60;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type TimelineRow =
+  | { kind: 'job'; key: string; job: Job; span: TimelineSpan }
+  | { kind: 'jobTask'; key: string; job: Job; task: Task; span: TimelineSpan }
+  | { kind: 'group'; key: string; label: string }
+  | { kind: 'task'; key: string; task: JobTask; span: TimelineSpan };
+
+interface DragState {
+  rowKey: string;
+  jobId?: string; // Set when dragging a job, so its task rows move with it
+  mode: 'move' | 'resize';
+  originX: number;
+  minutes: number;
+  saving?: boolean;
+}
+
+const startOfWeek = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'completed': return theme.colors.status.completed;
+    case 'in-progress': return theme.colors.status.inProgress;
+    case 'overdue': return theme.colors.status.overdue;
+    case 'blocked': return theme.colors.status.blocked;
+    case 'pending': return theme.colors.status.pending;
+    default: return theme.colors.status.archived;
+  }
+};
+
+const formatRange = (start: Date, days: number) => {
+  const end = new Date(start);
+  end.setDate(end.getDate() + days - 1);
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
+  return `${start.toLocaleDateString('en-US', options)} – ${end.toLocaleDateString('en-US', { ...options, year: 'numeric' })}`;
+};
+
+/**
+ * Gantt-style view: each job is a row group with its tasks as bars, followed
+ * by standalone job tasks. Calendar managers can drag a bar to reschedule it
+ * and drag its right edge to change the estimated duration.
+ */
+const TimelineView: React.FC<TimelineViewProps> = ({ onTaskClick, onJobClick, isMobile = false }) => {
+  const { jobs, updateJob } = useJob();
+  const { jobTasks, updateJobTask, updateRecurringTask } = useTask();
+  const { hasPermission } = useAuth();
+  const canManageCalendar = hasPermission('manage_calendar');
+  const { error: showError } = useToast();
+
+  const [rangeStart, setRangeStart] = useState(() => startOfWeek(new Date()));
+  const [rangeDays, setRangeDays] = useState<RangeDays>(7);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // A drag ends with a click event on the bar; this stops it opening the task
+  const suppressClickRef = useRef(false);
+
+  const { hourWidth, snapMinutes } = ZOOM[rangeDays];
+  const dayWidth = hourWidth * 24;
+  const trackWidth = dayWidth * rangeDays;
+  const labelWidth = isMobile ? 140 : 220;
+
+  const rangeEnd = useMemo(() => {
+    const end = new Date(rangeStart);
+    end.setDate(end.getDate() + rangeDays);
+    return end;
+  }, [rangeStart, rangeDays]);
+
+  const days = useMemo(() => Array.from({ length: rangeDays }, (_, i) => {
+    const day = new Date(rangeStart);
+    day.setDate(day.getDate() + i);
+    return day;
+  }), [rangeStart, rangeDays]);
+
+  const rows = useMemo(() => {
+    const result: TimelineRow[] = [];
+
+    jobs
+      .filter(job => job.status !== 'archived' && job.status !== 'draft')
+      .map(job => ({ job, span: getJobSpan(job) }))
+      .filter(({ span }) => overlapsRange(span, rangeStart, rangeEnd))
+      .sort((a, b) => a.span.start.getTime() - b.span.start.getTime())
+      .forEach(({ job, span }) => {
+        result.push({ kind: 'job', key: `job_${job.id}`, job, span });
+        layoutJobTasks(job).forEach(({ task, start, end }) => {
+          result.push({ kind: 'jobTask', key: `job_${job.id}_${task.id}`, job, task, span: { start, end } });
+        });
+      });
+
+    const standalone = jobTasks
+      .filter(task => task.status !== 'archived' && task.status !== 'draft')
+      .map(task => ({ task, span: getJobTaskSpan(task) }))
+      .filter(({ span }) => overlapsRange(span, rangeStart, rangeEnd))
+      .sort((a, b) => a.span.start.getTime() - b.span.start.getTime());
+
+    if (standalone.length > 0) {
+      result.push({ kind: 'group', key: 'group_tasks', label: 'Job Tasks' });
+      standalone.forEach(({ task, span }) => {
+        result.push({ kind: 'task', key: `task_${task.id}`, task, span });
+      });
+    }
+
+    return result;
+  }, [jobs, jobTasks, rangeStart, rangeEnd]);
+
+  // Where a row's bar is drawn, including an in-progress drag
+  const getDisplaySpan = (row: Exclude<TimelineRow, { kind: 'group' }>): TimelineSpan => {
+    if (!drag) return row.span;
+    const draggingJob = drag.jobId && (row.kind === 'job' || row.kind === 'jobTask') && row.job.id === drag.jobId;
+    if (draggingJob || (drag.rowKey === row.key && drag.mode === 'move')) {
+      return { start: addMinutes(row.span.start, drag.minutes), end: addMinutes(row.span.end, drag.minutes) };
+    }
+    if (drag.rowKey === row.key && drag.mode === 'resize') {
+      const duration = Math.max(snapMinutes, minutesBetween(row.span.start, row.span.end) + drag.minutes);
+      return { start: row.span.start, end: addMinutes(row.span.start, duration) };
+    }
+    return row.span;
+  };
+
+  const toPixels = (date: Date) => (minutesBetween(rangeStart, date) / 60) * hourWidth;
+
+  const now = new Date();
+  const todayOffset = now >= rangeStart && now < rangeEnd ? toPixels(now) : null;
+
+  // Navigation
+  const shiftRange = (direction: number) => {
+    const next = new Date(rangeStart);
+    next.setDate(next.getDate() + direction * rangeDays);
+    setRangeStart(next);
+  };
+
+  // Drag handling (pointer events, so it works with touch as well)
+  const handlePointerDown = (e: React.PointerEvent<HTMLElement>, row: TimelineRow, mode: DragState['mode']) => {
+    if (!canManageCalendar || row.kind === 'group' || drag?.saving) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({
+      rowKey: row.key,
+      jobId: row.kind === 'job' ? row.job.id : undefined,
+      mode,
+      originX: e.clientX,
+      minutes: 0,
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>, row: TimelineRow) => {
+    if (!drag || drag.saving || drag.rowKey !== row.key) return;
+    // Jobs move in whole days; their tasks keep their times
+    const snap = row.kind === 'job' ? DAY_MINUTES : snapMinutes;
+    const rawMinutes = ((e.clientX - drag.originX) / hourWidth) * 60;
+    const minutes = Math.round(rawMinutes / snap) * snap;
+    if (minutes !== drag.minutes) {
+      setDrag({ ...drag, minutes });
+    }
+  };
+
+  const saveDrag = async (row: Exclude<TimelineRow, { kind: 'group' }>, current: DragState) => {
+    if (row.kind === 'job') {
+      await updateJob(row.job.id, shiftJob(row.job, current.minutes / DAY_MINUTES));
+      return;
+    }
+
+    const duration = minutesBetween(row.span.start, row.span.end);
+    const changes = current.mode === 'resize'
+      ? { estimatedDuration: Math.max(snapMinutes, duration + current.minutes) }
+      : toSchedule(addMinutes(row.span.start, current.minutes));
+
+    if (row.kind === 'jobTask') {
+      await updateJob(row.job.id, {
+        tasks: row.job.tasks.map(task => (task.id === row.task.id ? { ...task, ...changes } : task)),
+      });
+      return;
+    }
+
+    if (isPartOfSeries(row.task)) {
+      await updateRecurringTask(row.task.id, changes, 'this');
+    } else {
+      await updateJobTask(row.task.id, changes);
+    }
+  };
+
+  const handlePointerUp = async (row: TimelineRow) => {
+    if (!drag || drag.saving || drag.rowKey !== row.key || row.kind === 'group') return;
+    if (drag.minutes === 0) {
+      setDrag(null);
+      return;
+    }
+
+    suppressClickRef.current = true;
+    setDrag({ ...drag, saving: true });
+    try {
+      await saveDrag(row, drag);
+    } catch (error) {
+      console.error('Error rescheduling from timeline:', error);
+      showError('Could not save the new schedule. Please try again.');
+    } finally {
+      setDrag(null);
+    }
+  };
+
+  const handleBarClick = (row: TimelineRow) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    if (row.kind === 'task') onTaskClick(row.task);
+    else if (row.kind !== 'group') onJobClick?.(row.job);
+  };
+
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  const renderBar = (row: Exclude<TimelineRow, { kind: 'group' }>) => {
+    const span = getDisplaySpan(row);
+    const left = toPixels(span.start);
+    const width = Math.max(4, toPixels(span.end) - left);
+    const status = row.kind === 'job' ? row.job.status : row.task.status;
+    const color = getStatusColor(status);
+    const isDragging = drag?.rowKey === row.key;
+    const title = row.kind === 'job' ? row.job.title : row.task.title;
+    const canResize = canManageCalendar && row.kind !== 'job';
+
+    return (
+      <div
+        style={{
+          ...(row.kind === 'job' ? styles.jobBar : styles.bar),
+          left,
+          width,
+          backgroundColor: row.kind === 'job' ? `${color}40` : color,
+          borderColor: color,
+          cursor: canManageCalendar ? (isDragging ? 'grabbing' : 'grab') : row.kind === 'task' ? 'pointer' : 'default',
+          opacity: drag?.saving && isDragging ? 0.6 : 1,
+        }}
+        title={`${title}\n${formatTime(span.start)} – ${formatTime(span.end)}`}
+        onPointerDown={(e) => handlePointerDown(e, row, 'move')}
+        onPointerMove={(e) => handlePointerMove(e, row)}
+        onPointerUp={() => handlePointerUp(row)}
+        onClick={() => handleBarClick(row)}
+      >
+        {width > 40 && (
+          <span style={{ ...styles.barLabel, color: row.kind === 'job' ? theme.colors.txt.primary : '#FFFFFF' }}>
+            {title}
+          </span>
+        )}
+        {canResize && (
+          <div
+            style={styles.resizeHandle}
+            title="Drag to change duration"
+            onPointerDown={(e) => handlePointerDown(e, row, 'resize')}
+            onPointerMove={(e) => handlePointerMove(e, row)}
+            onPointerUp={() => handlePointerUp(row)}
+            onClick={(e) => e.stopPropagation()}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const trackBackground: React.CSSProperties = {
+    width: trackWidth,
+    backgroundImage: `repeating-linear-gradient(to right, transparent 0, transparent ${dayWidth - 1}px, ${theme.colors.bdr.primary} ${dayWidth - 1}px, ${theme.colors.bdr.primary} ${dayWidth}px)`,
+  };
+
+  return (
+    <div style={styles.container}>
+      {/* Controls */}
+      <div style={styles.controls}>
+        <div style={styles.navControls}>
+          <button onClick={() => shiftRange(-1)} style={styles.navButton} aria-label="Previous period">
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="15 18 9 12 15 6" />
+            </svg>
+          </button>
+          <button onClick={() => setRangeStart(startOfWeek(new Date()))} style={styles.todayButton}>
+            Today
+          </button>
+          <button onClick={() => shiftRange(1)} style={styles.navButton} aria-label="Next period">
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <polyline points="9 18 15 12 9 6" />
+            </svg>
+          </button>
+          <span style={styles.rangeTitle}>{formatRange(rangeStart, rangeDays)}</span>
+        </div>
+        <select
+          value={rangeDays}
+          onChange={(e) => setRangeDays(Number(e.target.value) as RangeDays)}
+          style={styles.select}
+        >
+          {RANGE_OPTIONS.map(value => (
+            <option key={value} value={value}>{ZOOM[value].label}</option>
+          ))}
+        </select>
+      </div>
+
+      {canManageCalendar && (
+        <p style={styles.hint}>Drag a bar to reschedule it, or drag its right edge to change the duration.</p>
+      )}
+
+      <div style={styles.scrollArea}>
+        <div style={{ width: labelWidth + trackWidth }}>
+          {/* Day header */}
+          <div style={styles.row}>
+            <div style={{ ...styles.labelCell, ...styles.headerLabelCell, width: labelWidth }}>
+              {rows.length === 0 ? '' : 'Job / Task'}
+            </div>
+            <div style={{ display: 'flex', width: trackWidth }}>
+              {days.map(day => {
+                const isToday = day.toDateString() === now.toDateString();
+                return (
+                  <div
+                    key={day.toISOString()}
+                    style={{
+                      ...styles.dayHeader,
+                      width: dayWidth,
+                      ...(isToday ? styles.dayHeaderToday : {}),
+                    }}
+                  >
+                    {dayWidth >= 60 ? `${DAY_NAMES[day.getDay()]} ${day.getDate()}` : day.getDate()}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {rows.length === 0 ? (
+            <div style={styles.emptyState}>No jobs or tasks scheduled in this period</div>
+          ) : (
+            rows.map(row => (
+              <div key={row.key} style={{ ...styles.row, ...(row.kind === 'job' || row.kind === 'group' ? styles.groupRow : {}) }}>
+                <div
+                  style={{
+                    ...styles.labelCell,
+                    width: labelWidth,
+                    ...(row.kind === 'job' || row.kind === 'group' ? styles.groupLabelCell : styles.childLabelCell),
+                    ...(row.kind === 'job' && onJobClick ? { cursor: 'pointer' } : {}),
+                  }}
+                  title={row.kind === 'group' ? row.label : row.kind === 'job' ? row.job.title : row.task.title}
+                  onClick={row.kind === 'job' && onJobClick ? () => onJobClick(row.job) : undefined}
+                >
+                  {row.kind === 'group' && row.label}
+                  {row.kind === 'job' && (
+                    <>
+                      {row.job.title}
+                      <span style={styles.labelMeta}>{row.job.progressPercentage}%</span>
+                    </>
+                  )}
+                  {(row.kind === 'jobTask' || row.kind === 'task') && row.task.title}
+                </div>
+                <div style={{ ...styles.track, ...trackBackground }}>
+                  {todayOffset !== null && <div style={{ ...styles.todayLine, left: todayOffset }} />}
+                  {row.kind !== 'group' && renderBar(row)}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+  },
+  controls: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    padding: theme.spacing.md,
+    borderBottom: `1px solid ${theme.colors.bdr.primary}`,
+  },
+  navControls: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  navButton: {
+    padding: '8px',
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    color: theme.colors.txt.primary,
+  },
+  todayButton: {
+    padding: '8px 14px',
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    cursor: 'pointer',
+    fontSize: '14px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+  },
+  rangeTitle: {
+    fontSize: '16px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+    marginLeft: theme.spacing.sm,
+  },
+  select: {
+    padding: '8px 12px',
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    color: theme.colors.txt.primary,
+    fontSize: '14px',
+  },
+  hint: {
+    fontSize: '13px',
+    color: theme.colors.txt.tertiary,
+    margin: `${theme.spacing.sm} ${theme.spacing.md} 0`,
+  },
+  scrollArea: {
+    overflowX: 'auto',
+    padding: `${theme.spacing.sm} 0`,
+  },
+  row: {
+    display: 'flex',
+    minHeight: '36px',
+    borderBottom: `1px solid ${theme.colors.bdr.primary}`,
+  },
+  groupRow: {
+    backgroundColor: theme.colors.bg.tertiary,
+  },
+  labelCell: {
+    position: 'sticky',
+    left: 0,
+    zIndex: 2,
+    flexShrink: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: theme.spacing.xs,
+    padding: '0 12px',
+    fontSize: '13px',
+    color: theme.colors.txt.primary,
+    backgroundColor: theme.colors.bg.secondary,
+    borderRight: `1px solid ${theme.colors.bdr.primary}`,
+    whiteSpace: 'nowrap',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    boxSizing: 'border-box',
+  },
+  headerLabelCell: {
+    fontSize: '12px',
+    fontWeight: 600,
+    color: theme.colors.txt.tertiary,
+    textTransform: 'uppercase',
+  },
+  groupLabelCell: {
+    fontWeight: 700,
+    backgroundColor: theme.colors.bg.tertiary,
+  },
+  childLabelCell: {
+    paddingLeft: '24px',
+    color: theme.colors.txt.secondary,
+  },
+  labelMeta: {
+    fontSize: '11px',
+    fontWeight: 600,
+    color: theme.colors.txt.tertiary,
+  },
+  dayHeader: {
+    flexShrink: 0,
+    padding: '8px 0',
+    textAlign: 'center',
+    fontSize: '12px',
+    fontWeight: 600,
+    color: theme.colors.txt.secondary,
+    borderRight: `1px solid ${theme.colors.bdr.primary}`,
+    boxSizing: 'border-box',
+  },
+  dayHeaderToday: {
+    color: theme.colors.primary,
+  },
+  track: {
+    position: 'relative',
+    flexShrink: 0,
+    overflow: 'hidden',
+  },
+  todayLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: '2px',
+    backgroundColor: theme.colors.primary,
+    opacity: 0.6,
+    pointerEvents: 'none',
+  },
+  bar: {
+    position: 'absolute',
+    top: '6px',
+    bottom: '6px',
+    border: '1px solid',
+    borderRadius: theme.borderRadius.sm,
+    display: 'flex',
+    alignItems: 'center',
+    overflow: 'hidden',
+    touchAction: 'none',
+    userSelect: 'none',
+    boxSizing: 'border-box',
+  },
+  jobBar: {
+    position: 'absolute',
+    top: '8px',
+    bottom: '8px',
+    border: '2px solid',
+    borderRadius: theme.borderRadius.sm,
+    display: 'flex',
+    alignItems: 'center',
+    overflow: 'hidden',
+    touchAction: 'none',
+    userSelect: 'none',
+    boxSizing: 'border-box',
+  },
+  barLabel: {
+    padding: '0 6px',
+    fontSize: '11px',
+    fontWeight: 600,
+    whiteSpace: 'nowrap',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    pointerEvents: 'none',
+  },
+  resizeHandle: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    bottom: 0,
+    width: '8px',
+    cursor: 'ew-resize',
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  emptyState: {
+    padding: theme.spacing.xl,
+    textAlign: 'center',
+    fontSize: '14px',
+    color: theme.colors.txt.tertiary,
+  },
+};
+
+export default TimelineView;
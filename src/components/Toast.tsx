@@ -3,14 +3,21 @@ import { theme } from '../theme';
 
 export type ToastType = 'success' | 'error' | 'warning' | 'info';
 
+// A button shown next to the message, e.g. "Undo"
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface ToastProps {
   message: string;
   type: ToastType;
   onClose: () => void;
   duration?: number;
+  action?: ToastAction;
 }
 
-const Toast: React.FC<ToastProps> = ({ message, type, onClose, duration = 3000 }) => {
+const Toast: React.FC<ToastProps> = ({ message, type, onClose, duration = 3000, action }) => {
   useEffect(() => {
     const timer = setTimeout(() => {
       onClose();
@@ -77,6 +84,17 @@ const Toast: React.FC<ToastProps> = ({ message, type, onClose, duration = 3000 }
         {typeStyles.icon}
       </div>
       <div style={styles.message}>{message}</div>
+      {action && (
+        <button
+          onClick={() => {
+            action.onClick();
+            onClose();
+          }}
+          style={styles.actionButton}
+        >
+          {action.label}
+        </button>
+      )}
       <button onClick={onClose} style={styles.closeButton}>
         <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
           <line x1="18" y1="6" x2="6" y2="18" />
@@ -114,6 +132,17 @@ const styles: { [key: string]: React.CSSProperties } = {
   message: {
     flex: 1,
   },
+  actionButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    border: '1px solid rgba(255, 255, 255, 0.6)',
+    borderRadius: theme.borderRadius.md,
+    color: 'white',
+    cursor: 'pointer',
+    padding: '6px 12px',
+    fontSize: '14px',
+    fontWeight: '600',
+    flexShrink: 0,
+  },
   closeButton: {
     backgroundColor: 'transparent',
     border: 'none',
@@ -5,6 +5,11 @@ import { theme } from '../theme';
 import { useResponsive } from '../hooks/useResponsive';
 import TemplateSelector from './TemplateSelector';
 import { CustomCheckbox } from './CustomCheckbox';
+import RecurrenceOptions from './RecurrenceOptions';
+import { cleanRecurrencePattern, validateRecurrencePattern } from '../utils/recurrence';
+import { wouldCreateCycle } from '../utils/taskDependencies';
+import { formatDateValue, getTodayKey } from '../utils/dateTime';
+import { getUserDepartments, isDepartmentMember } from '../utils/departments';
 
 interface ChecklistItem {
   id: string;
@@ -36,8 +41,10 @@ interface UnifiedJobTaskModalProps {
     recurrencePattern?: RecurrencePattern;
     templateId?: string;
     sopId?: string;
+    dependsOn?: string[];
   }, saveAsTemplate: boolean) => void | Promise<void>;
   taskTemplates: TaskTemplate[];
+  jobTasks?: JobTask[]; // Tasks this one can be made to depend on
   users: any[];
   sops: any[];
   currentUserId: string;
@@ -57,6 +64,7 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
   currentUserId,
   initialTemplateId = null,
   initialScheduledDate = null,
+  jobTasks = [],
 }) => {
   const { isMobile } = useResponsive();
   const { error: showError } = useToast();
@@ -76,8 +84,10 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
 
   // Recurrence
   const [isRecurring, setIsRecurring] = useState(false);
-  const [recurrenceFrequency, setRecurrenceFrequency] = useState<'daily' | 'weekly' | 'monthly'>('weekly');
-  const [recurrenceDays, setRecurrenceDays] = useState<number[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrencePattern>({ frequency: 'weekly' });
+
+  // Dependencies (tasks that must be completed first)
+  const [dependsOn, setDependsOn] = useState<string[]>([]);
 
   // Assignment
   const [assignedTo, setAssignedTo] = useState<string[]>([]);
@@ -105,13 +115,18 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
   ].filter(Boolean))).sort();
 
   // Get unique departments for user filtering
-  const departments = Array.from(new Set(users.map((u: any) => u.department)));
-  const weekDays = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-
+  const departments = Array.from(new Set(users.flatMap(u => getUserDepartments(u))));
   // Filter users by department
   const filteredUsers = filterDepartment === 'all'
     ? users
-    : users.filter((u: any) => u.department === filterDepartment);
+    : users.filter(u => isDepartmentMember(u, filterDepartment));
+
+  // Tasks that can be picked as predecessors: not this task, not archived,
+  // and not anything that already (indirectly) depends on this task
+  const dependencyOptions = jobTasks
+    .filter(t => t.status !== 'archived')
+    .filter(t => !editingTask || !wouldCreateCycle(editingTask.id, t.id, jobTasks))
+    .sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate));
 
   // Reset form when modal opens (for new tasks)
   useEffect(() => {
@@ -125,8 +140,8 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
       setLinkedSopId('');
       setChecklistItems([]);
       setIsRecurring(false);
-      setRecurrenceFrequency('weekly');
-      setRecurrenceDays([]);
+      setRecurrence({ frequency: 'weekly' });
+      setDependsOn([]);
       setAssignedTo([]);
       setDueTime('');
       setFilterDepartment('all');
@@ -151,9 +166,9 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
       setIsRecurring(editingTask.isRecurring || false);
       setLinkedSopId(editingTask.sopIds?.[0] || '');
       setCategory(editingTask.category || 'General');
+      setDependsOn(editingTask.dependsOn || []);
       if (editingTask.recurrencePattern) {
-        setRecurrenceFrequency(editingTask.recurrencePattern.frequency);
-        setRecurrenceDays(editingTask.recurrencePattern.daysOfWeek || []);
+        setRecurrence(editingTask.recurrencePattern);
       }
 
       // Convert task steps to checklist items
@@ -175,7 +190,7 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
   // Set default date to today or use initialScheduledDate
   useEffect(() => {
     if (!editingTask) {
-      const defaultDate = initialScheduledDate || new Date().toISOString().split('T')[0];
+      const defaultDate = initialScheduledDate || getTodayKey();
       setScheduledDate(defaultDate);
     }
   }, [editingTask, initialScheduledDate]);
@@ -194,8 +209,7 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
       setCategory(template.category || 'General');
 
       if (template.recurrencePattern) {
-        setRecurrenceFrequency(template.recurrencePattern.frequency);
-        setRecurrenceDays(template.recurrencePattern.daysOfWeek || []);
+        setRecurrence(template.recurrencePattern);
       }
 
       // Convert template steps to checklist items
@@ -221,6 +235,14 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
     );
   };
 
+  const handleDependencyToggle = (taskId: string) => {
+    setDependsOn(prev =>
+      prev.includes(taskId)
+        ? prev.filter(id => id !== taskId)
+        : [...prev, taskId]
+    );
+  };
+
   const handleSelectAll = () => {
     // Select only the currently filtered/visible users
     const filteredUserIds = filteredUsers.map((u: any) => u.id);
@@ -255,14 +277,6 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
     ));
   };
 
-  const handleDayToggle = (dayIndex: number) => {
-    setRecurrenceDays(prev =>
-      prev.includes(dayIndex)
-        ? prev.filter(d => d !== dayIndex)
-        : [...prev, dayIndex].sort()
-    );
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -293,21 +307,16 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
     }
 
     // Validate recurrence
-    if (isRecurring && recurrenceFrequency !== 'daily' && recurrenceDays.length === 0) {
-      showError('Please select at least one day for recurring tasks');
+    const recurrencePattern = isRecurring ? cleanRecurrencePattern(recurrence) : undefined;
+    const recurrenceError = recurrencePattern && validateRecurrencePattern(recurrencePattern, scheduledDate);
+    if (recurrenceError) {
+      showError(recurrenceError);
       return;
     }
 
     // Set submitting state to prevent duplicates
     setIsSubmitting(true);
 
-    const recurrencePattern: RecurrencePattern | undefined = isRecurring
-      ? {
-          frequency: recurrenceFrequency,
-          daysOfWeek: recurrenceFrequency === 'daily' ? [] : recurrenceDays,
-        }
-      : undefined;
-
     try {
       await onCreate(
         {
@@ -328,6 +337,8 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
           recurrencePattern,
           templateId: selectedTemplate?.id,
           sopId: linkedSopId || undefined,
+          // Drop picks that are no longer selectable (e.g. since archived)
+          dependsOn: dependsOn.filter(id => dependencyOptions.some(t => t.id === id)),
         },
         saveAsTemplate
       );
@@ -335,8 +346,9 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
       if (onSuccess) {
         onSuccess();
       }
-    } catch (error) {
-      // Reset submitting state on error so user can try again
+    } finally {
+      // Reset submitting state so the form is usable again if it stays open
+      // (an error, or a cancelled "this occurrence / all future" prompt)
       setIsSubmitting(false);
     }
   };
@@ -506,6 +518,30 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
               </select>
             </div>
 
+            {/* Dependencies */}
+            {dependencyOptions.length > 0 && (
+              <div style={styles.formGroup}>
+                <label style={styles.label}>Depends On (Optional)</label>
+                <p style={styles.dependencyHint}>
+                  This task stays blocked until the selected tasks are completed.
+                </p>
+                <div style={styles.dependencyList}>
+                  {dependencyOptions.map(task => (
+                    <div key={task.id} style={styles.dependencyItem}>
+                      <CustomCheckbox
+                        checked={dependsOn.includes(task.id)}
+                        onChange={() => handleDependencyToggle(task.id)}
+                        label={task.title}
+                      />
+                      <span style={styles.dependencyMeta}>
+                        {formatDateValue(task.scheduledDate)} · {task.status}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Assign to Team Members */}
             <div style={styles.assignHeaderRow}>
               <label style={styles.label}>Assign to Team Members *</label>
@@ -685,63 +721,12 @@ export const UnifiedJobTaskModal: React.FC<UnifiedJobTaskModalProps> = ({
 
             {isRecurring && (
               <div style={styles.recurrenceOptions}>
-                <div style={styles.formGroup}>
-                  <label style={styles.label}>Frequency *</label>
-                  <div style={styles.radioGroup}>
-                    <label style={styles.radioLabel}>
-                      <input
-                        type="radio"
-                        value="daily"
-                        checked={recurrenceFrequency === 'daily'}
-                        onChange={(e) => setRecurrenceFrequency(e.target.value as 'daily' | 'weekly' | 'monthly')}
-                        style={styles.radio}
-                      />
-                      Daily
-                    </label>
-                    <label style={styles.radioLabel}>
-                      <input
-                        type="radio"
-                        value="weekly"
-                        checked={recurrenceFrequency === 'weekly'}
-                        onChange={(e) => setRecurrenceFrequency(e.target.value as 'daily' | 'weekly' | 'monthly')}
-                        style={styles.radio}
-                      />
-                      Weekly
-                    </label>
-                    <label style={styles.radioLabel}>
-                      <input
-                        type="radio"
-                        value="monthly"
-                        checked={recurrenceFrequency === 'monthly'}
-                        onChange={(e) => setRecurrenceFrequency(e.target.value as 'daily' | 'weekly' | 'monthly')}
-                        style={styles.radio}
-                      />
-                      Monthly
-                    </label>
-                  </div>
-                </div>
-
-                {recurrenceFrequency !== 'daily' && (
-                  <div style={styles.formGroup}>
-                    <label style={styles.label}>
-                      Select Days {recurrenceFrequency === 'weekly' && '*'}
-                    </label>
-                    <div style={styles.daysGrid}>
-                      {weekDays.map((day, index) => {
-                        // Map Monday=0 to Sunday=6 -> 1-6,0 for RecurrencePattern (Sunday=0)
-                        const dayIndex = index === 6 ? 0 : index + 1;
-                        return (
-                          <CustomCheckbox
-                            key={day}
-                            checked={recurrenceDays.includes(dayIndex)}
-                            onChange={() => handleDayToggle(dayIndex)}
-                            label={day.substring(0, 3)}
-                          />
-                        );
-                      })}
-                    </div>
-                  </div>
-                )}
+                <RecurrenceOptions
+                  pattern={recurrence}
+                  onChange={setRecurrence}
+                  startDate={scheduledDate}
+                  isMobile={isMobile}
+                />
               </div>
             )}
           </div>
@@ -1040,29 +1025,6 @@ const styles: { [key: string]: React.CSSProperties } = {
     backgroundColor: theme.colors.bg.tertiary,
     borderRadius: theme.borderRadius.md,
   },
-  radioGroup: {
-    display: 'flex',
-    gap: '16px',
-    flexWrap: 'wrap',
-  },
-  radioLabel: {
-    display: 'flex',
-    alignItems: 'center',
-    gap: '6px',
-    fontSize: '14px',
-    color: theme.colors.txt.primary,
-    cursor: 'pointer',
-  },
-  radio: {
-    width: '16px',
-    height: '16px',
-    cursor: 'pointer',
-  },
-  daysGrid: {
-    display: 'grid',
-    gridTemplateColumns: 'repeat(auto-fill, minmax(80px, 1fr))',
-    gap: '8px',
-  },
   dayCheckbox: {
     display: 'flex',
     alignItems: 'center',
@@ -1107,6 +1069,31 @@ const styles: { [key: string]: React.CSSProperties } = {
     cursor: 'pointer',
     transition: 'all 0.2s ease',
   },
+  dependencyHint: {
+    fontSize: '13px',
+    color: theme.colors.txt.tertiary,
+    margin: '0 0 8px 0',
+  },
+  dependencyList: {
+    maxHeight: '200px',
+    overflowY: 'auto',
+    padding: '8px 12px',
+    backgroundColor: theme.colors.bg.tertiary,
+    borderRadius: theme.borderRadius.md,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+  },
+  dependencyItem: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '12px',
+    padding: '6px 0',
+  },
+  dependencyMeta: {
+    fontSize: '12px',
+    color: theme.colors.txt.tertiary,
+    whiteSpace: 'nowrap',
+  },
   usersList: {
     maxHeight: '300px',
     overflowY: 'auto',
@@ -1,6 +1,7 @@
 // SOP Status
 export const SOP_STATUS = {
   DRAFT: 'draft',
+  IN_REVIEW: 'in_review',
   PUBLISHED: 'published',
   ARCHIVED: 'archived',
 } as const;
@@ -45,18 +46,6 @@ export const USER_ROLES = {
 
 export type UserRoleType = typeof USER_ROLES[keyof typeof USER_ROLES];
 
-// Departments (These can be customized by organization)
-export const DEFAULT_DEPARTMENTS = [
-  'Teachers',
-  'Admin',
-  'Staff',
-  'Management',
-  'IT',
-  'Operations',
-  'Finance',
-  'HR',
-] as const;
-
 // Categories (These can be customized by organization)
 export const DEFAULT_CATEGORIES = [
   'Camera Setup',
@@ -72,6 +61,7 @@ export const DEFAULT_CATEGORIES = [
 // Status Colors
 export const STATUS_COLORS = {
   [SOP_STATUS.DRAFT]: '#F59E0B',
+  [SOP_STATUS.IN_REVIEW]: '#8B5CF6',
   [SOP_STATUS.PUBLISHED]: '#10B981',
   [SOP_STATUS.ARCHIVED]: '#6B7280',
   [TASK_STATUS.PENDING]: '#F59E0B',
@@ -0,0 +1,238 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { SOP, SOPAcknowledgement, SOPAcknowledgementReminder } from '../types';
+import { useAuth } from './AuthContext';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { logActivity } from '../utils/activityLogger';
+import { isRequiredReader } from '../utils/sopCompliance';
+
+interface AcknowledgementContextType {
+  acknowledgements: SOPAcknowledgement[];
+  reminders: SOPAcknowledgementReminder[];
+  acknowledgeSOP: (sop: SOP) => Promise<void>;
+  sendAcknowledgementReminder: (sop: SOP, userIds: string[]) => Promise<void>;
+  getRemindersForUser: (userId: string) => SOPAcknowledgementReminder[];
+  loading: boolean;
+}
+
+const AcknowledgementContext = createContext<AcknowledgementContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'mediamaple_sop_acknowledgements';
+const REMINDERS_STORAGE_KEY = 'mediamaple_sop_ack_reminders';
+
+// Generate unique ID
+const generateId = (prefix: string) => {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+// Map Supabase data to app types
+const mapSupabaseAcknowledgement = (row: any): SOPAcknowledgement => ({
+  id: row.id,
+  sopId: row.sop_id,
+  userId: row.user_id,
+  userName: row.user_name,
+  versionPublishedAt: row.version_published_at,
+  acknowledgedAt: row.acknowledged_at,
+});
+
+const mapSupabaseReminder = (row: any): SOPAcknowledgementReminder => ({
+  id: row.id,
+  sopId: row.sop_id,
+  userId: row.user_id,
+  sentBy: row.sent_by,
+  sentByName: row.sent_by_name,
+  sentAt: row.sent_at,
+});
+
+export const AcknowledgementProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [acknowledgements, setAcknowledgements] = useState<SOPAcknowledgement[]>([]);
+  const [reminders, setReminders] = useState<SOPAcknowledgementReminder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { currentUser } = useAuth();
+  const useSupabase = isSupabaseConfigured();
+
+  // Load acknowledgements and reminders
+  useEffect(() => {
+    const loadData = async () => {
+      if (useSupabase) {
+        if (!currentUser) {
+          setLoading(false);
+          return;
+        }
+        try {
+          const { data: ackData, error: ackError } = await supabase
+            .from('sop_acknowledgements')
+            .select('*')
+            .order('acknowledged_at', { ascending: false });
+
+          if (ackData && !ackError) {
+            setAcknowledgements(ackData.map(mapSupabaseAcknowledgement));
+          }
+
+          const { data: reminderData, error: reminderError } = await supabase
+            .from('sop_acknowledgement_reminders')
+            .select('*')
+            .order('sent_at', { ascending: false });
+
+          if (reminderData && !reminderError) {
+            setReminders(reminderData.map(mapSupabaseReminder));
+          }
+        } catch (error) {
+          console.error('Error loading SOP acknowledgements:', error);
+        }
+      } else {
+        // localStorage fallback
+        try {
+          setAcknowledgements(JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]'));
+          setReminders(JSON.parse(localStorage.getItem(REMINDERS_STORAGE_KEY) || '[]'));
+        } catch (error) {
+          console.error('Error loading SOP acknowledgements from localStorage:', error);
+        }
+      }
+      setLoading(false);
+    };
+
+    loadData();
+  }, [useSupabase, currentUser]);
+
+  const acknowledgeSOP = async (sop: SOP) => {
+    if (!currentUser) {
+      throw new Error('No current user');
+    }
+    if (!isRequiredReader(sop, currentUser)) {
+      throw new Error('This SOP is not assigned to your department');
+    }
+
+    const userName = `${currentUser.firstName} ${currentUser.lastName}`;
+    const acknowledgement: SOPAcknowledgement = {
+      id: generateId('ack'),
+      sopId: sop.id,
+      userId: currentUser.id,
+      userName,
+      // SOPs published before tracking existed have no publishedAt; sign against their last update
+      versionPublishedAt: sop.publishedAt || sop.updatedAt || sop.createdAt,
+      acknowledgedAt: new Date().toISOString(),
+    };
+
+    if (!useSupabase) {
+      const updated = [acknowledgement, ...acknowledgements];
+      setAcknowledgements(updated);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    } else {
+      try {
+        const { data, error } = await supabase
+          .from('sop_acknowledgements')
+          .insert({
+            sop_id: acknowledgement.sopId,
+            user_id: acknowledgement.userId,
+            user_name: acknowledgement.userName,
+            version_published_at: acknowledgement.versionPublishedAt,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          console.error('Error acknowledging SOP:', error);
+          throw error;
+        }
+
+        setAcknowledgements(prev => [mapSupabaseAcknowledgement(data), ...prev]);
+      } catch (error) {
+        console.error('Error acknowledging SOP:', error);
+        throw error;
+      }
+    }
+
+    logActivity({
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName,
+      action: 'sop_acknowledged',
+      entityType: 'sop',
+      entityId: sop.id,
+      entityTitle: sop.title,
+      details: { versionPublishedAt: acknowledgement.versionPublishedAt },
+    });
+  };
+
+  const sendAcknowledgementReminder = async (sop: SOP, userIds: string[]) => {
+    if (!currentUser || userIds.length === 0) return;
+
+    const sentByName = `${currentUser.firstName} ${currentUser.lastName}`;
+    const newReminders: SOPAcknowledgementReminder[] = userIds.map(userId => ({
+      id: generateId('ackrem'),
+      sopId: sop.id,
+      userId,
+      sentBy: currentUser.id,
+      sentByName,
+      sentAt: new Date().toISOString(),
+    }));
+
+    if (!useSupabase) {
+      const updated = [...newReminders, ...reminders];
+      setReminders(updated);
+      localStorage.setItem(REMINDERS_STORAGE_KEY, JSON.stringify(updated));
+    } else {
+      try {
+        const { data, error } = await supabase
+          .from('sop_acknowledgement_reminders')
+          .insert(
+            newReminders.map(r => ({
+              sop_id: r.sopId,
+              user_id: r.userId,
+              sent_by: r.sentBy,
+              sent_by_name: r.sentByName,
+            }))
+          )
+          .select();
+
+        if (error) {
+          console.error('Error sending acknowledgement reminder:', error);
+          throw error;
+        }
+
+        setReminders(prev => [...(data || []).map(mapSupabaseReminder), ...prev]);
+      } catch (error) {
+        console.error('Error sending acknowledgement reminder:', error);
+        throw error;
+      }
+    }
+
+    logActivity({
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName: sentByName,
+      action: 'sop_acknowledgement_reminder_sent',
+      entityType: 'sop',
+      entityId: sop.id,
+      entityTitle: sop.title,
+      details: { recipients: userIds },
+    });
+  };
+
+  const getRemindersForUser = (userId: string) => {
+    return reminders.filter(r => r.userId === userId);
+  };
+
+  return (
+    <AcknowledgementContext.Provider
+      value={{
+        acknowledgements,
+        reminders,
+        acknowledgeSOP,
+        sendAcknowledgementReminder,
+        getRemindersForUser,
+        loading,
+      }}
+    >
+      {children}
+    </AcknowledgementContext.Provider>
+  );
+};
+
+export const useAcknowledgements = () => {
+  const context = useContext(AcknowledgementContext);
+  if (!context) {
+    throw new Error('useAcknowledgements must be used within an AcknowledgementProvider');
+  }
+  return context;
+};
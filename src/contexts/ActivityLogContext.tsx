@@ -1,8 +1,10 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { useAuth } from './AuthContext';
 import { supabase, isSupabaseConfigured, hasActivityLogsTable } from '../lib/supabase';
+import { createNotifications } from '../services/notifications';
+import { getActivityNotifications } from '../utils/activityNotifications';
 
-export type EntityType = 'sop' | 'task' | 'job' | 'template' | 'user' | 'system';
+export type EntityType = 'sop' | 'task' | 'job' | 'template' | 'event' | 'user' | 'system';
 
 export type ActionType =
   // SOP actions
@@ -13,6 +15,14 @@ export type ActionType =
   | 'sop_archived'
   | 'sop_restored'
   | 'sop_imported'
+  | 'sop_version_restored'
+  | 'sop_submitted_for_review'
+  | 'sop_review_approved'
+  | 'sop_changes_requested'
+  | 'sop_acknowledged'
+  | 'sop_acknowledgement_reminder_sent'
+  | 'sop_quiz_passed'
+  | 'sop_quiz_failed'
   // Task actions
   | 'task_created'
   | 'task_updated'
@@ -30,6 +40,9 @@ export type ActionType =
   | 'job_completed'
   | 'job_archived'
   | 'job_restored'
+  // Event actions
+  | 'event_created'
+  | 'event_invited'
   // Template actions
   | 'template_created'
   | 'template_updated'
@@ -42,6 +55,22 @@ export type ActionType =
   | 'user_deleted'
   | 'user_role_changed'
   | 'user_password_changed'
+  // Invite actions
+  | 'user_invited'
+  | 'invite_resent'
+  | 'invite_revoked'
+  | 'invite_accepted'
+  // Two-factor actions
+  | 'mfa_enabled'
+  | 'mfa_disabled'
+  | 'mfa_recovery_code_used'
+  // Role actions
+  | 'role_created'
+  | 'role_updated'
+  | 'role_deleted'
+  // Department actions
+  | 'department_created'
+  | 'department_deleted'
   // System actions
   | 'system_backup'
   | 'system_restore';
@@ -187,6 +216,19 @@ export const ActivityLogProvider: React.FC<ActivityLogProviderProps> = ({ childr
       // Use localStorage as fallback
       saveToLocalStorage(newLog);
     }
+
+    // Tell whoever the action concerns (see utils/activityNotifications)
+    createNotifications(getActivityNotifications({
+      actorId: newLog.user_id,
+      actorName: newLog.user_name,
+      action,
+      entityType,
+      entityId,
+      entityTitle,
+      details,
+    })).catch(() => {
+      // Already logged; the activity itself was recorded
+    });
   }, [currentUser]);
 
   // Helper to save to localStorage
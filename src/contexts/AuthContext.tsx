@@ -1,11 +1,53 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
-import { User, UserRole } from '../types';
+import { Invite, Permission, Role, SSOProvider, User, UserRole } from '../types';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import type { User as SupabaseUser } from '@supabase/supabase-js';
 import { logActivity } from '../utils/activityLogger';
+import { userHasPermission } from '../utils/permissions';
+import { isDepartmentMember } from '../utils/departments';
+import { fetchRoles, saveRole as saveRoleRow, deleteRole as deleteRoleRow } from '../services/roles';
+import {
+  NewInvite,
+  claimStoredInvite,
+  createInvite,
+  fetchInviteByToken,
+  fetchInvites,
+  getInviteStatus,
+  renewInvite,
+  revokeInvite as revokeInviteRow,
+} from '../services/invites';
+import {
+  DEFAULT_LOGIN_SETTINGS,
+  LoginOptions,
+  SignInMethod,
+  fetchLoginOptions,
+  getSignInRejection,
+} from '../services/loginSettings';
+import {
+  EMPTY_MFA_STATUS,
+  MfaStatus,
+  TotpEnrollment,
+  enrollTotp,
+  generateRecoveryCodes,
+  getMfaStatus,
+  redeemRecoveryCode as redeemRecoveryCodeRow,
+  saveRecoveryCodes,
+  unenrollTotp,
+  verifyTotp,
+} from '../services/mfa';
 import { useVisibilityRefresh } from '../hooks/useVisibilityRefresh';
 
-interface AddUserResult {
+interface LoginResult {
+  success: boolean;
+  error?: string;
+}
+
+// What a signed-in user must do before using the app: wait while
+// two-factor is checked, enter their code, or set up an authenticator
+// 'unavailable': the status could not be loaded, so the app stays closed
+export type MfaGate = 'checking' | 'challenge' | 'enroll' | 'unavailable' | null;
+
+interface AcceptInviteResult {
   success: boolean;
   error?: string;
   requiresEmailConfirmation?: boolean;
@@ -14,15 +56,43 @@ interface AddUserResult {
 interface AuthContextType {
   currentUser: User | null;
   users: User[];
-  login: (email: string, password: string) => Promise<boolean>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  // Emails a one-time sign-in link to an existing account
+  loginWithMagicLink: (email: string) => Promise<LoginResult>;
+  // Leaves for the identity provider, which returns to /auth/sign-in
+  loginWithSSO: (provider: SSOProvider) => Promise<LoginResult>;
+  // Finishes a sign-in link or single sign-on once back on /auth/sign-in
+  completeSignIn: () => Promise<LoginResult>;
   logout: () => Promise<void>;
-  addUser: (userData: Omit<User, 'id' | 'createdAt'>) => Promise<AddUserResult>;
+  invites: Invite[]; // Admins only
+  inviteUser: (invite: Omit<NewInvite, 'invitedBy'>) => Promise<Invite>;
+  resendInvite: (id: string) => Promise<Invite>;
+  revokeInvite: (id: string) => Promise<void>;
+  acceptInvite: (token: string, password: string) => Promise<AcceptInviteResult>;
   updateUser: (id: string, userData: Partial<User>) => Promise<void>;
   deleteUser: (id: string) => Promise<void>;
   changePassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
+  mfaStatus: MfaStatus;
+  mfaGate: MfaGate;
+  mfaRequiredForAdmins: boolean;
+  refreshMfaStatus: () => Promise<MfaStatus>;
+  startMfaEnrollment: () => Promise<TotpEnrollment>;
+  // Verifies the first code and returns the recovery codes, shown once. Call
+  // refreshMfaStatus once they are saved; the sign-in gate waits for it.
+  finishMfaEnrollment: (factorId: string, code: string) => Promise<string[]>;
+  // Signing in and step-up both verify a code for the enrolled authenticator
+  verifyMfa: (code: string) => Promise<void>;
+  redeemRecoveryCode: (code: string) => Promise<boolean>;
+  regenerateRecoveryCodes: () => Promise<string[]>;
+  disableMfa: () => Promise<void>;
   getUserById: (id: string) => User | undefined;
   getUsersByDepartment: (department: string) => User[];
   getUsersByRole: (role: UserRole) => User[];
+  roles: Role[];
+  // Pass the department of what is being changed for department-scoped permissions
+  hasPermission: (permission: Permission, department?: string) => boolean;
+  saveRole: (role: Role) => Promise<void>;
+  deleteRole: (id: string) => Promise<void>;
   isAuthenticated: boolean;
   isAdmin: boolean;
   loading: boolean;
@@ -53,15 +123,17 @@ const mapProfileToUser = (profile: any, authUser?: SupabaseUser): User => {
   return {
     id: profile.id,
     email: profile.email,
-    password: '', // Password not stored in frontend
     firstName: profile.first_name,
     lastName: profile.last_name,
     role: profile.role as UserRole,
+    roleId: profile.role_id || undefined,
     department: profile.department,
+    departments: profile.departments || [],
     createdAt: profile.created_at,
     isActive: profile.is_active,
     invitedBy: profile.invited_by,
     avatar: profile.avatar_url,
+    timeZone: profile.time_zone || undefined,
     notificationPreferences: profile.notification_preferences || {
       pushEnabled: true,
       emailEnabled: true,
@@ -72,6 +144,48 @@ const mapProfileToUser = (profile: any, authUser?: SupabaseUser): User => {
   };
 };
 
+// localStorage mode keeps a SHA-256 hash per user, never the password itself
+const CREDENTIALS_KEY = 'mediamaple_credentials';
+
+const hashPassword = async (userId: string, password: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${userId}:${password}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const readCredentials = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(CREDENTIALS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveCredential = async (userId: string, password: string) => {
+  const hash = await hashPassword(userId, password);
+  localStorage.setItem(CREDENTIALS_KEY, JSON.stringify({ ...readCredentials(), [userId]: hash }));
+};
+
+const checkCredential = async (userId: string, password: string) =>
+  readCredentials()[userId] === await hashPassword(userId, password);
+
+// Before migration v24 there are no login settings, so only passwords
+const loadLoginOptions = async (): Promise<LoginOptions> => {
+  try {
+    return await fetchLoginOptions();
+  } catch {
+    return DEFAULT_LOGIN_SETTINGS;
+  }
+};
+
+// How the current session was signed in, from its most recent method
+const toSignInMethod = (methods: { method: string; timestamp: number }[] = []): SignInMethod => {
+  const latest = [...methods].sort((a, b) => b.timestamp - a.timestamp)[0];
+  if (latest?.method === 'oauth') return 'sso';
+  return latest?.method === 'password' ? 'password' : 'magic_link';
+};
+
+const SIGN_IN_REDIRECT_PATH = '/auth/sign-in';
+
 // Session timeout settings (in milliseconds)
 const SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
 const WARNING_BEFORE_TIMEOUT = 5 * 60 * 1000; // Show warning 5 minutes before timeout
@@ -79,13 +193,22 @@ const WARNING_BEFORE_TIMEOUT = 5 * 60 * 1000; // Show warning 5 minutes before t
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [users, setUsers] = useState<User[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [invites, setInvites] = useState<Invite[]>([]);
   const [loading, setLoading] = useState(true);
   const [sessionExpiryWarning, setSessionExpiryWarning] = useState(false);
+  const [mfaStatus, setMfaStatus] = useState<MfaStatus>(EMPTY_MFA_STATUS);
+  const [mfaCheckedFor, setMfaCheckedFor] = useState<string | null>(null);
+  const [mfaStatusFailed, setMfaStatusFailed] = useState(false);
+  const [mfaRequiredForAdmins, setMfaRequiredForAdmins] = useState(false);
   const useSupabase = isSupabaseConfigured();
 
   const sessionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const warningTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastActivityRef = useRef<number>(Date.now());
+  // Set while a sign-in is checked against the login settings, so the auth
+  // listener does not let a rejected user in first
+  const checkingSignInRef = useRef(false);
 
   // Load all users from database
   const loadUsers = useCallback(async () => {
@@ -106,6 +229,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, [useSupabase]);
 
+  const loadRoles = useCallback(async () => {
+    try {
+      setRoles(await fetchRoles());
+    } catch {
+      // Keep the roles we have; permission checks fall back to admin-only
+    }
+  }, []);
+
+  const loadInvites = useCallback(async () => {
+    try {
+      setInvites(await fetchInvites());
+    } catch {
+      // Before migration v23 there is no invites table
+    }
+  }, []);
+
   // Initialize: Check for existing session and load users
   useEffect(() => {
     const initializeAuth = async () => {
@@ -121,12 +260,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         if (storedUsers) {
           const parsedUsers = JSON.parse(storedUsers);
           // Filter out old default test users that may have been cached
-          const cleanedUsers = parsedUsers.filter((u: User) =>
+          let cleanedUsers = parsedUsers.filter((u: User) =>
             !u.id.startsWith('user_admin_default') &&
             !u.id.startsWith('user_team_')
           );
+          // Earlier versions stored passwords in plain text on the user
+          const plaintextUsers = cleanedUsers.filter((u: any) => u.password);
+          for (const user of plaintextUsers) {
+            await saveCredential(user.id, user.password);
+          }
+          cleanedUsers = cleanedUsers.map(({ password, ...user }: any) => user);
           setUsers(cleanedUsers);
-          if (cleanedUsers.length !== parsedUsers.length) {
+          if (cleanedUsers.length !== parsedUsers.length || plaintextUsers.length > 0) {
             localStorage.setItem('mediamaple_users', JSON.stringify(cleanedUsers));
           }
         } else {
@@ -135,7 +280,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         }
 
         if (storedCurrentUser) {
-          const parsedUser = JSON.parse(storedCurrentUser);
+          const { password, ...parsedUser } = JSON.parse(storedCurrentUser);
           // Don't restore if it was a default test user
           if (!parsedUser.id.startsWith('user_admin_default') && !parsedUser.id.startsWith('user_team_')) {
             setCurrentUser(parsedUser);
@@ -144,6 +289,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           }
         }
 
+        await loadRoles();
+
         console.log('[Auth] localStorage mode - setting loading to false');
         setLoading(false);
         return;
@@ -179,7 +326,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
         // Load all users (for admin features)
         console.log('[Auth] Loading users...');
-        await loadUsers();
+        await Promise.all([loadUsers(), loadRoles()]);
         console.log('[Auth] Users loaded');
 
         console.log('[Auth] Initialization complete - setting loading to false');
@@ -214,7 +361,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
                 .eq('id', session.user.id)
                 .single();
 
-              if (profile) {
+              if (profile && !checkingSignInRef.current) {
                 setCurrentUser(mapProfileToUser(profile, session.user));
               }
             }, 0);
@@ -250,12 +397,92 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           loadUsers();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'roles',
+        },
+        () => {
+          loadRoles();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'invites',
+        },
+        () => {
+          // Only admins can read invites, so only they get these
+          loadInvites();
+        }
+      )
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [useSupabase, loadUsers]);
+  }, [useSupabase, loadUsers, loadRoles, loadInvites]);
+
+  // Pending invites are an admin's concern
+  const isAdminUser = currentUser?.role === 'admin';
+  useEffect(() => {
+    if (isAdminUser) {
+      loadInvites();
+    } else {
+      setInvites([]);
+    }
+  }, [isAdminUser, loadInvites]);
+
+  // Never lets people in on a failed check: the gate stays closed until a retry works
+  const refreshMfaStatus = useCallback(async (): Promise<MfaStatus> => {
+    try {
+      const status = await getMfaStatus();
+      setMfaStatus(status);
+      setMfaStatusFailed(false);
+      return status;
+    } catch {
+      setMfaStatusFailed(true);
+      return EMPTY_MFA_STATUS;
+    }
+  }, []);
+
+  // Two-factor is checked once per signed-in user, before the app opens
+  const currentUserId = currentUser?.id;
+  useEffect(() => {
+    if (!useSupabase || !currentUserId) {
+      setMfaStatus(EMPTY_MFA_STATUS);
+      setMfaStatusFailed(false);
+      setMfaCheckedFor(null);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([refreshMfaStatus(), loadLoginOptions()]).then(([, options]) => {
+      if (cancelled) return;
+      setMfaRequiredForAdmins(options.mfaRequiredForAdmins);
+      setMfaCheckedFor(currentUserId);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [useSupabase, currentUserId, refreshMfaStatus]);
+
+  let mfaGate: MfaGate = null;
+  if (useSupabase && currentUser) {
+    if (mfaCheckedFor !== currentUser.id) {
+      mfaGate = 'checking';
+    } else if (mfaStatusFailed) {
+      mfaGate = 'unavailable';
+    } else if (mfaStatus.factorId && !mfaStatus.verified) {
+      mfaGate = 'challenge';
+    } else if (currentUser.role === 'admin' && mfaRequiredForAdmins && !mfaStatus.factorId) {
+      mfaGate = 'enroll';
+    }
+  }
 
   // Refresh user data when tab becomes visible (ensures data is fresh when users return)
   const handleVisibilityRefresh = useCallback(() => {
@@ -267,14 +494,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   useVisibilityRefresh(handleVisibilityRefresh, 3000);
 
-  const login = async (email: string, password: string): Promise<boolean> => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     if (!useSupabase) {
       // Fallback to localStorage mode
       const user = users.find(
-        (u) => u.email.toLowerCase() === email.toLowerCase() && u.password === password && u.isActive
+        (u) => u.email.toLowerCase() === email.toLowerCase() && u.isActive
       );
 
-      if (user) {
+      if (user && await checkCredential(user.id, password)) {
         setCurrentUser(user);
         localStorage.setItem('mediamaple_current_user', JSON.stringify(user));
 
@@ -289,12 +516,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           entityTitle: `${user.firstName} ${user.lastName}`,
         });
 
-        return true;
+        return { success: true };
       }
 
-      return false;
+      return { success: false };
     }
 
+    checkingSignInRef.current = true;
     try {
       // Supabase authentication
       const { data, error } = await supabase.auth.signInWithPassword({
@@ -304,7 +532,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
       if (error) {
         console.error('Login error:', error);
-        return false;
+        return { success: false };
       }
 
       if (data.user) {
@@ -334,6 +562,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         }
 
         if (profile && !profileError && profile.is_active !== false) {
+          const rejection = getSignInRejection(await loadLoginOptions(), 'password', {
+            email: profile.email,
+            role: profile.role,
+          });
+          if (rejection) {
+            await supabase.auth.signOut();
+            return { success: false, error: rejection };
+          }
+
           const loggedInUser = mapProfileToUser(profile, data.user);
           setCurrentUser(loggedInUser);
 
@@ -346,18 +583,135 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             entityType: 'user',
             entityId: loggedInUser.id,
             entityTitle: `${loggedInUser.firstName} ${loggedInUser.lastName}`,
+            details: { method: 'password' },
           });
 
-          return true;
+          return { success: true };
         } else {
           console.error('Profile lookup failed:', { profileError, profile, userId: data.user.id });
         }
       }
 
-      return false;
+      return { success: false };
     } catch (error) {
       console.error('Login error:', error);
-      return false;
+      return { success: false };
+    } finally {
+      checkingSignInRef.current = false;
+    }
+  };
+
+  const loginWithMagicLink = async (email: string): Promise<LoginResult> => {
+    if (!useSupabase) {
+      return { success: false, error: 'Sign-in links need Supabase' };
+    }
+
+    const options = await loadLoginOptions();
+    if (!options.magicLinkEnabled) {
+      return { success: false, error: 'Sign-in links are turned off. Use your password instead.' };
+    }
+
+    // Links only sign in existing accounts; new people join through an invite or single sign-on
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: `${window.location.origin}${SIGN_IN_REDIRECT_PATH}`,
+      },
+    });
+
+    if (error) {
+      console.error('Error sending sign-in link:', error);
+      if (error.status === 429) {
+        return { success: false, error: 'Too many sign-in links requested. Try again in a minute.' };
+      }
+      // Otherwise report success anyway, so the form does not reveal which emails have accounts
+    }
+    return { success: true };
+  };
+
+  const loginWithSSO = async (provider: SSOProvider): Promise<LoginResult> => {
+    if (!useSupabase) {
+      return { success: false, error: 'Single sign-on needs Supabase' };
+    }
+
+    const options = await loadLoginOptions();
+    if (!options.ssoProviders.includes(provider)) {
+      return { success: false, error: 'This sign-on option is turned off' };
+    }
+
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: {
+        redirectTo: `${window.location.origin}${SIGN_IN_REDIRECT_PATH}`,
+        // Entra ID only shares the email address when asked for it
+        scopes: provider === 'azure' ? 'email' : undefined,
+        // With a single Workspace domain, Google only offers accounts from it
+        queryParams: provider === 'google' && options.allowedDomains.length === 1
+          ? { hd: options.allowedDomains[0] }
+          : undefined,
+      },
+    });
+
+    if (error) {
+      console.error('Error starting single sign-on:', error);
+      return { success: false, error: error.message };
+    }
+    return { success: true };
+  };
+
+  // Supabase has already read the session from the URL; this checks it
+  // against the login settings. New single sign-on accounts get their
+  // profile from the signup trigger (migration v24).
+  const completeSignIn = async (): Promise<LoginResult> => {
+    if (!useSupabase) {
+      return { success: false, error: 'Single sign-on needs Supabase' };
+    }
+
+    checkingSignInRef.current = true;
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) {
+        return { success: false, error: 'This sign-in link is invalid or has expired' };
+      }
+
+      const { data: assurance } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+      const method = toSignInMethod(assurance?.currentAuthenticationMethods);
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('id', session.user.id)
+        .single();
+
+      const rejection = !profile || profile.is_active === false
+        ? 'Your account is not active. Ask an admin for access.'
+        : getSignInRejection(await loadLoginOptions(), method, { email: profile.email, role: profile.role });
+      if (rejection) {
+        await supabase.auth.signOut();
+        return { success: false, error: rejection };
+      }
+
+      const signedInUser = mapProfileToUser(profile, session.user);
+      setCurrentUser(signedInUser);
+
+      logActivity({
+        userId: signedInUser.id,
+        userEmail: signedInUser.email,
+        userName: `${signedInUser.firstName} ${signedInUser.lastName}`,
+        action: 'user_login',
+        entityType: 'user',
+        entityId: signedInUser.id,
+        entityTitle: `${signedInUser.firstName} ${signedInUser.lastName}`,
+        details: { method },
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error('Sign-in error:', error);
+      return { success: false, error: 'Sign-in failed. Please try again.' };
+    } finally {
+      checkingSignInRef.current = false;
     }
   };
 
@@ -390,149 +744,189 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const addUser = async (userData: Omit<User, 'id' | 'createdAt'>): Promise<AddUserResult> => {
+  const inviteUser = async (newInvite: Omit<NewInvite, 'invitedBy'>): Promise<Invite> => {
+    if (currentUser?.role !== 'admin') {
+      throw new Error('Only admins can invite people');
+    }
+
+    const email = newInvite.email.trim().toLowerCase();
+    if (users.some(u => u.email.toLowerCase() === email)) {
+      throw new Error('Someone with this email already has an account');
+    }
+    if (invites.some(i => i.email.toLowerCase() === email && getInviteStatus(i) === 'pending')) {
+      throw new Error('This email already has a pending invite');
+    }
+
+    const invite = await createInvite({ ...newInvite, email, invitedBy: currentUser.id });
+    setInvites(prev => [invite, ...prev]);
+
+    logActivity({
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`,
+      action: 'user_invited',
+      entityType: 'user',
+      entityId: invite.id,
+      entityTitle: `${invite.firstName} ${invite.lastName}`,
+      details: {
+        newUserEmail: invite.email,
+        newUserRole: invite.role,
+        newUserDepartment: invite.department,
+      },
+    });
+
+    return invite;
+  };
+
+  // A new link and expiry; the old link stops working
+  const resendInvite = async (id: string): Promise<Invite> => {
+    if (currentUser?.role !== 'admin') {
+      throw new Error('Only admins can invite people');
+    }
+
+    const invite = await renewInvite(id);
+    setInvites(prev => prev.map(i => (i.id === id ? invite : i)));
+
+    logActivity({
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`,
+      action: 'invite_resent',
+      entityType: 'user',
+      entityId: id,
+      entityTitle: `${invite.firstName} ${invite.lastName}`,
+    });
+
+    return invite;
+  };
+
+  const revokeInvite = async (id: string) => {
+    if (currentUser?.role !== 'admin') {
+      throw new Error('Only admins can invite people');
+    }
+
+    const invite = invites.find(i => i.id === id);
+    await revokeInviteRow(id);
+    setInvites(prev => prev.map(i => (i.id === id ? { ...i, revokedAt: new Date().toISOString() } : i)));
+
+    logActivity({
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`,
+      action: 'invite_revoked',
+      entityType: 'user',
+      entityId: id,
+      entityTitle: invite ? `${invite.firstName} ${invite.lastName}` : undefined,
+    });
+  };
+
+  // The invitee chooses their password; role and departments come from the invite
+  const acceptInvite = async (token: string, password: string): Promise<AcceptInviteResult> => {
     if (!useSupabase) {
       // Fallback to localStorage mode
+      const invite = claimStoredInvite(token);
+      if (!invite) {
+        return { success: false, error: 'This invite link is no longer valid' };
+      }
+
       const newUser: User = {
-        ...userData,
         id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        email: invite.email,
+        firstName: invite.firstName,
+        lastName: invite.lastName,
+        role: invite.role,
+        roleId: invite.roleId,
+        department: invite.department,
+        departments: invite.departments || [],
         createdAt: new Date().toISOString(),
+        isActive: true,
+        invitedBy: invite.invitedBy,
+        notificationPreferences: {
+          pushEnabled: true,
+          emailEnabled: true,
+          calendarSyncEnabled: false,
+          taskReminders: true,
+          overdueAlerts: true,
+        },
       };
+      await saveCredential(newUser.id, password);
 
       const updatedUsers = [...users, newUser];
       setUsers(updatedUsers);
       localStorage.setItem('mediamaple_users', JSON.stringify(updatedUsers));
+      setCurrentUser(newUser);
+      localStorage.setItem('mediamaple_current_user', JSON.stringify(newUser));
 
-      // Log activity
-      if (currentUser) {
-        logActivity({
-          userId: currentUser.id,
-          userEmail: currentUser.email,
-          userName: `${currentUser.firstName} ${currentUser.lastName}`,
-          action: 'user_created',
-          entityType: 'user',
-          entityId: newUser.id,
-          entityTitle: `${userData.firstName} ${userData.lastName}`,
-          details: {
-            newUserEmail: userData.email,
-            newUserRole: userData.role,
-            newUserDepartment: userData.department,
-          },
-        });
-      }
+      logActivity({
+        userId: newUser.id,
+        userEmail: newUser.email,
+        userName: `${newUser.firstName} ${newUser.lastName}`,
+        action: 'invite_accepted',
+        entityType: 'user',
+        entityId: newUser.id,
+        entityTitle: `${newUser.firstName} ${newUser.lastName}`,
+      });
       return { success: true };
     }
 
     try {
-      // Create auth user in Supabase
-      const { data, error: authError } = await supabase.auth.signUp({
-        email: userData.email,
-        password: userData.password,
+      const invite = await fetchInviteByToken(token);
+      if (!invite) {
+        return { success: false, error: 'This invite link is no longer valid' };
+      }
+
+      // The signup trigger (migration v23) reads invite_token and applies the invite
+      const { data, error } = await supabase.auth.signUp({
+        email: invite.email,
+        password,
         options: {
           data: {
-            first_name: userData.firstName,
-            last_name: userData.lastName,
-            role: userData.role,
-            department: userData.department,
+            invite_token: token,
+            first_name: invite.firstName,
+            last_name: invite.lastName,
           },
           emailRedirectTo: window.location.origin,
         },
       });
 
-      if (authError) {
-        console.error('Error creating auth user:', authError);
-        return { success: false, error: authError.message };
+      if (error) {
+        console.error('Error accepting invite:', error);
+        return { success: false, error: error.message };
       }
 
       // If user already exists (identities empty in some Supabase configs), handle gracefully
       if (data.user && data.user.identities && data.user.identities.length === 0) {
-        return { success: false, error: 'A user with this email already exists' };
+        return { success: false, error: 'An account with this email already exists' };
       }
 
-      // Check if email confirmation is required (no session means confirmation is needed)
-      const requiresEmailConfirmation = !data.session;
-
-      if (data.user) {
-        // Wait a moment for the trigger to execute
-        await new Promise(resolve => setTimeout(resolve, 500));
-
-        // Check if profile was created by the trigger
-        const { data: existingProfile, error: checkError } = await supabase
-          .from('profiles')
-          .select('id')
-          .eq('id', data.user.id)
-          .single();
-
-        // If profile doesn't exist, create it manually
-        if (!existingProfile || checkError) {
-          console.log('Profile not created by trigger, creating manually...');
-
-          const { error: profileError } = await supabase
-            .from('profiles')
-            .insert({
-              id: data.user.id,
-              email: userData.email,
-              first_name: userData.firstName,
-              last_name: userData.lastName,
-              role: userData.role,
-              department: userData.department,
-              is_active: true,
-              invited_by: currentUser?.id || null,
-              notification_preferences: userData.notificationPreferences || {
-                pushEnabled: true,
-                emailEnabled: true,
-                calendarSyncEnabled: false,
-                taskReminders: true,
-                overdueAlerts: true,
-              },
-            });
-
-          if (profileError) {
-            console.error('Error creating profile manually:', profileError);
-            // The auth user was created but profile failed
-            // This is not ideal but we can try to continue
-            console.warn('Profile creation failed. User may need admin intervention.');
-          }
-        }
-      }
-
-      // Log activity
-      if (currentUser && data.user) {
+      // With a session the auth listener signs them in; otherwise they confirm their email first
+      if (data.session && data.user) {
         logActivity({
-          userId: currentUser.id,
-          userEmail: currentUser.email,
-          userName: `${currentUser.firstName} ${currentUser.lastName}`,
-          action: 'user_created',
+          userId: data.user.id,
+          userEmail: invite.email,
+          userName: `${invite.firstName} ${invite.lastName}`,
+          action: 'invite_accepted',
           entityType: 'user',
           entityId: data.user.id,
-          entityTitle: `${userData.firstName} ${userData.lastName}`,
-          details: {
-            newUserEmail: userData.email,
-            newUserRole: userData.role,
-            newUserDepartment: userData.department,
-            requiresEmailConfirmation,
-          },
+          entityTitle: `${invite.firstName} ${invite.lastName}`,
         });
       }
 
-      // Reload users to get the latest list
-      await loadUsers();
-
-      return {
-        success: true,
-        requiresEmailConfirmation
-      };
+      return { success: true, requiresEmailConfirmation: !data.session };
     } catch (error: any) {
-      console.error('Error adding user:', error);
-      return { success: false, error: error.message || 'Failed to create user' };
+      console.error('Error accepting invite:', error);
+      return { success: false, error: error.message || 'Failed to accept the invite' };
     }
   };
 
   const updateUser = async (id: string, userData: Partial<User>) => {
     const existingUser = users.find(u => u.id === id);
 
-    // Determine if this is a role change
-    const isRoleChange = userData.role && existingUser && userData.role !== existingUser.role;
+    // Determine if this is a role change (an explicit `roleId: undefined` removes the custom role)
+    const isRoleChange = existingUser && (
+      (userData.role && userData.role !== existingUser.role) ||
+      ('roleId' in userData && userData.roleId !== existingUser.roleId)
+    );
 
     if (!useSupabase) {
       // Fallback to localStorage mode
@@ -554,6 +948,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             changedFields: Object.keys(userData),
             previousRole: existingUser.role,
             newRole: userData.role || existingUser.role,
+            previousRoleId: existingUser.roleId,
+            newRoleId: 'roleId' in userData ? userData.roleId : existingUser.roleId,
           },
         });
       }
@@ -571,9 +967,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       if (userData.firstName !== undefined) updateData.first_name = userData.firstName;
       if (userData.lastName !== undefined) updateData.last_name = userData.lastName;
       if (userData.role !== undefined) updateData.role = userData.role;
+      if ('roleId' in userData) updateData.role_id = userData.roleId || null;
       if (userData.department !== undefined) updateData.department = userData.department;
+      if (userData.departments !== undefined) updateData.departments = userData.departments;
       if (userData.isActive !== undefined) updateData.is_active = userData.isActive;
       if (userData.avatar !== undefined) updateData.avatar_url = userData.avatar;
+      if (userData.timeZone !== undefined) updateData.time_zone = userData.timeZone || null;
       if (userData.notificationPreferences !== undefined) {
         updateData.notification_preferences = userData.notificationPreferences;
       }
@@ -615,6 +1014,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             changedFields: Object.keys(userData),
             previousRole: existingUser.role,
             newRole: userData.role || existingUser.role,
+            previousRoleId: existingUser.roleId,
+            newRoleId: 'roleId' in userData ? userData.roleId : existingUser.roleId,
           },
         });
       }
@@ -709,28 +1110,68 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   const getUsersByDepartment = (department: string): User[] => {
-    return users.filter((user) => user.department === department && user.isActive);
+    return users.filter((user) => isDepartmentMember(user, department) && user.isActive);
   };
 
   const getUsersByRole = (role: UserRole): User[] => {
     return users.filter((user) => user.role === role && user.isActive);
   };
 
+  const hasPermission = useCallback(
+    (permission: Permission, department?: string) => userHasPermission(currentUser, roles, permission, department),
+    [currentUser, roles]
+  );
+
+  const saveRole = async (role: Role) => {
+    if (currentUser?.role !== 'admin') {
+      throw new Error('Only admins can change roles');
+    }
+    const isNew = !roles.some(r => r.id === role.id);
+    const saved = await saveRoleRow(role);
+    setRoles(prev => (isNew ? [...prev, saved] : prev.map(r => (r.id === saved.id ? saved : r)))
+      .sort((a, b) => a.name.localeCompare(b.name)));
+
+    logActivity({
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`,
+      action: isNew ? 'role_created' : 'role_updated',
+      entityType: 'system',
+      entityId: saved.id,
+      entityTitle: saved.name,
+      details: { permissions: saved.permissions },
+    });
+  };
+
+  const deleteRole = async (id: string) => {
+    if (currentUser?.role !== 'admin') {
+      throw new Error('Only admins can change roles');
+    }
+    const role = roles.find(r => r.id === id);
+    await deleteRoleRow(id);
+    setRoles(prev => prev.filter(r => r.id !== id));
+
+    logActivity({
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`,
+      action: 'role_deleted',
+      entityType: 'system',
+      entityId: id,
+      entityTitle: role?.name,
+    });
+  };
+
   const changePassword = async (currentPassword: string, newPassword: string): Promise<{ success: boolean; error?: string }> => {
     if (!useSupabase) {
       // In localStorage mode, verify current password and update
       if (currentUser) {
         // Verify current password
-        if (currentUser.password !== currentPassword) {
+        if (!await checkCredential(currentUser.id, currentPassword)) {
           return { success: false, error: 'Current password is incorrect' };
         }
 
-        const updatedUsers = users.map((user) =>
-          user.id === currentUser.id ? { ...user, password: newPassword } : user
-        );
-        setUsers(updatedUsers);
-        localStorage.setItem('mediamaple_users', JSON.stringify(updatedUsers));
-        setCurrentUser({ ...currentUser, password: newPassword });
+        await saveCredential(currentUser.id, newPassword);
 
         // Log activity
         logActivity({
@@ -859,18 +1300,122 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, [currentUser, sessionExpiryWarning, resetSessionTimers, clearSessionTimers]);
 
+  const startMfaEnrollment = async (): Promise<TotpEnrollment> => {
+    if (!useSupabase) {
+      throw new Error('Two-factor sign-in needs Supabase');
+    }
+    return enrollTotp('Authenticator app');
+  };
+
+  const finishMfaEnrollment = async (factorId: string, code: string): Promise<string[]> => {
+    await verifyTotp(factorId, code);
+    const recoveryCodes = generateRecoveryCodes();
+    await saveRecoveryCodes(recoveryCodes);
+
+    if (currentUser) {
+      logActivity({
+        userId: currentUser.id,
+        userEmail: currentUser.email,
+        userName: `${currentUser.firstName} ${currentUser.lastName}`,
+        action: 'mfa_enabled',
+        entityType: 'user',
+        entityId: currentUser.id,
+        entityTitle: `${currentUser.firstName} ${currentUser.lastName}`,
+      });
+    }
+
+    return recoveryCodes;
+  };
+
+  const verifyMfa = async (code: string) => {
+    if (!mfaStatus.factorId) {
+      throw new Error('No authenticator is set up');
+    }
+    await verifyTotp(mfaStatus.factorId, code);
+    await refreshMfaStatus();
+  };
+
+  const redeemRecoveryCode = async (code: string): Promise<boolean> => {
+    const redeemed = await redeemRecoveryCodeRow(code);
+    if (!redeemed) return false;
+
+    await refreshMfaStatus();
+    if (currentUser) {
+      logActivity({
+        userId: currentUser.id,
+        userEmail: currentUser.email,
+        userName: `${currentUser.firstName} ${currentUser.lastName}`,
+        action: 'mfa_recovery_code_used',
+        entityType: 'user',
+        entityId: currentUser.id,
+        entityTitle: `${currentUser.firstName} ${currentUser.lastName}`,
+      });
+    }
+    return true;
+  };
+
+  // Needs a code entered in the last few minutes; ask for one with useStepUp first
+  const regenerateRecoveryCodes = async (): Promise<string[]> => {
+    const recoveryCodes = generateRecoveryCodes();
+    await saveRecoveryCodes(recoveryCodes);
+    return recoveryCodes;
+  };
+
+  const disableMfa = async () => {
+    if (!mfaStatus.factorId) return;
+    if (currentUser?.role === 'admin' && mfaRequiredForAdmins) {
+      throw new Error('Two-factor sign-in is required for admins');
+    }
+
+    await unenrollTotp(mfaStatus.factorId);
+    await refreshMfaStatus();
+
+    if (currentUser) {
+      logActivity({
+        userId: currentUser.id,
+        userEmail: currentUser.email,
+        userName: `${currentUser.firstName} ${currentUser.lastName}`,
+        action: 'mfa_disabled',
+        entityType: 'user',
+        entityId: currentUser.id,
+        entityTitle: `${currentUser.firstName} ${currentUser.lastName}`,
+      });
+    }
+  };
+
   const value: AuthContextType = {
     currentUser,
     users,
     login,
+    loginWithMagicLink,
+    loginWithSSO,
+    completeSignIn,
     logout,
-    addUser,
+    invites,
+    inviteUser,
+    resendInvite,
+    revokeInvite,
+    acceptInvite,
     updateUser,
     deleteUser,
     changePassword,
+    mfaStatus,
+    mfaGate,
+    mfaRequiredForAdmins,
+    refreshMfaStatus,
+    startMfaEnrollment,
+    finishMfaEnrollment,
+    verifyMfa,
+    redeemRecoveryCode,
+    regenerateRecoveryCodes,
+    disableMfa,
     getUserById,
     getUsersByDepartment,
     getUsersByRole,
+    roles,
+    hasPermission,
+    saveRole,
+    deleteRole,
     isAuthenticated: currentUser !== null,
     isAdmin: currentUser?.role === 'admin',
     loading,
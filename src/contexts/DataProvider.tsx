@@ -1,9 +1,12 @@
 import React, { ReactNode } from 'react';
 import { SOPProvider } from './SOPContext';
+import { AcknowledgementProvider } from './AcknowledgementContext';
+import { QuizProvider } from './QuizContext';
 import { TaskProvider } from './TaskContext';
 import { JobProvider } from './JobContext';
 import { EventProvider } from './EventContext';
 import { WorkHoursProvider } from './WorkHoursContext';
+import { GoogleCalendarSyncProvider } from './GoogleCalendarSyncContext';
 
 /**
  * DataProvider - Combines all data-related context providers
@@ -18,10 +21,13 @@ import { WorkHoursProvider } from './WorkHoursContext';
  * - ActivityLogProvider (audit trail - separate for admin-only access)
  * - DataProvider (all data contexts combined)
  *   ├── SOPProvider
+ *   ├── AcknowledgementProvider
+ *   ├── QuizProvider
  *   ├── TaskProvider
  *   ├── JobProvider
  *   ├── EventProvider
- *   └── WorkHoursProvider
+ *   ├── WorkHoursProvider
+ *   └── GoogleCalendarSyncProvider (needs Event and Task)
  */
 interface DataProviderProps {
   children: ReactNode;
@@ -30,15 +36,21 @@ interface DataProviderProps {
 export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
   return (
     <SOPProvider>
-      <TaskProvider>
-        <JobProvider>
-          <EventProvider>
-            <WorkHoursProvider>
-              {children}
-            </WorkHoursProvider>
-          </EventProvider>
-        </JobProvider>
-      </TaskProvider>
+      <AcknowledgementProvider>
+        <QuizProvider>
+          <TaskProvider>
+            <JobProvider>
+              <EventProvider>
+                <WorkHoursProvider>
+                  <GoogleCalendarSyncProvider>
+                    {children}
+                  </GoogleCalendarSyncProvider>
+                </WorkHoursProvider>
+              </EventProvider>
+            </JobProvider>
+          </TaskProvider>
+        </QuizProvider>
+      </AcknowledgementProvider>
     </SOPProvider>
   );
 };
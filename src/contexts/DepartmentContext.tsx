@@ -0,0 +1,169 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { Department } from '../types';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  fetchDepartments,
+  addDepartment as addDepartmentRow,
+  deleteDepartment as deleteDepartmentRow,
+} from '../services/departments';
+import { getUserDepartments } from '../utils/departments';
+import { logActivity } from '../utils/activityLogger';
+import { useAuth } from './AuthContext';
+
+export const ALL_DEPARTMENTS = 'all';
+
+interface DepartmentContextType {
+  departments: Department[];
+  departmentNames: string[];
+  // Departments the switcher offers: all of them for admins, else the user's own
+  switchableDepartments: string[];
+  activeDepartment: string; // A department name, or ALL_DEPARTMENTS
+  setActiveDepartment: (department: string) => void;
+  // Whether something in these departments shows under the switcher's selection
+  inActiveDepartment: (departments: string | string[]) => boolean;
+  addDepartment: (name: string, description?: string) => Promise<void>;
+  deleteDepartment: (id: string) => Promise<void>;
+  loading: boolean;
+}
+
+const DepartmentContext = createContext<DepartmentContextType | undefined>(undefined);
+
+const ACTIVE_STORAGE_KEY = 'mediamaple_active_department';
+
+export const DepartmentProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [activeDepartment, setActiveDepartmentState] = useState<string>(ALL_DEPARTMENTS);
+  const [loading, setLoading] = useState(true);
+  const { currentUser, isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+  const useSupabase = isSupabaseConfigured();
+
+  const loadDepartments = useCallback(async () => {
+    try {
+      setDepartments(await fetchDepartments());
+    } catch {
+      // Before migration v22 there is no table; forms fall back to the departments in use
+    }
+  }, []);
+
+  // Initialize: Load departments (only after auth is ready)
+  useEffect(() => {
+    if (authLoading) return;
+    if (useSupabase && !isAuthenticated) {
+      setLoading(false);
+      return;
+    }
+
+    loadDepartments().finally(() => setLoading(false));
+  }, [useSupabase, authLoading, isAuthenticated, loadDepartments]);
+
+  // Subscribe to real-time changes so new departments show up everywhere
+  useEffect(() => {
+    if (!useSupabase) return;
+
+    const channel = supabase
+      .channel('departments_changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'departments' }, () => {
+        loadDepartments();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [useSupabase, loadDepartments]);
+
+  // The switcher remembers its selection per user
+  useEffect(() => {
+    if (!currentUser) return;
+    setActiveDepartmentState(localStorage.getItem(`${ACTIVE_STORAGE_KEY}_${currentUser.id}`) || ALL_DEPARTMENTS);
+  }, [currentUser]);
+
+  const setActiveDepartment = useCallback((department: string) => {
+    setActiveDepartmentState(department);
+    if (currentUser) {
+      localStorage.setItem(`${ACTIVE_STORAGE_KEY}_${currentUser.id}`, department);
+    }
+  }, [currentUser]);
+
+  const departmentNames = Array.from(new Set([
+    ...departments.map(department => department.name),
+    ...getUserDepartments(currentUser),
+  ])).sort();
+  const switchableDepartments = isAdmin ? departmentNames : getUserDepartments(currentUser);
+
+  // A remembered department the user has since left shows everything
+  const effectiveDepartment = switchableDepartments.includes(activeDepartment) ? activeDepartment : ALL_DEPARTMENTS;
+
+  const inActiveDepartment = useCallback((value: string | string[]) => {
+    if (effectiveDepartment === ALL_DEPARTMENTS) return true;
+    return (Array.isArray(value) ? value : [value]).includes(effectiveDepartment);
+  }, [effectiveDepartment]);
+
+  const addDepartment = useCallback(async (name: string, description?: string) => {
+    if (!isAdmin || !currentUser) {
+      throw new Error('Only admins can manage departments');
+    }
+    if (departments.some(department => department.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`${name} already exists`);
+    }
+
+    const department = await addDepartmentRow(name, description);
+    setDepartments(prev => [...prev, department].sort((a, b) => a.name.localeCompare(b.name)));
+
+    logActivity({
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`,
+      action: 'department_created',
+      entityType: 'system',
+      entityId: department.id,
+      entityTitle: department.name,
+    });
+  }, [isAdmin, currentUser, departments]);
+
+  const deleteDepartment = useCallback(async (id: string) => {
+    if (!isAdmin || !currentUser) {
+      throw new Error('Only admins can manage departments');
+    }
+
+    const department = departments.find(d => d.id === id);
+    await deleteDepartmentRow(id);
+    setDepartments(prev => prev.filter(d => d.id !== id));
+
+    logActivity({
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`,
+      action: 'department_deleted',
+      entityType: 'system',
+      entityId: id,
+      entityTitle: department?.name,
+    });
+  }, [isAdmin, currentUser, departments]);
+
+  const value: DepartmentContextType = {
+    departments,
+    departmentNames,
+    switchableDepartments,
+    activeDepartment: effectiveDepartment,
+    setActiveDepartment,
+    inActiveDepartment,
+    addDepartment,
+    deleteDepartment,
+    loading,
+  };
+
+  return (
+    <DepartmentContext.Provider value={value}>
+      {children}
+    </DepartmentContext.Provider>
+  );
+};
+
+export const useDepartments = () => {
+  const context = useContext(DepartmentContext);
+  if (context === undefined) {
+    throw new Error('useDepartments must be used within a DepartmentProvider');
+  }
+  return context;
+};
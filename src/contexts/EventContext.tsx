@@ -1,10 +1,21 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { CalendarEvent, EventTag, EventTemplate } from '../types';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  STORES,
+  getAllItems,
+  isOnline,
+  replaceAllItems,
+  saveCalendarEventOffline,
+  saveEventTagOffline,
+  saveEventTemplateOffline,
+} from '../lib/indexedDB';
 import { useAuth } from './AuthContext';
+import { logActivity } from '../utils/activityLogger';
 
 interface EventContextType {
   events: CalendarEvent[];
-  addEvent: (event: Omit<CalendarEvent, 'id' | 'createdAt' | 'createdBy'>) => Promise<void>;
+  addEvent: (event: Omit<CalendarEvent, 'id' | 'createdAt' | 'createdBy'>) => Promise<CalendarEvent>;
   updateEvent: (id: string, event: Partial<CalendarEvent>) => Promise<void>;
   deleteEvent: (id: string) => Promise<void>;
   getEventById: (id: string) => CalendarEvent | undefined;
@@ -29,10 +40,96 @@ const EventContext = createContext<EventContextType | undefined>(undefined);
 const STORAGE_KEY = 'mediamaple_calendar_events';
 const TAGS_STORAGE_KEY = 'mediamaple_event_tags';
 const TEMPLATES_STORAGE_KEY = 'mediamaple_event_templates';
+// Set per user once their localStorage calendar has been uploaded to Supabase
+const MIGRATED_STORAGE_KEY = 'mediamaple_calendar_migrated';
 
-// Generate unique ID
-const generateId = () => {
-  return `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+const ONLINE_RELOAD_DELAY_MS = 3000;
+
+// Generate unique ID (also used as the database id, so offline creates keep it)
+const generateId = (prefix = 'event') => {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+const readLocal = <T,>(key: string): T[] => {
+  const stored = localStorage.getItem(key);
+  return stored ? JSON.parse(stored) : [];
+};
+
+// Helper function to map Supabase calendar event to app CalendarEvent type
+const mapSupabaseEvent = (dbEvent: any): CalendarEvent => {
+  return {
+    id: dbEvent.id,
+    title: dbEvent.title,
+    description: dbEvent.description || '',
+    startDate: dbEvent.start_date,
+    startTime: dbEvent.start_time || undefined,
+    endDate: dbEvent.end_date || undefined,
+    endTime: dbEvent.end_time || undefined,
+    location: dbEvent.location || undefined,
+    isAllDay: dbEvent.is_all_day || false,
+    color: dbEvent.color,
+    attendees: dbEvent.attendees || [],
+    reminders: dbEvent.reminders || undefined,
+    isRecurring: dbEvent.is_recurring || false,
+    recurrencePattern: dbEvent.recurrence_pattern || undefined,
+    notes: dbEvent.notes || undefined,
+    tags: dbEvent.tags || [],
+    icsUid: dbEvent.ics_uid || undefined,
+    createdBy: dbEvent.created_by,
+    createdAt: dbEvent.created_at,
+    updatedAt: dbEvent.updated_at,
+  };
+};
+
+// Helper function to map Supabase event tag to app EventTag type
+const mapSupabaseTag = (dbTag: any): EventTag => {
+  return {
+    id: dbTag.id,
+    name: dbTag.name,
+    createdBy: dbTag.created_by,
+    createdAt: dbTag.created_at,
+  };
+};
+
+// Helper function to map Supabase event template to app EventTemplate type
+const mapSupabaseTemplate = (dbTemplate: any): EventTemplate => {
+  return {
+    id: dbTemplate.id,
+    name: dbTemplate.name,
+    title: dbTemplate.title,
+    description: dbTemplate.description || '',
+    duration: dbTemplate.duration ?? undefined,
+    location: dbTemplate.location || undefined,
+    isAllDay: dbTemplate.is_all_day || false,
+    color: dbTemplate.color,
+    attendees: dbTemplate.attendees || [],
+    reminders: dbTemplate.reminders || undefined,
+    isRecurring: dbTemplate.is_recurring || false,
+    recurrencePattern: dbTemplate.recurrence_pattern || undefined,
+    notes: dbTemplate.notes || undefined,
+    tags: dbTemplate.tags || [],
+    createdBy: dbTemplate.created_by,
+    createdAt: dbTemplate.created_at,
+  };
+};
+
+// Helper function to map an app event, tag or template (or a set of changes
+// to one) to a Supabase row. Cleared fields are written as null.
+const toSupabaseRow = (item: object): { [column: string]: unknown } => {
+  const row: { [column: string]: unknown } = {};
+  Object.entries(item).forEach(([key, value]) => {
+    row[key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`)] = value === undefined ? null : value;
+  });
+  return row;
+};
+
+// Changes never rewrite who created a row or when
+const toSupabaseUpdate = (updates: object) => {
+  const row = toSupabaseRow(updates);
+  delete row.id;
+  delete row.created_by;
+  delete row.created_at;
+  return { ...row, updated_at: new Date().toISOString() };
 };
 
 export const EventProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
@@ -40,59 +137,197 @@ export const EventProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   const [tags, setTags] = useState<EventTag[]>([]);
   const [templates, setTemplates] = useState<EventTemplate[]>([]);
   const [loading, setLoading] = useState(true);
-  const { currentUser } = useAuth();
+  const { currentUser, isAuthenticated, isAdmin, hasPermission, loading: authLoading } = useAuth();
+  const useSupabase = isSupabaseConfigured();
 
-  // Load events, tags, and templates from localStorage on mount
-  useEffect(() => {
-    const loadData = () => {
+  // Offline edits are built from the current copy, which may be newer than this render's
+  const latest = useRef({ events, templates });
+  latest.current = { events, templates };
+
+  // Load events, tags and templates from database (or the offline copy)
+  const loadEvents = useCallback(async () => {
+    if (!useSupabase) return;
+
+    if (!isOnline()) {
       try {
-        // Load events
-        const storedEvents = localStorage.getItem(STORAGE_KEY);
-        if (storedEvents) {
-          setEvents(JSON.parse(storedEvents));
-        }
+        const [offlineEvents, offlineTags, offlineTemplates] = await Promise.all([
+          getAllItems(STORES.CALENDAR_EVENTS),
+          getAllItems(STORES.EVENT_TAGS),
+          getAllItems(STORES.EVENT_TEMPLATES),
+        ]);
+        setEvents(offlineEvents);
+        setTags(offlineTags);
+        setTemplates(offlineTemplates);
+      } catch (error) {
+        console.error('Error loading offline calendar data:', error);
+      }
+      return;
+    }
 
-        // Load tags
-        const storedTags = localStorage.getItem(TAGS_STORAGE_KEY);
-        if (storedTags) {
-          setTags(JSON.parse(storedTags));
-        }
+    try {
+      const [eventsResult, tagsResult, templatesResult] = await Promise.all([
+        supabase.from('calendar_events').select('*').order('start_date', { ascending: true }),
+        supabase.from('event_tags').select('*').order('name', { ascending: true }),
+        supabase.from('event_templates').select('*').order('created_at', { ascending: true }),
+      ]);
+
+      if (eventsResult.data && !eventsResult.error) {
+        const mappedEvents = eventsResult.data.map((e: any) => mapSupabaseEvent(e));
+        setEvents(mappedEvents);
+        replaceAllItems(STORES.CALENDAR_EVENTS, mappedEvents).catch(error =>
+          console.error('Error caching calendar events offline:', error)
+        );
+      }
+      if (tagsResult.data && !tagsResult.error) {
+        const mappedTags = tagsResult.data.map((t: any) => mapSupabaseTag(t));
+        setTags(mappedTags);
+        replaceAllItems(STORES.EVENT_TAGS, mappedTags).catch(error =>
+          console.error('Error caching event tags offline:', error)
+        );
+      }
+      if (templatesResult.data && !templatesResult.error) {
+        const mappedTemplates = templatesResult.data.map((t: any) => mapSupabaseTemplate(t));
+        setTemplates(mappedTemplates);
+        replaceAllItems(STORES.EVENT_TEMPLATES, mappedTemplates).catch(error =>
+          console.error('Error caching event templates offline:', error)
+        );
+      }
+    } catch (error) {
+      console.error('Error loading calendar data:', error);
+    }
+  }, [useSupabase]);
+
+  // One-time upload of the calendar this browser kept in localStorage before
+  // events moved to Supabase. Ids are kept, so running it twice is harmless;
+  // admins upload everything, everyone else only what they created.
+  const migrateLocalData = useCallback(async () => {
+    if (!currentUser || !isOnline()) return;
+
+    const migrationKey = `${MIGRATED_STORAGE_KEY}_${currentUser.id}`;
+    if (localStorage.getItem(migrationKey)) return;
+
+    const own = <T extends { createdBy: string }>(items: T[]) =>
+      items
+        .filter(item => isAdmin || !item.createdBy || item.createdBy === currentUser.id)
+        .map(item => ({ ...item, createdBy: item.createdBy || currentUser.id }));
+
+    try {
+      const uploads: [string, object[]][] = [
+        ['event_tags', own(readLocal<EventTag>(TAGS_STORAGE_KEY))],
+        ['event_templates', own(readLocal<EventTemplate>(TEMPLATES_STORAGE_KEY))],
+        ['calendar_events', own(readLocal<CalendarEvent>(STORAGE_KEY))],
+      ];
+
+      for (const [table, rows] of uploads) {
+        if (rows.length === 0) continue;
+        const { error } = await supabase
+          .from(table)
+          .upsert(rows.map(row => toSupabaseRow(row)), { onConflict: 'id', ignoreDuplicates: true });
+        if (error) throw error;
+      }
+
+      localStorage.setItem(migrationKey, new Date().toISOString());
+    } catch (error) {
+      // Left unmarked so the next load tries again
+      console.error('Error migrating local calendar data:', error);
+    }
+  }, [currentUser, isAdmin]);
 
-        // Load templates
-        const storedTemplates = localStorage.getItem(TEMPLATES_STORAGE_KEY);
-        if (storedTemplates) {
-          setTemplates(JSON.parse(storedTemplates));
+  // Initialize: Load data from Supabase or localStorage (only after auth is ready)
+  useEffect(() => {
+    // Wait for auth to finish loading before fetching data
+    if (authLoading) return;
+
+    const initializeData = async () => {
+      if (!useSupabase) {
+        // Fallback to localStorage mode
+        try {
+          setEvents(readLocal<CalendarEvent>(STORAGE_KEY));
+          setTags(readLocal<EventTag>(TAGS_STORAGE_KEY));
+          setTemplates(readLocal<EventTemplate>(TEMPLATES_STORAGE_KEY));
+        } catch (error) {
+          console.error('Error loading data from localStorage:', error);
+        } finally {
+          setLoading(false);
         }
-      } catch (error) {
-        console.error('Error loading data from localStorage:', error);
-      } finally {
+        return;
+      }
+
+      // Only load data if authenticated (Supabase requires auth for RLS)
+      if (!isAuthenticated) {
         setLoading(false);
+        return;
       }
+
+      await migrateLocalData();
+      await loadEvents();
+      setLoading(false);
     };
 
-    loadData();
-  }, []);
+    initializeData();
+  }, [useSupabase, authLoading, isAuthenticated, migrateLocalData, loadEvents]);
 
-  // Save events to localStorage whenever they change
+  // Subscribe to real-time changes for events, tags and templates
   useEffect(() => {
-    if (!loading) {
+    if (!useSupabase) return;
+
+    const channel = supabase
+      .channel('calendar_events_changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'calendar_events' }, () => {
+        loadEvents();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'event_tags' }, () => {
+        loadEvents();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'event_templates' }, () => {
+        loadEvents();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [useSupabase, loadEvents]);
+
+  // Reload once back online, after useOfflineSync has had a moment to push the
+  // queued offline edits (realtime picks up anything that syncs later)
+  useEffect(() => {
+    if (!useSupabase || !isAuthenticated) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handleOnline = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        migrateLocalData().then(loadEvents);
+      }, ONLINE_RELOAD_DELAY_MS);
+    };
+    window.addEventListener('online', handleOnline);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [useSupabase, isAuthenticated, migrateLocalData, loadEvents]);
+
+  // Save events to localStorage (fallback mode only)
+  useEffect(() => {
+    if (!useSupabase && !loading) {
       localStorage.setItem(STORAGE_KEY, JSON.stringify(events));
     }
-  }, [events, loading]);
+  }, [events, loading, useSupabase]);
 
-  // Save tags to localStorage whenever they change
+  // Save tags to localStorage (fallback mode only)
   useEffect(() => {
-    if (!loading) {
+    if (!useSupabase && !loading) {
       localStorage.setItem(TAGS_STORAGE_KEY, JSON.stringify(tags));
     }
-  }, [tags, loading]);
+  }, [tags, loading, useSupabase]);
 
-  // Save templates to localStorage whenever they change
+  // Save templates to localStorage (fallback mode only)
   useEffect(() => {
-    if (!loading) {
+    if (!useSupabase && !loading) {
       localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
     }
-  }, [templates, loading]);
+  }, [templates, loading, useSupabase]);
 
   const addEvent = useCallback(async (eventData: Omit<CalendarEvent, 'id' | 'createdAt' | 'createdBy'>) => {
     const newEvent: CalendarEvent = {
@@ -102,20 +337,106 @@ export const EventProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       createdAt: new Date().toISOString(),
     };
 
+    if (useSupabase && isOnline()) {
+      try {
+        const { error } = await supabase.from('calendar_events').insert(toSupabaseRow(newEvent));
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error adding event:', error);
+        throw error;
+      }
+    } else if (useSupabase) {
+      await saveCalendarEventOffline(newEvent, 'create');
+    }
+
     setEvents(prev => [...prev, newEvent]);
-  }, [currentUser]);
+
+    if (currentUser) {
+      logActivity({
+        userId: currentUser.id,
+        userEmail: currentUser.email,
+        userName: `${currentUser.firstName} ${currentUser.lastName}`,
+        action: 'event_created',
+        entityType: 'event',
+        entityId: newEvent.id,
+        entityTitle: newEvent.title,
+        details: { startDate: newEvent.startDate, attendees: newEvent.attendees },
+      });
+    }
+    return newEvent;
+  }, [useSupabase, currentUser]);
+
+  // Creators can change their events and attendees can reschedule them;
+  // anyone else needs manage_calendar. Matches the calendar_events RLS.
+  const assertCanEditEvent = useCallback((event: CalendarEvent | undefined, allowAttendees: boolean) => {
+    if (!event || !currentUser || hasPermission('manage_calendar')) return;
+    if (!event.createdBy || event.createdBy === currentUser.id) return;
+    if (allowAttendees && event.attendees.includes(currentUser.id)) return;
+    throw new Error("You don't have permission to change this event");
+  }, [currentUser, hasPermission]);
 
   const updateEvent = useCallback(async (id: string, updates: Partial<CalendarEvent>) => {
+    const updatedAt = new Date().toISOString();
+    const previous = latest.current.events.find(event => event.id === id);
+    assertCanEditEvent(previous, true);
+
+    if (useSupabase && isOnline()) {
+      try {
+        const { error } = await supabase
+          .from('calendar_events')
+          .update(toSupabaseUpdate(updates))
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error updating event:', error);
+        throw error;
+      }
+    } else if (useSupabase && previous) {
+      await saveCalendarEventOffline({ ...previous, ...updates, updatedAt }, 'update');
+    }
+
+    // Update local state optimistically
     setEvents(prev => prev.map(event =>
       event.id === id
-        ? { ...event, ...updates, updatedAt: new Date().toISOString() }
+        ? { ...event, ...updates, updatedAt }
         : event
     ));
-  }, []);
+
+    // Adding people to an event invites them
+    if (currentUser && previous && updates.attendees?.some(userId => !previous.attendees.includes(userId))) {
+      logActivity({
+        userId: currentUser.id,
+        userEmail: currentUser.email,
+        userName: `${currentUser.firstName} ${currentUser.lastName}`,
+        action: 'event_invited',
+        entityType: 'event',
+        entityId: id,
+        entityTitle: updates.title || previous.title,
+        details: { attendees: updates.attendees, previousAttendees: previous.attendees },
+      });
+    }
+  }, [useSupabase, currentUser, assertCanEditEvent]);
 
   const deleteEvent = useCallback(async (id: string) => {
+    assertCanEditEvent(latest.current.events.find(event => event.id === id), false);
+
+    if (useSupabase && isOnline()) {
+      try {
+        const { error } = await supabase.from('calendar_events').delete().eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error deleting event:', error);
+        throw error;
+      }
+    } else if (useSupabase) {
+      const existing = latest.current.events.find(event => event.id === id);
+      if (existing) {
+        await saveCalendarEventOffline(existing, 'delete');
+      }
+    }
+
     setEvents(prev => prev.filter(event => event.id !== id));
-  }, []);
+  }, [useSupabase, assertCanEditEvent]);
 
   const getEventById = useCallback((id: string) => {
     return events.find(event => event.id === id);
@@ -156,23 +477,56 @@ export const EventProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   // Tag CRUD operations
   const addTag = useCallback(async (name: string): Promise<EventTag> => {
     const newTag: EventTag = {
-      id: `tag_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: generateId('tag'),
       name: name.trim(),
       createdBy: currentUser?.id || '',
       createdAt: new Date().toISOString(),
     };
+
+    if (useSupabase && isOnline()) {
+      try {
+        const { error } = await supabase.from('event_tags').insert(toSupabaseRow(newTag));
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error adding tag:', error);
+        throw error;
+      }
+    } else if (useSupabase) {
+      await saveEventTagOffline(newTag, 'create');
+    }
+
     setTags(prev => [...prev, newTag]);
     return newTag;
-  }, [currentUser]);
+  }, [useSupabase, currentUser]);
 
   const deleteTag = useCallback(async (id: string) => {
+    // In Supabase the tag is removed from events and templates by a trigger
+    if (useSupabase && isOnline()) {
+      try {
+        const { error } = await supabase.from('event_tags').delete().eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error deleting tag:', error);
+        throw error;
+      }
+    } else if (useSupabase) {
+      const existing = tags.find(tag => tag.id === id);
+      if (existing) {
+        await saveEventTagOffline(existing, 'delete');
+      }
+    }
+
     setTags(prev => prev.filter(tag => tag.id !== id));
-    // Also remove this tag from all events that have it
+    // Also remove this tag from all events and templates that have it
     setEvents(prev => prev.map(event => ({
       ...event,
       tags: event.tags?.filter(tagId => tagId !== id),
     })));
-  }, []);
+    setTemplates(prev => prev.map(template => ({
+      ...template,
+      tags: template.tags?.filter(tagId => tagId !== id),
+    })));
+  }, [useSupabase, tags]);
 
   const getTagById = useCallback((id: string) => {
     return tags.find(tag => tag.id === id);
@@ -182,25 +536,71 @@ export const EventProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   const addTemplate = useCallback(async (templateData: Omit<EventTemplate, 'id' | 'createdAt' | 'createdBy'>): Promise<EventTemplate> => {
     const newTemplate: EventTemplate = {
       ...templateData,
-      id: `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: generateId('template'),
       createdBy: currentUser?.id || '',
       createdAt: new Date().toISOString(),
     };
+
+    if (useSupabase && isOnline()) {
+      try {
+        const { error } = await supabase.from('event_templates').insert(toSupabaseRow(newTemplate));
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error adding event template:', error);
+        throw error;
+      }
+    } else if (useSupabase) {
+      await saveEventTemplateOffline(newTemplate, 'create');
+    }
+
     setTemplates(prev => [...prev, newTemplate]);
     return newTemplate;
-  }, [currentUser]);
+  }, [useSupabase, currentUser]);
 
   const updateTemplate = useCallback(async (id: string, updates: Partial<EventTemplate>) => {
+    if (useSupabase && isOnline()) {
+      try {
+        const { error } = await supabase
+          .from('event_templates')
+          .update(toSupabaseUpdate(updates))
+          .eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error updating event template:', error);
+        throw error;
+      }
+    } else if (useSupabase) {
+      const existing = latest.current.templates.find(template => template.id === id);
+      if (existing) {
+        await saveEventTemplateOffline({ ...existing, ...updates }, 'update');
+      }
+    }
+
     setTemplates(prev => prev.map(template =>
       template.id === id
         ? { ...template, ...updates }
         : template
     ));
-  }, []);
+  }, [useSupabase]);
 
   const deleteTemplate = useCallback(async (id: string) => {
+    if (useSupabase && isOnline()) {
+      try {
+        const { error } = await supabase.from('event_templates').delete().eq('id', id);
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error deleting event template:', error);
+        throw error;
+      }
+    } else if (useSupabase) {
+      const existing = latest.current.templates.find(template => template.id === id);
+      if (existing) {
+        await saveEventTemplateOffline(existing, 'delete');
+      }
+    }
+
     setTemplates(prev => prev.filter(template => template.id !== id));
-  }, []);
+  }, [useSupabase]);
 
   const getTemplateById = useCallback((id: string) => {
     return templates.find(template => template.id === id);
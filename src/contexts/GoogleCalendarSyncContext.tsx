@@ -0,0 +1,209 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { useEvent } from './EventContext';
+import { useTask } from './TaskContext';
+import { useToast } from './ToastContext';
+import { createGoogleCalendarApi, getStoredTokens } from '../services/googleCalendar';
+import {
+  ConflictSide,
+  ConflictStrategy,
+  EMPTY_SYNC_STATE,
+  GoogleSyncState,
+  SyncConflict,
+  SyncLocalStore,
+  SyncResult,
+  resolveSyncConflict,
+  runGoogleCalendarSync,
+} from '../services/googleCalendarSync';
+
+export interface GoogleSyncSettings {
+  autoSync: boolean;
+  includeTasks: boolean; // Mirror the job tasks assigned to me
+  conflictStrategy: ConflictStrategy;
+}
+
+interface GoogleCalendarSyncContextType {
+  settings: GoogleSyncSettings;
+  updateSettings: (changes: Partial<GoogleSyncSettings>) => void;
+  isSyncing: boolean;
+  lastSyncedAt?: string;
+  lastError: string | null;
+  conflicts: SyncConflict[];
+  syncNow: () => Promise<SyncResult | null>;
+  resolveConflict: (key: string, side: ConflictSide) => Promise<void>;
+  resetSync: () => void;
+}
+
+const GoogleCalendarSyncContext = createContext<GoogleCalendarSyncContextType | undefined>(undefined);
+
+const STATE_STORAGE_KEY = 'mediamaple_google_sync';
+const SETTINGS_STORAGE_KEY = 'mediamaple_google_sync_settings';
+
+const AUTO_SYNC_INTERVAL = 5 * 60 * 1000;
+
+const DEFAULT_SETTINGS: GoogleSyncSettings = {
+  autoSync: true,
+  includeTasks: true,
+  conflictStrategy: 'latest',
+};
+
+const loadJson = <T,>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? { ...fallback, ...JSON.parse(stored) } : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Keeps events and the current user's job tasks in sync with their Google
+ * Calendar (see services/googleCalendarSync). Sync state is stored per user
+ * in localStorage, since each user links their own Google account.
+ */
+export const GoogleCalendarSyncProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { currentUser } = useAuth();
+  const { events, addEvent, updateEvent, deleteEvent, loading: eventsLoading } = useEvent();
+  const { jobTasks, updateJobTask, loading: tasksLoading } = useTask();
+  const { warning: showWarning } = useToast();
+
+  const userId = currentUser?.id;
+  const stateKey = `${STATE_STORAGE_KEY}_${userId}`;
+  const settingsKey = `${SETTINGS_STORAGE_KEY}_${userId}`;
+
+  const [syncState, setSyncState] = useState<GoogleSyncState>(EMPTY_SYNC_STATE);
+  const [settings, setSettings] = useState<GoogleSyncSettings>(DEFAULT_SETTINGS);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const syncingRef = useRef(false);
+
+  // Load this user's sync state and settings
+  useEffect(() => {
+    if (!userId) return;
+    setSyncState(loadJson(stateKey, EMPTY_SYNC_STATE));
+    setSettings(loadJson(settingsKey, DEFAULT_SETTINGS));
+    setLoadedFor(userId);
+  }, [userId, stateKey, settingsKey]);
+
+  const saveState = useCallback((state: GoogleSyncState) => {
+    setSyncState(state);
+    localStorage.setItem(stateKey, JSON.stringify(state));
+  }, [stateKey]);
+
+  const updateSettings = useCallback((changes: Partial<GoogleSyncSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem(settingsKey, JSON.stringify(next));
+      return next;
+    });
+  }, [settingsKey]);
+
+  // The engine reads the data as it is when a run starts
+  const latest = useRef({ events, jobTasks, syncState, settings, addEvent, updateEvent, deleteEvent, updateJobTask });
+  latest.current = { events, jobTasks, syncState, settings, addEvent, updateEvent, deleteEvent, updateJobTask };
+
+  const buildStore = useCallback((): SyncLocalStore => {
+    const current = latest.current;
+    return {
+      events: current.events,
+      tasks: current.settings.includeTasks && userId
+        ? current.jobTasks.filter(task =>
+            task.assignedTo.includes(userId) &&
+            !!task.scheduledDate &&
+            task.status !== 'archived' &&
+            task.status !== 'draft'
+          )
+        : [],
+      createEvent: current.addEvent,
+      updateEvent: current.updateEvent,
+      deleteEvent: current.deleteEvent,
+      updateTask: current.updateJobTask,
+    };
+  }, [userId]);
+
+  const syncNow = useCallback(async (): Promise<SyncResult | null> => {
+    if (!userId || !getStoredTokens() || syncingRef.current) return null;
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const result = await runGoogleCalendarSync(
+        createGoogleCalendarApi(),
+        buildStore(),
+        latest.current.syncState,
+        { conflictStrategy: latest.current.settings.conflictStrategy }
+      );
+      saveState(result.state);
+      setLastError(result.errors.length > 0 ? `Could not sync: ${result.errors.join(', ')}` : null);
+      if (result.newConflicts > 0) {
+        showWarning(`${result.newConflicts} Google Calendar change${result.newConflicts === 1 ? '' : 's'} need${result.newConflicts === 1 ? 's' : ''} review in Settings`);
+      }
+      return result;
+    } catch (error) {
+      console.error('Error syncing with Google Calendar:', error);
+      setLastError(error instanceof Error ? error.message : 'Google Calendar sync failed');
+      throw error;
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [userId, buildStore, saveState, showWarning]);
+
+  const resolveConflict = useCallback(async (key: string, side: ConflictSide) => {
+    try {
+      const state = await resolveSyncConflict(createGoogleCalendarApi(), buildStore(), latest.current.syncState, key, side);
+      saveState(state);
+    } catch (error) {
+      console.error('Error resolving Google Calendar conflict:', error);
+      throw error;
+    }
+  }, [buildStore, saveState]);
+
+  // Forget all links, e.g. after disconnecting; the next sync starts from a full listing
+  const resetSync = useCallback(() => {
+    saveState(EMPTY_SYNC_STATE);
+    setLastError(null);
+  }, [saveState]);
+
+  // Sync once the data has loaded, then every few minutes
+  const dataReady = !eventsLoading && !tasksLoading && !!userId && loadedFor === userId;
+  useEffect(() => {
+    if (!settings.autoSync || !dataReady) return;
+
+    const run = () => {
+      syncNow().catch(() => {
+        // Already recorded in lastError; try again on the next tick
+      });
+    };
+    run();
+    const interval = setInterval(run, AUTO_SYNC_INTERVAL);
+    return () => clearInterval(interval);
+  }, [settings.autoSync, dataReady, syncNow]);
+
+  return (
+    <GoogleCalendarSyncContext.Provider
+      value={{
+        settings,
+        updateSettings,
+        isSyncing,
+        lastSyncedAt: syncState.lastSyncedAt,
+        lastError,
+        conflicts: syncState.conflicts,
+        syncNow,
+        resolveConflict,
+        resetSync,
+      }}
+    >
+      {children}
+    </GoogleCalendarSyncContext.Provider>
+  );
+};
+
+export const useGoogleCalendarSync = () => {
+  const context = useContext(GoogleCalendarSyncContext);
+  if (!context) {
+    throw new Error('useGoogleCalendarSync must be used within a GoogleCalendarSyncProvider');
+  }
+  return context;
+};
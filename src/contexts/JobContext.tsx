@@ -2,6 +2,7 @@ import React, { createContext, useContext, useState, useEffect, useCallback, Rea
 import { Job, Task, JobStatus, TaskPriority } from '../types';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import { useAuth } from './AuthContext';
+import { applyDependencyStatuses, removeDependencyReferences } from '../utils/taskDependencies';
 
 interface JobContextType {
   // Jobs
@@ -47,6 +48,11 @@ const determineJobStatus = (tasks: Task[], currentStatus: JobStatus): JobStatus
   const anyOverdue = tasks.some(task => task.status === 'overdue');
   if (anyOverdue) return 'overdue';
 
+  // Earlier tasks are done and later ones are waiting on the rest: the job is underway
+  const anyBlocked = tasks.some(task => task.status === 'blocked');
+  const anyCompleted = tasks.some(task => task.status === 'completed');
+  if (anyBlocked && anyCompleted) return 'in-progress';
+
   return currentStatus;
 };
 
@@ -157,7 +163,8 @@ export const JobProvider: React.FC<JobProviderProps> = ({ children }) => {
   }, [jobs, useSupabase]);
 
   // Job Methods
-  const addJob = async (jobData: Omit<Job, 'id' | 'createdAt' | 'completedTasksCount' | 'totalTasksCount' | 'progressPercentage'>) => {
+  const addJob = async (jobInput: Omit<Job, 'id' | 'createdAt' | 'completedTasksCount' | 'totalTasksCount' | 'progressPercentage'>) => {
+    const jobData = { ...jobInput, tasks: applyDependencyStatuses(jobInput.tasks) };
     const { completedCount, totalCount, percentage } = calculateJobProgress(jobData.tasks);
 
     if (!useSupabase) {
@@ -204,7 +211,12 @@ export const JobProvider: React.FC<JobProviderProps> = ({ children }) => {
     }
   };
 
-  const updateJob = async (id: string, jobData: Partial<Job>) => {
+  const updateJob = async (id: string, jobInput: Partial<Job>) => {
+    // Unblock (or block) tasks whenever the job's tasks change
+    const jobData = jobInput.tasks !== undefined
+      ? { ...jobInput, tasks: applyDependencyStatuses(jobInput.tasks) }
+      : jobInput;
+
     if (!useSupabase) {
       // Fallback to localStorage mode
       setJobs(
@@ -371,7 +383,7 @@ export const JobProvider: React.FC<JobProviderProps> = ({ children }) => {
     const job = getJobById(jobId);
     if (!job) return;
 
-    const updatedTasks = job.tasks.filter(task => task.id !== taskId);
+    const updatedTasks = removeDependencyReferences(job.tasks.filter(task => task.id !== taskId), taskId);
     await updateJob(jobId, { tasks: updatedTasks });
   };
 
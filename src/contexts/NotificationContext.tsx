@@ -0,0 +1,126 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { AppNotification } from '../types';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { fetchNotifications, LOCAL_NOTIFICATIONS_EVENT, markNotificationsRead } from '../services/notifications';
+import { useAuth } from './AuthContext';
+
+interface NotificationContextType {
+  notifications: AppNotification[]; // Newest first, muted types left out
+  unreadCount: number;
+  markAsRead: (id: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+  loading: boolean;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+// The notification center shows this many of the newest
+const NOTIFICATION_LIMIT = 100;
+
+export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [allNotifications, setAllNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { currentUser, isAuthenticated, loading: authLoading } = useAuth();
+  const useSupabase = isSupabaseConfigured();
+  const userId = currentUser?.id;
+
+  const loadNotifications = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setAllNotifications(await fetchNotifications(userId, NOTIFICATION_LIMIT));
+    } catch {
+      // Already logged; before migration v19 there is no table and the bell stays empty
+    }
+  }, [userId]);
+
+  // Initialize: Load notifications (only after auth is ready)
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!isAuthenticated || !userId) {
+      setAllNotifications([]);
+      setLoading(false);
+      return;
+    }
+
+    loadNotifications().finally(() => setLoading(false));
+  }, [authLoading, isAuthenticated, userId, loadNotifications]);
+
+  // Pick up new notifications as they arrive
+  useEffect(() => {
+    if (!userId) return;
+
+    if (!useSupabase) {
+      const handleChange = () => loadNotifications();
+      window.addEventListener(LOCAL_NOTIFICATIONS_EVENT, handleChange);
+      window.addEventListener('storage', handleChange);
+      return () => {
+        window.removeEventListener(LOCAL_NOTIFICATIONS_EVENT, handleChange);
+        window.removeEventListener('storage', handleChange);
+      };
+    }
+
+    const channel = supabase
+      .channel(`notifications_${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => {
+          loadNotifications();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [useSupabase, userId, loadNotifications]);
+
+  const mutedTypes = currentUser?.notificationPreferences?.mutedNotificationTypes;
+  const notifications = useMemo(
+    () => allNotifications.filter(notification => !mutedTypes?.includes(notification.type)),
+    [allNotifications, mutedTypes]
+  );
+  const unreadCount = notifications.filter(notification => !notification.readAt).length;
+
+  const markAsRead = useCallback(async (id: string) => {
+    if (!userId) return;
+
+    const readAt = await markNotificationsRead(userId, [id]);
+    setAllNotifications(prev => prev.map(notification =>
+      notification.id === id && !notification.readAt ? { ...notification, readAt } : notification
+    ));
+  }, [userId]);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!userId) return;
+
+    const readAt = await markNotificationsRead(userId);
+    setAllNotifications(prev => prev.map(notification =>
+      notification.readAt ? notification : { ...notification, readAt }
+    ));
+  }, [userId]);
+
+  const value: NotificationContextType = {
+    notifications,
+    unreadCount,
+    markAsRead,
+    markAllAsRead,
+    loading,
+  };
+
+  return (
+    <NotificationContext.Provider value={value}>
+      {children}
+    </NotificationContext.Provider>
+  );
+};
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
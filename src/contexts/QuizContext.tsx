@@ -0,0 +1,169 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { SOP, SOPQuizAttempt } from '../types';
+import { useAuth } from './AuthContext';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { logActivity } from '../utils/activityLogger';
+import { DEFAULT_PASS_THRESHOLD, hasQuiz, scoreQuiz } from '../utils/sopQuiz';
+
+interface QuizContextType {
+  attempts: SOPQuizAttempt[];
+  submitQuizAttempt: (sop: SOP, answers: number[]) => Promise<SOPQuizAttempt>;
+  getAttemptsByUser: (userId: string) => SOPQuizAttempt[];
+  loading: boolean;
+}
+
+const QuizContext = createContext<QuizContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'mediamaple_sop_quiz_attempts';
+
+// Map Supabase data to app type
+const mapSupabaseAttempt = (row: any): SOPQuizAttempt => ({
+  id: row.id,
+  sopId: row.sop_id,
+  userId: row.user_id,
+  userName: row.user_name,
+  answers: row.answers || [],
+  score: row.score,
+  passed: row.passed,
+  passThreshold: row.pass_threshold,
+  attemptedAt: row.attempted_at,
+});
+
+export const QuizProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [attempts, setAttempts] = useState<SOPQuizAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { currentUser } = useAuth();
+  const useSupabase = isSupabaseConfigured();
+
+  // Load quiz attempts
+  useEffect(() => {
+    const loadAttempts = async () => {
+      if (useSupabase) {
+        if (!currentUser) {
+          setLoading(false);
+          return;
+        }
+        try {
+          const { data, error } = await supabase
+            .from('sop_quiz_attempts')
+            .select('*')
+            .order('attempted_at', { ascending: false });
+
+          if (data && !error) {
+            setAttempts(data.map(mapSupabaseAttempt));
+          }
+        } catch (error) {
+          console.error('Error loading quiz attempts:', error);
+        }
+      } else {
+        // localStorage fallback
+        try {
+          setAttempts(JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]'));
+        } catch (error) {
+          console.error('Error loading quiz attempts from localStorage:', error);
+        }
+      }
+      setLoading(false);
+    };
+
+    loadAttempts();
+  }, [useSupabase, currentUser]);
+
+  const submitQuizAttempt = async (sop: SOP, answers: number[]): Promise<SOPQuizAttempt> => {
+    if (!currentUser) {
+      throw new Error('No current user');
+    }
+    if (!sop.quiz || !hasQuiz(sop)) {
+      throw new Error('This SOP has no quiz');
+    }
+    if (answers.length !== sop.quiz.questions.length || answers.some(answer => answer < 0)) {
+      throw new Error('Please answer every question');
+    }
+
+    const userName = `${currentUser.firstName} ${currentUser.lastName}`;
+    const passThreshold = sop.quiz.passThreshold || DEFAULT_PASS_THRESHOLD;
+    const score = scoreQuiz(sop.quiz, answers);
+    let attempt: SOPQuizAttempt = {
+      id: `quiz_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      sopId: sop.id,
+      userId: currentUser.id,
+      userName,
+      answers,
+      score,
+      passed: score >= passThreshold,
+      passThreshold,
+      attemptedAt: new Date().toISOString(),
+    };
+
+    if (!useSupabase) {
+      const updated = [attempt, ...attempts];
+      setAttempts(updated);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    } else {
+      try {
+        const { data, error } = await supabase
+          .from('sop_quiz_attempts')
+          .insert({
+            sop_id: attempt.sopId,
+            user_id: attempt.userId,
+            user_name: attempt.userName,
+            answers: attempt.answers,
+            score: attempt.score,
+            passed: attempt.passed,
+            pass_threshold: attempt.passThreshold,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          console.error('Error saving quiz attempt:', error);
+          throw error;
+        }
+
+        attempt = mapSupabaseAttempt(data);
+        setAttempts(prev => [attempt, ...prev]);
+      } catch (error) {
+        console.error('Error saving quiz attempt:', error);
+        throw error;
+      }
+    }
+
+    logActivity({
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName,
+      action: attempt.passed ? 'sop_quiz_passed' : 'sop_quiz_failed',
+      entityType: 'sop',
+      entityId: sop.id,
+      entityTitle: sop.title,
+      details: { score: attempt.score, passThreshold },
+    });
+
+    return attempt;
+  };
+
+  const getAttemptsByUser = (userId: string) => {
+    return attempts.filter(a => a.userId === userId);
+  };
+
+  return (
+    <QuizContext.Provider
+      value={{
+        attempts,
+        submitQuizAttempt,
+        getAttemptsByUser,
+        loading,
+      }}
+    >
+      {children}
+    </QuizContext.Provider>
+  );
+};
+
+export const useQuizzes = () => {
+  const context = useContext(QuizContext);
+  if (!context) {
+    throw new Error('useQuizzes must be used within a QuizProvider');
+  }
+  return context;
+};
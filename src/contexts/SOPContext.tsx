@@ -1,9 +1,12 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { SOP, SOPStatus } from '../types';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { SOP, SOPRevision, SOPReview, SOPReviewDecisionType, SOPStatus } from '../types';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import { useAuth } from './AuthContext';
 import { logActivity } from '../utils/activityLogger';
 import { useVisibilityRefresh } from '../hooks/useVisibilityRefresh';
+import { fetchSOPRevisions, recordSOPRevision } from '../services/sopRevisions';
+import { getLatestDecisions, hasRequiredApprovals, isAwaitingReviewFrom } from '../utils/sopReview';
+import { canSeeSOP } from '../utils/departments';
 
 interface SOPContextType {
   sops: SOP[];
@@ -17,6 +20,10 @@ interface SOPContextType {
   restoreSOP: (id: string) => Promise<void>;
   createFromTemplate: (templateId: string) => Promise<void>;
   saveAsTemplate: (id: string) => Promise<void>;
+  getSOPRevisions: (id: string) => Promise<SOPRevision[]>;
+  restoreSOPRevision: (id: string, revision: SOPRevision) => Promise<void>;
+  submitSOPForReview: (id: string, reviewers: string[], requiredApprovals: number) => Promise<void>;
+  reviewSOP: (id: string, decision: SOPReviewDecisionType, comment: string) => Promise<void>;
   loading: boolean;
 }
 
@@ -45,12 +52,38 @@ const mapSupabaseSOPToSOP = (dbSOP: any): SOP => {
     status: dbSOP.status as SOPStatus,
     isTemplate: dbSOP.is_template || false,
     templateOf: dbSOP.template_of,
+    review: dbSOP.review || undefined,
+    assignedDepartments: dbSOP.assigned_departments || [],
+    sharedDepartments: dbSOP.shared_departments || [],
+    publishedAt: dbSOP.published_at || undefined,
+    quiz: dbSOP.quiz || undefined,
     createdAt: dbSOP.created_at,
     createdBy: dbSOP.created_by,
     updatedAt: dbSOP.updated_at,
   };
 };
 
+// Fields whose change on a published SOP counts as publishing a new version
+// (staff have to acknowledge it again)
+const VERSIONED_FIELDS: Array<keyof SOP> = ['title', 'description', 'steps'];
+
+// Stamp publishedAt when an update publishes the SOP or changes the content of
+// an already-published SOP
+const withPublishedAt = (existing: SOP | undefined, sopData: Partial<SOP>): Partial<SOP> => {
+  if (!existing || existing.isTemplate) return sopData;
+  const nextStatus = sopData.status ?? existing.status;
+  if (nextStatus !== 'published') return sopData;
+
+  const becamePublished = existing.status !== 'published';
+  const contentChanged = VERSIONED_FIELDS.some(
+    field => sopData[field] !== undefined && JSON.stringify(sopData[field]) !== JSON.stringify(existing[field])
+  );
+
+  return becamePublished || contentChanged
+    ? { ...sopData, publishedAt: new Date().toISOString() }
+    : sopData;
+};
+
 interface SOPProviderProps {
   children: ReactNode;
 }
@@ -665,9 +698,20 @@ const defaultSOPs: SOP[] = [
 export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
   const [sops, setSOPs] = useState<SOP[]>([]);
   const [loading, setLoading] = useState(true);
-  const { currentUser, isAuthenticated, loading: authLoading } = useAuth();
+  const { currentUser, isAuthenticated, hasPermission, loading: authLoading } = useAuth();
   const useSupabase = isSupabaseConfigured();
 
+  // Editing SOPs takes a role with manage_sops, and only in the user's own
+  // department (admins anywhere). RLS enforces the same on the server.
+  const assertCanManageSOP = (...departments: (string | undefined)[]) => {
+    const allowed = departments
+      .filter((department): department is string => department !== undefined)
+      .every(department => hasPermission('manage_sops', department));
+    if (!allowed || !hasPermission('manage_sops')) {
+      throw new Error("You don't have permission to edit SOPs in this department");
+    }
+  };
+
   // Load SOPs from database
   const loadSOPs = useCallback(async () => {
     if (!useSupabase) {
@@ -776,18 +820,37 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
 
   useVisibilityRefresh(handleVisibilityRefresh, 3000);
 
+  // Write an immutable revision for a save. History is best-effort: a failed
+  // revision write is logged but never blocks the save itself.
+  const saveRevision = async (sop: SOP, previous?: SOP, note?: string) => {
+    if (!currentUser) return;
+    try {
+      await recordSOPRevision(
+        sop,
+        { id: currentUser.id, name: `${currentUser.firstName} ${currentUser.lastName}` },
+        { previous, note }
+      );
+    } catch (error) {
+      console.error('Error recording SOP revision:', error);
+    }
+  };
+
   const addSOP = async (sopData: Omit<SOP, 'id' | 'createdAt'>) => {
+    assertCanManageSOP(sopData.department);
+
     if (!useSupabase) {
       // Fallback to localStorage mode
       const newSOP: SOP = {
         ...sopData,
         id: `sop_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        publishedAt: sopData.status === 'published' ? new Date().toISOString() : undefined,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
       const updated = [...sops, newSOP];
       setSOPs(updated);
       localStorage.setItem('mediamaple_sops', JSON.stringify(updated));
+      await saveRevision(newSOP);
 
       // Log activity
       if (currentUser) {
@@ -817,6 +880,10 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
         tags: sopData.tags || [],
         status: sopData.status,
         is_template: sopData.isTemplate,
+        assigned_departments: sopData.assignedDepartments || [],
+        shared_departments: sopData.sharedDepartments || [],
+        published_at: sopData.status === 'published' ? new Date().toISOString() : null,
+        quiz: sopData.quiz || null,
         created_by: currentUser?.id || 'system',
       }).select().single();
 
@@ -825,6 +892,10 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
         throw error;
       }
 
+      if (data) {
+        await saveRevision(mapSupabaseSOPToSOP(data));
+      }
+
       // Log activity
       if (currentUser && data) {
         logActivity({
@@ -847,8 +918,10 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
     }
   };
 
-  const updateSOP = async (id: string, sopData: Partial<SOP>) => {
+  const updateSOP = async (id: string, sopUpdates: Partial<SOP>) => {
     const existingSOP = sops.find(s => s.id === id);
+    assertCanManageSOP(existingSOP?.department, sopUpdates.department);
+    const sopData = withPublishedAt(existingSOP, sopUpdates);
 
     if (!useSupabase) {
       // Fallback to localStorage mode
@@ -859,10 +932,13 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
       );
       setSOPs(updated);
       localStorage.setItem('mediamaple_sops', JSON.stringify(updated));
+      if (existingSOP) {
+        await saveRevision({ ...existingSOP, ...sopData }, existingSOP);
+      }
 
       // Log activity
       if (currentUser && existingSOP) {
-        const changedFields = Object.keys(sopData).filter(key => key !== 'updatedAt');
+        const changedFields = Object.keys(sopUpdates).filter(key => key !== 'updatedAt');
         logActivity({
           userId: currentUser.id,
           userEmail: currentUser.email,
@@ -873,7 +949,7 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
           entityTitle: sopData.title || existingSOP.title,
           details: {
             changedFields,
-            changes: sopData,
+            changes: sopUpdates,
           },
         });
       }
@@ -892,6 +968,12 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
       if (sopData.tags !== undefined) updateData.tags = sopData.tags;
       if (sopData.status !== undefined) updateData.status = sopData.status;
       if (sopData.isTemplate !== undefined) updateData.is_template = sopData.isTemplate;
+      if (sopData.review !== undefined) updateData.review = sopData.review;
+      if (sopData.assignedDepartments !== undefined) updateData.assigned_departments = sopData.assignedDepartments;
+      if (sopData.sharedDepartments !== undefined) updateData.shared_departments = sopData.sharedDepartments;
+      if (sopData.publishedAt !== undefined) updateData.published_at = sopData.publishedAt;
+      // An explicit `quiz: undefined` removes the quiz
+      if ('quiz' in sopData) updateData.quiz = sopData.quiz || null;
 
       const { error } = await supabase
         .from('sops')
@@ -903,9 +985,13 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
         throw error;
       }
 
+      if (existingSOP) {
+        await saveRevision({ ...existingSOP, ...sopData }, existingSOP);
+      }
+
       // Log activity
       if (currentUser && existingSOP) {
-        const changedFields = Object.keys(sopData).filter(key => key !== 'updatedAt');
+        const changedFields = Object.keys(sopUpdates).filter(key => key !== 'updatedAt');
         logActivity({
           userId: currentUser.id,
           userEmail: currentUser.email,
@@ -916,7 +1002,7 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
           entityTitle: sopData.title || existingSOP.title,
           details: {
             changedFields,
-            changes: sopData,
+            changes: sopUpdates,
           },
         });
       }
@@ -935,6 +1021,7 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
 
   const deleteSOP = async (id: string) => {
     const sopToDelete = sops.find(s => s.id === id);
+    assertCanManageSOP(sopToDelete?.department);
 
     if (!useSupabase) {
       // Fallback to localStorage mode
@@ -989,16 +1076,25 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
     }
   };
 
+  // Other departments' SOPs stay out of view unless shared (RLS does the same)
+  const visibleSOPs = useMemo(() => sops.filter(sop => canSeeSOP(currentUser, sop)), [sops, currentUser]);
+
   const getSOPById = (id: string) => {
     return sops.find(sop => sop.id === id);
   };
 
   const getSOPsByCategory = (category: string) => {
-    return sops.filter(sop => sop.category === category);
+    return visibleSOPs.filter(sop => sop.category === category);
   };
 
   const updateSOPStatus = async (id: string, status: SOPStatus) => {
     const sop = sops.find(s => s.id === id);
+    assertCanManageSOP(sop?.department);
+
+    // Publishing goes through the review workflow (templates are exempt)
+    if (status === 'published' && sop && !sop.isTemplate && !hasRequiredApprovals(sop)) {
+      throw new Error('This SOP needs the required approvals before it can be published');
+    }
 
     // Determine the action type based on status change
     const getActionType = () => {
@@ -1008,15 +1104,24 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
       return 'sop_updated';
     };
 
+    // Publishing starts a new version that staff must acknowledge
+    const statusChanges: Partial<SOP> =
+      status === 'published' && sop?.status !== 'published'
+        ? { status, publishedAt: new Date().toISOString() }
+        : { status };
+
     if (!useSupabase) {
       // Fallback to localStorage mode
       const updated = sops.map(s =>
         s.id === id
-          ? { ...s, status, updatedAt: new Date().toISOString() }
+          ? { ...s, ...statusChanges, updatedAt: new Date().toISOString() }
           : s
       );
       setSOPs(updated);
       localStorage.setItem('mediamaple_sops', JSON.stringify(updated));
+      if (sop) {
+        await saveRevision({ ...sop, status }, sop);
+      }
 
       // Log activity
       if (currentUser && sop) {
@@ -1037,7 +1142,7 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
     try {
       const { error } = await supabase
         .from('sops')
-        .update({ status })
+        .update({ status, published_at: statusChanges.publishedAt ?? sop?.publishedAt ?? null })
         .eq('id', id);
 
       if (error) {
@@ -1045,6 +1150,10 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
         throw error;
       }
 
+      if (sop) {
+        await saveRevision({ ...sop, status }, sop);
+      }
+
       // Log activity
       if (currentUser && sop) {
         logActivity({
@@ -1062,7 +1171,7 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
       // Update local state
       setSOPs(prev =>
         prev.map(s =>
-          s.id === id ? { ...s, status, updatedAt: new Date().toISOString() } : s
+          s.id === id ? { ...s, ...statusChanges, updatedAt: new Date().toISOString() } : s
         )
       );
     } catch (error) {
@@ -1082,6 +1191,7 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
   const createFromTemplate = async (templateId: string) => {
     const template = sops.find(sop => sop.id === templateId);
     if (!template) return;
+    assertCanManageSOP(template.department);
 
     const newTitle = `${template.title} (Copy)`;
 
@@ -1129,6 +1239,7 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
         icon: template.icon,
         image_url: template.imageUrl,
         steps: template.steps,
+        quiz: template.quiz || null,
         tags: template.tags || [],
         status: 'draft',
         is_template: false,
@@ -1168,6 +1279,7 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
   const saveAsTemplate = async (id: string) => {
     const sourceSOP = sops.find(sop => sop.id === id);
     if (!sourceSOP) return;
+    assertCanManageSOP(sourceSOP.department);
 
     const newTitle = `${sourceSOP.title} (Template)`;
 
@@ -1215,6 +1327,7 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
         icon: sourceSOP.icon,
         image_url: sourceSOP.imageUrl,
         steps: sourceSOP.steps,
+        quiz: sourceSOP.quiz || null,
         tags: sourceSOP.tags || [],
         status: sourceSOP.status,
         is_template: true,
@@ -1251,10 +1364,223 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
     }
   };
 
+  const getSOPRevisions = async (id: string) => {
+    return fetchSOPRevisions(id);
+  };
+
+  // Restore the content of an earlier revision. The SOP keeps its current
+  // status; the restore itself is recorded as a new revision.
+  const restoreSOPRevision = async (id: string, revision: SOPRevision) => {
+    const existingSOP = sops.find(s => s.id === id);
+    if (!existingSOP) return;
+    assertCanManageSOP(existingSOP.department);
+
+    const restoredData: Partial<SOP> = {
+      title: revision.title,
+      description: revision.description,
+      steps: revision.steps,
+      tags: revision.tags,
+    };
+
+    if (!useSupabase) {
+      const updated = sops.map(sop =>
+        sop.id === id
+          ? { ...sop, ...restoredData, updatedAt: new Date().toISOString() }
+          : sop
+      );
+      setSOPs(updated);
+      localStorage.setItem('mediamaple_sops', JSON.stringify(updated));
+    } else {
+      const { error } = await supabase
+        .from('sops')
+        .update({
+          title: revision.title,
+          description: revision.description,
+          steps: revision.steps,
+          tags: revision.tags,
+        })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error restoring SOP revision:', error);
+        throw error;
+      }
+
+      setSOPs(prev =>
+        prev.map(sop =>
+          sop.id === id ? { ...sop, ...restoredData, updatedAt: new Date().toISOString() } : sop
+        )
+      );
+    }
+
+    await saveRevision(
+      { ...existingSOP, ...restoredData },
+      existingSOP,
+      `Restored from version ${revision.revisionNumber}`
+    );
+
+    // Log activity
+    if (currentUser) {
+      logActivity({
+        userId: currentUser.id,
+        userEmail: currentUser.email,
+        userName: `${currentUser.firstName} ${currentUser.lastName}`,
+        action: 'sop_version_restored',
+        entityType: existingSOP.isTemplate ? 'template' : 'sop',
+        entityId: id,
+        entityTitle: revision.title,
+        details: {
+          restoredRevisionId: revision.id,
+          restoredRevisionNumber: revision.revisionNumber,
+        },
+      });
+    }
+  };
+
+  // Persist a review-workflow change (status + review state) for one SOP
+  const persistReviewState = async (id: string, status: SOPStatus, review: SOPReview) => {
+    const existing = sops.find(s => s.id === id);
+    const publishedAt = status === 'published' && existing?.status !== 'published'
+      ? new Date().toISOString()
+      : existing?.publishedAt;
+
+    if (!useSupabase) {
+      const updated = sops.map(s =>
+        s.id === id ? { ...s, status, review, publishedAt, updatedAt: new Date().toISOString() } : s
+      );
+      setSOPs(updated);
+      localStorage.setItem('mediamaple_sops', JSON.stringify(updated));
+      return;
+    }
+
+    const { error } = await supabase
+      .from('sops')
+      .update({ status, review, published_at: publishedAt ?? null })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating SOP review:', error);
+      throw error;
+    }
+
+    setSOPs(prev =>
+      prev.map(s =>
+        s.id === id ? { ...s, status, review, publishedAt, updatedAt: new Date().toISOString() } : s
+      )
+    );
+  };
+
+  const submitSOPForReview = async (id: string, reviewers: string[], requiredApprovals: number) => {
+    const sop = sops.find(s => s.id === id);
+    if (!sop || !currentUser) return;
+    assertCanManageSOP(sop.department);
+
+    if (sop.status !== 'draft') {
+      throw new Error('Only drafts can be submitted for review');
+    }
+    if (reviewers.length === 0) {
+      throw new Error('Choose at least one reviewer');
+    }
+
+    // Each submission starts a fresh review round
+    const review: SOPReview = {
+      reviewers,
+      requiredApprovals: Math.min(Math.max(1, requiredApprovals), reviewers.length),
+      decisions: [],
+      submittedBy: currentUser.id,
+      submittedAt: new Date().toISOString(),
+    };
+
+    await persistReviewState(id, 'in_review', review);
+    await saveRevision({ ...sop, status: 'in_review', review }, sop, 'Submitted for review');
+
+    logActivity({
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`,
+      action: 'sop_submitted_for_review',
+      entityType: 'sop',
+      entityId: id,
+      entityTitle: sop.title,
+      details: { reviewers, requiredApprovals: review.requiredApprovals },
+    });
+  };
+
+  const reviewSOP = async (id: string, decision: SOPReviewDecisionType, comment: string) => {
+    const sop = sops.find(s => s.id === id);
+    if (!sop || !sop.review || !currentUser) return;
+
+    if (!isAwaitingReviewFrom(sop, currentUser.id)) {
+      throw new Error('You are not a reviewer for this SOP');
+    }
+    if (decision === 'changes_requested' && !comment.trim()) {
+      throw new Error('Please describe the changes you are requesting');
+    }
+
+    const reviewerName = `${currentUser.firstName} ${currentUser.lastName}`;
+    const review: SOPReview = {
+      ...sop.review,
+      decisions: [
+        ...sop.review.decisions,
+        {
+          id: `review_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          reviewerId: currentUser.id,
+          reviewerName,
+          decision,
+          comment: comment.trim(),
+          createdAt: new Date().toISOString(),
+        },
+      ],
+    };
+
+    // Any request for changes sends the SOP back to its author as a draft;
+    // it's published once enough reviewers have approved.
+    let nextStatus: SOPStatus = 'in_review';
+    if (decision === 'changes_requested') {
+      nextStatus = 'draft';
+    } else if (hasRequiredApprovals({ ...sop, review })) {
+      nextStatus = 'published';
+    }
+
+    await persistReviewState(id, nextStatus, review);
+    if (nextStatus !== sop.status) {
+      await saveRevision({ ...sop, status: nextStatus, review }, sop);
+    }
+
+    const baseLog = {
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName: reviewerName,
+      entityType: 'sop' as const,
+      entityId: id,
+      entityTitle: sop.title,
+    };
+
+    logActivity({
+      ...baseLog,
+      action: decision === 'approved' ? 'sop_review_approved' : 'sop_changes_requested',
+      details: { comment: comment.trim(), newStatus: nextStatus, submittedBy: sop.review.submittedBy },
+    });
+
+    if (nextStatus === 'published') {
+      logActivity({
+        ...baseLog,
+        action: 'sop_published',
+        details: {
+          previousStatus: sop.status,
+          newStatus: nextStatus,
+          approvedBy: getLatestDecisions({ ...sop, review })
+            .filter(d => d.decision === 'approved')
+            .map(d => d.reviewerName),
+        },
+      });
+    }
+  };
+
   return (
     <SOPContext.Provider
       value={{
-        sops,
+        sops: visibleSOPs,
         addSOP,
         updateSOP,
         deleteSOP,
@@ -1265,6 +1591,10 @@ export const SOPProvider: React.FC<SOPProviderProps> = ({ children }) => {
         restoreSOP,
         createFromTemplate,
         saveAsTemplate,
+        getSOPRevisions,
+        restoreSOPRevision,
+        submitSOPForReview,
+        reviewSOP,
         loading,
       }}
     >
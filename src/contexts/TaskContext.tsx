@@ -1,9 +1,27 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
 import { TaskTemplate, JobTask, TaskTemplateStep, TaskStep, TaskStatus, TaskPriority } from '../types';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import { useAuth } from './AuthContext';
 import { logActivity } from '../utils/activityLogger';
 import { useVisibilityRefresh } from '../hooks/useVisibilityRefresh';
+import {
+  getOccurrenceDate,
+  getSeriesRootId,
+  getSeriesSuccessor,
+  isSeriesRoot,
+  NewJobTask,
+  planRecurringOccurrences,
+  RecurrenceEditScope,
+  splitFutureOccurrences,
+} from '../utils/recurrence';
+import { addDays } from '../utils/dateTime';
+import { canSeeTask, canSeeTemplate } from '../utils/departments';
+import {
+  applyDependencyStatuses,
+  getBlockingTasks,
+  removeDependencyReferences,
+  resolveDependencyStatus,
+} from '../utils/taskDependencies';
 
 interface TaskContextType {
   // Task Templates (Library)
@@ -26,6 +44,7 @@ interface TaskContextType {
   getJobTasksByDate: (date: string) => JobTask[];
   getArchivedJobTasks: () => JobTask[];
   updateTaskProgress: (taskId: string, completedStepIds: string[]) => Promise<void>;
+  updateRecurringTask: (id: string, task: Partial<JobTask>, scope: RecurrenceEditScope) => Promise<void>;
   createJobTaskFromTemplate: (templateId: string, assignedTo: string[], scheduledDate: string, assignedBy: string) => Promise<void>;
   createJobTaskUnified: (taskData: {
     title: string;
@@ -45,6 +64,7 @@ interface TaskContextType {
     recurrencePattern?: any;
     templateId?: string;
     sopId?: string;
+    dependsOn?: string[];
   }, saveAsTemplate: boolean) => Promise<void>;
   refreshTasks: () => Promise<void>;
   loading: boolean;
@@ -100,9 +120,38 @@ const mapSupabaseJobTask = (dbTask: any): JobTask => {
     updatedAt: dbTask.updated_at,
     isRecurring: dbTask.is_recurring || false,
     recurrencePattern: dbTask.recurrence_pattern,
+    seriesId: dbTask.series_id || undefined,
+    occurrenceDate: dbTask.occurrence_date || undefined,
+    dependsOn: dbTask.depends_on || [],
   };
 };
 
+// Helper function to map an app JobTask to a Supabase job_tasks insert row
+const toSupabaseJobTaskRow = (taskData: NewJobTask, progressPercentage: number) => ({
+  template_id: taskData.templateId,
+  title: taskData.title,
+  description: taskData.description,
+  assigned_to: taskData.assignedTo,
+  assigned_by: taskData.assignedBy,
+  department: taskData.department,
+  category: taskData.category,
+  scheduled_date: taskData.scheduledDate,
+  due_time: taskData.dueTime,
+  estimated_duration: taskData.estimatedDuration,
+  status: taskData.status,
+  priority: taskData.priority,
+  steps: taskData.steps,
+  completed_steps: taskData.completedSteps,
+  progress_percentage: progressPercentage,
+  sop_ids: taskData.sopIds,
+  comments: taskData.comments,
+  is_recurring: taskData.isRecurring || false,
+  recurrence_pattern: taskData.recurrencePattern,
+  series_id: taskData.seriesId,
+  occurrence_date: taskData.occurrenceDate,
+  depends_on: taskData.dependsOn || [],
+});
+
 const TaskContext = createContext<TaskContextType | undefined>(undefined);
 
 // Special marker for tasks without steps that have been marked complete
@@ -269,8 +318,9 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
   const [taskTemplates, setTaskTemplates] = useState<TaskTemplate[]>([]);
   const [jobTasks, setJobTasks] = useState<JobTask[]>([]);
   const [loading, setLoading] = useState(true);
-  const { currentUser, isAuthenticated, loading: authLoading } = useAuth();
+  const { currentUser, isAuthenticated, isAdmin, hasPermission, loading: authLoading } = useAuth();
   const useSupabase = isSupabaseConfigured();
+  const lastRecurrenceBatchRef = useRef<string | null>(null);
 
   // Load task templates from database
   const loadTaskTemplates = useCallback(async () => {
@@ -423,6 +473,75 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
     }
   }, [jobTasks, useSupabase]);
 
+  // Block / unblock tasks as their predecessors change (the database does
+  // this with triggers, see supabase-migration-v12-task-dependencies.sql)
+  useEffect(() => {
+    if (!useSupabase) {
+      setJobTasks(prev => applyDependencyStatuses(prev));
+    }
+  }, [jobTasks, useSupabase]);
+
+  // Recurrence engine: materialise upcoming occurrences of recurring tasks.
+  // With Supabase, api/generate-recurring-tasks.ts does this hourly; admin
+  // sessions (the only ones RLS lets insert tasks) also run it so a new
+  // series shows up at once. The unique (series_id, occurrence_date) index
+  // keeps the two from creating duplicates.
+  useEffect(() => {
+    if (loading || authLoading) return;
+    if (planRecurringOccurrences(jobTasks).length === 0) return;
+
+    if (!useSupabase) {
+      // Plan against the latest state so a re-run can never add the same occurrence twice
+      setJobTasks(prev => {
+        const planned = planRecurringOccurrences(prev);
+        if (planned.length === 0) return prev;
+        const createdAt = new Date().toISOString();
+        return [
+          ...prev,
+          ...planned.map((taskData): JobTask => ({
+            ...taskData,
+            id: `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            createdAt,
+            progressPercentage: 0,
+          })),
+        ];
+      });
+      return;
+    }
+
+    if (!isAuthenticated || !isAdmin) return;
+
+    const planned = planRecurringOccurrences(jobTasks);
+    // Skip a batch that is already in flight, or that just failed (e.g. the
+    // migration has not been applied yet)
+    const batchKey = planned.map(task => `${task.seriesId}|${task.occurrenceDate}`).join(',');
+    if (lastRecurrenceBatchRef.current === batchKey) return;
+    lastRecurrenceBatchRef.current = batchKey;
+
+    const generateOccurrences = async () => {
+      try {
+        const { error } = await supabase
+          .from('job_tasks')
+          .upsert(planned.map(task => toSupabaseJobTaskRow(task, 0)), {
+            onConflict: 'series_id,occurrence_date',
+            ignoreDuplicates: true,
+          });
+
+        if (error) {
+          console.error('Error generating recurring tasks:', error);
+          return;
+        }
+
+        lastRecurrenceBatchRef.current = null;
+        await loadJobTasks();
+      } catch (error) {
+        console.error('Error generating recurring tasks:', error);
+      }
+    };
+
+    generateOccurrences();
+  }, [jobTasks, loading, authLoading, useSupabase, isAuthenticated, isAdmin, loadJobTasks]);
+
   // Refresh data when tab becomes visible (ensures data is fresh when users return)
   const handleVisibilityRefresh = useCallback(() => {
     if (useSupabase && isAuthenticated && !authLoading) {
@@ -650,8 +769,20 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
     return taskTemplates.find((template) => template.id === id);
   };
 
+  // Templates and tasks of other departments stay out of view, except tasks
+  // assigned to the user; calendar managers see every task (RLS does the same)
+  const visibleTemplates = useMemo(
+    () => taskTemplates.filter(template => canSeeTemplate(currentUser, template)),
+    [taskTemplates, currentUser]
+  );
+  const canManageCalendar = hasPermission('manage_calendar');
+  const visibleJobTasks = useMemo(
+    () => (canManageCalendar ? jobTasks : jobTasks.filter(task => canSeeTask(currentUser, task))),
+    [jobTasks, currentUser, canManageCalendar]
+  );
+
   const getTaskTemplatesByDepartment = (department: string): TaskTemplate[] => {
-    return taskTemplates.filter((template) => template.department === department);
+    return visibleTemplates.filter((template) => template.department === department);
   };
 
   // Job Task Methods
@@ -663,8 +794,10 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
     return Math.round((completedStepIds.length / steps.length) * 100);
   };
 
-  const addJobTask = async (taskData: Omit<JobTask, 'id' | 'createdAt' | 'progressPercentage'>) => {
-    const progressPercentage = calculateProgress(taskData.steps, taskData.completedSteps);
+  const addJobTask = async (taskInput: Omit<JobTask, 'id' | 'createdAt' | 'progressPercentage'>) => {
+    const progressPercentage = calculateProgress(taskInput.steps, taskInput.completedSteps);
+    // New tasks start blocked if anything they depend on is unfinished
+    const taskData = { ...taskInput, status: resolveDependencyStatus(taskInput, jobTasks) };
 
     if (!useSupabase) {
       // Fallback to localStorage mode
@@ -686,33 +819,18 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
           entityType: 'task',
           entityId: newTask.id,
           entityTitle: newTask.title,
+          details: { assignedTo: newTask.assignedTo },
         });
       }
       return;
     }
 
     try {
-      const { data, error } = await supabase.from('job_tasks').insert({
-        template_id: taskData.templateId,
-        title: taskData.title,
-        description: taskData.description,
-        assigned_to: taskData.assignedTo,
-        assigned_by: taskData.assignedBy,
-        department: taskData.department,
-        category: taskData.category,
-        scheduled_date: taskData.scheduledDate,
-        due_time: taskData.dueTime,
-        estimated_duration: taskData.estimatedDuration,
-        status: taskData.status,
-        priority: taskData.priority,
-        steps: taskData.steps,
-        completed_steps: taskData.completedSteps,
-        progress_percentage: progressPercentage,
-        sop_ids: taskData.sopIds,
-        comments: taskData.comments,
-        is_recurring: taskData.isRecurring || false,
-        recurrence_pattern: taskData.recurrencePattern,
-      }).select().single();
+      const { data, error } = await supabase
+        .from('job_tasks')
+        .insert(toSupabaseJobTaskRow(taskData, progressPercentage))
+        .select()
+        .single();
 
       if (error) {
         console.error('Error adding job task:', error);
@@ -729,6 +847,7 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
           entityType: 'task',
           entityId: data?.id,
           entityTitle: taskData.title,
+          details: { assignedTo: taskData.assignedTo },
         });
       }
 
@@ -742,6 +861,25 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
   const updateJobTask = async (id: string, taskData: Partial<JobTask>) => {
     const existingTask = jobTasks.find(t => t.id === id);
 
+    // A blocked task stays blocked unless this update drops what it waits on
+    const isBlocked = existingTask?.status === 'blocked' &&
+      (!('dependsOn' in taskData) || getBlockingTasks(taskData, jobTasks).length > 0);
+
+    // Nobody can start or complete it, and team members cannot work through
+    // its steps, until the tasks it depends on are done
+    if (
+      existingTask &&
+      isBlocked &&
+      (taskData.status === 'in-progress' ||
+        taskData.status === 'completed' ||
+        (!isAdmin && taskData.completedSteps && taskData.completedSteps.length > 0))
+    ) {
+      const blockers = getBlockingTasks({ ...existingTask, ...taskData }, jobTasks).map(t => `"${t.title}"`);
+      throw new Error(blockers.length > 0
+        ? `This task is waiting on ${blockers.join(', ')}`
+        : 'This task is waiting on other tasks to be completed');
+    }
+
     // Determine the action type based on what changed
     const getActionType = (): 'task_updated' | 'task_completed' | 'task_step_completed' | 'task_assigned' | 'task_started' => {
       if (taskData.status === 'completed') return 'task_completed';
@@ -767,7 +905,7 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
             }
 
             // Auto-update status based on progress
-            if (updatedTask.progressPercentage === 100 && updatedTask.status !== 'completed') {
+            if (updatedTask.progressPercentage === 100 && updatedTask.status !== 'completed' && !isBlocked) {
               updatedTask.status = 'completed';
               updatedTask.completedAt = new Date().toISOString();
             }
@@ -781,11 +919,12 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       // Log activity
       if (currentUser && existingTask) {
         const changedFields = Object.keys(taskData).filter(key => key !== 'updatedAt');
+        const action = getActionType();
         logActivity({
           userId: currentUser.id,
           userEmail: currentUser.email,
           userName: `${currentUser.firstName} ${currentUser.lastName}`,
-          action: getActionType(),
+          action,
           entityType: 'task',
           entityId: id,
           entityTitle: taskData.title || existingTask.title,
@@ -794,6 +933,12 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
             previousStatus: existingTask.status,
             newStatus: taskData.status || existingTask.status,
             progressPercentage: taskData.progressPercentage,
+            // Who to notify: whoever was added, or whoever assigned it
+            ...(action === 'task_assigned' && {
+              assignedTo: taskData.assignedTo,
+              previousAssignees: existingTask.assignedTo,
+            }),
+            ...(action === 'task_completed' && { assignedBy: existingTask.assignedBy }),
           },
         });
       }
@@ -809,7 +954,7 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       if (taskData.department !== undefined) updateData.department = taskData.department;
       if (taskData.category !== undefined) updateData.category = taskData.category;
       if (taskData.scheduledDate !== undefined) updateData.scheduled_date = taskData.scheduledDate;
-      if (taskData.dueTime !== undefined) updateData.due_time = taskData.dueTime;
+      if ('dueTime' in taskData) updateData.due_time = taskData.dueTime || null;
       if (taskData.estimatedDuration !== undefined) updateData.estimated_duration = taskData.estimatedDuration;
       if (taskData.status !== undefined) updateData.status = taskData.status;
       if (taskData.priority !== undefined) updateData.priority = taskData.priority;
@@ -822,6 +967,11 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       if (taskData.completionNotes !== undefined) updateData.completion_notes = taskData.completionNotes;
       if (taskData.completionPhotos !== undefined) updateData.completion_photos = taskData.completionPhotos;
       if (taskData.comments !== undefined) updateData.comments = taskData.comments;
+      if (taskData.isRecurring !== undefined) updateData.is_recurring = taskData.isRecurring;
+      if ('recurrencePattern' in taskData) updateData.recurrence_pattern = taskData.recurrencePattern || null;
+      if ('seriesId' in taskData) updateData.series_id = taskData.seriesId || null;
+      if ('occurrenceDate' in taskData) updateData.occurrence_date = taskData.occurrenceDate || null;
+      if ('dependsOn' in taskData) updateData.depends_on = taskData.dependsOn || [];
 
       // Calculate progress if steps or completedSteps changed
       const currentTask = jobTasks.find(t => t.id === id);
@@ -831,7 +981,7 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
         updateData.progress_percentage = calculateProgress(steps, completedSteps);
 
         // Auto-update status based on progress
-        if (updateData.progress_percentage === 100 && !taskData.status) {
+        if (updateData.progress_percentage === 100 && !taskData.status && !isBlocked) {
           updateData.status = 'completed';
           updateData.completed_at = new Date().toISOString();
         }
@@ -850,11 +1000,12 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       // Log activity
       if (currentUser && existingTask) {
         const changedFields = Object.keys(taskData).filter(key => key !== 'updatedAt');
+        const action = getActionType();
         logActivity({
           userId: currentUser.id,
           userEmail: currentUser.email,
           userName: `${currentUser.firstName} ${currentUser.lastName}`,
-          action: getActionType(),
+          action,
           entityType: 'task',
           entityId: id,
           entityTitle: taskData.title || existingTask.title,
@@ -863,6 +1014,12 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
             previousStatus: existingTask.status,
             newStatus: taskData.status || existingTask.status,
             progressPercentage: taskData.progressPercentage,
+            // Who to notify: whoever was added, or whoever assigned it
+            ...(action === 'task_assigned' && {
+              assignedTo: taskData.assignedTo,
+              previousAssignees: existingTask.assignedTo,
+            }),
+            ...(action === 'task_completed' && { assignedBy: existingTask.assignedBy }),
           },
         });
       }
@@ -882,7 +1039,7 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
             }
 
             // Auto-update status based on progress
-            if (updatedTask.progressPercentage === 100 && updatedTask.status !== 'completed') {
+            if (updatedTask.progressPercentage === 100 && updatedTask.status !== 'completed' && !isBlocked) {
               updatedTask.status = 'completed';
               updatedTask.completedAt = new Date().toISOString();
             }
@@ -892,18 +1049,38 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
           return task;
         })
       );
+      // Mirror the database trigger that blocks / unblocks dependent tasks
+      setJobTasks(prev => applyDependencyStatuses(prev));
     } catch (error) {
       console.error('Error updating job task:', error);
       throw error;
     }
   };
 
+  // Deleting a generated occurrence records its date as skipped on the series
+  // root, otherwise the recurrence engine would simply recreate it
+  const recordSkippedOccurrence = async (task: JobTask) => {
+    if (!task.seriesId) return;
+    const root = jobTasks.find(t => t.id === task.seriesId);
+    if (!root?.recurrencePattern) return;
+
+    const skipDates = root.recurrencePattern.skipDates || [];
+    const occurrenceDate = getOccurrenceDate(task);
+    if (skipDates.includes(occurrenceDate)) return;
+
+    await updateJobTask(root.id, {
+      recurrencePattern: { ...root.recurrencePattern, skipDates: [...skipDates, occurrenceDate].sort() },
+    });
+  };
+
   const deleteJobTask = async (id: string) => {
     const taskToDelete = jobTasks.find((task) => task.id === id);
+    if (taskToDelete && isSeriesRoot(taskToDelete)) await handOverSeries(taskToDelete);
 
     if (!useSupabase) {
       // Fallback to localStorage mode
-      setJobTasks(prev => prev.filter((task) => task.id !== id));
+      setJobTasks(prev => removeDependencyReferences(prev.filter((task) => task.id !== id), id));
+      if (taskToDelete) await recordSkippedOccurrence(taskToDelete);
 
       // Log activity
       if (currentUser && taskToDelete) {
@@ -931,6 +1108,8 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
         throw error;
       }
 
+      if (taskToDelete) await recordSkippedOccurrence(taskToDelete);
+
       // Log activity
       if (currentUser && taskToDelete) {
         logActivity({
@@ -945,7 +1124,7 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       }
 
       // Update local state
-      setJobTasks(prev => prev.filter((task) => task.id !== id));
+      setJobTasks(prev => removeDependencyReferences(prev.filter((task) => task.id !== id), id));
     } catch (error) {
       console.error('Error deleting job task:', error);
       throw error;
@@ -961,11 +1140,11 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
   };
 
   const getJobTasksByDate = (date: string): JobTask[] => {
-    return jobTasks.filter((task) => task.scheduledDate === date);
+    return visibleJobTasks.filter((task) => task.scheduledDate === date);
   };
 
   const getArchivedJobTasks = (): JobTask[] => {
-    return jobTasks.filter((task) => task.status === 'archived');
+    return visibleJobTasks.filter((task) => task.status === 'archived');
   };
 
   const archiveJobTask = async (id: string) => {
@@ -1012,6 +1191,117 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
     await updateJobTask(taskId, { completedSteps: completedStepIds });
   };
 
+  // Remove generated occurrences without recording them as skipped (they are
+  // about to be regenerated from an updated series)
+  const removeOccurrences = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    if (useSupabase) {
+      const { error } = await supabase.from('job_tasks').delete().in('id', ids);
+      if (error) {
+        console.error('Error removing recurring occurrences:', error);
+        throw error;
+      }
+    }
+
+    setJobTasks(prev => prev.filter(task => !ids.includes(task.id)));
+  };
+
+  // Point the occurrences of one series (every one, or just `ids`) at a new root
+  const reassignSeries = async (fromRootId: string, toRootId: string, ids?: string[]) => {
+    if (ids && ids.length === 0) return;
+
+    if (useSupabase) {
+      let query = supabase
+        .from('job_tasks')
+        .update({ series_id: toRootId, updated_at: new Date().toISOString() })
+        .eq('series_id', fromRootId);
+      if (ids) query = query.in('id', ids);
+
+      const { error } = await query;
+      if (error) {
+        console.error('Error reassigning recurring series:', error);
+        throw error;
+      }
+    }
+
+    setJobTasks(prev => prev.map(task =>
+      task.seriesId === fromRootId && (!ids || ids.includes(task.id)) ? { ...task, seriesId: toRootId } : task
+    ));
+  };
+
+  // Make the next occurrence the root before the current root leaves its series
+  const handOverSeries = async (root: JobTask): Promise<string | undefined> => {
+    const successor = getSeriesSuccessor(jobTasks, root);
+    if (!successor) return undefined;
+
+    await updateJobTask(successor.id, successor.changes);
+    await reassignSeries(root.id, successor.id);
+    return successor.id;
+  };
+
+  /**
+   * Edit a task that belongs to a recurring series.
+   * - 'this': only this occurrence changes. The root task doubles as the
+   *   series definition, so editing the root alone hands the series over to
+   *   its next occurrence first.
+   * - 'future': this occurrence and everything after it changes. Editing from
+   *   the middle of a series ends the original series the day before and
+   *   makes this occurrence the root of a new one, taking the later
+   *   occurrences with it. Untouched occurrences are dropped and regenerated
+   *   from the updated series.
+   */
+  const updateRecurringTask = async (id: string, taskData: Partial<JobTask>, scope: RecurrenceEditScope) => {
+    const task = jobTasks.find(t => t.id === id);
+    if (!task) return;
+
+    const rootId = getSeriesRootId(task);
+    const root = jobTasks.find(t => t.id === rootId);
+    const fromDate = getOccurrenceDate(task);
+
+    try {
+      if (scope === 'this') {
+        const { isRecurring, recurrencePattern, ...occurrenceChanges } = taskData;
+
+        if (task.id === rootId && root) {
+          const successorId = await handOverSeries(root);
+          if (successorId) {
+            await updateJobTask(id, { ...occurrenceChanges, seriesId: successorId, occurrenceDate: fromDate });
+            return;
+          }
+        }
+
+        await updateJobTask(id, occurrenceChanges);
+        return;
+      }
+
+      const { staleIds, keptIds } = splitFutureOccurrences(jobTasks, task);
+
+      if (task.id === rootId) {
+        await updateJobTask(id, taskData);
+      } else {
+        if (root?.recurrencePattern) {
+          const endDate = addDays(fromDate, -1);
+          const currentEnd = root.recurrencePattern.endDate;
+          await updateJobTask(rootId, {
+            recurrencePattern: {
+              ...root.recurrencePattern,
+              endDate: currentEnd && currentEnd < endDate ? currentEnd : endDate,
+            },
+          });
+        }
+        await updateJobTask(id, { ...taskData, seriesId: undefined, occurrenceDate: undefined });
+        // Started or moved occurrences follow the new series, which must not generate their dates again
+        await reassignSeries(rootId, id, keptIds);
+      }
+
+      await removeOccurrences(staleIds);
+    } catch (error) {
+      console.error('Error updating recurring task:', error);
+      throw error;
+    }
+  };
+
   const createJobTaskFromTemplate = async (
     templateId: string,
     assignedTo: string[],
@@ -1068,6 +1358,7 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       recurrencePattern?: any;
       templateId?: string;
       sopId?: string;
+      dependsOn?: string[];
     },
     saveAsTemplate: boolean = false
   ): Promise<void> => {
@@ -1132,6 +1423,7 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
         comments: [],
         isRecurring: taskData.isRecurring,
         recurrencePattern: taskData.recurrencePattern,
+        dependsOn: taskData.dependsOn,
       };
 
       await addJobTask(jobTask);
@@ -1153,13 +1445,13 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
   };
 
   const value: TaskContextType = {
-    taskTemplates,
+    taskTemplates: visibleTemplates,
     addTaskTemplate,
     updateTaskTemplate,
     deleteTaskTemplate,
     getTaskTemplateById,
     getTaskTemplatesByDepartment,
-    jobTasks,
+    jobTasks: visibleJobTasks,
     addJobTask,
     updateJobTask,
     deleteJobTask,
@@ -1170,6 +1462,7 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
     getJobTasksByDate,
     getArchivedJobTasks,
     updateTaskProgress,
+    updateRecurringTask,
     createJobTaskFromTemplate,
     createJobTaskUnified,
     refreshTasks,
@@ -0,0 +1,154 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { OrganizationSettings } from '../types';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { getBrowserTimeZone, isValidTimeZone, setDefaultTimeZone } from '../utils/dateTime';
+import { useAuth } from './AuthContext';
+
+interface TimeZoneContextType {
+  timeZone: string; // The zone in effect: the user's own, else the organization's
+  organizationTimeZone: string;
+  setOrganizationTimeZone: (timeZone: string) => Promise<void>;
+  loading: boolean;
+}
+
+const TimeZoneContext = createContext<TimeZoneContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'mediamaple_organization_settings';
+
+const SETTINGS_ROW_ID = 'default';
+
+const mapSupabaseSettings = (row: any): OrganizationSettings => ({
+  timeZone: row.time_zone,
+  updatedAt: row.updated_at || undefined,
+  updatedBy: row.updated_by || undefined,
+});
+
+const readLocalSettings = (): OrganizationSettings | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const TimeZoneProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<OrganizationSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { currentUser, isAuthenticated, loading: authLoading } = useAuth();
+  const useSupabase = isSupabaseConfigured();
+
+  const loadSettings = useCallback(async () => {
+    if (!useSupabase) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('organization_settings')
+        .select('*')
+        .eq('id', SETTINGS_ROW_ID)
+        .maybeSingle();
+
+      if (error) throw error;
+      setSettings(data ? mapSupabaseSettings(data) : null);
+    } catch (error) {
+      // Before migration v16 there is no table; everyone stays on their browser's zone
+      console.error('Error loading organization settings:', error);
+    }
+  }, [useSupabase]);
+
+  // Initialize: Load settings from Supabase or localStorage (only after auth is ready)
+  useEffect(() => {
+    if (authLoading) return;
+
+    const initializeSettings = async () => {
+      if (!useSupabase) {
+        setSettings(readLocalSettings());
+        setLoading(false);
+        return;
+      }
+
+      if (!isAuthenticated) {
+        setLoading(false);
+        return;
+      }
+
+      await loadSettings();
+      setLoading(false);
+    };
+
+    initializeSettings();
+  }, [useSupabase, authLoading, isAuthenticated, loadSettings]);
+
+  // Subscribe to real-time changes so an admin's change applies everywhere
+  useEffect(() => {
+    if (!useSupabase) return;
+
+    const channel = supabase
+      .channel('organization_settings_changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'organization_settings' }, () => {
+        loadSettings();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [useSupabase, loadSettings]);
+
+  const setOrganizationTimeZone = useCallback(async (timeZone: string) => {
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+
+    const updated: OrganizationSettings = {
+      timeZone,
+      updatedAt: new Date().toISOString(),
+      updatedBy: currentUser?.id,
+    };
+
+    if (!useSupabase) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+      setSettings(updated);
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('organization_settings')
+        .upsert({ id: SETTINGS_ROW_ID, time_zone: timeZone, updated_by: currentUser?.id || null });
+
+      if (error) throw error;
+      setSettings(updated);
+    } catch (error) {
+      console.error('Error updating organization time zone:', error);
+      throw error;
+    }
+  }, [useSupabase, currentUser]);
+
+  const organizationTimeZone = isValidTimeZone(settings?.timeZone) ? settings!.timeZone : getBrowserTimeZone();
+  const timeZone = isValidTimeZone(currentUser?.timeZone) ? currentUser!.timeZone! : organizationTimeZone;
+
+  // Set during render so children rendering in this pass already use it
+  setDefaultTimeZone(timeZone);
+
+  const value: TimeZoneContextType = {
+    timeZone,
+    organizationTimeZone,
+    setOrganizationTimeZone,
+    loading,
+  };
+
+  return (
+    <TimeZoneContext.Provider value={value}>
+      {children}
+    </TimeZoneContext.Provider>
+  );
+};
+
+export const useTimeZone = () => {
+  const context = useContext(TimeZoneContext);
+  if (context === undefined) {
+    throw new Error('useTimeZone must be used within a TimeZoneProvider');
+  }
+  return context;
+};
@@ -1,14 +1,18 @@
 import React, { createContext, useContext, useState, useCallback } from 'react';
-import Toast, { ToastType } from '../components/Toast';
+import Toast, { ToastAction, ToastType } from '../components/Toast';
 
 interface ToastMessage {
   id: string;
   message: string;
   type: ToastType;
+  action?: ToastAction;
 }
 
+// Toasts with an action stay up longer so there is time to click it
+const ACTION_TOAST_DURATION = 6000;
+
 interface ToastContextType {
-  showToast: (message: string, type: ToastType) => void;
+  showToast: (message: string, type: ToastType, action?: ToastAction) => void;
   success: (message: string) => void;
   error: (message: string) => void;
   warning: (message: string) => void;
@@ -20,9 +24,9 @@ const ToastContext = createContext<ToastContextType | undefined>(undefined);
 export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
 
-  const showToast = useCallback((message: string, type: ToastType) => {
+  const showToast = useCallback((message: string, type: ToastType, action?: ToastAction) => {
     const id = `toast-${Date.now()}-${Math.random()}`;
-    setToasts((prev) => [...prev, { id, message, type }]);
+    setToasts((prev) => [...prev, { id, message, type, action }]);
   }, []);
 
   const success = useCallback((message: string) => showToast(message, 'success'), [showToast]);
@@ -43,6 +47,8 @@ export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ childre
             <Toast
               message={toast.message}
               type={toast.type}
+              action={toast.action}
+              duration={toast.action ? ACTION_TOAST_DURATION : undefined}
               onClose={() => removeToast(toast.id)}
             />
           </div>
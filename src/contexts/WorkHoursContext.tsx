@@ -105,7 +105,7 @@ export const WorkHoursProvider: React.FC<{ children: ReactNode }> = ({ children
   const [workHours, setWorkHours] = useState<WorkHoursEntry[]>([]);
   const [workDays, setWorkDays] = useState<WorkDay[]>([]);
   const [loading, setLoading] = useState(true);
-  const { currentUser, users } = useAuth();
+  const { currentUser, users, hasPermission } = useAuth();
   const useSupabase = isSupabaseConfigured();
 
   // Load work hours and work days
@@ -303,6 +303,9 @@ export const WorkHoursProvider: React.FC<{ children: ReactNode }> = ({ children
 
   const approveWorkHours = useCallback(async (id: string) => {
     if (!currentUser) return;
+    if (!hasPermission('approve_work_hours')) {
+      throw new Error("You don't have permission to approve work hours");
+    }
 
     const updates: Partial<WorkHoursEntry> = {
       status: 'approved',
@@ -311,10 +314,13 @@ export const WorkHoursProvider: React.FC<{ children: ReactNode }> = ({ children
     };
 
     await updateWorkHours(id, updates);
-  }, [currentUser, updateWorkHours]);
+  }, [currentUser, hasPermission, updateWorkHours]);
 
   const rejectWorkHours = useCallback(async (id: string) => {
     if (!currentUser) return;
+    if (!hasPermission('approve_work_hours')) {
+      throw new Error("You don't have permission to reject work hours");
+    }
 
     const updates: Partial<WorkHoursEntry> = {
       status: 'rejected',
@@ -323,7 +329,7 @@ export const WorkHoursProvider: React.FC<{ children: ReactNode }> = ({ children
     };
 
     await updateWorkHours(id, updates);
-  }, [currentUser, updateWorkHours]);
+  }, [currentUser, hasPermission, updateWorkHours]);
 
   const getWorkHoursById = useCallback((id: string) => {
     return workHours.find(wh => wh.id === id);
@@ -0,0 +1,35 @@
+/**
+ * The loadable URL of a stored attachment or step photo. Files in the
+ * private attachments bucket need a signed URL, so this is undefined until
+ * one has been fetched (or if it could not be).
+ */
+
+import { useEffect, useState } from 'react';
+import { getAttachmentPath, getAttachmentUrl } from '../services/attachments';
+
+export const useAttachmentUrl = (url?: string): string | undefined => {
+  const [resolved, setResolved] = useState<string | undefined>(() =>
+    url && !getAttachmentPath(url) ? url : undefined
+  );
+
+  useEffect(() => {
+    if (!url) {
+      setResolved(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    getAttachmentUrl(url)
+      .then(loadable => {
+        if (!cancelled) setResolved(loadable);
+      })
+      .catch(() => {
+        if (!cancelled) setResolved(undefined);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return resolved;
+};
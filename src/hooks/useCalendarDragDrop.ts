@@ -0,0 +1,287 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { CalendarEvent, JobTask } from '../types';
+import { useEvent } from '../contexts/EventContext';
+import { useTask } from '../contexts/TaskContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useRecurrenceScope } from './useRecurrenceScope';
+import {
+  getOccurrenceDate,
+  getOccurrenceDates,
+  getSeriesRootId,
+  isPartOfSeries,
+  shiftRecurrencePattern,
+} from '../utils/recurrence';
+import { addDays, daysBetween, parseDateKey, toDateKey } from '../utils/dateTime';
+
+export type CalendarDragItem =
+  | { kind: 'event'; event: CalendarEvent }
+  | { kind: 'task'; task: JobTask };
+
+// 'day' targets only change the date (month cells, all-day rows); 'time' targets are hour grids
+export type CalendarDropMode = 'day' | 'time';
+
+// The week and day grids start at 6 AM with one pixel per minute
+const GRID_START_MINUTES = 6 * 60;
+const GRID_END_MINUTES = 23 * 60;
+const SNAP_MINUTES = 15;
+const DEFAULT_EVENT_MINUTES = 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const fromMinutes = (total: number): string =>
+  `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+
+const formatDropTarget = (dateKey: string, time?: string) => {
+  const label = parseDateKey(dateKey).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  return time ? `${label} at ${time}` : label;
+};
+
+// The fields a move can change, so it can be put back
+const eventSchedule = (event: CalendarEvent): Partial<CalendarEvent> => ({
+  startDate: event.startDate,
+  endDate: event.endDate,
+  startTime: event.startTime,
+  endTime: event.endTime,
+  isAllDay: event.isAllDay,
+  isRecurring: event.isRecurring,
+  recurrencePattern: event.recurrencePattern,
+});
+
+/**
+ * Drag-and-drop rescheduling for the calendar's month, week and day views.
+ * Spread `getDragProps(item)` on an event or task chip and
+ * `getDropProps(date, mode)` on the cell or column it can be dropped on.
+ * Each move ends with an Undo toast; recurring items first ask whether to
+ * move just this occurrence or the series.
+ *
+ * Anyone can move events; only calendar managers (manage_calendar) reschedule tasks.
+ */
+export const useCalendarDragDrop = () => {
+  const { addEvent, updateEvent, deleteEvent } = useEvent();
+  const { jobTasks, updateJobTask, updateRecurringTask } = useTask();
+  const { hasPermission } = useAuth();
+  const canManageCalendar = hasPermission('manage_calendar');
+  const { showToast, error: showError, success: showSuccess } = useToast();
+  const { chooseScope, scopeDialog } = useRecurrenceScope();
+
+  const [dragItem, setDragItem] = useState<CalendarDragItem | null>(null);
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
+
+  // Undo runs after the move has re-rendered, so it needs the current context functions
+  const latest = useRef({ updateEvent, deleteEvent, updateJobTask, updateRecurringTask });
+  latest.current = { updateEvent, deleteEvent, updateJobTask, updateRecurringTask };
+
+  const getDropTime = (e: React.DragEvent<HTMLElement>): string => {
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const snapped = Math.round((GRID_START_MINUTES + offset) / SNAP_MINUTES) * SNAP_MINUTES;
+    return fromMinutes(Math.min(Math.max(snapped, GRID_START_MINUTES), GRID_END_MINUTES - SNAP_MINUTES));
+  };
+
+  const undoMove = async (revert: () => Promise<void>) => {
+    try {
+      await revert();
+    } catch (error) {
+      console.error('Failed to undo move:', error);
+      showError('Failed to undo the move. Please try again.');
+    }
+  };
+
+  const moveEvent = async (event: CalendarEvent, toDate: string, toTime?: string) => {
+    const fromDate = event.startDate.split('T')[0];
+    const shift = daysBetween(parseDateKey(fromDate), parseDateKey(toDate));
+
+    const changes: Partial<CalendarEvent> = {
+      startDate: toDate,
+      ...(event.endDate && { endDate: addDays(event.endDate, shift) }),
+    };
+    if (toTime) {
+      const duration = !event.isAllDay && event.startTime && event.endTime
+        ? toMinutes(event.endTime) - toMinutes(event.startTime)
+        : 0;
+      const end = toMinutes(toTime) + (duration > 0 ? duration : DEFAULT_EVENT_MINUTES);
+      changes.isAllDay = false;
+      changes.startTime = toTime;
+      changes.endTime = fromMinutes(Math.min(end, 24 * 60 - 1));
+    }
+    if (shift === 0 && (!toTime || (toTime === event.startTime && !event.isAllDay))) return;
+
+    const previous = eventSchedule(event);
+    const target = formatDropTarget(toDate, toTime);
+
+    if (!event.isRecurring || !event.recurrencePattern) {
+      await updateEvent(event.id, changes);
+      showToast(`Moved "${event.title}" to ${target}`, 'success', {
+        label: 'Undo',
+        onClick: () => undoMove(() => latest.current.updateEvent(event.id, previous)),
+      });
+      return;
+    }
+
+    const scope = await chooseScope({
+      title: 'Move recurring event',
+      message: `Move only this occurrence of "${event.title}", or the whole series?`,
+    });
+    if (!scope) return;
+
+    const pattern = event.recurrencePattern;
+    if (scope === 'future') {
+      await updateEvent(event.id, { ...changes, recurrencePattern: shiftRecurrencePattern(pattern, fromDate, toDate) });
+      showToast(`Moved the "${event.title}" series to start ${target}`, 'success', {
+        label: 'Undo',
+        onClick: () => undoMove(() => latest.current.updateEvent(event.id, previous)),
+      });
+      return;
+    }
+
+    // Only the first occurrence is on the calendar, so the series now starts at the next one
+    const horizon = addDays(fromDate, 366 * Math.max(1, pattern.interval || 1));
+    const nextDate = getOccurrenceDates(pattern, fromDate, addDays(fromDate, 1), horizon)[0];
+    if (nextDate) {
+      const nextShift = daysBetween(parseDateKey(fromDate), parseDateKey(nextDate));
+      await updateEvent(event.id, {
+        startDate: nextDate,
+        ...(event.endDate && { endDate: addDays(event.endDate, nextShift) }),
+        recurrencePattern: pattern.count ? { ...pattern, count: pattern.count - 1 } : pattern,
+      });
+    } else {
+      await updateEvent(event.id, { isRecurring: false, recurrencePattern: undefined });
+    }
+
+    const { id, createdAt, createdBy, updatedAt, ...details } = event;
+    const moved = await addEvent({ ...details, ...changes, isRecurring: false, recurrencePattern: undefined });
+    showToast(`Moved this "${event.title}" to ${target}`, 'success', {
+      label: 'Undo',
+      onClick: () => undoMove(async () => {
+        await latest.current.deleteEvent(moved.id);
+        await latest.current.updateEvent(event.id, previous);
+      }),
+    });
+  };
+
+  const moveTask = async (task: JobTask, toDate: string, toTime?: string) => {
+    if (task.scheduledDate === toDate && (!toTime || toTime === task.dueTime)) return;
+
+    const changes: Partial<JobTask> = { scheduledDate: toDate, ...(toTime && { dueTime: toTime }) };
+    const previous: Partial<JobTask> = { scheduledDate: task.scheduledDate, dueTime: task.dueTime };
+    const target = formatDropTarget(toDate, toTime);
+
+    if (!isPartOfSeries(task)) {
+      await updateJobTask(task.id, changes);
+      showToast(`Moved "${task.title}" to ${target}`, 'success', {
+        label: 'Undo',
+        onClick: () => undoMove(() => latest.current.updateJobTask(task.id, previous)),
+      });
+      return;
+    }
+
+    const scope = await chooseScope({
+      title: 'Move recurring task',
+      message: `Move only this occurrence of "${task.title}", or this and all future occurrences?`,
+    });
+    if (!scope) return;
+
+    if (scope === 'this') {
+      await updateRecurringTask(task.id, changes, 'this');
+      showToast(`Moved this "${task.title}" to ${target}`, 'success', {
+        label: 'Undo',
+        onClick: () => undoMove(() => latest.current.updateJobTask(task.id, previous)),
+      });
+      return;
+    }
+
+    const rootId = getSeriesRootId(task);
+    const pattern = jobTasks.find(t => t.id === rootId)?.recurrencePattern;
+    await updateRecurringTask(task.id, {
+      ...changes,
+      ...(pattern && {
+        isRecurring: true,
+        recurrencePattern: shiftRecurrencePattern(pattern, getOccurrenceDate(task), toDate),
+      }),
+    }, 'future');
+
+    // Moving from the start of a series can be reversed the same way; a split series cannot
+    if (task.id !== rootId) {
+      showSuccess(`Moved "${task.title}" and its future occurrences to ${target}`);
+      return;
+    }
+    showToast(`Moved the "${task.title}" series to ${target}`, 'success', {
+      label: 'Undo',
+      onClick: () => undoMove(() =>
+        latest.current.updateRecurringTask(task.id, { ...previous, recurrencePattern: pattern }, 'future')
+      ),
+    });
+  };
+
+  const moveItem = async (item: CalendarDragItem, toDate: string, toTime?: string) => {
+    try {
+      if (item.kind === 'event') {
+        await moveEvent(item.event, toDate, toTime);
+      } else {
+        await moveTask(item.task, toDate, toTime);
+      }
+    } catch (error) {
+      console.error('Failed to move calendar item:', error);
+      showError(error instanceof Error && error.message ? error.message : 'Failed to move item. Please try again.');
+    }
+  };
+
+  const canDrag = useCallback(
+    (item: CalendarDragItem) => item.kind === 'event' || canManageCalendar,
+    [canManageCalendar]
+  );
+
+  const getDragProps = (item: CalendarDragItem): React.HTMLAttributes<HTMLElement> & { draggable?: boolean } => {
+    if (!canDrag(item)) return {};
+    return {
+      draggable: true,
+      onDragStart: (e) => {
+        e.stopPropagation();
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', item.kind === 'event' ? item.event.title : item.task.title);
+        setDragItem(item);
+      },
+      onDragEnd: () => {
+        setDragItem(null);
+        setDropTargetKey(null);
+      },
+    };
+  };
+
+  const getDropProps = (date: Date, mode: CalendarDropMode): React.HTMLAttributes<HTMLElement> => {
+    const dateKey = toDateKey(date);
+    const key = `${mode}:${dateKey}`;
+    return {
+      onDragOver: (e) => {
+        if (!dragItem) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        if (dropTargetKey !== key) setDropTargetKey(key);
+      },
+      onDragLeave: (e) => {
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+        setDropTargetKey(current => (current === key ? null : current));
+      },
+      onDrop: (e) => {
+        if (!dragItem) return;
+        e.preventDefault();
+        e.stopPropagation();
+        const item = dragItem;
+        const time = mode === 'time' ? getDropTime(e) : undefined;
+        setDragItem(null);
+        setDropTargetKey(null);
+        moveItem(item, dateKey, time);
+      },
+    };
+  };
+
+  const isDropTarget = (date: Date, mode: CalendarDropMode) => dropTargetKey === `${mode}:${toDateKey(date)}`;
+
+  const isDragging = (id: string) =>
+    !!dragItem && (dragItem.kind === 'event' ? dragItem.event.id : dragItem.task.id) === id;
+
+  return { getDragProps, getDropProps, isDropTarget, isDragging, scopeDialog };
+};
@@ -0,0 +1,149 @@
+/**
+ * Comments on a task or job: loads them, keeps them live and logs each change
+ * so mentioned users and the author being replied to are notified.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  addComment as addCommentRow,
+  updateComment,
+  deleteComment as deleteCommentRow,
+  fetchComments,
+  CommentDraft,
+  LOCAL_COMMENTS_EVENT,
+} from '../services/comments';
+import { useAuth } from '../contexts/AuthContext';
+import { logActivity } from '../utils/activityLogger';
+import { CommentEntityType, TaskComment } from '../types';
+
+interface UseCommentsReturn {
+  comments: TaskComment[]; // Oldest first, replies included
+  legacyIds: Set<string>; // Still stored in the task/job JSON, so read-only
+  loading: boolean;
+  addComment: (draft: Omit<CommentDraft, 'userId' | 'userName'>) => Promise<void>;
+  editComment: (comment: TaskComment, text: string, mentions: string[]) => Promise<void>;
+  deleteComment: (comment: TaskComment) => Promise<void>;
+}
+
+export const useComments = (
+  entityType: CommentEntityType,
+  entityId: string,
+  entityTitle: string,
+  legacyComments: TaskComment[] = []
+): UseCommentsReturn => {
+  const { currentUser } = useAuth();
+  const [stored, setStored] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const useSupabase = isSupabaseConfigured();
+
+  const loadComments = useCallback(async () => {
+    try {
+      setStored(await fetchComments(entityType, entityId));
+    } catch {
+      // Already logged; the inline comments below still show
+    }
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadComments().finally(() => setLoading(false));
+  }, [loadComments]);
+
+  // Pick up comments from other people as they're posted
+  useEffect(() => {
+    if (!useSupabase) {
+      const handleChange = () => loadComments();
+      window.addEventListener(LOCAL_COMMENTS_EVENT, handleChange);
+      window.addEventListener('storage', handleChange);
+      return () => {
+        window.removeEventListener(LOCAL_COMMENTS_EVENT, handleChange);
+        window.removeEventListener('storage', handleChange);
+      };
+    }
+
+    const channel = supabase
+      .channel(`comments_${entityType}_${entityId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'comments', filter: `entity_id=eq.${entityId}` },
+        () => {
+          loadComments();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [useSupabase, entityType, entityId, loadComments]);
+
+  // Migration v20 copies inline comments into the table; any it hasn't are shown as they are
+  const { comments, legacyIds } = useMemo(() => {
+    const storedIds = new Set(stored.map(comment => comment.id));
+    const legacy = legacyComments.filter(comment => !storedIds.has(comment.id));
+    return {
+      comments: [...legacy, ...stored].sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+      legacyIds: new Set(legacy.map(comment => comment.id)),
+    };
+  }, [stored, legacyComments]);
+
+  const log = useCallback((
+    action: 'comment_added' | 'comment_edited' | 'comment_deleted',
+    details: Record<string, any>
+  ) => {
+    if (!currentUser) return;
+    logActivity({
+      userId: currentUser.id,
+      userEmail: currentUser.email,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`,
+      action,
+      entityType,
+      entityId,
+      entityTitle,
+      details,
+    });
+  }, [currentUser, entityType, entityId, entityTitle]);
+
+  const addComment = useCallback(async (draft: Omit<CommentDraft, 'userId' | 'userName'>) => {
+    if (!currentUser) return;
+
+    const comment = await addCommentRow(entityType, entityId, {
+      ...draft,
+      userId: currentUser.id,
+      userName: `${currentUser.firstName} ${currentUser.lastName}`,
+    });
+    setStored(prev => (prev.some(c => c.id === comment.id) ? prev : [...prev, comment]));
+
+    const parent = draft.parentId ? comments.find(c => c.id === draft.parentId) : undefined;
+    log('comment_added', {
+      commentId: comment.id,
+      excerpt: comment.text.slice(0, 140),
+      mentions: comment.mentions,
+      ...(parent && { replyTo: parent.userId }),
+    });
+  }, [currentUser, entityType, entityId, comments, log]);
+
+  const editComment = useCallback(async (comment: TaskComment, text: string, mentions: string[]) => {
+    const editedAt = await updateComment(comment.id, text, mentions);
+    setStored(prev => prev.map(c => (c.id === comment.id ? { ...c, text, mentions, editedAt } : c)));
+
+    // Only people newly mentioned by the edit are notified
+    const previous = comment.mentions || [];
+    log('comment_edited', {
+      commentId: comment.id,
+      excerpt: text.slice(0, 140),
+      mentions: mentions.filter(userId => !previous.includes(userId)),
+    });
+  }, [log]);
+
+  const deleteComment = useCallback(async (comment: TaskComment) => {
+    const deletedAt = await deleteCommentRow(comment.id);
+    setStored(prev => prev.map(c => (
+      c.id === comment.id ? { ...c, text: '', mentions: [], attachments: [], deletedAt } : c
+    )));
+    log('comment_deleted', { commentId: comment.id, authorId: comment.userId });
+  }, [log]);
+
+  return { comments, legacyIds, loading, addComment, editComment, deleteComment };
+};
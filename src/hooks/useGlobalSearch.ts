@@ -0,0 +1,111 @@
+// Hook for the global command-palette search
+// Searches live context data while online and mirrors it to IndexedDB so the
+// same search keeps working offline.
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useSOPs } from '../contexts/SOPContext';
+import { useTask } from '../contexts/TaskContext';
+import { useEvent } from '../contexts/EventContext';
+import { useAuth } from '../contexts/AuthContext';
+import { getAllItems, replaceAllItems, isOnline as checkIsOnline, STORES } from '../lib/indexedDB';
+import { fetchCommentsByEntity } from '../services/comments';
+import { buildSearchDocuments, searchDocuments, SearchResult, SearchSources } from '../utils/search';
+import { TaskComment } from '../types';
+
+// Debounce for mirroring context data into IndexedDB
+const MIRROR_DELAY_MS = 2000;
+
+// `isOpen`: comments are fetched each time the palette opens rather than kept live
+export const useGlobalSearch = (isOpen = true) => {
+  const { sops } = useSOPs();
+  const { taskTemplates, jobTasks } = useTask();
+  const { events } = useEvent();
+  const { isAdmin, currentUser } = useAuth();
+  const [isOnline, setIsOnline] = useState(checkIsOnline());
+  const [offlineSources, setOfflineSources] = useState<SearchSources | null>(null);
+  const [taskComments, setTaskComments] = useState<Record<string, TaskComment[]>>({});
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Task comments live in their own table
+  useEffect(() => {
+    if (!isOnline || !isOpen) return;
+    fetchCommentsByEntity('task')
+      .then(setTaskComments)
+      .catch(() => {
+        // Already logged; search falls back to comments stored on the tasks
+      });
+  }, [isOnline, isOpen]);
+
+  // Mirror the latest data into IndexedDB (best-effort)
+  useEffect(() => {
+    if (!isOnline) return;
+    const timer = setTimeout(() => {
+      Promise.all([
+        replaceAllItems(STORES.SOPS, sops),
+        replaceAllItems(STORES.TASK_TEMPLATES, taskTemplates),
+        replaceAllItems(STORES.JOB_TASKS, jobTasks),
+        replaceAllItems(STORES.CALENDAR_EVENTS, events),
+      ]).catch(error => console.error('Error caching search data offline:', error));
+    }, MIRROR_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isOnline, sops, taskTemplates, jobTasks, events]);
+
+  // Load the offline copy when the connection drops
+  useEffect(() => {
+    if (isOnline) {
+      setOfflineSources(null);
+      return;
+    }
+    Promise.all([
+      getAllItems(STORES.SOPS),
+      getAllItems(STORES.TASK_TEMPLATES),
+      getAllItems(STORES.JOB_TASKS),
+      getAllItems(STORES.CALENDAR_EVENTS),
+    ])
+      .then(([offlineSOPs, offlineTemplates, offlineTasks, offlineEvents]) => {
+        setOfflineSources({
+          sops: offlineSOPs,
+          templates: offlineTemplates,
+          tasks: offlineTasks,
+          events: offlineEvents,
+        });
+      })
+      .catch(error => console.error('Error loading offline search data:', error));
+  }, [isOnline]);
+
+  const documents = useMemo(() => {
+    const sources: SearchSources = offlineSources || {
+      sops,
+      templates: taskTemplates,
+      tasks: jobTasks,
+      events,
+    };
+
+    // Team members only see their own tasks, and the task library is admin-only
+    return buildSearchDocuments({
+      sops: sources.sops,
+      templates: isAdmin ? sources.templates : [],
+      tasks: isAdmin
+        ? sources.tasks
+        : sources.tasks.filter(task => !!currentUser && task.assignedTo.includes(currentUser.id)),
+      events: sources.events,
+      taskComments,
+    });
+  }, [offlineSources, sops, taskTemplates, jobTasks, events, isAdmin, currentUser, taskComments]);
+
+  const search = useCallback(
+    (query: string): SearchResult[] => searchDocuments(documents, query),
+    [documents]
+  );
+
+  return { search, isOffline: !isOnline };
+};
@@ -9,9 +9,9 @@ import {
   initiateGoogleAuth,
   disconnectGoogleCalendar,
   createGoogleCalendarEvent,
-  convertToGoogleEvent,
   GoogleUserInfo,
 } from '../services/googleCalendar';
+import { toGoogleEvent } from '../services/googleCalendarSync';
 import { CalendarEvent, JobTask } from '../types';
 
 interface UseGoogleCalendarReturn {
@@ -65,22 +65,12 @@ export const useGoogleCalendar = (): UseGoogleCalendarReturn => {
     setUserInfo(null);
   }, []);
 
+  // One-off copies carry the sync key, so the sync engine adopts them instead of duplicating them
   const syncEventToGoogle = useCallback(async (event: CalendarEvent): Promise<boolean> => {
     if (!isConnected) return false;
 
     try {
-      const googleEvent = convertToGoogleEvent({
-        title: event.title,
-        description: event.description,
-        location: event.location,
-        startDate: event.startDate,
-        startTime: event.startTime,
-        endDate: event.endDate,
-        endTime: event.endTime,
-        isAllDay: event.isAllDay,
-      });
-
-      const result = await createGoogleCalendarEvent(googleEvent);
+      const result = await createGoogleCalendarEvent(toGoogleEvent({ kind: 'event', item: event }));
       return result !== null;
     } catch (error) {
       console.error('Error syncing event to Google Calendar:', error);
@@ -92,43 +82,7 @@ export const useGoogleCalendar = (): UseGoogleCalendarReturn => {
     if (!isConnected) return false;
 
     try {
-      // Build description with task details
-      let description = '';
-      if (task.description) {
-        description += task.description + '\n\n';
-      }
-      description += `Status: ${task.status}\n`;
-      description += `Priority: ${task.priority}\n`;
-      if (task.estimatedDuration) {
-        description += `Estimated Duration: ${task.estimatedDuration} minutes\n`;
-      }
-      if (task.steps && task.steps.length > 0) {
-        description += '\nSteps:\n';
-        task.steps.forEach((step, index) => {
-          const isCompleted = task.completedSteps.includes(step.id);
-          description += `${isCompleted ? '✓' : '○'} ${index + 1}. ${step.title}\n`;
-        });
-      }
-
-      const googleEvent = convertToGoogleEvent({
-        title: `[Task] ${task.title}`,
-        description: description.trim(),
-        startDate: task.scheduledDate,
-        startTime: task.dueTime,
-        isAllDay: !task.dueTime,
-      });
-
-      // Set duration based on estimated time
-      if (task.dueTime && task.estimatedDuration) {
-        const start = new Date(`${task.scheduledDate}T${task.dueTime}:00`);
-        const end = new Date(start.getTime() + task.estimatedDuration * 60000);
-        googleEvent.end = {
-          dateTime: end.toISOString(),
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        };
-      }
-
-      const result = await createGoogleCalendarEvent(googleEvent);
+      const result = await createGoogleCalendarEvent(toGoogleEvent({ kind: 'task', item: task }));
       return result !== null;
     } catch (error) {
       console.error('Error syncing task to Google Calendar:', error);
@@ -0,0 +1,86 @@
+// Hook that delivers push notifications on devices using the local stand-in
+// (no VAPID key, see services/pushNotifications). While the app is open it
+// runs the notification rules every minute and shows whatever came due since
+// the last check, catching up on anything missed while it was closed.
+import { useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useTask } from '../contexts/TaskContext';
+import { useEvent } from '../contexts/EventContext';
+import { useTimeZone } from '../contexts/TimeZoneContext';
+import { getLocalPushDevice, isLocalPushTransport, isPushSupported, showLocalPush } from '../services/pushNotifications';
+import { getScheduledNotifications, NotificationInput } from '../utils/notificationRules';
+
+const CHECK_INTERVAL = 60 * 1000;
+
+// How far back a device catches up after being closed
+const MAX_CATCH_UP = 24 * 60 * 60 * 1000;
+
+const LAST_CHECK_KEY = 'mediamaple_push_last_check';
+const DELIVERED_KEY = 'mediamaple_push_delivered';
+
+// Tag -> when it was shown
+const readDelivered = (): Record<string, number> => {
+  try {
+    const stored = localStorage.getItem(DELIVERED_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const useLocalPushDelivery = () => {
+  const { currentUser } = useAuth();
+  const { jobTasks, loading: tasksLoading } = useTask();
+  const { events, loading: eventsLoading } = useEvent();
+  const { timeZone } = useTimeZone();
+
+  // The interval reads the latest data without restarting on every change
+  const inputRef = useRef<NotificationInput | null>(null);
+  // Until both have loaded, a check would find nothing and skip ahead
+  inputRef.current = currentUser && !tasksLoading && !eventsLoading
+    ? {
+        userId: currentUser.id,
+        tasks: jobTasks,
+        events,
+        preferences: currentUser.notificationPreferences,
+        timeZone,
+      }
+    : null;
+
+  const userId = currentUser?.id;
+
+  useEffect(() => {
+    if (!userId || !isLocalPushTransport() || !isPushSupported()) return;
+
+    const deliver = () => {
+      const input = inputRef.current;
+      const device = getLocalPushDevice();
+      if (!input || device?.userId !== userId || Notification.permission !== 'granted') return;
+
+      const now = Date.now();
+      const lastCheck = Number(localStorage.getItem(LAST_CHECK_KEY)) || now - CHECK_INTERVAL;
+      const from = new Date(Math.max(lastCheck, now - MAX_CATCH_UP));
+      localStorage.setItem(LAST_CHECK_KEY, String(now));
+
+      const delivered = readDelivered();
+      getScheduledNotifications(input, from, new Date(now))
+        .filter(notification => !delivered[notification.tag])
+        .forEach(({ tag, title, body, url }) => {
+          delivered[tag] = now;
+          showLocalPush({ tag, title, body, url }).catch(error => {
+            console.error('Error showing notification:', error);
+          });
+        });
+
+      // Tags carry their date, so old ones can never come due again
+      Object.keys(delivered).forEach(tag => {
+        if (now - delivered[tag] > MAX_CATCH_UP * 2) delete delivered[tag];
+      });
+      localStorage.setItem(DELIVERED_KEY, JSON.stringify(delivered));
+    };
+
+    deliver();
+    const interval = setInterval(deliver, CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [userId]);
+};
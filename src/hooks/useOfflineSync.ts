@@ -59,6 +59,9 @@ export const useOfflineSync = () => {
       job_tasks: 'job_tasks',
       task_templates: 'task_templates',
       users: 'profiles',
+      calendar_events: 'calendar_events',
+      event_tags: 'event_tags',
+      event_templates: 'event_templates',
     };
 
     const tableName = tableMap[storeName];
@@ -0,0 +1,52 @@
+import React, { useCallback, useRef, useState } from 'react';
+import RecurrenceScopeDialog from '../components/RecurrenceScopeDialog';
+import { RecurrenceEditScope } from '../utils/recurrence';
+
+interface RecurrenceScopeOptions {
+  title: string;
+  message: string;
+}
+
+/**
+ * Promise-based "this occurrence or all future?" prompt for recurring items,
+ * used like useConfirm:
+ *
+ *   const { chooseScope, scopeDialog } = useRecurrenceScope();
+ *   ...
+ *   const scope = await chooseScope({ title: 'Edit recurring task', message: '...' });
+ *   if (!scope) return; // cancelled
+ *   ...
+ *   return <div>...{scopeDialog}</div>;
+ */
+export const useRecurrenceScope = () => {
+  const [options, setOptions] = useState<RecurrenceScopeOptions | null>(null);
+  const resolverRef = useRef<((scope: RecurrenceEditScope | null) => void) | null>(null);
+
+  const chooseScope = useCallback((opts: RecurrenceScopeOptions): Promise<RecurrenceEditScope | null> => {
+    return new Promise((resolve) => {
+      resolverRef.current?.(null);
+      resolverRef.current = resolve;
+      setOptions(opts);
+    });
+  }, []);
+
+  const settle = useCallback((scope: RecurrenceEditScope | null) => {
+    resolverRef.current?.(scope);
+    resolverRef.current = null;
+    setOptions(null);
+  }, []);
+
+  const handleClose = useCallback(() => settle(null), [settle]);
+
+  const scopeDialog = (
+    <RecurrenceScopeDialog
+      isOpen={options !== null}
+      title={options?.title ?? ''}
+      message={options?.message ?? ''}
+      onSelect={settle}
+      onClose={handleClose}
+    />
+  );
+
+  return { chooseScope, scopeDialog };
+};
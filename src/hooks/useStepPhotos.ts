@@ -0,0 +1,40 @@
+/**
+ * Attaching evidence photos to task steps: uploads the photo and saves it on
+ * the step, without touching whether the step is checked off.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useTask } from '../contexts/TaskContext';
+import { useAuth } from '../contexts/AuthContext';
+import { uploadStepPhoto } from '../services/attachments';
+import { TaskStep } from '../types';
+
+export const useStepPhotos = () => {
+  const { jobTasks, updateJobTask } = useTask();
+  const { currentUser } = useAuth();
+
+  // Uploads take a while; save against the task as it is by then, so steps
+  // checked off during the upload aren't reverted
+  const jobTasksRef = useRef(jobTasks);
+  useEffect(() => {
+    jobTasksRef.current = jobTasks;
+  }, [jobTasks]);
+
+  /** Returns the task's updated steps */
+  const attachStepPhoto = useCallback(async (taskId: string, stepId: string, file: File): Promise<TaskStep[]> => {
+    if (!currentUser) throw new Error('You need to be signed in to attach photos');
+
+    const photo = await uploadStepPhoto(file, currentUser.id, taskId);
+
+    const task = jobTasksRef.current.find(t => t.id === taskId);
+    if (!task) throw new Error('This task no longer exists');
+
+    const steps = task.steps.map(step =>
+      step.id === stepId ? { ...step, photo, photoUrl: photo.url } : step
+    );
+    await updateJobTask(taskId, { steps });
+    return steps;
+  }, [currentUser, updateJobTask]);
+
+  return { attachStepPhoto };
+};
@@ -0,0 +1,61 @@
+import React, { useCallback, useRef, useState } from 'react';
+import StepUpDialog from '../components/StepUpDialog';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { getMfaStatus, isStepUpFresh } from '../services/mfa';
+
+/**
+ * Promise-based authenticator check before a sensitive action, used like
+ * useConfirm:
+ *
+ *   const { stepUp, stepUpDialog } = useStepUp();
+ *   ...
+ *   if (!(await stepUp('delete this user'))) return; // cancelled
+ *   await deleteUser(id);
+ *   ...
+ *   return <div>...{stepUpDialog}</div>;
+ *
+ * Resolves at once for people without an authenticator and when a code was
+ * entered in the last few minutes. The database checks again for role and
+ * user changes, audit log deletion and Clear All Data (migration v25).
+ */
+export const useStepUp = () => {
+  const [action, setAction] = useState<string | null>(null);
+  const resolverRef = useRef<((verified: boolean) => void) | null>(null);
+
+  const stepUp = useCallback(async (actionDescription: string): Promise<boolean> => {
+    if (!isSupabaseConfigured()) return true;
+
+    try {
+      const status = await getMfaStatus();
+      if (!status.factorId || isStepUpFresh(status)) return true;
+    } catch {
+      // Ask for a code anyway; the database decides
+    }
+
+    return new Promise((resolve) => {
+      resolverRef.current?.(false);
+      resolverRef.current = resolve;
+      setAction(actionDescription);
+    });
+  }, []);
+
+  const settle = useCallback((verified: boolean) => {
+    resolverRef.current?.(verified);
+    resolverRef.current = null;
+    setAction(null);
+  }, []);
+
+  const handleVerified = useCallback(() => settle(true), [settle]);
+  const handleClose = useCallback(() => settle(false), [settle]);
+
+  const stepUpDialog = (
+    <StepUpDialog
+      isOpen={action !== null}
+      action={action ?? ''}
+      onVerified={handleVerified}
+      onClose={handleClose}
+    />
+  );
+
+  return { stepUp, stepUpDialog };
+};
@@ -1,10 +1,10 @@
 // IndexedDB utilities for offline storage
 // Stores data locally when offline and syncs when connection is restored
 
-import { SOP, JobTask, TaskTemplate, User } from '../types';
+import { SOP, JobTask, TaskTemplate, CalendarEvent, EventTag, EventTemplate } from '../types';
 
 const DB_NAME = 'sop_app_offline';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 
 // Store names
 export const STORES = {
@@ -12,6 +12,9 @@ export const STORES = {
   JOB_TASKS: 'job_tasks',
   TASK_TEMPLATES: 'task_templates',
   USERS: 'users',
+  CALENDAR_EVENTS: 'calendar_events',
+  EVENT_TAGS: 'event_tags',
+  EVENT_TEMPLATES: 'event_templates',
   PENDING_CHANGES: 'pending_changes',
 };
 
@@ -63,6 +66,21 @@ export const initDB = (): Promise<IDBDatabase> => {
         userStore.createIndex('department', 'department', { unique: false });
       }
 
+      // v2: calendar events (offline search)
+      if (!db.objectStoreNames.contains(STORES.CALENDAR_EVENTS)) {
+        const eventStore = db.createObjectStore(STORES.CALENDAR_EVENTS, { keyPath: 'id' });
+        eventStore.createIndex('startDate', 'startDate', { unique: false });
+      }
+
+      // v3: event tags and templates (offline calendar edits)
+      if (!db.objectStoreNames.contains(STORES.EVENT_TAGS)) {
+        db.createObjectStore(STORES.EVENT_TAGS, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.EVENT_TEMPLATES)) {
+        db.createObjectStore(STORES.EVENT_TEMPLATES, { keyPath: 'id' });
+      }
+
       if (!db.objectStoreNames.contains(STORES.PENDING_CHANGES)) {
         const changesStore = db.createObjectStore(STORES.PENDING_CHANGES, { keyPath: 'id' });
         changesStore.createIndex('timestamp', 'timestamp', { unique: false });
@@ -150,6 +168,21 @@ export const getItemsByIndex = async (
   });
 };
 
+// Replace the whole contents of a store in one transaction (used to mirror
+// in-memory data so it's available offline)
+export const replaceAllItems = async (storeName: string, items: any[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readwrite');
+    const store = transaction.objectStore(storeName);
+    store.clear();
+    items.forEach((item) => store.put(item));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
 // Pending changes management
 export const addPendingChange = async (
   storeName: string,
@@ -187,6 +220,9 @@ export const clearAllData = async (): Promise<void> => {
     STORES.JOB_TASKS,
     STORES.TASK_TEMPLATES,
     STORES.USERS,
+    STORES.CALENDAR_EVENTS,
+    STORES.EVENT_TAGS,
+    STORES.EVENT_TEMPLATES,
     STORES.PENDING_CHANGES,
   ];
 
@@ -233,3 +269,29 @@ export const saveTaskTemplateOffline = async (
     await addPendingChange(STORES.TASK_TEMPLATES, changeType, template);
   }
 };
+
+// Calendar helpers keep the local copy in step, including deletes, so the
+// calendar still shows the right data while the change waits to sync
+const saveCalendarItemOffline = async (storeName: string, item: { id: string }, changeType: ChangeType) => {
+  if (changeType === 'delete') {
+    await deleteItem(storeName, item.id);
+  } else {
+    await updateItem(storeName, item);
+  }
+  if (!isOnline()) {
+    await addPendingChange(storeName, changeType, item);
+  }
+};
+
+export const saveCalendarEventOffline = async (
+  event: CalendarEvent,
+  changeType: ChangeType = 'update'
+): Promise<void> => saveCalendarItemOffline(STORES.CALENDAR_EVENTS, event, changeType);
+
+export const saveEventTagOffline = async (tag: EventTag, changeType: ChangeType = 'update'): Promise<void> =>
+  saveCalendarItemOffline(STORES.EVENT_TAGS, tag, changeType);
+
+export const saveEventTemplateOffline = async (
+  template: EventTemplate,
+  changeType: ChangeType = 'update'
+): Promise<void> => saveCalendarItemOffline(STORES.EVENT_TEMPLATES, template, changeType);
@@ -0,0 +1,267 @@
+/**
+ * Accept Invite Page
+ * Where an invite link lands. The invitee checks their details, chooses a
+ * password and is signed in (or asked to confirm their email first).
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useResponsive } from '../hooks/useResponsive';
+import { useTheme } from '../contexts/ThemeContext';
+import { theme } from '../theme';
+import { ERROR_MESSAGES } from '../constants';
+import { fetchInviteByToken, InviteDetails } from '../services/invites';
+import { formatDateValue } from '../utils/dateTime';
+
+const AcceptInvitePage: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { acceptInvite } = useAuth();
+  const { isMobile } = useResponsive();
+  const { isDark } = useTheme();
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'invalid' | 'confirm_email'>('loading');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchInviteByToken(token)
+      .then(details => {
+        setInvite(details);
+        setStatus(details ? 'ready' : 'invalid');
+      })
+      .catch(() => setStatus('invalid'));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < 8) {
+      setError(ERROR_MESSAGES.INVALID_PASSWORD);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await acceptInvite(token, password);
+      if (!result.success) {
+        setError(result.error || 'Could not accept the invite');
+      } else if (result.requiresEmailConfirmation) {
+        setStatus('confirm_email');
+      } else {
+        navigate('/dashboard');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputStyle = { ...styles.input, ...(isMobile && styles.inputMobile) };
+
+  return (
+    <div style={{ ...styles.container, ...(isMobile && styles.containerMobile) }}>
+      <div style={{ ...styles.card, ...(isMobile && styles.cardMobile) }}>
+        <div style={styles.logoContainer}>
+          <img
+            src={isDark ? '/brand/logos/didc-outline-white.svg' : '/brand/logos/didc-outline.svg'}
+            alt="Dancing Images Dance Center"
+            style={styles.logo}
+          />
+        </div>
+
+        {status === 'loading' && <p style={styles.subtitle}>Checking your invite...</p>}
+
+        {status === 'invalid' && (
+          <>
+            <h1 style={styles.title}>Invite not valid</h1>
+            <p style={styles.subtitle}>
+              This link has expired, was revoked or has already been used. Ask your admin to send a new invite.
+            </p>
+            <Link to="/login" style={styles.link}>Go to sign in</Link>
+          </>
+        )}
+
+        {status === 'confirm_email' && invite && (
+          <>
+            <h1 style={styles.title}>Check your email</h1>
+            <p style={styles.subtitle}>
+              We sent a confirmation link to {invite.email}. Open it to finish setting up your account.
+            </p>
+          </>
+        )}
+
+        {status === 'ready' && invite && (
+          <>
+            <h1 style={styles.title}>Welcome, {invite.firstName}</h1>
+            <p style={styles.subtitle}>
+              Choose a password to join {invite.department}. This invite works until {formatDateValue(invite.expiresAt)}.
+            </p>
+
+            {error && <div style={styles.errorBox}>{error}</div>}
+
+            <form onSubmit={handleSubmit} style={styles.form}>
+              <div style={styles.inputGroup}>
+                <label style={styles.label}>Email Address</label>
+                <input type="email" value={invite.email} style={inputStyle} readOnly />
+              </div>
+              <div style={styles.inputGroup}>
+                <label style={styles.label}>Password</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Minimum 8 characters"
+                  autoComplete="new-password"
+                  required
+                  style={inputStyle}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div style={styles.inputGroup}>
+                <label style={styles.label}>Confirm Password</label>
+                <input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                  style={inputStyle}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <button
+                type="submit"
+                style={{ ...styles.submitButton, ...(isSubmitting && styles.submitButtonDisabled) }}
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? 'Setting up...' : 'Join the Team'}
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    minHeight: '100vh',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    background: `linear-gradient(135deg, ${theme.colors.bg.tertiary} 0%, ${theme.colors.bg.primary} 100%)`,
+    padding: theme.spacing.md,
+  },
+  containerMobile: {
+    padding: theme.spacing.sm,
+    alignItems: 'flex-start',
+    paddingTop: theme.spacing.lg,
+  },
+  card: {
+    backgroundColor: theme.colors.bg.secondary,
+    borderRadius: theme.borderRadius.xl,
+    padding: theme.spacing.xxl,
+    width: '100%',
+    maxWidth: '440px',
+    boxShadow: theme.shadows.xl,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+  },
+  cardMobile: {
+    padding: theme.spacing.lg,
+    borderRadius: theme.borderRadius.lg,
+    maxWidth: '100%',
+  },
+  logoContainer: {
+    display: 'flex',
+    justifyContent: 'center',
+    marginBottom: theme.spacing.xl,
+  },
+  logo: {
+    height: '50px',
+    width: 'auto',
+  },
+  title: {
+    fontSize: '26px',
+    fontWeight: 600,
+    color: theme.colors.txt.primary,
+    marginBottom: theme.spacing.xs,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: '15px',
+    color: theme.colors.txt.secondary,
+    marginBottom: theme.spacing.xl,
+    textAlign: 'center',
+  },
+  link: {
+    display: 'block',
+    textAlign: 'center',
+    color: theme.colors.primary,
+    fontWeight: 600,
+  },
+  errorBox: {
+    backgroundColor: 'rgba(226, 20, 79, 0.1)',
+    border: `1px solid ${theme.colors.status.error}`,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.lg,
+    color: theme.colors.status.error,
+    fontSize: '14px',
+  },
+  form: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: theme.spacing.lg,
+  },
+  inputGroup: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: theme.spacing.sm,
+  },
+  label: {
+    fontSize: '14px',
+    fontWeight: 500,
+    color: theme.colors.txt.primary,
+  },
+  input: {
+    width: '100%',
+    padding: theme.spacing.md,
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    color: theme.colors.txt.primary,
+    fontSize: '15px',
+    outline: 'none',
+    boxSizing: 'border-box',
+  },
+  inputMobile: {
+    fontSize: '16px', // Prevents iOS zoom on focus
+  },
+  submitButton: {
+    width: '100%',
+    padding: `${theme.spacing.md} ${theme.spacing.lg}`,
+    backgroundColor: theme.colors.primary,
+    color: '#FFFFFF',
+    border: 'none',
+    borderRadius: theme.borderRadius.md,
+    fontSize: '15px',
+    fontWeight: 600,
+    cursor: 'pointer',
+    marginTop: theme.spacing.sm,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+    cursor: 'not-allowed',
+  },
+};
+
+export default AcceptInvitePage;
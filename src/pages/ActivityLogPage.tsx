@@ -83,6 +83,46 @@ const ActivityLogPage: React.FC = () => {
         color: theme.colors.status.success,
         icon: <ImportIcon />,
       },
+      sop_version_restored: {
+        label: 'Restored SOP Version',
+        color: theme.colors.status.info,
+        icon: <RestoreIcon />,
+      },
+      sop_submitted_for_review: {
+        label: 'Submitted SOP for Review',
+        color: theme.colors.status.info,
+        icon: <PublishIcon />,
+      },
+      sop_review_approved: {
+        label: 'Approved SOP',
+        color: theme.colors.status.success,
+        icon: <CheckIcon />,
+      },
+      sop_changes_requested: {
+        label: 'Requested SOP Changes',
+        color: theme.colors.status.warning,
+        icon: <EditIcon />,
+      },
+      sop_acknowledged: {
+        label: 'Acknowledged SOP',
+        color: theme.colors.status.success,
+        icon: <CheckIcon />,
+      },
+      sop_acknowledgement_reminder_sent: {
+        label: 'Sent SOP Sign-off Reminder',
+        color: theme.colors.status.info,
+        icon: <AssignIcon />,
+      },
+      sop_quiz_passed: {
+        label: 'Passed SOP Quiz',
+        color: theme.colors.status.success,
+        icon: <CheckIcon />,
+      },
+      sop_quiz_failed: {
+        label: 'Failed SOP Quiz',
+        color: theme.colors.status.warning,
+        icon: <DefaultIcon />,
+      },
       // Task actions
       task_created: {
         label: 'Created Task',
@@ -160,6 +200,33 @@ const ActivityLogPage: React.FC = () => {
         color: theme.colors.status.info,
         icon: <RestoreIcon />,
       },
+      // Event actions
+      event_created: {
+        label: 'Created Event',
+        color: theme.colors.status.success,
+        icon: <PlusIcon />,
+      },
+      event_invited: {
+        label: 'Invited to Event',
+        color: theme.colors.status.info,
+        icon: <AssignIcon />,
+      },
+      // Comment actions
+      comment_added: {
+        label: 'Commented',
+        color: theme.colors.status.info,
+        icon: <CommentIcon />,
+      },
+      comment_edited: {
+        label: 'Edited Comment',
+        color: theme.colors.status.info,
+        icon: <EditIcon />,
+      },
+      comment_deleted: {
+        label: 'Deleted Comment',
+        color: theme.colors.status.error,
+        icon: <TrashIcon />,
+      },
       // Template actions
       template_created: {
         label: 'Created Template',
@@ -212,6 +279,66 @@ const ActivityLogPage: React.FC = () => {
         color: theme.colors.status.info,
         icon: <KeyIcon />,
       },
+      user_invited: {
+        label: 'Invited User',
+        color: theme.colors.status.success,
+        icon: <UserPlusIcon />,
+      },
+      invite_resent: {
+        label: 'Resent Invite',
+        color: theme.colors.status.info,
+        icon: <UserPlusIcon />,
+      },
+      invite_revoked: {
+        label: 'Revoked Invite',
+        color: theme.colors.status.error,
+        icon: <TrashIcon />,
+      },
+      invite_accepted: {
+        label: 'Accepted Invite',
+        color: theme.colors.status.success,
+        icon: <CheckIcon />,
+      },
+      mfa_enabled: {
+        label: 'Turned On Two-Factor',
+        color: theme.colors.status.success,
+        icon: <KeyIcon />,
+      },
+      mfa_disabled: {
+        label: 'Turned Off Two-Factor',
+        color: theme.colors.status.warning,
+        icon: <KeyIcon />,
+      },
+      mfa_recovery_code_used: {
+        label: 'Used Recovery Code',
+        color: theme.colors.status.warning,
+        icon: <KeyIcon />,
+      },
+      role_created: {
+        label: 'Created Role',
+        color: theme.colors.status.success,
+        icon: <RoleIcon />,
+      },
+      role_updated: {
+        label: 'Updated Role',
+        color: theme.colors.status.info,
+        icon: <RoleIcon />,
+      },
+      role_deleted: {
+        label: 'Deleted Role',
+        color: theme.colors.status.error,
+        icon: <RoleIcon />,
+      },
+      department_created: {
+        label: 'Created Department',
+        color: theme.colors.status.success,
+        icon: <PlusIcon />,
+      },
+      department_deleted: {
+        label: 'Deleted Department',
+        color: theme.colors.status.error,
+        icon: <TrashIcon />,
+      },
     };
 
     return actionMap[action] || {
@@ -313,6 +440,7 @@ const ActivityLogPage: React.FC = () => {
       task: 'Task',
       job: 'Job',
       template: 'Template',
+      event: 'Event',
       user: 'User',
       system: 'System',
     };
@@ -435,6 +563,7 @@ const ActivityLogPage: React.FC = () => {
                 <option value="task">Tasks</option>
                 <option value="job">Jobs</option>
                 <option value="template">Templates</option>
+                <option value="event">Events</option>
                 <option value="user">Users</option>
               </select>
             </div>
@@ -711,6 +840,12 @@ const AssignIcon = () => (
   </svg>
 );
 
+const CommentIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+  </svg>
+);
+
 const LoginIcon = () => (
   <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
     <path d="M15 3h4a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2h-4" />
@@ -1,10 +1,17 @@
 import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useTask } from '../contexts/TaskContext';
+import { useSOPs } from '../contexts/SOPContext';
+import { useAcknowledgements } from '../contexts/AcknowledgementContext';
 import { useToast } from '../contexts/ToastContext';
+import { useTimeZone } from '../contexts/TimeZoneContext';
 import { theme } from '../theme';
 import { useResponsive } from '../hooks/useResponsive';
-import { JobTask } from '../types';
+import { SOP } from '../types';
+import { getComplianceMatrix, getOutstandingSOPsForUser, requiresAcknowledgement } from '../utils/sopCompliance';
+import { addDays, daysBetweenKeys, formatDateValue, getTodayKey } from '../utils/dateTime';
+import { getTaskDueState } from '../utils/notificationRules';
 
 // Types for alerts
 interface TeamMemberProgress {
@@ -44,10 +51,49 @@ interface TaskAlert {
 
 const AlertsPage: React.FC = () => {
   const { currentUser, users, isAdmin } = useAuth();
+  const { timeZone } = useTimeZone();
   const { jobTasks, archiveJobTask } = useTask();
   const { showToast } = useToast();
   const { isMobileOrTablet } = useResponsive();
-  const [activeAdminTab, setActiveAdminTab] = useState<'team' | 'tasks' | 'completed'>('tasks');
+  const { sops } = useSOPs();
+  const { acknowledgements, getRemindersForUser } = useAcknowledgements();
+  const navigate = useNavigate();
+  const [activeAdminTab, setActiveAdminTab] = useState<'team' | 'tasks' | 'completed' | 'signoff'>('tasks');
+
+  // Published SOPs the current user still has to sign
+  const sopsToAcknowledge = useMemo(() => {
+    if (!currentUser) return [];
+    return getOutstandingSOPsForUser(sops, currentUser, acknowledgements);
+  }, [sops, currentUser, acknowledgements]);
+
+  // Published SOPs with outstanding signatures (admin view)
+  const sopSignoffStatus = useMemo(() => {
+    if (!isAdmin) return [];
+    return sops
+      .filter(requiresAcknowledgement)
+      .map(sop => {
+        const matrix = getComplianceMatrix(sop, users, acknowledgements);
+        return {
+          sop,
+          total: matrix.length,
+          signed: matrix.filter(row => row.status === 'signed').length,
+        };
+      })
+      .filter(entry => entry.signed < entry.total)
+      .sort((a, b) => (a.signed / a.total) - (b.signed / b.total));
+  }, [isAdmin, sops, users, acknowledgements]);
+
+  const openSOP = (sop: SOP) => {
+    navigate('/sop', { state: { openSOPId: sop.id } });
+  };
+
+  // Most recent reminder for an SOP sent since its current version was published
+  const getLatestReminder = (sop: SOP) => {
+    if (!currentUser) return undefined;
+    return getRemindersForUser(currentUser.id)
+      .filter(r => r.sopId === sop.id && (!sop.publishedAt || r.sentAt >= sop.publishedAt))
+      .sort((a, b) => b.sentAt.localeCompare(a.sentAt))[0];
+  };
 
   // Calculate team member progress for admin view
   const teamMemberProgress = useMemo((): TeamMemberProgress[] => {
@@ -154,9 +200,7 @@ const AlertsPage: React.FC = () => {
   } => {
     if (!isAdmin) return { completed: [], inProgress: [], overdue: [], pending: [] };
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayStr = today.toISOString().split('T')[0];
+    const todayStr = getTodayKey(timeZone);
 
     const completed: TaskAlert[] = [];
     const inProgress: TaskAlert[] = [];
@@ -175,8 +219,6 @@ const AlertsPage: React.FC = () => {
       .filter(task => task.status !== 'archived' && task.status !== 'draft')
       .forEach(task => {
         const dueDate = task.scheduledDate;
-        const dueDateObj = new Date(dueDate);
-        dueDateObj.setHours(0, 0, 0, 0);
         const isOverdue = dueDate < todayStr && task.status !== 'completed';
 
         const alertBase = {
@@ -195,13 +237,13 @@ const AlertsPage: React.FC = () => {
           completed.push({ ...alertBase, type: 'completed' });
         } else if (task.status === 'in-progress') {
           if (isOverdue) {
-            const daysOverdue = Math.floor((today.getTime() - dueDateObj.getTime()) / (1000 * 60 * 60 * 24));
+            const daysOverdue = daysBetweenKeys(dueDate, todayStr);
             overdue.push({ ...alertBase, type: 'overdue', daysOverdue: daysOverdue > 0 ? daysOverdue : 1 });
           } else {
             inProgress.push({ ...alertBase, type: 'in_progress' });
           }
         } else if (task.status === 'overdue' || isOverdue) {
-          const daysOverdue = Math.floor((today.getTime() - dueDateObj.getTime()) / (1000 * 60 * 60 * 24));
+          const daysOverdue = daysBetweenKeys(dueDate, todayStr);
           overdue.push({ ...alertBase, type: 'overdue', daysOverdue: daysOverdue > 0 ? daysOverdue : 1 });
         } else if (task.status === 'pending') {
           pending.push({ ...alertBase, type: 'pending' });
@@ -215,19 +257,14 @@ const AlertsPage: React.FC = () => {
     pending.sort((a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime());
 
     return { completed, inProgress, overdue, pending };
-  }, [isAdmin, users, jobTasks]);
+  }, [isAdmin, users, jobTasks, timeZone]);
 
   // Calculate upcoming deadlines for next 7 days (admin view)
   const upcomingDeadlines = useMemo(() => {
     if (!isAdmin) return [];
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayStr = today.toISOString().split('T')[0];
-
-    const sevenDaysFromNow = new Date(today);
-    sevenDaysFromNow.setDate(sevenDaysFromNow.getDate() + 7);
-    const sevenDaysStr = sevenDaysFromNow.toISOString().split('T')[0];
+    const todayStr = getTodayKey(timeZone);
+    const sevenDaysStr = addDays(todayStr, 7);
 
     // Get user names for display
     const getUserNames = (userIds: string[]) => {
@@ -256,7 +293,7 @@ const AlertsPage: React.FC = () => {
         totalSteps: task.steps?.length || 0,
       }))
       .sort((a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime());
-  }, [isAdmin, users, jobTasks]);
+  }, [isAdmin, users, jobTasks, timeZone]);
 
   // Handle archive task
   const handleArchiveTask = (taskId: string, taskTitle: string) => {
@@ -268,68 +305,30 @@ const AlertsPage: React.FC = () => {
   const taskAlerts = useMemo((): TaskAlert[] => {
     if (!currentUser) return [];
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayStr = today.toISOString().split('T')[0];
-
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const tomorrowStr = tomorrow.toISOString().split('T')[0];
+    const todayStr = getTodayKey(timeZone);
 
     const alerts: TaskAlert[] = [];
 
     // Filter tasks assigned to current user
-    const myTasks = jobTasks.filter(task =>
-      task.assignedTo?.includes(currentUser.id) &&
-      task.status !== 'completed' &&
-      task.status !== 'archived' &&
-      task.status !== 'draft'
-    );
+    const myTasks = jobTasks.filter(task => task.assignedTo?.includes(currentUser.id));
 
+    // Same rules as the push notifications (see utils/notificationRules)
     myTasks.forEach(task => {
-      const dueDate = task.scheduledDate;
-      const dueDateObj = new Date(dueDate);
-      dueDateObj.setHours(0, 0, 0, 0);
-
-      if (dueDate < todayStr || task.status === 'overdue') {
-        // Overdue
-        const daysOverdue = Math.floor((today.getTime() - dueDateObj.getTime()) / (1000 * 60 * 60 * 24));
-        alerts.push({
-          id: `alert_${task.id}_overdue`,
-          taskId: task.id,
-          taskTitle: task.title,
-          type: 'overdue',
-          scheduledDate: dueDate,
-          daysOverdue: daysOverdue > 0 ? daysOverdue : 1,
-          priority: task.priority,
-          stepsCompleted: task.completedSteps?.length || 0,
-          totalSteps: task.steps?.length || 0,
-        });
-      } else if (dueDate === todayStr) {
-        // Due today
-        alerts.push({
-          id: `alert_${task.id}_today`,
-          taskId: task.id,
-          taskTitle: task.title,
-          type: 'due_today',
-          scheduledDate: dueDate,
-          priority: task.priority,
-          stepsCompleted: task.completedSteps?.length || 0,
-          totalSteps: task.steps?.length || 0,
-        });
-      } else if (dueDate === tomorrowStr) {
-        // Due tomorrow (warning)
-        alerts.push({
-          id: `alert_${task.id}_tomorrow`,
-          taskId: task.id,
-          taskTitle: task.title,
-          type: 'due_tomorrow',
-          scheduledDate: dueDate,
-          priority: task.priority,
-          stepsCompleted: task.completedSteps?.length || 0,
-          totalSteps: task.steps?.length || 0,
-        });
-      }
+      const dueState = getTaskDueState(task, todayStr);
+      if (!dueState) return;
+
+      const daysOverdue = daysBetweenKeys(task.scheduledDate, todayStr);
+      alerts.push({
+        id: `alert_${task.id}_${dueState}`,
+        taskId: task.id,
+        taskTitle: task.title,
+        type: dueState,
+        scheduledDate: task.scheduledDate,
+        daysOverdue: dueState === 'overdue' ? (daysOverdue > 0 ? daysOverdue : 1) : undefined,
+        priority: task.priority,
+        stepsCompleted: task.completedSteps?.length || 0,
+        totalSteps: task.steps?.length || 0,
+      });
     });
 
     // Sort: overdue first, then due today, then due tomorrow
@@ -344,7 +343,7 @@ const AlertsPage: React.FC = () => {
       };
       return order[a.type] - order[b.type];
     });
-  }, [currentUser, jobTasks]);
+  }, [currentUser, jobTasks, timeZone]);
 
   const getAlertColor = (type: TaskAlert['type']) => {
     switch (type) {
@@ -455,10 +454,7 @@ const AlertsPage: React.FC = () => {
     }
   };
 
-  const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  };
+  const formatDate = (dateStr: string) => formatDateValue(dateStr, { month: 'short', day: 'numeric' }, timeZone);
 
   const formatTimestamp = (timestamp: string) => {
     const date = new Date(timestamp);
@@ -621,6 +617,25 @@ const AlertsPage: React.FC = () => {
           </svg>
           Team Progress
         </button>
+        <button
+          style={{
+            ...styles.adminTab,
+            ...(activeAdminTab === 'signoff' ? styles.adminTabActive : {}),
+          }}
+          onClick={() => setActiveAdminTab('signoff')}
+        >
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+            <polyline points="14 2 14 8 20 8" />
+            <polyline points="9 15 11 17 15 13" />
+          </svg>
+          SOP Sign-off
+          {sopSignoffStatus.length > 0 && (
+            <span style={{ ...styles.tabBadge, backgroundColor: theme.colors.status.warning }}>
+              {sopSignoffStatus.length}
+            </span>
+          )}
+        </button>
       </div>
 
       {/* Task Alerts Tab */}
@@ -729,15 +744,10 @@ const AlertsPage: React.FC = () => {
               </h3>
               <div style={styles.upcomingTimeline}>
                 {upcomingDeadlines.map((task, index) => {
-                  const dueDate = new Date(task.scheduledDate);
-                  const today = new Date();
-                  today.setHours(0, 0, 0, 0);
-                  const todayStr = today.toISOString().split('T')[0];
-                  const tomorrow = new Date(today);
-                  tomorrow.setDate(tomorrow.getDate() + 1);
-                  const tomorrowStr = tomorrow.toISOString().split('T')[0];
-
-                  let dayLabel = dueDate.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+                  const todayStr = getTodayKey(timeZone);
+                  const tomorrowStr = addDays(todayStr, 1);
+
+                  let dayLabel = formatDateValue(task.scheduledDate, { weekday: 'short', month: 'short', day: 'numeric' });
                   let labelColor = theme.colors.txt.secondary;
 
                   if (task.scheduledDate === todayStr) {
@@ -947,12 +957,139 @@ const AlertsPage: React.FC = () => {
           )}
         </div>
       )}
+
+      {/* SOP Sign-off Tab */}
+      {activeAdminTab === 'signoff' && (
+        <div style={styles.adminTabContent}>
+          {renderSOPAcknowledgements()}
+
+          <div style={styles.sectionHeader}>
+            <h2 style={styles.sectionTitle}>
+              <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke={theme.colors.status.warning} strokeWidth="2">
+                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+                <polyline points="14 2 14 8 20 8" />
+                <polyline points="9 15 11 17 15 13" />
+              </svg>
+              Outstanding SOP Sign-offs
+            </h2>
+            <span style={{ ...styles.memberCount, backgroundColor: 'rgba(245, 158, 11, 0.1)', color: theme.colors.status.warning }}>
+              {sopSignoffStatus.length} SOPs
+            </span>
+          </div>
+
+          {sopSignoffStatus.length === 0 ? (
+            <div style={styles.emptyState}>
+              <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke={theme.colors.status.success} strokeWidth="1.5">
+                <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14" />
+                <polyline points="22 4 12 14.01 9 11.01" />
+              </svg>
+              <h4>Everyone Has Signed</h4>
+              <p>All published SOPs have been acknowledged by their departments.</p>
+            </div>
+          ) : (
+            <div style={styles.alertsList}>
+              {sopSignoffStatus.map(({ sop, total, signed }) => (
+                <div
+                  key={sop.id}
+                  style={{
+                    ...styles.alertCard,
+                    borderLeftColor: theme.colors.status.warning,
+                  }}
+                >
+                  <div style={styles.alertHeader}>
+                    <div style={styles.alertInfo}>
+                      <h3 style={styles.alertTitle}>{sop.title}</h3>
+                      <div style={styles.alertMeta}>
+                        <span style={{ ...styles.alertBadge, backgroundColor: theme.colors.status.warning }}>
+                          {total - signed} outstanding
+                        </span>
+                        {sop.publishedAt && (
+                          <span style={styles.alertDate}>Published: {formatDate(sop.publishedAt)}</span>
+                        )}
+                      </div>
+                    </div>
+                    <button onClick={() => openSOP(sop)} style={styles.signButton}>
+                      View Sign-off
+                    </button>
+                  </div>
+                  <div style={styles.alertProgress}>
+                    <div style={styles.progressLabel}>
+                      <span>Signed</span>
+                      <span>{signed}/{total} team members</span>
+                    </div>
+                    <div style={styles.progressBar}>
+                      <div
+                        style={{
+                          ...styles.progressFill,
+                          width: `${total > 0 ? (signed / total) * 100 : 0}%`,
+                          backgroundColor: theme.colors.status.warning,
+                        }}
+                      />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 
+  // SOPs awaiting the current user's acknowledgement
+  const renderSOPAcknowledgements = () => {
+    if (sopsToAcknowledge.length === 0) return null;
+
+    return (
+      <div style={styles.alertSection}>
+        <h3 style={{ ...styles.alertSectionTitle, color: theme.colors.status.warning }}>
+          SOPs to Acknowledge ({sopsToAcknowledge.length})
+        </h3>
+        <div style={styles.alertsList}>
+          {sopsToAcknowledge.map(sop => {
+            const reminder = getLatestReminder(sop);
+            return (
+              <div
+                key={sop.id}
+                style={{
+                  ...styles.alertCard,
+                  borderLeftColor: theme.colors.status.warning,
+                }}
+              >
+                <div style={{ ...styles.alertHeader, marginBottom: 0 }}>
+                  <div style={styles.alertInfo}>
+                    <h3 style={styles.alertTitle}>{sop.title}</h3>
+                    <div style={styles.alertMeta}>
+                      <span style={{ ...styles.alertBadge, backgroundColor: theme.colors.status.warning }}>
+                        Sign-off required
+                      </span>
+                      {sop.publishedAt && (
+                        <span style={styles.alertDate}>Published: {formatDate(sop.publishedAt)}</span>
+                      )}
+                      {reminder && (
+                        <span style={styles.alertDate}>
+                          Reminder from {reminder.sentByName} · {formatTimestamp(reminder.sentAt)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <button onClick={() => openSOP(sop)} style={styles.signButton}>
+                    Read & Sign
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
   // Render Team Member View
   const renderTeamView = () => (
     <div style={styles.teamContainer}>
+      {renderSOPAcknowledgements()}
+
       <div style={styles.sectionHeader}>
         <h2 style={styles.sectionTitle}>
           <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke={theme.colors.primary} strokeWidth="2">
@@ -1486,6 +1623,23 @@ const styles: Record<string, React.CSSProperties> = {
     whiteSpace: 'nowrap' as const,
   },
 
+  // Sign SOP Button
+  signButton: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    padding: `${theme.spacing.sm} ${theme.spacing.md}`,
+    backgroundColor: theme.colors.primary,
+    color: '#FFFFFF',
+    border: 'none',
+    borderRadius: theme.borderRadius.md,
+    fontSize: '13px',
+    fontWeight: 600,
+    cursor: 'pointer',
+    transition: 'all 0.2s',
+    whiteSpace: 'nowrap' as const,
+  },
+
   // Upcoming Deadlines Section
   upcomingSection: {
     marginTop: theme.spacing.xl,
@@ -3,42 +3,65 @@ import { useLocation } from 'react-router-dom';
 import { theme } from '../theme';
 import { useEvent } from '../contexts/EventContext';
 import { useTask } from '../contexts/TaskContext';
+import { useJob } from '../contexts/JobContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useWorkHours } from '../contexts/WorkHoursContext';
 import { useToast } from '../contexts/ToastContext';
+import { useTimeZone } from '../contexts/TimeZoneContext';
 import { useResponsive } from '../hooks/useResponsive';
-import { CalendarEvent, JobTask, WorkHoursEntry } from '../types';
+import { useCalendarDragDrop } from '../hooks/useCalendarDragDrop';
+import { CalendarEvent, Job, JobTask, WorkHoursEntry } from '../types';
 import EventFormModal from '../components/EventFormModal';
 import EventDetailModal from '../components/EventDetailModal';
 import CalendarTaskModal from '../components/CalendarTaskModal';
+import TimelineView from '../components/TimelineView';
+import JobDiscussionModal from '../components/JobDiscussionModal';
+import EventImport from '../components/EventImport';
+import { getTodayKey, toDateKey } from '../utils/dateTime';
 
 // View type for calendar filtering
 type CalendarViewType = 'all' | 'events' | 'tasks' | 'hours';
 
+// Multi-day events cover every date key from start to end
+const isEventOnDate = (event: CalendarEvent, dateKey: string) =>
+  dateKey >= event.startDate && dateKey <= (event.endDate || event.startDate);
+
 const CalendarPage: React.FC = () => {
   const { events, addEvent, updateEvent, deleteEvent, tags } = useEvent();
   const { jobTasks } = useTask();
+  const { jobs } = useJob();
   const { workHours } = useWorkHours();
   const { users, currentUser } = useAuth();
   const { isMobileOrTablet } = useResponsive();
   const { success: showSuccess, error: showError } = useToast();
+  const { getDragProps, getDropProps, isDropTarget, isDragging, scopeDialog } = useCalendarDragDrop();
   const location = useLocation();
+  const { timeZone } = useTimeZone();
 
   const [currentMonth, setCurrentMonth] = useState(new Date());
-  const [viewMode, setViewMode] = useState<'month' | 'week' | 'day'>('month');
+  const [viewMode, setViewMode] = useState<'month' | 'week' | 'day' | 'timeline'>('month');
   const [selectedDayDate, setSelectedDayDate] = useState<Date>(new Date());
 
   // Modal states
   const [showEventForm, setShowEventForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
   const [selectedTask, setSelectedTask] = useState<JobTask | null>(null);
+  const [selectedJob, setSelectedJob] = useState<Job | null>(null);
   const [selectedDate, setSelectedDate] = useState<string | undefined>(undefined);
+  const [pendingOpen, setPendingOpen] = useState<{ eventId?: string; taskId?: string; jobId?: string } | null>(null);
 
   // Handle incoming state from navigation (e.g., from Dashboard day click)
   useEffect(() => {
     if (location.state) {
-      const state = location.state as { openEventForm?: boolean; selectedDate?: string };
+      const state = location.state as {
+        openEventForm?: boolean;
+        selectedDate?: string;
+        openEventId?: string;
+        openTaskId?: string;
+        openJobId?: string;
+      };
       if (state.openEventForm) {
         setSelectedDate(state.selectedDate);
         setEditingEvent(null);
@@ -49,11 +72,38 @@ const CalendarPage: React.FC = () => {
           setCurrentMonth(new Date(date.getFullYear(), date.getMonth(), 1));
         }
       }
+      if (state.openEventId || state.openTaskId || state.openJobId) {
+        setPendingOpen({ eventId: state.openEventId, taskId: state.openTaskId, jobId: state.openJobId });
+      }
       // Clear the state to prevent re-opening on refresh
       window.history.replaceState({}, document.title);
     }
   }, [location.state]);
 
+  // Open an event, task or job linked from search or a notification once data has loaded
+  useEffect(() => {
+    if (!pendingOpen) return;
+    // Jobs are shown on the timeline
+    if (pendingOpen.jobId) {
+      const job = jobs.find(j => j.id === pendingOpen.jobId);
+      if (!job) return;
+      setViewMode('timeline');
+      setSelectedJob(job);
+      setPendingOpen(null);
+      return;
+    }
+    const event = pendingOpen.eventId ? events.find(e => e.id === pendingOpen.eventId) : undefined;
+    const task = pendingOpen.taskId ? jobTasks.find(t => t.id === pendingOpen.taskId) : undefined;
+    const date = event?.startDate || task?.scheduledDate;
+    if (!date) return;
+
+    const [year, month] = date.split('-').map(Number);
+    setCurrentMonth(new Date(year, month - 1, 1));
+    if (event) setSelectedEvent(event);
+    if (task) setSelectedTask(task);
+    setPendingOpen(null);
+  }, [pendingOpen, events, jobTasks, jobs]);
+
   // Quick Add states
   const [quickAddDay, setQuickAddDay] = useState<number | null>(null);
   const [quickAddTitle, setQuickAddTitle] = useState('');
@@ -67,8 +117,7 @@ const CalendarPage: React.FC = () => {
   const [calendarViewType, setCalendarViewType] = useState<CalendarViewType>('all');
   const [selectedWorkHours, setSelectedWorkHours] = useState<WorkHoursEntry | null>(null);
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = getTodayKey(timeZone);
 
   // Calendar calculations
   const getDaysInMonth = (date: Date) => {
@@ -109,13 +158,7 @@ const CalendarPage: React.FC = () => {
 
   // Get today's events and tasks for the agenda sidebar
   const todaysItems = useMemo(() => {
-    const todaysEvents = events.filter(event => {
-      const eventStart = new Date(event.startDate);
-      eventStart.setHours(0, 0, 0, 0);
-      const eventEnd = event.endDate ? new Date(event.endDate) : eventStart;
-      eventEnd.setHours(0, 0, 0, 0);
-      return today >= eventStart && today <= eventEnd;
-    }).sort((a, b) => {
+    const todaysEvents = events.filter(event => isEventOnDate(event, today)).sort((a, b) => {
       if (a.isAllDay && !b.isAllDay) return -1;
       if (!a.isAllDay && b.isAllDay) return 1;
       return (a.startTime || '').localeCompare(b.startTime || '');
@@ -123,15 +166,12 @@ const CalendarPage: React.FC = () => {
 
     const todaysTasks = jobTasks.filter(task => {
       if (task.status === 'archived' || task.status === 'draft') return false;
-      const taskDate = new Date(task.scheduledDate);
-      taskDate.setHours(0, 0, 0, 0);
-      return taskDate.getTime() === today.getTime();
+      return task.scheduledDate === today;
     }).sort((a, b) => {
       return (a.dueTime || '').localeCompare(b.dueTime || '');
     });
 
-    const todayStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
-    const todaysWorkHours = workHours.filter(wh => wh.workDate === todayStr).sort((a, b) => {
+    const todaysWorkHours = workHours.filter(wh => wh.workDate === today).sort((a, b) => {
       return (a.startTime || '').localeCompare(b.startTime || '');
     });
 
@@ -147,28 +187,17 @@ const CalendarPage: React.FC = () => {
 
   // Get events for a specific date (uses filtered events)
   const getEventsForDate = (day: number) => {
-    const date = new Date(year, month, day);
-    date.setHours(0, 0, 0, 0);
-
-    return filteredEvents.filter(event => {
-      const eventStartDate = new Date(event.startDate);
-      eventStartDate.setHours(0, 0, 0, 0);
-      const eventEndDate = event.endDate ? new Date(event.endDate) : eventStartDate;
-      eventEndDate.setHours(0, 0, 0, 0);
-      return date >= eventStartDate && date <= eventEndDate;
-    });
+    const dateKey = toDateKey(new Date(year, month, day));
+    return filteredEvents.filter(event => isEventOnDate(event, dateKey));
   };
 
   // Get tasks for a specific date
   const getTasksForDate = (day: number) => {
-    const date = new Date(year, month, day);
-    date.setHours(0, 0, 0, 0);
+    const dateKey = toDateKey(new Date(year, month, day));
 
     return jobTasks.filter(task => {
       if (task.status === 'archived' || task.status === 'draft') return false;
-      const taskDate = new Date(task.scheduledDate);
-      taskDate.setHours(0, 0, 0, 0);
-      return taskDate.getTime() === date.getTime();
+      return task.scheduledDate === dateKey;
     });
   };
 
@@ -420,7 +449,7 @@ const CalendarPage: React.FC = () => {
 
     // Days
     for (let d = 1; d <= daysCount; d++) {
-      const isToday = d === today.getDate() && miniMonth === today.getMonth() && miniYear === today.getFullYear();
+      const isToday = toDateKey(new Date(miniYear, miniMonth, d)) === today;
       days.push(
         <div
           key={d}
@@ -446,13 +475,23 @@ const CalendarPage: React.FC = () => {
           <h1 style={isMobileOrTablet ? styles.titleMobile : styles.title}>Calendar</h1>
           <p style={styles.subtitle}>Manage events and view scheduled tasks</p>
         </div>
-        <button onClick={handleAddEvent} style={styles.addButton}>
-          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-            <line x1="12" y1="5" x2="12" y2="19" />
-            <line x1="5" y1="12" x2="19" y2="12" />
-          </svg>
-          Add Event
-        </button>
+        <div style={isMobileOrTablet ? styles.headerButtonsMobile : styles.headerButtons}>
+          <button onClick={() => setShowImport(true)} style={styles.importButton}>
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+              <polyline points="17 8 12 3 7 8" />
+              <line x1="12" y1="3" x2="12" y2="15" />
+            </svg>
+            Import
+          </button>
+          <button onClick={handleAddEvent} style={styles.addButton}>
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="12" y1="5" x2="12" y2="19" />
+              <line x1="5" y1="12" x2="19" y2="12" />
+            </svg>
+            Add Event
+          </button>
+        </div>
       </div>
 
       {/* View Type Toggle - Events, Tasks, Hours, All */}
@@ -613,6 +652,12 @@ const CalendarPage: React.FC = () => {
           >
             Day
           </button>
+          <button
+            onClick={() => setViewMode('timeline')}
+            style={viewMode === 'timeline' ? styles.viewButtonActive : styles.viewButton}
+          >
+            Timeline
+          </button>
         </div>
       </div>
 
@@ -742,7 +787,10 @@ const CalendarPage: React.FC = () => {
 
         {/* Calendar Grid */}
         <div style={styles.calendarWrapper}>
-        {viewMode === 'day' ? (
+        {viewMode === 'timeline' ? (
+          /* Timeline (Gantt) View */
+          <TimelineView onTaskClick={setSelectedTask} onJobClick={setSelectedJob} isMobile={isMobileOrTablet} />
+        ) : viewMode === 'day' ? (
           /* Day View */
           <div style={styles.dayViewContainer}>
             {/* Day Header with Navigation */}
@@ -786,13 +834,7 @@ const CalendarPage: React.FC = () => {
             {(() => {
               const dayAllDayEvents = filteredEvents.filter(event => {
                 if (!event.isAllDay) return false;
-                const eventStart = new Date(event.startDate);
-                const eventEnd = event.endDate ? new Date(event.endDate) : eventStart;
-                eventStart.setHours(0, 0, 0, 0);
-                eventEnd.setHours(0, 0, 0, 0);
-                const checkDate = new Date(selectedDayDate);
-                checkDate.setHours(0, 0, 0, 0);
-                return checkDate >= eventStart && checkDate <= eventEnd;
+                return isEventOnDate(event, toDateKey(selectedDayDate));
               });
 
               return dayAllDayEvents.length > 0 && (
@@ -802,9 +844,11 @@ const CalendarPage: React.FC = () => {
                     {dayAllDayEvents.map(event => (
                       <div
                         key={event.id}
+                        {...getDragProps({ kind: 'event', event })}
                         style={{
                           ...styles.dayAllDayEvent,
                           backgroundColor: event.color,
+                          ...(isDragging(event.id) ? styles.dragging : {}),
                         }}
                         onClick={() => setSelectedEvent(event)}
                       >
@@ -841,7 +885,13 @@ const CalendarPage: React.FC = () => {
               </div>
 
               {/* Events/Tasks column */}
-              <div style={styles.dayEventsColumn}>
+              <div
+                style={{
+                  ...styles.dayEventsColumn,
+                  ...(isDropTarget(selectedDayDate, 'time') ? styles.dropTarget : {}),
+                }}
+                {...getDropProps(selectedDayDate, 'time')}
+              >
                 {/* Hour lines */}
                 {timeSlots.map(slot => (
                   <div key={slot.hour} style={styles.dayHourSlot}>
@@ -853,13 +903,7 @@ const CalendarPage: React.FC = () => {
                 {(() => {
                   const dayEvents = filteredEvents.filter(event => {
                     if (event.isAllDay) return false;
-                    const eventStartDate = new Date(event.startDate);
-                    const eventEndDate = event.endDate ? new Date(event.endDate) : eventStartDate;
-                    eventStartDate.setHours(0, 0, 0, 0);
-                    eventEndDate.setHours(0, 0, 0, 0);
-                    const checkDate = new Date(selectedDayDate);
-                    checkDate.setHours(0, 0, 0, 0);
-                    return checkDate >= eventStartDate && checkDate <= eventEndDate;
+                    return isEventOnDate(event, toDateKey(selectedDayDate));
                   });
 
                   return dayEvents.map(event => {
@@ -869,9 +913,11 @@ const CalendarPage: React.FC = () => {
                       return (
                         <div
                           key={event.id}
+                          {...getDragProps({ kind: 'event', event })}
                           style={{
                             ...styles.dayEventNoTime,
                             backgroundColor: event.color,
+                            ...(isDragging(event.id) ? styles.dragging : {}),
                           }}
                           onClick={() => setSelectedEvent(event)}
                         >
@@ -889,11 +935,13 @@ const CalendarPage: React.FC = () => {
                     return (
                       <div
                         key={event.id}
+                        {...getDragProps({ kind: 'event', event })}
                         style={{
                           ...styles.dayEventPositioned,
                           backgroundColor: event.color,
                           top: `${pos.top}px`,
                           height: `${pos.height}px`,
+                          ...(isDragging(event.id) ? styles.dragging : {}),
                         }}
                         onClick={() => setSelectedEvent(event)}
                       >
@@ -932,8 +980,7 @@ const CalendarPage: React.FC = () => {
                 {(() => {
                   const dayTasks = jobTasks.filter(task => {
                     if (task.status === 'archived' || task.status === 'draft') return false;
-                    const taskDate = new Date(task.scheduledDate);
-                    return taskDate.toDateString() === selectedDayDate.toDateString();
+                    return task.scheduledDate === toDateKey(selectedDayDate);
                   });
 
                   return dayTasks.map(task => {
@@ -943,7 +990,11 @@ const CalendarPage: React.FC = () => {
                       return (
                         <div
                           key={task.id}
-                          style={styles.dayTaskNoTime}
+                          {...getDragProps({ kind: 'task', task })}
+                          style={{
+                            ...styles.dayTaskNoTime,
+                            ...(isDragging(task.id) ? styles.dragging : {}),
+                          }}
                           onClick={() => setSelectedTask(task)}
                         >
                           {task.isRecurring && (
@@ -963,10 +1014,12 @@ const CalendarPage: React.FC = () => {
                     return (
                       <div
                         key={task.id}
+                        {...getDragProps({ kind: 'task', task })}
                         style={{
                           ...styles.dayTaskPositioned,
                           top: `${pos.top}px`,
                           height: `${pos.height}px`,
+                          ...(isDragging(task.id) ? styles.dragging : {}),
                         }}
                         onClick={() => setSelectedTask(task)}
                       >
@@ -1014,7 +1067,7 @@ const CalendarPage: React.FC = () => {
               const eventsForDay = (calendarViewType === 'all' || calendarViewType === 'events') ? getEventsForDate(day) : [];
               const tasksForDay = (calendarViewType === 'all' || calendarViewType === 'tasks') ? getTasksForDate(day) : [];
               const workHoursForDay = (calendarViewType === 'all' || calendarViewType === 'hours') ? getWorkHoursForDate(day) : [];
-              const isToday = today.getDate() === day && today.getMonth() === month && today.getFullYear() === year;
+              const isToday = toDateKey(new Date(year, month, day)) === today;
               const totalItems = eventsForDay.length + tasksForDay.length + workHoursForDay.length;
               const maxVisible = isMobileOrTablet ? 2 : 3;
               let visibleCount = 0;
@@ -1024,6 +1077,8 @@ const CalendarPage: React.FC = () => {
                   key={day}
                   isToday={isToday}
                   isMobileOrTablet={isMobileOrTablet}
+                  isDropTarget={isDropTarget(new Date(year, month, day), 'day')}
+                  dropProps={getDropProps(new Date(year, month, day), 'day')}
                   onClick={() => handleDayClick(day)}
                 >
                   <div style={isMobileOrTablet ? styles.dayHeader2Mobile : styles.dayHeader2}>
@@ -1075,9 +1130,11 @@ const CalendarPage: React.FC = () => {
                       return (
                         <div
                           key={event.id}
+                          {...getDragProps({ kind: 'event', event })}
                           style={{
                             ...(isMobileOrTablet ? styles.eventItemMobile : styles.eventItem),
                             borderLeftColor: event.color,
+                            ...(isDragging(event.id) ? styles.dragging : {}),
                           }}
                           onClick={(e) => handleEventClick(event, e)}
                           title={event.title}
@@ -1100,9 +1157,11 @@ const CalendarPage: React.FC = () => {
                       return (
                         <div
                           key={task.id}
+                          {...getDragProps({ kind: 'task', task })}
                           style={{
                             ...(isMobileOrTablet ? styles.taskItemMobile : styles.taskItem),
                             borderLeftColor: theme.colors.primary,
+                            ...(isDragging(task.id) ? styles.dragging : {}),
                           }}
                           onClick={(e) => handleTaskClick(task, e)}
                           title={task.title}
@@ -1167,7 +1226,7 @@ const CalendarPage: React.FC = () => {
               <div style={styles.timeColumnHeader} />
               {weekDates.map((date, index) => {
                 const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-                const isCurrentDay = date.toDateString() === today.toDateString();
+                const isCurrentDay = toDateKey(date) === today;
 
                 return (
                   <div
@@ -1195,23 +1254,26 @@ const CalendarPage: React.FC = () => {
               {weekDates.map((date, index) => {
                 const allDayEvents = filteredEvents.filter(event => {
                   if (!event.isAllDay) return false;
-                  const eventStart = new Date(event.startDate);
-                  const eventEnd = event.endDate ? new Date(event.endDate) : eventStart;
-                  eventStart.setHours(0, 0, 0, 0);
-                  eventEnd.setHours(0, 0, 0, 0);
-                  const checkDate = new Date(date);
-                  checkDate.setHours(0, 0, 0, 0);
-                  return checkDate >= eventStart && checkDate <= eventEnd;
+                  return isEventOnDate(event, toDateKey(date));
                 });
 
                 return (
-                  <div key={index} style={styles.allDayCell}>
+                  <div
+                    key={index}
+                    style={{
+                      ...styles.allDayCell,
+                      ...(isDropTarget(date, 'day') ? styles.dropTarget : {}),
+                    }}
+                    {...getDropProps(date, 'day')}
+                  >
                     {allDayEvents.map(event => (
                       <div
                         key={event.id}
+                        {...getDragProps({ kind: 'event', event })}
                         style={{
                           ...styles.allDayEvent,
                           backgroundColor: event.color,
+                          ...(isDragging(event.id) ? styles.dragging : {}),
                         }}
                         onClick={() => setSelectedEvent(event)}
                       >
@@ -1243,31 +1305,28 @@ const CalendarPage: React.FC = () => {
 
               {/* Day columns with time-positioned events */}
               {weekDates.map((date, dayIndex) => {
-                const dateStr = date.toISOString().split('T')[0];
+                const dateStr = toDateKey(date);
 
                 // Get timed events for this day
                 const dayEvents = filteredEvents.filter(event => {
                   if (event.isAllDay) return false;
-                  const eventStartDate = new Date(event.startDate);
-                  const eventEndDate = event.endDate ? new Date(event.endDate) : eventStartDate;
-                  eventStartDate.setHours(0, 0, 0, 0);
-                  eventEndDate.setHours(0, 0, 0, 0);
-                  const checkDate = new Date(date);
-                  checkDate.setHours(0, 0, 0, 0);
-                  return checkDate >= eventStartDate && checkDate <= eventEndDate;
+                  return isEventOnDate(event, dateStr);
                 });
 
                 // Get timed tasks for this day
                 const dayTasks = jobTasks.filter(task => {
                   if (task.status === 'archived' || task.status === 'draft') return false;
-                  const taskDate = new Date(task.scheduledDate);
-                  return taskDate.toDateString() === date.toDateString();
+                  return task.scheduledDate === dateStr;
                 });
 
                 return (
                   <div
                     key={dayIndex}
-                    style={styles.weekDayColumn}
+                    style={{
+                      ...styles.weekDayColumn,
+                      ...(isDropTarget(date, 'time') ? styles.dropTarget : {}),
+                    }}
+                    {...getDropProps(date, 'time')}
                     onClick={() => {
                       setSelectedDate(dateStr);
                       setEditingEvent(null);
@@ -1284,9 +1343,11 @@ const CalendarPage: React.FC = () => {
                       {dayEvents.filter(e => !getEventPosition(e)).map(event => (
                         <div
                           key={event.id}
+                          {...getDragProps({ kind: 'event', event })}
                           style={{
                             ...styles.weekEventFloating,
                             backgroundColor: event.color,
+                            ...(isDragging(event.id) ? styles.dragging : {}),
                           }}
                           onClick={(e) => {
                             e.stopPropagation();
@@ -1306,9 +1367,11 @@ const CalendarPage: React.FC = () => {
                       {dayTasks.filter(t => !getTaskPosition(t)).map(task => (
                         <div
                           key={task.id}
+                          {...getDragProps({ kind: 'task', task })}
                           style={{
                             ...styles.weekTaskFloating,
                             borderLeftColor: theme.colors.primary,
+                            ...(isDragging(task.id) ? styles.dragging : {}),
                           }}
                           onClick={(e) => {
                             e.stopPropagation();
@@ -1336,11 +1399,13 @@ const CalendarPage: React.FC = () => {
                       return (
                         <div
                           key={event.id}
+                          {...getDragProps({ kind: 'event', event })}
                           style={{
                             ...styles.weekEventPositioned,
                             backgroundColor: event.color,
                             top: `${pos.top}px`,
                             height: `${pos.height}px`,
+                            ...(isDragging(event.id) ? styles.dragging : {}),
                           }}
                           onClick={(e) => {
                             e.stopPropagation();
@@ -1366,11 +1431,13 @@ const CalendarPage: React.FC = () => {
                       return (
                         <div
                           key={task.id}
+                          {...getDragProps({ kind: 'task', task })}
                           style={{
                             ...styles.weekTaskPositioned,
                             borderLeftColor: theme.colors.primary,
                             top: `${pos.top}px`,
                             height: `${pos.height}px`,
+                            ...(isDragging(task.id) ? styles.dragging : {}),
                           }}
                           onClick={(e) => {
                             e.stopPropagation();
@@ -1439,6 +1506,8 @@ const CalendarPage: React.FC = () => {
         initialDate={selectedDate}
       />
 
+      <EventImport isOpen={showImport} onClose={() => setShowImport(false)} />
+
       <EventDetailModal
         isOpen={selectedEvent !== null}
         onClose={() => setSelectedEvent(null)}
@@ -1455,6 +1524,14 @@ const CalendarPage: React.FC = () => {
         users={users}
       />
 
+      <JobDiscussionModal
+        job={selectedJob && (jobs.find(j => j.id === selectedJob.id) || selectedJob)}
+        users={users}
+        onClose={() => setSelectedJob(null)}
+      />
+
+      {scopeDialog}
+
       {/* Work Hours Detail Modal */}
       {selectedWorkHours && (
         <div style={styles.modalOverlay} onClick={() => setSelectedWorkHours(null)}>
@@ -1567,6 +1644,25 @@ const styles: { [key: string]: React.CSSProperties } = {
     color: theme.colors.textSecondary,
     marginTop: theme.spacing.sm,
   },
+  headerButtons: {
+    display: 'flex',
+    gap: '12px',
+    alignItems: 'center',
+  },
+  headerButtonsMobile: {
+    display: 'flex',
+    gap: '8px',
+    width: '100%',
+  },
+  importButton: {
+    ...theme.components.button.base,
+    ...theme.components.button.sizes.md,
+    backgroundColor: 'transparent',
+    color: theme.colors.textSecondary,
+    fontWeight: 600,
+    border: `2px solid ${theme.colors.border}`,
+    whiteSpace: 'nowrap',
+  },
   addButton: {
     ...theme.components.button.base,
     ...theme.components.button.sizes.md,
@@ -1759,6 +1855,14 @@ const styles: { [key: string]: React.CSSProperties } = {
     backgroundColor: '#2a2a2a',
     cursor: 'pointer',
   },
+  dropTarget: {
+    backgroundColor: `${theme.colors.primary}1A`,
+    outline: `2px dashed ${theme.colors.primary}`,
+    outlineOffset: '-2px',
+  },
+  dragging: {
+    opacity: 0.4,
+  },
   dayNumber: {
     fontSize: '13px',
     fontWeight: 600,
@@ -2765,13 +2869,16 @@ const styles: { [key: string]: React.CSSProperties } = {
 const CalendarDayCell: React.FC<{
   isToday: boolean;
   isMobileOrTablet: boolean;
+  isDropTarget?: boolean;
+  dropProps?: React.HTMLAttributes<HTMLElement>;
   onClick: () => void;
   children: React.ReactNode;
-}> = ({ isToday, isMobileOrTablet, onClick, children }) => {
+}> = ({ isToday, isMobileOrTablet, isDropTarget, dropProps, onClick, children }) => {
   const [isHovered, setIsHovered] = useState(false);
 
   return (
     <div
+      {...dropProps}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
       onClick={onClick}
@@ -2779,6 +2886,7 @@ const CalendarDayCell: React.FC<{
         ...(isMobileOrTablet ? styles.calendarDayMobile : styles.calendarDay),
         ...(isToday ? styles.calendarDayToday : {}),
         ...(isHovered && !isToday ? styles.calendarDayHover : {}),
+        ...(isDropTarget ? styles.dropTarget : {}),
       }}
     >
       {children}
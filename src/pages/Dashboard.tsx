@@ -10,12 +10,9 @@ import { useResponsive } from '../hooks/useResponsive';
 import { DashboardSkeleton } from '../components/Skeleton';
 import CalendarTaskModal from '../components/CalendarTaskModal';
 import EventDetailModal from '../components/EventDetailModal';
+import OnboardingChecklist from '../components/OnboardingChecklist';
 import { JobTask, User, CalendarEvent, WorkDay } from '../types';
-
-// Parse a date-only string (YYYY-MM-DD) as LOCAL midnight — bare new Date()
-// parses it as UTC and shifts the day back in US timezones.
-const parseLocalDate = (dateString: string) =>
-  new Date(dateString.includes('T') ? dateString : `${dateString}T00:00:00`);
+import { addDays, formatDateValue, getTodayKey, parseDateKey, toDateKey } from '../utils/dateTime';
 
 const Dashboard: React.FC = () => {
   const { sops, loading: sopsLoading } = useSOPs();
@@ -135,8 +132,7 @@ const TaskCalendar: React.FC<{
   onDayClick?: (date: Date, e: React.MouseEvent) => void;
 }> = ({ tasks, events, users, currentMonth, setCurrentMonth, onTaskClick, onEventClick, showAllUsers = false, onDayClick }) => {
   const { isMobileOrTablet } = useResponsive();
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = getTodayKey();
 
   const getDaysInMonth = (date: Date) => {
     const year = date.getFullYear();
@@ -155,25 +151,13 @@ const TaskCalendar: React.FC<{
   const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
 
   const getTasksForDate = (day: number) => {
-    const date = new Date(year, month, day);
-    date.setHours(0, 0, 0, 0);
-    return tasks.filter(task => {
-      const taskDate = parseLocalDate(task.scheduledDate);
-      taskDate.setHours(0, 0, 0, 0);
-      return taskDate.getTime() === date.getTime();
-    });
+    const dateKey = toDateKey(new Date(year, month, day));
+    return tasks.filter(task => task.scheduledDate === dateKey);
   };
 
   const getEventsForDate = (day: number) => {
-    const date = new Date(year, month, day);
-    date.setHours(0, 0, 0, 0);
-    return events.filter(event => {
-      const eventStartDate = new Date(event.startDate);
-      eventStartDate.setHours(0, 0, 0, 0);
-      const eventEndDate = event.endDate ? new Date(event.endDate) : eventStartDate;
-      eventEndDate.setHours(0, 0, 0, 0);
-      return date >= eventStartDate && date <= eventEndDate;
-    });
+    const dateKey = toDateKey(new Date(year, month, day));
+    return events.filter(event => dateKey >= event.startDate && dateKey <= (event.endDate || event.startDate));
   };
 
   return (
@@ -208,7 +192,7 @@ const TaskCalendar: React.FC<{
           const day = index + 1;
           const tasksForDay = getTasksForDate(day);
           const eventsForDay = getEventsForDate(day);
-          const isToday = today.getDate() === day && today.getMonth() === month && today.getFullYear() === year;
+          const isToday = toDateKey(new Date(year, month, day)) === today;
           const totalItems = tasksForDay.length + eventsForDay.length;
           const maxVisible = isMobileOrTablet ? 2 : 3;
           const clickedDate = new Date(year, month, day);
@@ -287,33 +271,20 @@ const TeamMemberDashboard: React.FC<{
   const { deleteEvent } = useEvent();
   const myTasks = jobTasks.filter(task => task.assignedTo.includes(currentUser.id));
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = getTodayKey();
 
   // Stats
   const pendingTasks = myTasks.filter(t => t.status === 'pending').length;
   const inProgressTasks = myTasks.filter(t => t.status === 'in-progress').length;
   const completedTasks = myTasks.filter(t => t.status === 'completed').length;
-  const overdueTasks = myTasks.filter(task => {
-    const taskDate = parseLocalDate(task.scheduledDate);
-    taskDate.setHours(0, 0, 0, 0);
-    return taskDate < today && task.status !== 'completed';
-  });
+  const overdueTasks = myTasks.filter(task => task.scheduledDate < today && task.status !== 'completed');
 
   // Today's tasks
-  const todayTasks = myTasks.filter(task => {
-    const taskDate = parseLocalDate(task.scheduledDate);
-    taskDate.setHours(0, 0, 0, 0);
-    return taskDate.getTime() === today.getTime();
-  });
+  const todayTasks = myTasks.filter(task => task.scheduledDate === today);
 
   // Upcoming tasks (next 7 days)
-  const nextWeek = new Date();
-  nextWeek.setDate(nextWeek.getDate() + 7);
-  const upcomingTasks = myTasks.filter(task => {
-    const taskDate = parseLocalDate(task.scheduledDate);
-    return taskDate > today && taskDate <= nextWeek;
-  });
+  const nextWeek = addDays(today, 7);
+  const upcomingTasks = myTasks.filter(task => task.scheduledDate > today && task.scheduledDate <= nextWeek);
 
   return (
     <div style={isMobileOrTablet ? styles.containerMobile : styles.container}>
@@ -322,6 +293,8 @@ const TeamMemberDashboard: React.FC<{
         <h1 style={isMobileOrTablet ? styles.titleMobile : styles.title}>Welcome, {currentUser.firstName}</h1>
       </div>
 
+      <OnboardingChecklist />
+
       {/* Stats Row - Compact */}
       <div style={isMobileOrTablet ? styles.statsRowMobile : styles.statsRow}>
         <div style={styles.statItem} onClick={() => navigate('/my-tasks', { state: { filterStatus: 'pending' } })}>
@@ -395,7 +368,7 @@ const TeamMemberDashboard: React.FC<{
                   <div style={styles.taskCardHeader}>
                     <span style={styles.taskCardTitle}>{task.title}</span>
                     <span style={styles.taskCardDate}>
-                      {parseLocalDate(task.scheduledDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                      {formatDateValue(task.scheduledDate, { month: 'short', day: 'numeric' })}
                     </span>
                   </div>
                 </div>
@@ -417,7 +390,7 @@ const TeamMemberDashboard: React.FC<{
                 <div style={styles.taskCardHeader}>
                   <span style={styles.taskCardTitle}>{task.title}</span>
                   <span style={{ ...styles.taskCardDate, color: theme.colors.status.overdue }}>
-                    Due: {parseLocalDate(task.scheduledDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    Due: {formatDateValue(task.scheduledDate, { month: 'short', day: 'numeric' })}
                   </span>
                 </div>
               </div>
@@ -463,12 +436,11 @@ const ScheduleSnapshot: React.FC<{
   // Get the next 7 days starting from today
   const getNext7Days = () => {
     const days: { date: string; dayName: string; dayNum: number; isToday: boolean }[] = [];
-    const today = new Date();
+    const today = getTodayKey();
 
     for (let i = 0; i < 7; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() + i);
-      const dateStr = date.toISOString().split('T')[0];
+      const dateStr = addDays(today, i);
+      const date = parseDateKey(dateStr);
       const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
       days.push({
@@ -630,13 +602,8 @@ const AdminDashboard: React.FC<{
   const completedTasks = activeTasks.filter(t => t.status === 'completed').length;
 
   // Calculate overdue tasks
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const overdueTasks = activeTasks.filter(t => {
-    const taskDate = parseLocalDate(t.scheduledDate);
-    taskDate.setHours(0, 0, 0, 0);
-    return taskDate < today && t.status !== 'completed';
-  }).length;
+  const today = getTodayKey();
+  const overdueTasks = activeTasks.filter(t => t.scheduledDate < today && t.status !== 'completed').length;
 
   return (
     <div style={isMobileOrTablet ? styles.containerMobile : styles.container}>
@@ -653,6 +620,8 @@ const AdminDashboard: React.FC<{
         </div>
       </div>
 
+      <OnboardingChecklist />
+
       {/* Task Stats Row */}
       <div style={isMobileOrTablet ? styles.statsRowMobile : styles.statsRow}>
         <div style={styles.statItem} onClick={() => navigate('/job-tasks', { state: { filterStatus: 'pending' } })}>
@@ -2,6 +2,7 @@ import React, { useState, useEffect, memo, useMemo } from 'react';
 import { useTask, TASK_COMPLETE_MARKER } from '../contexts/TaskContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useSOPs } from '../contexts/SOPContext';
+import { useDepartments } from '../contexts/DepartmentContext';
 import { useResponsive } from '../hooks/useResponsive';
 import { useSearchParams, useLocation } from 'react-router-dom';
 import { JobTask, TaskTemplate } from '../types';
@@ -9,22 +10,27 @@ import { theme } from '../theme';
 import { UnifiedJobTaskModal } from '../components/UnifiedJobTaskModal';
 import { useToast } from '../contexts/ToastContext';
 import { useConfirm } from '../hooks/useConfirm';
+import { useRecurrenceScope } from '../hooks/useRecurrenceScope';
+import { useTimeZone } from '../contexts/TimeZoneContext';
+import { isPartOfSeries } from '../utils/recurrence';
+import { daysBetweenKeys, formatDateValue, getTodayKey } from '../utils/dateTime';
+import { getBlockingTasks } from '../utils/taskDependencies';
+import { isDepartmentMember } from '../utils/departments';
 import TaskLibraryImport from '../components/TaskLibraryImport';
 import CalendarTaskModal from '../components/CalendarTaskModal';
-
-// Parse a date-only string (YYYY-MM-DD) as LOCAL midnight. Bare
-// `new Date('YYYY-MM-DD')` parses as UTC midnight, which renders as the
-// previous day (and flags today's tasks overdue) in US timezones.
-const parseLocalDate = (dateString: string) =>
-  new Date(dateString.includes('T') ? dateString : `${dateString}T00:00:00`);
+import CommentThread from '../components/CommentThread';
 
 const JobTasksPage: React.FC = () => {
-  const { jobTasks, taskTemplates, createJobTaskUnified, updateJobTask, deleteJobTask, archiveJobTask, addTaskTemplate } = useTask();
+  const { jobTasks, taskTemplates, createJobTaskUnified, updateJobTask, updateRecurringTask, deleteJobTask, archiveJobTask, addTaskTemplate } = useTask();
   const { currentUser, users } = useAuth();
+  const { inActiveDepartment } = useDepartments();
   const { sops } = useSOPs();
   const { isMobile } = useResponsive();
   const { showToast } = useToast();
   const { confirm, confirmDialog } = useConfirm();
+  const { chooseScope, scopeDialog } = useRecurrenceScope();
+  const { timeZone } = useTimeZone();
+  const today = getTodayKey(timeZone);
   const [searchParams, setSearchParams] = useSearchParams();
   const location = useLocation();
 
@@ -75,6 +81,7 @@ const JobTasksPage: React.FC = () => {
   const filteredTasks = jobTasks.filter(task => {
     // Exclude archived tasks from the main list
     if (task.status === 'archived') return false;
+    if (!inActiveDepartment(task.department)) return false;
 
     // Enhanced search: title, description, and assigned user names
     const searchLower = searchQuery.toLowerCase();
@@ -91,7 +98,7 @@ const JobTasksPage: React.FC = () => {
                          assignedUserNames.includes(searchLower);
     // Overdue is computed client-side (date passed + not completed) so the
     // stat card and filter agree, even before the background sweep updates status
-    const isOverdue = task.scheduledDate < new Date().toISOString().split('T')[0] &&
+    const isOverdue = task.scheduledDate < today &&
                       task.status !== 'completed';
     const matchesStatus =
       filterStatus === 'all' ||
@@ -104,7 +111,7 @@ const JobTasksPage: React.FC = () => {
 
   // Priority order for sorting
   const priorityOrder: Record<string, number> = { urgent: 0, high: 1, medium: 2, low: 3 };
-  const statusOrder: Record<string, number> = { overdue: 0, 'in-progress': 1, pending: 2, completed: 3 };
+  const statusOrder: Record<string, number> = { overdue: 0, 'in-progress': 1, pending: 2, blocked: 3, completed: 4 };
 
   // Sort tasks based on selected sort option
   const sortedTasks = useMemo(() => {
@@ -113,7 +120,7 @@ const JobTasksPage: React.FC = () => {
         case 'priority':
           return (priorityOrder[a.priority] || 3) - (priorityOrder[b.priority] || 3);
         case 'status':
-          return (statusOrder[a.status] || 3) - (statusOrder[b.status] || 3);
+          return (statusOrder[a.status] ?? 4) - (statusOrder[b.status] ?? 4);
         case 'name':
           return a.title.localeCompare(b.title);
         case 'date':
@@ -125,36 +132,36 @@ const JobTasksPage: React.FC = () => {
 
   // Calculate task stats
   const taskStats = useMemo(() => {
-    const nonArchivedTasks = jobTasks.filter(t => t.status !== 'archived');
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const nonArchivedTasks = jobTasks.filter(t => t.status !== 'archived' && inActiveDepartment(t.department));
 
     return {
       total: nonArchivedTasks.length,
       pending: nonArchivedTasks.filter(t => t.status === 'pending').length,
       inProgress: nonArchivedTasks.filter(t => t.status === 'in-progress').length,
       completed: nonArchivedTasks.filter(t => t.status === 'completed').length,
-      overdue: nonArchivedTasks.filter(t => {
-        const taskDate = parseLocalDate(t.scheduledDate);
-        taskDate.setHours(0, 0, 0, 0);
-        return taskDate < today && t.status !== 'completed';
-      }).length,
-      dueToday: nonArchivedTasks.filter(t => {
-        const taskDate = parseLocalDate(t.scheduledDate);
-        taskDate.setHours(0, 0, 0, 0);
-        return taskDate.getTime() === today.getTime() && t.status !== 'completed';
-      }).length,
+      overdue: nonArchivedTasks.filter(t => t.scheduledDate < today && t.status !== 'completed').length,
+      dueToday: nonArchivedTasks.filter(t => t.scheduledDate === today && t.status !== 'completed').length,
     };
-  }, [jobTasks]);
+  }, [jobTasks, today, inActiveDepartment]);
 
   const handleCreateTask = async (
     taskData: any,
     saveAsTemplate: boolean
   ) => {
+    // Edits to a recurring series apply to one occurrence or to all future ones
+    const isSeriesEdit = !!editingTask && isPartOfSeries(editingTask);
+    const scope = isSeriesEdit
+      ? await chooseScope({
+          title: 'Edit recurring task',
+          message: 'Apply these changes to this occurrence only, or to this and all future occurrences?',
+        })
+      : null;
+    if (isSeriesEdit && !scope) return;
+
     try {
       if (editingTask) {
         // Update existing task
-        await updateJobTask(editingTask.id, {
+        const taskUpdates: Partial<JobTask> = {
           title: taskData.title,
           description: taskData.description,
           category: taskData.category,
@@ -166,6 +173,7 @@ const JobTasksPage: React.FC = () => {
           isRecurring: taskData.isRecurring,
           recurrencePattern: taskData.recurrencePattern,
           sopIds: taskData.sopId ? [taskData.sopId] : [],
+          dependsOn: taskData.dependsOn || [],
           steps: taskData.steps.map((step: any, index: number) => ({
             id: `step_${Date.now()}_${index}`,
             order: index + 1,
@@ -174,7 +182,13 @@ const JobTasksPage: React.FC = () => {
             isCompleted: false,
             requiresPhoto: step.requiresPhoto,
           })),
-        });
+        };
+
+        if (scope) {
+          await updateRecurringTask(editingTask.id, taskUpdates, scope);
+        } else {
+          await updateJobTask(editingTask.id, taskUpdates);
+        }
 
         // Optionally save the edited task to the Task Library as a template
         if (saveAsTemplate && currentUser) {
@@ -521,6 +535,7 @@ const JobTasksPage: React.FC = () => {
             >
               <option value="all">All Statuses</option>
               <option value="pending">Pending</option>
+              <option value="blocked">Blocked</option>
               <option value="in-progress">In Progress</option>
               <option value="completed">Completed</option>
               <option value="overdue">Overdue</option>
@@ -581,6 +596,7 @@ const JobTasksPage: React.FC = () => {
                   key={task.id}
                   task={task}
                   users={users}
+                  waitingOn={getBlockingTasks(task, jobTasks).map(t => t.title).join(', ')}
                   isMobile={isMobile}
                   isAdmin={isAdmin}
                   isSelected={selectedTasks.has(task.id)}
@@ -627,6 +643,7 @@ const JobTasksPage: React.FC = () => {
         currentUserId={currentUser?.id || ''}
         initialTemplateId={initialTemplateId}
         initialScheduledDate={initialScheduledDate}
+        jobTasks={jobTasks}
       />
 
       {/* Task Library Import Modal */}
@@ -640,6 +657,7 @@ const JobTasksPage: React.FC = () => {
       />
 
       {confirmDialog}
+      {scopeDialog}
     </div>
   );
 };
@@ -648,6 +666,7 @@ const JobTasksPage: React.FC = () => {
 interface JobTaskCardProps {
   task: JobTask;
   users: any[];
+  waitingOn: string; // Titles of unfinished tasks this one depends on
   isMobile: boolean;
   isAdmin: boolean;
   isSelected: boolean;
@@ -657,13 +676,14 @@ interface JobTaskCardProps {
   onClick: () => void;
 }
 
-const JobTaskCard: React.FC<JobTaskCardProps> = memo(({ task, users, isMobile, isAdmin, isSelected, onToggleSelect, onArchive, onEdit, onClick }) => {
+const JobTaskCard: React.FC<JobTaskCardProps> = memo(({ task, users, waitingOn, isMobile, isAdmin, isSelected, onToggleSelect, onArchive, onEdit, onClick }) => {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return theme.colors.status.success;
       case 'in-progress': return theme.colors.status.info;
       case 'overdue': return theme.colors.status.error;
       case 'pending': return theme.colors.status.warning;
+      case 'blocked': return theme.colors.status.blocked;
       default: return theme.colors.txt.tertiary;
     }
   };
@@ -677,19 +697,12 @@ const JobTaskCard: React.FC<JobTaskCardProps> = memo(({ task, users, isMobile, i
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = parseLocalDate(dateString);
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-  };
+  const formatDate = (dateString: string) => formatDateValue(dateString);
 
   // Calculate due date warning
   const getDueDateWarning = () => {
     if (task.status === 'completed') return null;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const taskDate = parseLocalDate(task.scheduledDate);
-    taskDate.setHours(0, 0, 0, 0);
-    const diffDays = Math.ceil((taskDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    const diffDays = daysBetweenKeys(getTodayKey(), task.scheduledDate);
 
     if (diffDays < 0) return { text: 'OVERDUE', color: theme.colors.status.error, urgent: true };
     if (diffDays === 0) return { text: 'DUE TODAY', color: theme.colors.status.warning, urgent: true };
@@ -794,6 +807,10 @@ const JobTaskCard: React.FC<JobTaskCardProps> = memo(({ task, users, isMobile, i
         </div>
       </div>
 
+      {waitingOn && (
+        <div style={styles.waitingOn}>Waiting on: {waitingOn}</div>
+      )}
+
       {/* Progress Bar */}
       <div style={styles.progressSection}>
         <div style={styles.progressHeader}>
@@ -931,7 +948,7 @@ const CreateJobTaskModal: React.FC<CreateJobTaskModalProps> = ({
   // Filter users by department
   const filteredUsers = filterDepartment === 'all'
     ? users
-    : users.filter(u => u.department === filterDepartment);
+    : users.filter(u => isDepartmentMember(u, filterDepartment));
 
   const handleUserToggle = (userId: string) => {
     setAssignedTo(prev =>
@@ -1022,8 +1039,7 @@ const CreateJobTaskModal: React.FC<CreateJobTaskModalProps> = ({
 
   // Set default date to today
   React.useEffect(() => {
-    const today = new Date().toISOString().split('T')[0];
-    setScheduledDate(today);
+    setScheduledDate(getTodayKey());
   }, []);
 
   return (
@@ -1404,6 +1420,7 @@ const JobTaskDetailModal: React.FC<JobTaskDetailModalProps> = ({ task, users, so
       case 'in-progress': return theme.colors.status.info;
       case 'overdue': return theme.colors.status.error;
       case 'pending': return theme.colors.status.warning;
+      case 'blocked': return theme.colors.status.blocked;
       default: return theme.colors.txt.tertiary;
     }
   };
@@ -1601,25 +1618,16 @@ const JobTaskDetailModal: React.FC<JobTaskDetailModalProps> = ({ task, users, so
             </div>
           </div>
 
-          {/* Comments Section (if exists) */}
-          {editedTask.comments && editedTask.comments.length > 0 && (
-            <div style={styles.formGroup}>
-              <label style={styles.label}>Comments ({editedTask.comments.length})</label>
-              <div style={styles.commentsList}>
-                {editedTask.comments.map((comment, index) => (
-                  <div key={index} style={styles.commentItem}>
-                    <div style={styles.commentHeader}>
-                      <span style={styles.commentAuthor}>{comment.userName}</span>
-                      <span style={styles.commentDate}>
-                        {new Date(comment.createdAt).toLocaleString()}
-                      </span>
-                    </div>
-                    <p style={styles.commentText}>{comment.text}</p>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
+          {/* Comments */}
+          <div style={styles.formGroup}>
+            <CommentThread
+              entityType="task"
+              entityId={task.id}
+              entityTitle={task.title}
+              legacyComments={task.comments}
+              users={users}
+            />
+          </div>
 
           {/* Action Buttons */}
           <div style={{...styles.modalActions, ...(isMobile && styles.modalActionsMobile)}}>
@@ -2215,6 +2223,11 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '13px',
     color: theme.colors.txt.tertiary,
   },
+  waitingOn: {
+    fontSize: '13px',
+    color: theme.colors.status.blocked,
+    marginBottom: theme.spacing.md,
+  },
   progressSection: {
     marginBottom: theme.spacing.lg,
   },
@@ -2766,37 +2779,6 @@ const styles: { [key: string]: React.CSSProperties } = {
     borderRadius: theme.borderRadius.sm,
     width: 'fit-content',
   },
-  commentsList: {
-    display: 'flex',
-    flexDirection: 'column',
-    gap: theme.spacing.sm,
-  },
-  commentItem: {
-    padding: theme.spacing.md,
-    backgroundColor: theme.colors.bg.tertiary,
-    border: `1px solid ${theme.colors.bdr.primary}`,
-    borderRadius: theme.borderRadius.md,
-  },
-  commentHeader: {
-    display: 'flex',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: theme.spacing.xs,
-  },
-  commentAuthor: {
-    fontSize: '13px',
-    fontWeight: 600,
-    color: theme.colors.txt.primary,
-  },
-  commentDate: {
-    fontSize: '12px',
-    color: theme.colors.txt.tertiary,
-  },
-  commentText: {
-    fontSize: '14px',
-    color: theme.colors.txt.secondary,
-    lineHeight: '1.5',
-  },
   // Mobile-specific styles
   containerMobile: {
     padding: theme.pageLayout.containerPadding.mobile,
@@ -5,6 +5,14 @@ import { useResponsive } from '../hooks/useResponsive';
 import { useTheme } from '../contexts/ThemeContext';
 import { theme } from '../theme';
 import { CustomCheckbox } from '../components/CustomCheckbox';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { SSOProvider } from '../types';
+import {
+  DEFAULT_LOGIN_SETTINGS,
+  LoginOptions,
+  SSO_PROVIDER_LABELS,
+  fetchLoginOptions,
+} from '../services/loginSettings';
 
 const Login: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -13,8 +21,11 @@ const Login: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [rememberMe, setRememberMe] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [loginOptions, setLoginOptions] = useState<LoginOptions>(DEFAULT_LOGIN_SETTINGS);
+  const [showAdminPassword, setShowAdminPassword] = useState(false);
   const navigate = useNavigate();
-  const { login } = useAuth();
+  const { login, loginWithMagicLink, loginWithSSO } = useAuth();
   const { isMobile, isMobileOrTablet } = useResponsive();
   const { isDark } = useTheme();
 
@@ -27,14 +38,31 @@ const Login: React.FC = () => {
     }
   }, []);
 
+  // Sign-in links and single sign-on need Supabase Auth
+  const useSupabase = isSupabaseConfigured();
+  useEffect(() => {
+    if (!useSupabase) return;
+    fetchLoginOptions()
+      .then(setLoginOptions)
+      .catch(() => {
+        // Before migration v24 there are only passwords
+      });
+  }, [useSupabase]);
+
+  const ssoProviders = useSupabase ? loginOptions.ssoProviders : [];
+  // Admins keep a password in case the identity provider is down
+  const passwordHidden = loginOptions.ssoRequired && ssoProviders.length > 0 && !showAdminPassword;
+  const canEmailLink = useSupabase && loginOptions.magicLinkEnabled && !loginOptions.ssoRequired;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
     setIsLoading(true);
 
     try {
-      const success = await login(email, password);
-      if (success) {
+      const result = await login(email, password);
+      if (result.success) {
         // Handle remember me
         if (rememberMe) {
           localStorage.setItem('rememberedEmail', email);
@@ -43,7 +71,7 @@ const Login: React.FC = () => {
         }
         navigate('/dashboard');
       } else {
-        setError('Invalid email or password');
+        setError(result.error || 'Invalid email or password');
       }
     } catch (err) {
       setError('An error occurred. Please try again.');
@@ -52,6 +80,40 @@ const Login: React.FC = () => {
     }
   };
 
+  const handleSSO = async (provider: SSOProvider) => {
+    setError('');
+    setNotice('');
+    setIsLoading(true);
+
+    // On success the browser is already on its way to the identity provider
+    const result = await loginWithSSO(provider);
+    if (!result.success) {
+      setError(result.error || 'Could not start single sign-on. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
+  const handleMagicLink = async () => {
+    setError('');
+    setNotice('');
+    if (!email.trim()) {
+      setError('Enter your email address first');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await loginWithMagicLink(email.trim());
+      if (result.success) {
+        setNotice(`If ${email.trim()} has an account, a sign-in link is on its way. It works once.`);
+      } else {
+        setError(result.error || 'Could not send a sign-in link. Please try again.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Dynamic styles based on screen size
   const getStyles = () => {
     const baseStyles = styles;
@@ -103,82 +165,127 @@ const Login: React.FC = () => {
           </div>
         )}
 
-        {/* Login Form */}
-        <form onSubmit={handleSubmit} style={styles.form}>
-          <div style={styles.inputGroup}>
-            <label style={styles.label}>Email Address</label>
-            <input
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="you@example.com"
-              required
-              style={responsiveStyles.input}
-              disabled={isLoading}
-            />
-          </div>
+        {notice && <div style={styles.noticeBox}>{notice}</div>}
 
-          <div style={styles.inputGroup}>
-            <label style={styles.label}>Password</label>
-            <div style={styles.passwordContainer}>
-              <input
-                type={showPassword ? 'text' : 'password'}
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="••••••••"
-                required
-                style={{ ...responsiveStyles.input, ...styles.passwordInput }}
-                disabled={isLoading}
-              />
+        {/* Single Sign-On */}
+        {ssoProviders.length > 0 && (
+          <div style={styles.ssoSection}>
+            {ssoProviders.map(provider => (
               <button
+                key={provider}
                 type="button"
-                onClick={() => setShowPassword(!showPassword)}
-                style={styles.passwordToggle}
+                onClick={() => handleSSO(provider)}
+                style={{ ...styles.ssoButton, ...(isLoading && styles.submitButtonDisabled) }}
+                className="sso-button"
                 disabled={isLoading}
-                aria-label={showPassword ? 'Hide password' : 'Show password'}
-                className="password-toggle"
               >
-                {showPassword ? (
-                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24" />
-                    <line x1="1" y1="1" x2="23" y2="23" />
-                  </svg>
-                ) : (
-                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z" />
-                    <circle cx="12" cy="12" r="3" />
-                  </svg>
-                )}
+                Continue with {SSO_PROVIDER_LABELS[provider]}
               </button>
-            </div>
+            ))}
+            {loginOptions.allowedDomains.length > 0 && (
+              <p style={styles.ssoHint}>
+                Use your {loginOptions.allowedDomains.map(domain => `@${domain}`).join(' or ')} account
+              </p>
+            )}
           </div>
+        )}
 
-          {/* Remember Me Checkbox */}
-          <div style={styles.rememberMeContainer}>
-            <CustomCheckbox
-              checked={rememberMe}
-              onChange={setRememberMe}
-              label="Remember me"
-              disabled={isLoading}
-            />
+        {ssoProviders.length > 0 && !passwordHidden && (
+          <div style={styles.divider}>
+            <span style={styles.dividerLine} />
+            or
+            <span style={styles.dividerLine} />
           </div>
+        )}
 
-          <button
-            type="submit"
-            style={isLoading ? { ...responsiveStyles.submitButton, ...styles.submitButtonDisabled } : responsiveStyles.submitButton}
-            disabled={isLoading}
-          >
-            {isLoading ? (
-              <span style={styles.loadingContent}>
-                <svg style={styles.spinner} width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <circle cx="12" cy="12" r="10" strokeOpacity="0.25" />
-                  <path d="M12 2a10 10 0 0 1 10 10" strokeLinecap="round" />
-                </svg>
-                Signing in...
-              </span>
-            ) : 'Sign In'}
+        {passwordHidden ? (
+          <button type="button" onClick={() => setShowAdminPassword(true)} style={styles.linkButton}>
+            Admin sign-in with password
           </button>
-        </form>
+        ) : (
+          /* Login Form */
+          <form onSubmit={handleSubmit} style={styles.form}>
+            <div style={styles.inputGroup}>
+              <label style={styles.label}>Email Address</label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                required
+                style={responsiveStyles.input}
+                disabled={isLoading}
+              />
+            </div>
+
+            <div style={styles.inputGroup}>
+              <label style={styles.label}>Password</label>
+              <div style={styles.passwordContainer}>
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="••••••••"
+                  required
+                  style={{ ...responsiveStyles.input, ...styles.passwordInput }}
+                  disabled={isLoading}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  style={styles.passwordToggle}
+                  disabled={isLoading}
+                  aria-label={showPassword ? 'Hide password' : 'Show password'}
+                  className="password-toggle"
+                >
+                  {showPassword ? (
+                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24" />
+                      <line x1="1" y1="1" x2="23" y2="23" />
+                    </svg>
+                  ) : (
+                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z" />
+                      <circle cx="12" cy="12" r="3" />
+                    </svg>
+                  )}
+                </button>
+              </div>
+            </div>
+
+            {/* Remember Me Checkbox */}
+            <div style={styles.rememberMeContainer}>
+              <CustomCheckbox
+                checked={rememberMe}
+                onChange={setRememberMe}
+                label="Remember me"
+                disabled={isLoading}
+              />
+            </div>
+
+            <button
+              type="submit"
+              style={isLoading ? { ...responsiveStyles.submitButton, ...styles.submitButtonDisabled } : responsiveStyles.submitButton}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <span style={styles.loadingContent}>
+                  <svg style={styles.spinner} width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <circle cx="12" cy="12" r="10" strokeOpacity="0.25" />
+                    <path d="M12 2a10 10 0 0 1 10 10" strokeLinecap="round" />
+                  </svg>
+                  Signing in...
+                </span>
+              ) : 'Sign In'}
+            </button>
+
+            {canEmailLink && (
+              <button type="button" onClick={handleMagicLink} style={styles.linkButton} disabled={isLoading}>
+                Email me a sign-in link instead
+              </button>
+            )}
+          </form>
+        )}
 
       </div>
 
@@ -271,6 +378,63 @@ const styles: { [key: string]: React.CSSProperties } = {
   errorIcon: {
     fontSize: '18px',
   },
+  noticeBox: {
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.status.info}`,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.lg,
+    color: theme.colors.txt.primary,
+    fontSize: '14px',
+  },
+  ssoSection: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: theme.spacing.sm,
+  },
+  ssoButton: {
+    width: '100%',
+    padding: `${theme.spacing.md} ${theme.spacing.lg}`,
+    backgroundColor: theme.colors.bg.tertiary,
+    color: theme.colors.txt.primary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    fontSize: '15px',
+    fontWeight: 600,
+    cursor: 'pointer',
+    transition: 'all 0.2s ease',
+  },
+  ssoHint: {
+    fontSize: '13px',
+    color: theme.colors.txt.tertiary,
+    textAlign: 'center',
+    margin: 0,
+  },
+  divider: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    margin: `${theme.spacing.lg} 0`,
+    fontSize: '13px',
+    color: theme.colors.txt.tertiary,
+  },
+  dividerLine: {
+    flex: 1,
+    height: '1px',
+    backgroundColor: theme.colors.bdr.primary,
+  },
+  linkButton: {
+    display: 'block',
+    width: '100%',
+    marginTop: theme.spacing.md,
+    background: 'none',
+    border: 'none',
+    color: theme.colors.primary,
+    fontSize: '14px',
+    fontWeight: 500,
+    cursor: 'pointer',
+    textAlign: 'center',
+  },
   form: {
     display: 'flex',
     flexDirection: 'column',
@@ -410,6 +574,9 @@ styleSheet.textContent = `
   button[type="submit"]:active:not(:disabled) {
     transform: translateY(0);
   }
+  .sso-button:hover:not(:disabled) {
+    border-color: ${theme.colors.primary} !important;
+  }
   .password-toggle:hover {
     color: ${theme.colors.primary} !important;
   }
@@ -0,0 +1,197 @@
+/**
+ * MFA Gate Page
+ * Shown in place of the app after sign-in until two-factor is done: a code
+ * from the authenticator app (or a recovery code), or, for admins when the
+ * organization requires it, setting an authenticator up. When the two-factor
+ * status cannot be loaded it offers a retry instead of letting anyone in.
+ */
+
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { theme } from '../theme';
+import MfaEnrollment from '../components/MfaEnrollment';
+
+const MfaGatePage: React.FC = () => {
+  const { mfaGate, verifyMfa, redeemRecoveryCode, refreshMfaStatus, logout } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState('');
+  const [verifying, setVerifying] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setVerifying(true);
+    try {
+      if (useRecoveryCode) {
+        if (!(await redeemRecoveryCode(code))) {
+          setError('That recovery code is not valid or has already been used.');
+        }
+      } else {
+        await verifyMfa(code);
+      }
+    } catch {
+      setError(useRecoveryCode
+        ? 'Could not check that recovery code. Please try again.'
+        : 'That code did not work. Check your authenticator app and try again.');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleRetry = async () => {
+    setVerifying(true);
+    await refreshMfaStatus();
+    setVerifying(false);
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+    setError('');
+  };
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        {mfaGate === 'unavailable' ? (
+          <>
+            <h2 style={styles.title}>Could not check two-factor sign-in</h2>
+            <p style={styles.message}>
+              Check your connection and try again.
+            </p>
+            <button
+              type="button"
+              onClick={handleRetry}
+              style={{ ...styles.button, opacity: verifying ? 0.6 : 1 }}
+              disabled={verifying}
+            >
+              {verifying ? 'Checking...' : 'Try Again'}
+            </button>
+          </>
+        ) : mfaGate === 'enroll' ? (
+          <>
+            <h2 style={styles.title}>Set up two-factor sign-in</h2>
+            <p style={styles.message}>
+              Your organization requires admins to sign in with a code from an authenticator app as well as a password.
+            </p>
+            <MfaEnrollment />
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <h2 style={styles.title}>Two-factor sign-in</h2>
+            <p style={styles.message}>
+              {useRecoveryCode
+                ? 'Enter one of the recovery codes you saved. Your authenticator will be removed so you can set it up again.'
+                : 'Enter the 6-digit code from your authenticator app.'}
+            </p>
+
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
+              autoFocus
+              maxLength={useRecoveryCode ? 11 : 8}
+              placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+              style={styles.input}
+              disabled={verifying}
+              aria-label={useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+            />
+            {error && <p style={styles.error}>{error}</p>}
+
+            <button
+              type="submit"
+              style={{ ...styles.button, opacity: verifying || code.trim().length < 6 ? 0.6 : 1 }}
+              disabled={verifying || code.trim().length < 6}
+            >
+              {verifying ? 'Checking...' : 'Continue'}
+            </button>
+
+            <button type="button" onClick={toggleRecoveryCode} style={styles.linkButton} disabled={verifying}>
+              {useRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+            </button>
+          </form>
+        )}
+
+        <button type="button" onClick={() => logout()} style={styles.linkButton}>
+          Sign out
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: '100vh',
+    backgroundColor: theme.colors.background,
+    padding: '20px',
+  },
+  card: {
+    backgroundColor: theme.colors.backgroundLight,
+    borderRadius: theme.borderRadius.lg,
+    padding: '40px',
+    textAlign: 'center',
+    maxWidth: '440px',
+    width: '100%',
+    boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+  },
+  title: {
+    fontSize: '24px',
+    fontWeight: 700,
+    color: theme.colors.textPrimary,
+    marginBottom: '12px',
+  },
+  message: {
+    fontSize: '15px',
+    color: theme.colors.textSecondary,
+    lineHeight: 1.5,
+    marginBottom: '24px',
+  },
+  input: {
+    width: '100%',
+    padding: '14px',
+    backgroundColor: theme.colors.bg.tertiary,
+    border: `1px solid ${theme.colors.bdr.primary}`,
+    borderRadius: theme.borderRadius.md,
+    color: theme.colors.txt.primary,
+    fontSize: '22px',
+    letterSpacing: '4px',
+    textAlign: 'center',
+    outline: 'none',
+    boxSizing: 'border-box',
+  },
+  error: {
+    fontSize: '14px',
+    color: theme.colors.status.error,
+    margin: '8px 0 0',
+  },
+  button: {
+    width: '100%',
+    marginTop: '20px',
+    backgroundColor: theme.colors.primary,
+    color: '#FFFFFF',
+    border: 'none',
+    borderRadius: theme.borderRadius.md,
+    padding: '12px 24px',
+    fontSize: '16px',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  linkButton: {
+    display: 'block',
+    margin: '16px auto 0',
+    background: 'none',
+    border: 'none',
+    color: theme.colors.txt.secondary,
+    fontSize: '14px',
+    textDecoration: 'underline',
+    cursor: 'pointer',
+  },
+};
+
+export default MfaGatePage;
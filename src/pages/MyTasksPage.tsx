@@ -4,19 +4,28 @@ import { useTask, TASK_COMPLETE_MARKER } from '../contexts/TaskContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useSOPs } from '../contexts/SOPContext';
 import { useToast } from '../contexts/ToastContext';
+import { useTimeZone } from '../contexts/TimeZoneContext';
 import { JobTask, TaskStep } from '../types';
 import { theme } from '../theme';
 import { useResponsive } from '../hooks/useResponsive';
+import { useStepPhotos } from '../hooks/useStepPhotos';
 import { SwipeableListItem, createSwipeAction } from '../components/SwipeableList';
 import PullToRefresh from '../components/PullToRefresh';
+import StepPhotoCapture from '../components/StepPhotoCapture';
+import { getBlockingTasks } from '../utils/taskDependencies';
+import { getMissingPhotoSteps, getStepPhotoUrl } from '../utils/stepPhotos';
+import { addDays, formatDateValue, getTodayKey } from '../utils/dateTime';
 
 const MyTasksPage: React.FC = () => {
   const { jobTasks, updateJobTask, refreshTasks } = useTask();
-  const { currentUser } = useAuth();
+  const { currentUser, isAdmin } = useAuth();
   const { sops } = useSOPs();
   const { success: showSuccess, error: showError } = useToast();
   const location = useLocation();
   const { isMobileOrTablet } = useResponsive();
+  const { timeZone } = useTimeZone();
+  const { attachStepPhoto } = useStepPhotos();
+  const today = getTodayKey(timeZone);
   const [selectedTask, setSelectedTask] = useState<JobTask | null>(null);
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterDate, setFilterDate] = useState<string>('all');
@@ -32,8 +41,35 @@ const MyTasksPage: React.FC = () => {
     }
   }, [refreshTasks]);
 
+  // Titles of the unfinished tasks a task is waiting on
+  const getWaitingOn = useCallback((task: JobTask) =>
+    getBlockingTasks(task, jobTasks).map(t => t.title).join(', '),
+  [jobTasks]);
+
+  // Blocked tasks can't be worked on until their predecessors are done
+  const rejectIfBlocked = useCallback((task: JobTask) => {
+    if (task.status !== 'blocked' || isAdmin) return false;
+    const waitingOn = getWaitingOn(task);
+    showError(waitingOn
+      ? `"${task.title}" is waiting on: ${waitingOn}`
+      : `"${task.title}" is waiting on other tasks to be completed`);
+    return true;
+  }, [isAdmin, getWaitingOn, showError]);
+
+  // Steps that need photo evidence can't be checked off until it's attached
+  const rejectIfPhotoMissing = useCallback((task: JobTask, steps: TaskStep[]) => {
+    const missing = getMissingPhotoSteps(steps);
+    if (missing.length === 0) return false;
+    showError(missing.length === 1
+      ? `Attach a photo to "${missing[0].title}" before completing it`
+      : `Attach photos to ${missing.length} steps of "${task.title}" before completing it`);
+    return true;
+  }, [showError]);
+
   // Quick complete task (mark all steps as done)
   const handleQuickComplete = useCallback(async (task: JobTask) => {
+    if (rejectIfBlocked(task)) return;
+    if (rejectIfPhotoMissing(task, task.steps.filter(s => !task.completedSteps.includes(s.id)))) return;
     try {
       if (task.steps.length === 0) {
         // Task without steps - use the special marker
@@ -66,7 +102,7 @@ const MyTasksPage: React.FC = () => {
       console.error('Failed to complete task:', error);
       showError('Could not save the change. Check your connection and try again.');
     }
-  }, [updateJobTask, showSuccess, showError]);
+  }, [updateJobTask, rejectIfBlocked, rejectIfPhotoMissing, showSuccess, showError]);
 
   // Check if we should apply filters based on navigation state
   useEffect(() => {
@@ -93,10 +129,8 @@ const MyTasksPage: React.FC = () => {
 
   // A task is overdue if its date has passed and it isn't completed —
   // computed here so the filter works even before the server-side sweep runs
-  const isTaskOverdue = (task: JobTask) => {
-    const today = new Date().toISOString().split('T')[0];
-    return task.scheduledDate < today && task.status !== 'completed';
-  };
+  const isTaskOverdue = (task: JobTask) =>
+    task.scheduledDate < today && task.status !== 'completed';
 
   // Filter tasks
   const filteredTasks = myTasks.filter(task => {
@@ -107,13 +141,10 @@ const MyTasksPage: React.FC = () => {
         : task.status === filterStatus);
 
     if (filterDate === 'today') {
-      const today = new Date().toISOString().split('T')[0];
       return matchesStatus && task.scheduledDate === today;
     } else if (filterDate === 'upcoming') {
-      const today = new Date().toISOString().split('T')[0];
       return matchesStatus && task.scheduledDate > today;
     } else if (filterDate === 'past') {
-      const today = new Date().toISOString().split('T')[0];
       return matchesStatus && task.scheduledDate < today;
     }
 
@@ -135,10 +166,11 @@ const MyTasksPage: React.FC = () => {
 
   const handleStepToggle = (task: JobTask, stepId: string) => {
     const step = task.steps.find(s => s.id === stepId);
-    if (!step) return;
+    if (!step || rejectIfBlocked(task)) return;
 
     // Check current completion state from completedSteps array (source of truth)
     const isCurrentlyCompleted = task.completedSteps.includes(stepId);
+    if (!isCurrentlyCompleted && rejectIfPhotoMissing(task, [step])) return;
 
     let newCompletedSteps: string[];
     let updatedSteps = task.steps.map(s => {
@@ -195,8 +227,23 @@ const MyTasksPage: React.FC = () => {
     }
   };
 
+  const handleStepPhoto = async (task: JobTask, stepId: string, file: File) => {
+    if (rejectIfBlocked(task)) return;
+    try {
+      const steps = await attachStepPhoto(task.id, stepId, file);
+      setSelectedTask(current => current?.id === task.id ? { ...current, steps } : current);
+      showSuccess('Photo attached');
+    } catch (error) {
+      console.error('Failed to attach step photo:', error);
+      showError(error instanceof Error && error.message
+        ? error.message
+        : 'Could not upload the photo. Check your connection and try again.');
+    }
+  };
+
   // Toggle completion for tasks without steps
   const handleNoStepsToggle = (task: JobTask) => {
+    if (rejectIfBlocked(task)) return;
     const isCurrentlyComplete = task.completedSteps.includes(TASK_COMPLETE_MARKER);
 
     const reportSaveError = (error: unknown) => {
@@ -234,10 +281,9 @@ const MyTasksPage: React.FC = () => {
   };
 
   // Get today's tasks count
-  const todayTasksCount = myTasks.filter(task => {
-    const today = new Date().toISOString().split('T')[0];
-    return task.scheduledDate === today && task.status !== 'completed';
-  }).length;
+  const todayTasksCount = myTasks.filter(task =>
+    task.scheduledDate === today && task.status !== 'completed'
+  ).length;
 
   return (
     <div style={isMobileOrTablet ? styles.containerMobile : styles.container}>
@@ -286,6 +332,7 @@ const MyTasksPage: React.FC = () => {
         >
           <option value="all">All Statuses</option>
           <option value="pending">Pending</option>
+          <option value="blocked">Blocked</option>
           <option value="in-progress">In Progress</option>
           <option value="completed">Completed</option>
           <option value="overdue">Overdue</option>
@@ -314,7 +361,7 @@ const MyTasksPage: React.FC = () => {
             </div>
           ) : (
             sortedTasks.map(task => (
-              isMobileOrTablet && task.status !== 'completed' ? (
+              isMobileOrTablet && task.status !== 'completed' && task.status !== 'blocked' ? (
                 <SwipeableListItem
                   key={task.id}
                   leftAction={createSwipeAction.complete(() => handleQuickComplete(task))}
@@ -323,7 +370,9 @@ const MyTasksPage: React.FC = () => {
                     task={task}
                     onClick={() => handleTaskClick(task)}
                     onStepToggle={(stepId) => handleStepToggle(task, stepId)}
+                    onStepPhoto={(stepId, file) => handleStepPhoto(task, stepId, file)}
                     onNoStepsToggle={() => handleNoStepsToggle(task)}
+                    waitingOn={getWaitingOn(task)}
                     isMobileOrTablet={isMobileOrTablet}
                   />
                 </SwipeableListItem>
@@ -333,7 +382,9 @@ const MyTasksPage: React.FC = () => {
                   task={task}
                   onClick={() => handleTaskClick(task)}
                   onStepToggle={(stepId) => handleStepToggle(task, stepId)}
+                  onStepPhoto={(stepId, file) => handleStepPhoto(task, stepId, file)}
                   onNoStepsToggle={() => handleNoStepsToggle(task)}
+                  waitingOn={getWaitingOn(task)}
                   isMobileOrTablet={isMobileOrTablet}
                 />
               )
@@ -349,7 +400,9 @@ const MyTasksPage: React.FC = () => {
           sops={sops}
           onClose={handleCloseDetail}
           onStepToggle={(stepId) => handleStepToggle(selectedTask, stepId)}
+          onStepPhoto={(stepId, file) => handleStepPhoto(selectedTask, stepId, file)}
           onNoStepsToggle={() => handleNoStepsToggle(selectedTask)}
+          waitingOn={getWaitingOn(selectedTask)}
           isMobileOrTablet={isMobileOrTablet}
         />
       )}
@@ -362,11 +415,13 @@ interface MyTaskCardProps {
   task: JobTask;
   onClick: () => void;
   onStepToggle: (stepId: string) => void;
+  onStepPhoto: (stepId: string, file: File) => Promise<void>;
   onNoStepsToggle: () => void;
+  waitingOn: string; // Titles of unfinished tasks this one depends on
   isMobileOrTablet: boolean;
 }
 
-const MyTaskCard: React.FC<MyTaskCardProps> = ({ task, onClick, onStepToggle, onNoStepsToggle, isMobileOrTablet }) => {
+const MyTaskCard: React.FC<MyTaskCardProps> = ({ task, onClick, onStepToggle, onStepPhoto, onNoStepsToggle, waitingOn, isMobileOrTablet }) => {
   const [expanded, setExpanded] = useState(false);
 
   const getStatusColor = (status: string) => {
@@ -375,6 +430,7 @@ const MyTaskCard: React.FC<MyTaskCardProps> = ({ task, onClick, onStepToggle, on
       case 'in-progress': return theme.colors.status.info;
       case 'overdue': return theme.colors.status.error;
       case 'pending': return theme.colors.status.warning;
+      case 'blocked': return theme.colors.status.blocked;
       default: return theme.colors.txt.tertiary;
     }
   };
@@ -389,17 +445,14 @@ const MyTaskCard: React.FC<MyTaskCardProps> = ({ task, onClick, onStepToggle, on
   };
 
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    const today = getTodayKey();
 
-    if (date.toDateString() === today.toDateString()) {
+    if (dateString === today) {
       return 'Today';
-    } else if (date.toDateString() === tomorrow.toDateString()) {
+    } else if (dateString === addDays(today, 1)) {
       return 'Tomorrow';
     } else {
-      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+      return formatDateValue(dateString);
     }
   };
 
@@ -453,6 +506,10 @@ const MyTaskCard: React.FC<MyTaskCardProps> = ({ task, onClick, onStepToggle, on
         </div>
       </div>
 
+      {waitingOn && (
+        <div style={styles.waitingOn}>Waiting on: {waitingOn}</div>
+      )}
+
       {/* Progress Bar */}
       <div style={isMobileOrTablet ? styles.progressSectionMobile : styles.progressSection}>
         <div style={styles.progressHeader}>
@@ -529,6 +586,12 @@ const MyTaskCard: React.FC<MyTaskCardProps> = ({ task, onClick, onStepToggle, on
                         Photo Required
                       </span>
                     )}
+                    {(step.requiresPhoto || getStepPhotoUrl(step)) && (
+                      <StepPhotoCapture
+                        photoUrl={getStepPhotoUrl(step)}
+                        onCapture={(file) => onStepPhoto(step.id, file)}
+                      />
+                    )}
                   </div>
                 </label>
               ))}
@@ -572,11 +635,13 @@ interface TaskDetailModalProps {
   sops: any[];
   onClose: () => void;
   onStepToggle: (stepId: string) => void;
+  onStepPhoto: (stepId: string, file: File) => Promise<void>;
   onNoStepsToggle: () => void;
+  waitingOn: string; // Titles of unfinished tasks this one depends on
   isMobileOrTablet: boolean;
 }
 
-const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, sops, onClose, onStepToggle, onNoStepsToggle, isMobileOrTablet }) => {
+const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, sops, onClose, onStepToggle, onStepPhoto, onNoStepsToggle, waitingOn, isMobileOrTablet }) => {
   const attachedSOPs = sops.filter(sop => task.sopIds.includes(sop.id));
 
   // Calculate progress - handle tasks without steps
@@ -614,6 +679,14 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, sops, onClose,
             <p style={styles.taskDetailDescription}>{task.description}</p>
           </div>
 
+          {waitingOn && (
+            <div style={styles.modalSection}>
+              <p style={styles.waitingOn}>
+                This task is blocked until these tasks are completed: {waitingOn}
+              </p>
+            </div>
+          )}
+
           {/* Task Meta */}
           <div style={styles.modalSection}>
             <div style={styles.metaGrid}>
@@ -710,6 +783,12 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, sops, onClose,
                           Photo Required
                         </span>
                       )}
+                      {(step.requiresPhoto || getStepPhotoUrl(step)) && (
+                        <StepPhotoCapture
+                          photoUrl={getStepPhotoUrl(step)}
+                          onCapture={(file) => onStepPhoto(step.id, file)}
+                        />
+                      )}
                       {step.isCompleted && step.completedAt && (
                         <span style={styles.completedTime}>
                           Completed {new Date(step.completedAt).toLocaleString()}
@@ -946,6 +1025,11 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '13px',
     color: theme.colors.txt.tertiary,
   },
+  waitingOn: {
+    fontSize: '13px',
+    color: theme.colors.status.blocked,
+    margin: '0 0 12px 0',
+  },
   progressSection: {
     marginBottom: theme.spacing.lg,
   },
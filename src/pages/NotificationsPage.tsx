@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useToast } from '../contexts/ToastContext';
+import { theme } from '../theme';
+import { useResponsive } from '../hooks/useResponsive';
+import { FormButton } from '../components/FormComponents';
+import NotificationList from '../components/NotificationList';
+
+type NotificationFilter = 'all' | 'unread';
+
+const NotificationsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAllAsRead, loading } = useNotifications();
+  const { showToast } = useToast();
+  const { isMobileOrTablet } = useResponsive();
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+
+  const visible = filter === 'unread'
+    ? notifications.filter(notification => !notification.readAt)
+    : notifications;
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllAsRead();
+    } catch {
+      showToast('Failed to mark notifications as read', 'error');
+    }
+  };
+
+  return (
+    <div className="page-enter" style={styles.container}>
+      <div style={{
+        ...styles.content,
+        padding: isMobileOrTablet ? '20px 16px' : '40px',
+        maxWidth: isMobileOrTablet ? '100%' : '800px',
+      }}>
+        {/* Header */}
+        <div style={styles.header}>
+          <h1 style={styles.title}>Notifications</h1>
+          <p style={styles.subtitle}>
+            Assignments, review requests and invitations that involve you
+          </p>
+        </div>
+
+        {/* Toolbar */}
+        <div style={styles.toolbar}>
+          <div style={styles.filters}>
+            {(['all', 'unread'] as NotificationFilter[]).map(option => (
+              <FormButton
+                key={option}
+                size="sm"
+                variant={filter === option ? 'primary' : 'outline'}
+                onClick={() => setFilter(option)}
+              >
+                {option === 'all' ? 'All' : `Unread (${unreadCount})`}
+              </FormButton>
+            ))}
+          </div>
+          <div style={styles.filters}>
+            <FormButton size="sm" variant="ghost" onClick={() => navigate('/settings')}>
+              Settings
+            </FormButton>
+            <FormButton size="sm" variant="secondary" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
+              Mark all read
+            </FormButton>
+          </div>
+        </div>
+
+        <div style={{ ...styles.card, ...(isMobileOrTablet ? styles.cardMobile : {}) }}>
+          {loading ? (
+            <div style={styles.loading}>Loading notifications...</div>
+          ) : (
+            <NotificationList
+              notifications={visible}
+              emptyMessage={filter === 'unread' ? 'No unread notifications' : 'No notifications yet'}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    minHeight: 'calc(100vh - 80px)',
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    margin: '0 auto',
+  },
+  header: {
+    marginBottom: theme.pageLayout.headerMargin.desktop,
+  },
+  title: {
+    ...theme.typography.h2,
+    color: theme.colors.txt.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  subtitle: {
+    ...theme.typography.subtitle,
+    color: theme.colors.txt.secondary,
+  },
+  toolbar: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginBottom: theme.pageLayout.filterGap.desktop,
+  },
+  filters: {
+    display: 'flex',
+    gap: theme.spacing.sm,
+  },
+  card: {
+    ...theme.components.card.base,
+    padding: 0,
+    overflow: 'hidden',
+  },
+  cardMobile: {
+    borderRadius: theme.components.card.mobile.borderRadius,
+  },
+  loading: {
+    padding: theme.spacing.xl,
+    textAlign: 'center',
+    color: theme.colors.txt.secondary,
+  },
+};
+
+export default NotificationsPage;
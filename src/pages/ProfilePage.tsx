@@ -4,6 +4,10 @@ import { useToast } from '../contexts/ToastContext';
 import { theme } from '../theme';
 import { useResponsive } from '../hooks/useResponsive';
 import { FormInput, FormButton, FormGroup } from '../components/FormComponents';
+import CertificationList from '../components/CertificationList';
+import CalendarFeedSettings from '../components/CalendarFeedSettings';
+import MfaSettings from '../components/MfaSettings';
+import { getUserDepartments } from '../utils/departments';
 
 const ProfilePage: React.FC = () => {
   const { currentUser, updateUser, changePassword } = useAuth();
@@ -17,7 +21,6 @@ const ProfilePage: React.FC = () => {
   // Form state
   const [firstName, setFirstName] = useState(currentUser?.firstName || '');
   const [lastName, setLastName] = useState(currentUser?.lastName || '');
-  const [department, setDepartment] = useState(currentUser?.department || '');
 
   // Password form state
   const [currentPassword, setCurrentPassword] = useState('');
@@ -32,7 +35,6 @@ const ProfilePage: React.FC = () => {
       await updateUser(currentUser.id, {
         firstName,
         lastName,
-        department,
       });
       showToast('Profile updated successfully', 'success');
       setIsEditing(false);
@@ -81,7 +83,6 @@ const ProfilePage: React.FC = () => {
   const handleCancelEdit = () => {
     setFirstName(currentUser?.firstName || '');
     setLastName(currentUser?.lastName || '');
-    setDepartment(currentUser?.department || '');
     setIsEditing(false);
   };
 
@@ -183,9 +184,9 @@ const ProfilePage: React.FC = () => {
               />
               <FormInput
                 label="Department"
-                value={department}
-                onChange={(e) => setDepartment(e.target.value)}
-                placeholder="Enter department"
+                value={getUserDepartments(currentUser).join(', ')}
+                disabled
+                helperText="Departments decide what you can see, so an admin changes them"
               />
               <div style={styles.buttonRow}>
                 <FormButton variant="secondary" onClick={handleCancelEdit}>
@@ -216,7 +217,7 @@ const ProfilePage: React.FC = () => {
               </div>
               <div style={styles.infoItem}>
                 <span style={styles.infoLabel}>Department</span>
-                <span style={styles.infoValue}>{currentUser.department}</span>
+                <span style={styles.infoValue}>{getUserDepartments(currentUser).join(', ')}</span>
               </div>
             </div>
           )}
@@ -257,6 +258,36 @@ const ProfilePage: React.FC = () => {
           </div>
         </div>
 
+        {/* Certifications Card */}
+        <div className="card-hover-subtle" style={styles.card}>
+          <div style={styles.cardHeader}>
+            <h3 style={styles.cardTitle}>
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="8" r="6" />
+                <path d="M15.477 12.89L17 22l-5-3-5 3 1.523-9.11" />
+              </svg>
+              Certifications
+            </h3>
+          </div>
+          <CertificationList userId={currentUser.id} />
+        </div>
+
+        {/* Calendar Feed Card */}
+        <div className="card-hover-subtle" style={styles.card}>
+          <div style={styles.cardHeader}>
+            <h3 style={styles.cardTitle}>
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <rect x="3" y="4" width="18" height="18" rx="2" ry="2" />
+                <line x1="16" y1="2" x2="16" y2="6" />
+                <line x1="8" y1="2" x2="8" y2="6" />
+                <line x1="3" y1="10" x2="21" y2="10" />
+              </svg>
+              Calendar Feed
+            </h3>
+          </div>
+          <CalendarFeedSettings userId={currentUser.id} />
+        </div>
+
         {/* Password Change Card */}
         <div className="card-hover-subtle" style={styles.card}>
           <div style={styles.cardHeader}>
@@ -329,6 +360,20 @@ const ProfilePage: React.FC = () => {
             </p>
           )}
         </div>
+
+        {/* Two-Factor Sign-In Card */}
+        <div className="card-hover-subtle" style={styles.card}>
+          <div style={styles.cardHeader}>
+            <h3 style={styles.cardTitle}>
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <rect x="5" y="2" width="14" height="20" rx="2" ry="2" />
+                <line x1="12" y1="18" x2="12.01" y2="18" />
+              </svg>
+              Two-Factor Sign-In
+            </h3>
+          </div>
+          <MfaSettings />
+        </div>
       </div>
     </div>
   );
@@ -2,6 +2,7 @@ import React, { useState, useEffect, memo, useCallback } from 'react';
 import { useLocation } from 'react-router-dom';
 import { useSOPs } from '../contexts/SOPContext';
 import { useAuth } from '../contexts/AuthContext';
+import { useDepartments } from '../contexts/DepartmentContext';
 import { theme } from '../theme';
 import { SOP, SOPStatus } from '../types';
 import SOPForm from '../components/SOPForm';
@@ -11,13 +12,17 @@ import { equipmentIcons, IconName } from '../components/IconSelector';
 import { useResponsive } from '../hooks/useResponsive';
 import { SOPPageSkeleton } from '../components/Skeleton';
 import { useConfirm } from '../hooks/useConfirm';
+import { countApprovals, getPendingReviewers } from '../utils/sopReview';
+import { getSOPDepartments } from '../utils/departments';
 
-type FilterView = 'all' | 'published' | 'draft' | 'archived';
+type FilterView = 'all' | 'published' | 'draft' | 'in_review' | 'archived';
 type ViewMode = 'sops' | 'templates';
 
 const SOPPage: React.FC = () => {
   const { sops, deleteSOP, updateSOPStatus, createFromTemplate, loading } = useSOPs();
-  const { isAdmin } = useAuth();
+  const { hasPermission, currentUser } = useAuth();
+  const { inActiveDepartment } = useDepartments();
+  const canManageSOPs = hasPermission('manage_sops');
   const location = useLocation();
   const { isMobileOrTablet } = useResponsive();
   const { confirm, confirmDialog } = useConfirm();
@@ -30,6 +35,7 @@ const SOPPage: React.FC = () => {
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   const [filterView, setFilterView] = useState<FilterView>('all');
   const [selectedDepartment, setSelectedDepartment] = useState<string>('all');
+  const [pendingSOPId, setPendingSOPId] = useState<string | null>(null);
 
   // Check if we should open the form or apply filters based on navigation state
   useEffect(() => {
@@ -50,11 +56,24 @@ const SOPPage: React.FC = () => {
       if (state.expandCategory) {
         setExpandedCategories(new Set([state.expandCategory]));
       }
+      if (state.openSOPId) {
+        setPendingSOPId(state.openSOPId);
+      }
       // Clear the state so it doesn't reapply on refresh
       window.history.replaceState({}, document.title);
     }
   }, [location]);
 
+  // Open an SOP linked from elsewhere (e.g. sign-off alerts) once SOPs have loaded
+  useEffect(() => {
+    if (!pendingSOPId) return;
+    const target = sops.find(s => s.id === pendingSOPId);
+    if (target) {
+      setViewingSOP(target);
+      setPendingSOPId(null);
+    }
+  }, [pendingSOPId, sops]);
+
   // Memoized callbacks - must be defined before any early returns to follow hooks rules
   const handleEdit = useCallback((sop: SOP) => {
     setEditingSOP(sop);
@@ -123,9 +142,10 @@ const SOPPage: React.FC = () => {
     return <SOPPageSkeleton isMobile={isMobileOrTablet} />;
   }
 
-  // Split SOPs into templates and non-templates
-  const templates = sops.filter(sop => sop.isTemplate);
-  const nonTemplateSOPs = sops.filter(sop => !sop.isTemplate);
+  // Split SOPs into templates and non-templates, within the switcher's department
+  const departmentSOPs = sops.filter(sop => inActiveDepartment(getSOPDepartments(sop)));
+  const templates = departmentSOPs.filter(sop => sop.isTemplate);
+  const nonTemplateSOPs = departmentSOPs.filter(sop => !sop.isTemplate);
 
   // Get the current list based on view mode
   const currentList = viewMode === 'templates' ? templates : nonTemplateSOPs;
@@ -139,6 +159,7 @@ const SOPPage: React.FC = () => {
     all: nonTemplateSOPs.filter(s => s.status !== 'archived').length,
     published: nonTemplateSOPs.filter(s => s.status === 'published').length,
     draft: nonTemplateSOPs.filter(s => s.status === 'draft').length,
+    in_review: nonTemplateSOPs.filter(s => s.status === 'in_review').length,
     archived: nonTemplateSOPs.filter(s => s.status === 'archived').length,
   };
 
@@ -165,6 +186,7 @@ const SOPPage: React.FC = () => {
       (filterView === 'all' && sop.status !== 'archived') ||
       (filterView === 'published' && sop.status === 'published') ||
       (filterView === 'draft' && sop.status === 'draft') ||
+      (filterView === 'in_review' && sop.status === 'in_review') ||
       (filterView === 'archived' && sop.status === 'archived');
 
     return matchesDepartment && matchesSearch && matchesFilter;
@@ -279,7 +301,7 @@ const SOPPage: React.FC = () => {
               : 'Step-by-step procedures for equipment setup and operations'}
           </p>
         </div>
-        {isAdmin && (
+        {canManageSOPs && (
           <div style={isMobileOrTablet ? styles.headerButtonsMobile : styles.headerButtons}>
             <button
               onClick={() => setShowImport(true)}
@@ -404,6 +426,16 @@ const SOPPage: React.FC = () => {
             <span>Drafts</span>
             <span style={styles.filterCount}>{filterCounts.draft}</span>
           </button>
+          <button
+            onClick={() => setFilterView('in_review')}
+            style={{
+              ...(isMobileOrTablet ? styles.filterTabMobile : styles.filterTab),
+              ...(filterView === 'in_review' ? styles.filterTabActive : {}),
+            }}
+          >
+            <span>In Review</span>
+            <span style={styles.filterCount}>{filterCounts.in_review}</span>
+          </button>
           <button
             onClick={() => setFilterView('archived')}
             style={{
@@ -478,7 +510,7 @@ const SOPPage: React.FC = () => {
               ? 'Create your first template to reuse across your organization.'
               : 'Create your first SOP to help your team follow standardized procedures.'}
           </p>
-          {!searchTerm && isAdmin && (
+          {!searchTerm && canManageSOPs && (
             <button onClick={() => setShowForm(true)} style={styles.emptyButton}>
               Create First {viewMode === 'templates' ? 'Template' : 'SOP'}
             </button>
@@ -521,7 +553,8 @@ const SOPPage: React.FC = () => {
                       key={item.id}
                       item={item}
                       isMobileOrTablet={isMobileOrTablet}
-                      isAdmin={isAdmin}
+                      canEdit={hasPermission('manage_sops', item.department)}
+                      awaitingMyReview={!!currentUser && getPendingReviewers(item).includes(currentUser.id)}
                       getIcon={getIcon}
                       onView={handleView}
                       onEdit={handleEdit}
@@ -546,7 +579,8 @@ const SOPPage: React.FC = () => {
 interface SOPCardProps {
   item: SOP;
   isMobileOrTablet: boolean;
-  isAdmin: boolean;
+  canEdit: boolean; // Edit, delete and use as a template
+  awaitingMyReview: boolean;
   getIcon: (iconName?: IconName) => React.ReactNode;
   onView: (sop: SOP) => void;
   onEdit: (sop: SOP) => void;
@@ -558,7 +592,8 @@ interface SOPCardProps {
 const SOPCard: React.FC<SOPCardProps> = memo(({
   item,
   isMobileOrTablet,
-  isAdmin,
+  canEdit,
+  awaitingMyReview,
   getIcon,
   onView,
   onEdit,
@@ -577,6 +612,14 @@ const SOPCard: React.FC<SOPCardProps> = memo(({
           {!item.isTemplate && item.status === 'draft' && (
             <span style={styles.draftBadge}>Draft</span>
           )}
+          {!item.isTemplate && item.status === 'in_review' && item.review && (
+            <span style={styles.inReviewBadge}>
+              In Review · {countApprovals(item)}/{item.review.requiredApprovals}
+            </span>
+          )}
+          {awaitingMyReview && (
+            <span style={styles.awaitingReviewBadge}>Needs your review</span>
+          )}
           {!item.isTemplate && item.status === 'archived' && (
             <span style={styles.archivedBadge}>Archived</span>
           )}
@@ -614,7 +657,7 @@ const SOPCard: React.FC<SOPCardProps> = memo(({
           View
         </button>
 
-        {item.isTemplate && (
+        {canEdit && item.isTemplate && (
           <button onClick={() => onUseTemplate(item.id)} style={isMobileOrTablet ? styles.templateButtonMobile : styles.templateButton}>
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <path d="M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2" />
@@ -624,7 +667,7 @@ const SOPCard: React.FC<SOPCardProps> = memo(({
           </button>
         )}
 
-        {isAdmin && (
+        {canEdit && (
           <button onClick={() => onEdit(item)} style={isMobileOrTablet ? styles.editButtonMobile : styles.editButton}>
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7" />
@@ -634,7 +677,7 @@ const SOPCard: React.FC<SOPCardProps> = memo(({
           </button>
         )}
 
-        {isAdmin && item.status !== 'archived' && (
+        {canEdit && item.status !== 'archived' && (
           <button onClick={() => onDelete(item.id)} style={isMobileOrTablet ? styles.deleteButtonMobile : styles.deleteButton}>
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <polyline points="3 6 5 6 21 6" />
@@ -644,7 +687,7 @@ const SOPCard: React.FC<SOPCardProps> = memo(({
           </button>
         )}
 
-        {isAdmin && item.status === 'archived' && (
+        {canEdit && item.status === 'archived' && (
           <button onClick={() => onDeleteForever(item.id)} style={isMobileOrTablet ? styles.deleteForeverButtonMobile : styles.deleteForeverButton}>
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <polyline points="3 6 5 6 21 6" />
@@ -1247,6 +1290,26 @@ const styles: { [key: string]: React.CSSProperties } = {
     textTransform: 'uppercase',
     letterSpacing: '0.5px',
   },
+  inReviewBadge: {
+    fontSize: '10px',
+    fontWeight: '700',
+    padding: '4px 8px',
+    backgroundColor: `${theme.colors.role.admin}20`,
+    color: theme.colors.role.admin,
+    borderRadius: theme.borderRadius.sm,
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  awaitingReviewBadge: {
+    fontSize: '10px',
+    fontWeight: '700',
+    padding: '4px 8px',
+    backgroundColor: `${theme.colors.primary}20`,
+    color: theme.colors.primary,
+    borderRadius: theme.borderRadius.sm,
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
   archivedBadge: {
     fontSize: '10px',
     fontWeight: '700',
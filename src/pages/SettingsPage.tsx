@@ -1,16 +1,26 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useSOPs } from '../contexts/SOPContext';
 import { useTask } from '../contexts/TaskContext';
 import { useToast } from '../contexts/ToastContext';
 import { useTheme, useThemeColors } from '../contexts/ThemeContext';
+import { useTimeZone } from '../contexts/TimeZoneContext';
 import { theme } from '../theme';
 import { useResponsive } from '../hooks/useResponsive';
-import { FormButton } from '../components/FormComponents';
+import { useStepUp } from '../hooks/useStepUp';
+import { FormButton, FormSelect } from '../components/FormComponents';
 import GoogleCalendarConnect from '../components/GoogleCalendarConnect';
 import DataIntegrityPanel from '../components/DataIntegrityPanel';
 import DashboardSettingsModal from '../components/DashboardSettingsModal';
+import PushDeviceSettings from '../components/PushDeviceSettings';
+import EmailTemplateSettings from '../components/EmailTemplateSettings';
+import RoleSettings from '../components/RoleSettings';
+import DepartmentSettings from '../components/DepartmentSettings';
+import LoginMethodSettings from '../components/LoginMethodSettings';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { AppNotificationType } from '../types';
+import { NOTIFICATION_TYPE_LABELS } from '../utils/activityNotifications';
+import { formatTimeZoneLabel, getTimeZoneOptions, getTodayKey } from '../utils/dateTime';
 
 interface ToggleSwitchProps {
   checked: boolean;
@@ -69,10 +79,16 @@ const SettingsPage: React.FC = () => {
   const { jobTasks, taskTemplates } = useTask();
   const { showToast } = useToast();
   const { isMobileOrTablet } = useResponsive();
+  const { stepUp, stepUpDialog } = useStepUp();
   const { isDark, toggleTheme } = useTheme();
   const colors = useThemeColors();
+  const { timeZone, organizationTimeZone, setOrganizationTimeZone } = useTimeZone();
 
   const [loading, setLoading] = useState(false);
+  const [userTimeZone, setUserTimeZone] = useState(currentUser?.timeZone || '');
+  const [orgTimeZone, setOrgTimeZone] = useState(organizationTimeZone);
+  const [savingTimeZone, setSavingTimeZone] = useState(false);
+  const [savingOrgTimeZone, setSavingOrgTimeZone] = useState(false);
   const [exportingJSON, setExportingJSON] = useState(false);
   const [exportingCSV, setExportingCSV] = useState(false);
   const [clearingData, setClearingData] = useState(false);
@@ -86,6 +102,9 @@ const SettingsPage: React.FC = () => {
   const [emailEnabled, setEmailEnabled] = useState(
     currentUser?.notificationPreferences?.emailEnabled ?? true
   );
+  const [dailyDigest, setDailyDigest] = useState(
+    currentUser?.notificationPreferences?.dailyDigest ?? true
+  );
   const [taskReminders, setTaskReminders] = useState(
     currentUser?.notificationPreferences?.taskReminders ?? true
   );
@@ -95,6 +114,15 @@ const SettingsPage: React.FC = () => {
   const [calendarSync, setCalendarSync] = useState(
     currentUser?.notificationPreferences?.calendarSyncEnabled ?? false
   );
+  const [mutedNotificationTypes, setMutedNotificationTypes] = useState<AppNotificationType[]>(
+    currentUser?.notificationPreferences?.mutedNotificationTypes ?? []
+  );
+
+  const toggleNotificationType = (type: AppNotificationType, enabled: boolean) => {
+    setMutedNotificationTypes(prev =>
+      enabled ? prev.filter(muted => muted !== type) : [...prev, type]
+    );
+  };
 
   // App settings
   const [compactMode, setCompactMode] = useState(false);
@@ -147,7 +175,7 @@ const SettingsPage: React.FC = () => {
 
       const link = document.createElement('a');
       link.href = url;
-      link.download = `didc-sops-backup-${new Date().toISOString().split('T')[0]}.json`;
+      link.download = `didc-sops-backup-${getTodayKey(timeZone)}.json`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -222,7 +250,7 @@ const SettingsPage: React.FC = () => {
 
       const link = document.createElement('a');
       link.href = url;
-      link.download = `didc-sops-export-${new Date().toISOString().split('T')[0]}.csv`;
+      link.download = `didc-sops-export-${getTodayKey(timeZone)}.csv`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -238,38 +266,18 @@ const SettingsPage: React.FC = () => {
   };
 
   const handleClearAllData = async () => {
+    if (!(await stepUp('delete all SOPs and tasks'))) return;
+
     setClearingData(true);
     try {
-      // Clear from Supabase if configured
+      // Clear from Supabase if configured. One call, so the database
+      // can check the step-up (migration v25)
       if (isSupabaseConfigured() && supabase) {
-        // Delete all SOPs
-        const { error: sopsError } = await supabase
-          .from('sops')
-          .delete()
-          .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all (neq with impossible ID)
-
-        if (sopsError) {
-          console.error('Error clearing SOPs from Supabase:', sopsError);
-        }
-
-        // Delete all job tasks
-        const { error: tasksError } = await supabase
-          .from('job_tasks')
-          .delete()
-          .neq('id', '00000000-0000-0000-0000-000000000000');
+        const { error: clearError } = await supabase.rpc('clear_all_data');
 
-        if (tasksError) {
-          console.error('Error clearing tasks from Supabase:', tasksError);
-        }
-
-        // Delete all task templates
-        const { error: templatesError } = await supabase
-          .from('task_templates')
-          .delete()
-          .neq('id', '00000000-0000-0000-0000-000000000000');
-
-        if (templatesError) {
-          console.error('Error clearing task templates from Supabase:', templatesError);
+        if (clearError) {
+          console.error('Error clearing data from Supabase:', clearError);
+          throw clearError;
         }
       }
 
@@ -293,6 +301,46 @@ const SettingsPage: React.FC = () => {
     }
   };
 
+  // Settings load after the page can mount; keep the pickers on the saved values
+  useEffect(() => {
+    setUserTimeZone(currentUser?.timeZone || '');
+  }, [currentUser?.timeZone]);
+
+  useEffect(() => {
+    setOrgTimeZone(organizationTimeZone);
+  }, [organizationTimeZone]);
+
+  const timeZoneOptions = useMemo(
+    () => getTimeZoneOptions().map(zone => ({ value: zone, label: formatTimeZoneLabel(zone) })),
+    []
+  );
+
+  const handleSaveTimeZone = async () => {
+    if (!currentUser) return;
+
+    setSavingTimeZone(true);
+    try {
+      await updateUser(currentUser.id, { timeZone: userTimeZone });
+      showToast('Time zone saved', 'success');
+    } catch (error) {
+      showToast('Failed to save time zone', 'error');
+    } finally {
+      setSavingTimeZone(false);
+    }
+  };
+
+  const handleSaveOrgTimeZone = async () => {
+    setSavingOrgTimeZone(true);
+    try {
+      await setOrganizationTimeZone(orgTimeZone);
+      showToast('Organization time zone saved', 'success');
+    } catch (error) {
+      showToast('Failed to save organization time zone', 'error');
+    } finally {
+      setSavingOrgTimeZone(false);
+    }
+  };
+
   const handleSaveNotifications = async () => {
     if (!currentUser) return;
 
@@ -302,9 +350,11 @@ const SettingsPage: React.FC = () => {
         notificationPreferences: {
           pushEnabled,
           emailEnabled,
+          dailyDigest,
           taskReminders,
           overdueAlerts,
           calendarSyncEnabled: calendarSync,
+          mutedNotificationTypes,
         },
       });
       showToast('Notification settings saved', 'success');
@@ -349,24 +399,46 @@ const SettingsPage: React.FC = () => {
               <div style={styles.settingInfo}>
                 <span style={styles.settingLabel}>Push Notifications</span>
                 <span style={styles.settingDescription}>
-                  Receive notifications in your browser
+                  Receive reminders and alerts on your devices
                 </span>
               </div>
               <ToggleSwitch checked={pushEnabled} onChange={setPushEnabled} />
             </div>
 
+            {pushEnabled && (
+              <div style={styles.pushDevices}>
+                <PushDeviceSettings userId={currentUser.id} />
+              </div>
+            )}
+
             <div style={styles.divider} />
 
             <div style={styles.settingItem}>
               <div style={styles.settingInfo}>
                 <span style={styles.settingLabel}>Email Notifications</span>
                 <span style={styles.settingDescription}>
-                  Receive updates via email
+                  Receive task assignments, overdue alerts and event reminders by email
                 </span>
               </div>
               <ToggleSwitch checked={emailEnabled} onChange={setEmailEnabled} />
             </div>
 
+            {emailEnabled && (
+              <>
+                <div style={styles.divider} />
+
+                <div style={styles.settingItem}>
+                  <div style={styles.settingInfo}>
+                    <span style={styles.settingLabel}>Daily Digest</span>
+                    <span style={styles.settingDescription}>
+                      A morning email with the day's tasks and schedule
+                    </span>
+                  </div>
+                  <ToggleSwitch checked={dailyDigest} onChange={setDailyDigest} />
+                </div>
+              </>
+            )}
+
             <div style={styles.divider} />
 
             <div style={styles.settingItem}>
@@ -390,6 +462,30 @@ const SettingsPage: React.FC = () => {
               </div>
               <ToggleSwitch checked={overdueAlerts} onChange={setOverdueAlerts} />
             </div>
+
+            <div style={styles.divider} />
+
+            <div style={styles.settingGroupHeader}>
+              <span style={styles.settingLabel}>Notification Center</span>
+              <span style={styles.settingDescription}>
+                Choose what shows up under the bell
+              </span>
+            </div>
+
+            {(Object.keys(NOTIFICATION_TYPE_LABELS) as AppNotificationType[]).map(type => (
+              <div key={type} style={styles.settingItem}>
+                <div style={styles.settingInfo}>
+                  <span style={styles.settingLabel}>{NOTIFICATION_TYPE_LABELS[type].label}</span>
+                  <span style={styles.settingDescription}>
+                    {NOTIFICATION_TYPE_LABELS[type].description}
+                  </span>
+                </div>
+                <ToggleSwitch
+                  checked={!mutedNotificationTypes.includes(type)}
+                  onChange={(enabled) => toggleNotificationType(type, enabled)}
+                />
+              </div>
+            ))}
           </div>
 
           <div style={styles.cardFooter}>
@@ -403,6 +499,41 @@ const SettingsPage: React.FC = () => {
           </div>
         </div>
 
+        {/* Time Zone Card */}
+        <div className="card-hover-subtle" style={styles.card}>
+          <div style={styles.cardHeader}>
+            <h3 style={styles.cardTitle}>
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="12" cy="12" r="10" />
+                <polyline points="12 6 12 12 16 14" />
+              </svg>
+              Time Zone
+            </h3>
+          </div>
+
+          <FormSelect
+            label="Your time zone"
+            value={userTimeZone}
+            onChange={(e) => setUserTimeZone(e.target.value)}
+            options={[
+              { value: '', label: `Organization default - ${formatTimeZoneLabel(organizationTimeZone)}` },
+              ...timeZoneOptions,
+            ]}
+            helperText="Due dates, overdue alerts and calendar times follow this zone"
+          />
+
+          <div style={styles.cardFooter}>
+            <FormButton
+              variant="primary"
+              onClick={handleSaveTimeZone}
+              loading={savingTimeZone}
+              disabled={userTimeZone === (currentUser.timeZone || '')}
+            >
+              Save Time Zone
+            </FormButton>
+          </div>
+        </div>
+
         {/* Integrations Card */}
         <div className="card-hover-subtle" style={styles.card}>
           <div style={styles.cardHeader}>
@@ -637,6 +768,110 @@ const SettingsPage: React.FC = () => {
               <span style={styles.adminBadge}>Admin Only</span>
             </div>
 
+            {/* Organization Time Zone Card */}
+            <div className="card-hover-subtle" style={styles.card}>
+              <div style={styles.cardHeader}>
+                <h3 style={styles.cardTitle}>
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <circle cx="12" cy="12" r="10" />
+                    <line x1="2" y1="12" x2="22" y2="12" />
+                    <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z" />
+                  </svg>
+                  Organization Time Zone
+                </h3>
+              </div>
+
+              <FormSelect
+                value={orgTimeZone}
+                onChange={(e) => setOrgTimeZone(e.target.value)}
+                options={timeZoneOptions}
+              />
+
+              <div style={{ ...styles.securityNote, marginTop: '16px' }}>
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke={theme.colors.status.info} strokeWidth="2">
+                  <circle cx="12" cy="12" r="10" />
+                  <line x1="12" y1="16" x2="12" y2="12" />
+                  <line x1="12" y1="8" x2="12.01" y2="8" />
+                </svg>
+                <span>Task dates and times are scheduled in this zone. Team members can pick their own zone above.</span>
+              </div>
+
+              <div style={styles.cardFooter}>
+                <FormButton
+                  variant="primary"
+                  onClick={handleSaveOrgTimeZone}
+                  loading={savingOrgTimeZone}
+                  disabled={orgTimeZone === organizationTimeZone}
+                >
+                  Save Organization Time Zone
+                </FormButton>
+              </div>
+            </div>
+
+            {/* Email Templates Card */}
+            <div className="card-hover-subtle" style={styles.card}>
+              <div style={styles.cardHeader}>
+                <h3 style={styles.cardTitle}>
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M4 4h16c1.1 0 2 .9 2 2v12c0 1.1-.9 2-2 2H4c-1.1 0-2-.9-2-2V6c0-1.1.9-2 2-2z" />
+                    <polyline points="22,6 12,13 2,6" />
+                  </svg>
+                  Email Templates
+                </h3>
+              </div>
+
+              <EmailTemplateSettings userId={currentUser.id} />
+            </div>
+
+            {/* Roles & Permissions Card */}
+            <div className="card-hover-subtle" style={styles.card}>
+              <div style={styles.cardHeader}>
+                <h3 style={styles.cardTitle}>
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2" />
+                    <circle cx="9" cy="7" r="4" />
+                    <polyline points="16 11 18 13 22 9" />
+                  </svg>
+                  Roles &amp; Permissions
+                </h3>
+              </div>
+
+              <RoleSettings />
+            </div>
+
+            {/* Departments Card */}
+            <div className="card-hover-subtle" style={styles.card}>
+              <div style={styles.cardHeader}>
+                <h3 style={styles.cardTitle}>
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <rect x="3" y="3" width="7" height="7" />
+                    <rect x="14" y="3" width="7" height="7" />
+                    <rect x="14" y="14" width="7" height="7" />
+                    <rect x="3" y="14" width="7" height="7" />
+                  </svg>
+                  Departments
+                </h3>
+              </div>
+
+              <DepartmentSettings />
+            </div>
+
+            {/* Sign-In Methods Card */}
+            <div className="card-hover-subtle" style={styles.card}>
+              <div style={styles.cardHeader}>
+                <h3 style={styles.cardTitle}>
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M15 3h4a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2h-4" />
+                    <polyline points="10 17 15 12 10 7" />
+                    <line x1="15" y1="12" x2="3" y2="12" />
+                  </svg>
+                  Sign-In Methods
+                </h3>
+              </div>
+
+              <LoginMethodSettings userId={currentUser.id} />
+            </div>
+
             {/* Data Export Card */}
             <div className="card-hover-subtle" style={styles.card}>
               <div style={styles.cardHeader}>
@@ -776,6 +1011,8 @@ const SettingsPage: React.FC = () => {
           </div>
         )}
       </div>
+
+      {stepUpDialog}
     </div>
   );
 };
@@ -849,6 +1086,16 @@ const styles: { [key: string]: React.CSSProperties } = {
     height: '1px',
     backgroundColor: theme.colors.bdr.primary,
   },
+  pushDevices: {
+    paddingBottom: '12px',
+  },
+  settingGroupHeader: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    paddingTop: '16px',
+    paddingBottom: '4px',
+  },
   integrationSection: {
     marginBottom: '16px',
   },
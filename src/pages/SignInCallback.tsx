@@ -0,0 +1,155 @@
+/**
+ * Sign-In Callback Page
+ * Where sign-in links and single sign-on return to. Supabase reads the
+ * session from the URL; this page checks it against the login settings and
+ * sends the person on to their dashboard.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { theme } from '../theme';
+
+// The identity provider or the signup trigger turned the sign-in down
+const getRedirectError = (): string | null => {
+  const query = new URLSearchParams(window.location.search);
+  const hash = new URLSearchParams(window.location.hash.slice(1));
+  const description = query.get('error_description') || hash.get('error_description');
+  const error = query.get('error') || hash.get('error');
+  if (!description && !error) return null;
+
+  // Raised by handle_new_user (migration v24) for domains that may not join
+  if (description?.includes('Database error saving new user')) {
+    return 'We could not create your account. Sign in with your work account, or ask an admin for an invite.';
+  }
+  if (error === 'access_denied') {
+    return 'Sign-in was cancelled or the link has expired. Please try again.';
+  }
+  return description || `Sign-in error: ${error}`;
+};
+
+const SignInCallback: React.FC = () => {
+  const navigate = useNavigate();
+  const { completeSignIn } = useAuth();
+  const [errorMessage, setErrorMessage] = useState('');
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    // Once only: a second run would log the sign-in twice
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    const redirectError = getRedirectError();
+    if (redirectError) {
+      setErrorMessage(redirectError);
+      return;
+    }
+
+    completeSignIn().then(result => {
+      if (result.success) {
+        navigate('/dashboard', { replace: true });
+      } else {
+        setErrorMessage(result.error || 'Sign-in failed. Please try again.');
+      }
+    });
+  }, [completeSignIn, navigate]);
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        {!errorMessage ? (
+          <>
+            <div style={styles.spinner} />
+            <h2 style={styles.title}>Signing you in</h2>
+            <p style={styles.message}>Please wait a moment...</p>
+          </>
+        ) : (
+          <>
+            <div style={styles.errorIcon}>
+              <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke={theme.colors.status.error} strokeWidth="2">
+                <circle cx="12" cy="12" r="10" />
+                <line x1="15" y1="9" x2="9" y2="15" />
+                <line x1="9" y1="9" x2="15" y2="15" />
+              </svg>
+            </div>
+            <h2 style={styles.title}>Could not sign you in</h2>
+            <p style={styles.errorMessage}>{errorMessage}</p>
+            <Link to="/login" replace style={styles.button}>
+              Back to Sign In
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: '100vh',
+    backgroundColor: theme.colors.background,
+    padding: '20px',
+  },
+  card: {
+    backgroundColor: theme.colors.backgroundLight,
+    borderRadius: theme.borderRadius.lg,
+    padding: '48px',
+    textAlign: 'center',
+    maxWidth: '400px',
+    width: '100%',
+    boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+  },
+  spinner: {
+    width: '48px',
+    height: '48px',
+    border: `4px solid ${theme.colors.border}`,
+    borderTopColor: theme.colors.primary,
+    borderRadius: '50%',
+    animation: 'spin 1s linear infinite',
+    margin: '0 auto 24px',
+  },
+  errorIcon: {
+    marginBottom: '24px',
+  },
+  title: {
+    fontSize: '24px',
+    fontWeight: 700,
+    color: theme.colors.textPrimary,
+    marginBottom: '12px',
+  },
+  message: {
+    fontSize: '16px',
+    color: theme.colors.textSecondary,
+    lineHeight: 1.5,
+  },
+  errorMessage: {
+    fontSize: '16px',
+    color: theme.colors.status.error,
+    lineHeight: 1.5,
+    marginBottom: '24px',
+  },
+  button: {
+    display: 'inline-block',
+    backgroundColor: theme.colors.primary,
+    color: '#FFFFFF',
+    borderRadius: theme.borderRadius.md,
+    padding: '12px 24px',
+    fontSize: '16px',
+    fontWeight: 600,
+    textDecoration: 'none',
+  },
+};
+
+// Add keyframes for spinner animation
+const styleSheet = document.createElement('style');
+styleSheet.textContent = `
+  @keyframes spin {
+    to { transform: rotate(360deg); }
+  }
+`;
+document.head.appendChild(styleSheet);
+
+export default SignInCallback;
@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router';
+import React, { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router';
 import { useTask } from '../contexts/TaskContext';
+import { useDepartments } from '../contexts/DepartmentContext';
 import { TaskTemplate } from '../types';
 import { theme } from '../theme';
 import { useResponsive } from '../hooks/useResponsive';
@@ -10,7 +11,9 @@ import { useConfirm } from '../hooks/useConfirm';
 
 const TaskLibraryPage: React.FC = () => {
   const navigate = useNavigate();
-  const { taskTemplates, deleteTaskTemplate } = useTask();
+  const location = useLocation();
+  const { taskTemplates: allTemplates, deleteTaskTemplate } = useTask();
+  const { inActiveDepartment } = useDepartments();
   const { isMobile, isMobileOrTablet } = useResponsive();
   const { showToast } = useToast();
   const { confirm, confirmDialog } = useConfirm();
@@ -19,6 +22,21 @@ const TaskLibraryPage: React.FC = () => {
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   const [showImportModal, setShowImportModal] = useState(false);
 
+  // Apply a search handed over from the global search palette
+  useEffect(() => {
+    const state = location.state as { searchQuery?: string; expandCategory?: string } | null;
+    if (state?.searchQuery) {
+      setSearchQuery(state.searchQuery);
+      if (state.expandCategory) {
+        setExpandedCategories(new Set([state.expandCategory]));
+      }
+      window.history.replaceState({}, document.title);
+    }
+  }, [location.state]);
+
+  // Templates within the switcher's department
+  const taskTemplates = allTemplates.filter(template => inActiveDepartment(template.department));
+
   // Get unique departments and categories
   const departments = Array.from(new Set(taskTemplates.map(t => t.department))).sort();
   const categories = Array.from(new Set(taskTemplates.map(t => t.category)));
@@ -3,34 +3,57 @@ import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { useResponsive } from '../hooks/useResponsive';
 import { theme } from '../theme';
-import { User, UserRole } from '../types';
-import { DEFAULT_DEPARTMENTS, USER_ROLES, SUCCESS_MESSAGES, ERROR_MESSAGES } from '../constants';
+import { Invite, User, UserRole } from '../types';
+import { ERROR_MESSAGES } from '../constants';
 import { isSupabaseConfigured } from '../lib/supabase';
 import { useConfirm } from '../hooks/useConfirm';
+import { useStepUp } from '../hooks/useStepUp';
+import { useSOPs } from '../contexts/SOPContext';
+import { useDepartments } from '../contexts/DepartmentContext';
+import { useQuizzes } from '../contexts/QuizContext';
+import { getCertification, getUserCertifications, hasQuiz } from '../utils/sopQuiz';
+import { getRoleName } from '../utils/permissions';
+import { getInviteStatus, getInviteUrl } from '../services/invites';
+import { formatDateValue } from '../utils/dateTime';
+import { getUserDepartments, isDepartmentMember } from '../utils/departments';
+import CertificationList from '../components/CertificationList';
+import { Modal } from '../components/ui';
 
 const TeamManagementPage: React.FC = () => {
-  const { users, addUser, updateUser, deleteUser, currentUser } = useAuth();
+  const { users, roles, invites, inviteUser, resendInvite, revokeInvite, updateUser, deleteUser, currentUser } = useAuth();
   const { success, error } = useToast();
-  const { isMobile, isTablet, isMobileOrTablet } = useResponsive();
+  const { isMobile, isMobileOrTablet } = useResponsive();
   const { confirm, confirmDialog } = useConfirm();
+  const { stepUp, stepUpDialog } = useStepUp();
+  const { sops } = useSOPs();
+  const { attempts } = useQuizzes();
+  const { departmentNames: departments } = useDepartments();
 
   const [searchTerm, setSearchTerm] = useState('');
   const [filterRole, setFilterRole] = useState<UserRole | 'all'>('all');
   const [filterDepartment, setFilterDepartment] = useState<string>('all');
   const [showAddUserModal, setShowAddUserModal] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [filterTrainedOn, setFilterTrainedOn] = useState<string>('all');
+  const [trainingUser, setTrainingUser] = useState<User | null>(null);
 
   // Form state for new/edit user
   const [formData, setFormData] = useState({
     email: '',
-    password: '',
     firstName: '',
     lastName: '',
     role: 'team' as UserRole,
+    roleId: '', // Custom role of a team member
     department: '',
+    departments: [] as string[], // Other departments besides the primary one
     isActive: true,
   });
 
+  // Published SOPs with a knowledge check (for the "trained on" filter)
+  const quizSOPs = sops
+    .filter(sop => sop.status === 'published' && !sop.isTemplate && hasQuiz(sop))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
   // Get active users (exclude soft-deleted)
   const activeUsers = users.filter(u => u.isActive !== false);
 
@@ -42,22 +65,25 @@ const TeamManagementPage: React.FC = () => {
       user.lastName.toLowerCase().includes(searchTerm.toLowerCase());
 
     const matchesRole = filterRole === 'all' || user.role === filterRole;
-    const matchesDepartment = filterDepartment === 'all' || user.department === filterDepartment;
+    const matchesDepartment = filterDepartment === 'all' || isDepartmentMember(user, filterDepartment);
+    const trainedOnSOP = quizSOPs.find(sop => sop.id === filterTrainedOn);
+    const matchesTraining = !trainedOnSOP || getCertification(trainedOnSOP, user.id, attempts).status === 'certified';
 
-    return matchesSearch && matchesRole && matchesDepartment;
+    return matchesSearch && matchesRole && matchesDepartment && matchesTraining;
   });
 
-  // Get unique departments from users
-  const departments = Array.from(new Set([...DEFAULT_DEPARTMENTS, ...users.map(u => u.department)]));
+  const getCertifiedCount = (userId: string) =>
+    getUserCertifications(sops, userId, attempts).filter(c => c.status === 'certified').length;
 
   const resetForm = () => {
     setFormData({
       email: '',
-      password: '',
       firstName: '',
       lastName: '',
       role: 'team',
+      roleId: '',
       department: '',
+      departments: [],
       isActive: true,
     });
     setEditingUser(null);
@@ -72,11 +98,12 @@ const TeamManagementPage: React.FC = () => {
     setEditingUser(user);
     setFormData({
       email: user.email,
-      password: '', // Don't show existing password
       firstName: user.firstName,
       lastName: user.lastName,
       role: user.role,
+      roleId: user.roleId || '',
       department: user.department,
+      departments: user.departments || [],
       isActive: user.isActive ?? true,
     });
     setShowAddUserModal(true);
@@ -98,11 +125,6 @@ const TeamManagementPage: React.FC = () => {
       return false;
     }
 
-    if (!editingUser && formData.password.length < 8) {
-      error(ERROR_MESSAGES.INVALID_PASSWORD);
-      return false;
-    }
-
     // Check if email already exists (for new users or different user)
     const emailExists = users.find(
       u => u.email.toLowerCase() === formData.email.toLowerCase() && u.id !== editingUser?.id
@@ -126,13 +148,21 @@ const TeamManagementPage: React.FC = () => {
 
     try {
       if (editingUser) {
+        // Role changes and deactivation need a fresh two-factor code
+        const changesAccess = formData.role !== editingUser.role
+          || (formData.roleId || undefined) !== editingUser.roleId
+          || (!formData.isActive && editingUser.isActive !== false);
+        if (changesAccess && !(await stepUp(`change ${editingUser.firstName}'s access`))) return;
+
         // Update existing user
         const updateData: Partial<User> = {
           email: formData.email,
           firstName: formData.firstName,
           lastName: formData.lastName,
           role: formData.role,
+          roleId: formData.roleId || undefined,
           department: formData.department,
+          departments: formData.departments.filter(d => d !== formData.department),
           isActive: formData.isActive,
         };
 
@@ -142,35 +172,23 @@ const TeamManagementPage: React.FC = () => {
         success('User updated successfully');
         handleCloseModal();
       } else {
-        // Add new user
-        const result = await addUser({
+        // Invite: they choose their own password from the emailed link
+        const invite = await inviteUser({
           email: formData.email,
-          password: formData.password,
           firstName: formData.firstName,
           lastName: formData.lastName,
           role: formData.role,
+          roleId: formData.roleId || undefined,
           department: formData.department,
-          isActive: true,
-          invitedBy: currentUser?.id,
-          notificationPreferences: {
-            pushEnabled: true,
-            emailEnabled: true,
-            calendarSyncEnabled: false,
-            taskReminders: true,
-            overdueAlerts: true,
-          },
+          departments: formData.departments.filter(d => d !== formData.department),
         });
 
-        if (result.success) {
-          if (result.requiresEmailConfirmation) {
-            success('User created! They will receive an email to confirm their account before they can log in.');
-          } else {
-            success('User created successfully');
-          }
-          handleCloseModal();
+        if (isSupabaseConfigured()) {
+          success(`Invitation on its way to ${invite.email}`);
         } else {
-          error(result.error || 'Failed to create user');
+          await copyInviteLink(invite);
         }
+        handleCloseModal();
       }
     } catch (err: any) {
       error(err.message || 'An error occurred');
@@ -179,6 +197,47 @@ const TeamManagementPage: React.FC = () => {
     }
   };
 
+  // Pending and expired invites; accepted ones show up as users
+  const openInvites = invites.filter(invite => ['pending', 'expired'].includes(getInviteStatus(invite)));
+
+  const copyInviteLink = async (invite: Invite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(invite.token));
+      success(`Invite link for ${invite.firstName} copied`);
+    } catch {
+      error('Could not copy the invite link');
+    }
+  };
+
+  const handleResendInvite = async (invite: Invite) => {
+    try {
+      const renewed = await resendInvite(invite.id);
+      if (isSupabaseConfigured()) {
+        success(`New invite link on its way to ${renewed.email}`);
+      } else {
+        await copyInviteLink(renewed);
+      }
+    } catch (err: any) {
+      error(err.message || 'Failed to resend the invite');
+    }
+  };
+
+  const handleRevokeInvite = async (invite: Invite) => {
+    const confirmed = await confirm({
+      title: `Revoke the invite for ${invite.firstName} ${invite.lastName}?`,
+      message: 'The link they were sent will stop working.',
+      confirmLabel: 'Revoke',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+    try {
+      await revokeInvite(invite.id);
+      success('Invite revoked');
+    } catch (err: any) {
+      error(err.message || 'Failed to revoke the invite');
+    }
+  };
+
   const handleDeactivateUser = async (user: User) => {
     if (user.id === currentUser?.id) {
       error('You cannot deactivate your own account');
@@ -192,6 +251,7 @@ const TeamManagementPage: React.FC = () => {
       variant: 'warning',
     });
     if (!confirmed) return;
+    if (!(await stepUp(`deactivate ${user.firstName} ${user.lastName}`))) return;
     try {
       await updateUser(user.id, { isActive: false });
       success('User deactivated successfully');
@@ -222,6 +282,7 @@ const TeamManagementPage: React.FC = () => {
       variant: 'danger',
     });
     if (!confirmed) return;
+    if (!(await stepUp(`delete ${user.firstName} ${user.lastName}`))) return;
     try {
       await deleteUser(user.id);
       success('User deleted successfully');
@@ -267,7 +328,7 @@ const TeamManagementPage: React.FC = () => {
             <line x1="20" y1="8" x2="20" y2="14" />
             <line x1="23" y1="11" x2="17" y2="11" />
           </svg>
-          {isMobile ? 'Add Member' : 'Add Team Member'}
+          {isMobile ? 'Invite' : 'Invite Team Member'}
         </button>
       </div>
 
@@ -334,6 +395,28 @@ const TeamManagementPage: React.FC = () => {
             ))}
           </select>
         </div>
+
+        {quizSOPs.length > 0 && (
+          <div style={{
+            ...styles.filterGroup,
+            ...(isMobile && styles.filterGroupMobile),
+          }}>
+            <label style={styles.filterLabel}>Trained on:</label>
+            <select
+              value={filterTrainedOn}
+              onChange={(e) => setFilterTrainedOn(e.target.value)}
+              style={{
+                ...styles.filterSelect,
+                ...(isMobile && styles.filterSelectMobile),
+              }}
+            >
+              <option value="all">Any SOP</option>
+              {quizSOPs.map(sop => (
+                <option key={sop.id} value={sop.id}>{sop.title}</option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
       {/* Stats */}
@@ -359,6 +442,63 @@ const TeamManagementPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Pending Invites */}
+      {openInvites.length > 0 && (
+        <div style={{
+          ...styles.invitesCard,
+          ...(isMobile && styles.filtersCardMobile),
+        }}>
+          <h2 style={styles.invitesTitle}>Pending Invites</h2>
+          {openInvites.map(invite => {
+            const expired = getInviteStatus(invite) === 'expired';
+            return (
+              <div key={invite.id} style={{
+                ...styles.inviteRow,
+                ...(isMobile && styles.inviteRowMobile),
+              }}>
+                <div style={styles.inviteInfo}>
+                  <div style={styles.userName}>{invite.firstName} {invite.lastName}</div>
+                  <div style={styles.email}>
+                    {invite.email} · {invite.department} · {getRoleName(invite, roles)}
+                  </div>
+                </div>
+                <span style={{
+                  ...styles.badge,
+                  backgroundColor: (expired ? '#6B7280' : '#F59E0B') + '20',
+                  color: expired ? '#6B7280' : '#F59E0B',
+                }}>
+                  {expired
+                    ? 'Expired'
+                    : `${invite.emailSentAt || !isSupabaseConfigured() ? 'Sent' : 'Sending'} · expires ${formatDateValue(invite.expiresAt)}`}
+                </span>
+                <div style={styles.actionButtons}>
+                  {!expired && (
+                    <button onClick={() => copyInviteLink(invite)} style={styles.iconButton} title="Copy invite link">
+                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71" />
+                        <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71" />
+                      </svg>
+                    </button>
+                  )}
+                  <button onClick={() => handleResendInvite(invite)} style={styles.iconButton} title="Resend with a new link">
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <polyline points="23 4 23 10 17 10" />
+                      <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10" />
+                    </svg>
+                  </button>
+                  <button onClick={() => handleRevokeInvite(invite)} style={{...styles.iconButton, ...styles.dangerButton}} title="Revoke invite">
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <line x1="18" y1="6" x2="6" y2="18" />
+                      <line x1="6" y1="6" x2="18" y2="18" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Users Table/Cards */}
       {isMobileOrTablet ? (
         // Mobile Card View
@@ -400,12 +540,12 @@ const TeamManagementPage: React.FC = () => {
                       backgroundColor: getRoleBadgeColor(user.role) + '20',
                       color: getRoleBadgeColor(user.role),
                     }}>
-                      {user.role === 'admin' ? 'Admin' : 'Team Member'}
+                      {getRoleName(user, roles)}
                     </span>
                   </div>
                   <div style={styles.userCardRow}>
                     <span style={styles.userCardLabel}>Department:</span>
-                    <span style={styles.department}>{user.department}</span>
+                    <span style={styles.department}>{getUserDepartments(user).join(', ')}</span>
                   </div>
                   <div style={styles.userCardRow}>
                     <span style={styles.userCardLabel}>Status:</span>
@@ -417,6 +557,12 @@ const TeamManagementPage: React.FC = () => {
                       {user.isActive !== false ? 'Active' : 'Inactive'}
                     </span>
                   </div>
+                  <div style={styles.userCardRow}>
+                    <span style={styles.userCardLabel}>Training:</span>
+                    <button onClick={() => setTrainingUser(user)} style={styles.trainingButton}>
+                      {getCertifiedCount(user.id)} certified
+                    </button>
+                  </div>
                 </div>
                 <div style={styles.userCardFooter}>
                   <button
@@ -481,13 +627,14 @@ const TeamManagementPage: React.FC = () => {
                 <th style={styles.th}>Role</th>
                 <th style={styles.th}>Department</th>
                 <th style={styles.th}>Status</th>
+                <th style={styles.th}>Training</th>
                 <th style={styles.th}>Actions</th>
               </tr>
             </thead>
             <tbody>
               {filteredUsers.length === 0 ? (
                 <tr>
-                  <td colSpan={6} style={styles.emptyState}>
+                  <td colSpan={7} style={styles.emptyState}>
                     <svg width="48" height="48" viewBox="0 0 24 24" fill="none" style={{ stroke: theme.colors.textSecondary }} strokeWidth="2">
                       <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2" />
                       <circle cx="9" cy="7" r="4" />
@@ -524,11 +671,11 @@ const TeamManagementPage: React.FC = () => {
                         backgroundColor: getRoleBadgeColor(user.role) + '20',
                         color: getRoleBadgeColor(user.role),
                       }}>
-                        {user.role === 'admin' ? 'Admin' : 'Team Member'}
+                        {getRoleName(user, roles)}
                       </span>
                     </td>
                     <td style={styles.td}>
-                      <span style={styles.department}>{user.department}</span>
+                      <span style={styles.department}>{getUserDepartments(user).join(', ')}</span>
                     </td>
                     <td style={styles.td}>
                       <span style={{
@@ -539,6 +686,11 @@ const TeamManagementPage: React.FC = () => {
                         {user.isActive !== false ? 'Active' : 'Inactive'}
                       </span>
                     </td>
+                    <td style={styles.td}>
+                      <button onClick={() => setTrainingUser(user)} style={styles.trainingButton}>
+                        {getCertifiedCount(user.id)} certified
+                      </button>
+                    </td>
                     <td style={styles.td}>
                       <div style={styles.actionButtons}>
                         <button
@@ -597,6 +749,17 @@ const TeamManagementPage: React.FC = () => {
         </div>
       )}
 
+      {/* Training / Certifications Modal */}
+      {trainingUser && (
+        <Modal
+          isOpen={!!trainingUser}
+          onClose={() => setTrainingUser(null)}
+          title={`Certifications · ${trainingUser.firstName} ${trainingUser.lastName}`}
+        >
+          <CertificationList userId={trainingUser.id} />
+        </Modal>
+      )}
+
       {/* Add/Edit User Modal */}
       {showAddUserModal && (
         <div style={{
@@ -615,7 +778,7 @@ const TeamManagementPage: React.FC = () => {
                 ...styles.modalTitle,
                 ...(isMobile && styles.modalTitleMobile),
               }}>
-                {editingUser ? (isMobile ? 'Edit Member' : 'Edit Team Member') : (isMobile ? 'Add Member' : 'Add New Team Member')}
+                {editingUser ? (isMobile ? 'Edit Member' : 'Edit Team Member') : (isMobile ? 'Invite Member' : 'Invite Team Member')}
               </h2>
               <button onClick={handleCloseModal} style={{
                 ...styles.closeButton,
@@ -684,26 +847,6 @@ const TeamManagementPage: React.FC = () => {
                 />
               </div>
 
-              {/* Password field: Only show for new users */}
-              {!editingUser && (
-                <div style={styles.formGroup}>
-                  <label style={styles.label}>
-                    Password <span style={styles.required}>*</span>
-                  </label>
-                  <input
-                    type="password"
-                    value={formData.password}
-                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                    style={{
-                      ...styles.input,
-                      ...(isMobile && styles.inputMobile),
-                    }}
-                    required
-                    placeholder="Minimum 8 characters"
-                  />
-                </div>
-              )}
-
               <div style={{
                 ...styles.formRow,
                 ...(isMobile && styles.formRowMobile),
@@ -713,8 +856,14 @@ const TeamManagementPage: React.FC = () => {
                     Role <span style={styles.required}>*</span>
                   </label>
                   <select
-                    value={formData.role}
-                    onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
+                    value={formData.role === 'admin' ? 'admin' : formData.roleId || 'team'}
+                    onChange={(e) => {
+                      // Custom roles are team members with extra permissions
+                      const value = e.target.value;
+                      setFormData(value === 'admin' || value === 'team'
+                        ? { ...formData, role: value, roleId: '' }
+                        : { ...formData, role: 'team', roleId: value });
+                    }}
                     style={{
                       ...styles.input,
                       ...(isMobile && styles.inputMobile),
@@ -722,6 +871,9 @@ const TeamManagementPage: React.FC = () => {
                     required
                   >
                     <option value="team">Team Member</option>
+                    {roles.map(role => (
+                      <option key={role.id} value={role.id}>{role.name}</option>
+                    ))}
                     <option value="admin">Admin</option>
                   </select>
                 </div>
@@ -746,6 +898,28 @@ const TeamManagementPage: React.FC = () => {
                 </div>
               </div>
 
+              <div style={styles.formGroup}>
+                <label style={styles.label}>Other Departments</label>
+                <div style={styles.departmentChecklist}>
+                  {departments.filter(dept => dept !== formData.department).map(dept => (
+                    <label key={dept} style={styles.checkboxLabel}>
+                      <input
+                        type="checkbox"
+                        checked={formData.departments.includes(dept)}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          departments: e.target.checked
+                            ? [...formData.departments, dept]
+                            : formData.departments.filter(d => d !== dept),
+                        })}
+                        style={styles.checkbox}
+                      />
+                      <span>{dept}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
               {editingUser && (
                 <div style={styles.formGroup}>
                   <label style={styles.checkboxLabel}>
@@ -779,7 +953,7 @@ const TeamManagementPage: React.FC = () => {
                     ...(isSubmitting && { opacity: 0.7, cursor: 'not-allowed' }),
                   }}
                 >
-                  {isSubmitting ? 'Saving...' : (editingUser ? 'Save Changes' : (isMobile ? 'Add Member' : 'Add Team Member'))}
+                  {isSubmitting ? 'Saving...' : (editingUser ? 'Save Changes' : 'Send Invite')}
                 </button>
               </div>
             </form>
@@ -787,6 +961,7 @@ const TeamManagementPage: React.FC = () => {
         </div>
       )}
       {confirmDialog}
+      {stepUpDialog}
     </div>
   );
 };
@@ -857,6 +1032,33 @@ const styles: { [key: string]: React.CSSProperties } = {
     alignItems: 'flex-end',
     flexWrap: 'wrap',
   },
+  invitesCard: {
+    ...theme.components.card.base,
+    marginBottom: theme.pageLayout.sectionMargin.desktop,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  },
+  invitesTitle: {
+    fontSize: '17px',
+    fontWeight: 700,
+    color: theme.colors.textPrimary,
+    margin: 0,
+  },
+  inviteRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    paddingTop: '12px',
+    borderTop: `1px solid ${theme.colors.border}`,
+  },
+  inviteRowMobile: {
+    flexWrap: 'wrap',
+  },
+  inviteInfo: {
+    flex: 1,
+    minWidth: 0,
+  },
   filtersCardMobile: {
     ...theme.components.card.mobile,
     marginBottom: theme.pageLayout.sectionMargin.mobile,
@@ -1010,6 +1212,17 @@ const styles: { [key: string]: React.CSSProperties } = {
   department: {
     color: theme.colors.textPrimary,
   },
+  trainingButton: {
+    padding: '4px 10px',
+    fontSize: '13px',
+    fontWeight: '600',
+    backgroundColor: 'transparent',
+    color: theme.colors.primary,
+    border: `1px solid ${theme.colors.primary}`,
+    borderRadius: theme.borderRadius.full,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
   badge: {
     padding: '4px 12px',
     borderRadius: theme.borderRadius.full,
@@ -1201,6 +1414,11 @@ const styles: { [key: string]: React.CSSProperties } = {
     padding: '14px 16px',
     minHeight: '44px',
   },
+  departmentChecklist: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(160px, 1fr))',
+    gap: '8px',
+  },
   checkboxLabel: {
     display: 'flex',
     alignItems: 'center',
@@ -1,21 +1,32 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import { theme } from '../theme';
 import { useAuth } from '../contexts/AuthContext';
 import { useWorkHours, calculateTotalHours } from '../contexts/WorkHoursContext';
 import { useResponsive } from '../hooks/useResponsive';
-import { WorkHoursEntry, WorkDay } from '../types';
+import { WorkHoursEntry, WorkHoursStatus, WorkDay } from '../types';
 import { useToast } from '../contexts/ToastContext';
 import { useConfirm } from '../hooks/useConfirm';
+import { useTimeZone } from '../contexts/TimeZoneContext';
+import { addDays, getTodayKey, parseDateKey, toDateKey } from '../utils/dateTime';
+
+const STATUS_COLORS: Record<WorkHoursStatus, string> = {
+  pending: theme.colors.status.warning,
+  approved: theme.colors.status.success,
+  rejected: theme.colors.status.error,
+};
 
 const WorkHoursPage: React.FC = () => {
-  const { currentUser, users, isAdmin } = useAuth();
+  const { currentUser, users, isAdmin, hasPermission } = useAuth();
+  const canApprove = hasPermission('approve_work_hours');
   const {
-    workHours, addWorkHours, updateWorkHours, deleteWorkHours,
+    workHours, addWorkHours, updateWorkHours, deleteWorkHours, approveWorkHours, rejectWorkHours,
     workDays, addWorkDays, deleteWorkDay, getWorkDaysByDateRange
   } = useWorkHours();
   const { showToast } = useToast();
   const { isMobileOrTablet } = useResponsive();
   const { confirm, confirmDialog } = useConfirm();
+  const { timeZone } = useTimeZone();
+  const today = getTodayKey(timeZone);
 
   // Modal states
   const [showAddModal, setShowAddModal] = useState(false);
@@ -58,88 +69,78 @@ const WorkHoursPage: React.FC = () => {
 
   // Form states
   const [formEmployee, setFormEmployee] = useState<string>(currentUser?.id || '');
-  const [formDate, setFormDate] = useState(new Date().toISOString().split('T')[0]);
+  const [formDate, setFormDate] = useState(getTodayKey());
   const [formStartTime, setFormStartTime] = useState('09:00');
   const [formEndTime, setFormEndTime] = useState('17:00');
   const [formBreakMinutes, setFormBreakMinutes] = useState(30);
   const [formNotes, setFormNotes] = useState('');
 
   // Calculate date range for work hours (includes today and some future for flexibility)
-  const getDateRange = () => {
-    const today = new Date();
+  const getDateRange = useCallback(() => {
     let startDate: string;
     let endDate: string;
 
     switch (filterDateRange) {
       case 'week':
-        const weekAgo = new Date(today);
-        weekAgo.setDate(weekAgo.getDate() - 7);
-        startDate = weekAgo.toISOString().split('T')[0];
+        startDate = addDays(today, -7);
         // Include a week ahead for recently scheduled work
-        const weekAhead = new Date(today);
-        weekAhead.setDate(weekAhead.getDate() + 7);
-        endDate = weekAhead.toISOString().split('T')[0];
+        endDate = addDays(today, 7);
         break;
       case 'month':
-        const monthAgo = new Date(today);
+        const monthAgo = parseDateKey(today);
         monthAgo.setMonth(monthAgo.getMonth() - 1);
-        startDate = monthAgo.toISOString().split('T')[0];
+        startDate = toDateKey(monthAgo);
         // Include a month ahead
-        const monthAhead = new Date(today);
+        const monthAhead = parseDateKey(today);
         monthAhead.setMonth(monthAhead.getMonth() + 1);
-        endDate = monthAhead.toISOString().split('T')[0];
+        endDate = toDateKey(monthAhead);
         break;
       default:
         startDate = '2020-01-01';
         endDate = '2099-12-31';
     }
     return { startDate, endDate };
-  };
+  }, [filterDateRange, today]);
 
   // Calculate date range for schedule (includes future)
-  const getScheduleDateRange = () => {
-    const today = new Date();
+  const getScheduleDateRange = useCallback(() => {
     let startDate: string;
     let endDate: string;
 
     switch (filterDateRange) {
       case 'week':
-        const weekAgo = new Date(today);
-        weekAgo.setDate(weekAgo.getDate() - 7);
-        startDate = weekAgo.toISOString().split('T')[0];
-        const weekAhead = new Date(today);
-        weekAhead.setDate(weekAhead.getDate() + 14);
-        endDate = weekAhead.toISOString().split('T')[0];
+        startDate = addDays(today, -7);
+        endDate = addDays(today, 14);
         break;
       case 'month':
-        const monthAgo = new Date(today);
+        const monthAgo = parseDateKey(today);
         monthAgo.setMonth(monthAgo.getMonth() - 1);
-        startDate = monthAgo.toISOString().split('T')[0];
-        const monthAhead = new Date(today);
+        startDate = toDateKey(monthAgo);
+        const monthAhead = parseDateKey(today);
         monthAhead.setMonth(monthAhead.getMonth() + 1);
-        endDate = monthAhead.toISOString().split('T')[0];
+        endDate = toDateKey(monthAhead);
         break;
       default:
         startDate = '2020-01-01';
         endDate = '2099-12-31';
     }
     return { startDate, endDate };
-  };
+  }, [filterDateRange, today]);
 
   // Filter work hours
   const filteredWorkHours = useMemo(() => {
     const { startDate, endDate } = getDateRange();
 
     return workHours.filter(wh => {
-      // Non-admins can only see their own entries
-      if (!isAdmin && wh.employeeId !== currentUser?.id) return false;
+      // Only approvers see everyone's hours
+      if (!canApprove && wh.employeeId !== currentUser?.id) return false;
 
       const matchesEmployee = filterEmployee === 'all' || wh.employeeId === filterEmployee;
       const matchesDate = filterDateRange === 'all' || (wh.workDate >= startDate && wh.workDate <= endDate);
 
       return matchesEmployee && matchesDate;
     }).sort((a, b) => new Date(b.workDate).getTime() - new Date(a.workDate).getTime());
-  }, [workHours, filterEmployee, filterDateRange, isAdmin, currentUser]);
+  }, [workHours, filterEmployee, filterDateRange, canApprove, currentUser, getDateRange]);
 
   // Filter work days (schedule view) - includes future dates
   const filteredWorkDays = useMemo(() => {
@@ -154,7 +155,7 @@ const WorkHoursPage: React.FC = () => {
 
       return matchesEmployee && matchesDate;
     }).sort((a, b) => new Date(a.workDate).getTime() - new Date(b.workDate).getTime()); // Sort ascending (upcoming first)
-  }, [workDays, filterEmployee, filterDateRange, isAdmin, currentUser]);
+  }, [workDays, filterEmployee, filterDateRange, isAdmin, currentUser, getScheduleDateRange]);
 
   // Group work days by date for display
   const workDaysByDate = useMemo(() => {
@@ -171,11 +172,8 @@ const WorkHoursPage: React.FC = () => {
   // Get next 14 days for quick date selection
   const getNextTwoWeeks = () => {
     const dates: string[] = [];
-    const today = new Date();
     for (let i = 0; i < 14; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() + i);
-      dates.push(date.toISOString().split('T')[0]);
+      dates.push(addDays(today, i));
     }
     return dates;
   };
@@ -201,7 +199,7 @@ const WorkHoursPage: React.FC = () => {
       const dayNum = prevMonthDays - i;
       const date = new Date(year, month - 1, dayNum);
       days.push({
-        date: date.toISOString().split('T')[0],
+        date: toDateKey(date),
         dayNum,
         isCurrentMonth: false,
       });
@@ -211,7 +209,7 @@ const WorkHoursPage: React.FC = () => {
     for (let i = 1; i <= daysInMonth; i++) {
       const date = new Date(year, month, i);
       days.push({
-        date: date.toISOString().split('T')[0],
+        date: toDateKey(date),
         dayNum: i,
         isCurrentMonth: true,
       });
@@ -222,7 +220,7 @@ const WorkHoursPage: React.FC = () => {
     for (let i = 1; i <= remaining; i++) {
       const date = new Date(year, month + 1, i);
       days.push({
-        date: date.toISOString().split('T')[0],
+        date: toDateKey(date),
         dayNum: i,
         isCurrentMonth: false,
       });
@@ -278,12 +276,11 @@ const WorkHoursPage: React.FC = () => {
     for (let i = 0; i < 7; i++) {
       const date = new Date(startOfWeek);
       date.setDate(startOfWeek.getDate() + i);
-      const today = new Date();
       days.push({
-        date: date.toISOString().split('T')[0],
+        date: toDateKey(date),
         dayNum: date.getDate(),
         dayName: date.toLocaleDateString('en-US', { weekday: 'short' }),
-        isToday: date.toDateString() === today.toDateString(),
+        isToday: toDateKey(date) === today,
       });
     }
     return days;
@@ -298,8 +295,8 @@ const WorkHoursPage: React.FC = () => {
     } else if (calendarViewMode === 'week') {
       const start = weekDays[0];
       const end = weekDays[6];
-      const startDate = new Date(start.date);
-      const endDate = new Date(end.date);
+      const startDate = parseDateKey(start.date);
+      const endDate = parseDateKey(end.date);
       if (startDate.getMonth() === endDate.getMonth()) {
         return `${startDate.toLocaleDateString('en-US', { month: 'long' })} ${start.dayNum} - ${end.dayNum}, ${endDate.getFullYear()}`;
       }
@@ -349,7 +346,7 @@ const WorkHoursPage: React.FC = () => {
   // Reset form
   const resetForm = () => {
     setFormEmployee(currentUser?.id || '');
-    setFormDate(new Date().toISOString().split('T')[0]);
+    setFormDate(today);
     setFormStartTime('09:00');
     setFormEndTime('17:00');
     setFormBreakMinutes(30);
@@ -460,6 +457,16 @@ const WorkHoursPage: React.FC = () => {
     }
   };
 
+  const handleReview = async (id: string, status: 'approved' | 'rejected') => {
+    try {
+      await (status === 'approved' ? approveWorkHours(id) : rejectWorkHours(id));
+      showToast(status === 'approved' ? 'Work hours approved' : 'Work hours rejected', 'success');
+    } catch (error) {
+      console.error('Failed to review work hours:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to update work hours', 'error');
+    }
+  };
+
   // Schedule modal handlers
   const resetScheduleForm = () => {
     setScheduleEmployee(currentUser?.id || '');
@@ -482,12 +489,12 @@ const WorkHoursPage: React.FC = () => {
     const newDates: string[] = [];
     for (let d = 1; d <= daysInMonth; d++) {
       const date = new Date(year, month, d);
-      const dateStr = date.toISOString().split('T')[0];
+      const dateStr = toDateKey(date);
       const dayOfWeek = date.getDay();
 
       // Only add future dates that match the template and aren't already scheduled or selected
       if (dayNumbers.includes(dayOfWeek) &&
-          date >= new Date(new Date().toISOString().split('T')[0]) &&
+          dateStr >= today &&
           !existingWorkDayDates.includes(dateStr) &&
           !selectedDates.includes(dateStr)) {
         newDates.push(dateStr);
@@ -548,7 +555,7 @@ const WorkHoursPage: React.FC = () => {
       const dayNum = prevMonthDays - i;
       const date = new Date(year, month - 1, dayNum);
       days.push({
-        date: date.toISOString().split('T')[0],
+        date: toDateKey(date),
         dayNum,
         isCurrentMonth: false,
       });
@@ -558,7 +565,7 @@ const WorkHoursPage: React.FC = () => {
     for (let i = 1; i <= daysInMonth; i++) {
       const date = new Date(year, month, i);
       days.push({
-        date: date.toISOString().split('T')[0],
+        date: toDateKey(date),
         dayNum: i,
         isCurrentMonth: true,
       });
@@ -570,7 +577,7 @@ const WorkHoursPage: React.FC = () => {
     for (let i = 1; i <= remaining; i++) {
       const date = new Date(year, month + 1, i);
       days.push({
-        date: date.toISOString().split('T')[0],
+        date: toDateKey(date),
         dayNum: i,
         isCurrentMonth: false,
       });
@@ -857,8 +864,8 @@ const WorkHoursPage: React.FC = () => {
             <option value="all">All Time</option>
           </select>
 
-          {/* Employee Filter (Admin only) */}
-          {isAdmin && (
+          {/* Employee Filter (admins and approvers) */}
+          {(isAdmin || canApprove) && (
             <select
               value={filterEmployee}
               onChange={(e) => setFilterEmployee(e.target.value)}
@@ -893,9 +900,12 @@ const WorkHoursPage: React.FC = () => {
               <div key={entry.id} style={styles.entryCard}>
                 <div style={styles.entryHeader}>
                   <div style={styles.entryDate}>{formatDate(entry.workDate)}</div>
-                  {isAdmin && (
+                  {canApprove && (
                     <div style={styles.employeeName}>{getUserName(entry.employeeId)}</div>
                   )}
+                  <span style={{ ...styles.statusBadge, backgroundColor: STATUS_COLORS[entry.status] }}>
+                    {entry.status}
+                  </span>
                 </div>
 
                 <div style={styles.entryContent}>
@@ -938,6 +948,16 @@ const WorkHoursPage: React.FC = () => {
                       </button>
                     </>
                   )}
+                  {canApprove && entry.status === 'pending' && (
+                    <>
+                      <button onClick={() => handleReview(entry.id, 'approved')} style={styles.approveButton}>
+                        Approve
+                      </button>
+                      <button onClick={() => handleReview(entry.id, 'rejected')} style={styles.rejectButton}>
+                        Reject
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
             ))
@@ -1059,9 +1079,9 @@ const WorkHoursPage: React.FC = () => {
           {calendarViewMode === 'day' && (
             <div style={isMobileOrTablet ? styles.dayViewContainerMobile : styles.dayViewContainer}>
               {(() => {
-                const dateStr = calendarMonth.toISOString().split('T')[0];
+                const dateStr = toDateKey(calendarMonth);
                 const dayWorkDays = getWorkDaysForDate(dateStr);
-                const isToday = dateStr === new Date().toISOString().split('T')[0];
+                const isToday = dateStr === today;
 
                 return (
                   <div style={{
@@ -1204,7 +1224,7 @@ const WorkHoursPage: React.FC = () => {
             {/* Calendar Days */}
             {calendarDays.map((day, index) => {
               const dayWorkDays = getWorkDaysForDate(day.date);
-              const isToday = day.date === new Date().toISOString().split('T')[0];
+              const isToday = day.date === today;
               const hasWorkDays = dayWorkDays.length > 0;
 
               return (
@@ -1598,9 +1618,9 @@ const WorkHoursPage: React.FC = () => {
                   const isExisting = existingWorkDayDates.includes(day.date);
                   const isMarkedForRemoval = datesToRemove.includes(day.date);
                   const isNewlySelected = selectedDates.includes(day.date);
-                  const isToday = day.date === new Date().toISOString().split('T')[0];
-                  const isPast = new Date(day.date) < new Date(new Date().toISOString().split('T')[0]);
-                  const dayOfWeek = new Date(day.date + 'T00:00:00').getDay();
+                  const isToday = day.date === today;
+                  const isPast = day.date < today;
+                  const dayOfWeek = parseDateKey(day.date).getDay();
                   const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
                   const isSelected = selectedDayForDetail === day.date;
                   const hoursForDay = scheduleEmployee ? getTotalHoursForDate(day.date, scheduleEmployee) : 0;
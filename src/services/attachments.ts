@@ -0,0 +1,162 @@
+/**
+ * Attachments
+ *
+ * Uploads images to the private `attachments` storage bucket (migration v20)
+ * and returns their path there. Files go under the uploader's user ID, which
+ * the bucket policies require; getAttachmentUrl turns a path into a
+ * short-lived signed URL for display. Without Supabase the image is kept
+ * inline as a data URL, the way ImageUpload stores SOP images.
+ *
+ * Step evidence photos are shrunk in the browser first, after their EXIF
+ * capture time and location have been read, since the canvas drops EXIF.
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { CommentAttachment, StepPhoto } from '../types';
+import { readPhotoMetadata } from '../utils/exif';
+
+const BUCKET = 'attachments';
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Signed URLs by path, reused until shortly before they expire
+const signedUrls = new Map<string, { url: string; expiresAt: number }>();
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+// Plenty to read a label or meter in the photo, at a few hundred KB
+const PHOTO_MAX_DIMENSION = 1600;
+const PHOTO_QUALITY = 0.8;
+
+const readAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/** Throws with a user-facing message when the file isn't an acceptable image */
+export const validateImageFile = (file: File) => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not an image`);
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than 5MB`);
+  }
+};
+
+// Stores the file under the user's folder and returns its path (a data URL without Supabase)
+const storeImage = async (file: Blob, extension: string, userId: string, folder: string): Promise<string> => {
+  if (!isSupabaseConfigured()) {
+    return readAsDataUrl(file);
+  }
+
+  const path = `${userId}/${folder}/${Date.now()}_${Math.random().toString(36).substring(2, 11)}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (error) {
+    console.error('Error uploading attachment:', error);
+    throw error;
+  }
+
+  return path;
+};
+
+/** The bucket path of a stored attachment, or null for data and other URLs */
+export const getAttachmentPath = (url: string): string | null =>
+  /^[a-z][a-z0-9+.-]*:/i.test(url) ? null : url;
+
+/** A URL the browser can load for a stored attachment */
+export const getAttachmentUrl = async (url: string): Promise<string> => {
+  const path = getAttachmentPath(url);
+  if (!path || !isSupabaseConfigured()) return url;
+
+  const cached = signedUrls.get(path);
+  if (cached && cached.expiresAt > Date.now()) return cached.url;
+
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('Error loading attachment:', error);
+    throw error;
+  }
+  // Leave a margin so a cached URL is never handed out just before it stops working
+  signedUrls.set(path, { url: data.signedUrl, expiresAt: Date.now() + (SIGNED_URL_TTL_SECONDS - 5 * 60) * 1000 });
+  return data.signedUrl;
+};
+
+export const uploadImage = async (file: File, userId: string, folder: string): Promise<CommentAttachment> => {
+  validateImageFile(file);
+
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : 'img';
+  const url = await storeImage(file, extension, userId, folder);
+  return { name: file.name, type: file.type, size: file.size, url };
+};
+
+/** Re-encode as a JPEG no larger than maxDimension on its longest side */
+export const compressImage = (
+  file: File,
+  maxDimension = PHOTO_MAX_DIMENSION,
+  quality = PHOTO_QUALITY
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.naturalWidth * scale);
+      canvas.height = Math.round(image.naturalHeight * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        resolve(file);
+        return;
+      }
+      // JPEG has no transparency; keep transparent PNGs from turning black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+      canvas.toBlob(blob => {
+        // Keep the original if it was already smaller (e.g. a small PNG screenshot)
+        resolve(blob && blob.size < file.size ? blob : file);
+      }, 'image/jpeg', quality);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error(`${file.name} could not be read as an image`));
+    };
+
+    image.src = objectUrl;
+  });
+
+/** Compress and upload a step's evidence photo, keeping when and where it was taken */
+export const uploadStepPhoto = async (file: File, userId: string, taskId: string): Promise<StepPhoto> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not an image`);
+  }
+
+  const metadata = await readPhotoMetadata(file);
+  const photo = await compressImage(file);
+  // Checked after compression: phone cameras routinely produce larger originals
+  if (photo.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than 5MB`);
+  }
+
+  const extension = photo.type === 'image/jpeg' ? 'jpg' : photo.type.split('/')[1] || 'img';
+  const url = await storeImage(photo, extension, userId, `steps/${taskId}`);
+
+  return {
+    url,
+    ...metadata,
+    uploadedAt: new Date().toISOString(),
+    uploadedBy: userId,
+  };
+};
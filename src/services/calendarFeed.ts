@@ -0,0 +1,88 @@
+/**
+ * Calendar Feed
+ *
+ * Each user can publish a private iCal feed (assigned tasks, events they
+ * attend, work days) that calendar apps subscribe to. The feed URL is
+ * secured by a random token kept in `calendar_feed_tokens`; creating a new
+ * token rotates the URL and deleting it turns the feed off. The feed is
+ * served by `api/calendar-feed.ts`, so it needs Supabase.
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { generateToken } from '../utils/tokens';
+
+export interface CalendarFeedToken {
+  token: string;
+  createdAt: string;
+  lastAccessedAt?: string;
+}
+
+const FEED_PATH = '/api/calendar-feed';
+
+// Helper function to convert Supabase token row to App type
+const mapSupabaseFeedToken = (row: any): CalendarFeedToken => ({
+  token: row.token,
+  createdAt: row.created_at,
+  lastAccessedAt: row.last_accessed_at || undefined,
+});
+
+export const isCalendarFeedAvailable = () => isSupabaseConfigured();
+
+/**
+ * The user's current feed token, or null when the feed is off.
+ */
+export const fetchCalendarFeedToken = async (userId: string): Promise<CalendarFeedToken | null> => {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading calendar feed token:', error);
+    throw error;
+  }
+  return data ? mapSupabaseFeedToken(data) : null;
+};
+
+/**
+ * Create the feed, or replace its token so the old URL stops working.
+ */
+export const rotateCalendarFeedToken = async (userId: string): Promise<CalendarFeedToken> => {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .upsert(
+      { user_id: userId, token: generateToken(), created_at: new Date().toISOString(), last_accessed_at: null },
+      { onConflict: 'user_id' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating calendar feed token:', error);
+    throw error;
+  }
+  return mapSupabaseFeedToken(data);
+};
+
+/**
+ * Turn the feed off; subscribed apps get an error on their next refresh.
+ */
+export const revokeCalendarFeedToken = async (userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error revoking calendar feed token:', error);
+    throw error;
+  }
+};
+
+export const getCalendarFeedUrl = (token: string): string =>
+  `${window.location.origin}${FEED_PATH}?token=${encodeURIComponent(token)}`;
+
+// webcal:// opens the subscribe dialog in Apple Calendar and Outlook
+export const getCalendarSubscribeUrl = (token: string): string =>
+  getCalendarFeedUrl(token).replace(/^https?:/, 'webcal:');
@@ -0,0 +1,195 @@
+/**
+ * Comments
+ *
+ * Task and job comments, one row each in `comments` (migration v20) or
+ * localStorage without Supabase. Keeping them out of the task JSON means two
+ * people commenting at once both keep their comment. Read through
+ * useComments, which also folds in comments older tasks still carry inline.
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { CommentAttachment, CommentEntityType, TaskComment } from '../types';
+
+const STORAGE_KEY = 'mediamaple_comments';
+
+// Fired in this tab when local comments change (other tabs get `storage`)
+export const LOCAL_COMMENTS_EVENT = 'mediamaple:comments';
+
+interface StoredComment extends TaskComment {
+  entityType: CommentEntityType;
+  entityId: string;
+}
+
+export interface CommentDraft {
+  userId: string;
+  userName: string;
+  text: string;
+  parentId?: string;
+  mentions: string[];
+  attachments: CommentAttachment[];
+}
+
+// Helper function to convert Supabase comment row to App type
+const mapSupabaseComment = (row: any): TaskComment => ({
+  id: row.id,
+  userId: row.user_id,
+  userName: row.user_name,
+  text: row.text || '',
+  createdAt: row.created_at,
+  parentId: row.parent_id || undefined,
+  mentions: row.mentions || [],
+  attachments: row.attachments || [],
+  editedAt: row.edited_at || undefined,
+  deletedAt: row.deleted_at || undefined,
+});
+
+const readStoredComments = (): StoredComment[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeStoredComments = (comments: StoredComment[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(comments));
+  window.dispatchEvent(new Event(LOCAL_COMMENTS_EVENT));
+};
+
+const toComment = ({ entityType, entityId, ...comment }: StoredComment): TaskComment => comment;
+
+/** Oldest first */
+export const fetchComments = async (entityType: CommentEntityType, entityId: string): Promise<TaskComment[]> => {
+  if (!isSupabaseConfigured()) {
+    return readStoredComments()
+      .filter(comment => comment.entityType === entityType && comment.entityId === entityId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(toComment);
+  }
+
+  const { data, error } = await supabase
+    .from('comments')
+    .select('*')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading comments:', error);
+    throw error;
+  }
+  return (data || []).map(mapSupabaseComment);
+};
+
+/** Every visible comment of one kind, by task/job ID; used by search */
+export const fetchCommentsByEntity = async (entityType: CommentEntityType): Promise<Record<string, TaskComment[]>> => {
+  const byEntity: Record<string, TaskComment[]> = {};
+  const add = (entityId: string, comment: TaskComment) => {
+    (byEntity[entityId] = byEntity[entityId] || []).push(comment);
+  };
+
+  if (!isSupabaseConfigured()) {
+    readStoredComments()
+      .filter(comment => comment.entityType === entityType && !comment.deletedAt)
+      .forEach(comment => add(comment.entityId, toComment(comment)));
+    return byEntity;
+  }
+
+  const { data, error } = await supabase
+    .from('comments')
+    .select('*')
+    .eq('entity_type', entityType)
+    .is('deleted_at', null);
+
+  if (error) {
+    console.error('Error loading comments:', error);
+    throw error;
+  }
+  (data || []).forEach((row: any) => add(row.entity_id, mapSupabaseComment(row)));
+  return byEntity;
+};
+
+export const addComment = async (
+  entityType: CommentEntityType,
+  entityId: string,
+  draft: CommentDraft
+): Promise<TaskComment> => {
+  if (!isSupabaseConfigured()) {
+    const comment: StoredComment = {
+      ...draft,
+      id: `comment_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      entityType,
+      entityId,
+      createdAt: new Date().toISOString(),
+    };
+    writeStoredComments([...readStoredComments(), comment]);
+    return toComment(comment);
+  }
+
+  const { data, error } = await supabase
+    .from('comments')
+    .insert({
+      entity_type: entityType,
+      entity_id: entityId,
+      parent_id: draft.parentId || null,
+      user_id: draft.userId,
+      user_name: draft.userName,
+      text: draft.text,
+      mentions: draft.mentions,
+      attachments: draft.attachments,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding comment:', error);
+    throw error;
+  }
+  return mapSupabaseComment(data);
+};
+
+export const updateComment = async (id: string, text: string, mentions: string[]): Promise<string> => {
+  const editedAt = new Date().toISOString();
+
+  if (!isSupabaseConfigured()) {
+    writeStoredComments(readStoredComments().map(comment =>
+      comment.id === id ? { ...comment, text, mentions, editedAt } : comment
+    ));
+    return editedAt;
+  }
+
+  const { error } = await supabase
+    .from('comments')
+    .update({ text, mentions, edited_at: editedAt })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating comment:', error);
+    throw error;
+  }
+  return editedAt;
+};
+
+/** Clears the comment but keeps the row, so its replies stay in the thread */
+export const deleteComment = async (id: string): Promise<string> => {
+  const deletedAt = new Date().toISOString();
+
+  if (!isSupabaseConfigured()) {
+    writeStoredComments(readStoredComments().map(comment =>
+      comment.id === id ? { ...comment, text: '', mentions: [], attachments: [], deletedAt } : comment
+    ));
+    return deletedAt;
+  }
+
+  const { error } = await supabase
+    .from('comments')
+    .update({ text: '', mentions: [], attachments: [], deleted_at: deletedAt })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting comment:', error);
+    throw error;
+  }
+  return deletedAt;
+};
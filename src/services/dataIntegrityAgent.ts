@@ -6,6 +6,7 @@
  */
 
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { getTodayKey } from '../utils/dateTime';
 
 // Types for integrity check results
 export interface IntegrityIssue {
@@ -241,7 +242,7 @@ async function checkOverdueTasks(): Promise<IntegrityIssue[]> {
     if (error || !tasks) return issues;
 
     const now = new Date();
-    const today = now.toISOString().split('T')[0];
+    const today = getTodayKey(undefined, now);
 
     for (const task of tasks) {
       const dueDate = task.scheduled_date;
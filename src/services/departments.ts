@@ -0,0 +1,92 @@
+/**
+ * Departments
+ *
+ * The organization's departments, in `departments` (migration v22) or
+ * localStorage without Supabase. Read through DepartmentContext.
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { Department } from '../types';
+
+const STORAGE_KEY = 'mediamaple_departments';
+
+// Starting list without Supabase; migration v22 seeds from the departments already in use
+const SEED_DEPARTMENTS: Department[] = ['Admin', 'Directors', 'Student Accounts', 'Teachers'].map(name => ({
+  id: name.toLowerCase().replace(/\s+/g, '-'),
+  name,
+}));
+
+// Helper function to convert Supabase department row to App type
+const mapSupabaseDepartment = (row: any): Department => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || undefined,
+  createdAt: row.created_at,
+});
+
+const readStoredDepartments = (): Department[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : SEED_DEPARTMENTS;
+  } catch {
+    return SEED_DEPARTMENTS;
+  }
+};
+
+const byName = (a: Department, b: Department) => a.name.localeCompare(b.name);
+
+export const fetchDepartments = async (): Promise<Department[]> => {
+  if (!isSupabaseConfigured()) {
+    return [...readStoredDepartments()].sort(byName);
+  }
+
+  const { data, error } = await supabase
+    .from('departments')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error loading departments:', error);
+    throw error;
+  }
+  return (data || []).map(mapSupabaseDepartment);
+};
+
+export const addDepartment = async (name: string, description?: string): Promise<Department> => {
+  if (!isSupabaseConfigured()) {
+    const department: Department = {
+      id: `dept_${Date.now()}`,
+      name,
+      description,
+      createdAt: new Date().toISOString(),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...readStoredDepartments(), department]));
+    return department;
+  }
+
+  const { data, error } = await supabase
+    .from('departments')
+    .insert({ name, description: description || null })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding department:', error);
+    throw error;
+  }
+  return mapSupabaseDepartment(data);
+};
+
+export const deleteDepartment = async (id: string): Promise<void> => {
+  if (!isSupabaseConfigured()) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(readStoredDepartments().filter(d => d.id !== id)));
+    return;
+  }
+
+  const { error } = await supabase.from('departments').delete().eq('id', id);
+
+  if (error) {
+    console.error('Error deleting department:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,71 @@
+/**
+ * Email Templates
+ *
+ * Admin overrides of the built-in email wording (utils/emailTemplates.ts).
+ * Only customized templates are stored, in `email_templates`, or
+ * localStorage without Supabase; resetting one deletes its override.
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { EmailTemplate, EmailTemplateId } from '../types';
+
+export type EmailTemplateOverrides = Partial<Record<EmailTemplateId, EmailTemplate>>;
+
+const STORAGE_KEY = 'mediamaple_email_templates';
+
+const readStoredTemplates = (): EmailTemplateOverrides => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const fetchEmailTemplateOverrides = async (): Promise<EmailTemplateOverrides> => {
+  if (!isSupabaseConfigured()) return readStoredTemplates();
+
+  const { data, error } = await supabase.from('email_templates').select('id, subject, body');
+
+  if (error) {
+    console.error('Error loading email templates:', error);
+    throw error;
+  }
+  const overrides: EmailTemplateOverrides = {};
+  (data || []).forEach((row: any) => {
+    overrides[row.id as EmailTemplateId] = { subject: row.subject, body: row.body };
+  });
+  return overrides;
+};
+
+export const saveEmailTemplate = async (id: EmailTemplateId, template: EmailTemplate, userId: string): Promise<void> => {
+  if (!isSupabaseConfigured()) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readStoredTemplates(), [id]: template }));
+    return;
+  }
+
+  const { error } = await supabase
+    .from('email_templates')
+    .upsert({ id, subject: template.subject, body: template.body, updated_by: userId });
+
+  if (error) {
+    console.error('Error saving email template:', error);
+    throw error;
+  }
+};
+
+/** Go back to the built-in wording */
+export const resetEmailTemplate = async (id: EmailTemplateId): Promise<void> => {
+  if (!isSupabaseConfigured()) {
+    const { [id]: _removed, ...rest } = readStoredTemplates();
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rest));
+    return;
+  }
+
+  const { error } = await supabase.from('email_templates').delete().eq('id', id);
+
+  if (error) {
+    console.error('Error resetting email template:', error);
+    throw error;
+  }
+};
@@ -3,6 +3,10 @@
  * Handles authentication and calendar sync with Google Calendar API
  */
 
+import { JobTask, RecurrencePattern } from '../types';
+import { buildRecurrenceLines } from '../utils/rrule';
+import { addDays, addMinutes, getDefaultTimeZone } from '../utils/dateTime';
+
 // Google OAuth configuration
 const GOOGLE_CLIENT_ID = process.env.REACT_APP_GOOGLE_CLIENT_ID || '';
 const GOOGLE_REDIRECT_URI = process.env.REACT_APP_GOOGLE_REDIRECT_URI ||
@@ -14,6 +18,8 @@ const SCOPES = [
   'https://www.googleapis.com/auth/calendar.readonly',
 ];
 
+const CALENDAR_API_URL = 'https://www.googleapis.com/calendar/v3';
+
 // Token storage keys
 const TOKEN_STORAGE_KEY = 'google_calendar_tokens';
 const USER_INFO_KEY = 'google_user_info';
@@ -46,13 +52,58 @@ export interface GoogleCalendarEvent {
     date?: string;
     timeZone?: string;
   };
+  recurrence?: string[]; // RRULE / EXDATE lines
   attendees?: Array<{ email: string }>;
   reminders?: {
     useDefault: boolean;
     overrides?: Array<{ method: string; minutes: number }>;
   };
+  // Set by Google on events it returns
+  status?: 'confirmed' | 'tentative' | 'cancelled';
+  updated?: string; // RFC 3339 last-modified time
+  recurringEventId?: string; // Present on single instances of a recurring event
+  originalStartTime?: {
+    dateTime?: string;
+    date?: string;
+  };
+  extendedProperties?: {
+    private?: Record<string, string>;
+  };
+}
+
+// One page of GET /events; the last page carries the token for the next incremental sync
+export interface GoogleEventPage {
+  items: GoogleCalendarEvent[];
+  nextPageToken?: string;
+  nextSyncToken?: string;
 }
 
+/**
+ * The calls the sync engine makes, so it can run against a mock.
+ * Unlike the helpers below these throw a GoogleApiError instead of
+ * returning null, because the engine has to tell "gone" from "failed".
+ */
+export interface GoogleCalendarApi {
+  listChanges: (syncToken?: string, pageToken?: string) => Promise<GoogleEventPage>;
+  insertEvent: (event: GoogleCalendarEvent) => Promise<GoogleCalendarEvent>;
+  updateEvent: (googleId: string, event: GoogleCalendarEvent) => Promise<GoogleCalendarEvent>;
+  deleteEvent: (googleId: string) => Promise<void>;
+}
+
+export class GoogleApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'GoogleApiError';
+    this.status = status;
+  }
+}
+
+// 404 / 410: the event was deleted, or a sync token has expired
+export const isGoogleGoneError = (error: unknown): boolean =>
+  error instanceof GoogleApiError && (error.status === 404 || error.status === 410);
+
 /**
  * Generate the Google OAuth authorization URL
  */
@@ -434,6 +485,7 @@ export const convertToGoogleEvent = (
     endDate?: string;
     endTime?: string;
     isAllDay?: boolean;
+    recurrencePattern?: RecurrencePattern;
   }
 ): GoogleCalendarEvent => {
   const googleEvent: GoogleCalendarEvent = {
@@ -445,24 +497,127 @@ export const convertToGoogleEvent = (
   };
 
   if (event.isAllDay || !event.startTime) {
-    // All-day event
+    // All-day event; Google's end date is exclusive
     googleEvent.start = { date: event.startDate };
-    googleEvent.end = { date: event.endDate || event.startDate };
+    googleEvent.end = { date: addDays(event.endDate || event.startDate, 1) };
   } else {
-    // Timed event
-    const startDateTime = `${event.startDate}T${event.startTime}:00`;
-    googleEvent.start = { dateTime: startDateTime, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone };
+    // Timed event, as wall-clock time in the app's time zone
+    const timeZone = getDefaultTimeZone();
+    googleEvent.start = { dateTime: `${event.startDate}T${event.startTime}:00`, timeZone };
 
     if (event.endTime) {
-      const endDateTime = `${event.endDate || event.startDate}T${event.endTime}:00`;
-      googleEvent.end = { dateTime: endDateTime, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone };
+      googleEvent.end = { dateTime: `${event.endDate || event.startDate}T${event.endTime}:00`, timeZone };
     } else {
       // Default to 1 hour duration
-      const start = new Date(startDateTime);
-      start.setHours(start.getHours() + 1);
-      googleEvent.end = { dateTime: start.toISOString(), timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone };
+      const end = addMinutes(event.startDate, event.startTime, 60, timeZone);
+      googleEvent.end = { dateTime: `${end.date}T${end.time}:00`, timeZone };
     }
   }
 
+  if (event.recurrencePattern) {
+    googleEvent.recurrence = buildRecurrenceLines(event.recurrencePattern, {
+      anchorDate: event.startDate,
+      startTime: event.isAllDay ? undefined : event.startTime,
+      timeZone: googleEvent.start.timeZone,
+    });
+  }
+
+  return googleEvent;
+};
+
+/**
+ * Convert a job task to a Google Calendar event. Tasks with a due time
+ * start then and last their estimated duration; the rest are all-day.
+ */
+export const convertTaskToGoogleEvent = (task: JobTask): GoogleCalendarEvent => {
+  // Build description with task details
+  let description = '';
+  if (task.description) {
+    description += task.description + '\n\n';
+  }
+  description += `Status: ${task.status}\n`;
+  description += `Priority: ${task.priority}\n`;
+  if (task.estimatedDuration) {
+    description += `Estimated Duration: ${task.estimatedDuration} minutes\n`;
+  }
+  if (task.steps && task.steps.length > 0) {
+    description += '\nSteps:\n';
+    task.steps.forEach((step, index) => {
+      const isCompleted = task.completedSteps.includes(step.id);
+      description += `${isCompleted ? '✓' : '○'} ${index + 1}. ${step.title}\n`;
+    });
+  }
+
+  const googleEvent = convertToGoogleEvent({
+    title: `[Task] ${task.title}`,
+    description: description.trim(),
+    startDate: task.scheduledDate,
+    startTime: task.dueTime,
+    isAllDay: !task.dueTime,
+  });
+
+  // Set duration based on estimated time
+  if (task.dueTime && task.estimatedDuration) {
+    const timeZone = getDefaultTimeZone();
+    const end = addMinutes(task.scheduledDate, task.dueTime, task.estimatedDuration, timeZone);
+    googleEvent.end = { dateTime: `${end.date}T${end.time}:00`, timeZone };
+  }
+
   return googleEvent;
 };
+
+const googleRequest = async <T>(path: string, init: RequestInit = {}): Promise<T | null> => {
+  const accessToken = await getValidAccessToken();
+  if (!accessToken) throw new GoogleApiError('Not connected to Google Calendar', 401);
+
+  const response = await fetch(`${CALENDAR_API_URL}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+  });
+
+  if (!response.ok) {
+    throw new GoogleApiError(`Google Calendar request failed (${response.status})`, response.status);
+  }
+  return response.status === 204 ? null : await response.json();
+};
+
+/**
+ * GoogleCalendarApi backed by the REST API. Listing without a sync token is
+ * a full listing of the calendar; Google answers 410 once a token expires.
+ */
+export const createGoogleCalendarApi = (calendarId: string = 'primary'): GoogleCalendarApi => {
+  const eventsPath = `/calendars/${encodeURIComponent(calendarId)}/events`;
+
+  const requireEvent = (event: GoogleCalendarEvent | null): GoogleCalendarEvent => {
+    if (!event) throw new GoogleApiError('Google Calendar returned no event', 500);
+    return event;
+  };
+
+  return {
+    listChanges: async (syncToken, pageToken) => {
+      const params = new URLSearchParams({ maxResults: '250' });
+      if (syncToken) params.set('syncToken', syncToken);
+      if (pageToken) params.set('pageToken', pageToken);
+
+      const data = await googleRequest<any>(`${eventsPath}?${params}`);
+      return {
+        items: data?.items || [],
+        nextPageToken: data?.nextPageToken,
+        nextSyncToken: data?.nextSyncToken,
+      };
+    },
+    insertEvent: async (event) =>
+      requireEvent(await googleRequest<GoogleCalendarEvent>(eventsPath, { method: 'POST', body: JSON.stringify(event) })),
+    updateEvent: async (googleId, event) =>
+      requireEvent(await googleRequest<GoogleCalendarEvent>(`${eventsPath}/${encodeURIComponent(googleId)}`, {
+        method: 'PUT',
+        body: JSON.stringify(event),
+      })),
+    deleteEvent: async (googleId) => {
+      await googleRequest(`${eventsPath}/${encodeURIComponent(googleId)}`, { method: 'DELETE' });
+    },
+  };
+};
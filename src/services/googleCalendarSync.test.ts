@@ -0,0 +1,416 @@
+import { CalendarEvent, JobTask } from '../types';
+import { GoogleApiError, GoogleCalendarApi, GoogleCalendarEvent, GoogleEventPage } from './googleCalendar';
+import {
+  EMPTY_SYNC_STATE,
+  GoogleSyncState,
+  NewCalendarEvent,
+  SYNC_KEY_PROPERTY,
+  SyncLocalStore,
+  getSyncKey,
+  resolveSyncConflict,
+  runGoogleCalendarSync,
+} from './googleCalendarSync';
+
+// A Google calendar in memory. Every write is a change; sync tokens are
+// positions in the change list, and deletions show up as cancelled events.
+class FakeGoogleCalendar implements GoogleCalendarApi {
+  events = new Map<string, GoogleCalendarEvent>();
+  private changes: GoogleCalendarEvent[] = [];
+  private nextId = 1;
+
+  constructor(private clock: () => Date) {}
+
+  private record(event: GoogleCalendarEvent) {
+    this.changes.push(event);
+    return event;
+  }
+
+  // Simulates an edit or creation made in the Google Calendar app
+  put(event: GoogleCalendarEvent) {
+    const saved = { ...event, id: event.id || `g${this.nextId++}`, updated: this.clock().toISOString() };
+    this.events.set(saved.id, saved);
+    return this.record(saved);
+  }
+
+  remove(googleId: string) {
+    this.events.delete(googleId);
+    this.record({ id: googleId, summary: '', start: {}, end: {}, status: 'cancelled', updated: this.clock().toISOString() });
+  }
+
+  listChanges = async (syncToken?: string): Promise<GoogleEventPage> => ({
+    items: syncToken === undefined ? Array.from(this.events.values()) : this.changes.slice(Number(syncToken)),
+    nextSyncToken: String(this.changes.length),
+  });
+
+  insertEvent = async (event: GoogleCalendarEvent) => this.put({ ...event, id: undefined });
+
+  updateEvent = async (googleId: string, event: GoogleCalendarEvent) => {
+    if (!this.events.has(googleId)) throw new GoogleApiError('Not Found', 404);
+    return this.put({ ...event, id: googleId });
+  };
+
+  deleteEvent = async (googleId: string) => {
+    if (!this.events.has(googleId)) throw new GoogleApiError('Gone', 410);
+    this.remove(googleId);
+  };
+}
+
+// The app's events and tasks in memory
+class FakeLocalStore implements SyncLocalStore {
+  events: CalendarEvent[] = [];
+  tasks: JobTask[] = [];
+  private nextId = 1;
+
+  constructor(private clock: () => Date) {}
+
+  createEvent = async (event: NewCalendarEvent) => {
+    const created: CalendarEvent = { ...event, id: `e${this.nextId++}`, createdBy: 'user-1', createdAt: this.clock().toISOString() };
+    this.events = [...this.events, created];
+    return created;
+  };
+
+  updateEvent = async (id: string, changes: Partial<CalendarEvent>) => {
+    this.events = this.events.map(event =>
+      event.id === id ? { ...event, ...changes, updatedAt: this.clock().toISOString() } : event
+    );
+  };
+
+  deleteEvent = async (id: string) => {
+    this.events = this.events.filter(event => event.id !== id);
+  };
+
+  updateTask = async (id: string, changes: Partial<JobTask>) => {
+    this.tasks = this.tasks.map(task =>
+      task.id === id ? { ...task, ...changes, updatedAt: this.clock().toISOString() } : task
+    );
+  };
+}
+
+const makeEvent = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id: 'e-local',
+  title: 'Team meeting',
+  description: '',
+  startDate: '2026-06-10',
+  isAllDay: true,
+  color: '#3B82F6',
+  attendees: [],
+  isRecurring: false,
+  createdBy: 'user-1',
+  createdAt: '2026-06-01T09:00:00.000Z',
+  ...overrides,
+});
+
+const makeTask = (overrides: Partial<JobTask> = {}): JobTask => ({
+  id: 't-local',
+  title: 'Restock shelves',
+  description: '',
+  assignedTo: ['user-2'],
+  assignedBy: 'user-1',
+  department: 'Operations',
+  category: 'General',
+  scheduledDate: '2026-06-10',
+  estimatedDuration: 30,
+  status: 'pending',
+  priority: 'medium',
+  steps: [],
+  completedSteps: [],
+  progressPercentage: 0,
+  sopIds: [],
+  comments: [],
+  createdAt: '2026-06-01T09:00:00.000Z',
+  ...overrides,
+});
+
+const allDay = (date: string) => ({ start: { date }, end: { date } });
+
+describe('runGoogleCalendarSync', () => {
+  let time: Date;
+  let google: FakeGoogleCalendar;
+  let store: FakeLocalStore;
+
+  const clock = () => time;
+  const tick = () => {
+    time = new Date(time.getTime() + 60 * 1000);
+  };
+  const sync = (state: GoogleSyncState, conflictStrategy: 'latest' | 'manual' = 'latest') =>
+    runGoogleCalendarSync(google, store, state, { conflictStrategy, now: clock });
+
+  // Sync one local event so later runs start from a linked pair
+  const syncedEvent = async (conflictStrategy: 'latest' | 'manual' = 'latest') => {
+    store.events = [makeEvent()];
+    const { state } = await sync(EMPTY_SYNC_STATE, conflictStrategy);
+    tick();
+    return { state, googleId: state.links[getSyncKey('event', 'e-local')].googleId };
+  };
+
+  beforeEach(() => {
+    time = new Date('2026-06-05T12:00:00.000Z');
+    google = new FakeGoogleCalendar(clock);
+    store = new FakeLocalStore(clock);
+  });
+
+  describe('creating', () => {
+    it('pushes new local events tagged with their sync key, once', async () => {
+      store.events = [makeEvent()];
+
+      const first = await sync(EMPTY_SYNC_STATE);
+      expect(first.pushed).toBe(1);
+      const [remote] = Array.from(google.events.values());
+      expect(remote.summary).toBe('Team meeting');
+      expect(remote.extendedProperties?.private?.[SYNC_KEY_PROPERTY]).toBe('event:e-local');
+
+      tick();
+      const second = await sync(first.state);
+      expect(second).toMatchObject({ pushed: 0, pulled: 0, deleted: 0, newConflicts: 0 });
+      expect(google.events.size).toBe(1);
+    });
+
+    it('imports events created in Google', async () => {
+      google.put({ summary: 'Supplier visit', ...allDay('2026-06-12'), end: { date: '2026-06-13' } });
+
+      const result = await sync(EMPTY_SYNC_STATE);
+
+      expect(result.pulled).toBe(1);
+      expect(store.events).toHaveLength(1);
+      expect(store.events[0]).toMatchObject({ title: 'Supplier visit', startDate: '2026-06-12', isAllDay: true });
+      expect(result.state.links[getSyncKey('event', store.events[0].id)].googleId).toBe('g1');
+    });
+
+    it('adopts a tagged Google copy instead of pushing a duplicate', async () => {
+      store.events = [makeEvent()];
+      google.put({
+        summary: 'Team meeting',
+        ...allDay('2026-06-10'),
+        extendedProperties: { private: { [SYNC_KEY_PROPERTY]: 'event:e-local' } },
+      });
+
+      const result = await sync(EMPTY_SYNC_STATE);
+
+      expect(google.events.size).toBe(1);
+      expect(result.state.links['event:e-local'].googleId).toBe('g1');
+      expect(store.events).toHaveLength(1);
+    });
+
+    it('does not import tagged copies of tasks', async () => {
+      google.put({
+        summary: '[Task] Old task',
+        ...allDay('2026-06-10'),
+        extendedProperties: { private: { [SYNC_KEY_PROPERTY]: 'task:gone' } },
+      });
+
+      const result = await sync(EMPTY_SYNC_STATE);
+
+      expect(result.pulled).toBe(0);
+      expect(store.events).toHaveLength(0);
+    });
+  });
+
+  describe('updating', () => {
+    it('pushes local edits and pulls Google edits', async () => {
+      const { state, googleId } = await syncedEvent();
+
+      await store.updateEvent('e-local', { title: 'Team meeting (moved)' });
+      const pushed = await sync(state);
+      expect(pushed.pushed).toBe(1);
+      expect(google.events.get(googleId)?.summary).toBe('Team meeting (moved)');
+
+      tick();
+      google.put({ ...google.events.get(googleId)!, summary: 'Renamed in Google' });
+      const pulled = await sync(pushed.state);
+      expect(pulled.pulled).toBe(1);
+      expect(store.events[0].title).toBe('Renamed in Google');
+    });
+
+    it('keeps the newer side when both changed and conflicts go to the latest edit', async () => {
+      const { state, googleId } = await syncedEvent();
+
+      await store.updateEvent('e-local', { title: 'Local edit' });
+      tick();
+      google.put({ ...google.events.get(googleId)!, summary: 'Google edit' });
+
+      const result = await sync(state);
+
+      expect(result).toMatchObject({ pulled: 1, pushed: 0, newConflicts: 0 });
+      expect(store.events[0].title).toBe('Google edit');
+    });
+
+    it('pushes the local side when it is the newer edit', async () => {
+      const { state, googleId } = await syncedEvent();
+
+      google.put({ ...google.events.get(googleId)!, summary: 'Google edit' });
+      tick();
+      await store.updateEvent('e-local', { title: 'Local edit' });
+
+      const result = await sync(state);
+
+      expect(result).toMatchObject({ pushed: 1, pulled: 0, newConflicts: 0 });
+      expect(google.events.get(googleId)?.summary).toBe('Local edit');
+    });
+
+    it('records a conflict when conflicts are decided by hand, and resolves it', async () => {
+      const { state, googleId } = await syncedEvent('manual');
+
+      await store.updateEvent('e-local', { title: 'Local edit' });
+      tick();
+      google.put({ ...google.events.get(googleId)!, summary: 'Google edit' });
+
+      const result = await sync(state, 'manual');
+
+      expect(result.newConflicts).toBe(1);
+      expect(result.state.conflicts[0]).toMatchObject({ key: 'event:e-local', localDeleted: false, title: 'Local edit' });
+      expect(result.state.conflicts[0].remote?.summary).toBe('Google edit');
+      expect(store.events[0].title).toBe('Local edit');
+      expect(google.events.get(googleId)?.summary).toBe('Google edit');
+
+      // Still open on the next run
+      tick();
+      const again = await sync(result.state, 'manual');
+      expect(again.newConflicts).toBe(0);
+      expect(again.state.conflicts).toHaveLength(1);
+
+      const resolved = await resolveSyncConflict(google, store, again.state, 'event:e-local', 'local', clock());
+      expect(resolved.conflicts).toHaveLength(0);
+      expect(google.events.get(googleId)?.summary).toBe('Local edit');
+    });
+
+    it('re-creates the Google event when the linked one has disappeared', async () => {
+      const { state, googleId } = await syncedEvent();
+      google.events.delete(googleId); // Gone without a change record
+
+      await store.updateEvent('e-local', { title: 'Local edit' });
+      const result = await sync(state);
+
+      expect(result.pushed).toBe(1);
+      const newId = result.state.links['event:e-local'].googleId;
+      expect(newId).not.toBe(googleId);
+      expect(google.events.get(newId)?.summary).toBe('Local edit');
+    });
+
+    it('brings back only the schedule of tasks', async () => {
+      store.tasks = [makeTask()];
+      const { state } = await sync(EMPTY_SYNC_STATE);
+      const googleId = state.links['task:t-local'].googleId;
+      tick();
+
+      google.put({ ...google.events.get(googleId)!, summary: 'Renamed in Google', ...allDay('2026-06-11') });
+      const result = await sync(state);
+
+      expect(result.pulled).toBe(1);
+      expect(store.tasks[0]).toMatchObject({ title: 'Restock shelves', scheduledDate: '2026-06-11' });
+    });
+  });
+
+  describe('deleting', () => {
+    it('deletes the local event when it was deleted in Google and not edited here', async () => {
+      const { state, googleId } = await syncedEvent();
+
+      google.remove(googleId);
+      const result = await sync(state);
+
+      expect(result.deleted).toBe(1);
+      expect(store.events).toHaveLength(0);
+      expect(result.state.links['event:e-local']).toBeUndefined();
+    });
+
+    it('deletes the Google event when it was deleted here and not edited there', async () => {
+      const { state, googleId } = await syncedEvent();
+
+      await store.deleteEvent('e-local');
+      const result = await sync(state);
+
+      expect(result.deleted).toBe(1);
+      expect(google.events.has(googleId)).toBe(false);
+      expect(result.state.links['event:e-local']).toBeUndefined();
+    });
+
+    it('treats an event missing from a full listing as deleted in Google', async () => {
+      const { state, googleId } = await syncedEvent();
+
+      google.events.delete(googleId);
+      const result = await sync({ ...state, syncToken: undefined });
+
+      expect(result.deleted).toBe(1);
+      expect(store.events).toHaveLength(0);
+    });
+
+    it('keeps a conflict when Google deleted an event that was edited here', async () => {
+      const { state, googleId } = await syncedEvent();
+
+      await store.updateEvent('e-local', { title: 'Local edit' });
+      google.remove(googleId);
+      const result = await sync(state);
+
+      expect(result.newConflicts).toBe(1);
+      expect(result.state.conflicts[0]).toMatchObject({ key: 'event:e-local', localDeleted: false, remote: null });
+      expect(store.events).toHaveLength(1);
+
+      // Keeping the local side puts it back in Google
+      const resolved = await resolveSyncConflict(google, store, result.state, 'event:e-local', 'local', clock());
+      expect(resolved.conflicts).toHaveLength(0);
+      expect(google.events.get(resolved.links['event:e-local'].googleId)?.summary).toBe('Local edit');
+    });
+
+    it('keeps a conflict when an event deleted here was edited in Google, and can restore it', async () => {
+      const { state, googleId } = await syncedEvent();
+
+      await store.deleteEvent('e-local');
+      google.put({ ...google.events.get(googleId)!, summary: 'Google edit' });
+      const result = await sync(state);
+
+      expect(result.newConflicts).toBe(1);
+      expect(result.state.conflicts[0]).toMatchObject({ key: 'event:e-local', localDeleted: true });
+      expect(google.events.has(googleId)).toBe(true);
+
+      // Keeping Google's side imports it again as a new local event
+      const resolved = await resolveSyncConflict(google, store, result.state, 'event:e-local', 'remote', clock());
+      expect(resolved.conflicts).toHaveLength(0);
+      expect(store.events).toHaveLength(1);
+      expect(store.events[0].title).toBe('Google edit');
+      expect(resolved.links[getSyncKey('event', store.events[0].id)].googleId).toBe(googleId);
+    });
+
+    it('stops mirroring a task whose Google copy was deleted', async () => {
+      store.tasks = [makeTask()];
+      const { state } = await sync(EMPTY_SYNC_STATE);
+      const googleId = state.links['task:t-local'].googleId;
+      tick();
+
+      google.remove(googleId);
+      const result = await sync(state);
+
+      expect(store.tasks).toHaveLength(1);
+      expect(result.state.links['task:t-local'].detached).toBe(true);
+
+      tick();
+      await store.updateTask('t-local', { title: 'Edited after' });
+      const next = await sync(result.state);
+      expect(next.pushed).toBe(0);
+      expect(google.events.size).toBe(0);
+    });
+
+    it('turns a cancelled occurrence into a skip date on the series', async () => {
+      store.events = [makeEvent({ isRecurring: true, recurrencePattern: { frequency: 'weekly', daysOfWeek: [3] } })];
+      const { state } = await sync(EMPTY_SYNC_STATE);
+      const googleId = state.links['event:e-local'].googleId;
+      tick();
+
+      google.put({
+        id: `${googleId}_20260617`,
+        summary: '',
+        start: {},
+        end: {},
+        status: 'cancelled',
+        recurringEventId: googleId,
+        originalStartTime: { date: '2026-06-17' },
+      });
+      const result = await sync(state);
+
+      expect(store.events[0].recurrencePattern?.skipDates).toEqual(['2026-06-17']);
+
+      // The new skip date is already in Google, so nothing is pushed back
+      tick();
+      const next = await sync(result.state);
+      expect(next.pushed).toBe(0);
+    });
+  });
+});
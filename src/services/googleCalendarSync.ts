@@ -0,0 +1,541 @@
+/**
+ * Google Calendar Sync
+ * Two-way sync between local events / job tasks and one Google calendar.
+ *
+ * Every synced item has a link holding its Google event id, Google's
+ * `updated` time and a fingerprint of the item as we last sent or received
+ * it. A run pulls remote changes with an incremental sync token (a full
+ * listing the first time, or after Google expires the token), finds local
+ * changes by comparing fingerprints, and then pushes, pulls or deletes.
+ *
+ * When both sides changed since the last run the newer edit wins, unless
+ * conflicts are set to be decided by hand or one side deleted the event
+ * (there is no time to compare a deletion against). Those are kept as
+ * SyncConflicts until resolveSyncConflict is called.
+ *
+ * Tasks are owned by the app: they are mirrored to Google, date and time
+ * changes made there come back, and deleting the Google copy only stops the
+ * mirroring.
+ *
+ * Nothing in here touches React state or fetch. Google is reached through
+ * a GoogleCalendarApi and local data through a SyncLocalStore, so the
+ * engine runs the same against mocks.
+ */
+
+import { CalendarEvent, JobTask } from '../types';
+import {
+  GoogleCalendarApi,
+  GoogleCalendarEvent,
+  convertTaskToGoogleEvent,
+  convertToGoogleEvent,
+  isGoogleGoneError,
+} from './googleCalendar';
+import { parseRecurrenceLines } from '../utils/rrule';
+import { addDays, getTodayKey, toZonedDateTime } from '../utils/dateTime';
+import { minutesBetween } from '../utils/timeline';
+
+export type SyncItemKind = 'event' | 'task';
+export type ConflictStrategy = 'latest' | 'manual';
+export type ConflictSide = 'local' | 'remote';
+
+// Private extended property that ties a Google event back to the local item
+export const SYNC_KEY_PROPERTY = 'mediamapleKey';
+
+// Google events that ended longer ago than this are not imported
+const IMPORT_PAST_DAYS = 30;
+
+const DEFAULT_EVENT_COLOR = '#3B82F6';
+
+export interface SyncLink {
+  kind: SyncItemKind;
+  localId: string;
+  googleId: string;
+  fingerprint: string; // The local item as a Google event at the last sync
+  remoteUpdated?: string; // Google's `updated` at the last sync
+  syncedAt: string;
+  detached?: boolean; // Task whose Google copy was deleted; no longer mirrored
+}
+
+export interface SyncConflict {
+  key: string;
+  kind: SyncItemKind;
+  localId: string;
+  googleId: string;
+  title: string;
+  localUpdatedAt?: string;
+  remoteUpdatedAt?: string;
+  localDeleted: boolean;
+  remote: GoogleCalendarEvent | null; // null when deleted in Google
+  detectedAt: string;
+}
+
+export interface GoogleSyncState {
+  syncToken?: string;
+  links: Record<string, SyncLink>; // Keyed by getSyncKey(kind, localId)
+  conflicts: SyncConflict[];
+  lastSyncedAt?: string;
+}
+
+export const EMPTY_SYNC_STATE: GoogleSyncState = { links: {}, conflicts: [] };
+
+export type NewCalendarEvent = Omit<CalendarEvent, 'id' | 'createdAt' | 'createdBy'>;
+
+export interface SyncLocalStore {
+  events: CalendarEvent[];
+  tasks: JobTask[]; // The tasks to mirror; ones that drop out are removed from Google
+  createEvent: (event: NewCalendarEvent) => Promise<CalendarEvent>;
+  updateEvent: (id: string, changes: Partial<CalendarEvent>) => Promise<void>;
+  deleteEvent: (id: string) => Promise<void>;
+  updateTask: (id: string, changes: Partial<JobTask>) => Promise<void>;
+}
+
+export interface SyncOptions {
+  conflictStrategy: ConflictStrategy;
+  now?: () => Date;
+}
+
+export interface SyncResult {
+  state: GoogleSyncState;
+  pushed: number;
+  pulled: number;
+  deleted: number;
+  newConflicts: number;
+  errors: string[];
+}
+
+export type LocalItem =
+  | { kind: 'event'; item: CalendarEvent }
+  | { kind: 'task'; item: JobTask };
+
+export const getSyncKey = (kind: SyncItemKind, localId: string) => `${kind}:${localId}`;
+
+const titleOf = (local: LocalItem) => local.item.title;
+
+const localUpdatedAt = (local: LocalItem) => local.item.updatedAt || local.item.createdAt;
+
+// The local item as it should look in Google, tagged with its sync key
+export const toGoogleEvent = (local: LocalItem): GoogleCalendarEvent => {
+  const googleEvent = local.kind === 'task'
+    ? convertTaskToGoogleEvent(local.item)
+    : convertToGoogleEvent({
+        title: local.item.title,
+        description: local.item.description,
+        location: local.item.location,
+        startDate: local.item.startDate,
+        startTime: local.item.startTime,
+        endDate: local.item.endDate,
+        endTime: local.item.endTime,
+        isAllDay: local.item.isAllDay,
+        recurrencePattern: local.item.isRecurring ? local.item.recurrencePattern : undefined,
+      });
+
+  return {
+    ...googleEvent,
+    extendedProperties: { private: { [SYNC_KEY_PROPERTY]: getSyncKey(local.kind, local.item.id) } },
+  };
+};
+
+const fingerprint = (local: LocalItem): string => {
+  const { summary, description, location, start, end, recurrence } = toGoogleEvent(local);
+  return JSON.stringify({ summary, description, location, start, end, recurrence });
+};
+
+// Date and HH:MM of a Google start/end in the app's time zone
+const readGoogleTime = (time: GoogleCalendarEvent['start']) => {
+  if (time.date) return { date: time.date };
+  const value = new Date(time.dateTime || '');
+  const zoned = toZonedDateTime(value);
+  return { date: zoned.date, time: zoned.time, value };
+};
+
+/**
+ * The event fields a Google event stands for. All-day end dates are
+ * exclusive in Google and inclusive here.
+ */
+export const fromGoogleEvent = (remote: GoogleCalendarEvent): Partial<CalendarEvent> => {
+  const start = readGoogleTime(remote.start);
+  const end = readGoogleTime(remote.end);
+  const isAllDay = !!remote.start.date;
+  const endDate = isAllDay ? addDays(end.date, -1) : end.date;
+  const pattern = remote.recurrence ? parseRecurrenceLines(remote.recurrence) : null;
+
+  return {
+    title: remote.summary || '(No title)',
+    description: remote.description || '',
+    location: remote.location || undefined,
+    startDate: start.date,
+    endDate: endDate > start.date ? endDate : undefined,
+    startTime: isAllDay ? undefined : start.time,
+    endTime: isAllDay ? undefined : end.time,
+    isAllDay,
+    isRecurring: !!pattern,
+    recurrencePattern: pattern || undefined,
+  };
+};
+
+// Only the schedule of a task comes back from Google
+export const fromGoogleTask = (remote: GoogleCalendarEvent): Partial<JobTask> => {
+  const start = readGoogleTime(remote.start);
+  if (!start.value) return { scheduledDate: start.date, dueTime: undefined };
+
+  const end = readGoogleTime(remote.end);
+  const duration = end.value ? minutesBetween(start.value, end.value) : 0;
+  return {
+    scheduledDate: start.date,
+    dueTime: start.time,
+    ...(duration > 0 && { estimatedDuration: duration }),
+  };
+};
+
+const isNewer = (a?: string, b?: string) =>
+  !!a && (!b || new Date(a).getTime() > new Date(b).getTime());
+
+const endsBefore = (remote: GoogleCalendarEvent, dateKey: string) => {
+  if (remote.recurrence) return false;
+  const end = readGoogleTime(remote.end);
+  return (remote.end.date ? addDays(end.date, -1) : end.date) < dateKey;
+};
+
+const listAll = async (api: GoogleCalendarApi, syncToken?: string) => {
+  const items: GoogleCalendarEvent[] = [];
+  let pageToken: string | undefined;
+  let nextSyncToken: string | undefined;
+
+  do {
+    const page = await api.listChanges(syncToken, pageToken);
+    items.push(...page.items);
+    pageToken = page.nextPageToken;
+    nextSyncToken = page.nextSyncToken;
+  } while (pageToken);
+
+  return { items, syncToken: nextSyncToken };
+};
+
+// Incremental changes, falling back to a full listing when the token has expired
+const pullChanges = async (api: GoogleCalendarApi, syncToken?: string) => {
+  if (!syncToken) return { ...(await listAll(api)), fullSync: true };
+  try {
+    return { ...(await listAll(api, syncToken)), fullSync: false };
+  } catch (error) {
+    if (!isGoogleGoneError(error)) throw error;
+    return { ...(await listAll(api)), fullSync: true };
+  }
+};
+
+const deleteRemote = async (api: GoogleCalendarApi, googleId: string) => {
+  try {
+    await api.deleteEvent(googleId);
+  } catch (error) {
+    if (!isGoogleGoneError(error)) throw error;
+  }
+};
+
+/**
+ * Write the local item to Google (creating it if the link has no event or
+ * the event is gone) and return the refreshed link.
+ */
+const pushLocal = async (api: GoogleCalendarApi, local: LocalItem, link: SyncLink | undefined, now: string): Promise<SyncLink> => {
+  const payload = toGoogleEvent(local);
+  let saved: GoogleCalendarEvent | null = null;
+
+  if (link?.googleId) {
+    try {
+      saved = await api.updateEvent(link.googleId, payload);
+    } catch (error) {
+      if (!isGoogleGoneError(error)) throw error;
+    }
+  }
+  if (!saved) saved = await api.insertEvent(payload);
+
+  return {
+    kind: local.kind,
+    localId: local.item.id,
+    googleId: saved.id || link?.googleId || '',
+    fingerprint: fingerprint(local),
+    remoteUpdated: saved.updated,
+    syncedAt: now,
+  };
+};
+
+// Apply a Google event to the linked local item and return the refreshed link
+const pullRemote = async (store: SyncLocalStore, local: LocalItem, remote: GoogleCalendarEvent, link: SyncLink, now: string): Promise<SyncLink> => {
+  let updated: LocalItem;
+  if (local.kind === 'event') {
+    const changes = fromGoogleEvent(remote);
+    await store.updateEvent(local.item.id, changes);
+    updated = { kind: 'event', item: { ...local.item, ...changes } };
+  } else {
+    const changes = fromGoogleTask(remote);
+    await store.updateTask(local.item.id, changes);
+    updated = { kind: 'task', item: { ...local.item, ...changes } };
+  }
+
+  return { ...link, fingerprint: fingerprint(updated), remoteUpdated: remote.updated, syncedAt: now };
+};
+
+// Create a local event for a Google event and link them
+const importRemote = async (store: SyncLocalStore, remote: GoogleCalendarEvent, now: string): Promise<[string, SyncLink]> => {
+  const created = await store.createEvent({
+    color: DEFAULT_EVENT_COLOR,
+    attendees: [],
+    ...fromGoogleEvent(remote),
+  } as NewCalendarEvent);
+  const local: LocalItem = { kind: 'event', item: created };
+
+  return [getSyncKey('event', created.id), {
+    kind: 'event',
+    localId: created.id,
+    googleId: remote.id || '',
+    fingerprint: fingerprint(local),
+    remoteUpdated: remote.updated,
+    syncedAt: now,
+  }];
+};
+
+const collectLocalItems = (store: SyncLocalStore): Map<string, LocalItem> => {
+  const items = new Map<string, LocalItem>();
+  store.events.forEach(item => items.set(getSyncKey('event', item.id), { kind: 'event', item }));
+  store.tasks.forEach(item => items.set(getSyncKey('task', item.id), { kind: 'task', item }));
+  return items;
+};
+
+/**
+ * Run one sync. Returns the state to keep for the next run; conflicts from
+ * earlier runs are carried over until they are resolved.
+ */
+export const runGoogleCalendarSync = async (
+  api: GoogleCalendarApi,
+  store: SyncLocalStore,
+  state: GoogleSyncState,
+  options: SyncOptions
+): Promise<SyncResult> => {
+  const currentTime = options.now ? options.now() : new Date();
+  const now = currentTime.toISOString();
+  const links = { ...state.links };
+  const conflicts = [...state.conflicts];
+  const openConflicts = new Set(conflicts.map(c => c.key));
+  const localItems = collectLocalItems(store);
+  const result = { pushed: 0, pulled: 0, deleted: 0, newConflicts: 0, errors: [] as string[] };
+
+  const fail = (title: string, error: unknown) => {
+    console.error(`Google Calendar sync failed for "${title}":`, error);
+    result.errors.push(title);
+  };
+
+  // 1. Sort the remote changes into linked items, new events and cancelled occurrences
+  const pulled = await pullChanges(api, state.syncToken);
+  const keyByGoogleId = new Map(Object.entries(links).map(([key, link]) => [link.googleId, key]));
+  const remoteByKey = new Map<string, GoogleCalendarEvent | null>(); // null = deleted in Google
+  const newRemote: GoogleCalendarEvent[] = [];
+  const cancelledOccurrences: GoogleCalendarEvent[] = [];
+
+  pulled.items.forEach(remote => {
+    if (!remote.id) return;
+    if (remote.recurringEventId) {
+      // Edited single occurrences can't be represented; cancelled ones become skip dates
+      if (remote.status === 'cancelled') cancelledOccurrences.push(remote);
+      return;
+    }
+
+    let key = keyByGoogleId.get(remote.id);
+    const taggedKey = remote.extendedProperties?.private?.[SYNC_KEY_PROPERTY];
+    if (!key && taggedKey && !links[taggedKey] && localItems.has(taggedKey) && remote.status !== 'cancelled') {
+      // Pushed by an earlier one-off "add to Google" or a lost sync state: adopt it
+      const local = localItems.get(taggedKey)!;
+      links[taggedKey] = {
+        kind: local.kind,
+        localId: local.item.id,
+        googleId: remote.id,
+        fingerprint: '',
+        remoteUpdated: remote.updated,
+        syncedAt: now,
+      };
+      keyByGoogleId.set(remote.id, taggedKey);
+      return;
+    }
+
+    if (key) {
+      remoteByKey.set(key, remote.status === 'cancelled' ? null : remote);
+    } else if (remote.status !== 'cancelled' && !(taggedKey && (links[taggedKey] || localItems.has(taggedKey) || taggedKey.startsWith('task:')))) {
+      // Tagged copies of items we already sync are stray duplicates; tasks are never imported
+      newRemote.push(remote);
+    }
+  });
+
+  if (pulled.fullSync) {
+    // A full listing leaves deleted events out instead of marking them cancelled
+    const listed = new Set(pulled.items.map(remote => remote.id));
+    Object.entries(links).forEach(([key, link]) => {
+      if (!link.detached && !listed.has(link.googleId)) remoteByKey.set(key, null);
+    });
+  }
+
+  // 2. Reconcile linked items
+  for (const [key, link] of Object.entries(links)) {
+    if (openConflicts.has(key)) continue;
+
+    const local = localItems.get(key);
+    if (link.detached) {
+      if (!local) delete links[key];
+      continue;
+    }
+
+    const remote = remoteByKey.get(key); // undefined = unchanged in Google
+    const remoteChanged = remote === null || (remote !== undefined && isNewer(remote.updated, link.remoteUpdated));
+    const localChanged = !!local && fingerprint(local) !== link.fingerprint;
+    const title = local ? titleOf(local) : remote?.summary || 'Untitled event';
+
+    try {
+      if (!local) {
+        if (remote === null) {
+          delete links[key];
+        } else if (!remoteChanged || link.kind === 'task') {
+          await deleteRemote(api, link.googleId);
+          delete links[key];
+          result.deleted += 1;
+        } else {
+          conflicts.push({
+            key, kind: link.kind, localId: link.localId, googleId: link.googleId, title,
+            remoteUpdatedAt: remote!.updated, localDeleted: true, remote: remote!, detectedAt: now,
+          });
+          result.newConflicts += 1;
+        }
+        continue;
+      }
+
+      if (remote === null) {
+        if (local.kind === 'task') {
+          links[key] = { ...link, detached: true, syncedAt: now };
+        } else if (!localChanged) {
+          await store.deleteEvent(local.item.id);
+          delete links[key];
+          localItems.delete(key); // Or step 4 would push it back
+          result.deleted += 1;
+        } else {
+          conflicts.push({
+            key, kind: link.kind, localId: link.localId, googleId: link.googleId, title,
+            localUpdatedAt: localUpdatedAt(local), localDeleted: false, remote: null, detectedAt: now,
+          });
+          result.newConflicts += 1;
+        }
+        continue;
+      }
+
+      if (!remoteChanged && !localChanged) continue;
+
+      let winner: ConflictSide | null = remoteChanged ? 'remote' : 'local';
+      if (remoteChanged && localChanged) {
+        winner = options.conflictStrategy === 'latest'
+          ? (isNewer(remote!.updated, localUpdatedAt(local)) ? 'remote' : 'local')
+          : null;
+      }
+
+      if (winner === 'local') {
+        links[key] = await pushLocal(api, local, link, now);
+        result.pushed += 1;
+      } else if (winner === 'remote') {
+        links[key] = await pullRemote(store, local, remote!, link, now);
+        result.pulled += 1;
+      } else {
+        conflicts.push({
+          key, kind: link.kind, localId: link.localId, googleId: link.googleId, title,
+          localUpdatedAt: localUpdatedAt(local), remoteUpdatedAt: remote!.updated,
+          localDeleted: false, remote: remote!, detectedAt: now,
+        });
+        result.newConflicts += 1;
+      }
+    } catch (error) {
+      fail(title, error);
+    }
+  }
+
+  // 3. Occurrences cancelled in Google become skip dates on the series
+  for (const occurrence of cancelledOccurrences) {
+    const key = keyByGoogleId.get(occurrence.recurringEventId!);
+    const local = key ? localItems.get(key) : undefined;
+    if (!key || !local || local.kind !== 'event' || !local.item.recurrencePattern || !occurrence.originalStartTime) continue;
+
+    const dateKey = readGoogleTime(occurrence.originalStartTime).date;
+    const pattern = local.item.recurrencePattern;
+    if (pattern.skipDates?.includes(dateKey)) continue;
+
+    try {
+      const recurrencePattern = { ...pattern, skipDates: [...(pattern.skipDates || []), dateKey].sort() };
+      await store.updateEvent(local.item.id, { recurrencePattern });
+      links[key] = { ...links[key], fingerprint: fingerprint({ kind: 'event', item: { ...local.item, recurrencePattern } }) };
+      result.pulled += 1;
+    } catch (error) {
+      fail(local.item.title, error);
+    }
+  }
+
+  // 4. Push local items that have never been synced
+  for (const [key, local] of Array.from(localItems.entries())) {
+    if (links[key]) continue;
+    try {
+      links[key] = await pushLocal(api, local, undefined, now);
+      result.pushed += 1;
+    } catch (error) {
+      fail(titleOf(local), error);
+    }
+  }
+
+  // 5. Import events created in Google
+  const importFrom = addDays(getTodayKey(undefined, currentTime), -IMPORT_PAST_DAYS);
+  for (const remote of newRemote) {
+    if (endsBefore(remote, importFrom)) continue;
+    try {
+      const [key, link] = await importRemote(store, remote, now);
+      links[key] = link;
+      result.pulled += 1;
+    } catch (error) {
+      fail(remote.summary || 'Untitled event', error);
+    }
+  }
+
+  return {
+    ...result,
+    state: { syncToken: pulled.syncToken, links, conflicts, lastSyncedAt: now },
+  };
+};
+
+/**
+ * Settle a conflict by keeping one side: 'local' writes the app's version
+ * (or deletion) to Google, 'remote' takes Google's.
+ */
+export const resolveSyncConflict = async (
+  api: GoogleCalendarApi,
+  store: SyncLocalStore,
+  state: GoogleSyncState,
+  key: string,
+  side: ConflictSide,
+  now: Date = new Date()
+): Promise<GoogleSyncState> => {
+  const conflict = state.conflicts.find(c => c.key === key);
+  if (!conflict) return state;
+
+  const timestamp = now.toISOString();
+  const links = { ...state.links };
+  const link = links[key];
+  const local = collectLocalItems(store).get(key);
+
+  if (side === 'local') {
+    if (!local) {
+      await deleteRemote(api, conflict.googleId);
+      delete links[key];
+    } else {
+      links[key] = await pushLocal(api, local, conflict.remote ? link : undefined, timestamp);
+    }
+  } else if (!conflict.remote) {
+    if (local?.kind === 'event') await store.deleteEvent(local.item.id);
+    delete links[key];
+  } else if (!local) {
+    delete links[key];
+    const [newKey, newLink] = await importRemote(store, conflict.remote, timestamp);
+    links[newKey] = newLink;
+  } else {
+    links[key] = await pullRemote(store, local, conflict.remote, link, timestamp);
+  }
+
+  return { ...state, links, conflicts: state.conflicts.filter(c => c.key !== key) };
+};
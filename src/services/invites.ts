@@ -0,0 +1,215 @@
+/**
+ * Invites
+ *
+ * Admins invite people instead of creating their accounts. Each invite in
+ * `invites` (migration v23) carries a random token; api/send-emails.ts mails
+ * the link, and the invitee sets their own password on /invite/:token. The
+ * signup trigger then gives the new account the invite's role and
+ * departments. Resending issues a new token, so older links stop working.
+ * Without Supabase, invites live in localStorage and the link is copied by
+ * hand. Read through AuthContext.
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { Invite, InviteStatus } from '../types';
+import { generateToken } from '../utils/tokens';
+
+const STORAGE_KEY = 'mediamaple_invites';
+
+// How long an invite link works
+export const INVITE_TTL_DAYS = 7;
+
+export type NewInvite = Pick<Invite, 'email' | 'firstName' | 'lastName' | 'role' | 'roleId' | 'department' | 'departments' | 'invitedBy'>;
+
+// What the acceptance page may know about an invite before signing up
+export type InviteDetails = Pick<Invite, 'email' | 'firstName' | 'lastName' | 'department' | 'expiresAt'>;
+
+// Helper function to convert Supabase invite row to App type
+const mapSupabaseInvite = (row: any): Invite => ({
+  id: row.id,
+  email: row.email,
+  firstName: row.first_name,
+  lastName: row.last_name,
+  role: row.role,
+  roleId: row.role_id || undefined,
+  department: row.department,
+  departments: row.departments || [],
+  token: row.token,
+  invitedBy: row.invited_by,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+  emailSentAt: row.email_sent_at || undefined,
+  acceptedAt: row.accepted_at || undefined,
+  revokedAt: row.revoked_at || undefined,
+});
+
+const getExpiry = () => new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+const readStoredInvites = (): Invite[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeStoredInvites = (invites: Invite[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(invites));
+};
+
+export const getInviteStatus = (invite: Pick<Invite, 'acceptedAt' | 'revokedAt' | 'expiresAt'>, now: Date = new Date()): InviteStatus => {
+  if (invite.acceptedAt) return 'accepted';
+  if (invite.revokedAt) return 'revoked';
+  return new Date(invite.expiresAt) <= now ? 'expired' : 'pending';
+};
+
+export const getInviteUrl = (token: string): string => `${window.location.origin}/invite/${token}`;
+
+/**
+ * Every invite, newest first. Admins only.
+ */
+export const fetchInvites = async (): Promise<Invite[]> => {
+  if (!isSupabaseConfigured()) {
+    return readStoredInvites().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  const { data, error } = await supabase
+    .from('invites')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading invites:', error);
+    throw error;
+  }
+  return (data || []).map(mapSupabaseInvite);
+};
+
+export const createInvite = async (newInvite: NewInvite): Promise<Invite> => {
+  if (!isSupabaseConfigured()) {
+    const invite: Invite = {
+      ...newInvite,
+      id: `invite_${Date.now()}`,
+      token: generateToken(),
+      createdAt: new Date().toISOString(),
+      expiresAt: getExpiry(),
+    };
+    writeStoredInvites([...readStoredInvites(), invite]);
+    return invite;
+  }
+
+  const { data, error } = await supabase
+    .from('invites')
+    .insert({
+      email: newInvite.email,
+      first_name: newInvite.firstName,
+      last_name: newInvite.lastName,
+      role: newInvite.role,
+      role_id: newInvite.roleId || null,
+      department: newInvite.department,
+      departments: newInvite.departments || [],
+      invited_by: newInvite.invitedBy,
+      token: generateToken(),
+      expires_at: getExpiry(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating invite:', error);
+    throw error;
+  }
+  return mapSupabaseInvite(data);
+};
+
+/**
+ * New token and expiry; clearing email_sent_at has the link mailed again.
+ */
+export const renewInvite = async (id: string): Promise<Invite> => {
+  const changes = { token: generateToken(), expiresAt: getExpiry() };
+
+  if (!isSupabaseConfigured()) {
+    const invites = readStoredInvites().map(invite =>
+      invite.id === id ? { ...invite, ...changes, emailSentAt: undefined, revokedAt: undefined } : invite
+    );
+    writeStoredInvites(invites);
+    const renewed = invites.find(invite => invite.id === id);
+    if (!renewed) throw new Error('Invite not found');
+    return renewed;
+  }
+
+  const { data, error } = await supabase
+    .from('invites')
+    .update({ token: changes.token, expires_at: changes.expiresAt, email_sent_at: null, revoked_at: null })
+    .eq('id', id)
+    .is('accepted_at', null)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error renewing invite:', error);
+    throw error;
+  }
+  return mapSupabaseInvite(data);
+};
+
+export const revokeInvite = async (id: string): Promise<void> => {
+  const revokedAt = new Date().toISOString();
+
+  if (!isSupabaseConfigured()) {
+    writeStoredInvites(readStoredInvites().map(invite => (invite.id === id ? { ...invite, revokedAt } : invite)));
+    return;
+  }
+
+  const { error } = await supabase
+    .from('invites')
+    .update({ revoked_at: revokedAt })
+    .eq('id', id)
+    .is('accepted_at', null);
+
+  if (error) {
+    console.error('Error revoking invite:', error);
+    throw error;
+  }
+};
+
+/**
+ * The invite behind a link, or null when it is unknown, used, revoked or
+ * expired. Works signed out (through the `get_invite` function).
+ */
+export const fetchInviteByToken = async (token: string): Promise<InviteDetails | null> => {
+  if (!isSupabaseConfigured()) {
+    const invite = readStoredInvites().find(i => i.token === token);
+    return invite && getInviteStatus(invite) === 'pending' ? invite : null;
+  }
+
+  const { data, error } = await supabase.rpc('get_invite', { invite_token: token });
+
+  if (error) {
+    console.error('Error loading invite:', error);
+    throw error;
+  }
+  const row = Array.isArray(data) ? data[0] : data;
+  return row
+    ? {
+        email: row.email,
+        firstName: row.first_name,
+        lastName: row.last_name,
+        department: row.department,
+        expiresAt: row.expires_at,
+      }
+    : null;
+};
+
+/**
+ * The full invite behind a link in localStorage mode, marked as used.
+ * With Supabase the signup trigger does this.
+ */
+export const claimStoredInvite = (token: string): Invite | null => {
+  const invite = readStoredInvites().find(i => i.token === token);
+  if (!invite || getInviteStatus(invite) !== 'pending') return null;
+
+  const acceptedAt = new Date().toISOString();
+  writeStoredInvites(readStoredInvites().map(i => (i.id === invite.id ? { ...i, acceptedAt } : i)));
+  return { ...invite, acceptedAt };
+};
@@ -0,0 +1,159 @@
+/**
+ * Login Settings
+ *
+ * How people sign in: passwords, emailed sign-in links and single sign-on
+ * through Google Workspace or Microsoft Entra ID, and whether admins need
+ * two-factor. Kept in the organization_settings row (migrations v24 and
+ * v25); the sign-in page reads the public part through the
+ * `get_login_options` function before anyone is signed in. Without Supabase
+ * there is only password sign-in, and the settings are kept in localStorage.
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { LoginSettings, SSOProvider, User } from '../types';
+
+const STORAGE_KEY = 'mediamaple_login_settings';
+
+const SETTINGS_ROW_ID = 'default';
+
+export const SSO_PROVIDERS: SSOProvider[] = ['google', 'azure'];
+
+export const SSO_PROVIDER_LABELS: Record<SSOProvider, string> = {
+  google: 'Google Workspace',
+  azure: 'Microsoft Entra ID',
+};
+
+export const DEFAULT_LOGIN_SETTINGS: LoginSettings = {
+  ssoProviders: [],
+  allowedDomains: [],
+  defaultDepartment: 'General',
+  magicLinkEnabled: false,
+  ssoRequired: false,
+  mfaRequiredForAdmins: false,
+};
+
+// What the sign-in page may know before anyone is signed in
+export type LoginOptions = Pick<
+  LoginSettings,
+  'ssoProviders' | 'allowedDomains' | 'magicLinkEnabled' | 'ssoRequired' | 'mfaRequiredForAdmins'
+>;
+
+export type SignInMethod = 'password' | 'magic_link' | 'sso';
+
+const mapSupabaseLoginSettings = (row: any): LoginSettings => ({
+  ssoProviders: row.sso_providers || [],
+  allowedDomains: row.allowed_email_domains || [],
+  defaultRoleId: row.sso_default_role_id || undefined,
+  defaultDepartment: row.sso_default_department || DEFAULT_LOGIN_SETTINGS.defaultDepartment,
+  magicLinkEnabled: !!row.magic_link_enabled,
+  ssoRequired: !!row.sso_required,
+  mfaRequiredForAdmins: !!row.mfa_required_for_admins,
+});
+
+const readStoredSettings = (): LoginSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_LOGIN_SETTINGS, ...JSON.parse(stored) } : DEFAULT_LOGIN_SETTINGS;
+  } catch {
+    return DEFAULT_LOGIN_SETTINGS;
+  }
+};
+
+// "@Example.com " and "example.com" are the same domain
+export const normalizeDomain = (domain: string): string => domain.trim().toLowerCase().replace(/^@/, '');
+
+export const getEmailDomain = (email: string): string => normalizeDomain(email.split('@').pop() || '');
+
+export const isAllowedEmailDomain = (email: string, allowedDomains: string[]): boolean =>
+  allowedDomains.length === 0 || allowedDomains.map(normalizeDomain).includes(getEmailDomain(email));
+
+/**
+ * Why this person may not sign in this way, or null when they may. Admins
+ * keep their password when single sign-on is required, so a broken identity
+ * provider cannot lock everyone out.
+ */
+export const getSignInRejection = (
+  options: LoginOptions,
+  method: SignInMethod,
+  user: Pick<User, 'email' | 'role'>
+): string | null => {
+  if (method === 'sso') {
+    return isAllowedEmailDomain(user.email, options.allowedDomains)
+      ? null
+      : `Sign in with your ${options.allowedDomains.map(d => `@${normalizeDomain(d)}`).join(' or ')} account`;
+  }
+  if (method === 'magic_link' && !options.magicLinkEnabled) {
+    return 'Sign-in links are turned off. Use your password instead.';
+  }
+  if (options.ssoRequired && user.role !== 'admin') {
+    return 'Your organization signs in with single sign-on. Use your work account below.';
+  }
+  return null;
+};
+
+/**
+ * The sign-in methods on offer. Works signed out.
+ */
+export const fetchLoginOptions = async (): Promise<LoginOptions> => {
+  if (!isSupabaseConfigured()) return readStoredSettings();
+
+  const { data, error } = await supabase.rpc('get_login_options');
+
+  if (error) {
+    console.error('Error loading login options:', error);
+    throw error;
+  }
+  const row = Array.isArray(data) ? data[0] : data;
+  return row ? mapSupabaseLoginSettings(row) : DEFAULT_LOGIN_SETTINGS;
+};
+
+/**
+ * Every login setting, including what new single sign-on accounts get.
+ */
+export const fetchLoginSettings = async (): Promise<LoginSettings> => {
+  if (!isSupabaseConfigured()) return readStoredSettings();
+
+  const { data, error } = await supabase
+    .from('organization_settings')
+    .select('sso_providers, allowed_email_domains, sso_default_role_id, sso_default_department, magic_link_enabled, sso_required, mfa_required_for_admins')
+    .eq('id', SETTINGS_ROW_ID)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading login settings:', error);
+    throw error;
+  }
+  return data ? mapSupabaseLoginSettings(data) : DEFAULT_LOGIN_SETTINGS;
+};
+
+export const saveLoginSettings = async (settings: LoginSettings, userId: string): Promise<LoginSettings> => {
+  const saved: LoginSettings = {
+    ...settings,
+    allowedDomains: Array.from(new Set(settings.allowedDomains.map(normalizeDomain).filter(Boolean))),
+  };
+
+  if (!isSupabaseConfigured()) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+    return saved;
+  }
+
+  const { error } = await supabase
+    .from('organization_settings')
+    .upsert({
+      id: SETTINGS_ROW_ID,
+      sso_providers: saved.ssoProviders,
+      allowed_email_domains: saved.allowedDomains,
+      sso_default_role_id: saved.defaultRoleId || null,
+      sso_default_department: saved.defaultDepartment,
+      magic_link_enabled: saved.magicLinkEnabled,
+      sso_required: saved.ssoRequired,
+      mfa_required_for_admins: saved.mfaRequiredForAdmins,
+      updated_by: userId,
+    });
+
+  if (error) {
+    console.error('Error saving login settings:', error);
+    throw error;
+  }
+  return saved;
+};
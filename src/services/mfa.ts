@@ -0,0 +1,162 @@
+/**
+ * Two-Factor Sign-In
+ *
+ * Authenticator-app (TOTP) codes through Supabase Auth MFA, plus one-time
+ * recovery codes (migration v25) for people who lose their device. Using a
+ * recovery code removes their authenticator so they can set up a new one.
+ * Sensitive admin actions ask for a code from the last few minutes
+ * (step-up); the database checks the same window. Needs Supabase; read
+ * through AuthContext.
+ */
+
+import type { Factor } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+
+// Keep in step with has_recent_mfa() in migration v25
+export const STEP_UP_WINDOW_MINUTES = 10;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export interface MfaStatus {
+  factorId?: string; // The verified authenticator, if any
+  verified: boolean; // A code was entered this session (aal2)
+  lastVerifiedAt?: number; // When, in ms since the epoch
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  qrCode: string; // SVG data URL
+  secret: string; // For typing in when the QR code cannot be scanned
+}
+
+export const EMPTY_MFA_STATUS: MfaStatus = { verified: false };
+
+// No 0/O or 1/l, so codes survive being copied by hand
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const hashRecoveryCode = async (code: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const isStepUpFresh = (status: MfaStatus, now: number = Date.now()): boolean =>
+  status.verified && !!status.lastVerifiedAt && now - status.lastVerifiedAt < STEP_UP_WINDOW_MINUTES * 60 * 1000;
+
+export const getMfaStatus = async (): Promise<MfaStatus> => {
+  if (!isSupabaseConfigured()) return EMPTY_MFA_STATUS;
+
+  const [{ data: factors, error: factorsError }, { data: assurance, error: assuranceError }] = await Promise.all([
+    supabase.auth.mfa.listFactors(),
+    supabase.auth.mfa.getAuthenticatorAssuranceLevel(),
+  ]);
+
+  if (factorsError || assuranceError) {
+    console.error('Error loading two-factor status:', factorsError || assuranceError);
+    throw factorsError || assuranceError;
+  }
+
+  const verifiedTimes = (assurance?.currentAuthenticationMethods || [])
+    .filter((entry: { method: string }) => entry.method === 'totp' || entry.method === 'mfa/totp')
+    .map((entry: { timestamp: number }) => entry.timestamp * 1000);
+
+  return {
+    factorId: factors?.totp?.[0]?.id,
+    verified: assurance?.currentLevel === 'aal2',
+    lastVerifiedAt: verifiedTimes.length > 0 ? Math.max(...verifiedTimes) : undefined,
+  };
+};
+
+/**
+ * Starts adding an authenticator. It only counts once verifyTotp succeeds;
+ * abandoned attempts are cleared first.
+ */
+export const enrollTotp = async (friendlyName: string): Promise<TotpEnrollment> => {
+  const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+
+  if (factorsError) {
+    console.error('Error loading authenticators:', factorsError);
+    throw factorsError;
+  }
+
+  const unverified = factors.all.filter((factor: Factor) => factor.factor_type === 'totp' && factor.status !== 'verified');
+  await Promise.all(unverified.map((factor: Factor) => supabase.auth.mfa.unenroll({ factorId: factor.id })));
+
+  const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName });
+
+  if (error) {
+    console.error('Error adding authenticator:', error);
+    throw error;
+  }
+  return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+};
+
+export const verifyTotp = async (factorId: string, code: string): Promise<void> => {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: code.replace(/\s/g, '') });
+
+  if (error) {
+    console.error('Error verifying authenticator code:', error);
+    throw error;
+  }
+};
+
+export const unenrollTotp = async (factorId: string): Promise<void> => {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+
+  if (error) {
+    console.error('Error removing authenticator:', error);
+    throw error;
+  }
+  // Drop the aal2 claim for the removed factor
+  await supabase.auth.refreshSession();
+};
+
+export const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const bytes = new Uint8Array(10);
+    crypto.getRandomValues(bytes);
+    const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+
+/**
+ * Replaces the stored codes. Needs a code entered in the last few minutes.
+ */
+export const saveRecoveryCodes = async (codes: string[]): Promise<void> => {
+  const codeHashes = await Promise.all(codes.map(hashRecoveryCode));
+  const { error } = await supabase.rpc('replace_mfa_recovery_codes', { code_hashes: codeHashes });
+
+  if (error) {
+    console.error('Error saving recovery codes:', error);
+    throw error;
+  }
+};
+
+export const countRecoveryCodes = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('count_mfa_recovery_codes');
+
+  if (error) {
+    console.error('Error counting recovery codes:', error);
+    throw error;
+  }
+  return data || 0;
+};
+
+/**
+ * True when the code was valid; the authenticator is then removed.
+ */
+export const redeemRecoveryCode = async (code: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('redeem_mfa_recovery_code', {
+    recovery_hash: await hashRecoveryCode(code),
+  });
+
+  if (error) {
+    console.error('Error using recovery code:', error);
+    throw error;
+  }
+  if (data) {
+    await supabase.auth.refreshSession();
+  }
+  return !!data;
+};
@@ -0,0 +1,136 @@
+/**
+ * Notifications
+ *
+ * Storage for the in-app notification center: one row per recipient in
+ * `notifications`, or localStorage without Supabase. Notifications are
+ * created by logActivity (see utils/activityNotifications) and read through
+ * NotificationContext. With Supabase the `create_notifications` function
+ * (migration v26) writes them: it words the title and body itself and skips
+ * recipients who cannot see the task, SOP or event.
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { AppNotification } from '../types';
+import { NotificationDraft } from '../utils/activityNotifications';
+
+const STORAGE_KEY = 'mediamaple_notifications';
+
+// Newest notifications kept per user in localStorage
+const MAX_LOCAL_NOTIFICATIONS = 200;
+
+// Fired in this tab when local notifications change (other tabs get `storage`)
+export const LOCAL_NOTIFICATIONS_EVENT = 'mediamaple:notifications';
+
+// Helper function to convert Supabase notification row to App type
+const mapSupabaseNotification = (row: any): AppNotification => ({
+  id: row.id,
+  userId: row.user_id,
+  type: row.type,
+  title: row.title,
+  body: row.body || undefined,
+  entityType: row.entity_type,
+  entityId: row.entity_id,
+  actorId: row.actor_id || undefined,
+  actorName: row.actor_name || undefined,
+  readAt: row.read_at || undefined,
+  createdAt: row.created_at,
+});
+
+const readStoredNotifications = (): AppNotification[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeStoredNotifications = (notifications: AppNotification[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(notifications));
+  window.dispatchEvent(new Event(LOCAL_NOTIFICATIONS_EVENT));
+};
+
+export const fetchNotifications = async (userId: string, limit: number): Promise<AppNotification[]> => {
+  if (!isSupabaseConfigured()) {
+    return readStoredNotifications()
+      .filter(notification => notification.userId === userId)
+      .slice(0, limit);
+  }
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error loading notifications:', error);
+    throw error;
+  }
+  return (data || []).map(mapSupabaseNotification);
+};
+
+export const createNotifications = async (drafts: NotificationDraft[]): Promise<void> => {
+  if (drafts.length === 0) return;
+
+  const createdAt = new Date().toISOString();
+
+  if (!isSupabaseConfigured()) {
+    const created: AppNotification[] = drafts.map(draft => ({
+      ...draft,
+      id: `notification_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      createdAt,
+    }));
+    const all = [...created, ...readStoredNotifications()];
+    const perUser: Record<string, number> = {};
+    writeStoredNotifications(all.filter(notification => {
+      perUser[notification.userId] = (perUser[notification.userId] || 0) + 1;
+      return perUser[notification.userId] <= MAX_LOCAL_NOTIFICATIONS;
+    }));
+    return;
+  }
+
+  const { error } = await supabase.rpc('create_notifications', {
+    drafts: drafts.map(draft => ({
+      user_id: draft.userId,
+      type: draft.type,
+      entity_type: draft.entityType,
+      entity_id: draft.entityId,
+    })),
+  });
+
+  if (error) {
+    console.error('Error creating notifications:', error);
+    throw error;
+  }
+};
+
+/** Mark some notifications read, or all of the user's when no ids are given */
+export const markNotificationsRead = async (userId: string, ids?: string[]): Promise<string> => {
+  const readAt = new Date().toISOString();
+
+  if (!isSupabaseConfigured()) {
+    writeStoredNotifications(readStoredNotifications().map(notification =>
+      notification.userId === userId && !notification.readAt && (!ids || ids.includes(notification.id))
+        ? { ...notification, readAt }
+        : notification
+    ));
+    return readAt;
+  }
+
+  let query = supabase
+    .from('notifications')
+    .update({ read_at: readAt })
+    .eq('user_id', userId)
+    .is('read_at', null);
+  if (ids) query = query.in('id', ids);
+
+  const { error } = await query;
+
+  if (error) {
+    console.error('Error marking notifications read:', error);
+    throw error;
+  }
+  return readAt;
+};
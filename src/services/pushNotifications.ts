@@ -0,0 +1,278 @@
+/**
+ * Push Notifications
+ *
+ * Web Push subscriptions, one per device (browser) a user turns push on in.
+ * With a VAPID public key (REACT_APP_VAPID_PUBLIC_KEY) the browser subscribes
+ * with its push service and api/send-notifications.ts delivers reminders.
+ * Without one, the device gets a local stand-in subscription of the same
+ * shape: while the app is open it works out what is due itself
+ * (useLocalPushDelivery) and hands it to the service worker, which shows it
+ * exactly as it would a real push. Handy for testing without keys.
+ *
+ * Subscriptions live in `push_subscriptions`, or localStorage without Supabase.
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { PushMessage } from '../utils/notificationRules';
+import { isPushServiceEndpoint } from '../utils/pushEndpoints';
+
+export interface PushDevice {
+  id: string;
+  endpoint: string;
+  deviceName: string;
+  createdAt: string;
+  lastNotifiedAt?: string;
+}
+
+interface StoredPushDevice extends PushDevice {
+  userId: string;
+}
+
+// This browser's stand-in subscription, when using the local transport
+interface LocalDevice {
+  userId: string;
+  endpoint: string;
+}
+
+const STORAGE_KEY = 'mediamaple_push_subscriptions';
+const LOCAL_DEVICE_KEY = 'mediamaple_push_local_device';
+const LOCAL_ENDPOINT_PREFIX = 'local:';
+
+const vapidPublicKey = process.env.REACT_APP_VAPID_PUBLIC_KEY || '';
+
+// Helper function to convert Supabase subscription row to App type
+const mapSupabasePushDevice = (row: any): PushDevice => ({
+  id: row.id,
+  endpoint: row.endpoint,
+  deviceName: row.device_name || 'Unknown device',
+  createdAt: row.created_at,
+  lastNotifiedAt: row.last_notified_at || undefined,
+});
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+const randomBase64Url = (length: number): string => {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return toBase64Url(bytes);
+};
+
+const readStoredDevices = (): StoredPushDevice[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeStoredDevices = (devices: StoredPushDevice[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(devices));
+};
+
+export const getLocalPushDevice = (): LocalDevice | null => {
+  try {
+    const stored = localStorage.getItem(LOCAL_DEVICE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+/** True when there is no VAPID key and devices use the local stand-in */
+export const isLocalPushTransport = () => !vapidPublicKey;
+
+export const isPushSupported = () =>
+  'serviceWorker' in navigator &&
+  'Notification' in window &&
+  (isLocalPushTransport() || 'PushManager' in window);
+
+/** "Chrome on Windows" */
+export const describeDevice = (userAgent: string = navigator.userAgent): string => {
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const platform =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown device';
+  return `${browser} on ${platform}`;
+};
+
+const getBrowserPushSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+/**
+ * The endpoint this browser is subscribed with for the user, if any.
+ * Never prompts.
+ */
+export const getThisDeviceEndpoint = async (userId: string): Promise<string | null> => {
+  if (!isPushSupported()) return null;
+  if (isLocalPushTransport()) {
+    const device = getLocalPushDevice();
+    return device && device.userId === userId ? device.endpoint : null;
+  }
+  const subscription = await getBrowserPushSubscription();
+  return subscription ? subscription.endpoint : null;
+};
+
+export const fetchPushDevices = async (userId: string): Promise<PushDevice[]> => {
+  if (!isSupabaseConfigured()) {
+    return readStoredDevices().filter(device => device.userId === userId);
+  }
+
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading push devices:', error);
+    throw error;
+  }
+  return (data || []).map(mapSupabasePushDevice);
+};
+
+/**
+ * Ask for permission and subscribe this browser. Re-subscribing a device
+ * that already has a subscription refreshes it in place.
+ */
+export const subscribeThisDevice = async (userId: string): Promise<PushDevice> => {
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site. Allow them in your browser settings.');
+  }
+
+  let endpoint: string;
+  let p256dh: string;
+  let auth: string;
+
+  if (isLocalPushTransport()) {
+    const existing = getLocalPushDevice();
+    endpoint = existing && existing.userId === userId
+      ? existing.endpoint
+      : `${LOCAL_ENDPOINT_PREFIX}${randomBase64Url(16)}`;
+    // Same shape as a browser subscription; never used to encrypt anything
+    p256dh = randomBase64Url(65);
+    auth = randomBase64Url(16);
+    localStorage.setItem(LOCAL_DEVICE_KEY, JSON.stringify({ userId, endpoint }));
+  } else {
+    const registration = await navigator.serviceWorker.getRegistration();
+    if (!registration) {
+      throw new Error('Push notifications need the installed app. Reload the page and try again.');
+    }
+    const subscription = await registration.pushManager.getSubscription()
+      || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: fromBase64Url(vapidPublicKey),
+      });
+    if (!isPushServiceEndpoint(subscription.endpoint)) {
+      throw new Error('This browser uses a push service the app does not support.');
+    }
+    const json = subscription.toJSON();
+    endpoint = subscription.endpoint;
+    p256dh = json.keys?.p256dh || '';
+    auth = json.keys?.auth || '';
+  }
+
+  const deviceName = describeDevice();
+
+  if (!isSupabaseConfigured()) {
+    const devices = readStoredDevices().filter(device => device.endpoint !== endpoint);
+    const device: StoredPushDevice = {
+      id: `push_${Date.now()}`,
+      userId,
+      endpoint,
+      deviceName,
+      createdAt: new Date().toISOString(),
+    };
+    writeStoredDevices([...devices, device]);
+    return device;
+  }
+
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .upsert(
+      { user_id: userId, endpoint, p256dh, auth, device_name: deviceName },
+      { onConflict: 'endpoint' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving push subscription:', error);
+    throw error;
+  }
+  return mapSupabasePushDevice(data);
+};
+
+/**
+ * Remove a device. Removing this browser also unsubscribes it from its
+ * push service, so a stale subscription is not left behind.
+ */
+export const removePushDevice = async (userId: string, device: PushDevice): Promise<void> => {
+  if (device.endpoint === await getThisDeviceEndpoint(userId)) {
+    if (isLocalPushTransport()) {
+      localStorage.removeItem(LOCAL_DEVICE_KEY);
+    } else {
+      const subscription = await getBrowserPushSubscription();
+      await subscription?.unsubscribe();
+    }
+  }
+
+  if (!isSupabaseConfigured()) {
+    writeStoredDevices(readStoredDevices().filter(stored => stored.id !== device.id));
+    return;
+  }
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('id', device.id);
+
+  if (error) {
+    console.error('Error removing push device:', error);
+    throw error;
+  }
+};
+
+/**
+ * Show a notification through the service worker, the way a real push is
+ * shown. Falls back to a page notification when no worker is running
+ * (development builds do not register one).
+ */
+export const showLocalPush = async (message: PushMessage): Promise<void> => {
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (registration?.active) {
+    registration.active.postMessage({ type: 'LOCAL_PUSH', payload: message });
+    return;
+  }
+
+  const notification = new Notification(message.title, {
+    body: message.body,
+    tag: message.tag,
+    icon: '/logo192.png',
+  });
+  notification.onclick = () => {
+    window.focus();
+    window.location.assign(message.url);
+  };
+};
@@ -0,0 +1,98 @@
+/**
+ * Roles
+ *
+ * Custom roles and their permissions, in `roles` (migration v21) or
+ * localStorage without Supabase. Read through AuthContext, which also
+ * answers permission checks with them.
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { Role } from '../types';
+import { DEFAULT_ROLES } from '../utils/permissions';
+
+const STORAGE_KEY = 'mediamaple_roles';
+
+// Helper function to convert Supabase role row to App type
+const mapSupabaseRole = (row: any): Role => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || undefined,
+  permissions: row.permissions || [],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const readStoredRoles = (): Role[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_ROLES;
+  } catch {
+    return DEFAULT_ROLES;
+  }
+};
+
+const byName = (a: Role, b: Role) => a.name.localeCompare(b.name);
+
+export const fetchRoles = async (): Promise<Role[]> => {
+  if (!isSupabaseConfigured()) {
+    return [...readStoredRoles()].sort(byName);
+  }
+
+  const { data, error } = await supabase
+    .from('roles')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error loading roles:', error);
+    throw error;
+  }
+  return (data || []).map(mapSupabaseRole);
+};
+
+/** Creates the role, or replaces the one with the same ID */
+export const saveRole = async (role: Role): Promise<Role> => {
+  const updatedAt = new Date().toISOString();
+
+  if (!isSupabaseConfigured()) {
+    const roles = readStoredRoles();
+    const existing = roles.find(r => r.id === role.id);
+    const saved = { ...role, createdAt: existing?.createdAt || updatedAt, updatedAt };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(
+      existing ? roles.map(r => (r.id === role.id ? saved : r)) : [...roles, saved]
+    ));
+    return saved;
+  }
+
+  const { data, error } = await supabase
+    .from('roles')
+    .upsert({
+      id: role.id,
+      name: role.name,
+      description: role.description || null,
+      permissions: role.permissions,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving role:', error);
+    throw error;
+  }
+  return mapSupabaseRole(data);
+};
+
+/** Members of a deleted role become plain team members */
+export const deleteRole = async (id: string): Promise<void> => {
+  if (!isSupabaseConfigured()) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(readStoredRoles().filter(r => r.id !== id)));
+    return;
+  }
+
+  const { error } = await supabase.from('roles').delete().eq('id', id);
+
+  if (error) {
+    console.error('Error deleting role:', error);
+    throw error;
+  }
+};
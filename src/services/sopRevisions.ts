@@ -0,0 +1,144 @@
+/**
+ * SOP Revisions
+ *
+ * Every save of an SOP writes an immutable snapshot to `sop_revisions`
+ * (or localStorage when Supabase isn't configured). Revisions are never
+ * updated or deleted; restoring an old version writes a new revision.
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { SOP, SOPRevision, SOPStatus } from '../types';
+
+const STORAGE_KEY = 'mediamaple_sop_revisions';
+
+interface RevisionAuthor {
+  id: string;
+  name: string;
+}
+
+// Helper function to convert Supabase revision to App revision type
+const mapSupabaseRevision = (row: any): SOPRevision => ({
+  id: row.id,
+  sopId: row.sop_id,
+  revisionNumber: row.revision_number,
+  title: row.title,
+  description: row.description,
+  steps: row.steps || [],
+  tags: row.tags || [],
+  status: row.status as SOPStatus,
+  authorId: row.author_id,
+  authorName: row.author_name,
+  note: row.note || undefined,
+  createdAt: row.created_at,
+});
+
+const loadLocalRevisions = (): SOPRevision[] =>
+  JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+
+const saveLocalRevisions = (revisions: SOPRevision[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(revisions));
+};
+
+/**
+ * Fetch all revisions for an SOP, newest first.
+ */
+export const fetchSOPRevisions = async (sopId: string): Promise<SOPRevision[]> => {
+  if (!isSupabaseConfigured()) {
+    return loadLocalRevisions()
+      .filter(r => r.sopId === sopId)
+      .sort((a, b) => b.revisionNumber - a.revisionNumber);
+  }
+
+  const { data, error } = await supabase
+    .from('sop_revisions')
+    .select('*')
+    .eq('sop_id', sopId)
+    .order('revision_number', { ascending: false });
+
+  if (error) {
+    console.error('Error loading SOP revisions:', error);
+    throw error;
+  }
+
+  return (data || []).map(mapSupabaseRevision);
+};
+
+const nextLocalRevisionNumber = (sopId: string): number =>
+  loadLocalRevisions()
+    .filter(revision => revision.sopId === sopId)
+    .reduce((highest, revision) => Math.max(highest, revision.revisionNumber), 0) + 1;
+
+// In Supabase the number is assigned by a trigger (migration v7)
+const insertRevision = async (
+  sop: SOP,
+  author: RevisionAuthor,
+  note?: string
+): Promise<SOPRevision> => {
+  const revision: Omit<SOPRevision, 'revisionNumber'> = {
+    id: `rev_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    sopId: sop.id,
+    title: sop.title,
+    description: sop.description,
+    steps: sop.steps,
+    tags: sop.tags || [],
+    status: sop.status,
+    authorId: author.id,
+    authorName: author.name,
+    note,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (!isSupabaseConfigured()) {
+    const stored: SOPRevision = { ...revision, revisionNumber: nextLocalRevisionNumber(sop.id) };
+    saveLocalRevisions([...loadLocalRevisions(), stored]);
+    return stored;
+  }
+
+  const { data, error } = await supabase
+    .from('sop_revisions')
+    .insert({
+      sop_id: revision.sopId,
+      title: revision.title,
+      description: revision.description,
+      steps: revision.steps,
+      tags: revision.tags,
+      status: revision.status,
+      author_id: revision.authorId,
+      author_name: revision.authorName,
+      note: revision.note,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving SOP revision:', error);
+    throw error;
+  }
+
+  return mapSupabaseRevision(data);
+};
+
+/**
+ * Record a new revision for an SOP.
+ *
+ * `previous` is the SOP as it was before this save. If the SOP has no
+ * history yet (it predates revision tracking), the previous state is
+ * captured first as version 1 so the edit being saved stays diffable.
+ */
+export const recordSOPRevision = async (
+  sop: SOP,
+  author: RevisionAuthor,
+  options: { previous?: SOP; note?: string } = {}
+): Promise<SOPRevision> => {
+  const existing = await fetchSOPRevisions(sop.id);
+
+  if (existing.length === 0 && options.previous) {
+    await insertRevision(
+      options.previous,
+      author,
+      'Saved before version history was enabled'
+    );
+  }
+
+  return insertRevision(sop, author, options.note);
+};
@@ -119,6 +119,7 @@ export const theme = {
       inProgress: '#3B82F6',       // Blue (same as info)
       completed: '#10B981',        // Green (same as success)
       overdue: '#EF4444',          // Red
+      blocked: '#F97316',          // Orange
       draft: '#F59E0B',            // Amber
       published: '#10B981',        // Green
       archived: '#6B7280',         // Gray
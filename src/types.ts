@@ -8,7 +8,43 @@ export interface SOPStep {
   imageUrl?: string;
 }
 
-export type SOPStatus = 'published' | 'draft' | 'archived';
+export type SOPStatus = 'published' | 'draft' | 'in_review' | 'archived';
+
+export type SOPReviewDecisionType = 'approved' | 'changes_requested';
+
+export interface SOPReviewDecision {
+  id: string;
+  reviewerId: string;
+  reviewerName: string;
+  decision: SOPReviewDecisionType;
+  comment: string;
+  createdAt: string;
+}
+
+// Approval workflow state for an SOP submitted for review
+export interface SOPReview {
+  reviewers: string[]; // User IDs asked to review
+  requiredApprovals: number;
+  decisions: SOPReviewDecision[]; // Decisions for the current review round
+  submittedBy: string;
+  submittedAt: string;
+}
+
+export type SOPQuizQuestionType = 'multiple_choice' | 'true_false';
+
+export interface SOPQuizQuestion {
+  id: string;
+  type: SOPQuizQuestionType;
+  prompt: string;
+  options: string[]; // True/false questions use ['True', 'False']
+  correctOptionIndex: number;
+}
+
+// Knowledge check team members take after reading an SOP
+export interface SOPQuiz {
+  questions: SOPQuizQuestion[];
+  passThreshold: number; // Minimum score to pass, as a percentage (0-100)
+}
 
 export interface SOP {
   id: string;
@@ -23,28 +59,130 @@ export interface SOP {
   status: SOPStatus;
   isTemplate: boolean;
   templateOf?: string; // ID of the template this was created from
+  review?: SOPReview; // Set once the SOP has been submitted for review
+  assignedDepartments?: string[]; // Departments that must acknowledge this SOP
+  sharedDepartments?: string[]; // Other departments that can see this SOP
+  publishedAt?: string; // When the current version was published; older acknowledgements are outdated
+  quiz?: SOPQuiz;
   createdAt: string;
   createdBy: string;
   updatedAt?: string;
 }
 
+// Immutable snapshot of an SOP, written on every save
+export interface SOPRevision {
+  id: string;
+  sopId: string;
+  revisionNumber: number; // 1-based, increments per SOP
+  title: string;
+  description: string;
+  steps: SOPStep[];
+  tags: string[];
+  status: SOPStatus;
+  authorId: string;
+  authorName: string;
+  note?: string; // e.g. "Restored from version 3"
+  createdAt: string;
+}
+
+// Read-acknowledgement ("I have read and understood") for a published SOP version
+export interface SOPAcknowledgement {
+  id: string;
+  sopId: string;
+  userId: string;
+  userName: string;
+  versionPublishedAt: string; // SOP.publishedAt at the time of signing
+  acknowledgedAt: string;
+}
+
+export interface SOPAcknowledgementReminder {
+  id: string;
+  sopId: string;
+  userId: string;
+  sentBy: string;
+  sentByName: string;
+  sentAt: string;
+}
+
+// One attempt at an SOP's quiz
+export interface SOPQuizAttempt {
+  id: string;
+  sopId: string;
+  userId: string;
+  userName: string;
+  answers: number[]; // Selected option index per question
+  score: number; // Percentage (0-100)
+  passed: boolean;
+  passThreshold: number; // Threshold in effect when the attempt was graded
+  attemptedAt: string;
+}
+
 // User & Auth Types
 
+// Access level. Admins can do everything; team members get extra
+// permissions from the custom role assigned to them (roleId).
 export type UserRole = 'admin' | 'team';
 
+export type Permission =
+  | 'manage_sops' // Create, edit and archive SOPs in their own department
+  | 'approve_work_hours'
+  | 'manage_calendar' // Reschedule tasks and edit anyone's events
+  | 'view_activity_log';
+
+// Configurable role, e.g. department lead, scheduler, viewer or payroll
+export interface Role {
+  id: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// SOPs, templates, tasks and users refer to departments by name
+export interface Department {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt?: string;
+}
+
 export interface User {
   id: string;
   email: string;
-  password: string; // In production, this should be hashed
   firstName: string;
   lastName: string;
   role: UserRole;
-  department: string;
+  roleId?: string; // Custom role (team members only)
+  department: string; // Primary department
+  departments?: string[]; // Other departments they belong to
   avatar?: string;
   notificationPreferences?: NotificationPreferences;
   createdAt: string;
   isActive: boolean;
   invitedBy?: string; // Admin user ID who invited this user
+  timeZone?: string; // IANA zone (e.g. 'America/Chicago'); the organization's zone applies if unset
+}
+
+// Invitations: the invitee follows the emailed link and sets their own password
+export type InviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface Invite {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+  roleId?: string;
+  department: string;
+  departments?: string[];
+  token: string; // Secret part of the invite link
+  invitedBy: string; // Admin user ID
+  createdAt: string;
+  expiresAt: string;
+  emailSentAt?: string; // Set once api/send-emails.ts has sent the link
+  acceptedAt?: string;
+  revokedAt?: string;
 }
 
 export interface NotificationPreferences {
@@ -53,6 +191,62 @@ export interface NotificationPreferences {
   calendarSyncEnabled: boolean;
   taskReminders: boolean;
   overdueAlerts: boolean;
+  dailyDigest?: boolean; // Morning email of the day's tasks and schedule; on unless turned off
+  mutedNotificationTypes?: AppNotificationType[]; // Kept out of the notification center
+}
+
+// In-app notifications (the bell), generated from logged activity
+export type AppNotificationType =
+  | 'task_assigned'
+  | 'task_completed'
+  | 'sop_review_requested'
+  | 'sop_reviewed'
+  | 'sop_acknowledgement_requested'
+  | 'event_invited'
+  | 'comment_mention'
+  | 'comment_reply';
+
+export interface AppNotification {
+  id: string;
+  userId: string; // Recipient
+  type: AppNotificationType;
+  title: string;
+  body?: string;
+  entityType: 'task' | 'job' | 'sop' | 'event'; // What it links to
+  entityId: string;
+  actorId?: string;
+  actorName?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+// Organization-wide settings (a single row shared by everyone)
+export interface OrganizationSettings {
+  timeZone: string; // IANA zone dates and times are scheduled in
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// Single sign-on providers, by their Supabase Auth names (azure is Microsoft Entra ID)
+export type SSOProvider = 'google' | 'azure';
+
+// How people may sign in; one set for the whole organization
+export interface LoginSettings {
+  ssoProviders: SSOProvider[]; // Each must also be enabled in Supabase Auth
+  allowedDomains: string[]; // Email domains single sign-on accepts; empty accepts any
+  defaultRoleId?: string; // Custom role for accounts single sign-on creates
+  defaultDepartment: string; // Department for accounts single sign-on creates
+  magicLinkEnabled: boolean;
+  ssoRequired: boolean; // Everyone but admins must use single sign-on
+  mfaRequiredForAdmins: boolean; // Admins must sign in with an authenticator code too
+}
+
+// Emails the app sends; admins can reword each one
+export type EmailTemplateId = 'task_assigned' | 'overdue_alert' | 'daily_digest' | 'event_reminder' | 'invite';
+
+export interface EmailTemplate {
+  subject: string;
+  body: string; // Plain text with {{placeholders}}
 }
 
 // Task Template Types (Task Library)
@@ -66,11 +260,18 @@ export interface TaskTemplateStep {
   sopId?: string; // Link to specific SOP for this step
 }
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
 export interface RecurrencePattern {
-  frequency: 'daily' | 'weekly' | 'monthly';
+  frequency: RecurrenceFrequency;
+  interval?: number; // Every N days/weeks/months/years (default 1)
   daysOfWeek?: number[]; // 0-6 (Sunday-Saturday)
-  dayOfMonth?: number; // 1-31
+  dayOfMonth?: number; // 1-31 (clamped to the last day of shorter months)
+  weekOfMonth?: number; // 1-4, or -1 for the last; with daysOfWeek, e.g. "last Friday"
+  monthOfYear?: number; // 1-12 (yearly)
   endDate?: string; // When to stop recurring
+  count?: number; // Stop after this many occurrences (including the first)
+  skipDates?: string[]; // YYYY-MM-DD exception dates with no occurrence (holidays, closures)
 }
 
 export interface TaskTemplate {
@@ -92,7 +293,7 @@ export interface TaskTemplate {
 
 // Task Types (Individual Tasks)
 
-export type TaskStatus = 'pending' | 'in-progress' | 'completed' | 'overdue' | 'skipped' | 'draft' | 'archived';
+export type TaskStatus = 'pending' | 'blocked' | 'in-progress' | 'completed' | 'overdue' | 'skipped' | 'draft' | 'archived';
 export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
 
 export interface TaskStep {
@@ -103,16 +304,43 @@ export interface TaskStep {
   isCompleted: boolean;
   completedAt?: string;
   requiresPhoto?: boolean;
-  photoUrl?: string;
+  photoUrl?: string; // The evidence photo's storage path; older steps have only this
+  photo?: StepPhoto;
   sopId?: string;
 }
 
+// Evidence photo attached to a step. takenAt and the location come from the
+// camera's EXIF data, so they are missing when the device didn't record them.
+export interface StepPhoto {
+  url: string; // Path in the private attachments bucket, or a data URL without Supabase
+  takenAt?: string; // ISO; no offset when the camera didn't record one (camera wall-clock time)
+  latitude?: number;
+  longitude?: number;
+  uploadedAt: string;
+  uploadedBy: string; // User ID
+}
+
+// Comments live in their own table; older tasks and jobs still carry some in their JSON
+export type CommentEntityType = 'task' | 'job';
+
+export interface CommentAttachment {
+  url: string; // Path in the private attachments bucket, or a data URL without Supabase
+  name: string;
+  type: string; // MIME type, images only for now
+  size: number; // Bytes
+}
+
 export interface TaskComment {
   id: string;
   userId: string;
   userName: string;
   text: string;
   createdAt: string;
+  parentId?: string; // Top-level comment this replies to
+  mentions?: string[]; // User IDs mentioned with @
+  attachments?: CommentAttachment[];
+  editedAt?: string;
+  deletedAt?: string; // Text and attachments are cleared but replies stay
 }
 
 // JobTask - Current implementation (will be refactored to Task + Job)
@@ -134,10 +362,13 @@ export interface JobTask {
   // Recurrence
   isRecurring?: boolean;
   recurrencePattern?: RecurrencePattern;
+  seriesId?: string; // Root task of the series this occurrence was generated from
+  occurrenceDate?: string; // Date this occurrence belongs to in the series (kept if it is moved)
 
   // Status
   status: TaskStatus;
   priority: TaskPriority;
+  dependsOn?: string[]; // Job task IDs that must be completed first (blocked until then)
 
   // Progress
   steps: TaskStep[];
@@ -178,6 +409,7 @@ export interface Task {
   // Status
   status: TaskStatus;
   priority: TaskPriority;
+  dependsOn?: string[]; // IDs of tasks in the same job that must be completed first
 
   // Progress
   steps: TaskStep[];
@@ -293,6 +525,7 @@ export interface CalendarEvent {
   recurrencePattern?: RecurrencePattern;
   notes?: string;
   tags?: string[]; // Tag IDs for categorization
+  icsUid?: string; // UID of the .ics VEVENT this was imported from (re-imports update it)
   createdBy: string;
   createdAt: string;
   updatedAt?: string;
@@ -1,6 +1,8 @@
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { createNotifications } from '../services/notifications';
+import { getActivityNotifications } from './activityNotifications';
 
-export type EntityType = 'sop' | 'task' | 'job' | 'template' | 'user' | 'system';
+export type EntityType = 'sop' | 'task' | 'job' | 'template' | 'event' | 'user' | 'system';
 
 export type ActionType =
   // SOP actions
@@ -11,6 +13,14 @@ export type ActionType =
   | 'sop_archived'
   | 'sop_restored'
   | 'sop_imported'
+  | 'sop_version_restored'
+  | 'sop_submitted_for_review'
+  | 'sop_review_approved'
+  | 'sop_changes_requested'
+  | 'sop_acknowledged'
+  | 'sop_acknowledgement_reminder_sent'
+  | 'sop_quiz_passed'
+  | 'sop_quiz_failed'
   // Task actions
   | 'task_created'
   | 'task_updated'
@@ -28,6 +38,13 @@ export type ActionType =
   | 'job_completed'
   | 'job_archived'
   | 'job_restored'
+  // Event actions
+  | 'event_created'
+  | 'event_invited'
+  // Comment actions (on tasks and jobs)
+  | 'comment_added'
+  | 'comment_edited'
+  | 'comment_deleted'
   // Template actions
   | 'template_created'
   | 'template_updated'
@@ -40,6 +57,22 @@ export type ActionType =
   | 'user_deleted'
   | 'user_role_changed'
   | 'user_password_changed'
+  // Invite actions
+  | 'user_invited'
+  | 'invite_resent'
+  | 'invite_revoked'
+  | 'invite_accepted'
+  // Two-factor actions
+  | 'mfa_enabled'
+  | 'mfa_disabled'
+  | 'mfa_recovery_code_used'
+  // Role actions
+  | 'role_created'
+  | 'role_updated'
+  | 'role_deleted'
+  // Department actions
+  | 'department_created'
+  | 'department_deleted'
   // System actions
   | 'system_backup'
   | 'system_restore';
@@ -116,4 +149,17 @@ export const logActivity = async ({
     // Use localStorage as fallback
     saveToLocalStorage(newLog);
   }
+
+  // Tell whoever the action concerns (see utils/activityNotifications)
+  createNotifications(getActivityNotifications({
+    actorId: userId,
+    actorName: userName,
+    action,
+    entityType,
+    entityId,
+    entityTitle,
+    details,
+  })).catch(() => {
+    // Already logged; the activity itself was recorded
+  });
 };
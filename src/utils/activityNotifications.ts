@@ -0,0 +1,112 @@
+/**
+ * Activity Notifications
+ * Which in-app notifications a logged action produces, and for whom. Every
+ * call to logActivity runs through here, so the notification center covers
+ * the same actions as the activity log. Recipients come from the log
+ * entry's details; whoever took the action is never notified of it.
+ */
+
+import { AppNotification, AppNotificationType } from '../types';
+
+export type NotificationDraft = Omit<AppNotification, 'id' | 'readAt' | 'createdAt'>;
+
+export interface NotifiableActivity {
+  actorId: string;
+  actorName: string;
+  action: string;
+  entityType: string;
+  entityId?: string;
+  entityTitle?: string;
+  details?: Record<string, any>;
+}
+
+// Where a notification takes you, in the shape useNavigate expects
+export interface NotificationTarget {
+  path: string;
+  state: Record<string, string>;
+}
+
+export const NOTIFICATION_TYPE_LABELS: Record<AppNotificationType, { label: string; description: string }> = {
+  task_assigned: { label: 'Task assignments', description: 'Someone assigns you a task' },
+  task_completed: { label: 'Completed tasks', description: 'A task you assigned is completed' },
+  sop_review_requested: { label: 'Review requests', description: 'You are asked to review an SOP' },
+  sop_reviewed: { label: 'Review results', description: 'A reviewer approves or sends back your SOP' },
+  sop_acknowledgement_requested: { label: 'Sign-off requests', description: 'You are asked to read and sign off an SOP' },
+  event_invited: { label: 'Event invitations', description: 'You are added to a calendar event' },
+  comment_mention: { label: 'Mentions', description: 'Someone @mentions you in a comment' },
+  comment_reply: { label: 'Replies', description: 'Someone replies to your comment' },
+};
+
+const asIds = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+
+export const getActivityNotifications = (activity: NotifiableActivity): NotificationDraft[] => {
+  const { actorId, actorName, action, entityId, entityTitle, details = {} } = activity;
+  if (!entityId) return [];
+
+  const notify = (
+    recipients: string[],
+    type: AppNotificationType,
+    entityType: NotificationDraft['entityType'],
+    title: string,
+    body = entityTitle
+  ): NotificationDraft[] =>
+    Array.from(new Set(recipients))
+      .filter(userId => userId && userId !== actorId)
+      .map(userId => ({ userId, type, title, body, entityType, entityId, actorId, actorName }));
+
+  switch (action) {
+    case 'task_created':
+      return notify(asIds(details.assignedTo), 'task_assigned', 'task', `${actorName} assigned you a task`);
+    case 'task_assigned': {
+      const previous = asIds(details.previousAssignees);
+      const added = asIds(details.assignedTo).filter(userId => !previous.includes(userId));
+      return notify(added, 'task_assigned', 'task', `${actorName} assigned you a task`);
+    }
+    case 'task_completed':
+      return notify(asIds([details.assignedBy]), 'task_completed', 'task', `${actorName} completed a task`);
+    case 'sop_submitted_for_review':
+      return notify(asIds(details.reviewers), 'sop_review_requested', 'sop', `${actorName} asked you to review an SOP`);
+    case 'sop_review_approved':
+      return notify(asIds([details.submittedBy]), 'sop_reviewed', 'sop', `${actorName} approved your SOP`);
+    case 'sop_changes_requested':
+      return notify(asIds([details.submittedBy]), 'sop_reviewed', 'sop', `${actorName} requested changes to your SOP`);
+    case 'sop_acknowledgement_reminder_sent':
+      return notify(asIds(details.recipients), 'sop_acknowledgement_requested', 'sop', `${actorName} asked you to sign off an SOP`);
+    case 'event_created':
+      return notify(asIds(details.attendees), 'event_invited', 'event', `${actorName} invited you to an event`);
+    case 'event_invited': {
+      const previous = asIds(details.previousAttendees);
+      const added = asIds(details.attendees).filter(userId => !previous.includes(userId));
+      return notify(added, 'event_invited', 'event', `${actorName} invited you to an event`);
+    }
+    case 'comment_added':
+    case 'comment_edited': {
+      if (activity.entityType !== 'task' && activity.entityType !== 'job') return [];
+      const on = `on ${entityTitle || `a ${activity.entityType}`}`;
+      const mentioned = asIds(details.mentions);
+      // Someone both mentioned and replied to hears about the mention only
+      const repliedTo = asIds([details.replyTo]).filter(userId => !mentioned.includes(userId));
+      return [
+        ...notify(mentioned, 'comment_mention', activity.entityType, `${actorName} mentioned you ${on}`, details.excerpt),
+        ...notify(repliedTo, 'comment_reply', activity.entityType, `${actorName} replied to your comment ${on}`, details.excerpt),
+      ];
+    }
+    default:
+      return [];
+  }
+};
+
+/** Tasks, jobs and events open on the calendar, SOPs in the library */
+export const getNotificationTarget = (notification: Pick<AppNotification, 'entityType' | 'entityId'>): NotificationTarget => {
+  switch (notification.entityType) {
+    case 'sop':
+      return { path: '/sop', state: { openSOPId: notification.entityId } };
+    case 'event':
+      return { path: '/calendar', state: { openEventId: notification.entityId } };
+    case 'job':
+      return { path: '/calendar', state: { openJobId: notification.entityId } };
+    default:
+      return { path: '/calendar', state: { openTaskId: notification.entityId } };
+  }
+};
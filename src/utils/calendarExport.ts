@@ -1,57 +1,39 @@
 /**
  * Calendar Export Utilities
  * Provides functions to export events/tasks to Google Calendar, .ics files, etc.
+ * Times are written in the app's time zone (TZID plus a VTIMEZONE), so they
+ * land on the right hour whatever zone the calendar app is set to.
  */
 
-import { CalendarEvent, JobTask } from '../types';
-
-// Format date for Google Calendar URL (YYYYMMDDTHHmmssZ format)
-const formatDateForGoogle = (dateStr: string, timeStr?: string, isAllDay?: boolean): string => {
-  const date = new Date(dateStr);
-
-  if (isAllDay || !timeStr) {
-    // For all-day events, use YYYYMMDD format
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}${month}${day}`;
-  }
-
-  // Parse time and combine with date
-  const [hours, minutes] = timeStr.split(':').map(Number);
-  date.setHours(hours, minutes, 0, 0);
-
-  // Convert to UTC and format
-  const year = date.getUTCFullYear();
-  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
-  const day = String(date.getUTCDate()).padStart(2, '0');
-  const hour = String(date.getUTCHours()).padStart(2, '0');
-  const minute = String(date.getUTCMinutes()).padStart(2, '0');
-
-  return `${year}${month}${day}T${hour}${minute}00Z`;
+import { CalendarEvent, JobTask, WorkDay } from '../types';
+import { buildRecurrenceLines, toRRule } from './rrule';
+import {
+  addDays,
+  addMinutes,
+  formatOffset,
+  getDefaultTimeZone,
+  getTimeZoneOffset,
+  getTimeZoneTransitions,
+  zonedTimeToInstant,
+} from './dateTime';
+
+const MINUTE = 60 * 1000;
+
+const formatTimestampForICS = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+const compactDate = (dateStr: string): string => dateStr.split('T')[0].replace(/-/g, '');
+
+// Format date for Google Calendar URL (YYYYMMDD for all-day, otherwise YYYYMMDDTHHmmssZ)
+const formatDateForGoogle = (dateStr: string, timeStr: string | undefined, isAllDay: boolean | undefined, timeZone: string): string => {
+  if (isAllDay || !timeStr) return compactDate(dateStr);
+  return formatTimestampForICS(zonedTimeToInstant(dateStr, timeStr, timeZone));
 };
 
-// Format date for ICS file (YYYYMMDDTHHmmss format in local time, or YYYYMMDD for all-day)
+// Format date for ICS file (YYYYMMDD for all-day, otherwise YYYYMMDDTHHmmss wall-clock time for TZID)
 const formatDateForICS = (dateStr: string, timeStr?: string, isAllDay?: boolean): string => {
-  const date = new Date(dateStr);
-
-  if (isAllDay || !timeStr) {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}${month}${day}`;
-  }
-
-  const [hours, minutes] = timeStr.split(':').map(Number);
-  date.setHours(hours, minutes, 0, 0);
-
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  const hour = String(hours).padStart(2, '0');
-  const minute = String(minutes).padStart(2, '0');
-
-  return `${year}${month}${day}T${hour}${minute}00`;
+  if (isAllDay || !timeStr) return compactDate(dateStr);
+  return `${compactDate(dateStr)}T${timeStr.replace(':', '').slice(0, 4)}00`;
 };
 
 // Escape special characters for ICS format
@@ -66,7 +48,7 @@ const escapeICS = (text: string): string => {
 /**
  * Generate a Google Calendar URL for an event
  */
-export const generateGoogleCalendarUrl = (event: CalendarEvent): string => {
+export const generateGoogleCalendarUrl = (event: CalendarEvent, timeZone: string = getDefaultTimeZone()): string => {
   const baseUrl = 'https://calendar.google.com/calendar/render?action=TEMPLATE';
 
   const params = new URLSearchParams();
@@ -81,34 +63,30 @@ export const generateGoogleCalendarUrl = (event: CalendarEvent): string => {
   }
 
   // Handle dates
-  const startDate = formatDateForGoogle(event.startDate, event.startTime, event.isAllDay);
+  const startDate = formatDateForGoogle(event.startDate, event.startTime, event.isAllDay, timeZone);
   let endDate: string;
 
-  if (event.isAllDay) {
+  if (event.isAllDay || !event.startTime) {
     // For all-day events, end date should be the next day
-    const end = event.endDate ? new Date(event.endDate) : new Date(event.startDate);
-    end.setDate(end.getDate() + 1);
-    const year = end.getFullYear();
-    const month = String(end.getMonth() + 1).padStart(2, '0');
-    const day = String(end.getDate()).padStart(2, '0');
-    endDate = `${year}${month}${day}`;
+    endDate = compactDate(addDays(event.endDate || event.startDate, 1));
+  } else if (event.endTime) {
+    endDate = formatDateForGoogle(event.endDate || event.startDate, event.endTime, false, timeZone);
   } else {
-    endDate = formatDateForGoogle(
-      event.endDate || event.startDate,
-      event.endTime || event.startTime,
-      false
-    );
-
     // If no end time, default to 1 hour after start
-    if (!event.endTime && event.startTime) {
-      const date = new Date(event.startDate);
-      const [hours, minutes] = event.startTime.split(':').map(Number);
-      date.setHours(hours + 1, minutes, 0, 0);
-      endDate = formatDateForGoogle(event.startDate, `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`, false);
-    }
+    const end = addMinutes(event.startDate, event.startTime, 60, timeZone);
+    endDate = formatDateForGoogle(end.date, end.time, false, timeZone);
   }
 
   params.set('dates', `${startDate}/${endDate}`);
+  params.set('ctz', timeZone);
+
+  if (event.isRecurring && event.recurrencePattern) {
+    params.set('recur', `RRULE:${toRRule(event.recurrencePattern, {
+      anchorDate: event.startDate,
+      startTime: event.isAllDay ? undefined : event.startTime,
+      timeZone,
+    })}`);
+  }
 
   return `${baseUrl}&${params.toString()}`;
 };
@@ -116,7 +94,7 @@ export const generateGoogleCalendarUrl = (event: CalendarEvent): string => {
 /**
  * Generate a Google Calendar URL for a task
  */
-export const generateGoogleCalendarUrlForTask = (task: JobTask): string => {
+export const generateGoogleCalendarUrlForTask = (task: JobTask, timeZone: string = getDefaultTimeZone()): string => {
   const baseUrl = 'https://calendar.google.com/calendar/render?action=TEMPLATE';
 
   const params = new URLSearchParams();
@@ -136,107 +114,144 @@ export const generateGoogleCalendarUrlForTask = (task: JobTask): string => {
   params.set('details', description.trim());
 
   // Handle dates
-  const startDate = formatDateForGoogle(task.scheduledDate, task.dueTime, !task.dueTime);
+  const startDate = formatDateForGoogle(task.scheduledDate, task.dueTime, !task.dueTime, timeZone);
   let endDate: string;
 
   if (!task.dueTime) {
     // All-day task
-    const end = new Date(task.scheduledDate);
-    end.setDate(end.getDate() + 1);
-    const year = end.getFullYear();
-    const month = String(end.getMonth() + 1).padStart(2, '0');
-    const day = String(end.getDate()).padStart(2, '0');
-    endDate = `${year}${month}${day}`;
+    endDate = compactDate(addDays(task.scheduledDate, 1));
   } else {
     // Task with specific time - use estimated duration or default to 30 min
-    const duration = task.estimatedDuration || 30;
-    const date = new Date(task.scheduledDate);
-    const [hours, minutes] = task.dueTime.split(':').map(Number);
-    date.setHours(hours, minutes + duration, 0, 0);
-    endDate = formatDateForGoogle(
-      task.scheduledDate,
-      `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`,
-      false
-    );
+    const end = addMinutes(task.scheduledDate, task.dueTime, task.estimatedDuration || 30, timeZone);
+    endDate = formatDateForGoogle(end.date, end.time, false, timeZone);
   }
 
   params.set('dates', `${startDate}/${endDate}`);
+  params.set('ctz', timeZone);
 
   return `${baseUrl}&${params.toString()}`;
 };
 
+const CALENDAR_HEADER = `BEGIN:VCALENDAR
+VERSION:2.0
+PRODID:-//SOP App//Calendar//EN
+CALSCALE:GREGORIAN
+METHOD:PUBLISH
+`;
+
+const formatNextDayForICS = (dateStr: string): string => compactDate(addDays(dateStr, 1));
+
+// What a wall clock on the given offset showed at the instant, as YYYYMMDDTHHmmss
+const formatWallClockForICS = (instant: Date, offset: number): string =>
+  formatTimestampForICS(new Date(instant.getTime() + offset * MINUTE)).slice(0, -1);
+
 /**
- * Generate ICS file content for an event
+ * VTIMEZONE for the zone times are written in, covering the years the items
+ * fall in plus the next one for series still repeating. Every offset change
+ * is listed as its own observance, read from the runtime's time zone data.
  */
-export const generateICSForEvent = (event: CalendarEvent): string => {
-  const now = new Date();
-  const timestamp = now.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-  const uid = `${event.id}@sopapp`;
+const buildVTimeZone = (timeZone: string, dates: string[]): string => {
+  const years = dates.map(date => Number(date.slice(0, 4)));
+  const currentYear = new Date().getFullYear();
+  const from = new Date(Date.UTC(Math.min(currentYear, ...years), 0, 1));
+  const to = new Date(Date.UTC(Math.max(currentYear, ...years) + 2, 0, 1));
+
+  // Whichever of January and July is behind is the zone's standard time
+  const standardOffset = (instant: Date) => {
+    const year = instant.getUTCFullYear();
+    return Math.min(
+      getTimeZoneOffset(new Date(Date.UTC(year, 0, 1)), timeZone),
+      getTimeZoneOffset(new Date(Date.UTC(year, 6, 1)), timeZone)
+    );
+  };
+
+  const observance = (start: Date, offsetFrom: number, offsetTo: number) => {
+    const kind = offsetTo > standardOffset(start) ? 'DAYLIGHT' : 'STANDARD';
+    return `BEGIN:${kind}
+DTSTART:${formatWallClockForICS(start, offsetFrom)}
+TZOFFSETFROM:${formatOffset(offsetFrom, '')}
+TZOFFSETTO:${formatOffset(offsetTo, '')}
+END:${kind}`;
+  };
+
+  const initialOffset = getTimeZoneOffset(from, timeZone);
+  const observances = [
+    observance(from, initialOffset, initialOffset),
+    ...getTimeZoneTransitions(timeZone, from, to).map(transition =>
+      observance(transition.at, transition.offsetBefore, transition.offsetAfter)
+    ),
+  ];
+
+  return `BEGIN:VTIMEZONE
+TZID:${timeZone}
+${observances.join('\n')}
+END:VTIMEZONE`;
+};
+
+// DTSTART / DTEND pair: a DATE range for all-day items, TZID times otherwise
+const formatICSRange = (start: string, end: string, isAllDay: boolean, timeZone: string): string =>
+  isAllDay
+    ? `DTSTART;VALUE=DATE:${start}\nDTEND;VALUE=DATE:${end}\n`
+    : `DTSTART;TZID=${timeZone}:${start}\nDTEND;TZID=${timeZone}:${end}\n`;
 
-  const startDate = formatDateForICS(event.startDate, event.startTime, event.isAllDay);
+// A single VEVENT block for an event (shared by the one-off export and the feed)
+const buildEventVEvent = (event: CalendarEvent, timestamp: string, timeZone: string): string => {
+  // Imported events keep their original UID so the source calendar recognises them
+  const uid = event.icsUid || `${event.id}@sopapp`;
+
+  const isAllDay = event.isAllDay || !event.startTime;
+  const startDate = formatDateForICS(event.startDate, event.startTime, isAllDay);
   let endDate: string;
 
-  if (event.isAllDay) {
-    const end = event.endDate ? new Date(event.endDate) : new Date(event.startDate);
-    end.setDate(end.getDate() + 1);
-    const year = end.getFullYear();
-    const month = String(end.getMonth() + 1).padStart(2, '0');
-    const day = String(end.getDate()).padStart(2, '0');
-    endDate = `${year}${month}${day}`;
+  if (isAllDay) {
+    endDate = formatNextDayForICS(event.endDate || event.startDate);
+  } else if (event.endTime) {
+    endDate = formatDateForICS(event.endDate || event.startDate, event.endTime, false);
   } else {
-    if (event.endTime) {
-      endDate = formatDateForICS(event.endDate || event.startDate, event.endTime, false);
-    } else if (event.startTime) {
-      // Default to 1 hour
-      const date = new Date(event.startDate);
-      const [hours, minutes] = event.startTime.split(':').map(Number);
-      date.setHours(hours + 1, minutes);
-      endDate = formatDateForICS(event.startDate, `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`, false);
-    } else {
-      endDate = startDate;
-    }
+    // Default to 1 hour
+    const end = addMinutes(event.startDate, event.startTime!, 60, timeZone);
+    endDate = formatDateForICS(end.date, end.time, false);
   }
 
-  let ics = `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//SOP App//Calendar//EN
-CALSCALE:GREGORIAN
-METHOD:PUBLISH
-BEGIN:VEVENT
+  let vevent = `BEGIN:VEVENT
 UID:${uid}
 DTSTAMP:${timestamp}
 `;
 
-  if (event.isAllDay) {
-    ics += `DTSTART;VALUE=DATE:${startDate}\n`;
-    ics += `DTEND;VALUE=DATE:${endDate}\n`;
-  } else {
-    ics += `DTSTART:${startDate}\n`;
-    ics += `DTEND:${endDate}\n`;
+  vevent += formatICSRange(startDate, endDate, isAllDay, timeZone);
+
+  if (event.isRecurring && event.recurrencePattern) {
+    buildRecurrenceLines(event.recurrencePattern, {
+      anchorDate: event.startDate,
+      startTime: isAllDay ? undefined : event.startTime,
+      timeZone,
+    }).forEach(line => {
+      vevent += `${line}\n`;
+    });
   }
 
-  ics += `SUMMARY:${escapeICS(event.title)}\n`;
+  vevent += `SUMMARY:${escapeICS(event.title)}\n`;
 
   if (event.description) {
-    ics += `DESCRIPTION:${escapeICS(event.description)}\n`;
+    vevent += `DESCRIPTION:${escapeICS(event.description)}\n`;
   }
 
   if (event.location) {
-    ics += `LOCATION:${escapeICS(event.location)}\n`;
+    vevent += `LOCATION:${escapeICS(event.location)}\n`;
   }
 
-  ics += `END:VEVENT
-END:VCALENDAR`;
-
-  return ics;
+  vevent += 'END:VEVENT';
+  return vevent;
 };
 
-/**
- * Generate ICS file content for a task
- */
-export const generateICSForTask = (task: JobTask): string => {
-  const now = new Date();
-  const timestamp = now.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+// The task fields a VEVENT is built from
+export type ICSTask = Pick<
+  JobTask,
+  'id' | 'title' | 'description' | 'scheduledDate' | 'dueTime' | 'estimatedDuration' | 'status' | 'priority'
+>;
+
+// A single VEVENT block for a task (shared by the one-off export and the feed)
+const buildTaskVEvent = (task: ICSTask, timestamp: string, timeZone: string): string => {
   const uid = `task-${task.id}@sopapp`;
 
   const isAllDay = !task.dueTime;
@@ -244,27 +259,15 @@ export const generateICSForTask = (task: JobTask): string => {
   let endDate: string;
 
   if (isAllDay) {
-    const end = new Date(task.scheduledDate);
-    end.setDate(end.getDate() + 1);
-    const year = end.getFullYear();
-    const month = String(end.getMonth() + 1).padStart(2, '0');
-    const day = String(end.getDate()).padStart(2, '0');
-    endDate = `${year}${month}${day}`;
+    endDate = formatNextDayForICS(task.scheduledDate);
   } else {
-    const duration = task.estimatedDuration || 30;
-    const date = new Date(task.scheduledDate);
-    const [hours, minutes] = task.dueTime!.split(':').map(Number);
-    date.setHours(hours, minutes + duration);
-    endDate = formatDateForICS(
-      task.scheduledDate,
-      `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`,
-      false
-    );
+    const end = addMinutes(task.scheduledDate, task.dueTime!, task.estimatedDuration || 30, timeZone);
+    endDate = formatDateForICS(end.date, end.time, false);
   }
 
   let description = '';
   if (task.description) {
-    description += task.description + '\\n\\n';
+    description += escapeICS(task.description) + '\\n\\n';
   }
   description += `Status: ${task.status}\\n`;
   description += `Priority: ${task.priority}`;
@@ -272,29 +275,105 @@ export const generateICSForTask = (task: JobTask): string => {
     description += `\\nEstimated Duration: ${task.estimatedDuration} minutes`;
   }
 
-  let ics = `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//SOP App//Calendar//EN
-CALSCALE:GREGORIAN
-METHOD:PUBLISH
-BEGIN:VEVENT
+  let vevent = `BEGIN:VEVENT
 UID:${uid}
 DTSTAMP:${timestamp}
 `;
 
-  if (isAllDay) {
-    ics += `DTSTART;VALUE=DATE:${startDate}\n`;
-    ics += `DTEND;VALUE=DATE:${endDate}\n`;
-  } else {
-    ics += `DTSTART:${startDate}\n`;
-    ics += `DTEND:${endDate}\n`;
+  vevent += formatICSRange(startDate, endDate, isAllDay, timeZone);
+
+  vevent += `SUMMARY:[Task] ${escapeICS(task.title)}\n`;
+  vevent += `DESCRIPTION:${description}\n`;
+
+  vevent += 'END:VEVENT';
+  return vevent;
+};
+
+// A scheduled work day is an all-day event; confirmed days are CONFIRMED, the rest TENTATIVE
+const buildWorkDayVEvent = (workDay: WorkDay, timestamp: string): string => {
+  let vevent = `BEGIN:VEVENT
+UID:workday-${workDay.id}@sopapp
+DTSTAMP:${timestamp}
+DTSTART;VALUE=DATE:${formatDateForICS(workDay.workDate, undefined, true)}
+DTEND;VALUE=DATE:${formatNextDayForICS(workDay.workDate)}
+SUMMARY:Work day
+STATUS:${workDay.status === 'confirmed' ? 'CONFIRMED' : 'TENTATIVE'}
+TRANSP:TRANSPARENT
+`;
+
+  if (workDay.notes) {
+    vevent += `DESCRIPTION:${escapeICS(workDay.notes)}\n`;
   }
 
-  ics += `SUMMARY:[Task] ${escapeICS(task.title)}\n`;
-  ics += `DESCRIPTION:${description}\n`;
+  vevent += 'END:VEVENT';
+  return vevent;
+};
+
+// The VTIMEZONE timed items refer to, if there are any
+const buildTimeZoneBlock = (timeZone: string, timedDates: string[]): string =>
+  timedDates.length > 0 ? `${buildVTimeZone(timeZone, timedDates)}\n` : '';
+
+/**
+ * Generate ICS file content for an event
+ */
+export const generateICSForEvent = (event: CalendarEvent, timeZone: string = getDefaultTimeZone()): string => {
+  const timestamp = formatTimestampForICS(new Date());
+  const timedDates = event.isAllDay || !event.startTime ? [] : [event.startDate, event.endDate || event.startDate];
+  return `${CALENDAR_HEADER}${buildTimeZoneBlock(timeZone, timedDates)}${buildEventVEvent(event, timestamp, timeZone)}
+END:VCALENDAR`;
+};
 
-  ics += `END:VEVENT
+/**
+ * Generate ICS file content for a task
+ */
+export const generateICSForTask = (task: JobTask, timeZone: string = getDefaultTimeZone()): string => {
+  const timestamp = formatTimestampForICS(new Date());
+  const timedDates = task.dueTime ? [task.scheduledDate] : [];
+  return `${CALENDAR_HEADER}${buildTimeZoneBlock(timeZone, timedDates)}${buildTaskVEvent(task, timestamp, timeZone)}
 END:VCALENDAR`;
+};
+
+export interface ICSFeedContent {
+  name: string; // Shown as the calendar's name by subscribing apps
+  events: CalendarEvent[];
+  tasks: ICSTask[];
+  workDays: WorkDay[];
+  timeZone?: string; // Zone the stored times are in; the app's default if omitted
+}
+
+/**
+ * Generate a whole calendar for a subscribed feed. Each item keeps the UID
+ * it gets from the one-off exports, so subscribing apps update it in place.
+ */
+export const generateICSFeed = ({
+  name,
+  events,
+  tasks,
+  workDays,
+  timeZone = getDefaultTimeZone(),
+}: ICSFeedContent): string => {
+  const timestamp = formatTimestampForICS(new Date());
+  const vevents = [
+    ...events.map(event => buildEventVEvent(event, timestamp, timeZone)),
+    ...tasks.map(task => buildTaskVEvent(task, timestamp, timeZone)),
+    ...workDays.map(workDay => buildWorkDayVEvent(workDay, timestamp)),
+  ];
+  const timedDates = [
+    ...events.filter(event => !event.isAllDay && event.startTime).map(event => event.startDate),
+    ...tasks.filter(task => task.dueTime).map(task => task.scheduledDate),
+  ];
+
+  let ics = CALENDAR_HEADER;
+  ics += `X-WR-CALNAME:${escapeICS(name)}\n`;
+  ics += `X-WR-TIMEZONE:${timeZone}\n`;
+  // Ask subscribing apps to check for changes hourly
+  ics += 'REFRESH-INTERVAL;VALUE=DURATION:PT1H\n';
+  ics += 'X-PUBLISHED-TTL:PT1H\n';
+  ics += buildTimeZoneBlock(timeZone, timedDates);
+  vevents.forEach(vevent => {
+    ics += `${vevent}\n`;
+  });
+  ics += 'END:VCALENDAR';
 
   return ics;
 };
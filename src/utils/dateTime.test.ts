@@ -0,0 +1,115 @@
+import {
+  addMinutes,
+  daysBetweenKeys,
+  formatDateValue,
+  formatOffset,
+  getTimeZoneOffset,
+  getTimeZoneTransitions,
+  getTodayKey,
+  isPast,
+  isValidTimeZone,
+  toZonedDateTime,
+  zonedTimeToInstant,
+} from './dateTime';
+
+const NEW_YORK = 'America/New_York';
+
+describe('zonedTimeToInstant', () => {
+  it('reads ordinary times with the offset in effect', () => {
+    expect(zonedTimeToInstant('2026-01-15', '09:00', NEW_YORK).toISOString()).toBe('2026-01-15T14:00:00.000Z');
+    expect(zonedTimeToInstant('2026-07-15', '09:00', NEW_YORK).toISOString()).toBe('2026-07-15T13:00:00.000Z');
+  });
+
+  it('treats date-only values as midnight', () => {
+    expect(zonedTimeToInstant('2026-07-15', undefined, 'Asia/Tokyo').toISOString()).toBe('2026-07-14T15:00:00.000Z');
+  });
+
+  it('moves times skipped on a spring-forward night forward by the gap', () => {
+    const instant = zonedTimeToInstant('2026-03-08', '02:30', NEW_YORK);
+    expect(instant.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(toZonedDateTime(instant, NEW_YORK)).toEqual({ date: '2026-03-08', time: '03:30' });
+  });
+
+  it('resolves times repeated on a fall-back night to the first', () => {
+    expect(zonedTimeToInstant('2026-11-01', '01:30', NEW_YORK).toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+});
+
+describe('addMinutes', () => {
+  it('adds elapsed time across a DST change', () => {
+    expect(addMinutes('2026-03-08', '01:30', 60, NEW_YORK)).toEqual({ date: '2026-03-08', time: '03:30' });
+    expect(addMinutes('2026-11-01', '00:30', 120, NEW_YORK)).toEqual({ date: '2026-11-01', time: '01:30' });
+  });
+
+  it('rolls over midnight', () => {
+    expect(addMinutes('2026-12-31', '23:30', 45, 'UTC')).toEqual({ date: '2027-01-01', time: '00:15' });
+  });
+});
+
+describe('getTodayKey', () => {
+  it('returns the date in the zone, not in UTC', () => {
+    const lateEvening = new Date('2026-06-02T02:30:00Z');
+    expect(getTodayKey(NEW_YORK, lateEvening)).toBe('2026-06-01');
+    expect(getTodayKey('UTC', lateEvening)).toBe('2026-06-02');
+    expect(getTodayKey('Pacific/Auckland', new Date('2026-06-01T13:00:00Z'))).toBe('2026-06-02');
+  });
+});
+
+describe('isPast', () => {
+  const now = new Date('2026-06-01T16:00:00Z'); // Noon in New York
+
+  it('compares timed values as instants', () => {
+    expect(isPast('2026-06-01', '11:59', NEW_YORK, now)).toBe(true);
+    expect(isPast('2026-06-01', '12:01', NEW_YORK, now)).toBe(false);
+  });
+
+  it('only counts date-only values as past once the day is over', () => {
+    expect(isPast('2026-06-01', undefined, NEW_YORK, now)).toBe(false);
+    expect(isPast('2026-05-31', undefined, NEW_YORK, now)).toBe(true);
+  });
+});
+
+describe('daysBetweenKeys', () => {
+  it('counts whole days, including across DST changes', () => {
+    expect(daysBetweenKeys('2026-03-07', '2026-03-09')).toBe(2);
+    expect(daysBetweenKeys('2026-11-02', '2026-10-31')).toBe(-2);
+    expect(daysBetweenKeys('2026-02-28', '2026-03-01')).toBe(1);
+  });
+});
+
+describe('getTimeZoneTransitions', () => {
+  it('finds the offset changes in a year', () => {
+    const transitions = getTimeZoneTransitions(NEW_YORK, new Date('2026-01-01T00:00:00Z'), new Date('2027-01-01T00:00:00Z'));
+    expect(transitions).toEqual([
+      { at: new Date('2026-03-08T07:00:00Z'), offsetBefore: -300, offsetAfter: -240 },
+      { at: new Date('2026-11-01T06:00:00Z'), offsetBefore: -240, offsetAfter: -300 },
+    ]);
+  });
+
+  it('returns nothing for zones without DST', () => {
+    expect(getTimeZoneTransitions('Asia/Tokyo', new Date('2026-01-01T00:00:00Z'), new Date('2027-01-01T00:00:00Z'))).toEqual([]);
+  });
+});
+
+describe('formatting', () => {
+  it('shows the day a date key names, whatever the zone', () => {
+    expect(formatDateValue('2026-03-08', undefined, 'Pacific/Honolulu')).toBe('Mar 8, 2026');
+    expect(formatDateValue('2026-03-08', undefined, 'Asia/Tokyo')).toBe('Mar 8, 2026');
+  });
+
+  it('shows timestamps on the day they fall on in the zone', () => {
+    expect(formatDateValue('2026-03-08T03:00:00Z', undefined, NEW_YORK)).toBe('Mar 7, 2026');
+  });
+
+  it('formats offsets', () => {
+    expect(formatOffset(330)).toBe('+05:30');
+    expect(formatOffset(-240, '')).toBe('-0400');
+    expect(getTimeZoneOffset(new Date('2026-07-01T00:00:00Z'), 'Asia/Kolkata')).toBe(330);
+  });
+
+  it('validates zone names', () => {
+    expect(isValidTimeZone('Europe/Paris')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+});
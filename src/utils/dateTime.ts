@@ -0,0 +1,296 @@
+/**
+ * Date & Time Utilities
+ * Dates are stored as naive strings throughout the app: YYYY-MM-DD date keys
+ * and HH:MM wall-clock times, meant in the organization's time zone (or the
+ * user's own, if they picked one). Anything that turns those into instants,
+ * or an instant into "today", goes through here so DST changes and zone
+ * differences are handled in one place.
+ */
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Offset changes are months apart, so a weekly scan cannot step over two of them
+const TRANSITION_SCAN_STEP = 7 * DAY;
+
+// Used for pickers when the browser cannot list its zones
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/St_Johns',
+  'America/Halifax',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Europe/Athens',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+export interface ZonedDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+}
+
+export interface TimeZoneTransition {
+  at: Date; // First instant on the new offset
+  offsetBefore: number; // Minutes ahead of UTC
+  offsetAfter: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Date-only helpers (YYYY-MM-DD, local time)
+export const toDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const parseDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('T')[0].split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (dateKey: string, days: number): string => {
+  const date = parseDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+export const daysBetween = (from: Date, to: Date) =>
+  Math.round((to.getTime() - from.getTime()) / DAY);
+
+// Wall-clock date and time as a UTC timestamp, for zone-free arithmetic
+const wallClockToUTC = (dateKey: string, time = '00:00'): number => {
+  const [year, month, day] = dateKey.split('T')[0].split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes);
+};
+
+const utcToWallClock = (timestamp: number): ZonedDateTime => {
+  const date = new Date(timestamp);
+  return {
+    date: `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`,
+    time: `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`,
+  };
+};
+
+/** Whole days from one date key to another */
+export const daysBetweenKeys = (from: string, to: string): number =>
+  Math.round((wallClockToUTC(to) - wallClockToUTC(from)) / DAY);
+
+// Time zones
+
+export const getBrowserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+let defaultTimeZone: string | null = null;
+
+/**
+ * The zone used when a helper is not given one. TimeZoneContext keeps it in
+ * step with the signed-in user, so services outside React agree with the UI.
+ */
+export const setDefaultTimeZone = (timeZone: string | null) => {
+  defaultTimeZone = timeZone;
+};
+
+export const getDefaultTimeZone = (): string => defaultTimeZone || getBrowserTimeZone();
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Throws a RangeError for zones the runtime does not know
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string | undefined | null): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// What a wall clock in the zone shows at the instant, as a UTC timestamp
+const zonedWallClock = (timestamp: number, timeZone: string): number => {
+  const parts = getFormatter(timeZone).formatToParts(new Date(timestamp));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+};
+
+/** Minutes the zone is ahead of UTC at the given instant */
+export const getTimeZoneOffset = (instant: Date, timeZone: string): number => {
+  const timestamp = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((zonedWallClock(timestamp, timeZone) - timestamp) / MINUTE);
+};
+
+/** The date and time an instant falls on in a zone */
+export const toZonedDateTime = (instant: Date, timeZone: string = getDefaultTimeZone()): ZonedDateTime =>
+  utcToWallClock(zonedWallClock(instant.getTime(), timeZone));
+
+export const getTodayKey = (timeZone: string = getDefaultTimeZone(), now: Date = new Date()): string =>
+  toZonedDateTime(now, timeZone).date;
+
+/**
+ * The instant a wall-clock time in a zone refers to (midnight for date-only
+ * values). Times skipped by a DST change, like 02:30 on a spring-forward
+ * night, move forward by the gap; times that happen twice, like 01:30 on a
+ * fall-back night, resolve to the first. Calendar apps follow the same rules.
+ */
+export const zonedTimeToInstant = (
+  dateKey: string,
+  time: string | undefined,
+  timeZone: string = getDefaultTimeZone()
+): Date => {
+  const wallClock = wallClockToUTC(dateKey, time);
+  const offsetBefore = getTimeZoneOffset(new Date(wallClock - DAY), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallClock + DAY), timeZone);
+
+  const matches = [wallClock - offsetBefore * MINUTE, wallClock - offsetAfter * MINUTE]
+    .filter(timestamp => zonedWallClock(timestamp, timeZone) === wallClock);
+  if (matches.length > 0) return new Date(Math.min(...matches));
+
+  // In a gap: read the time with the offset from before the change
+  return new Date(wallClock - offsetBefore * MINUTE);
+};
+
+/**
+ * The date and time `minutes` after a wall-clock time in a zone. Elapsed
+ * time, so a 60 minute task at 01:30 on a spring-forward night ends at 03:30.
+ */
+export const addMinutes = (
+  dateKey: string,
+  time: string,
+  minutes: number,
+  timeZone: string = getDefaultTimeZone()
+): ZonedDateTime => {
+  const start = zonedTimeToInstant(dateKey, time, timeZone);
+  return toZonedDateTime(new Date(start.getTime() + minutes * MINUTE), timeZone);
+};
+
+/**
+ * Whether a date, or a date and time, has passed in the zone. Date-only
+ * values count as passed once their day is over.
+ */
+export const isPast = (
+  dateKey: string,
+  time: string | undefined,
+  timeZone: string = getDefaultTimeZone(),
+  now: Date = new Date()
+): boolean => {
+  if (!time) return dateKey.split('T')[0] < getTodayKey(timeZone, now);
+  return zonedTimeToInstant(dateKey, time, timeZone).getTime() < now.getTime();
+};
+
+/** Offset changes in a zone between two instants, to the minute */
+export const getTimeZoneTransitions = (timeZone: string, from: Date, to: Date): TimeZoneTransition[] => {
+  const transitions: TimeZoneTransition[] = [];
+  const end = Math.ceil(to.getTime() / MINUTE) * MINUTE;
+  let start = Math.floor(from.getTime() / MINUTE) * MINUTE;
+  let offset = getTimeZoneOffset(new Date(start), timeZone);
+
+  while (start < end) {
+    const stepEnd = Math.min(start + TRANSITION_SCAN_STEP, end);
+    const stepOffset = getTimeZoneOffset(new Date(stepEnd), timeZone);
+
+    if (stepOffset !== offset) {
+      let low = start;
+      let high = stepEnd;
+      while (high - low > MINUTE) {
+        const middle = low + Math.floor((high - low) / MINUTE / 2) * MINUTE;
+        if (getTimeZoneOffset(new Date(middle), timeZone) === offset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ at: new Date(high), offsetBefore: offset, offsetAfter: stepOffset });
+    }
+
+    offset = stepOffset;
+    start = stepEnd;
+  }
+
+  return transitions;
+};
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Format a date key or an ISO timestamp for display. Date keys show the day
+ * they name; timestamps show the day they fall on in the zone.
+ */
+export const formatDateValue = (
+  value: string,
+  options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' },
+  timeZone: string = getDefaultTimeZone()
+): string => {
+  if (DATE_KEY_PATTERN.test(value)) {
+    return new Date(wallClockToUTC(value)).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+  }
+  return new Date(value).toLocaleDateString('en-US', { ...options, timeZone });
+};
+
+/** "9:30 AM" for an HH:MM wall-clock time */
+export const formatWallTime = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return `${hours % 12 || 12}:${pad(minutes)} ${hours >= 12 ? 'PM' : 'AM'}`;
+};
+
+/** "+05:30" style offset */
+export const formatOffset = (minutes: number, separator = ':'): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${separator}${pad(absolute % 60)}`;
+};
+
+/** "America/New York (UTC-04:00)" */
+export const formatTimeZoneLabel = (timeZone: string, now: Date = new Date()): string => {
+  const name = timeZone.replace(/_/g, ' ');
+  if (!isValidTimeZone(timeZone)) return name;
+  return `${name} (UTC${formatOffset(getTimeZoneOffset(now, timeZone))})`;
+};
+
+/** IANA zones for pickers, always including the browser's own */
+export const getTimeZoneOptions = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = new Set(intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : COMMON_TIME_ZONES);
+  zones.add('UTC');
+  zones.add(getBrowserTimeZone());
+  return Array.from(zones).sort();
+};
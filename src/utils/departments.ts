@@ -0,0 +1,35 @@
+/**
+ * Department membership
+ * Which SOPs, templates and tasks a user can see. Admins see everything;
+ * everyone else sees what belongs to one of their departments. The same
+ * rules are enforced by RLS (migration v22 `is_department_member`).
+ */
+
+import { JobTask, SOP, TaskTemplate, User } from '../types';
+
+/** The user's primary department followed by any others they belong to */
+export const getUserDepartments = (user: User | null | undefined): string[] =>
+  user ? Array.from(new Set([user.department, ...(user.departments || [])].filter(Boolean))) : [];
+
+export const isDepartmentMember = (user: User | null | undefined, department: string): boolean =>
+  getUserDepartments(user).includes(department);
+
+const isMemberOfAny = (user: User, departments: string[] = []) =>
+  departments.some(department => isDepartmentMember(user, department));
+
+/** Departments that can see the SOP: its own, those it is shared with and those that must sign it */
+export const getSOPDepartments = (sop: SOP): string[] =>
+  Array.from(new Set([sop.department, ...(sop.sharedDepartments || []), ...(sop.assignedDepartments || [])]));
+
+export const canSeeSOP = (user: User | null | undefined, sop: SOP): boolean => {
+  if (!user) return false;
+  if (user.role === 'admin' || sop.createdBy === user.id || sop.review?.reviewers.includes(user.id)) return true;
+  return isMemberOfAny(user, getSOPDepartments(sop));
+};
+
+export const canSeeTemplate = (user: User | null | undefined, template: TaskTemplate): boolean =>
+  !!user && (user.role === 'admin' || isDepartmentMember(user, template.department));
+
+// Tasks assigned to someone stay visible to them whatever the department
+export const canSeeTask = (user: User | null | undefined, task: JobTask): boolean =>
+  !!user && (user.role === 'admin' || task.assignedTo.includes(user.id) || isDepartmentMember(user, task.department));
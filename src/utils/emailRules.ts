@@ -0,0 +1,171 @@
+/**
+ * Email Rules
+ * Which emails a user is due, and when: the morning overdue alert and daily
+ * digest, event reminders set to email, and notices for newly assigned
+ * tasks. Timing follows the push rules (notificationRules.ts). Each email
+ * carries a stable tag the sender (api/send-emails.ts) records so it goes
+ * out once, and the values its template is rendered with.
+ */
+
+import { EmailTemplateId } from '../types';
+import { addDays, formatDateValue, formatWallTime, getTodayKey, zonedTimeToInstant } from './dateTime';
+import { EmailTemplateValues } from './emailTemplates';
+import {
+  DAILY_ALERT_TIME,
+  NotificationInput,
+  describeEventStart,
+  getDueEventReminders,
+  getEventStartDates,
+  getTaskDueState,
+  isOpenTask,
+} from './notificationRules';
+
+export interface EmailInput extends NotificationInput {
+  firstName: string;
+  appUrl: string; // Links in the email point here
+}
+
+export interface ScheduledEmail {
+  kind: EmailTemplateId;
+  tag: string;
+  fireAt: Date;
+  values: EmailTemplateValues;
+}
+
+// A `task_assigned` activity log entry
+export interface TaskAssignment {
+  logId: string;
+  taskId: string;
+  assignedBy: string; // Name
+  assignedById: string;
+  assignees: string[];
+  previousAssignees: string[];
+  loggedAt: Date;
+}
+
+const byTime = (a?: string, b?: string) => (a || '').localeCompare(b || '');
+
+/**
+ * Scheduled emails for the user that fire in [from, to), oldest first.
+ * Nothing goes out when email is off; the overdue alert and the digest
+ * follow their own toggles.
+ */
+export const getScheduledEmails = (input: EmailInput, from: Date, to: Date): ScheduledEmail[] => {
+  const { userId, preferences, timeZone, firstName, appUrl } = input;
+  if (preferences && !preferences.emailEnabled) return [];
+
+  const overdueAlerts = preferences?.overdueAlerts ?? true;
+  const dailyDigest = preferences?.dailyDigest ?? true;
+  const firstDay = getTodayKey(timeZone, from);
+  const lastDay = getTodayKey(timeZone, to);
+  const emails: ScheduledEmail[] = [];
+
+  const myTasks = input.tasks.filter(task => task.assignedTo.includes(userId) && isOpenTask(task));
+  const myEvents = input.events.filter(event => event.attendees.includes(userId) || event.createdBy === userId);
+
+  for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+    const fireAt = zonedTimeToInstant(day, DAILY_ALERT_TIME, timeZone);
+    if (fireAt < from || fireAt >= to) continue;
+
+    const overdue = myTasks.filter(task => getTaskDueState(task, day) === 'overdue');
+    if (overdueAlerts && overdue.length > 0) {
+      emails.push({
+        kind: 'overdue_alert',
+        tag: `overdue_alert:${day}`,
+        fireAt,
+        values: {
+          firstName,
+          count: String(overdue.length),
+          taskList: overdue.map(task => `- ${task.title} (due ${formatDateValue(task.scheduledDate)})`).join('\n'),
+          appUrl,
+        },
+      });
+    }
+
+    if (!dailyDigest) continue;
+
+    const dueToday = myTasks
+      .filter(task => getTaskDueState(task, day) === 'due_today')
+      .sort((a, b) => byTime(a.dueTime, b.dueTime));
+    const schedule = myEvents
+      .filter(event => getEventStartDates(event, day, day).length > 0)
+      .map(event => ({ event, startTime: event.isAllDay ? undefined : event.startTime }))
+      .sort((a, b) => byTime(a.startTime, b.startTime));
+
+    // A quiet day gets no digest
+    if (dueToday.length === 0 && schedule.length === 0) continue;
+
+    emails.push({
+      kind: 'daily_digest',
+      tag: `daily_digest:${day}`,
+      fireAt,
+      values: {
+        firstName,
+        date: formatDateValue(day, { weekday: 'short', month: 'short', day: 'numeric' }),
+        taskList: dueToday.length > 0
+          ? dueToday.map(task => `- ${task.title}${task.dueTime ? ` (by ${formatWallTime(task.dueTime)})` : ''}`).join('\n')
+          : '- Nothing due',
+        schedule: schedule.length > 0
+          ? schedule.map(({ event, startTime }) => {
+              const line = `- ${startTime ? formatWallTime(startTime) : 'All day:'} ${event.title}`;
+              return event.location ? `${line} · ${event.location}` : line;
+            }).join('\n')
+          : '- Nothing scheduled',
+        appUrl,
+      },
+    });
+  }
+
+  getDueEventReminders(input, 'email', from, to).forEach(({ event, date, minutesBefore, fireAt }) => {
+    emails.push({
+      kind: 'event_reminder',
+      tag: `event_reminder:${event.id}:${date}:${minutesBefore}`,
+      fireAt,
+      values: {
+        firstName,
+        eventTitle: event.title,
+        when: describeEventStart(date, event.isAllDay ? undefined : event.startTime),
+        location: event.location ? `Location: ${event.location}` : '',
+        appUrl,
+      },
+    });
+  });
+
+  return emails.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+};
+
+/**
+ * Notices for tasks newly assigned to the user. Assigning yourself sends
+ * nothing, and neither does a task that has since been closed. Log entries
+ * come from clients, so the task itself must list the user as an assignee.
+ */
+export const getAssignmentEmails = (input: EmailInput, assignments: TaskAssignment[]): ScheduledEmail[] => {
+  const { userId, preferences, firstName, appUrl } = input;
+  if (preferences && !preferences.emailEnabled) return [];
+
+  return assignments
+    .filter(assignment =>
+      assignment.assignedById !== userId &&
+      assignment.assignees.includes(userId) &&
+      !assignment.previousAssignees.includes(userId)
+    )
+    .flatMap(assignment => {
+      const task = input.tasks.find(candidate => candidate.id === assignment.taskId);
+      if (!task || !isOpenTask(task) || !task.assignedTo.includes(userId)) return [];
+
+      return [{
+        kind: 'task_assigned' as const,
+        tag: `task_assigned:${assignment.logId}`,
+        fireAt: assignment.loggedAt,
+        values: {
+          firstName,
+          taskTitle: task.title,
+          assignedBy: assignment.assignedBy,
+          dueDate: task.dueTime
+            ? `${formatDateValue(task.scheduledDate)} at ${formatWallTime(task.dueTime)}`
+            : formatDateValue(task.scheduledDate),
+          appUrl,
+        },
+      }];
+    });
+};
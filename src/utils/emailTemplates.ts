@@ -0,0 +1,182 @@
+/**
+ * Email Templates
+ * Default wording for the emails the app sends, the placeholders each one
+ * can use, and the renderer. Admins can override any template in Settings
+ * (stored in `email_templates`); the sender (api/send-emails.ts) and the
+ * editor's preview both render through here.
+ */
+
+import { EmailTemplate, EmailTemplateId } from '../types';
+
+export type EmailTemplateValues = Record<string, string>;
+
+interface EmailTemplateInfo {
+  label: string;
+  description: string;
+  placeholders: Record<string, string>; // Name -> what it holds
+  sample: EmailTemplateValues; // Values for the editor's preview
+}
+
+export const EMAIL_TEMPLATE_IDS: EmailTemplateId[] = ['task_assigned', 'overdue_alert', 'daily_digest', 'event_reminder', 'invite'];
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateId, EmailTemplate> = {
+  task_assigned: {
+    subject: 'New task: {{taskTitle}}',
+    body: `Hi {{firstName}},
+
+{{assignedBy}} assigned you "{{taskTitle}}", due {{dueDate}}.
+
+Open your tasks: {{appUrl}}/my-tasks`,
+  },
+  overdue_alert: {
+    subject: 'You have {{count}} overdue task(s)',
+    body: `Hi {{firstName}},
+
+These tasks are past their due date:
+
+{{taskList}}
+
+Open your tasks: {{appUrl}}/my-tasks`,
+  },
+  daily_digest: {
+    subject: 'Your day: {{date}}',
+    body: `Good morning {{firstName}},
+
+Tasks due today:
+{{taskList}}
+
+Your schedule:
+{{schedule}}
+
+Open the app: {{appUrl}}`,
+  },
+  event_reminder: {
+    subject: 'Reminder: {{eventTitle}}',
+    body: `Hi {{firstName}},
+
+{{eventTitle}} is coming up {{when}}.
+{{location}}
+
+Open your calendar: {{appUrl}}/calendar`,
+  },
+  invite: {
+    subject: '{{invitedBy}} invited you to join the team',
+    body: `Hi {{firstName}},
+
+{{invitedBy}} invited you to the team's SOP and task app.
+
+Choose your password to get started: {{inviteUrl}}
+
+This link works until {{expiresOn}}.`,
+  },
+};
+
+export const EMAIL_TEMPLATE_INFO: Record<EmailTemplateId, EmailTemplateInfo> = {
+  task_assigned: {
+    label: 'Task assigned',
+    description: 'Sent when someone assigns a task to a team member',
+    placeholders: {
+      firstName: "Recipient's first name",
+      taskTitle: 'Task title',
+      assignedBy: 'Who assigned it',
+      dueDate: 'Scheduled date',
+      appUrl: 'Link to the app',
+    },
+    sample: {
+      firstName: 'Alex',
+      taskTitle: 'Restock the supply room',
+      assignedBy: 'Jordan Lee',
+      dueDate: 'Oct 21, 2026',
+      appUrl: 'https://app.example.com',
+    },
+  },
+  overdue_alert: {
+    label: 'Overdue alert',
+    description: 'Sent each morning while a team member has overdue tasks',
+    placeholders: {
+      firstName: "Recipient's first name",
+      count: 'Number of overdue tasks',
+      taskList: 'One line per overdue task',
+      appUrl: 'Link to the app',
+    },
+    sample: {
+      firstName: 'Alex',
+      count: '2',
+      taskList: '- Restock the supply room (due Oct 17, 2026)\n- Weekly safety check (due Oct 18, 2026)',
+      appUrl: 'https://app.example.com',
+    },
+  },
+  daily_digest: {
+    label: 'Daily digest',
+    description: "Morning summary of the day's tasks and schedule",
+    placeholders: {
+      firstName: "Recipient's first name",
+      date: "Today's date",
+      taskList: 'One line per task due today',
+      schedule: "One line per event on today's calendar",
+      appUrl: 'Link to the app',
+    },
+    sample: {
+      firstName: 'Alex',
+      date: 'Mon, Oct 19',
+      taskList: '- Open the front desk (by 9:00 AM)\n- Weekly safety check',
+      schedule: '- 10:00 AM Team standup · Room 2\n- All day: Inventory week',
+      appUrl: 'https://app.example.com',
+    },
+  },
+  event_reminder: {
+    label: 'Event reminder',
+    description: 'Sent for calendar events with an email reminder',
+    placeholders: {
+      firstName: "Recipient's first name",
+      eventTitle: 'Event title',
+      when: 'Date and start time',
+      location: 'Location line (blank when none)',
+      appUrl: 'Link to the app',
+    },
+    sample: {
+      firstName: 'Alex',
+      eventTitle: 'Team standup',
+      when: 'Mon, Oct 19 at 10:00 AM',
+      location: 'Location: Room 2',
+      appUrl: 'https://app.example.com',
+    },
+  },
+  invite: {
+    label: 'Invitation',
+    description: 'Sent when an admin invites someone, and again on resend',
+    placeholders: {
+      firstName: "Invitee's first name",
+      invitedBy: 'Admin who sent the invite',
+      inviteUrl: 'Link to set a password',
+      expiresOn: 'Last day the link works',
+      appUrl: 'Link to the app',
+    },
+    sample: {
+      firstName: 'Alex',
+      invitedBy: 'Jordan Lee',
+      inviteUrl: 'https://app.example.com/invite/3f9c…',
+      expiresOn: 'Oct 26, 2026',
+      appUrl: 'https://app.example.com',
+    },
+  },
+};
+
+/**
+ * Fill in {{placeholders}}. Unknown ones are left as written so a typo
+ * shows up in the preview instead of vanishing.
+ */
+export const renderEmailTemplate = (template: EmailTemplate, values: EmailTemplateValues): EmailTemplate => {
+  const fill = (text: string) =>
+    text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => (name in values ? values[name] : match));
+  return { subject: fill(template.subject).replace(/\s+/g, ' ').trim(), body: fill(template.body) };
+};
+
+/** Admin overrides layered over the defaults */
+export const resolveEmailTemplates = (
+  overrides: Partial<Record<EmailTemplateId, EmailTemplate>>
+): Record<EmailTemplateId, EmailTemplate> =>
+  EMAIL_TEMPLATE_IDS.reduce((templates, id) => {
+    templates[id] = overrides[id] || DEFAULT_EMAIL_TEMPLATES[id];
+    return templates;
+  }, {} as Record<EmailTemplateId, EmailTemplate>);
@@ -0,0 +1,139 @@
+/**
+ * EXIF metadata
+ * Reads when and where a JPEG photo was taken from its EXIF block. Only the
+ * tags evidence photos need are read (DateTimeOriginal, OffsetTimeOriginal
+ * and the GPS position), so this stays small instead of pulling in a library.
+ * Must be read from the original file: compressing through a canvas drops EXIF.
+ */
+
+export interface PhotoMetadata {
+  takenAt?: string; // ISO; without an offset when the camera didn't record one
+  latitude?: number;
+  longitude?: number;
+}
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // Where the value, or the offset to it, is stored
+}
+
+// EXIF sits near the start of the file; no need to read the whole photo
+const MAX_HEADER_BYTES = 256 * 1024;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+const TYPE_ASCII = 2;
+const TYPE_RATIONAL = 5;
+
+const EXIF_DATE_PATTERN = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/;
+const OFFSET_PATTERN = /^[+-]\d{2}:\d{2}$/;
+
+/** "2024:05:01 14:03:22" (+ "+02:00") -> "2024-05-01T14:03:22+02:00" */
+const toIsoDateTime = (value?: string, offset?: string): string | undefined => {
+  const match = value ? EXIF_DATE_PATTERN.exec(value) : null;
+  if (!match || match[1] === '0000') return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${offset && OFFSET_PATTERN.test(offset) ? offset : ''}`;
+};
+
+const parseTiff = (view: DataView, start: number): PhotoMetadata => {
+  const littleEndian = view.getUint16(start) === 0x4949; // "II"
+  const u16 = (offset: number) => view.getUint16(start + offset, littleEndian);
+  const u32 = (offset: number) => view.getUint32(start + offset, littleEndian);
+  if (u16(2) !== 0x002a) return {};
+
+  const readIfd = (offset: number): Map<number, IfdEntry> => {
+    const entries = new Map<number, IfdEntry>();
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      entries.set(u16(entry), { type: u16(entry + 2), count: u32(entry + 4), valueOffset: entry + 8 });
+    }
+    return entries;
+  };
+
+  const readAscii = (entry?: IfdEntry): string | undefined => {
+    if (!entry || entry.type !== TYPE_ASCII) return undefined;
+    // Up to 4 bytes are stored inline, longer strings elsewhere
+    const at = entry.count > 4 ? u32(entry.valueOffset) : entry.valueOffset;
+    let text = '';
+    for (let i = 0; i < entry.count; i++) {
+      const code = view.getUint8(start + at + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text.trim();
+  };
+
+  const readRationals = (entry?: IfdEntry): number[] | undefined => {
+    if (!entry || entry.type !== TYPE_RATIONAL) return undefined;
+    const at = u32(entry.valueOffset);
+    return Array.from({ length: entry.count }, (_, i) => {
+      const denominator = u32(at + i * 8 + 4);
+      return denominator ? u32(at + i * 8) / denominator : 0;
+    });
+  };
+
+  // Degrees, minutes, seconds -> signed decimal degrees
+  const readCoordinate = (valueEntry?: IfdEntry, refEntry?: IfdEntry): number | undefined => {
+    const parts = readRationals(valueEntry);
+    const ref = readAscii(refEntry);
+    if (!parts || parts.length < 3 || !ref) return undefined;
+    const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+    const signed = ref === 'S' || ref === 'W' ? -degrees : degrees;
+    return Math.round(signed * 1e6) / 1e6;
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const metadata: PhotoMetadata = {};
+
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  const exif = exifPointer ? readIfd(u32(exifPointer.valueOffset)) : undefined;
+  metadata.takenAt =
+    toIsoDateTime(readAscii(exif?.get(TAG_DATE_TIME_ORIGINAL)), readAscii(exif?.get(TAG_OFFSET_TIME_ORIGINAL))) ||
+    toIsoDateTime(readAscii(ifd0.get(TAG_DATE_TIME)));
+
+  const gpsPointer = ifd0.get(TAG_GPS_IFD);
+  if (gpsPointer) {
+    const gps = readIfd(u32(gpsPointer.valueOffset));
+    const latitude = readCoordinate(gps.get(TAG_GPS_LATITUDE), gps.get(TAG_GPS_LATITUDE_REF));
+    const longitude = readCoordinate(gps.get(TAG_GPS_LONGITUDE), gps.get(TAG_GPS_LONGITUDE_REF));
+    if (latitude !== undefined && longitude !== undefined) {
+      metadata.latitude = latitude;
+      metadata.longitude = longitude;
+    }
+  }
+
+  return metadata;
+};
+
+/** Capture time and GPS position of a JPEG; empty for other formats or photos without EXIF */
+export const readPhotoMetadata = async (file: Blob): Promise<PhotoMetadata> => {
+  try {
+    const view = new DataView(await file.slice(0, MAX_HEADER_BYTES).arrayBuffer());
+    if (view.getUint16(0) !== 0xffd8) return {}; // Not a JPEG
+
+    let offset = 2;
+    while (offset + 10 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      // Past the headers once the image data (SOS) starts
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) { // APP1 "Exif"
+        return parseTiff(view, offset + 10);
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Truncated or malformed EXIF: treat it as missing
+  }
+  return {};
+};
@@ -0,0 +1,161 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { getEventICSUid, parseICS } from './icsImport';
+
+const NEW_YORK = 'America/New_York';
+const SERIES_UID = '5q0k2l3m4n5o6p7q8r9s0t1u2v@google.com';
+
+// Real exports, kept with their CRLF line endings and 75-octet folding
+const readFixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('parseICS', () => {
+  describe('a Google Calendar export', () => {
+    const text = readFixture('google-calendar-export.ics');
+
+    it('reads the calendar name and every event', () => {
+      const result = parseICS(text, NEW_YORK);
+
+      expect(result.calendarName).toBe('Store Operations');
+      expect(result.skipped).toBe(0);
+      expect(result.items.map(item => item.uid)).toEqual([
+        SERIES_UID,
+        '3h4j5k6l7m8n9p0q1r2s3t4u5v@google.com',
+        `${SERIES_UID}#2026-06-22`,
+      ]);
+    });
+
+    it('unfolds long lines, including ones split mid-word', () => {
+      const [, inventory] = parseICS(text, NEW_YORK).items;
+
+      expect(inventory.event.title).toBe('Quarterly inventory count with the regional team, all hands on deck');
+      expect(inventory.attendeeEmails).toEqual(['ops@example.com', 'dana.lee@example.com']);
+    });
+
+    it('unescapes commas, semicolons and newlines', () => {
+      const [series] = parseICS(text, NEW_YORK).items;
+
+      expect(series.event.description).toBe('Agenda:\n- Sales numbers\n- Staffing, rota and holidays; bring your notes');
+      expect(series.event.location).toBe('Back office, 2nd floor');
+    });
+
+    it('reads TZID and UTC times into the requested time zone', () => {
+      const [series, inventory] = parseICS(text, NEW_YORK).items;
+      expect(series.event).toMatchObject({ startDate: '2026-06-08', startTime: '09:00', endTime: '09:30', isAllDay: false });
+      expect(inventory.event).toMatchObject({ startDate: '2026-06-10', startTime: '09:00', endTime: '11:00' });
+
+      const [londonSeries, londonInventory] = parseICS(text, 'Europe/London').items;
+      expect(londonSeries.event).toMatchObject({ startDate: '2026-06-08', startTime: '14:00', endTime: '14:30' });
+      expect(londonInventory.event).toMatchObject({ startTime: '14:00', endTime: '16:00' });
+    });
+
+    it('keeps the series with its excluded, moved and cancelled dates as skip dates', () => {
+      const [series, , moved] = parseICS(text, NEW_YORK).items;
+
+      expect(series.event.isRecurring).toBe(true);
+      expect(series.event.recurrencePattern).toEqual({
+        frequency: 'weekly',
+        daysOfWeek: [1],
+        skipDates: ['2026-06-15', '2026-06-22', '2026-06-29'],
+      });
+      expect(moved.event).toMatchObject({
+        title: 'Weekly team huddle (moved for the stocktake)',
+        startDate: '2026-06-22',
+        startTime: '11:00',
+        endTime: '11:30',
+        isRecurring: false,
+      });
+    });
+
+    it('turns alarms before the start into reminders', () => {
+      const [series] = parseICS(text, NEW_YORK).items;
+
+      expect(series.event.reminders).toEqual([
+        { id: '1', type: 'notification', time: 10 },
+        { id: '2', type: 'email', time: 24 * 60 },
+      ]);
+    });
+
+    it('reads files with bare LF line endings the same way', () => {
+      expect(parseICS(text.replace(/\r\n/g, '\n'), NEW_YORK)).toEqual(parseICS(text, NEW_YORK));
+    });
+  });
+
+  describe('a school district calendar', () => {
+    const text = readFixture('school-district.ics');
+
+    it('skips cancelled events and older copies of updated ones', () => {
+      const result = parseICS(text, NEW_YORK);
+
+      expect(result.calendarName).toBe('Maple Grove 2026-27');
+      expect(result.skipped).toBe(2);
+      expect(result.items.map(item => item.event.title)).toEqual([
+        'First day of school',
+        'Open house',
+        'Picture day (rescheduled)',
+        'Thanksgiving recess',
+        'Winter break, no classes',
+      ]);
+    });
+
+    it('reads all-day events with exclusive end dates', () => {
+      const items = parseICS(text, NEW_YORK).items;
+      const byTitle = (title: string) => items.find(item => item.event.title === title)!.event;
+
+      expect(byTitle('First day of school')).toMatchObject({ startDate: '2026-09-01', isAllDay: true });
+      expect(byTitle('First day of school').endDate).toBeUndefined();
+      expect(byTitle('Winter break, no classes')).toMatchObject({ startDate: '2026-12-21', endDate: '2027-01-01', isAllDay: true });
+    });
+
+    it('treats DTSTART without a time as all-day and applies DURATION', () => {
+      const thanksgiving = parseICS(text, NEW_YORK).items.find(item => item.event.title === 'Thanksgiving recess')!;
+
+      expect(thanksgiving.event).toMatchObject({ startDate: '2026-11-26', endDate: '2026-11-27', isAllDay: true });
+      expect(thanksgiving.event.startTime).toBeUndefined();
+    });
+
+    it('unescapes uppercase newlines and backslashes across folded lines', () => {
+      const winterBreak = parseICS(text, NEW_YORK).items.find(item => item.event.title === 'Winter break, no classes')!;
+
+      expect(winterBreak.event.description).toBe(
+        'Offices closed on the 24th and 25th.\nFor urgent matters call (555) 010-2000; the schedule is at S:\\Shared\\Calendar.pdf'
+      );
+    });
+
+    it('keeps times as written for a time zone it does not know, with a warning', () => {
+      const openHouse = parseICS(text, 'Europe/London').items.find(item => item.event.title === 'Open house')!;
+
+      expect(openHouse.event).toMatchObject({
+        startDate: '2026-09-15',
+        startTime: '18:30',
+        endTime: '20:00',
+        location: 'Main gym',
+        reminders: [{ id: '1', type: 'notification', time: 15 }],
+      });
+      expect(openHouse.warnings).toEqual(['Unknown time zone "Eastern Standard Time", times kept as written']);
+    });
+  });
+
+  it('rejects files that are not iCalendar', () => {
+    expect(() => parseICS('Subject,Start Date\r\nTeam huddle,06/08/2026\r\n')).toThrow('This is not an iCalendar (.ics) file');
+  });
+});
+
+describe('getEventICSUid', () => {
+  const event = {
+    id: 'evt_1',
+    title: 'Team huddle',
+    description: '',
+    startDate: '2026-06-08',
+    isAllDay: true,
+    color: '#3B82F6',
+    attendees: [],
+    isRecurring: false,
+    createdBy: 'user-1',
+    createdAt: '2026-06-01T09:00:00.000Z',
+  };
+
+  it('prefers the UID the event was imported with', () => {
+    expect(getEventICSUid({ ...event, icsUid: SERIES_UID })).toBe(SERIES_UID);
+    expect(getEventICSUid(event)).toBe('evt_1@sopapp');
+  });
+});
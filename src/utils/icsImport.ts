@@ -0,0 +1,345 @@
+/**
+ * iCalendar Import
+ * Parses .ics files (school-year calendars, vendor schedules, exports from
+ * other calendar apps) into CalendarEvents. Handles all-day and multi-day
+ * events, RRULE / EXDATE series, moved and cancelled occurrences, VALARM
+ * reminders, and UTC or TZID times, which are converted to the app's time zone.
+ */
+
+import { CalendarEvent, EventReminder } from '../types';
+import { parseRecurrenceLines } from './rrule';
+import { addDays, addMinutes, getDefaultTimeZone, isValidTimeZone, toZonedDateTime, zonedTimeToInstant } from './dateTime';
+
+export type ImportedEvent = Omit<CalendarEvent, 'id' | 'createdAt' | 'createdBy'>;
+
+export interface ICSImportItem {
+  uid: string; // Dedupe key: the VEVENT UID, plus the date for moved occurrences
+  event: ImportedEvent;
+  attendeeEmails: string[];
+  warnings: string[];
+}
+
+export interface ICSImportResult {
+  calendarName?: string;
+  items: ICSImportItem[];
+  skipped: number; // Cancelled or unreadable VEVENTs
+}
+
+interface ICSProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+  raw: string; // The unfolded line, for RRULE / EXDATE parsing
+}
+
+interface LocalDateTime {
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:MM, omitted for DATE values
+}
+
+interface RawEvent {
+  properties: ICSProperty[];
+  alarms: ICSProperty[][];
+}
+
+export const DEFAULT_IMPORT_COLOR = '#3B82F6';
+
+const UNTITLED = '(No title)';
+
+// Lines starting with a space or tab continue the previous line
+const unfoldLines = (text: string): string[] =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim() !== '');
+
+// Splits on a separator, ignoring any inside double-quoted parameter values
+const splitOutsideQuotes = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const parseProperty = (line: string): ICSProperty | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = splitOutsideQuotes(line.slice(0, colon), ';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1), raw: line };
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const parseDateValue = (property: ICSProperty, warnings: string[], timeZone: string): LocalDateTime | null => {
+  const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second = '00', utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (hour === undefined || property.params.VALUE === 'DATE') return { date };
+
+  if (utc) {
+    return toZonedDateTime(new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)), timeZone);
+  }
+
+  const sourceZone = property.params.TZID;
+  if (sourceZone) {
+    if (isValidTimeZone(sourceZone)) {
+      return toZonedDateTime(zonedTimeToInstant(date, `${hour}:${minute}`, sourceZone), timeZone);
+    }
+    const warning = `Unknown time zone "${sourceZone}", times kept as written`;
+    if (!warnings.includes(warning)) warnings.push(warning);
+  }
+
+  // Floating time: the same wall-clock time wherever it is viewed
+  return { date, time: `${hour}:${minute}` };
+};
+
+// RFC 5545 duration (e.g. "-PT15M", "P1DT2H", "P2W") in minutes
+const parseDurationMinutes = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks || 0) * 7 * 24 * 60 +
+    Number(days || 0) * 24 * 60 +
+    Number(hours || 0) * 60 +
+    Number(minutes || 0) +
+    Math.floor(Number(seconds || 0) / 60);
+  return sign === '-' ? -total : total;
+};
+
+const getProperty = (properties: ICSProperty[], name: string) =>
+  properties.find(property => property.name === name);
+
+// Relative triggers before the start become reminders; absolute or "after" triggers are dropped
+const parseReminders = (alarms: ICSProperty[][]): EventReminder[] => {
+  const reminders: EventReminder[] = [];
+  alarms.forEach(alarm => {
+    const trigger = getProperty(alarm, 'TRIGGER');
+    if (!trigger || trigger.params.VALUE === 'DATE-TIME') return;
+    const offset = parseDurationMinutes(trigger.value);
+    if (offset === null || offset > 0) return;
+
+    const type = getProperty(alarm, 'ACTION')?.value.toUpperCase() === 'EMAIL' ? 'email' : 'notification';
+    if (reminders.some(reminder => reminder.type === type && reminder.time === -offset)) return;
+    reminders.push({ id: String(reminders.length + 1), type, time: -offset });
+  });
+  return reminders;
+};
+
+const buildItem = (raw: RawEvent, uid: string, timeZone: string): ICSImportItem | null => {
+  const { properties } = raw;
+  const warnings: string[] = [];
+
+  const startProperty = getProperty(properties, 'DTSTART');
+  const start = startProperty && parseDateValue(startProperty, warnings, timeZone);
+  if (!start) return null;
+
+  const event: ImportedEvent = {
+    title: unescapeText(getProperty(properties, 'SUMMARY')?.value || '').trim() || UNTITLED,
+    description: unescapeText(getProperty(properties, 'DESCRIPTION')?.value || '').trim(),
+    startDate: start.date,
+    isAllDay: !start.time,
+    color: DEFAULT_IMPORT_COLOR,
+    attendees: [],
+    isRecurring: false,
+    tags: [],
+  };
+
+  const location = unescapeText(getProperty(properties, 'LOCATION')?.value || '').trim();
+  if (location) event.location = location;
+
+  const endProperty = getProperty(properties, 'DTEND');
+  const durationProperty = getProperty(properties, 'DURATION');
+  const duration = durationProperty ? parseDurationMinutes(durationProperty.value) : null;
+
+  if (!start.time) {
+    // All-day ends are exclusive: an event on the 3rd ends on the 4th
+    let lastDay = start.date;
+    const end = endProperty && parseDateValue(endProperty, warnings, timeZone);
+    if (end) {
+      lastDay = addDays(end.date, -1);
+    } else if (duration !== null && duration > 0) {
+      lastDay = addDays(start.date, Math.ceil(duration / (24 * 60)) - 1);
+    }
+    if (lastDay > start.date) event.endDate = lastDay;
+  } else {
+    event.startTime = start.time;
+    let end = endProperty ? parseDateValue(endProperty, warnings, timeZone) : null;
+    if (!end && duration !== null && duration > 0) {
+      end = addMinutes(start.date, start.time, duration, timeZone);
+    }
+    if (end?.time) {
+      event.endTime = end.time;
+      if (end.date > start.date) event.endDate = end.date;
+    }
+  }
+
+  const recurrenceLines = properties
+    .filter(property => property.name === 'RRULE' || property.name === 'EXDATE')
+    .map(property => property.raw);
+  if (recurrenceLines.some(line => /^RRULE/i.test(line))) {
+    const pattern = parseRecurrenceLines(recurrenceLines);
+    if (pattern) {
+      event.isRecurring = true;
+      event.recurrencePattern = pattern;
+    } else {
+      warnings.push("Repeats in a way the calendar can't show, only the first occurrence is imported");
+    }
+  }
+  if (getProperty(properties, 'RDATE')) {
+    warnings.push('Extra dates (RDATE) are not imported');
+  }
+
+  const reminders = parseReminders(raw.alarms);
+  if (reminders.length > 0) event.reminders = reminders;
+
+  const attendeeEmails = properties
+    .filter(property => property.name === 'ATTENDEE' || property.name === 'ORGANIZER')
+    .map(property => property.value.replace(/^mailto:/i, '').trim().toLowerCase())
+    .filter(email => email.includes('@'));
+
+  return { uid, event, attendeeEmails: Array.from(new Set(attendeeEmails)), warnings };
+};
+
+/**
+ * Parse the VEVENTs of an .ics file. Occurrences moved with RECURRENCE-ID
+ * become separate events and are skipped in their series; cancelled events
+ * and occurrences are left out. When a UID appears more than once, the
+ * highest SEQUENCE wins. Times come back in `timeZone`.
+ */
+export const parseICS = (text: string, timeZone: string = getDefaultTimeZone()): ICSImportResult => {
+  const lines = unfoldLines(text);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('This is not an iCalendar (.ics) file');
+  }
+
+  let calendarName: string | undefined;
+  const rawEvents: RawEvent[] = [];
+  const stack: string[] = [];
+  let currentEvent: RawEvent | null = null;
+  let currentAlarm: ICSProperty[] | null = null;
+
+  lines.forEach(line => {
+    const property = parseProperty(line);
+    if (!property) return;
+
+    if (property.name === 'BEGIN') {
+      const component = property.value.trim().toUpperCase();
+      stack.push(component);
+      if (component === 'VEVENT') currentEvent = { properties: [], alarms: [] };
+      if (component === 'VALARM' && currentEvent) currentAlarm = [];
+      return;
+    }
+
+    if (property.name === 'END') {
+      const component = stack.pop();
+      if (component === 'VALARM' && currentEvent && currentAlarm) {
+        (currentEvent as RawEvent).alarms.push(currentAlarm);
+        currentAlarm = null;
+      }
+      if (component === 'VEVENT' && currentEvent) {
+        rawEvents.push(currentEvent);
+        currentEvent = null;
+      }
+      return;
+    }
+
+    const component = stack[stack.length - 1];
+    if (component === 'VALARM' && currentAlarm) {
+      currentAlarm.push(property);
+    } else if (component === 'VEVENT' && currentEvent) {
+      (currentEvent as RawEvent).properties.push(property);
+    } else if (component === 'VCALENDAR' && property.name === 'X-WR-CALNAME') {
+      calendarName = unescapeText(property.value).trim() || undefined;
+    }
+  });
+
+  let skipped = 0;
+  const masters = new Map<string, { raw: RawEvent; sequence: number }>();
+  const overrides: { uid: string; raw: RawEvent }[] = [];
+
+  rawEvents.forEach((raw, index) => {
+    const uid = getProperty(raw.properties, 'UID')?.value.trim() || `no-uid-${index}`;
+    if (getProperty(raw.properties, 'RECURRENCE-ID')) {
+      overrides.push({ uid, raw });
+      return;
+    }
+    if (getProperty(raw.properties, 'STATUS')?.value.toUpperCase() === 'CANCELLED') {
+      skipped++;
+      return;
+    }
+    const sequence = Number(getProperty(raw.properties, 'SEQUENCE')?.value) || 0;
+    const existing = masters.get(uid);
+    if (existing) skipped++;
+    if (!existing || sequence >= existing.sequence) masters.set(uid, { raw, sequence });
+  });
+
+  const items: ICSImportItem[] = [];
+  masters.forEach(({ raw }, uid) => {
+    const item = buildItem(raw, uid, timeZone);
+    if (item) items.push(item);
+    else skipped++;
+  });
+
+  overrides.forEach(({ uid, raw }) => {
+    const recurrenceId = parseDateValue(getProperty(raw.properties, 'RECURRENCE-ID')!, [], timeZone);
+    const master = items.find(item => item.uid === uid);
+    if (!recurrenceId) {
+      skipped++;
+      return;
+    }
+
+    // The series skips that date; the moved occurrence (if not cancelled) stands on its own
+    const pattern = master?.event.recurrencePattern;
+    if (pattern) {
+      pattern.skipDates = Array.from(new Set([...(pattern.skipDates || []), recurrenceId.date])).sort();
+    }
+    if (getProperty(raw.properties, 'STATUS')?.value.toUpperCase() === 'CANCELLED') return;
+
+    const item = buildItem({ ...raw, properties: raw.properties.filter(p => p.name !== 'RRULE') }, `${uid}#${recurrenceId.date}`, timeZone);
+    if (item) items.push(item);
+    else skipped++;
+  });
+
+  items.sort((a, b) =>
+    a.event.startDate.localeCompare(b.event.startDate) ||
+    (a.event.startTime || '').localeCompare(b.event.startTime || '')
+  );
+
+  return { calendarName, items, skipped };
+};
+
+/**
+ * The UID an event is known by in .ics files: the one it was imported with,
+ * or the one generateICSForEvent gives it.
+ */
+export const getEventICSUid = (event: CalendarEvent): string => event.icsUid || `${event.id}@sopapp`;
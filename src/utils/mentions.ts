@@ -0,0 +1,97 @@
+/**
+ * @mentions in comments
+ * A mention is written as "@First Last". While typing, getActiveMention finds
+ * the "@..." under the caret so the composer can offer matching team members;
+ * on save, findMentionedUserIds picks out who is still mentioned in the text.
+ */
+
+import { User } from '../types';
+
+export interface ActiveMention {
+  start: number; // Index of the "@"
+  query: string; // What has been typed after it
+}
+
+export interface MentionSegment {
+  text: string;
+  userId?: string; // Set when this part of the text is a mention
+}
+
+// Long enough for "First Last" while typing; an "@" further back is not a mention in progress
+const MAX_QUERY_LENGTH = 30;
+
+export const getMentionName = (user: Pick<User, 'firstName' | 'lastName'>) =>
+  `${user.firstName} ${user.lastName}`.trim();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The "@query" being typed just before the caret, if any */
+export const getActiveMention = (text: string, caret: number): ActiveMention | null => {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('@');
+  if (start === -1) return null;
+  if (start > 0 && !/\s/.test(before[start - 1])) return null; // e.g. an email address
+
+  const query = before.slice(start + 1);
+  // A first and last name at most, on the same line
+  if (query.length > MAX_QUERY_LENGTH || /\n/.test(query) || query.split(' ').length > 2) return null;
+
+  return { start, query };
+};
+
+export const getMentionCandidates = (users: User[], query: string, limit = 6): User[] => {
+  const needle = query.trim().toLowerCase();
+  return users
+    .filter(user => {
+      if (!needle) return true;
+      const name = getMentionName(user).toLowerCase();
+      return name.startsWith(needle) || user.lastName.toLowerCase().startsWith(needle);
+    })
+    .slice(0, limit);
+};
+
+/** Replace the active "@query" with the user's full name; returns the new text and caret */
+export const insertMention = (
+  text: string,
+  mention: ActiveMention,
+  user: Pick<User, 'firstName' | 'lastName'>
+): { text: string; caret: number } => {
+  const rest = text.slice(mention.start + 1 + mention.query.length);
+  const inserted = `@${getMentionName(user)}${rest.startsWith(' ') ? '' : ' '}`;
+  return {
+    text: text.slice(0, mention.start) + inserted + rest,
+    caret: mention.start + inserted.length,
+  };
+};
+
+// "@First Last" not followed by more of a word
+const mentionPattern = (user: Pick<User, 'firstName' | 'lastName'>) =>
+  new RegExp(`(^|\\s)@${escapeRegExp(getMentionName(user))}(?![\\w])`, 'i');
+
+export const findMentionedUserIds = (text: string, users: User[]): string[] =>
+  users.filter(user => mentionPattern(user).test(text)).map(user => user.id);
+
+/** Split text into plain runs and mentions of the given users, for highlighting */
+export const splitMentions = (text: string, users: User[], mentionedIds: string[] = []): MentionSegment[] => {
+  const mentioned = users
+    .filter(user => mentionedIds.includes(user.id))
+    // Longest names first so "@Sam Lee" wins over a shorter overlapping name
+    .sort((a, b) => getMentionName(b).length - getMentionName(a).length);
+  if (mentioned.length === 0 || !text) return [{ text }];
+
+  const pattern = new RegExp(`@(${mentioned.map(user => escapeRegExp(getMentionName(user))).join('|')})(?![\\w])`, 'gi');
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const name = match[1].toLowerCase();
+    const user = mentioned.find(candidate => getMentionName(candidate).toLowerCase() === name);
+    if (match.index > lastIndex) segments.push({ text: text.slice(lastIndex, match.index) });
+    segments.push({ text: match[0], userId: user?.id });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex) });
+
+  return segments;
+};
@@ -0,0 +1,207 @@
+/**
+ * Notification Rules
+ * Which reminders and alerts a user is due, and when. Shared by the Alerts
+ * page, the in-browser push stand-in (useLocalPushDelivery), the push
+ * sender (api/send-notifications.ts) and the email rules (emailRules.ts),
+ * so they all agree. Every notification carries a stable tag; senders
+ * remember tags so a user gets each one once.
+ */
+
+import { CalendarEvent, EventReminder, JobTask, NotificationPreferences } from '../types';
+import { addDays, formatDateValue, formatWallTime, getTodayKey, zonedTimeToInstant } from './dateTime';
+import { getOccurrenceDates } from './recurrence';
+
+const MINUTE = 60 * 1000;
+
+// Tasks with a due time get a heads-up this long before it
+export const TASK_REMINDER_LEAD_MINUTES = 30;
+
+// Overdue and due-soon alerts go out once a day, at this time in the user's zone
+export const DAILY_ALERT_TIME = '08:00';
+
+export type TaskDueState = 'overdue' | 'due_today' | 'due_tomorrow';
+
+export type NotificationKind = TaskDueState | 'task_reminder' | 'event_reminder';
+
+// What a push carries; the service worker shows it as-is
+export interface PushMessage {
+  tag: string;
+  title: string;
+  body: string;
+  url: string;
+}
+
+export interface ScheduledNotification extends PushMessage {
+  kind: NotificationKind;
+  fireAt: Date;
+}
+
+export type NotificationTask = Pick<JobTask, 'id' | 'title' | 'scheduledDate' | 'dueTime' | 'status' | 'assignedTo'>;
+
+export type NotificationEvent = Pick<
+  CalendarEvent,
+  'id' | 'title' | 'startDate' | 'startTime' | 'isAllDay' | 'location' | 'attendees' | 'createdBy' | 'reminders' | 'isRecurring' | 'recurrencePattern'
+>;
+
+export interface NotificationInput {
+  userId: string;
+  tasks: NotificationTask[];
+  events: NotificationEvent[];
+  preferences?: NotificationPreferences;
+  timeZone: string;
+}
+
+const DAILY_ALERT_TITLES: Record<TaskDueState, string> = {
+  overdue: 'Task overdue',
+  due_today: 'Task due today',
+  due_tomorrow: 'Task due tomorrow',
+};
+
+export const isOpenTask = (task: Pick<JobTask, 'status'>) =>
+  task.status !== 'completed' && task.status !== 'archived' && task.status !== 'draft';
+
+/**
+ * Where a task stands against its date on `today`, or null when it needs
+ * no alert. Tasks marked overdue stay overdue even if rescheduled ahead.
+ */
+export const getTaskDueState = (task: Pick<JobTask, 'scheduledDate' | 'status'>, today: string): TaskDueState | null => {
+  if (!isOpenTask(task)) return null;
+  if (task.scheduledDate < today || task.status === 'overdue') return 'overdue';
+  if (task.scheduledDate === today) return 'due_today';
+  if (task.scheduledDate === addDays(today, 1)) return 'due_tomorrow';
+  return null;
+};
+
+export const getEventStartDates = (event: NotificationEvent, from: string, to: string): string[] => {
+  if (event.isRecurring && event.recurrencePattern) {
+    return getOccurrenceDates(event.recurrencePattern, event.startDate, from, to);
+  }
+  return event.startDate >= from && event.startDate <= to ? [event.startDate] : [];
+};
+
+export interface DueEventReminder {
+  event: NotificationEvent;
+  date: string; // The occurrence the reminder is for
+  minutesBefore: number;
+  fireAt: Date;
+}
+
+/** "Mon, Oct 19 at 9:00 AM", or "Mon, Oct 19, all day" */
+export const describeEventStart = (date: string, startTime?: string): string => {
+  const day = formatDateValue(date, { weekday: 'short', month: 'short', day: 'numeric' });
+  return startTime ? `${day} at ${formatWallTime(startTime)}` : `${day}, all day`;
+};
+
+/**
+ * Reminders of one type on events the user attends or created that fire
+ * in [from, to), for every occurrence of a repeating event.
+ */
+export const getDueEventReminders = (
+  input: Pick<NotificationInput, 'userId' | 'events' | 'timeZone'>,
+  type: EventReminder['type'],
+  from: Date,
+  to: Date
+): DueEventReminder[] => {
+  const { userId, timeZone } = input;
+  const firstDay = getTodayKey(timeZone, from);
+  const due: DueEventReminder[] = [];
+
+  input.events
+    .filter(event => event.attendees.includes(userId) || event.createdBy === userId)
+    .forEach(event => {
+      const reminders = (event.reminders || []).filter(reminder => reminder.type === type);
+      if (reminders.length === 0) return;
+
+      // Starts late enough in the window still have their reminder in it
+      const longestLead = Math.max(...reminders.map(reminder => reminder.time));
+      const searchEnd = getTodayKey(timeZone, new Date(to.getTime() + longestLead * MINUTE));
+      const startTime = event.isAllDay ? undefined : event.startTime;
+
+      getEventStartDates(event, firstDay, searchEnd).forEach(date => {
+        const startsAt = zonedTimeToInstant(date, startTime, timeZone);
+
+        reminders.forEach(reminder => {
+          const fireAt = new Date(startsAt.getTime() - reminder.time * MINUTE);
+          if (fireAt >= from && fireAt < to) {
+            due.push({ event, date, minutesBefore: reminder.time, fireAt });
+          }
+        });
+      });
+    });
+
+  return due;
+};
+
+/**
+ * Notifications for the user that fire in [from, to), oldest first. Nothing
+ * fires when push is off; task reminders and overdue alerts follow their
+ * own toggles. Event reminders are opted into per event, so only push
+ * gates them.
+ */
+export const getScheduledNotifications = (input: NotificationInput, from: Date, to: Date): ScheduledNotification[] => {
+  const { userId, preferences, timeZone } = input;
+  if (preferences && !preferences.pushEnabled) return [];
+
+  const taskReminders = preferences?.taskReminders ?? true;
+  const overdueAlerts = preferences?.overdueAlerts ?? true;
+  const inWindow = (fireAt: Date) => fireAt >= from && fireAt < to;
+  const firstDay = getTodayKey(timeZone, from);
+  const lastDay = getTodayKey(timeZone, to);
+  const notifications: ScheduledNotification[] = [];
+
+  const myTasks = input.tasks.filter(task => task.assignedTo.includes(userId) && isOpenTask(task));
+
+  // Daily alerts: the same rules the Alerts page shows
+  for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+    const fireAt = zonedTimeToInstant(day, DAILY_ALERT_TIME, timeZone);
+    if (!inWindow(fireAt)) continue;
+
+    myTasks.forEach(task => {
+      const state = getTaskDueState(task, day);
+      if (!state || (state === 'overdue' ? !overdueAlerts : !taskReminders)) return;
+
+      notifications.push({
+        kind: state,
+        tag: `${state}:${task.id}:${day}`,
+        title: DAILY_ALERT_TITLES[state],
+        body: state === 'overdue' ? `${task.title} was due ${formatDateValue(task.scheduledDate)}` : task.title,
+        url: '/my-tasks',
+        fireAt,
+      });
+    });
+  }
+
+  // Reminders ahead of a task's due time
+  if (taskReminders) {
+    myTasks.forEach(task => {
+      if (!task.dueTime) return;
+      const dueAt = zonedTimeToInstant(task.scheduledDate, task.dueTime, timeZone);
+      const fireAt = new Date(dueAt.getTime() - TASK_REMINDER_LEAD_MINUTES * MINUTE);
+      if (!inWindow(fireAt)) return;
+
+      notifications.push({
+        kind: 'task_reminder',
+        tag: `task_reminder:${task.id}:${task.scheduledDate}`,
+        title: task.title,
+        body: `Due at ${formatWallTime(task.dueTime)}`,
+        url: '/my-tasks',
+        fireAt,
+      });
+    });
+  }
+
+  // Event reminders, for every occurrence of a repeating event
+  getDueEventReminders(input, 'notification', from, to).forEach(({ event, date, minutesBefore, fireAt }) => {
+    const when = describeEventStart(date, event.isAllDay ? undefined : event.startTime);
+    notifications.push({
+      kind: 'event_reminder',
+      tag: `event_reminder:${event.id}:${date}:${minutesBefore}`,
+      title: event.title,
+      body: event.location ? `${when} · ${event.location}` : when,
+      url: '/calendar',
+      fireAt,
+    });
+  });
+
+  return notifications.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+};
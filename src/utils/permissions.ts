@@ -0,0 +1,87 @@
+/**
+ * Role-based permissions
+ * Admins have every permission. Team members have the permissions of the
+ * custom role assigned to them, if any; without one they can only work on
+ * their own tasks, hours and events. The same rules are enforced by RLS
+ * (migration v21 `has_permission`).
+ */
+
+import { Permission, Role, User } from '../types';
+import { isDepartmentMember } from './departments';
+
+export const PERMISSIONS: { id: Permission; label: string; description: string }[] = [
+  {
+    id: 'manage_sops',
+    label: 'Edit SOPs',
+    description: 'Create, edit and archive SOPs in their own department',
+  },
+  {
+    id: 'approve_work_hours',
+    label: 'Approve work hours',
+    description: "See everyone's hours and approve or reject them",
+  },
+  {
+    id: 'manage_calendar',
+    label: 'Manage calendar',
+    description: "Reschedule tasks and edit or delete anyone's events",
+  },
+  {
+    id: 'view_activity_log',
+    label: 'View activity log',
+    description: 'See the audit trail of changes across the app',
+  },
+];
+
+// Seeded in Supabase by migration v21; used as-is without Supabase
+export const DEFAULT_ROLES: Role[] = [
+  {
+    id: 'department_lead',
+    name: 'Department Lead',
+    description: "Runs a department's SOPs, hours and schedule",
+    permissions: ['manage_sops', 'approve_work_hours', 'manage_calendar'],
+  },
+  {
+    id: 'scheduler',
+    name: 'Scheduler',
+    description: 'Plans the calendar for everyone',
+    permissions: ['manage_calendar'],
+  },
+  {
+    id: 'payroll',
+    name: 'Payroll',
+    description: 'Reviews and approves work hours',
+    permissions: ['approve_work_hours', 'view_activity_log'],
+  },
+  {
+    id: 'viewer',
+    name: 'Viewer',
+    description: 'Read-only access to SOPs and their own tasks',
+    permissions: [],
+  },
+];
+
+export const getUserRole = (user: Pick<User, 'roleId'> | null | undefined, roles: Role[]): Role | undefined =>
+  user?.roleId ? roles.find(role => role.id === user.roleId) : undefined;
+
+/**
+ * Whether the user may do something. Pass the department of what is being
+ * changed for department-scoped permissions: only admins act outside the
+ * departments they belong to.
+ */
+export const userHasPermission = (
+  user: User | null | undefined,
+  roles: Role[],
+  permission: Permission,
+  department?: string
+): boolean => {
+  if (!user || user.isActive === false) return false;
+  if (user.role === 'admin') return true;
+  if (!getUserRole(user, roles)?.permissions.includes(permission)) return false;
+  return department === undefined || isDepartmentMember(user, department);
+};
+
+/** "Admin", the custom role's name, or "Team Member" (for users and invites) */
+export const getRoleName = (user: Pick<User, 'role' | 'roleId'>, roles: Role[]): string => {
+  if (user.role === 'admin') return 'Admin';
+  return getUserRole(user, roles)?.name || 'Team Member';
+};
@@ -0,0 +1,21 @@
+import { isPushServiceEndpoint } from './pushEndpoints';
+
+describe('isPushServiceEndpoint', () => {
+  it('accepts the browsers\' push services', () => {
+    expect(isPushServiceEndpoint('https://fcm.googleapis.com/fcm/send/abc123')).toBe(true);
+    expect(isPushServiceEndpoint('https://updates.push.services.mozilla.com/wpush/v2/abc123')).toBe(true);
+    expect(isPushServiceEndpoint('https://wns2-by3p.notify.windows.com/w/?token=abc123')).toBe(true);
+    expect(isPushServiceEndpoint('https://web.push.apple.com/abc123')).toBe(true);
+  });
+
+  it('rejects other hosts, schemes and ports', () => {
+    expect(isPushServiceEndpoint('http://fcm.googleapis.com/fcm/send/abc123')).toBe(false);
+    expect(isPushServiceEndpoint('https://169.254.169.254/latest/meta-data')).toBe(false);
+    expect(isPushServiceEndpoint('https://fcm.googleapis.com.example.com/abc123')).toBe(false);
+    expect(isPushServiceEndpoint('https://evilpush.apple.com.attacker.net/')).toBe(false);
+    expect(isPushServiceEndpoint('https://fcm.googleapis.com:8443/fcm/send/abc123')).toBe(false);
+    expect(isPushServiceEndpoint('https://fcm.googleapis.com@internal.local/')).toBe(false);
+    expect(isPushServiceEndpoint('local:abc123')).toBe(false);
+    expect(isPushServiceEndpoint('not a url')).toBe(false);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Push service endpoints
+ * The sender POSTs to whatever endpoint a subscription was saved with, so
+ * only the browsers' own push services are accepted: anything else would let
+ * a user point the server at an internal address. Migration v17 checks the
+ * same hosts when a subscription is saved.
+ */
+
+// Chrome and Edge (FCM), Firefox, Edge on Windows (WNS) and Safari
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'push.services.mozilla.com', 'notify.windows.com', 'push.apple.com'];
+
+/** Whether the endpoint is an https: URL on a known push service (or one of its subdomains) */
+export const isPushServiceEndpoint = (endpoint: string): boolean => {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port || url.username || url.password) return false;
+
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.some(service => host === service || host.endsWith(`.${service}`));
+};
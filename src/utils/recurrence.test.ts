@@ -0,0 +1,98 @@
+import { JobTask } from '../types';
+import { getSeriesSuccessor, planRecurringOccurrences, splitFutureOccurrences } from './recurrence';
+
+const TODAY = '2026-06-01';
+
+const makeTask = (overrides: Partial<JobTask>): JobTask => ({
+  id: 'root',
+  title: 'Open the store',
+  description: '',
+  assignedTo: ['user-1'],
+  assignedBy: 'admin-1',
+  department: 'Operations',
+  category: 'Opening',
+  scheduledDate: TODAY,
+  estimatedDuration: 30,
+  status: 'pending',
+  priority: 'medium',
+  steps: [],
+  completedSteps: [],
+  progressPercentage: 0,
+  sopIds: [],
+  comments: [],
+  createdAt: '2026-05-30T09:00:00.000Z',
+  ...overrides,
+});
+
+const root = makeTask({ isRecurring: true, recurrencePattern: { frequency: 'daily' } });
+
+const occurrence = (date: string, overrides: Partial<JobTask> = {}) =>
+  makeTask({
+    id: `occ-${date}`,
+    scheduledDate: date,
+    isRecurring: true,
+    recurrencePattern: root.recurrencePattern,
+    seriesId: root.id,
+    occurrenceDate: date,
+    ...overrides,
+  });
+
+// Apply id -> changes the way TaskContext's updates would
+const applyChanges = (tasks: JobTask[], changes: Record<string, Partial<JobTask>>) =>
+  tasks.map(task => (changes[task.id] ? { ...task, ...changes[task.id] } : task));
+
+const plannedKeys = (tasks: JobTask[]) =>
+  planRecurringOccurrences(tasks, TODAY, 3).map(task => `${task.seriesId}|${task.occurrenceDate}`);
+
+describe('planRecurringOccurrences', () => {
+  it('fills the window after the root, skipping dates that already have a task', () => {
+    expect(plannedKeys([root, occurrence('2026-06-02')])).toEqual(['root|2026-06-03', 'root|2026-06-04']);
+  });
+});
+
+describe('deleting a series root', () => {
+  const series = [root, occurrence('2026-06-03', { status: 'in-progress' }), occurrence('2026-06-02')];
+
+  it('hands the series to the earliest occurrence left', () => {
+    expect(getSeriesSuccessor(series, root)).toEqual({
+      id: 'occ-2026-06-02',
+      changes: { seriesId: undefined, occurrenceDate: undefined, isRecurring: true, recurrencePattern: root.recurrencePattern },
+    });
+    expect(getSeriesSuccessor([root], root)).toBeUndefined();
+  });
+
+  it('keeps one series going without duplicating its occurrences', () => {
+    const successor = getSeriesSuccessor(series, root)!;
+    const remaining = applyChanges(series, {
+      [successor.id]: successor.changes,
+      'occ-2026-06-03': { seriesId: successor.id },
+    }).filter(task => task.id !== root.id);
+
+    expect(plannedKeys(remaining)).toEqual(['occ-2026-06-02|2026-06-04']);
+  });
+});
+
+describe('editing this and future occurrences', () => {
+  const started = occurrence('2026-06-04', { scheduledDate: '2026-06-05', status: 'in-progress' });
+  const series = [root, occurrence('2026-06-02'), occurrence('2026-06-03'), started];
+
+  it('drops untouched later occurrences and keeps the rest', () => {
+    expect(splitFutureOccurrences(series, series[1])).toEqual({ staleIds: ['occ-2026-06-03'], keptIds: [started.id] });
+    expect(splitFutureOccurrences(series, root)).toEqual({
+      staleIds: ['occ-2026-06-02', 'occ-2026-06-03'],
+      keptIds: [started.id],
+    });
+  });
+
+  it('moves kept occurrences to the new series so neither series generates their dates', () => {
+    const newRootId = 'occ-2026-06-02';
+    const { staleIds, keptIds } = splitFutureOccurrences(series, series[1]);
+    const updated = applyChanges(series, {
+      [root.id]: { recurrencePattern: { frequency: 'daily', endDate: '2026-06-01' } },
+      [newRootId]: { seriesId: undefined, occurrenceDate: undefined, recurrencePattern: { frequency: 'daily', interval: 1 } },
+      ...Object.fromEntries(keptIds.map(id => [id, { seriesId: newRootId }])),
+    }).filter(task => !staleIds.includes(task.id));
+
+    expect(plannedKeys(updated)).toEqual([`${newRootId}|2026-06-03`]);
+  });
+});
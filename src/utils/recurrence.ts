@@ -0,0 +1,354 @@
+/**
+ * Recurrence Engine
+ * Expands recurring job tasks into concrete JobTask occurrences for a rolling
+ * window. A series is anchored on its root task (the recurring task an admin
+ * created, either directly or from a recurring Task Library template); every
+ * generated occurrence carries the root's id as `seriesId` plus its own
+ * `occurrenceDate`, which is what keeps generation idempotent.
+ */
+
+import { JobTask, RecurrencePattern } from '../types';
+import { addDays, daysBetween, getTodayKey, parseDateKey } from './dateTime';
+
+// How far ahead occurrences are materialised
+export const RECURRENCE_WINDOW_DAYS = 14;
+
+export type RecurrenceEditScope = 'this' | 'future';
+
+export type NewJobTask = Omit<JobTask, 'id' | 'createdAt' | 'progressPercentage'>;
+
+const daysInMonth = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+
+// Weeks start on Monday, matching the iCalendar default (WKST=MO)
+const startOfWeek = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+
+const monthsBetween = (from: Date, to: Date) =>
+  (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth();
+
+// Day-within-month rule shared by monthly and yearly series
+const matchesDayOfMonth = (pattern: RecurrencePattern, anchor: Date, date: Date): boolean => {
+  if (pattern.weekOfMonth && pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
+    if (!pattern.daysOfWeek.includes(date.getDay())) return false;
+    return pattern.weekOfMonth === -1
+      ? date.getDate() + 7 > daysInMonth(date)
+      : Math.ceil(date.getDate() / 7) === pattern.weekOfMonth;
+  }
+  const dayOfMonth = pattern.dayOfMonth || anchor.getDate();
+  return date.getDate() === Math.min(dayOfMonth, daysInMonth(date));
+};
+
+/**
+ * Whether `date` (on or after the anchor) falls on the pattern's rule,
+ * ignoring end conditions and skip dates. Weekly series with no days
+ * selected repeat on the anchor's weekday; monthly and yearly series
+ * without a day repeat on the anchor's day, clamped to the end of shorter
+ * months.
+ */
+const matchesRule = (pattern: RecurrencePattern, anchor: Date, date: Date): boolean => {
+  const interval = Math.max(1, pattern.interval || 1);
+
+  switch (pattern.frequency) {
+    case 'daily':
+      return daysBetween(anchor, date) % interval === 0;
+    case 'weekly': {
+      const weeks = daysBetween(startOfWeek(anchor), startOfWeek(date)) / 7;
+      const days = pattern.daysOfWeek && pattern.daysOfWeek.length > 0
+        ? pattern.daysOfWeek
+        : [anchor.getDay()];
+      return weeks % interval === 0 && days.includes(date.getDay());
+    }
+    case 'monthly':
+      return monthsBetween(anchor, date) % interval === 0 && matchesDayOfMonth(pattern, anchor, date);
+    case 'yearly': {
+      const month = pattern.monthOfYear ? pattern.monthOfYear - 1 : anchor.getMonth();
+      return (date.getFullYear() - anchor.getFullYear()) % interval === 0 &&
+        date.getMonth() === month &&
+        matchesDayOfMonth(pattern, anchor, date);
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * All occurrence dates of a series between `from` and `to` (inclusive).
+ * The anchor date is always the first occurrence, as DTSTART is in
+ * iCalendar. Skipped dates still use up a `count`, also as in iCalendar.
+ */
+export const getOccurrenceDates = (
+  pattern: RecurrencePattern,
+  anchorDate: string,
+  from: string,
+  to: string
+): string[] => {
+  const dates: string[] = [];
+  const anchor = parseDateKey(anchorDate);
+  const last = pattern.endDate && pattern.endDate < to ? pattern.endDate : to;
+  // Count-limited series are walked from the anchor so earlier occurrences use up the count
+  const start = pattern.count || from < anchorDate ? anchorDate : from;
+  let occurrences = 0;
+
+  for (let dateKey = start; dateKey <= last; dateKey = addDays(dateKey, 1)) {
+    if (dateKey !== anchorDate && !matchesRule(pattern, anchor, parseDateKey(dateKey))) continue;
+
+    occurrences += 1;
+    if (pattern.count && occurrences > pattern.count) break;
+    if (dateKey >= from && !pattern.skipDates?.includes(dateKey)) {
+      dates.push(dateKey);
+    }
+  }
+  return dates;
+};
+
+// Date of the last occurrence of a count-limited series, if it has one
+export const getLastOccurrenceDate = (pattern: RecurrencePattern, anchorDate: string): string | undefined => {
+  if (!pattern.count) return pattern.endDate;
+  const anchor = parseDateKey(anchorDate);
+  let occurrences = 0;
+  // Upper bound: a yearly series of `count` occurrences spans at most this many years
+  const horizon = addDays(anchorDate, 366 * Math.max(1, pattern.interval || 1) * pattern.count + 366);
+
+  for (let dateKey = anchorDate; dateKey <= horizon; dateKey = addDays(dateKey, 1)) {
+    if (pattern.endDate && dateKey > pattern.endDate) return pattern.endDate;
+    if (dateKey !== anchorDate && !matchesRule(pattern, anchor, parseDateKey(dateKey))) continue;
+    occurrences += 1;
+    if (occurrences === pattern.count) return dateKey;
+  }
+  return pattern.endDate;
+};
+
+// Drop fields that do not apply to the chosen frequency (left over from switching options in a form)
+export const cleanRecurrencePattern = (pattern: RecurrencePattern): RecurrencePattern => {
+  const usesMonthDay = pattern.frequency === 'monthly' || pattern.frequency === 'yearly';
+  const byWeekday = usesMonthDay && !!pattern.weekOfMonth;
+
+  return {
+    frequency: pattern.frequency,
+    ...(pattern.interval && pattern.interval > 1 && { interval: pattern.interval }),
+    ...((pattern.frequency === 'weekly' || byWeekday) && pattern.daysOfWeek && { daysOfWeek: pattern.daysOfWeek }),
+    ...(byWeekday && { weekOfMonth: pattern.weekOfMonth }),
+    ...(usesMonthDay && !byWeekday && pattern.dayOfMonth && { dayOfMonth: pattern.dayOfMonth }),
+    ...(pattern.frequency === 'yearly' && pattern.monthOfYear && { monthOfYear: pattern.monthOfYear }),
+    ...(pattern.endDate && { endDate: pattern.endDate }),
+    ...(pattern.count && { count: pattern.count }),
+    ...(pattern.skipDates && pattern.skipDates.length > 0 && { skipDates: pattern.skipDates }),
+  };
+};
+
+// Problems with a pattern as entered in a form, or null if it is usable
+export const validateRecurrencePattern = (pattern: RecurrencePattern, startDate: string): string | null => {
+  if (pattern.interval !== undefined && (!Number.isInteger(pattern.interval) || pattern.interval < 1)) {
+    return 'Repeat interval must be a whole number of at least 1';
+  }
+  if (pattern.frequency === 'weekly' && (!pattern.daysOfWeek || pattern.daysOfWeek.length === 0)) {
+    return 'Please select at least one day for recurring items';
+  }
+  if (pattern.weekOfMonth && (!pattern.daysOfWeek || pattern.daysOfWeek.length === 0)) {
+    return 'Please choose a weekday for the monthly pattern';
+  }
+  if (pattern.dayOfMonth !== undefined && (pattern.dayOfMonth < 1 || pattern.dayOfMonth > 31)) {
+    return 'Day of month must be between 1 and 31';
+  }
+  if (pattern.count !== undefined && (!Number.isInteger(pattern.count) || pattern.count < 1)) {
+    return 'Number of occurrences must be at least 1';
+  }
+  if (pattern.endDate && startDate && pattern.endDate < startDate) {
+    return 'The recurrence end date must be on or after the start date';
+  }
+  return null;
+};
+
+/**
+ * Move a pattern's rule along with its anchor, for when a series is dragged
+ * from one date to another: weekdays shift by the same number of days, and a
+ * fixed day or month follows the new date. End conditions and skip dates are
+ * left alone.
+ */
+export const shiftRecurrencePattern = (
+  pattern: RecurrencePattern,
+  fromDate: string,
+  toDate: string
+): RecurrencePattern => {
+  const from = parseDateKey(fromDate);
+  const to = parseDateKey(toDate);
+  const weekdayShift = (((to.getDay() - from.getDay()) % 7) + 7) % 7;
+
+  const shifted: RecurrencePattern = { ...pattern };
+  if (pattern.daysOfWeek) {
+    shifted.daysOfWeek = pattern.daysOfWeek.map(day => (day + weekdayShift) % 7).sort((a, b) => a - b);
+  }
+  if (pattern.weekOfMonth) {
+    const isLastWeek = to.getDate() + 7 > daysInMonth(to);
+    const week = Math.ceil(to.getDate() / 7);
+    shifted.weekOfMonth = pattern.weekOfMonth === -1 && isLastWeek ? -1 : week > 4 ? -1 : week;
+  }
+  if (pattern.dayOfMonth) shifted.dayOfMonth = to.getDate();
+  if (pattern.monthOfYear) shifted.monthOfYear = to.getMonth() + 1;
+  return shifted;
+};
+
+// A series root is a recurring task that was not itself generated
+export const isSeriesRoot = (task: JobTask): boolean =>
+  !!task.isRecurring && !!task.recurrencePattern && !task.seriesId && task.status !== 'archived';
+
+export const isPartOfSeries = (task: JobTask): boolean =>
+  isSeriesRoot(task) || !!task.seriesId;
+
+export const getSeriesRootId = (task: JobTask): string => task.seriesId || task.id;
+
+// The date an occurrence belongs to in its series, even if it was moved
+export const getOccurrenceDate = (task: JobTask): string =>
+  task.occurrenceDate || task.scheduledDate;
+
+// Generated occurrences nobody has started yet, safe to replace on series edits
+export const isUntouchedOccurrence = (task: JobTask): boolean =>
+  !!task.seriesId && task.status === 'pending' && task.completedSteps.length === 0;
+
+const byOccurrenceDate = (a: JobTask, b: JobTask) => getOccurrenceDate(a).localeCompare(getOccurrenceDate(b));
+
+/**
+ * The occurrence that takes a series over when its root is deleted or
+ * leaves the series: the earliest one left, turned into a root with the
+ * series' pattern. Without a successor the other occurrences would look like
+ * roots themselves and each start a series of its own.
+ */
+export const getSeriesSuccessor = (
+  tasks: JobTask[],
+  root: JobTask
+): { id: string; changes: Partial<JobTask> } | undefined => {
+  const successor = tasks.filter(t => t.seriesId === root.id).sort(byOccurrenceDate)[0];
+  if (!successor || !root.recurrencePattern) return undefined;
+
+  return {
+    id: successor.id,
+    changes: { seriesId: undefined, occurrenceDate: undefined, isRecurring: true, recurrencePattern: root.recurrencePattern },
+  };
+};
+
+/**
+ * What a 'future' edit from `task` does to the occurrences after it:
+ * untouched ones are dropped to be regenerated, the rest move along with
+ * the edit (to the new root when `task` starts a new series).
+ */
+export const splitFutureOccurrences = (
+  tasks: JobTask[],
+  task: JobTask
+): { staleIds: string[]; keptIds: string[] } => {
+  const rootId = getSeriesRootId(task);
+  const fromDate = getOccurrenceDate(task);
+  const future = tasks.filter(t => t.seriesId === rootId && t.id !== task.id && getOccurrenceDate(t) >= fromDate);
+
+  return {
+    staleIds: future.filter(isUntouchedOccurrence).map(t => t.id),
+    keptIds: future.filter(t => !isUntouchedOccurrence(t)).map(t => t.id),
+  };
+};
+
+const occurrenceKey = (seriesId: string, dateKey: string) => `${seriesId}|${dateKey}`;
+
+const buildOccurrence = (root: JobTask, dateKey: string): NewJobTask => ({
+  templateId: root.templateId,
+  title: root.title,
+  description: root.description,
+  assignedTo: root.assignedTo,
+  assignedBy: root.assignedBy,
+  department: root.department,
+  category: root.category,
+  scheduledDate: dateKey,
+  dueTime: root.dueTime,
+  estimatedDuration: root.estimatedDuration,
+  isRecurring: true,
+  recurrencePattern: root.recurrencePattern,
+  seriesId: root.id,
+  occurrenceDate: dateKey,
+  status: 'pending',
+  priority: root.priority,
+  steps: root.steps.map(step => ({ ...step, isCompleted: false, completedAt: undefined, photoUrl: undefined, photo: undefined })),
+  completedSteps: [],
+  sopIds: root.sopIds,
+  comments: [],
+});
+
+/**
+ * Work out which occurrences are missing from the rolling window
+ * [today, today + windowDays]. Past dates are never backfilled, and any
+ * (series, date) pair that already has a task — including occurrences that
+ * were moved or edited individually — is left alone.
+ */
+export const planRecurringOccurrences = (
+  tasks: JobTask[],
+  today: string = getTodayKey(),
+  windowDays: number = RECURRENCE_WINDOW_DAYS
+): NewJobTask[] => {
+  const existing = new Set<string>();
+  tasks.forEach(task => {
+    if (task.seriesId) existing.add(occurrenceKey(task.seriesId, getOccurrenceDate(task)));
+  });
+
+  const windowEnd = addDays(today, windowDays);
+  const planned: NewJobTask[] = [];
+
+  tasks.filter(isSeriesRoot).forEach(root => {
+    const anchorDate = root.scheduledDate;
+    const from = anchorDate > today ? addDays(anchorDate, 1) : today;
+
+    getOccurrenceDates(root.recurrencePattern!, anchorDate, from, windowEnd)
+      .filter(dateKey => dateKey !== anchorDate && !existing.has(occurrenceKey(root.id, dateKey)))
+      .forEach(dateKey => planned.push(buildOccurrence(root, dateKey)));
+  });
+
+  return planned;
+};
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+
+const formatWeekdays = (days: number[]) =>
+  [...days].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map(day => DAY_NAMES[day]).join(', ');
+
+// Human-readable summary, e.g. "Every 2 weeks on Mon, Wed until 2025-06-30"
+export const describeRecurrence = (pattern: RecurrencePattern, anchorDate?: string): string => {
+  const interval = Math.max(1, pattern.interval || 1);
+  const anchor = anchorDate ? parseDateKey(anchorDate) : undefined;
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }[pattern.frequency];
+  const label = { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly', yearly: 'Yearly' }[pattern.frequency];
+  let summary = interval > 1 ? `Every ${interval} ${unit}s` : label || 'Recurring';
+
+  const dayRule = (): string | undefined => {
+    if (pattern.weekOfMonth && pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
+      return `the ${ORDINALS[pattern.weekOfMonth]} ${formatWeekdays(pattern.daysOfWeek)}`;
+    }
+    const day = pattern.dayOfMonth || anchor?.getDate();
+    return day ? `day ${day}` : undefined;
+  };
+
+  switch (pattern.frequency) {
+    case 'weekly': {
+      const days = pattern.daysOfWeek && pattern.daysOfWeek.length > 0
+        ? pattern.daysOfWeek
+        : anchor ? [anchor.getDay()] : [];
+      if (days.length > 0) summary += ` on ${formatWeekdays(days)}`;
+      break;
+    }
+    case 'monthly': {
+      const rule = dayRule();
+      if (rule) summary += ` on ${rule}`;
+      break;
+    }
+    case 'yearly': {
+      const month = pattern.monthOfYear ? pattern.monthOfYear - 1 : anchor?.getMonth();
+      const rule = dayRule();
+      if (month !== undefined && rule) summary += ` on ${rule} of ${MONTH_NAMES[month]}`;
+      break;
+    }
+  }
+
+  if (pattern.count) summary += `, ${pattern.count} time${pattern.count === 1 ? '' : 's'}`;
+  if (pattern.endDate) summary += ` until ${pattern.endDate}`;
+  const skipCount = pattern.skipDates?.length || 0;
+  if (skipCount > 0) summary += ` (${skipCount} skipped date${skipCount === 1 ? '' : 's'})`;
+  return summary;
+};
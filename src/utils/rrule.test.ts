@@ -0,0 +1,186 @@
+import { RecurrencePattern } from '../types';
+import { setDefaultTimeZone } from './dateTime';
+import { buildRecurrenceLines, fromRRule, parseRecurrenceLines, toRRule } from './rrule';
+
+const NEW_YORK = 'America/New_York';
+
+// 2026-06-01 is a Monday
+const ANCHOR = '2026-06-01';
+
+beforeEach(() => setDefaultTimeZone(NEW_YORK));
+afterEach(() => setDefaultTimeZone(null));
+
+describe('toRRule / fromRRule', () => {
+  const roundTrips: Array<[string, RecurrencePattern]> = [
+    ['every day', { frequency: 'daily' }],
+    ['every third day', { frequency: 'daily', interval: 3 }],
+    ['weekdays', { frequency: 'weekly', daysOfWeek: [1, 2, 3, 4, 5] }],
+    ['every other Monday and Wednesday', { frequency: 'weekly', interval: 2, daysOfWeek: [1, 3] }],
+    ['the 15th of each month', { frequency: 'monthly', dayOfMonth: 15 }],
+    ['the 30th, or the last day of shorter months', { frequency: 'monthly', dayOfMonth: 30 }],
+    ['the last day of the month', { frequency: 'monthly', dayOfMonth: 31 }],
+    ['the second Tuesday', { frequency: 'monthly', weekOfMonth: 2, daysOfWeek: [2] }],
+    ['the last Friday', { frequency: 'monthly', weekOfMonth: -1, daysOfWeek: [5] }],
+    ['every March 15th', { frequency: 'yearly', monthOfYear: 3, dayOfMonth: 15 }],
+    ['the first Monday of September', { frequency: 'yearly', monthOfYear: 9, weekOfMonth: 1, daysOfWeek: [1] }],
+    ['five times', { frequency: 'daily', count: 5 }],
+    ['until the end of June', { frequency: 'weekly', daysOfWeek: [1], endDate: '2026-06-30' }],
+  ];
+
+  it.each(roundTrips)('round-trips %s', (_, pattern) => {
+    expect(fromRRule(toRRule(pattern, { anchorDate: ANCHOR }))).toEqual(pattern);
+  });
+
+  it('round-trips timed series, zoned or floating', () => {
+    const pattern: RecurrencePattern = { frequency: 'weekly', daysOfWeek: [1], endDate: '2026-06-30' };
+    expect(fromRRule(toRRule(pattern, { anchorDate: ANCHOR, startTime: '09:00', timeZone: NEW_YORK }))).toEqual(pattern);
+    expect(fromRRule(toRRule(pattern, { anchorDate: ANCHOR, startTime: '09:00' }))).toEqual(pattern);
+  });
+
+  it('writes the rule parts in the usual form', () => {
+    expect(toRRule({ frequency: 'weekly', interval: 2, daysOfWeek: [1, 3] }, { anchorDate: ANCHOR }))
+      .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE');
+    expect(toRRule({ frequency: 'monthly', weekOfMonth: -1, daysOfWeek: [5] }, { anchorDate: ANCHOR }))
+      .toBe('FREQ=MONTHLY;BYDAY=-1FR');
+    expect(toRRule({ frequency: 'monthly', dayOfMonth: 30 }, { anchorDate: ANCHOR }))
+      .toBe('FREQ=MONTHLY;BYMONTHDAY=28,29,30;BYSETPOS=-1');
+    expect(toRRule({ frequency: 'monthly', dayOfMonth: 31 }, { anchorDate: ANCHOR }))
+      .toBe('FREQ=MONTHLY;BYMONTHDAY=-1');
+  });
+
+  it('fills in the rule from the anchor date', () => {
+    expect(toRRule({ frequency: 'weekly' }, { anchorDate: '2026-06-03' })).toBe('FREQ=WEEKLY;BYDAY=WE');
+    expect(toRRule({ frequency: 'monthly' }, { anchorDate: '2026-06-12' })).toBe('FREQ=MONTHLY;BYMONTHDAY=12');
+    expect(toRRule({ frequency: 'yearly' }, { anchorDate: '2026-06-12' })).toBe('FREQ=YEARLY;BYMONTH=6;BYMONTHDAY=12');
+  });
+
+  describe('UNTIL and COUNT', () => {
+    const weekly: RecurrencePattern = { frequency: 'weekly', daysOfWeek: [1], endDate: '2026-06-30' };
+
+    it('writes UNTIL as a date for all-day series', () => {
+      expect(toRRule(weekly, { anchorDate: ANCHOR })).toBe('FREQ=WEEKLY;BYDAY=MO;UNTIL=20260630');
+    });
+
+    it('writes UNTIL as the end of the day in UTC for zoned series', () => {
+      expect(toRRule(weekly, { anchorDate: ANCHOR, startTime: '09:00', timeZone: NEW_YORK }))
+        .toBe('FREQ=WEEKLY;BYDAY=MO;UNTIL=20260701T035959Z');
+    });
+
+    it('writes UNTIL as floating local time without a time zone', () => {
+      expect(toRRule(weekly, { anchorDate: ANCHOR, startTime: '09:00' }))
+        .toBe('FREQ=WEEKLY;BYDAY=MO;UNTIL=20260630T235959');
+    });
+
+    it('writes COUNT on its own', () => {
+      expect(toRRule({ frequency: 'daily', count: 5 }, { anchorDate: ANCHOR })).toBe('FREQ=DAILY;COUNT=5');
+    });
+
+    it('turns COUNT and an end date into UNTIL, whichever ends the series first', () => {
+      expect(toRRule({ frequency: 'daily', count: 5, endDate: '2026-06-30' }, { anchorDate: ANCHOR }))
+        .toBe('FREQ=DAILY;UNTIL=20260605');
+      expect(toRRule({ frequency: 'daily', count: 5, endDate: '2026-06-03' }, { anchorDate: ANCHOR }))
+        .toBe('FREQ=DAILY;UNTIL=20260603');
+    });
+
+    it('reads UTC UNTIL values in the app time zone', () => {
+      // 02:00 UTC on July 1st is still June 30th in New York
+      expect(fromRRule('FREQ=DAILY;UNTIL=20260701T020000Z')?.endDate).toBe('2026-06-30');
+      expect(fromRRule('FREQ=DAILY;UNTIL=20260701T050000Z')?.endDate).toBe('2026-07-01');
+    });
+
+    it('rejects rules with both COUNT and UNTIL', () => {
+      expect(fromRRule('FREQ=DAILY;COUNT=3;UNTIL=20260630')).toBeNull();
+    });
+
+    it('rejects invalid counts and dates', () => {
+      expect(fromRRule('FREQ=DAILY;COUNT=0')).toBeNull();
+      expect(fromRRule('FREQ=DAILY;UNTIL=June')).toBeNull();
+    });
+  });
+
+  describe('BYDAY', () => {
+    it('reads an ordinal weekday as the week of the month', () => {
+      expect(fromRRule('FREQ=MONTHLY;BYDAY=2TU')).toEqual({ frequency: 'monthly', weekOfMonth: 2, daysOfWeek: [2] });
+      expect(fromRRule('FREQ=MONTHLY;BYDAY=+3TH')).toEqual({ frequency: 'monthly', weekOfMonth: 3, daysOfWeek: [4] });
+      expect(fromRRule('FREQ=MONTHLY;BYDAY=-1FR')).toEqual({ frequency: 'monthly', weekOfMonth: -1, daysOfWeek: [5] });
+    });
+
+    it('reads BYSETPOS with a single weekday the same way', () => {
+      expect(fromRRule('FREQ=MONTHLY;BYDAY=TU;BYSETPOS=3')).toEqual({ frequency: 'monthly', weekOfMonth: 3, daysOfWeek: [2] });
+    });
+
+    it('rejects ordinals it cannot represent', () => {
+      expect(fromRRule('FREQ=MONTHLY;BYDAY=5MO')).toBeNull(); // Fifth Monday
+      expect(fromRRule('FREQ=MONTHLY;BYDAY=MO')).toBeNull(); // Every Monday of the month
+      expect(fromRRule('FREQ=MONTHLY;BYDAY=1MO,2TU')).toBeNull(); // Mixed ordinals
+      expect(fromRRule('FREQ=WEEKLY;BYDAY=1MO')).toBeNull();
+      expect(fromRRule('FREQ=MONTHLY;BYDAY=2XX')).toBeNull();
+    });
+
+    it('reads a daily rule filtered by weekday as a weekly one', () => {
+      expect(fromRRule('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR')).toEqual({ frequency: 'weekly', daysOfWeek: [1, 2, 3, 4, 5] });
+    });
+  });
+
+  it('accepts the RRULE: prefix and any letter case', () => {
+    expect(fromRRule('rrule:freq=weekly;byday=fr,mo')).toEqual({ frequency: 'weekly', daysOfWeek: [1, 5] });
+  });
+
+  it('rejects rules the app cannot represent', () => {
+    expect(fromRRule('FREQ=HOURLY')).toBeNull();
+    expect(fromRRule('FREQ=DAILY;BYHOUR=9')).toBeNull();
+    expect(fromRRule('FREQ=MONTHLY;BYMONTH=3')).toBeNull();
+    expect(fromRRule('FREQ=WEEKLY;INTERVAL=2;WKST=SU;BYDAY=MO')).toBeNull();
+    expect(fromRRule('FREQ=DAILY;INTERVAL=0')).toBeNull();
+  });
+});
+
+describe('buildRecurrenceLines / parseRecurrenceLines', () => {
+  const pattern: RecurrencePattern = {
+    frequency: 'weekly',
+    daysOfWeek: [1],
+    skipDates: ['2026-06-15', '2026-06-08'],
+  };
+
+  it('writes skip dates after the anchor as EXDATE, sorted', () => {
+    expect(buildRecurrenceLines({ ...pattern, skipDates: [...pattern.skipDates!, '2026-05-25'] }, { anchorDate: ANCHOR }))
+      .toEqual(['RRULE:FREQ=WEEKLY;BYDAY=MO', 'EXDATE;VALUE=DATE:20260608,20260615']);
+  });
+
+  it('gives EXDATE the time of day of timed series', () => {
+    expect(buildRecurrenceLines(pattern, { anchorDate: ANCHOR, startTime: '09:30', timeZone: NEW_YORK })[1])
+      .toBe('EXDATE;TZID=America/New_York:20260608T093000,20260615T093000');
+    expect(buildRecurrenceLines(pattern, { anchorDate: ANCHOR, startTime: '09:30' })[1])
+      .toBe('EXDATE:20260608T093000,20260615T093000');
+  });
+
+  it('leaves EXDATE out without skip dates', () => {
+    expect(buildRecurrenceLines({ frequency: 'daily' }, { anchorDate: ANCHOR })).toEqual(['RRULE:FREQ=DAILY']);
+  });
+
+  it('round-trips skip dates, all-day or timed', () => {
+    const expected = { ...pattern, skipDates: ['2026-06-08', '2026-06-15'] };
+    expect(parseRecurrenceLines(buildRecurrenceLines(pattern, { anchorDate: ANCHOR }))).toEqual(expected);
+    expect(parseRecurrenceLines(buildRecurrenceLines(pattern, { anchorDate: ANCHOR, startTime: '09:30', timeZone: NEW_YORK })))
+      .toEqual(expected);
+  });
+
+  it('merges EXDATE lines and reads UTC values in the app time zone', () => {
+    expect(parseRecurrenceLines([
+      'RRULE:FREQ=DAILY',
+      'EXDATE:20260610T133000Z',
+      'EXDATE;VALUE=DATE:20260608,20260610',
+    ])).toEqual({ frequency: 'daily', skipDates: ['2026-06-08', '2026-06-10'] });
+  });
+
+  it('returns null without exactly one usable rule', () => {
+    expect(parseRecurrenceLines([])).toBeNull();
+    expect(parseRecurrenceLines(['EXDATE;VALUE=DATE:20260608'])).toBeNull();
+    expect(parseRecurrenceLines(['RRULE:FREQ=DAILY', 'RRULE:FREQ=WEEKLY;BYDAY=MO'])).toBeNull();
+    expect(parseRecurrenceLines(['RRULE:FREQ=SECONDLY'])).toBeNull();
+  });
+
+  it('returns null for an EXDATE it cannot read', () => {
+    expect(parseRecurrenceLines(['RRULE:FREQ=DAILY', 'EXDATE:tomorrow'])).toBeNull();
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * iCalendar RRULE Conversion
+ * Converts RecurrencePattern to and from RFC 5545 RRULE / EXDATE lines so
+ * .ics exports and Google Calendar keep a series exactly as it was set up in
+ * the app (intervals, nth-weekday rules, counts and skipped dates) instead of
+ * flattening it to individual events.
+ */
+
+import { RecurrenceFrequency, RecurrencePattern } from '../types';
+import { getLastOccurrenceDate } from './recurrence';
+import { parseDateKey, toZonedDateTime, zonedTimeToInstant } from './dateTime';
+
+interface RecurrenceLineOptions {
+  anchorDate: string; // YYYY-MM-DD of the first occurrence (DTSTART)
+  startTime?: string; // HH:MM, omitted for all-day series
+  timeZone?: string; // IANA zone DTSTART is expressed in; floating local time if omitted
+}
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+};
+
+// Rule parts we can represent; anything else (BYHOUR, BYWEEKNO, ...) is rejected
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS', 'COUNT', 'UNTIL', 'WKST'];
+
+const compactDate = (dateKey: string) => dateKey.replace(/-/g, '');
+
+const compactTime = (time: string) => `${time.replace(':', '').slice(0, 4)}00`;
+
+// YYYYMMDD[THHMMSS[Z]] -> YYYY-MM-DD, converting UTC values to the app's time zone
+const icsValueToDateKey = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (!utc) return `${year}-${month}-${day}`;
+
+  return toZonedDateTime(new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second))).date;
+};
+
+/**
+ * UNTIL has to match the type of DTSTART: a plain date for all-day series,
+ * UTC for zoned start times, and floating local time otherwise. The end date
+ * is inclusive, so the value is the end of that day.
+ */
+const formatUntil = (endDate: string, options: RecurrenceLineOptions): string => {
+  if (!options.startTime) return compactDate(endDate);
+  if (!options.timeZone) return `${compactDate(endDate)}T235959`;
+
+  const endOfDay = new Date(zonedTimeToInstant(endDate, '23:59', options.timeZone).getTime() + 59 * 1000);
+  return endOfDay.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+};
+
+// BYMONTHDAY for a clamped day: "day 30" means the 30th, or the last day of shorter months
+const monthDayParts = (day: number): string[] => {
+  if (day <= 28) return [`BYMONTHDAY=${day}`];
+  if (day >= 31) return ['BYMONTHDAY=-1'];
+  const candidates = Array.from({ length: day - 27 }, (_, i) => 28 + i);
+  return [`BYMONTHDAY=${candidates.join(',')}`, 'BYSETPOS=-1'];
+};
+
+/**
+ * Serialise a pattern as an RRULE value (without the "RRULE:" prefix).
+ * Skip dates are not part of the rule; see buildRecurrenceLines.
+ */
+export const toRRule = (pattern: RecurrencePattern, options: RecurrenceLineOptions): string => {
+  const anchor = parseDateKey(options.anchorDate);
+  const parts = [`FREQ=${pattern.frequency.toUpperCase()}`];
+
+  if (pattern.interval && pattern.interval > 1) {
+    parts.push(`INTERVAL=${pattern.interval}`);
+  }
+
+  const hasWeekdays = !!pattern.daysOfWeek && pattern.daysOfWeek.length > 0;
+  switch (pattern.frequency) {
+    case 'weekly':
+      parts.push(`BYDAY=${(hasWeekdays ? pattern.daysOfWeek! : [anchor.getDay()]).map(day => RRULE_DAYS[day]).join(',')}`);
+      break;
+    case 'monthly':
+    case 'yearly':
+      if (pattern.frequency === 'yearly') {
+        parts.push(`BYMONTH=${pattern.monthOfYear || anchor.getMonth() + 1}`);
+      }
+      if (pattern.weekOfMonth && hasWeekdays) {
+        parts.push(`BYDAY=${pattern.daysOfWeek!.map(day => `${pattern.weekOfMonth}${RRULE_DAYS[day]}`).join(',')}`);
+      } else {
+        parts.push(...monthDayParts(pattern.dayOfMonth || anchor.getDate()));
+      }
+      break;
+  }
+
+  // RRULE allows COUNT or UNTIL, not both; whichever ends the series first wins
+  if (pattern.count && pattern.endDate) {
+    const lastDate = getLastOccurrenceDate(pattern, options.anchorDate);
+    parts.push(`UNTIL=${formatUntil(lastDate && lastDate < pattern.endDate ? lastDate : pattern.endDate, options)}`);
+  } else if (pattern.count) {
+    parts.push(`COUNT=${pattern.count}`);
+  } else if (pattern.endDate) {
+    parts.push(`UNTIL=${formatUntil(pattern.endDate, options)}`);
+  }
+
+  return parts.join(';');
+};
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix). Returns null
+ * for rules the app cannot represent exactly, such as hourly series or
+ * "every Monday of the month", so callers can fall back to single events.
+ */
+export const fromRRule = (rule: string): RecurrencePattern | null => {
+  const parts = new Map<string, string>();
+  rule.replace(/^RRULE:/i, '').trim().split(';').filter(Boolean).forEach(part => {
+    const [key, value = ''] = part.split('=');
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  });
+
+  if (Array.from(parts.keys()).some(key => !SUPPORTED_PARTS.includes(key))) return null;
+
+  let frequency = FREQUENCIES[parts.get('FREQ') || ''];
+  if (!frequency) return null;
+
+  const pattern: RecurrencePattern = { frequency };
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+  if (interval > 1) pattern.interval = interval;
+
+  const setPos = parts.has('BYSETPOS') ? Number(parts.get('BYSETPOS')) : undefined;
+
+  // BYDAY entries are an optional ordinal plus a weekday, e.g. "MO" or "-1FR"
+  const byDay = parts.get('BYDAY')?.split(',').map(entry => {
+    const match = entry.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return match ? { ordinal: match[1] ? Number(match[1]) : undefined, day: RRULE_DAYS.indexOf(match[2]) } : null;
+  });
+  if (byDay?.some(entry => entry === null)) return null;
+  const weekdays = byDay?.map(entry => entry!.day);
+  const ordinals = Array.from(new Set(byDay?.map(entry => entry!.ordinal)));
+
+  if (frequency === 'daily' && weekdays) {
+    // "Every weekday" is commonly written as a filtered daily rule
+    if (interval > 1) return null;
+    frequency = 'weekly';
+    pattern.frequency = frequency;
+  }
+
+  if (frequency === 'weekly') {
+    if (setPos !== undefined || parts.has('BYMONTHDAY') || parts.has('BYMONTH')) return null;
+    if (ordinals.some(ordinal => ordinal !== undefined)) return null;
+    // Week numbering only matters when skipping weeks; ours start on Monday
+    if (interval > 1 && parts.has('WKST') && parts.get('WKST') !== 'MO') return null;
+    if (weekdays) pattern.daysOfWeek = Array.from(new Set(weekdays)).sort();
+  }
+
+  if (frequency === 'monthly' || frequency === 'yearly') {
+    if (frequency === 'yearly') {
+      const month = Number(parts.get('BYMONTH'));
+      if (parts.has('BYMONTH')) {
+        if (!Number.isInteger(month) || month < 1 || month > 12) return null;
+        pattern.monthOfYear = month;
+      }
+    } else if (parts.has('BYMONTH')) {
+      return null;
+    }
+
+    if (weekdays) {
+      if (parts.has('BYMONTHDAY') || ordinals.length !== 1) return null;
+      const weekOfMonth = ordinals[0] ?? (weekdays.length === 1 ? setPos : undefined);
+      if (weekOfMonth === undefined || (ordinals[0] !== undefined && setPos !== undefined)) return null;
+      if (weekOfMonth !== -1 && (weekOfMonth < 1 || weekOfMonth > 4)) return null;
+      pattern.weekOfMonth = weekOfMonth;
+      pattern.daysOfWeek = Array.from(new Set(weekdays)).sort();
+    } else if (parts.has('BYMONTHDAY')) {
+      const days = parts.get('BYMONTHDAY')!.split(',').map(Number);
+      if (days.some(day => !Number.isInteger(day))) return null;
+
+      if (days.length === 1 && setPos === undefined) {
+        // Months without that day are clamped rather than skipped
+        if (days[0] === -1) pattern.dayOfMonth = 31;
+        else if (days[0] >= 1 && days[0] <= 31) pattern.dayOfMonth = days[0];
+        else return null;
+      } else {
+        // "28,29,30;BYSETPOS=-1" is the clamped form toRRule writes for days 29 and 30
+        const max = Math.max(...days);
+        const expected = Array.from({ length: max - 27 }, (_, i) => 28 + i);
+        if (setPos !== -1 || days.join(',') !== expected.join(',')) return null;
+        pattern.dayOfMonth = max;
+      }
+    } else if (setPos !== undefined) {
+      return null;
+    }
+  }
+
+  if (parts.has('COUNT') && parts.has('UNTIL')) return null;
+  if (parts.has('COUNT')) {
+    const count = Number(parts.get('COUNT'));
+    if (!Number.isInteger(count) || count < 1) return null;
+    pattern.count = count;
+  }
+  if (parts.has('UNTIL')) {
+    const endDate = icsValueToDateKey(parts.get('UNTIL')!);
+    if (!endDate) return null;
+    pattern.endDate = endDate;
+  }
+
+  return pattern;
+};
+
+/**
+ * The RRULE and EXDATE lines for a recurring item, ready to go into a VEVENT
+ * or the `recurrence` field of a Google Calendar event.
+ */
+export const buildRecurrenceLines = (pattern: RecurrencePattern, options: RecurrenceLineOptions): string[] => {
+  const lines = [`RRULE:${toRRule(pattern, options)}`];
+  const skipDates = (pattern.skipDates || []).filter(date => date > options.anchorDate).sort();
+
+  if (skipDates.length > 0) {
+    if (!options.startTime) {
+      lines.push(`EXDATE;VALUE=DATE:${skipDates.map(compactDate).join(',')}`);
+    } else {
+      // EXDATE must match DTSTART exactly, time of day included
+      const values = skipDates.map(date => `${compactDate(date)}T${compactTime(options.startTime!)}`).join(',');
+      lines.push(options.timeZone ? `EXDATE;TZID=${options.timeZone}:${values}` : `EXDATE:${values}`);
+    }
+  }
+
+  return lines;
+};
+
+/**
+ * Read a pattern back from RRULE / EXDATE lines (as produced by
+ * buildRecurrenceLines, an .ics file or Google Calendar). Returns null if
+ * there is no rule or it cannot be represented.
+ */
+export const parseRecurrenceLines = (lines: string[]): RecurrencePattern | null => {
+  const ruleLines = lines.filter(line => /^RRULE[:;]/i.test(line));
+  // Multiple RRULEs describe a union of series, which a single pattern cannot hold
+  if (ruleLines.length !== 1) return null;
+
+  const pattern = fromRRule(ruleLines[0].slice(ruleLines[0].indexOf(':') + 1));
+  if (!pattern) return null;
+
+  const skipDates = new Set<string>();
+  for (const line of lines.filter(l => /^EXDATE[:;]/i.test(l))) {
+    for (const value of line.slice(line.indexOf(':') + 1).split(',')) {
+      const dateKey = icsValueToDateKey(value.trim());
+      if (!dateKey) return null;
+      skipDates.add(dateKey);
+    }
+  }
+  if (skipDates.size > 0) pattern.skipDates = Array.from(skipDates).sort();
+
+  return pattern;
+};
@@ -0,0 +1,229 @@
+/**
+ * Global Search
+ * Builds searchable documents from SOPs, task templates, job tasks and
+ * calendar events, and ranks them against a query. Pure functions so the
+ * same code runs against live context data or the IndexedDB offline copy.
+ */
+
+import { CalendarEvent, JobTask, SOP, TaskComment, TaskTemplate } from '../types';
+
+export type SearchEntityType = 'sop' | 'template' | 'task' | 'event';
+
+interface SearchField {
+  label: string; // e.g. "Step 3", "Comment", "Notes"
+  text: string;
+  weight: number;
+}
+
+export interface SearchDocument {
+  id: string;
+  entityType: SearchEntityType;
+  title: string;
+  subtitle: string;
+  fields: SearchField[];
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  matchLabel: string; // Which field matched best
+  snippet: string; // Text around the best match
+}
+
+export interface SearchSources {
+  sops: SOP[];
+  templates: TaskTemplate[];
+  tasks: JobTask[];
+  events: CalendarEvent[];
+  taskComments?: Record<string, TaskComment[]>; // From the comments table, by task ID
+}
+
+// Field weights: title matches rank above body text
+const WEIGHT = {
+  title: 10,
+  tags: 6,
+  description: 4,
+  body: 2,
+};
+
+const SNIPPET_RADIUS = 40;
+
+export const SEARCH_ENTITY_LABELS: Record<SearchEntityType, string> = {
+  sop: 'SOPs',
+  template: 'Task Templates',
+  task: 'Tasks',
+  event: 'Events',
+};
+
+const field = (label: string, text: string | undefined, weight: number): SearchField[] =>
+  text && text.trim() ? [{ label, text, weight }] : [];
+
+// Comments still stored on the task plus those in the comments table
+const getTaskComments = (task: JobTask, taskComments: Record<string, TaskComment[]>) => {
+  const stored = taskComments[task.id] || [];
+  const ids = new Set(stored.map(comment => comment.id));
+  return [...(task.comments || []).filter(comment => !ids.has(comment.id)), ...stored];
+};
+
+export const buildSearchDocuments = ({ sops, templates, tasks, events, taskComments = {} }: SearchSources): SearchDocument[] => [
+  ...sops
+    .filter(sop => sop.status !== 'archived')
+    .map((sop): SearchDocument => ({
+      id: sop.id,
+      entityType: 'sop',
+      title: sop.title,
+      subtitle: `${sop.department} · ${sop.category}`,
+      fields: [
+        ...field('Title', sop.title, WEIGHT.title),
+        ...field('Tags', (sop.tags || []).join(' '), WEIGHT.tags),
+        ...field('Description', sop.description, WEIGHT.description),
+        ...sop.steps.flatMap((step, index) => [
+          ...field(`Step ${index + 1}`, step.title, WEIGHT.description),
+          ...field(`Step ${index + 1}`, step.description, WEIGHT.body),
+        ]),
+      ],
+    })),
+  ...templates.map((template): SearchDocument => ({
+    id: template.id,
+    entityType: 'template',
+    title: template.title,
+    subtitle: `${template.department} · ${template.category}`,
+    fields: [
+      ...field('Title', template.title, WEIGHT.title),
+      ...field('Description', template.description, WEIGHT.description),
+      ...template.steps.flatMap((step, index) => [
+        ...field(`Step ${index + 1}`, step.title, WEIGHT.description),
+        ...field(`Step ${index + 1}`, step.description, WEIGHT.body),
+      ]),
+    ],
+  })),
+  ...tasks
+    .filter(task => task.status !== 'archived')
+    .map((task): SearchDocument => ({
+      id: task.id,
+      entityType: 'task',
+      title: task.title,
+      subtitle: `${task.scheduledDate} · ${task.department}`,
+      fields: [
+        ...field('Title', task.title, WEIGHT.title),
+        ...field('Description', task.description, WEIGHT.description),
+        ...getTaskComments(task, taskComments).flatMap(comment =>
+          field(`Comment by ${comment.userName}`, comment.text, WEIGHT.body)
+        ),
+        ...field('Completion notes', task.completionNotes, WEIGHT.body),
+      ],
+    })),
+  ...events.map((event): SearchDocument => ({
+    id: event.id,
+    entityType: 'event',
+    title: event.title,
+    subtitle: [event.startDate, event.startTime, event.location].filter(Boolean).join(' · '),
+    fields: [
+      ...field('Title', event.title, WEIGHT.title),
+      ...field('Description', event.description, WEIGHT.description),
+      ...field('Location', event.location, WEIGHT.description),
+      ...field('Notes', event.notes, WEIGHT.body),
+    ],
+  })),
+];
+
+export const tokenizeQuery = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+
+const isWordStart = (text: string, index: number) =>
+  index === 0 || /[^a-z0-9]/i.test(text[index - 1]);
+
+// Score a single field for one term: weight, boosted for whole-word/prefix matches
+const scoreField = (fieldText: string, term: string, weight: number): number => {
+  const lower = fieldText.toLowerCase();
+  const index = lower.indexOf(term);
+  if (index === -1) return 0;
+  let score = weight;
+  if (isWordStart(lower, index)) score *= 1.5;
+  if (lower === term) score *= 2;
+  return score;
+};
+
+const makeSnippet = (text: string, term: string): string => {
+  const index = text.toLowerCase().indexOf(term);
+  if (index === -1 || text.length <= SNIPPET_RADIUS * 2) return text;
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Rank documents against a query. Every term must match somewhere in the
+ * document; the score sums each term's best field match.
+ */
+export const searchDocuments = (
+  documents: SearchDocument[],
+  query: string,
+  limit: number = 30
+): SearchResult[] => {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+
+  for (const document of documents) {
+    let total = 0;
+    let best: { field: SearchField; term: string; score: number } | null = null;
+    let matchedAll = true;
+
+    for (const term of terms) {
+      let termBest = 0;
+      for (const docField of document.fields) {
+        const score = scoreField(docField.text, term, docField.weight);
+        if (score > termBest) termBest = score;
+        if (score > 0 && (!best || score > best.score)) {
+          best = { field: docField, term, score };
+        }
+      }
+      if (termBest === 0) {
+        matchedAll = false;
+        break;
+      }
+      total += termBest;
+    }
+
+    if (matchedAll && best) {
+      results.push({
+        document,
+        score: total,
+        matchLabel: best.field.label,
+        snippet: makeSnippet(best.field.text, best.term),
+      });
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title))
+    .slice(0, limit);
+};
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+// Split text into matched / unmatched parts for highlighting
+export const highlightMatches = (text: string, query: string): HighlightPart[] => {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+
+  return text
+    .split(pattern)
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+};
+
+export const groupResults = (results: SearchResult[]): Array<{ entityType: SearchEntityType; results: SearchResult[] }> => {
+  const order: SearchEntityType[] = ['sop', 'task', 'template', 'event'];
+  return order
+    .map(entityType => ({ entityType, results: results.filter(r => r.document.entityType === entityType) }))
+    .filter(group => group.results.length > 0);
+};
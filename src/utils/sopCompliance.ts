@@ -0,0 +1,78 @@
+/**
+ * SOP Compliance Helpers
+ * Pure functions for working out who has to acknowledge a published SOP
+ * and whether their signature covers the current version.
+ */
+
+import { SOP, SOPAcknowledgement, User } from '../types';
+import { isDepartmentMember } from './departments';
+
+export type AcknowledgementStatus = 'signed' | 'outdated' | 'pending';
+
+export interface ComplianceRow {
+  user: User;
+  status: AcknowledgementStatus;
+  acknowledgement?: SOPAcknowledgement; // Latest signature by this user, if any
+}
+
+// Departments whose members must sign (defaults to the SOP's own department)
+export const getAssignedDepartments = (sop: SOP): string[] =>
+  sop.assignedDepartments && sop.assignedDepartments.length > 0
+    ? sop.assignedDepartments
+    : [sop.department];
+
+export const requiresAcknowledgement = (sop: SOP): boolean =>
+  sop.status === 'published' && !sop.isTemplate;
+
+export const isRequiredReader = (sop: SOP, user: User): boolean =>
+  requiresAcknowledgement(sop) && user.isActive && getAssignedDepartments(sop).some(department => isDepartmentMember(user, department));
+
+export const getRequiredReaders = (sop: SOP, users: User[]): User[] =>
+  users.filter(user => isRequiredReader(sop, user));
+
+// A signature is current if it was given for the version published now
+export const isCurrentAcknowledgement = (sop: SOP, ack: SOPAcknowledgement): boolean =>
+  !sop.publishedAt || ack.versionPublishedAt >= sop.publishedAt;
+
+const getLatestAcknowledgement = (
+  sop: SOP,
+  userId: string,
+  acknowledgements: SOPAcknowledgement[]
+): SOPAcknowledgement | undefined =>
+  acknowledgements
+    .filter(a => a.sopId === sop.id && a.userId === userId)
+    .sort((a, b) => b.acknowledgedAt.localeCompare(a.acknowledgedAt))[0];
+
+export const getAcknowledgementStatus = (
+  sop: SOP,
+  userId: string,
+  acknowledgements: SOPAcknowledgement[]
+): AcknowledgementStatus => {
+  const latest = getLatestAcknowledgement(sop, userId, acknowledgements);
+  if (!latest) return 'pending';
+  return isCurrentAcknowledgement(sop, latest) ? 'signed' : 'outdated';
+};
+
+export const getComplianceMatrix = (
+  sop: SOP,
+  users: User[],
+  acknowledgements: SOPAcknowledgement[]
+): ComplianceRow[] =>
+  getRequiredReaders(sop, users).map(user => {
+    const acknowledgement = getLatestAcknowledgement(sop, user.id, acknowledgements);
+    return {
+      user,
+      acknowledgement,
+      status: getAcknowledgementStatus(sop, user.id, acknowledgements),
+    };
+  });
+
+// Published SOPs the user still has to sign (never signed or signed an older version)
+export const getOutstandingSOPsForUser = (
+  sops: SOP[],
+  user: User,
+  acknowledgements: SOPAcknowledgement[]
+): SOP[] =>
+  sops.filter(
+    sop => isRequiredReader(sop, user) && getAcknowledgementStatus(sop, user.id, acknowledgements) !== 'signed'
+  );
@@ -0,0 +1,115 @@
+/**
+ * SOP Diff Utilities
+ * Compares two SOP revisions field-by-field and step-by-step for the
+ * side-by-side version comparison in SOPViewer.
+ */
+
+import { SOPRevision, SOPStep } from '../types';
+
+export type DiffStatus = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface StepDiff {
+  status: DiffStatus;
+  before?: SOPStep;
+  after?: SOPStep;
+  changedFields: Array<'title' | 'description' | 'imageUrl' | 'order'>;
+}
+
+export interface FieldDiff {
+  field: 'title' | 'description' | 'status' | 'tags';
+  before: string;
+  after: string;
+}
+
+export interface RevisionDiff {
+  fields: FieldDiff[];
+  steps: StepDiff[];
+}
+
+const compareStep = (before: SOPStep, after: SOPStep): StepDiff['changedFields'] => {
+  const changed: StepDiff['changedFields'] = [];
+  if (before.title !== after.title) changed.push('title');
+  if (before.description !== after.description) changed.push('description');
+  if ((before.imageUrl || '') !== (after.imageUrl || '')) changed.push('imageUrl');
+  if (before.order !== after.order) changed.push('order');
+  return changed;
+};
+
+/**
+ * Align steps of two revisions. Steps are matched by ID first (SOPForm keeps
+ * IDs stable across edits); anything left over is reported as added/removed.
+ * Output follows the order of the newer revision, with removed steps placed
+ * where they used to be.
+ */
+export const diffSteps = (beforeSteps: SOPStep[], afterSteps: SOPStep[]): StepDiff[] => {
+  const beforeById = new Map(beforeSteps.map(step => [step.id, step]));
+  const afterIds = new Set(afterSteps.map(step => step.id));
+  const result: StepDiff[] = [];
+
+  // Removed steps are emitted just before the first surviving step that
+  // followed them in the older revision.
+  const removedBefore = new Map<string, SOPStep[]>();
+  const trailingRemoved: SOPStep[] = [];
+  let pending: SOPStep[] = [];
+  for (const step of beforeSteps) {
+    if (afterIds.has(step.id)) {
+      if (pending.length > 0) {
+        removedBefore.set(step.id, pending);
+        pending = [];
+      }
+    } else {
+      pending.push(step);
+    }
+  }
+  trailingRemoved.push(...pending);
+
+  for (const after of afterSteps) {
+    for (const removed of removedBefore.get(after.id) || []) {
+      result.push({ status: 'removed', before: removed, changedFields: [] });
+    }
+
+    const before = beforeById.get(after.id);
+    if (!before) {
+      result.push({ status: 'added', after, changedFields: [] });
+      continue;
+    }
+
+    const changedFields = compareStep(before, after);
+    result.push({
+      status: changedFields.length > 0 ? 'changed' : 'unchanged',
+      before,
+      after,
+      changedFields,
+    });
+  }
+
+  for (const removed of trailingRemoved) {
+    result.push({ status: 'removed', before: removed, changedFields: [] });
+  }
+
+  return result;
+};
+
+/**
+ * Diff two revisions. `before` should be the older revision.
+ */
+export const diffRevisions = (before: SOPRevision, after: SOPRevision): RevisionDiff => {
+  const fields: FieldDiff[] = [];
+
+  if (before.title !== after.title) {
+    fields.push({ field: 'title', before: before.title, after: after.title });
+  }
+  if (before.description !== after.description) {
+    fields.push({ field: 'description', before: before.description, after: after.description });
+  }
+  if (before.status !== after.status) {
+    fields.push({ field: 'status', before: before.status, after: after.status });
+  }
+  const beforeTags = (before.tags || []).join(', ');
+  const afterTags = (after.tags || []).join(', ');
+  if (beforeTags !== afterTags) {
+    fields.push({ field: 'tags', before: beforeTags, after: afterTags });
+  }
+
+  return { fields, steps: diffSteps(before.steps, after.steps) };
+};
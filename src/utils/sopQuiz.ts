@@ -0,0 +1,97 @@
+/**
+ * SOP Quiz Helpers
+ * Pure functions for grading SOP knowledge checks and working out who is
+ * certified on which SOPs.
+ */
+
+import { SOP, SOPQuiz, SOPQuizAttempt, SOPQuizQuestion } from '../types';
+
+export const DEFAULT_PASS_THRESHOLD = 80;
+
+export type CertificationStatus = 'certified' | 'failed' | 'not_attempted';
+
+export interface Certification {
+  sop: SOP;
+  status: CertificationStatus;
+  bestScore?: number;
+  lastAttempt?: SOPQuizAttempt;
+  certifiedAt?: string; // When the first passing attempt was made
+}
+
+export const hasQuiz = (sop: SOP): boolean =>
+  !!sop.quiz && sop.quiz.questions.length > 0;
+
+export const createQuizQuestion = (type: SOPQuizQuestion['type']): SOPQuizQuestion => ({
+  id: `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  type,
+  prompt: '',
+  options: type === 'true_false' ? ['True', 'False'] : ['', ''],
+  correctOptionIndex: 0,
+});
+
+// Returns an error message for the first invalid question, or null if the quiz is valid
+export const validateQuiz = (quiz: SOPQuiz): string | null => {
+  if (quiz.passThreshold < 1 || quiz.passThreshold > 100) {
+    return 'Pass threshold must be between 1 and 100%';
+  }
+  for (let i = 0; i < quiz.questions.length; i++) {
+    const question = quiz.questions[i];
+    if (!question.prompt.trim()) {
+      return `Quiz question ${i + 1} needs a prompt`;
+    }
+    if (question.options.length < 2 || question.options.some(option => !option.trim())) {
+      return `Quiz question ${i + 1} needs at least two filled-in answers`;
+    }
+    if (question.correctOptionIndex < 0 || question.correctOptionIndex >= question.options.length) {
+      return `Quiz question ${i + 1} needs a correct answer`;
+    }
+  }
+  return null;
+};
+
+// Score as a whole-number percentage
+export const scoreQuiz = (quiz: SOPQuiz, answers: number[]): number => {
+  if (quiz.questions.length === 0) return 0;
+  const correct = quiz.questions.filter((question, index) => answers[index] === question.correctOptionIndex).length;
+  return Math.round((correct / quiz.questions.length) * 100);
+};
+
+export const getAttemptsForSOP = (
+  sopId: string,
+  userId: string,
+  attempts: SOPQuizAttempt[]
+): SOPQuizAttempt[] =>
+  attempts
+    .filter(a => a.sopId === sopId && a.userId === userId)
+    .sort((a, b) => b.attemptedAt.localeCompare(a.attemptedAt));
+
+export const getCertification = (
+  sop: SOP,
+  userId: string,
+  attempts: SOPQuizAttempt[]
+): Certification => {
+  const userAttempts = getAttemptsForSOP(sop.id, userId, attempts);
+  if (userAttempts.length === 0) {
+    return { sop, status: 'not_attempted' };
+  }
+
+  const passing = userAttempts.filter(a => a.passed);
+  return {
+    sop,
+    status: passing.length > 0 ? 'certified' : 'failed',
+    bestScore: Math.max(...userAttempts.map(a => a.score)),
+    lastAttempt: userAttempts[0],
+    certifiedAt: passing.length > 0 ? passing[passing.length - 1].attemptedAt : undefined,
+  };
+};
+
+// Certification status for every published SOP that has a quiz
+export const getUserCertifications = (
+  sops: SOP[],
+  userId: string,
+  attempts: SOPQuizAttempt[]
+): Certification[] =>
+  sops
+    .filter(sop => sop.status === 'published' && !sop.isTemplate && hasQuiz(sop))
+    .map(sop => getCertification(sop, userId, attempts))
+    .sort((a, b) => a.sop.title.localeCompare(b.sop.title));
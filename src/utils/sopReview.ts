@@ -0,0 +1,35 @@
+/**
+ * SOP Review Helpers
+ * Pure functions for the draft → in_review → published approval workflow.
+ */
+
+import { SOP, SOPReviewDecision } from '../types';
+
+// Latest decision per reviewer (a reviewer may change their mind)
+export const getLatestDecisions = (sop: SOP): SOPReviewDecision[] => {
+  if (!sop.review) return [];
+  const latest = new Map<string, SOPReviewDecision>();
+  for (const decision of sop.review.decisions) {
+    const existing = latest.get(decision.reviewerId);
+    if (!existing || existing.createdAt <= decision.createdAt) {
+      latest.set(decision.reviewerId, decision);
+    }
+  }
+  return Array.from(latest.values());
+};
+
+export const countApprovals = (sop: SOP): number =>
+  getLatestDecisions(sop).filter(d => d.decision === 'approved').length;
+
+export const hasRequiredApprovals = (sop: SOP): boolean =>
+  !!sop.review && countApprovals(sop) >= sop.review.requiredApprovals;
+
+// Reviewers who haven't recorded a decision in the current round
+export const getPendingReviewers = (sop: SOP): string[] => {
+  if (!sop.review || sop.status !== 'in_review') return [];
+  const decided = new Set(getLatestDecisions(sop).map(d => d.reviewerId));
+  return sop.review.reviewers.filter(id => !decided.has(id));
+};
+
+export const isAwaitingReviewFrom = (sop: SOP, userId: string): boolean =>
+  sop.status === 'in_review' && !!sop.review && sop.review.reviewers.includes(userId);
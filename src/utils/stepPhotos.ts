@@ -0,0 +1,59 @@
+/**
+ * Step photo evidence
+ * Which steps still need their required photo, and every photo attached to a
+ * set of tasks for the admin gallery.
+ */
+
+import { JobTask, TaskStep } from '../types';
+
+// Standalone job tasks and the tasks inside a job both carry steps and completion photos
+export type PhotoSource = Pick<JobTask, 'id' | 'title' | 'steps' | 'completionPhotos' | 'completedAt' | 'completedBy'>;
+
+export interface EvidencePhoto {
+  id: string;
+  url: string;
+  taskId: string;
+  taskTitle: string;
+  stepTitle?: string; // Missing for task-level completion photos
+  takenAt?: string;
+  latitude?: number;
+  longitude?: number;
+  uploadedAt?: string;
+  uploadedBy?: string;
+}
+
+export const getStepPhotoUrl = (step: TaskStep): string | undefined => step.photo?.url || step.photoUrl;
+
+export const getMissingPhotoSteps = (steps: TaskStep[]): TaskStep[] =>
+  steps.filter(step => step.requiresPhoto && !getStepPhotoUrl(step));
+
+/** Step photos in step order, then any task-level completion photos */
+export const collectEvidencePhotos = (tasks: PhotoSource[]): EvidencePhoto[] =>
+  tasks.flatMap(task => {
+    const stepPhotos = [...task.steps]
+      .sort((a, b) => a.order - b.order)
+      .filter(step => getStepPhotoUrl(step))
+      .map((step): EvidencePhoto => ({
+        id: `${task.id}_${step.id}`,
+        url: getStepPhotoUrl(step)!,
+        taskId: task.id,
+        taskTitle: task.title,
+        stepTitle: step.title,
+        takenAt: step.photo?.takenAt,
+        latitude: step.photo?.latitude,
+        longitude: step.photo?.longitude,
+        uploadedAt: step.photo?.uploadedAt,
+        uploadedBy: step.photo?.uploadedBy,
+      }));
+
+    const completionPhotos = (task.completionPhotos || []).map((url, index): EvidencePhoto => ({
+      id: `${task.id}_completion_${index}`,
+      url,
+      taskId: task.id,
+      taskTitle: task.title,
+      uploadedAt: task.completedAt,
+      uploadedBy: task.completedBy,
+    }));
+
+    return [...stepPhotos, ...completionPhotos];
+  });
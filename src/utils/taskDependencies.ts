@@ -0,0 +1,127 @@
+/**
+ * Task Dependencies
+ * Helpers for "this task can't start until those are done" relationships,
+ * shared by tasks inside a Job and by standalone job tasks. A task lists its
+ * predecessors in `dependsOn`; while any of them is unfinished a task that
+ * has not been started is `blocked`, and it goes back to `pending` once they
+ * are all done. Tasks that were already started keep their status.
+ */
+
+import { TaskStatus } from '../types';
+
+export interface DependencyNode {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  dependsOn?: string[];
+}
+
+// Predecessor statuses that no longer hold anything up
+const SATISFIED_STATUSES: TaskStatus[] = ['completed', 'skipped', 'archived'];
+
+export const isDependencySatisfied = (task: DependencyNode): boolean =>
+  SATISFIED_STATUSES.includes(task.status);
+
+// Unfinished predecessors of a task (ids that no longer exist are ignored)
+export const getBlockingTasks = <T extends DependencyNode>(task: Pick<DependencyNode, 'dependsOn'>, tasks: T[]): T[] =>
+  (task.dependsOn || [])
+    .map(id => tasks.find(t => t.id === id))
+    .filter((t): t is T => !!t && !isDependencySatisfied(t));
+
+// Tasks that list this one as a predecessor
+export const getDependentTasks = <T extends DependencyNode>(taskId: string, tasks: T[]): T[] =>
+  tasks.filter(t => t.dependsOn?.includes(taskId));
+
+// The status a task should have given its predecessors
+export const resolveDependencyStatus = (
+  task: Pick<DependencyNode, 'status' | 'dependsOn'>,
+  tasks: DependencyNode[]
+): TaskStatus => {
+  if (task.status !== 'pending' && task.status !== 'blocked') return task.status;
+  return getBlockingTasks(task, tasks).length > 0 ? 'blocked' : 'pending';
+};
+
+/**
+ * Bring every task's blocked/pending status in line with its predecessors.
+ * Returns the same array if nothing changed, so it is safe inside setState.
+ */
+export const applyDependencyStatuses = <T extends DependencyNode>(tasks: T[]): T[] => {
+  let changed = false;
+  const next = tasks.map(task => {
+    const status = resolveDependencyStatus(task, tasks);
+    if (status === task.status) return task;
+    changed = true;
+    return { ...task, status };
+  });
+  return changed ? next : tasks;
+};
+
+// Drop references to a task that was removed
+export const removeDependencyReferences = <T extends DependencyNode>(tasks: T[], removedId: string): T[] =>
+  tasks.map(task =>
+    task.dependsOn?.includes(removedId)
+      ? { ...task, dependsOn: task.dependsOn.filter(id => id !== removedId) }
+      : task
+  );
+
+// Whether making `taskId` depend on `dependencyId` would close a loop
+export const wouldCreateCycle = (taskId: string, dependencyId: string, tasks: DependencyNode[]): boolean => {
+  if (taskId === dependencyId) return true;
+
+  const visited = new Set<string>();
+  const stack = [dependencyId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    tasks.find(t => t.id === id)?.dependsOn?.forEach(dep => stack.push(dep));
+  }
+  return false;
+};
+
+/**
+ * Group tasks into stages for display: stage 0 has no predecessors, and each
+ * later stage only depends on earlier ones. Keeps the input order within a
+ * stage. Tasks caught in a cycle (which the forms prevent) go in a last stage.
+ */
+export const getDependencyStages = <T extends DependencyNode>(tasks: T[]): T[][] => {
+  const ids = new Set(tasks.map(t => t.id));
+  const stageOf = new Map<string, number>();
+  let remaining = tasks;
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(task =>
+      (task.dependsOn || []).every(dep => !ids.has(dep) || stageOf.has(dep))
+    );
+    if (ready.length === 0) break;
+
+    ready.forEach(task => {
+      const stage = Math.max(-1, ...(task.dependsOn || []).filter(dep => ids.has(dep)).map(dep => stageOf.get(dep)!)) + 1;
+      stageOf.set(task.id, stage);
+    });
+    remaining = remaining.filter(task => !stageOf.has(task.id));
+  }
+
+  const stageCount = Math.max(0, ...Array.from(stageOf.values()).map(stage => stage + 1));
+  const stages: T[][] = Array.from({ length: stageCount }, () => []);
+  tasks.forEach(task => {
+    if (stageOf.has(task.id)) stages[stageOf.get(task.id)!].push(task);
+  });
+  if (remaining.length > 0) stages.push(remaining);
+  return stages;
+};
+
+// The task plus everything connected to it through dependencies in either direction
+export const getDependencyChain = <T extends DependencyNode>(taskId: string, tasks: T[]): T[] => {
+  const chain = new Set<string>();
+  const stack = [taskId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (chain.has(id)) continue;
+    chain.add(id);
+    tasks.find(t => t.id === id)?.dependsOn?.forEach(dep => stack.push(dep));
+    getDependentTasks(id, tasks).forEach(t => stack.push(t.id));
+  }
+  return tasks.filter(t => chain.has(t.id));
+};
@@ -0,0 +1,110 @@
+/**
+ * Timeline Layout
+ * Places jobs and tasks on a continuous time axis for the timeline view.
+ * A task starts at its scheduled date and due time (the calendar day view
+ * treats the due time as the start of the slot, so we do the same) and runs
+ * for its estimated duration.
+ *
+ * Tasks inside a job usually have no date of their own. They are laid out
+ * one after another from the job's start, and never before the tasks they
+ * depend on have finished. A task that was dragged to a specific time keeps
+ * it, and the tasks after it continue from there.
+ */
+
+import { Job, JobTask, Task } from '../types';
+import { addDays, parseDateKey, toDateKey } from './dateTime';
+
+// Start time for items that have a date but no time
+export const DEFAULT_START_TIME = '09:00';
+
+const MINUTE = 60 * 1000;
+
+export interface TimelineSpan {
+  start: Date;
+  end: Date;
+}
+
+export interface TimelineJobTask extends TimelineSpan {
+  task: Task;
+}
+
+export const toTimeString = (date: Date): string =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+export const toDateTime = (dateKey: string, time?: string): Date => {
+  const date = parseDateKey(dateKey);
+  const [hours, minutes] = (time || DEFAULT_START_TIME).split(':').map(Number);
+  date.setHours(hours, minutes || 0, 0, 0);
+  return date;
+};
+
+export const addMinutes = (date: Date, minutes: number): Date =>
+  new Date(date.getTime() + minutes * MINUTE);
+
+export const minutesBetween = (from: Date, to: Date): number =>
+  Math.round((to.getTime() - from.getTime()) / MINUTE);
+
+// Task durations are stored in minutes; anything without one still gets a visible bar
+const durationOf = (item: { estimatedDuration: number }) =>
+  item.estimatedDuration > 0 ? item.estimatedDuration : 30;
+
+export const getJobTaskSpan = (task: JobTask): TimelineSpan => {
+  const start = toDateTime(task.scheduledDate, task.dueTime);
+  return { start, end: addMinutes(start, durationOf(task)) };
+};
+
+export const getJobStart = (job: Job): Date => toDateTime(job.scheduledDate, job.dueTime);
+
+/**
+ * Lay a job's tasks out in order. Each task starts when the previous one
+ * ends (or at its own date/time if it has one), but not before everything
+ * it depends on has finished.
+ */
+export const layoutJobTasks = (job: Job): TimelineJobTask[] => {
+  const laidOut: TimelineJobTask[] = [];
+  let cursor = getJobStart(job);
+
+  job.tasks.forEach(task => {
+    let start = task.scheduledDate ? toDateTime(task.scheduledDate, task.dueTime) : cursor;
+    (task.dependsOn || []).forEach(depId => {
+      const dependency = laidOut.find(item => item.task.id === depId);
+      if (dependency && dependency.end > start) start = dependency.end;
+    });
+
+    const end = addMinutes(start, durationOf(task));
+    laidOut.push({ task, start, end });
+    cursor = end;
+  });
+
+  return laidOut;
+};
+
+export const getJobSpan = (job: Job): TimelineSpan => {
+  const tasks = layoutJobTasks(job);
+  const start = getJobStart(job);
+  if (tasks.length === 0) return { start, end: addMinutes(start, 60) };
+  return {
+    start: new Date(Math.min(...tasks.map(t => t.start.getTime()))),
+    end: new Date(Math.max(...tasks.map(t => t.end.getTime()))),
+  };
+};
+
+export const overlapsRange = (span: TimelineSpan, rangeStart: Date, rangeEnd: Date): boolean =>
+  span.start < rangeEnd && span.end > rangeStart;
+
+// The scheduledDate / dueTime pair for a start time
+export const toSchedule = (start: Date): { scheduledDate: string; dueTime: string } => ({
+  scheduledDate: toDateKey(start),
+  dueTime: toTimeString(start),
+});
+
+/**
+ * Move a whole job by a number of days. Tasks with their own date move with
+ * it; the rest follow the job's start automatically.
+ */
+export const shiftJob = (job: Job, days: number): Pick<Job, 'scheduledDate' | 'tasks'> => ({
+  scheduledDate: addDays(job.scheduledDate, days),
+  tasks: job.tasks.map(task =>
+    task.scheduledDate ? { ...task, scheduledDate: addDays(task.scheduledDate, days) } : task
+  ),
+});
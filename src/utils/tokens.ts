@@ -0,0 +1,12 @@
+/**
+ * Secret link tokens
+ * Invite links and calendar feed URLs are secured by a random token alone,
+ * so both come from the browser's cryptographic random source.
+ */
+
+/** 48 hex characters (192 bits) */
+export const generateToken = (): string => {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,47 @@
+-- ============================================================
+-- Migration v10: SOP QUIZZES / CERTIFICATION
+-- ============================================================
+-- Authors can attach a knowledge check to an SOP, stored as
+-- JSONB { questions: [{ id, type, prompt, options,
+-- correctOptionIndex }], passThreshold }. Every attempt is kept in
+-- sop_quiz_attempts; a user is certified on an SOP once any
+-- attempt passed.
+--
+-- Requires v6 (public.is_admin()).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+ALTER TABLE public.sops ADD COLUMN IF NOT EXISTS quiz JSONB;
+
+CREATE TABLE IF NOT EXISTS public.sop_quiz_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  user_name TEXT NOT NULL,
+  answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  score INTEGER NOT NULL CHECK (score BETWEEN 0 AND 100),
+  passed BOOLEAN NOT NULL,
+  pass_threshold INTEGER NOT NULL CHECK (pass_threshold BETWEEN 1 AND 100),
+  attempted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sop_quiz_attempts_user_id ON public.sop_quiz_attempts (user_id, sop_id);
+
+-- ------------------------------------------------------------
+-- RLS: users see and record their own attempts; admins see all.
+-- Attempts are immutable (no UPDATE/DELETE policies).
+-- ------------------------------------------------------------
+ALTER TABLE public.sop_quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "sop_quiz_attempts_select" ON public.sop_quiz_attempts
+  FOR SELECT USING (
+    public.is_admin() OR user_id = auth.uid()::text
+  );
+
+CREATE POLICY "sop_quiz_attempts_insert" ON public.sop_quiz_attempts
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()::text AND EXISTS (
+      SELECT 1 FROM public.sops s
+      WHERE s.id = sop_id AND s.status = 'published' AND s.quiz IS NOT NULL
+    )
+  );
@@ -0,0 +1,73 @@
+-- ============================================================
+-- Migration v11: RECURRING TASK GENERATION
+-- ============================================================
+-- Recurring job tasks now generate concrete occurrences for a
+-- rolling window. Each generated task points at its series root
+-- (series_id) and records the date it belongs to in the series
+-- (occurrence_date), which stays fixed if the task is moved.
+--
+-- The unique index makes generation idempotent: admin sessions
+-- and the hourly api/generate-recurring-tasks job generating at
+-- the same time cannot create the same occurrence twice (both
+-- upsert with ignoreDuplicates).
+--
+-- Deleting a root hands its series to the earliest occurrence
+-- left (the app does the same first). Otherwise the ON DELETE
+-- SET NULL would leave every occurrence looking like a root of
+-- its own, and generation would start a series from each.
+--
+-- recurrence_pattern JSONB gains optional keys:
+--   dayOfMonth  (monthly series, 1-31)
+--   skipDates   (["YYYY-MM-DD", ...] holidays / skipped dates)
+--
+-- Requires v2.1 (is_recurring / recurrence_pattern).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+ALTER TABLE public.job_tasks
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.job_tasks(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_tasks_series_occurrence
+  ON public.job_tasks (series_id, occurrence_date);
+
+COMMENT ON COLUMN public.job_tasks.series_id IS 'Root recurring task this occurrence was generated from';
+COMMENT ON COLUMN public.job_tasks.occurrence_date IS 'Date this occurrence belongs to in its series (kept when rescheduled)';
+
+CREATE OR REPLACE FUNCTION public.hand_over_recurring_series()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  successor_id UUID;
+BEGIN
+  IF OLD.series_id IS NOT NULL OR NOT COALESCE(OLD.is_recurring, false) THEN
+    RETURN OLD;
+  END IF;
+
+  SELECT id INTO successor_id
+  FROM public.job_tasks
+  WHERE series_id = OLD.id
+  ORDER BY COALESCE(occurrence_date, scheduled_date)
+  LIMIT 1;
+
+  IF successor_id IS NULL THEN
+    RETURN OLD;
+  END IF;
+
+  UPDATE public.job_tasks
+  SET series_id = NULL, occurrence_date = NULL, is_recurring = true, recurrence_pattern = OLD.recurrence_pattern
+  WHERE id = successor_id;
+
+  UPDATE public.job_tasks SET series_id = successor_id WHERE series_id = OLD.id;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS job_tasks_hand_over_series ON public.job_tasks;
+CREATE TRIGGER job_tasks_hand_over_series
+  BEFORE DELETE ON public.job_tasks
+  FOR EACH ROW EXECUTE FUNCTION public.hand_over_recurring_series();
@@ -0,0 +1,117 @@
+-- ============================================================
+-- Migration v12: TASK DEPENDENCIES
+-- ============================================================
+-- Job tasks can depend on other job tasks (depends_on). A task
+-- that has not been started is 'blocked' while any task it
+-- depends on is unfinished, and goes back to 'pending' once they
+-- are all completed, skipped or archived.
+--
+-- The status is maintained by triggers so it stays correct no
+-- matter who completes the predecessor. A blocked task cannot be
+-- started or completed until then, by anyone. The trigger functions
+-- are SECURITY DEFINER because team members usually cannot see
+-- or update each other's tasks under the v6 RLS policies.
+--
+-- Deleting a task removes it from its dependents' depends_on.
+--
+-- Requires v6 (job_tasks RLS).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+ALTER TABLE public.job_tasks
+  ADD COLUMN IF NOT EXISTS depends_on UUID[] DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_job_tasks_depends_on
+  ON public.job_tasks USING GIN (depends_on);
+
+COMMENT ON COLUMN public.job_tasks.depends_on IS 'Job task IDs that must be completed before this task can start';
+
+-- v2 restricted status with an inline CHECK; add 'blocked' (and 'skipped')
+ALTER TABLE public.job_tasks DROP CONSTRAINT IF EXISTS job_tasks_status_check;
+ALTER TABLE public.job_tasks ADD CONSTRAINT job_tasks_status_check
+  CHECK (status IN ('pending', 'blocked', 'in-progress', 'completed', 'overdue', 'skipped', 'draft', 'archived'));
+
+-- ------------------------------------------------------------
+-- Set blocked / pending from the state of the predecessors
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.resolve_job_task_dependency_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  waiting boolean;
+BEGIN
+  waiting := EXISTS (
+    SELECT 1 FROM public.job_tasks dep
+    WHERE dep.id = ANY(COALESCE(NEW.depends_on, '{}'))
+      AND dep.status NOT IN ('completed', 'skipped', 'archived')
+  );
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'blocked' AND waiting
+     AND NEW.status IN ('in-progress', 'completed') THEN
+    RAISE EXCEPTION 'This task is waiting on other tasks to be completed';
+  END IF;
+
+  IF NEW.status NOT IN ('pending', 'blocked') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.status := CASE WHEN waiting THEN 'blocked' ELSE 'pending' END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS job_tasks_resolve_dependency_status ON public.job_tasks;
+CREATE TRIGGER job_tasks_resolve_dependency_status
+  BEFORE INSERT OR UPDATE OF depends_on, status ON public.job_tasks
+  FOR EACH ROW EXECUTE FUNCTION public.resolve_job_task_dependency_status();
+
+-- ------------------------------------------------------------
+-- Re-check dependents when a task's status changes
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.refresh_job_task_dependents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    -- Touching status fires the BEFORE trigger on each dependent
+    UPDATE public.job_tasks
+    SET status = status
+    WHERE NEW.id = ANY(depends_on)
+      AND status IN ('pending', 'blocked');
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS job_tasks_refresh_dependents ON public.job_tasks;
+CREATE TRIGGER job_tasks_refresh_dependents
+  AFTER UPDATE OF status ON public.job_tasks
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_job_task_dependents();
+
+-- ------------------------------------------------------------
+-- Drop references to deleted tasks (which also unblocks them)
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.remove_job_task_dependency_references()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.job_tasks
+  SET depends_on = array_remove(depends_on, OLD.id)
+  WHERE OLD.id = ANY(depends_on);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS job_tasks_remove_dependency_references ON public.job_tasks;
+CREATE TRIGGER job_tasks_remove_dependency_references
+  AFTER DELETE ON public.job_tasks
+  FOR EACH ROW EXECUTE FUNCTION public.remove_job_task_dependency_references();
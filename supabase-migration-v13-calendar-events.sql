@@ -0,0 +1,181 @@
+-- ============================================================
+-- Migration v13: CALENDAR EVENTS, TAGS AND TEMPLATES
+-- ============================================================
+-- Calendar events, event tags and event templates used to live
+-- in each browser's localStorage. They now live in Supabase so
+-- the whole team shares one calendar. The app uploads anything
+-- still in localStorage once per user after this is applied.
+--
+-- IDs are TEXT (not UUID) and generated by the app, so events
+-- created offline keep their id when the queued change syncs,
+-- and migrated events keep the ids their tags and Google
+-- Calendar links refer to.
+--
+-- Everyone signed in can see the calendar. Creators and admins
+-- can change or delete an event; attendees can also reschedule
+-- it. Deleting a tag removes it from every event, including
+-- events the deleting user cannot otherwise edit.
+--
+-- Requires v6 (public.is_admin()).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Tables
+-- ------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.calendar_events (
+  id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+  title TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  start_date TEXT NOT NULL,   -- YYYY-MM-DD
+  start_time TEXT,            -- HH:MM
+  end_date TEXT,              -- YYYY-MM-DD (multi-day events)
+  end_time TEXT,              -- HH:MM
+  location TEXT,
+  is_all_day BOOLEAN DEFAULT false,
+  color TEXT NOT NULL,
+  attendees TEXT[] DEFAULT '{}',
+  reminders JSONB DEFAULT '[]'::jsonb,
+  is_recurring BOOLEAN DEFAULT false,
+  recurrence_pattern JSONB,
+  notes TEXT,
+  tags TEXT[] DEFAULT '{}',
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_start_date ON public.calendar_events (start_date);
+CREATE INDEX IF NOT EXISTS idx_calendar_events_attendees ON public.calendar_events USING GIN (attendees);
+
+CREATE TABLE IF NOT EXISTS public.event_tags (
+  id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+  name TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.event_templates (
+  id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+  name TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  duration INTEGER,           -- Minutes
+  location TEXT,
+  is_all_day BOOLEAN DEFAULT false,
+  color TEXT NOT NULL,
+  attendees TEXT[] DEFAULT '{}',
+  reminders JSONB DEFAULT '[]'::jsonb,
+  is_recurring BOOLEAN DEFAULT false,
+  recurrence_pattern JSONB,
+  notes TEXT,
+  tags TEXT[] DEFAULT '{}',
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_calendar_events_updated_at ON public.calendar_events;
+CREATE TRIGGER update_calendar_events_updated_at
+  BEFORE UPDATE ON public.calendar_events
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_event_templates_updated_at ON public.event_templates;
+CREATE TRIGGER update_event_templates_updated_at
+  BEFORE UPDATE ON public.event_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ------------------------------------------------------------
+-- 2. Row level security
+-- ------------------------------------------------------------
+ALTER TABLE public.calendar_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_templates ENABLE ROW LEVEL SECURITY;
+
+-- Events: shared team calendar
+CREATE POLICY "calendar_events_select" ON public.calendar_events
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "calendar_events_insert" ON public.calendar_events
+  FOR INSERT WITH CHECK (
+    public.is_admin() OR created_by = auth.uid()::text
+  );
+
+CREATE POLICY "calendar_events_update" ON public.calendar_events
+  FOR UPDATE USING (
+    public.is_admin()
+    OR created_by = auth.uid()::text
+    OR auth.uid()::text = ANY (attendees)
+  );
+
+CREATE POLICY "calendar_events_delete" ON public.calendar_events
+  FOR DELETE USING (
+    public.is_admin() OR created_by = auth.uid()::text
+  );
+
+-- Tags: anyone can use and create them; creators and admins remove them
+CREATE POLICY "event_tags_select" ON public.event_tags
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "event_tags_insert" ON public.event_tags
+  FOR INSERT WITH CHECK (
+    public.is_admin() OR created_by = auth.uid()::text
+  );
+
+CREATE POLICY "event_tags_delete" ON public.event_tags
+  FOR DELETE USING (
+    public.is_admin() OR created_by = auth.uid()::text
+  );
+
+-- Templates: shared; creators and admins maintain them
+CREATE POLICY "event_templates_select" ON public.event_templates
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "event_templates_insert" ON public.event_templates
+  FOR INSERT WITH CHECK (
+    public.is_admin() OR created_by = auth.uid()::text
+  );
+
+CREATE POLICY "event_templates_update" ON public.event_templates
+  FOR UPDATE USING (
+    public.is_admin() OR created_by = auth.uid()::text
+  );
+
+CREATE POLICY "event_templates_delete" ON public.event_templates
+  FOR DELETE USING (
+    public.is_admin() OR created_by = auth.uid()::text
+  );
+
+-- ------------------------------------------------------------
+-- 3. Drop deleted tags from events
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.remove_event_tag_references()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.calendar_events
+  SET tags = array_remove(tags, OLD.id)
+  WHERE OLD.id = ANY(tags);
+
+  UPDATE public.event_templates
+  SET tags = array_remove(tags, OLD.id)
+  WHERE OLD.id = ANY(tags);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS event_tags_remove_references ON public.event_tags;
+CREATE TRIGGER event_tags_remove_references
+  AFTER DELETE ON public.event_tags
+  FOR EACH ROW EXECUTE FUNCTION public.remove_event_tag_references();
+
+-- ------------------------------------------------------------
+-- 4. Realtime
+-- ------------------------------------------------------------
+ALTER PUBLICATION supabase_realtime ADD TABLE public.calendar_events;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.event_tags;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.event_templates;
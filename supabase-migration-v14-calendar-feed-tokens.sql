@@ -0,0 +1,37 @@
+-- ============================================================
+-- Migration v14: SUBSCRIBABLE CALENDAR FEED TOKENS
+-- ============================================================
+-- Each user can publish a private iCal feed of their assigned
+-- job tasks, the events they attend and their work days, for
+-- Outlook, Apple Calendar and the like. The feed URL carries a
+-- random token instead of a session, so it is stored here: one
+-- token per user, replaced to rotate it and deleted to revoke.
+--
+-- The feed itself is served by api/calendar-feed.ts using the
+-- service role key (SUPABASE_SERVICE_ROLE_KEY), which bypasses
+-- RLS; users can only see and change their own token.
+--
+-- Requires v5 (work_days) and v13 (calendar_events).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  user_id TEXT PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_accessed_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "calendar_feed_tokens_select" ON public.calendar_feed_tokens
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+CREATE POLICY "calendar_feed_tokens_insert" ON public.calendar_feed_tokens
+  FOR INSERT WITH CHECK (user_id = auth.uid()::text);
+
+CREATE POLICY "calendar_feed_tokens_update" ON public.calendar_feed_tokens
+  FOR UPDATE USING (user_id = auth.uid()::text);
+
+CREATE POLICY "calendar_feed_tokens_delete" ON public.calendar_feed_tokens
+  FOR DELETE USING (user_id = auth.uid()::text);
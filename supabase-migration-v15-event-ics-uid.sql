@@ -0,0 +1,17 @@
+-- ============================================================
+-- Migration v15: ICS IMPORT
+-- ============================================================
+-- Events imported from .ics files remember the UID of the VEVENT
+-- they came from, so importing the same file again (e.g. an
+-- updated school-year calendar) updates those events instead of
+-- duplicating them, and exports keep the original UID.
+--
+-- Requires v13 (calendar_events).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+ALTER TABLE public.calendar_events ADD COLUMN IF NOT EXISTS ics_uid TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_ics_uid ON public.calendar_events (ics_uid);
+
+COMMENT ON COLUMN public.calendar_events.ics_uid IS 'UID of the iCalendar VEVENT this event was imported from';
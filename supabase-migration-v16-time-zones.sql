@@ -0,0 +1,43 @@
+-- ============================================================
+-- Migration v16: TIME ZONES
+-- ============================================================
+-- Dates and times in the app are stored as plain wall-clock
+-- values (YYYY-MM-DD, HH:MM). They are meant in the organization's
+-- time zone, kept in the single organization_settings row, unless
+-- a user picks their own zone in Settings (profiles.time_zone).
+-- Values are IANA names such as 'America/Chicago'.
+--
+-- Everyone can read the settings; only admins can change them.
+--
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS time_zone TEXT;
+
+COMMENT ON COLUMN public.profiles.time_zone IS 'IANA time zone the user works in; NULL means the organization time zone';
+
+CREATE TABLE IF NOT EXISTS public.organization_settings (
+  id TEXT PRIMARY KEY DEFAULT 'default' CHECK (id = 'default'),
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  updated_by TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.organization_settings (id) VALUES ('default') ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.organization_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "organization_settings_select" ON public.organization_settings
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "organization_settings_insert" ON public.organization_settings
+  FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "organization_settings_update" ON public.organization_settings
+  FOR UPDATE USING (public.is_admin());
+
+CREATE TRIGGER update_organization_settings_updated_at
+  BEFORE UPDATE ON public.organization_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.organization_settings;
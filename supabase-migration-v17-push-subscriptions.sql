@@ -0,0 +1,66 @@
+-- ============================================================
+-- Migration v17: WEB PUSH SUBSCRIPTIONS
+-- ============================================================
+-- Task reminders, overdue alerts and event reminders are sent
+-- as Web Push notifications. Each browser a user turns push on
+-- in gets a row in push_subscriptions (one per device, keyed by
+-- the push service endpoint). Devices using the local stand-in
+-- (no VAPID key configured) have a 'local:' endpoint and are
+-- served by the browser itself, not the sender.
+--
+-- api/send-notifications.ts runs on a schedule with the service
+-- role key, sends whatever is due and records each notification
+-- in push_deliveries so it only goes out once. Endpoints the push
+-- service reports as gone are deleted by the sender.
+--
+-- Users can only see and change their own devices. Endpoints
+-- must be https: URLs on a known push service (the same hosts as
+-- src/utils/pushEndpoints.ts), so nobody can make the sender POST
+-- to an address of their choosing.
+--
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+  user_id TEXT NOT NULL,
+  endpoint TEXT NOT NULL UNIQUE CHECK (
+    endpoint LIKE 'local:%'
+    OR endpoint ~* '^https://([a-z0-9-]+\.)*(fcm\.googleapis\.com|push\.services\.mozilla\.com|notify\.windows\.com|push\.apple\.com)/'
+  ),
+  p256dh TEXT NOT NULL,         -- Browser public key (base64url)
+  auth TEXT NOT NULL,           -- Auth secret (base64url)
+  device_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_notified_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON public.push_subscriptions (user_id);
+
+CREATE TABLE IF NOT EXISTS public.push_deliveries (
+  user_id TEXT NOT NULL,
+  tag TEXT NOT NULL,            -- Notification tag, see src/utils/notificationRules.ts
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_deliveries_sent_at ON public.push_deliveries (sent_at);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "push_subscriptions_select" ON public.push_subscriptions
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+CREATE POLICY "push_subscriptions_insert" ON public.push_subscriptions
+  FOR INSERT WITH CHECK (user_id = auth.uid()::text);
+
+CREATE POLICY "push_subscriptions_update" ON public.push_subscriptions
+  FOR UPDATE USING (user_id = auth.uid()::text);
+
+CREATE POLICY "push_subscriptions_delete" ON public.push_subscriptions
+  FOR DELETE USING (user_id = auth.uid()::text);
+
+-- Deliveries are written by the sender only; users may look at their own
+CREATE POLICY "push_deliveries_select" ON public.push_deliveries
+  FOR SELECT USING (user_id = auth.uid()::text);
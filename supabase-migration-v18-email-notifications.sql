@@ -0,0 +1,60 @@
+-- ============================================================
+-- Migration v18: EMAIL NOTIFICATIONS
+-- ============================================================
+-- api/send-emails.ts runs on a schedule with the service role
+-- key and emails task assignment notices, the morning overdue
+-- alert and daily digest, and event reminders set to email. Each
+-- email is recorded in email_deliveries so it only goes out once.
+--
+-- Admins can reword any email in Settings. A row in
+-- email_templates replaces the built-in wording for that email
+-- (see src/utils/emailTemplates.ts); deleting it restores the
+-- default.
+--
+-- Everyone can read the templates; only admins can change them.
+--
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.email_templates (
+  id TEXT PRIMARY KEY CHECK (id IN ('task_assigned', 'overdue_alert', 'daily_digest', 'event_reminder')),
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  updated_by TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.email_deliveries (
+  user_id TEXT NOT NULL,
+  tag TEXT NOT NULL,            -- Email tag, see src/utils/emailRules.ts
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_sent_at ON public.email_deliveries (sent_at);
+
+-- Assignment notices look up recent task_assigned entries
+CREATE INDEX IF NOT EXISTS idx_activity_logs_action_created_at ON public.activity_logs (action, created_at);
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "email_templates_select" ON public.email_templates
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "email_templates_insert" ON public.email_templates
+  FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "email_templates_update" ON public.email_templates
+  FOR UPDATE USING (public.is_admin());
+
+CREATE POLICY "email_templates_delete" ON public.email_templates
+  FOR DELETE USING (public.is_admin());
+
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON public.email_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Deliveries are written by the sender only; users may look at their own
+CREATE POLICY "email_deliveries_select" ON public.email_deliveries
+  FOR SELECT USING (user_id = auth.uid()::text);
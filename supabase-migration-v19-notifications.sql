@@ -0,0 +1,48 @@
+-- ============================================================
+-- Migration v19: IN-APP NOTIFICATIONS
+-- ============================================================
+-- The bell in the navigation lists notifications such as "Jordan
+-- assigned you a task". They are created by the app whenever an
+-- action is written to activity_logs (see
+-- src/utils/activityNotifications.ts), one row per recipient,
+-- and link to the task, SOP or event they are about.
+--
+-- Users see and update (mark read) only their own notifications.
+-- Anyone signed in can create notifications, but only as
+-- themselves (actor_id). v26 replaces this with a server-side
+-- create_notifications() function.
+--
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+  user_id TEXT NOT NULL,        -- Recipient
+  type TEXT NOT NULL,           -- AppNotificationType, e.g. 'task_assigned'
+  title TEXT NOT NULL,
+  body TEXT,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('task', 'sop', 'event')),
+  entity_id TEXT NOT NULL,
+  actor_id TEXT,
+  actor_name TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "notifications_select" ON public.notifications
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+CREATE POLICY "notifications_insert" ON public.notifications
+  FOR INSERT WITH CHECK (actor_id = auth.uid()::text);
+
+CREATE POLICY "notifications_update" ON public.notifications
+  FOR UPDATE USING (user_id = auth.uid()::text);
+
+CREATE POLICY "notifications_delete" ON public.notifications
+  FOR DELETE USING (user_id = auth.uid()::text);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,171 @@
+-- ============================================================
+-- Migration v20: COMMENTS TABLE, MENTIONS AND ATTACHMENTS
+-- ============================================================
+-- Task and job comments used to live in the `comments` JSON
+-- column of job_tasks / jobs, so two people commenting at once
+-- overwrote each other. Each comment is now its own row, with:
+--   - parent_id for threaded replies (one level deep)
+--   - mentions: user IDs tagged with @, who get notified
+--   - attachments: uploaded images ({url, name, type, size})
+--   - edited_at / deleted_at: edits are marked, deletes keep the
+--     row (text cleared) so replies stay in their thread
+--
+-- Existing JSON comments are copied over; the old columns are
+-- left in place and no longer written.
+--
+-- Anyone who can see a task or job can read and add comments on
+-- it. Authors edit their own comments; admins can also remove
+-- them. Edits can only change the text, mentions, attachments
+-- and the edited / deleted markers.
+--
+-- Images go to the private `attachments` storage bucket under the
+-- uploader's user ID, and rows store the path. The app shows them
+-- through short-lived signed URLs, which anyone who can see the
+-- comment they belong to can create.
+--
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.comments (
+  id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('task', 'job')),
+  entity_id TEXT NOT NULL,
+  parent_id TEXT REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  user_name TEXT NOT NULL,
+  text TEXT NOT NULL DEFAULT '',
+  mentions TEXT[] DEFAULT '{}',
+  attachments JSONB DEFAULT '[]'::jsonb,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_entity ON public.comments (entity_type, entity_id, created_at);
+
+-- Copy the JSON comments across (safe to re-run)
+INSERT INTO public.comments (id, entity_type, entity_id, user_id, user_name, text, created_at)
+SELECT c->>'id', 'task', t.id::text, c->>'userId', COALESCE(c->>'userName', ''), COALESCE(c->>'text', ''),
+       COALESCE((c->>'createdAt')::timestamptz, t.created_at)
+FROM public.job_tasks t, jsonb_array_elements(COALESCE(t.comments, '[]'::jsonb)) AS c
+WHERE c->>'id' IS NOT NULL AND c->>'userId' IS NOT NULL
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.comments (id, entity_type, entity_id, user_id, user_name, text, created_at)
+SELECT c->>'id', 'job', j.id::text, c->>'userId', COALESCE(c->>'userName', ''), COALESCE(c->>'text', ''),
+       COALESCE((c->>'createdAt')::timestamptz, j.created_at)
+FROM public.jobs j, jsonb_array_elements(COALESCE(j.comments, '[]'::jsonb)) AS c
+WHERE c->>'id' IS NOT NULL AND c->>'userId' IS NOT NULL
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+-- The subqueries run under the caller's job_tasks / jobs policies,
+-- so a comment is visible exactly when its task or job is
+DROP POLICY IF EXISTS "comments_select" ON public.comments;
+CREATE POLICY "comments_select" ON public.comments
+  FOR SELECT USING (
+    (entity_type = 'task' AND EXISTS (SELECT 1 FROM public.job_tasks t WHERE t.id::text = entity_id))
+    OR (entity_type = 'job' AND EXISTS (SELECT 1 FROM public.jobs j WHERE j.id::text = entity_id))
+  );
+
+-- Attachments must be files the author uploaded, so a comment
+-- can't be used to read someone else's storage
+DROP POLICY IF EXISTS "comments_insert" ON public.comments;
+CREATE POLICY "comments_insert" ON public.comments
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()::text AND (
+      (entity_type = 'task' AND EXISTS (SELECT 1 FROM public.job_tasks t WHERE t.id::text = entity_id))
+      OR (entity_type = 'job' AND EXISTS (SELECT 1 FROM public.jobs j WHERE j.id::text = entity_id))
+    ) AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(attachments, '[]'::jsonb)) AS a
+      WHERE split_part(a->>'url', '/', 1) <> user_id
+    )
+  );
+
+DROP POLICY IF EXISTS "comments_update" ON public.comments;
+CREATE POLICY "comments_update" ON public.comments
+  FOR UPDATE USING (user_id = auth.uid()::text OR public.is_admin())
+  WITH CHECK (
+    (user_id = auth.uid()::text OR public.is_admin()) AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(attachments, '[]'::jsonb)) AS a
+      WHERE split_part(a->>'url', '/', 1) <> user_id
+    )
+  );
+
+DROP POLICY IF EXISTS "comments_delete" ON public.comments;
+CREATE POLICY "comments_delete" ON public.comments
+  FOR DELETE USING (user_id = auth.uid()::text OR public.is_admin());
+
+-- A comment stays on its task or job, in its thread, under its author
+CREATE OR REPLACE FUNCTION public.restrict_comment_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  editable text[] := ARRAY['text', 'mentions', 'attachments', 'edited_at', 'deleted_at'];
+BEGIN
+  IF to_jsonb(NEW) - editable IS DISTINCT FROM to_jsonb(OLD) - editable THEN
+    RAISE EXCEPTION 'Only the text, mentions and attachments of a comment can be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_restrict_update ON public.comments;
+CREATE TRIGGER comments_restrict_update
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.restrict_comment_update();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
+
+-- Mention and reply notifications link to tasks and jobs
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_entity_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_entity_type_check
+  CHECK (entity_type IN ('task', 'job', 'sop', 'event'));
+
+-- Image uploads
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "attachments_insert" ON storage.objects;
+CREATE POLICY "attachments_insert" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "attachments_delete" ON storage.objects;
+CREATE POLICY "attachments_delete" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Readers can sign URLs for their own files and for images on
+-- comments they can see (the subquery runs under the caller's
+-- comments policies)
+DROP POLICY IF EXISTS "attachments_select" ON storage.objects;
+CREATE POLICY "attachments_select" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'attachments' AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM public.comments c
+        WHERE c.attachments @> jsonb_build_array(jsonb_build_object('url', name))
+      )
+    )
+  );
+
+-- Step evidence photos share the bucket, stored as
+-- <user>/steps/<task id>/<file>; anyone who can see the task can
+-- read them
+DROP POLICY IF EXISTS "attachments_select_step_photos" ON storage.objects;
+CREATE POLICY "attachments_select_step_photos" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[2] = 'steps'
+    AND EXISTS (SELECT 1 FROM public.job_tasks t WHERE t.id::text = (storage.foldername(name))[3])
+  );
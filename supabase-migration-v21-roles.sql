@@ -0,0 +1,333 @@
+-- ============================================================
+-- Migration v21: CUSTOM ROLES AND PERMISSIONS
+-- ============================================================
+-- Besides admin / team, team members can now be given a custom
+-- role (department lead, scheduler, payroll, viewer, or any role
+-- an admin creates in Settings). Each role carries a set of
+-- permissions:
+--   - manage_sops:        create, edit and archive SOPs in the
+--                         member's own department
+--   - approve_work_hours: see everyone's hours, approve/reject
+--   - manage_calendar:    reschedule any task, edit or delete
+--                         anyone's events
+--   - view_activity_log:  read the audit trail
+--
+-- profiles.role stays the access level ('admin' or 'team');
+-- profiles.role_id points at the custom role. Admins keep every
+-- permission whatever their role_id.
+--
+-- Requires v6 (public.is_admin()), v8 (SOP review) and v13
+-- (calendar_events).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Roles table, seeded with the default roles
+-- ------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.roles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  permissions TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT roles_permissions_check CHECK (
+    permissions <@ ARRAY['manage_sops', 'approve_work_hours', 'manage_calendar', 'view_activity_log']
+  ),
+  CONSTRAINT roles_id_check CHECK (id NOT IN ('admin', 'team'))
+);
+
+DROP TRIGGER IF EXISTS update_roles_updated_at ON public.roles;
+CREATE TRIGGER update_roles_updated_at
+  BEFORE UPDATE ON public.roles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO public.roles (id, name, description, permissions) VALUES
+  ('department_lead', 'Department Lead', 'Runs a department''s SOPs, hours and schedule',
+    ARRAY['manage_sops', 'approve_work_hours', 'manage_calendar']),
+  ('scheduler', 'Scheduler', 'Plans the calendar for everyone', ARRAY['manage_calendar']),
+  ('payroll', 'Payroll', 'Reviews and approves work hours', ARRAY['approve_work_hours', 'view_activity_log']),
+  ('viewer', 'Viewer', 'Read-only access to SOPs and their own tasks', '{}')
+ON CONFLICT (id) DO NOTHING;
+
+-- Deleting a role turns its members back into plain team members
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS role_id TEXT REFERENCES public.roles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_role_id ON public.profiles (role_id);
+
+-- ------------------------------------------------------------
+-- 2. Helpers: permission checks for policies
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.has_permission(perm text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_admin() OR EXISTS (
+    SELECT 1 FROM public.profiles p
+    JOIN public.roles r ON r.id = p.role_id
+    WHERE p.id = auth.uid() AND p.is_active IS NOT FALSE AND perm = ANY (r.permissions)
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.has_permission(text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.has_permission(text) TO authenticated;
+
+-- Department-scoped: only admins act outside their own department
+CREATE OR REPLACE FUNCTION public.has_department_permission(perm text, dept text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_admin() OR (
+    public.has_permission(perm) AND EXISTS (
+      SELECT 1 FROM public.profiles WHERE id = auth.uid() AND department = dept
+    )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.has_department_permission(text, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.has_department_permission(text, text) TO authenticated;
+
+-- ------------------------------------------------------------
+-- 3. Users cannot give themselves a role either
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.prevent_privilege_escalation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.role IS DISTINCT FROM OLD.role
+      OR NEW.role_id IS DISTINCT FROM OLD.role_id
+      OR NEW.is_active IS DISTINCT FROM OLD.is_active)
+     AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins may change role or active status';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- ------------------------------------------------------------
+-- 4. RLS: everyone can read roles, only admins change them
+-- ------------------------------------------------------------
+ALTER TABLE public.roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "roles_select" ON public.roles;
+CREATE POLICY "roles_select" ON public.roles
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "roles_write" ON public.roles;
+CREATE POLICY "roles_write" ON public.roles
+  FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- ------------------------------------------------------------
+-- 5. SOPs: manage_sops within the member's own department.
+--    Both the old and new department must be theirs, so SOPs
+--    cannot be moved out of (or into) someone else's.
+-- ------------------------------------------------------------
+DROP POLICY IF EXISTS "Admins can insert SOPs" ON public.sops;
+DROP POLICY IF EXISTS "Admins can update SOPs" ON public.sops;
+DROP POLICY IF EXISTS "Admins can delete SOPs" ON public.sops;
+
+DROP POLICY IF EXISTS "sops_insert" ON public.sops;
+CREATE POLICY "sops_insert" ON public.sops
+  FOR INSERT WITH CHECK (public.has_department_permission('manage_sops', department));
+
+DROP POLICY IF EXISTS "sops_update" ON public.sops;
+CREATE POLICY "sops_update" ON public.sops
+  FOR UPDATE USING (
+    public.has_department_permission('manage_sops', department)
+  ) WITH CHECK (
+    public.has_department_permission('manage_sops', department)
+  );
+
+DROP POLICY IF EXISTS "sops_delete" ON public.sops;
+CREATE POLICY "sops_delete" ON public.sops
+  FOR DELETE USING (public.has_department_permission('manage_sops', department));
+
+-- Drafts in their department, not only published SOPs
+DROP POLICY IF EXISTS "sops_select_manager" ON public.sops;
+CREATE POLICY "sops_select_manager" ON public.sops
+  FOR SELECT USING (public.has_department_permission('manage_sops', department));
+
+-- Their edits write revision history like an admin's
+DROP POLICY IF EXISTS "sop_revisions_insert" ON public.sop_revisions;
+CREATE POLICY "sop_revisions_insert" ON public.sop_revisions
+  FOR INSERT WITH CHECK (
+    author_id = auth.uid()::text AND EXISTS (
+      SELECT 1 FROM public.sops s
+      WHERE s.id = sop_id AND (
+        public.has_department_permission('manage_sops', s.department)
+        OR public.is_sop_reviewer(s.review)
+      )
+    )
+  );
+
+-- The v8 / v9 reviewer trigger only let admins edit content; keep
+-- its other checks as they were
+CREATE OR REPLACE FUNCTION public.restrict_reviewer_sop_updates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.has_department_permission('manage_sops', OLD.department)
+     AND public.has_department_permission('manage_sops', NEW.department) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title
+     OR NEW.description IS DISTINCT FROM OLD.description
+     OR NEW.department IS DISTINCT FROM OLD.department
+     OR NEW.category IS DISTINCT FROM OLD.category
+     OR NEW.steps IS DISTINCT FROM OLD.steps
+     OR NEW.tags IS DISTINCT FROM OLD.tags
+     OR NEW.is_template IS DISTINCT FROM OLD.is_template
+     OR NEW.assigned_departments IS DISTINCT FROM OLD.assigned_departments
+     OR NEW.review->'reviewers' IS DISTINCT FROM OLD.review->'reviewers'
+     OR NEW.review->'requiredApprovals' IS DISTINCT FROM OLD.review->'requiredApprovals' THEN
+    RAISE EXCEPTION 'Reviewers may only record a review decision';
+  END IF;
+
+  -- Approving reviewers publish the SOP, which stamps a new version
+  IF NEW.published_at IS DISTINCT FROM OLD.published_at AND NEW.status <> 'published' THEN
+    RAISE EXCEPTION 'Reviewers may only record a review decision';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ------------------------------------------------------------
+-- 6. Work hours: approvers see and review everyone's entries
+-- ------------------------------------------------------------
+DROP POLICY IF EXISTS "work_hours_select" ON public.work_hours;
+CREATE POLICY "work_hours_select" ON public.work_hours
+  FOR SELECT USING (
+    public.has_permission('approve_work_hours') OR employee_id = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "work_hours_update" ON public.work_hours;
+CREATE POLICY "work_hours_update" ON public.work_hours
+  FOR UPDATE USING (
+    public.has_permission('approve_work_hours') OR (employee_id = auth.uid()::text AND status = 'pending')
+  ) WITH CHECK (
+    public.has_permission('approve_work_hours') OR (employee_id = auth.uid()::text AND status = 'pending')
+  );
+
+-- ------------------------------------------------------------
+-- 7. Calendar: managers reschedule tasks and jobs and change
+--    anyone's events
+-- ------------------------------------------------------------
+DROP POLICY IF EXISTS "job_tasks_select" ON public.job_tasks;
+CREATE POLICY "job_tasks_select" ON public.job_tasks
+  FOR SELECT USING (
+    public.has_permission('manage_calendar') OR auth.uid()::text = ANY (assigned_to)
+  );
+
+DROP POLICY IF EXISTS "job_tasks_update" ON public.job_tasks;
+CREATE POLICY "job_tasks_update" ON public.job_tasks
+  FOR UPDATE USING (
+    public.has_permission('manage_calendar') OR auth.uid()::text = ANY (assigned_to)
+  ) WITH CHECK (
+    public.has_permission('manage_calendar') OR auth.uid()::text = ANY (assigned_to)
+  );
+
+DROP POLICY IF EXISTS "jobs_select" ON public.jobs;
+CREATE POLICY "jobs_select" ON public.jobs
+  FOR SELECT USING (
+    public.has_permission('manage_calendar') OR auth.uid()::text = ANY (assigned_to)
+  );
+
+DROP POLICY IF EXISTS "jobs_update" ON public.jobs;
+CREATE POLICY "jobs_update" ON public.jobs
+  FOR UPDATE USING (
+    public.has_permission('manage_calendar') OR auth.uid()::text = ANY (assigned_to)
+  ) WITH CHECK (
+    public.has_permission('manage_calendar') OR auth.uid()::text = ANY (assigned_to)
+  );
+
+-- Calendar managers who are neither admin nor assignee may only
+-- reschedule: date, time, length and the series they belong to.
+-- Updates made by other triggers (v12 unblocking dependents)
+-- pass through.
+CREATE OR REPLACE FUNCTION public.restrict_calendar_manager_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  scheduling text[];
+  job_task_scheduling text[] := ARRAY['scheduledDate', 'dueTime', 'estimatedDuration'];
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 OR public.is_admin()
+     OR auth.uid()::text = ANY (OLD.assigned_to) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'jobs' THEN
+    scheduling := ARRAY['scheduled_date', 'due_time', 'tasks', 'updated_at'];
+    -- The tasks inside a job may move, nothing else about them
+    IF (SELECT jsonb_agg(t - job_task_scheduling ORDER BY i) FROM jsonb_array_elements(NEW.tasks) WITH ORDINALITY AS x(t, i))
+       IS DISTINCT FROM
+       (SELECT jsonb_agg(t - job_task_scheduling ORDER BY i) FROM jsonb_array_elements(OLD.tasks) WITH ORDINALITY AS x(t, i)) THEN
+      RAISE EXCEPTION 'Calendar managers can only reschedule';
+    END IF;
+  ELSE
+    scheduling := ARRAY['scheduled_date', 'due_time', 'estimated_duration', 'is_recurring',
+                        'recurrence_pattern', 'series_id', 'occurrence_date', 'updated_at'];
+  END IF;
+
+  IF to_jsonb(NEW) - scheduling IS DISTINCT FROM to_jsonb(OLD) - scheduling THEN
+    RAISE EXCEPTION 'Calendar managers can only reschedule';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS job_tasks_restrict_calendar_manager ON public.job_tasks;
+CREATE TRIGGER job_tasks_restrict_calendar_manager
+  BEFORE UPDATE ON public.job_tasks
+  FOR EACH ROW EXECUTE FUNCTION public.restrict_calendar_manager_update();
+
+DROP TRIGGER IF EXISTS jobs_restrict_calendar_manager ON public.jobs;
+CREATE TRIGGER jobs_restrict_calendar_manager
+  BEFORE UPDATE ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.restrict_calendar_manager_update();
+
+DROP POLICY IF EXISTS "calendar_events_update" ON public.calendar_events;
+CREATE POLICY "calendar_events_update" ON public.calendar_events
+  FOR UPDATE USING (
+    public.has_permission('manage_calendar')
+    OR created_by = auth.uid()::text
+    OR auth.uid()::text = ANY (attendees)
+  );
+
+DROP POLICY IF EXISTS "calendar_events_delete" ON public.calendar_events;
+CREATE POLICY "calendar_events_delete" ON public.calendar_events
+  FOR DELETE USING (
+    public.has_permission('manage_calendar') OR created_by = auth.uid()::text
+  );
+
+-- ------------------------------------------------------------
+-- 8. Activity log: readable with view_activity_log
+-- ------------------------------------------------------------
+DROP POLICY IF EXISTS "Admins can view all activity logs" ON public.activity_logs;
+DROP POLICY IF EXISTS "activity_logs_select" ON public.activity_logs;
+CREATE POLICY "activity_logs_select" ON public.activity_logs
+  FOR SELECT USING (public.has_permission('view_activity_log'));
+
+-- ------------------------------------------------------------
+-- 9. Realtime: role edits reach everyone's permission checks
+-- ------------------------------------------------------------
+ALTER PUBLICATION supabase_realtime ADD TABLE public.roles;
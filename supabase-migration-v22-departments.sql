@@ -0,0 +1,203 @@
+-- ============================================================
+-- Migration v22: DEPARTMENTS AND DEPARTMENT-SCOPED VISIBILITY
+-- ============================================================
+-- Departments become a managed list (Settings > Departments)
+-- instead of free text. People can belong to several: their
+-- primary profiles.department plus profiles.departments.
+--
+-- What non-admins can read now follows membership:
+--   - SOPs:      published SOPs of their departments, SOPs shared
+--                with one of them (sops.shared_departments) and
+--                SOPs they must sign (sops.assigned_departments)
+--   - templates: task templates of their departments
+--   - tasks:     their own tasks and their departments' tasks
+--
+-- Rows still refer to departments by name, so existing SOPs,
+-- templates and tasks keep working unchanged.
+--
+-- Requires v6 (public.is_admin()), v8 (SOP review), v9 (SOP
+-- acknowledgements) and v21 (roles).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Departments table, seeded with every department in use
+-- ------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.departments (
+  id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.departments (name)
+SELECT DISTINCT department FROM (
+  SELECT department FROM public.profiles
+  UNION SELECT department FROM public.sops
+  UNION SELECT department FROM public.task_templates
+  UNION SELECT department FROM public.job_tasks
+) used
+WHERE department IS NOT NULL AND department <> ''
+ON CONFLICT (name) DO NOTHING;
+
+-- ------------------------------------------------------------
+-- 2. Extra memberships and cross-department sharing
+-- ------------------------------------------------------------
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS departments TEXT[] DEFAULT '{}';
+ALTER TABLE public.sops ADD COLUMN IF NOT EXISTS shared_departments TEXT[] DEFAULT '{}';
+
+-- ------------------------------------------------------------
+-- 3. Helpers: membership checks for policies
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.is_department_member(dept text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND (department = dept OR dept = ANY (departments))
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.is_department_member(text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.is_department_member(text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.is_member_of_any(depts text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND (department = ANY (depts) OR departments && depts)
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.is_member_of_any(text[]) FROM anon;
+GRANT EXECUTE ON FUNCTION public.is_member_of_any(text[]) TO authenticated;
+
+-- Department leads manage SOPs in any department they belong to
+CREATE OR REPLACE FUNCTION public.has_department_permission(perm text, dept text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_admin() OR (public.has_permission(perm) AND public.is_department_member(dept));
+$$;
+
+-- ------------------------------------------------------------
+-- 4. Membership decides visibility, so users cannot change
+--    their own departments
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.prevent_privilege_escalation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.role IS DISTINCT FROM OLD.role
+      OR NEW.role_id IS DISTINCT FROM OLD.role_id
+      OR NEW.department IS DISTINCT FROM OLD.department
+      OR NEW.departments IS DISTINCT FROM OLD.departments
+      OR NEW.is_active IS DISTINCT FROM OLD.is_active)
+     AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins may change role, departments or active status';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- ------------------------------------------------------------
+-- 5. RLS: everyone can read departments, only admins change them
+-- ------------------------------------------------------------
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "departments_select" ON public.departments;
+CREATE POLICY "departments_select" ON public.departments
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "departments_write" ON public.departments;
+CREATE POLICY "departments_write" ON public.departments
+  FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- ------------------------------------------------------------
+-- 6. SOPs: published SOPs only reach their own, shared and
+--    assigned departments. Reviewers (v8) and managers (v21)
+--    keep their own select policies.
+-- ------------------------------------------------------------
+DROP POLICY IF EXISTS "Users can view published SOPs in their department" ON public.sops;
+DROP POLICY IF EXISTS "sops_select" ON public.sops;
+CREATE POLICY "sops_select" ON public.sops
+  FOR SELECT USING (
+    public.is_admin()
+    OR created_by = auth.uid()
+    OR (
+      status = 'published' AND public.is_member_of_any(
+        ARRAY[department] || COALESCE(shared_departments, '{}') || COALESCE(assigned_departments, '{}')
+      )
+    )
+  );
+
+-- Reviewers may not reshare the SOP either
+CREATE OR REPLACE FUNCTION public.restrict_reviewer_sop_updates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.has_department_permission('manage_sops', OLD.department)
+     AND public.has_department_permission('manage_sops', NEW.department) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title
+     OR NEW.description IS DISTINCT FROM OLD.description
+     OR NEW.department IS DISTINCT FROM OLD.department
+     OR NEW.category IS DISTINCT FROM OLD.category
+     OR NEW.steps IS DISTINCT FROM OLD.steps
+     OR NEW.tags IS DISTINCT FROM OLD.tags
+     OR NEW.is_template IS DISTINCT FROM OLD.is_template
+     OR NEW.assigned_departments IS DISTINCT FROM OLD.assigned_departments
+     OR NEW.shared_departments IS DISTINCT FROM OLD.shared_departments
+     OR NEW.review->'reviewers' IS DISTINCT FROM OLD.review->'reviewers'
+     OR NEW.review->'requiredApprovals' IS DISTINCT FROM OLD.review->'requiredApprovals' THEN
+    RAISE EXCEPTION 'Reviewers may only record a review decision';
+  END IF;
+
+  -- Approving reviewers publish the SOP, which stamps a new version
+  IF NEW.published_at IS DISTINCT FROM OLD.published_at AND NEW.status <> 'published' THEN
+    RAISE EXCEPTION 'Reviewers may only record a review decision';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ------------------------------------------------------------
+-- 7. Task templates and tasks: their departments only
+-- ------------------------------------------------------------
+DROP POLICY IF EXISTS "task_templates_select" ON public.task_templates;
+CREATE POLICY "task_templates_select" ON public.task_templates
+  FOR SELECT USING (public.is_admin() OR public.is_department_member(department));
+
+DROP POLICY IF EXISTS "job_tasks_select" ON public.job_tasks;
+CREATE POLICY "job_tasks_select" ON public.job_tasks
+  FOR SELECT USING (
+    public.has_permission('manage_calendar')
+    OR auth.uid()::text = ANY (assigned_to)
+    OR public.is_department_member(department)
+  );
+
+-- ------------------------------------------------------------
+-- 8. Realtime: new departments reach every picker
+-- ------------------------------------------------------------
+ALTER PUBLICATION supabase_realtime ADD TABLE public.departments;
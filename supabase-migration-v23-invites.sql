@@ -0,0 +1,143 @@
+-- ============================================================
+-- Migration v23: INVITE LINKS
+-- ============================================================
+-- Admins no longer type a password for new people. They create
+-- an invite (name, email, role, departments); api/send-emails.ts
+-- mails its link, and the invitee chooses their own password on
+-- /invite/<token>. Links expire after 7 days; resending issues a
+-- new token and revoking stops the link.
+--
+-- Signing up with a valid invite_token in the user metadata gives
+-- the new profile the invite's role and departments. Anyone else
+-- who signs up is a plain team member outside every department
+-- until an admin places them.
+--
+-- Requires v6 (public.is_admin()), v18 (email_templates), v21
+-- (roles) and v22 (departments).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Invites
+-- ------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email TEXT NOT NULL,
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'team' CHECK (role IN ('admin', 'team')),
+  role_id TEXT REFERENCES public.roles(id) ON DELETE SET NULL,
+  department TEXT NOT NULL,
+  departments TEXT[] DEFAULT '{}',
+  token TEXT NOT NULL UNIQUE,
+  invited_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  email_sent_at TIMESTAMP WITH TIME ZONE,   -- Stamped by api/send-emails.ts
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_user_id TEXT,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_invites_email ON public.invites (lower(email));
+
+-- The sender looks for links it has not mailed yet
+CREATE INDEX IF NOT EXISTS idx_invites_unsent ON public.invites (email_sent_at)
+  WHERE email_sent_at IS NULL AND accepted_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE public.invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "invites_admin" ON public.invites;
+CREATE POLICY "invites_admin" ON public.invites
+  FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- ------------------------------------------------------------
+-- 2. The acceptance page reads its invite signed out, by token
+--    only, and sees nothing else
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_invite(invite_token text)
+RETURNS TABLE (email text, first_name text, last_name text, department text, expires_at timestamp with time zone)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.email, i.first_name, i.last_name, i.department, i.expires_at
+  FROM public.invites i
+  WHERE i.token = invite_token
+    AND i.accepted_at IS NULL
+    AND i.revoked_at IS NULL
+    AND i.expires_at > NOW();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_invite(text) TO anon, authenticated;
+
+-- ------------------------------------------------------------
+-- 3. New users take role and departments from their invite.
+--    The token must match the email the user signed up with.
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inv public.invites%ROWTYPE;
+BEGIN
+  SELECT * INTO inv FROM public.invites
+  WHERE token = NEW.raw_user_meta_data->>'invite_token'
+    AND lower(email) = lower(NEW.email)
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+  FOR UPDATE;
+
+  IF FOUND THEN
+    INSERT INTO public.profiles (id, email, first_name, last_name, role, role_id, department, departments, invited_by, is_active)
+    VALUES (
+      NEW.id,
+      NEW.email,
+      inv.first_name,
+      inv.last_name,
+      inv.role,
+      inv.role_id,
+      inv.department,
+      COALESCE(inv.departments, '{}'),
+      inv.invited_by::uuid,
+      true
+    )
+    ON CONFLICT (id) DO NOTHING;
+
+    UPDATE public.invites
+      SET accepted_at = NOW(), accepted_user_id = NEW.id::text
+      WHERE id = inv.id;
+  ELSE
+    INSERT INTO public.profiles (id, email, first_name, last_name, role, department, is_active)
+    VALUES (
+      NEW.id,
+      NEW.email,
+      COALESCE(NEW.raw_user_meta_data->>'first_name', ''),
+      COALESCE(NEW.raw_user_meta_data->>'last_name', ''),
+      'team',     -- hardcoded: role is never client-controlled
+      'General',  -- departments decide visibility (v22), so neither is the department
+      true
+    )
+    ON CONFLICT (id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ------------------------------------------------------------
+-- 4. Editable invitation email
+-- ------------------------------------------------------------
+ALTER TABLE public.email_templates DROP CONSTRAINT IF EXISTS email_templates_id_check;
+ALTER TABLE public.email_templates ADD CONSTRAINT email_templates_id_check
+  CHECK (id IN ('task_assigned', 'overdue_alert', 'daily_digest', 'event_reminder', 'invite'));
+
+-- ------------------------------------------------------------
+-- 5. Realtime: accepted invites leave the admins' pending list
+-- ------------------------------------------------------------
+ALTER PUBLICATION supabase_realtime ADD TABLE public.invites;
@@ -0,0 +1,210 @@
+-- ============================================================
+-- Migration v24: SIGN-IN LINKS AND SINGLE SIGN-ON
+-- ============================================================
+-- Besides passwords, people can sign in with an emailed one-time
+-- link or through Google Workspace or Microsoft Entra ID. Admins
+-- choose the methods in Settings > Sign-In Methods; they are kept
+-- in the organization_settings row (v16).
+--
+-- The first single sign-on creates the profile: with the role and
+-- department of a pending invite for that email, otherwise with
+-- the configured default role and department. Only emails in the
+-- allowed domains may join that way.
+--
+-- When single sign-on is required, everyone but admins must use
+-- it. Admins keep their password so a provider outage cannot lock
+-- the organization out.
+--
+-- After running this, in the Supabase dashboard:
+--   - enable the Google and/or Azure providers under
+--     Authentication > Providers
+--   - add <site>/auth/sign-in under Authentication > URL
+--     Configuration > Redirect URLs
+--   - choose public.enforce_login_settings under Authentication >
+--     Hooks > Customize Access Token, which turns away sign-in
+--     links when they are off, single sign-on from other domains,
+--     and passwords and links when single sign-on is required
+--
+-- Requires v16 (organization_settings), v21 (roles), v22
+-- (departments) and v23 (invites).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Login settings
+-- ------------------------------------------------------------
+ALTER TABLE public.organization_settings
+  ADD COLUMN IF NOT EXISTS sso_providers TEXT[] DEFAULT '{}'
+    CHECK (sso_providers <@ ARRAY['google', 'azure']),
+  ADD COLUMN IF NOT EXISTS allowed_email_domains TEXT[] DEFAULT '{}',   -- Lowercase, without '@'; empty allows any
+  ADD COLUMN IF NOT EXISTS sso_default_role_id TEXT REFERENCES public.roles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS sso_default_department TEXT DEFAULT 'General',
+  ADD COLUMN IF NOT EXISTS magic_link_enabled BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS sso_required BOOLEAN DEFAULT false;
+
+-- ------------------------------------------------------------
+-- 2. The sign-in page reads its options signed out and sees
+--    nothing else of the settings
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_login_options()
+RETURNS TABLE (sso_providers text[], allowed_email_domains text[], magic_link_enabled boolean, sso_required boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(s.sso_providers, '{}'),
+    COALESCE(s.allowed_email_domains, '{}'),
+    COALESCE(s.magic_link_enabled, false),
+    COALESCE(s.sso_required, false) AND cardinality(s.sso_providers) > 0
+  FROM public.organization_settings s
+  WHERE s.id = 'default';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_login_options() TO anon, authenticated;
+
+-- ------------------------------------------------------------
+-- 3. New users: invite, then single sign-on, then plain signup.
+--    Identity providers verify the email, so single sign-on also
+--    takes up a pending invite for it.
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inv public.invites%ROWTYPE;
+  settings public.organization_settings%ROWTYPE;
+  provider text := COALESCE(NEW.raw_app_meta_data->>'provider', 'email');
+  is_sso boolean;
+  full_name text := COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'name', '');
+BEGIN
+  SELECT * INTO settings FROM public.organization_settings WHERE id = 'default';
+  is_sso := provider = ANY (COALESCE(settings.sso_providers, '{}'));
+
+  SELECT * INTO inv FROM public.invites
+  WHERE (token = NEW.raw_user_meta_data->>'invite_token' OR is_sso)
+    AND lower(email) = lower(NEW.email)
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    INSERT INTO public.profiles (id, email, first_name, last_name, role, role_id, department, departments, invited_by, is_active)
+    VALUES (
+      NEW.id,
+      NEW.email,
+      inv.first_name,
+      inv.last_name,
+      inv.role,
+      inv.role_id,
+      inv.department,
+      COALESCE(inv.departments, '{}'),
+      inv.invited_by::uuid,
+      true
+    )
+    ON CONFLICT (id) DO NOTHING;
+
+    UPDATE public.invites
+      SET accepted_at = NOW(), accepted_user_id = NEW.id::text
+      WHERE id = inv.id;
+  ELSIF is_sso THEN
+    IF cardinality(settings.allowed_email_domains) > 0
+       AND NOT lower(split_part(NEW.email, '@', 2)) = ANY (settings.allowed_email_domains) THEN
+      RAISE EXCEPTION 'Email domain % may not sign in with single sign-on', split_part(NEW.email, '@', 2);
+    END IF;
+
+    INSERT INTO public.profiles (id, email, first_name, last_name, role, role_id, department, is_active)
+    VALUES (
+      NEW.id,
+      NEW.email,
+      COALESCE(NEW.raw_user_meta_data->>'given_name', split_part(full_name, ' ', 1)),
+      COALESCE(NEW.raw_user_meta_data->>'family_name', regexp_replace(full_name, '^\S+\s*', '')),
+      'team',     -- never admin, whatever the identity provider says
+      settings.sso_default_role_id,
+      COALESCE(settings.sso_default_department, 'General'),
+      true
+    )
+    ON CONFLICT (id) DO NOTHING;
+  ELSIF provider <> 'email' THEN
+    RAISE EXCEPTION 'Sign-in with % is turned off', provider;
+  ELSE
+    INSERT INTO public.profiles (id, email, first_name, last_name, role, department, is_active)
+    VALUES (
+      NEW.id,
+      NEW.email,
+      COALESCE(NEW.raw_user_meta_data->>'first_name', ''),
+      COALESCE(NEW.raw_user_meta_data->>'last_name', ''),
+      'team',     -- hardcoded: role is never client-controlled
+      'General',  -- departments decide visibility (v22), so neither is the department
+      true
+    )
+    ON CONFLICT (id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ------------------------------------------------------------
+-- 4. Access token hook: no session from a sign-in link when
+--    links are off, from single sign-on outside the allowed
+--    domains, or from a password or link for anyone but admins
+--    when single sign-on is required
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.enforce_login_settings(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings public.organization_settings%ROWTYPE;
+  method text := event->>'authentication_method';
+  email_domain text;
+BEGIN
+  SELECT * INTO settings FROM public.organization_settings WHERE id = 'default';
+
+  IF method IN ('otp', 'magiclink') AND NOT COALESCE(settings.magic_link_enabled, false) THEN
+    RETURN jsonb_build_object(
+      'error', jsonb_build_object('http_code', 403, 'message', 'Sign-in links are turned off')
+    );
+  END IF;
+
+  IF method = 'oauth' AND cardinality(COALESCE(settings.allowed_email_domains, '{}')) > 0 THEN
+    SELECT lower(split_part(email, '@', 2)) INTO email_domain
+    FROM auth.users
+    WHERE id = (event->>'user_id')::uuid;
+
+    IF email_domain IS NULL OR NOT email_domain = ANY (settings.allowed_email_domains) THEN
+      RETURN jsonb_build_object(
+        'error', jsonb_build_object('http_code', 403, 'message', 'Sign in with your work account')
+      );
+    END IF;
+  END IF;
+
+  IF COALESCE(settings.sso_required, false) AND cardinality(COALESCE(settings.sso_providers, '{}')) > 0
+     AND method IN ('password', 'otp', 'magiclink')
+     AND NOT EXISTS (
+       SELECT 1 FROM public.profiles
+       WHERE id = (event->>'user_id')::uuid AND role = 'admin'
+     ) THEN
+    RETURN jsonb_build_object(
+      'error', jsonb_build_object('http_code', 403, 'message', 'Your organization signs in with single sign-on')
+    );
+  END IF;
+
+  RETURN event;
+END;
+$$;
+
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION public.enforce_login_settings(jsonb) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.enforce_login_settings(jsonb) FROM authenticated, anon, public;
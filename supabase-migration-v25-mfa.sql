@@ -0,0 +1,293 @@
+-- ============================================================
+-- Migration v25: TWO-FACTOR SIGN-IN
+-- ============================================================
+-- People can add an authenticator app (TOTP, through Supabase
+-- Auth MFA) on their profile and get ten one-time recovery codes.
+--
+-- Once someone has an authenticator, their session only counts
+-- as admin after they entered a code (aal2). Removing someone,
+-- changing a role or its permissions, deleting audit logs and
+-- Clear All Data also need a code from the last 10 minutes
+-- (step-up). The app asks for one first; the database checks
+-- it again, Clear All Data through clear_all_data().
+--
+-- Admins can require two-factor for every admin (Settings >
+-- Sign-In Methods). Admins without an authenticator then have
+-- no admin rights until they set one up.
+--
+-- TOTP is on by default under Authentication > Multi-Factor in
+-- the Supabase dashboard.
+--
+-- Requires v6 (public.is_admin()), v16 (organization_settings),
+-- v21 (roles) and v22 (departments).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Setting
+-- ------------------------------------------------------------
+ALTER TABLE public.organization_settings
+  ADD COLUMN IF NOT EXISTS mfa_required_for_admins BOOLEAN DEFAULT false;
+
+-- The sign-in page needs to know too; the return type changes
+DROP FUNCTION IF EXISTS public.get_login_options();
+CREATE FUNCTION public.get_login_options()
+RETURNS TABLE (
+  sso_providers text[],
+  allowed_email_domains text[],
+  magic_link_enabled boolean,
+  sso_required boolean,
+  mfa_required_for_admins boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(s.sso_providers, '{}'),
+    COALESCE(s.allowed_email_domains, '{}'),
+    COALESCE(s.magic_link_enabled, false),
+    COALESCE(s.sso_required, false) AND cardinality(s.sso_providers) > 0,
+    COALESCE(s.mfa_required_for_admins, false)
+  FROM public.organization_settings s
+  WHERE s.id = 'default';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_login_options() TO anon, authenticated;
+
+-- ------------------------------------------------------------
+-- 2. Recovery codes, stored as SHA-256 hashes. No policies:
+--    only the functions in section 4 read or write them.
+-- ------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user ON public.mfa_recovery_codes (user_id);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- ------------------------------------------------------------
+-- 3. Helpers
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.has_verified_mfa()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM auth.mfa_factors
+    WHERE user_id = auth.uid() AND status = 'verified'
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.has_verified_mfa() FROM anon;
+GRANT EXECUTE ON FUNCTION public.has_verified_mfa() TO authenticated;
+
+-- A second factor entered in this session within max_age
+CREATE OR REPLACE FUNCTION public.has_recent_mfa(max_age interval DEFAULT interval '10 minutes')
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2' AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(auth.jwt()->'amr', '[]'::jsonb)) AS entry
+    WHERE entry->>'method' IN ('totp', 'mfa/totp')
+      AND to_timestamp((entry->>'timestamp')::double precision) > NOW() - max_age
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.has_recent_mfa(interval) FROM anon;
+GRANT EXECUTE ON FUNCTION public.has_recent_mfa(interval) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.is_mfa_required_for_admins()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT mfa_required_for_admins FROM public.organization_settings WHERE id = 'default'),
+    false
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.is_mfa_required_for_admins() FROM anon;
+GRANT EXECUTE ON FUNCTION public.is_mfa_required_for_admins() TO authenticated;
+
+-- Admin rights wait for the second factor once there is one,
+-- and always when two-factor is required for admins
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND role = 'admin' AND is_active IS NOT FALSE
+  ) AND (
+    COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2'
+    OR (NOT public.has_verified_mfa() AND NOT public.is_mfa_required_for_admins())
+  );
+$$;
+
+-- Step-up: a fresh code from anyone who has an authenticator or
+-- must have one
+CREATE OR REPLACE FUNCTION public.passes_step_up()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_recent_mfa()
+    OR (NOT public.has_verified_mfa() AND NOT public.is_mfa_required_for_admins());
+$$;
+
+REVOKE ALL ON FUNCTION public.passes_step_up() FROM anon;
+GRANT EXECUTE ON FUNCTION public.passes_step_up() TO authenticated;
+
+-- ------------------------------------------------------------
+-- 4. Recovery code functions
+-- ------------------------------------------------------------
+-- New codes replace the old ones, right after a code was entered
+CREATE OR REPLACE FUNCTION public.replace_mfa_recovery_codes(code_hashes text[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_recent_mfa() THEN
+    RAISE EXCEPTION 'Enter an authenticator code first';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = auth.uid();
+  INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+  SELECT auth.uid(), hash FROM unnest(code_hashes) AS hash;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_mfa_recovery_codes()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer FROM public.mfa_recovery_codes
+  WHERE user_id = auth.uid() AND used_at IS NULL;
+$$;
+
+-- A recovery code removes the user's authenticators, so they can
+-- continue with their password alone and set up a new one
+CREATE OR REPLACE FUNCTION public.redeem_mfa_recovery_code(recovery_hash text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  code_id uuid;
+BEGIN
+  SELECT id INTO code_id FROM public.mfa_recovery_codes
+  WHERE user_id = auth.uid() AND code_hash = recovery_hash AND used_at IS NULL
+  LIMIT 1
+  FOR UPDATE;
+
+  IF code_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.mfa_recovery_codes SET used_at = NOW() WHERE id = code_id;
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = auth.uid() AND used_at IS NULL;
+  DELETE FROM auth.mfa_factors WHERE user_id = auth.uid();
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.replace_mfa_recovery_codes(text[]) FROM anon;
+REVOKE ALL ON FUNCTION public.count_mfa_recovery_codes() FROM anon;
+REVOKE ALL ON FUNCTION public.redeem_mfa_recovery_code(text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.replace_mfa_recovery_codes(text[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.count_mfa_recovery_codes() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_mfa_recovery_code(text) TO authenticated;
+
+-- ------------------------------------------------------------
+-- 5. Step-up for role changes and removing people (the app
+--    removes people by deactivating them)
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.prevent_privilege_escalation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.role IS DISTINCT FROM OLD.role
+      OR NEW.role_id IS DISTINCT FROM OLD.role_id
+      OR NEW.department IS DISTINCT FROM OLD.department
+      OR NEW.departments IS DISTINCT FROM OLD.departments
+      OR NEW.is_active IS DISTINCT FROM OLD.is_active)
+     AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins may change role, departments or active status';
+  END IF;
+
+  IF (NEW.role IS DISTINCT FROM OLD.role
+      OR NEW.role_id IS DISTINCT FROM OLD.role_id
+      OR (NEW.is_active IS FALSE AND OLD.is_active IS NOT FALSE))
+     AND NOT public.passes_step_up() THEN
+    RAISE EXCEPTION 'Confirm with your authenticator code first';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY IF EXISTS "roles_write" ON public.roles;
+CREATE POLICY "roles_write" ON public.roles
+  FOR ALL USING (public.is_admin() AND public.passes_step_up())
+  WITH CHECK (public.is_admin() AND public.passes_step_up());
+
+DROP POLICY IF EXISTS "activity_logs_delete_admin" ON public.activity_logs;
+CREATE POLICY "activity_logs_delete_admin" ON public.activity_logs
+  FOR DELETE USING (public.is_admin() AND public.passes_step_up());
+
+-- ------------------------------------------------------------
+-- 6. Clear All Data (Settings > Data) deletes every SOP, task
+--    and template in one call, after the same step-up
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.clear_all_data()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins may clear all data';
+  END IF;
+  IF NOT public.passes_step_up() THEN
+    RAISE EXCEPTION 'Confirm with your authenticator code first';
+  END IF;
+
+  DELETE FROM public.job_tasks WHERE true;
+  DELETE FROM public.task_templates WHERE true;
+  DELETE FROM public.sops WHERE true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.clear_all_data() FROM anon;
+GRANT EXECUTE ON FUNCTION public.clear_all_data() TO authenticated;
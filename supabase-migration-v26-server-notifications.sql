@@ -0,0 +1,239 @@
+-- ============================================================
+-- Migration v26: NOTIFICATIONS CREATED ON THE SERVER
+-- ============================================================
+-- v19 let anyone signed in insert notifications for anyone,
+-- with any title and body, as long as actor_id was their own.
+-- That made the bell a way to send convincing fake messages.
+--
+-- The app now calls create_notifications() with only who to
+-- notify, the notification type and what it links to. The
+-- function:
+--   - takes the actor from the session and their name from
+--     profiles
+--   - writes the title from the type, and the body from the
+--     task, job, SOP, event or comment itself
+--   - skips recipients who cannot see what it links to, or who
+--     the action is not about (e.g. "assigned you a task" only
+--     reaches people the task is assigned to)
+-- and the client insert policy is dropped.
+--
+-- Requires v19 (notifications), v20 (comments), v21 (roles)
+-- and v22 (departments).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Helpers: the select policies, for a given user instead of
+--    the caller
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.user_has_permission(uid uuid, perm text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles p
+    LEFT JOIN public.roles r ON r.id = p.role_id
+    WHERE p.id = uid AND p.is_active IS NOT FALSE
+      AND (p.role = 'admin' OR perm = ANY (r.permissions))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_user_see_entity(uid uuid, kind text, target text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  who public.profiles%ROWTYPE;
+  member_of text[];
+BEGIN
+  SELECT * INTO who FROM public.profiles WHERE id = uid AND is_active IS NOT FALSE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+  IF who.role = 'admin' THEN
+    RETURN true;
+  END IF;
+
+  member_of := ARRAY[who.department] || COALESCE(who.departments, '{}');
+
+  CASE kind
+    WHEN 'task' THEN
+      RETURN EXISTS (
+        SELECT 1 FROM public.job_tasks t
+        WHERE t.id::text = target AND (
+          uid::text = ANY (t.assigned_to)
+          OR t.department = ANY (member_of)
+          OR public.user_has_permission(uid, 'manage_calendar')
+        )
+      );
+    WHEN 'job' THEN
+      RETURN EXISTS (
+        SELECT 1 FROM public.jobs j
+        WHERE j.id::text = target AND (
+          uid::text = ANY (j.assigned_to)
+          OR public.user_has_permission(uid, 'manage_calendar')
+        )
+      );
+    WHEN 'sop' THEN
+      RETURN EXISTS (
+        SELECT 1 FROM public.sops s
+        WHERE s.id::text = target AND (
+          s.created_by = uid
+          OR COALESCE(s.review->'reviewers' ? uid::text, false)
+          OR (s.status = 'published'
+              AND (ARRAY[s.department] || COALESCE(s.shared_departments, '{}') || COALESCE(s.assigned_departments, '{}')) && member_of)
+          OR (public.user_has_permission(uid, 'manage_sops') AND s.department = ANY (member_of))
+        )
+      );
+    WHEN 'event' THEN
+      RETURN EXISTS (SELECT 1 FROM public.calendar_events e WHERE e.id = target);
+    ELSE
+      RETURN false;
+  END CASE;
+END;
+$$;
+
+-- Only for create_notifications: they would tell anyone what others can see
+REVOKE ALL ON FUNCTION public.user_has_permission(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.can_user_see_entity(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+-- ------------------------------------------------------------
+-- 2. create_notifications(drafts): drafts is a JSON array of
+--    {user_id, type, entity_type, entity_id}. Returns how many
+--    were created.
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.create_notifications(drafts jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  actor_name text;
+  draft jsonb;
+  recipient text;
+  kind text;
+  target text;
+  entity_title text;
+  latest_comment public.comments%ROWTYPE;
+  about_recipient boolean;
+  notification_title text;
+  notification_body text;
+  created integer := 0;
+BEGIN
+  IF actor IS NULL THEN
+    RAISE EXCEPTION 'Sign in first';
+  END IF;
+
+  SELECT trim(COALESCE(first_name, '') || ' ' || COALESCE(last_name, ''))
+  INTO actor_name
+  FROM public.profiles WHERE id = actor AND is_active IS NOT FALSE;
+  IF actor_name IS NULL THEN
+    RAISE EXCEPTION 'Only active users can notify others';
+  END IF;
+
+  FOR draft IN SELECT * FROM jsonb_array_elements(COALESCE(drafts, '[]'::jsonb)) LOOP
+    recipient := draft->>'user_id';
+    kind := draft->>'entity_type';
+    target := draft->>'entity_id';
+
+    CONTINUE WHEN recipient IS NULL OR target IS NULL OR recipient = actor::text;
+    CONTINUE WHEN recipient !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+    CONTINUE WHEN NOT public.can_user_see_entity(actor, kind, target)
+      OR NOT public.can_user_see_entity(recipient::uuid, kind, target);
+
+    entity_title := CASE kind
+      WHEN 'task' THEN (SELECT title FROM public.job_tasks WHERE id::text = target)
+      WHEN 'job' THEN (SELECT title FROM public.jobs WHERE id::text = target)
+      WHEN 'sop' THEN (SELECT title FROM public.sops WHERE id::text = target)
+      WHEN 'event' THEN (SELECT title FROM public.calendar_events WHERE id = target)
+    END;
+    notification_body := entity_title;
+    about_recipient := false;
+
+    CASE draft->>'type'
+      WHEN 'task_assigned' THEN
+        about_recipient := kind = 'task' AND EXISTS (
+          SELECT 1 FROM public.job_tasks WHERE id::text = target AND recipient = ANY (assigned_to)
+        );
+        notification_title := actor_name || ' assigned you a task';
+      WHEN 'task_completed' THEN
+        about_recipient := kind = 'task' AND EXISTS (
+          SELECT 1 FROM public.job_tasks WHERE id::text = target AND assigned_by = recipient
+        );
+        notification_title := actor_name || ' completed a task';
+      WHEN 'sop_review_requested' THEN
+        about_recipient := kind = 'sop' AND EXISTS (
+          SELECT 1 FROM public.sops WHERE id::text = target AND COALESCE(review->'reviewers' ? recipient, false)
+        );
+        notification_title := actor_name || ' asked you to review an SOP';
+      WHEN 'sop_reviewed' THEN
+        about_recipient := kind = 'sop' AND EXISTS (
+          SELECT 1 FROM public.sops WHERE id::text = target AND review->>'submittedBy' = recipient
+        );
+        -- The reviewer's latest decision, recorded before the notification
+        notification_title := actor_name || CASE (
+          SELECT d->>'decision'
+          FROM public.sops s, jsonb_array_elements(COALESCE(s.review->'decisions', '[]'::jsonb)) AS d
+          WHERE s.id::text = target AND d->>'reviewerId' = actor::text
+          ORDER BY d->>'createdAt' DESC
+          LIMIT 1
+        )
+          WHEN 'approved' THEN ' approved your SOP'
+          ELSE ' requested changes to your SOP'
+        END;
+      WHEN 'sop_acknowledgement_requested' THEN
+        about_recipient := kind = 'sop';
+        notification_title := actor_name || ' asked you to sign off an SOP';
+      WHEN 'event_invited' THEN
+        about_recipient := kind = 'event' AND EXISTS (
+          SELECT 1 FROM public.calendar_events WHERE id = target AND recipient = ANY (attendees)
+        );
+        notification_title := actor_name || ' invited you to an event';
+      WHEN 'comment_mention', 'comment_reply' THEN
+        SELECT * INTO latest_comment FROM public.comments
+        WHERE entity_type = kind AND entity_id = target AND user_id = actor::text AND deleted_at IS NULL
+        ORDER BY GREATEST(created_at, COALESCE(edited_at, created_at)) DESC
+        LIMIT 1;
+
+        IF latest_comment.id IS NOT NULL THEN
+          notification_body := left(latest_comment.text, 140);
+          IF draft->>'type' = 'comment_mention' THEN
+            about_recipient := recipient = ANY (latest_comment.mentions);
+            notification_title := actor_name || ' mentioned you on ' || COALESCE(entity_title, 'a ' || kind);
+          ELSE
+            about_recipient := EXISTS (
+              SELECT 1 FROM public.comments WHERE id = latest_comment.parent_id AND user_id = recipient
+            );
+            notification_title := actor_name || ' replied to your comment on ' || COALESCE(entity_title, 'a ' || kind);
+          END IF;
+        END IF;
+      ELSE
+        about_recipient := false;
+    END CASE;
+
+    CONTINUE WHEN NOT about_recipient;
+
+    INSERT INTO public.notifications (user_id, type, title, body, entity_type, entity_id, actor_id, actor_name)
+    VALUES (recipient, draft->>'type', notification_title, notification_body, kind, target, actor::text, actor_name);
+    created := created + 1;
+  END LOOP;
+
+  RETURN created;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_notifications(jsonb) FROM anon;
+GRANT EXECUTE ON FUNCTION public.create_notifications(jsonb) TO authenticated;
+
+-- ------------------------------------------------------------
+-- 3. No more direct inserts
+-- ------------------------------------------------------------
+DROP POLICY IF EXISTS "notifications_insert" ON public.notifications;
@@ -0,0 +1,74 @@
+-- ============================================================
+-- Migration v7: SOP VERSION HISTORY
+-- ============================================================
+-- Every save of an SOP writes an immutable snapshot to
+-- sop_revisions. Restoring an old version writes a NEW revision;
+-- rows are never updated or deleted by the app. The database
+-- numbers revisions, so two people saving at once cannot both
+-- claim the same number.
+--
+-- Requires v6 (public.is_admin()).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.sop_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  tags TEXT[] DEFAULT '{}',
+  status TEXT NOT NULL,
+  author_id TEXT NOT NULL,
+  author_name TEXT NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (sop_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sop_revisions_sop_id ON public.sop_revisions (sop_id, revision_number DESC);
+
+-- ------------------------------------------------------------
+-- Numbering: each insert takes the next number for its SOP.
+-- Locking the SOP row makes concurrent saves wait their turn.
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.assign_sop_revision_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM public.sops WHERE id = NEW.sop_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1
+  INTO NEW.revision_number
+  FROM public.sop_revisions
+  WHERE sop_id = NEW.sop_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sop_revisions_number ON public.sop_revisions;
+CREATE TRIGGER sop_revisions_number
+  BEFORE INSERT ON public.sop_revisions
+  FOR EACH ROW EXECUTE FUNCTION public.assign_sop_revision_number();
+
+-- ------------------------------------------------------------
+-- RLS: anyone who can see the SOP can see its history; only
+-- admins write. No UPDATE/DELETE policies — revisions are
+-- immutable (they go away only when the SOP itself is deleted).
+-- ------------------------------------------------------------
+ALTER TABLE public.sop_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "sop_revisions_select" ON public.sop_revisions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.sops s WHERE s.id = sop_id)
+  );
+
+CREATE POLICY "sop_revisions_insert" ON public.sop_revisions
+  FOR INSERT WITH CHECK (
+    public.is_admin() AND author_id = auth.uid()::text
+  );
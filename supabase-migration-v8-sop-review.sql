@@ -0,0 +1,96 @@
+-- ============================================================
+-- Migration v8: SOP APPROVAL WORKFLOW
+-- ============================================================
+-- Adds the 'in_review' status and a JSONB review column holding
+-- { reviewers, requiredApprovals, decisions, submittedBy,
+--   submittedAt }. Named reviewers (who may be team members) can
+-- read SOPs they review and record a decision, but may not touch
+-- any other column.
+--
+-- Requires v6 (public.is_admin()).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Status + review state
+-- ------------------------------------------------------------
+ALTER TABLE public.sops DROP CONSTRAINT IF EXISTS sops_status_check;
+ALTER TABLE public.sops
+  ADD CONSTRAINT sops_status_check
+  CHECK (status IN ('draft', 'in_review', 'published', 'archived'));
+
+ALTER TABLE public.sops ADD COLUMN IF NOT EXISTS review JSONB;
+
+-- ------------------------------------------------------------
+-- 2. Helper: is the caller a named reviewer of this SOP?
+-- ------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.is_sop_reviewer(sop_review JSONB)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(sop_review->'reviewers' ? auth.uid()::text, false);
+$$;
+
+-- ------------------------------------------------------------
+-- 3. RLS: reviewers can see and review SOPs assigned to them
+-- ------------------------------------------------------------
+DROP POLICY IF EXISTS "sops_select_reviewer" ON public.sops;
+CREATE POLICY "sops_select_reviewer" ON public.sops
+  FOR SELECT USING (public.is_sop_reviewer(review));
+
+DROP POLICY IF EXISTS "sops_update_reviewer" ON public.sops;
+CREATE POLICY "sops_update_reviewer" ON public.sops
+  FOR UPDATE USING (
+    status = 'in_review' AND public.is_sop_reviewer(review)
+  ) WITH CHECK (
+    status IN ('in_review', 'draft', 'published') AND public.is_sop_reviewer(review)
+  );
+
+-- Non-admin reviewers may only change status and review.
+CREATE OR REPLACE FUNCTION public.restrict_reviewer_sop_updates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title
+     OR NEW.description IS DISTINCT FROM OLD.description
+     OR NEW.department IS DISTINCT FROM OLD.department
+     OR NEW.category IS DISTINCT FROM OLD.category
+     OR NEW.steps IS DISTINCT FROM OLD.steps
+     OR NEW.tags IS DISTINCT FROM OLD.tags
+     OR NEW.is_template IS DISTINCT FROM OLD.is_template
+     OR NEW.review->'reviewers' IS DISTINCT FROM OLD.review->'reviewers'
+     OR NEW.review->'requiredApprovals' IS DISTINCT FROM OLD.review->'requiredApprovals' THEN
+    RAISE EXCEPTION 'Reviewers may only record a review decision';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_restrict_reviewer_sop_updates ON public.sops;
+CREATE TRIGGER trg_restrict_reviewer_sop_updates
+  BEFORE UPDATE ON public.sops
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_reviewer_sop_updates();
+
+-- Reviewers publishing via approval also write a revision row
+DROP POLICY IF EXISTS "sop_revisions_insert" ON public.sop_revisions;
+CREATE POLICY "sop_revisions_insert" ON public.sop_revisions
+  FOR INSERT WITH CHECK (
+    author_id = auth.uid()::text AND (
+      public.is_admin() OR EXISTS (
+        SELECT 1 FROM public.sops s
+        WHERE s.id = sop_id AND public.is_sop_reviewer(s.review)
+      )
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_sops_review_reviewers ON public.sops USING GIN ((review->'reviewers'));
@@ -0,0 +1,116 @@
+-- ============================================================
+-- Migration v9: SOP READ-ACKNOWLEDGEMENT / SIGN-OFF
+-- ============================================================
+-- Staff in an SOP's assigned departments sign each published
+-- version ("I have read and understood"). published_at marks the
+-- current version; signatures with an older version_published_at
+-- are outdated and must be given again. Admins can send reminders,
+-- which show up on the recipient's Alerts page.
+--
+-- Requires v6 (public.is_admin()).
+-- Run in the Supabase SQL editor as the postgres role.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Version + assignment on SOPs
+-- ------------------------------------------------------------
+ALTER TABLE public.sops ADD COLUMN IF NOT EXISTS assigned_departments TEXT[] DEFAULT '{}';
+ALTER TABLE public.sops ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing published SOPs count as published at their last update
+UPDATE public.sops
+  SET published_at = COALESCE(updated_at, created_at)
+  WHERE status = 'published' AND published_at IS NULL;
+
+-- ------------------------------------------------------------
+-- 2. Acknowledgements (append-only)
+-- ------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.sop_acknowledgements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  user_name TEXT NOT NULL,
+  version_published_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  acknowledged_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (sop_id, user_id, version_published_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sop_acknowledgements_sop_id ON public.sop_acknowledgements (sop_id);
+CREATE INDEX IF NOT EXISTS idx_sop_acknowledgements_user_id ON public.sop_acknowledgements (user_id);
+
+ALTER TABLE public.sop_acknowledgements ENABLE ROW LEVEL SECURITY;
+
+-- Staff see their own signatures; admins see everyone's
+CREATE POLICY "sop_acknowledgements_select" ON public.sop_acknowledgements
+  FOR SELECT USING (
+    public.is_admin() OR user_id = auth.uid()::text
+  );
+
+-- Users can only sign for themselves, and only published SOPs
+CREATE POLICY "sop_acknowledgements_insert" ON public.sop_acknowledgements
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()::text AND EXISTS (
+      SELECT 1 FROM public.sops s
+      WHERE s.id = sop_id AND s.status = 'published'
+    )
+  );
+
+-- ------------------------------------------------------------
+-- 3. Reminders
+-- ------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.sop_acknowledgement_reminders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sop_id UUID NOT NULL REFERENCES public.sops(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  sent_by TEXT NOT NULL,
+  sent_by_name TEXT NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sop_ack_reminders_user_id ON public.sop_acknowledgement_reminders (user_id);
+
+ALTER TABLE public.sop_acknowledgement_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "sop_acknowledgement_reminders_select" ON public.sop_acknowledgement_reminders
+  FOR SELECT USING (
+    public.is_admin() OR user_id = auth.uid()::text
+  );
+
+CREATE POLICY "sop_acknowledgement_reminders_insert" ON public.sop_acknowledgement_reminders
+  FOR INSERT WITH CHECK (
+    public.is_admin() AND sent_by = auth.uid()::text
+  );
+
+-- Reviewers may not move published_at or reassign departments
+CREATE OR REPLACE FUNCTION public.restrict_reviewer_sop_updates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title
+     OR NEW.description IS DISTINCT FROM OLD.description
+     OR NEW.department IS DISTINCT FROM OLD.department
+     OR NEW.category IS DISTINCT FROM OLD.category
+     OR NEW.steps IS DISTINCT FROM OLD.steps
+     OR NEW.tags IS DISTINCT FROM OLD.tags
+     OR NEW.is_template IS DISTINCT FROM OLD.is_template
+     OR NEW.assigned_departments IS DISTINCT FROM OLD.assigned_departments
+     OR NEW.review->'reviewers' IS DISTINCT FROM OLD.review->'reviewers'
+     OR NEW.review->'requiredApprovals' IS DISTINCT FROM OLD.review->'requiredApprovals' THEN
+    RAISE EXCEPTION 'Reviewers may only record a review decision';
+  END IF;
+
+  -- Approving reviewers publish the SOP, which stamps a new version
+  IF NEW.published_at IS DISTINCT FROM OLD.published_at AND NEW.status <> 'published' THEN
+    RAISE EXCEPTION 'Reviewers may only record a review decision';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;